@@ -1,19 +1,49 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
+import { rmSync } from 'fs';
+import { basename, extname, join } from 'path';
 import { OutputFormatter, GlobalOptions } from './OutputFormatter.js';
-import { ERROR_CODES } from '../lib/util.js';
+import { ERROR_CODES, expandPath } from '../lib/util.js';
 import { ErrorCode } from '../core/ErrorCodes.js';
 import { Result } from '../core/Result.js';
+import {
+  parseA11yAuditOptions,
+  parseConditionWaitOptions,
+  parseDomEvalOptions,
+  parseDomLiteOptions,
+  parseFillOptions,
+  parseMouseOptions,
+  parseNavigationOptions,
+  parseNetworkIdleOptions,
+  parseOutlineOptions,
+  parseScreenshotOptions,
+  parseScrollByOptions,
+  parseScrollToOptions,
+  parseTypeOptions,
+  parseWaitIdleOptions
+} from '../commands/options.js';
 import type { ScreenshotOptions } from '../commands/screenshot.js';
 import type { MouseOptions } from '../commands/mouse.js';
 import type { KeyboardOptions } from '../commands/keyboard.js';
-import type { InputOptions, InputValueOptions, FormSubmitOptions } from '../commands/input.js';
+import type { InputValueOptions, FormSubmitOptions } from '../commands/input.js';
 import type { TabFocusOptions, TabListOptions, TabFocusIndexOptions } from '../commands/tab.js';
+import type { WindowCommand, WindowActionData } from '../commands/window.js';
+import type { ConditionWaitOptions, WaitResult } from '../commands/wait.js';
+import type { SnapshotDiffOptions } from '../commands/snapshot-diff.js';
+import type { NetworkEventType } from '../commands/netlog.js';
 import type { IServiceContainer } from '../di/ServiceContainer.js';
+import type { InvocationRunner } from '../daemon/DaemonProtocol.js';
 
 interface TabInfoOptions {
   windowIndex: number;
 }
 
+/**
+ * Accumulate a repeatable option into an array
+ */
+function collectOption(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 /**
  * Central registry for all CLI commands
  * Handles command registration and execution
@@ -22,6 +52,7 @@ export class CommandRegistry {
   private program: Command;
   private formatter: OutputFormatter;
   private serviceContainer?: IServiceContainer;
+  private invocationRunner?: InvocationRunner;
 
   constructor(program: Command, formatter: OutputFormatter) {
     this.program = program;
@@ -35,6 +66,13 @@ export class CommandRegistry {
     this.serviceContainer = container;
   }
 
+  /**
+   * Set the runner the daemon uses to execute forwarded invocations
+   */
+  setInvocationRunner(runner: InvocationRunner): void {
+    this.invocationRunner = runner;
+  }
+
   /**
    * Get or create service container
    */
@@ -53,17 +91,27 @@ export class CommandRegistry {
     this.registerDoctorCommand();
     this.registerNavigationCommands();
     this.registerTabCommands();
+    this.registerWindowCommands();
+    this.registerWindowManagementCommands();
     this.registerScreenshotCommands();
     this.registerMouseCommands();
     this.registerKeyboardCommands();
     this.registerInputCommands();
     this.registerWaitCommand();
     this.registerNetlogCommands();
+    this.registerSanitizeCommands();
     this.registerSnapshotCommands();
+    this.registerA11yCommands();
     this.registerScrollCommands();
     this.registerFilesCommands();
     this.registerDomCommands();
     this.registerMetaCommands();
+    this.registerConfigCommands();
+    this.registerDaemonCommands();
+    this.registerRunCommand();
+    this.registerMcpCommand();
+    this.registerTraceCommands();
+    this.registerRecordCommands();
     await this.registerBenchmarkCommand();
   }
 
@@ -187,31 +235,19 @@ export class CommandRegistry {
       .option('--hard', 'perform hard reload (bypass cache)')
       .option('--wait', 'wait for page load completion')
       .option('--timeout <ms>', 'reload timeout in milliseconds', '30000')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { NavigationCommand } = await import('../commands/navigation.js');
           const cmd = new NavigationCommand();
           
-          const windowIndex = parseInt(options.window, 10);
-          const timeoutMs = parseInt(options.timeout, 10);
-          
-          if (isNaN(windowIndex) || windowIndex < 1) {
-            this.formatter.output(null, 'Invalid window index. Must be a positive integer.', ERROR_CODES.INVALID_INPUT);
+          const navigationOptions = parseNavigationOptions(options, 30000);
+          if (!navigationOptions.success) {
+            this.formatter.output(null, navigationOptions.error, navigationOptions.code);
             return;
           }
           
-          if (isNaN(timeoutMs) || timeoutMs < 1000) {
-            this.formatter.output(null, 'Invalid timeout. Must be at least 1000ms.', ERROR_CODES.INVALID_INPUT);
-            return;
-          }
-          
-          const result = await cmd.reload({
-            windowIndex,
-            waitForLoad: options.wait,
-            timeoutMs,
-            hardReload: options.hard
-          });
+          const result = await cmd.reload(navigationOptions.data);
           
           if (result.success) {
             this.formatter.output(result.data, undefined, result.code);
@@ -229,30 +265,19 @@ export class CommandRegistry {
       .description('Navigate back in browser history')
       .option('--wait', 'wait for page load completion')
       .option('--timeout <ms>', 'navigation timeout in milliseconds', '30000')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { NavigationCommand } = await import('../commands/navigation.js');
           const cmd = new NavigationCommand();
           
-          const windowIndex = parseInt(options.window, 10);
-          const timeoutMs = parseInt(options.timeout, 10);
-          
-          if (isNaN(windowIndex) || windowIndex < 1) {
-            this.formatter.output(null, 'Invalid window index. Must be a positive integer.', ERROR_CODES.INVALID_INPUT);
-            return;
-          }
-          
-          if (isNaN(timeoutMs) || timeoutMs < 1000) {
-            this.formatter.output(null, 'Invalid timeout. Must be at least 1000ms.', ERROR_CODES.INVALID_INPUT);
+          const navigationOptions = parseNavigationOptions(options, 30000);
+          if (!navigationOptions.success) {
+            this.formatter.output(null, navigationOptions.error, navigationOptions.code);
             return;
           }
           
-          const result = await cmd.back({
-            windowIndex,
-            waitForLoad: options.wait,
-            timeoutMs
-          });
+          const result = await cmd.back(navigationOptions.data);
           
           if (result.success) {
             this.formatter.output(result.data, undefined, result.code);
@@ -270,30 +295,19 @@ export class CommandRegistry {
       .description('Navigate forward in browser history')
       .option('--wait', 'wait for page load completion')
       .option('--timeout <ms>', 'navigation timeout in milliseconds', '30000')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { NavigationCommand } = await import('../commands/navigation.js');
           const cmd = new NavigationCommand();
           
-          const windowIndex = parseInt(options.window, 10);
-          const timeoutMs = parseInt(options.timeout, 10);
-          
-          if (isNaN(windowIndex) || windowIndex < 1) {
-            this.formatter.output(null, 'Invalid window index. Must be a positive integer.', ERROR_CODES.INVALID_INPUT);
-            return;
-          }
-          
-          if (isNaN(timeoutMs) || timeoutMs < 1000) {
-            this.formatter.output(null, 'Invalid timeout. Must be at least 1000ms.', ERROR_CODES.INVALID_INPUT);
+          const navigationOptions = parseNavigationOptions(options, 30000);
+          if (!navigationOptions.success) {
+            this.formatter.output(null, navigationOptions.error, navigationOptions.code);
             return;
           }
           
-          const result = await cmd.forward({
-            windowIndex,
-            waitForLoad: options.wait,
-            timeoutMs
-          });
+          const result = await cmd.forward(navigationOptions.data);
           
           if (result.success) {
             this.formatter.output(result.data, undefined, result.code);
@@ -311,30 +325,19 @@ export class CommandRegistry {
       .description('Navigate to URL')
       .option('--wait', 'wait for page load completion')
       .option('--timeout <ms>', 'navigation timeout in milliseconds', '30000')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (url, options) => {
         try {
           const { NavigationCommand } = await import('../commands/navigation.js');
           const cmd = new NavigationCommand();
           
-          const windowIndex = parseInt(options.window, 10);
-          const timeoutMs = parseInt(options.timeout, 10);
-          
-          if (isNaN(windowIndex) || windowIndex < 1) {
-            this.formatter.output(null, 'Invalid window index. Must be a positive integer.', ERROR_CODES.INVALID_INPUT);
-            return;
-          }
-          
-          if (isNaN(timeoutMs) || timeoutMs < 1000) {
-            this.formatter.output(null, 'Invalid timeout. Must be at least 1000ms.', ERROR_CODES.INVALID_INPUT);
+          const navigationOptions = parseNavigationOptions(options, 30000);
+          if (!navigationOptions.success) {
+            this.formatter.output(null, navigationOptions.error, navigationOptions.code);
             return;
           }
           
-          const result = await cmd.go(url, {
-            windowIndex,
-            waitForLoad: options.wait,
-            timeoutMs
-          });
+          const result = await cmd.go(url, navigationOptions.data);
           
           if (result.success) {
             this.formatter.output(result.data, undefined, result.code);
@@ -355,7 +358,7 @@ export class CommandRegistry {
     this.program
       .command('focus-tab <pattern>')
       .description('Focus tab by pattern matching title or URL')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .option('--exact', 'Use exact matching instead of substring matching')
       .action(async (pattern, options) => {
         try {
@@ -384,7 +387,7 @@ export class CommandRegistry {
     this.program
       .command('active-tab')
       .description('Get information about the currently active tab')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { TabCommand } = await import('../commands/tab.js');
@@ -410,7 +413,7 @@ export class CommandRegistry {
     this.program
       .command('list-tabs')
       .description('List all tabs in a Chrome window')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { TabCommand } = await import('../commands/tab.js');
@@ -436,7 +439,7 @@ export class CommandRegistry {
     this.program
       .command('focus-tab-index <index>')
       .description('Focus tab by its index position (1-based)')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (tabIndex, options) => {
         try {
           const { TabCommand } = await import('../commands/tab.js');
@@ -460,9 +463,102 @@ export class CommandRegistry {
       });
   }
 
+  private registerWindowCommands(): void {
+    const windowsCmd = this.program
+      .command('windows')
+      .description('Chrome window commands');
+
+    windowsCmd
+      .command('list')
+      .description('List Chrome windows with stable ids, bounds, tab counts and state')
+      .action(async () => {
+        try {
+          const { WindowCommand } = await import('../commands/window.js');
+          const result = await new WindowCommand().list();
+
+          if (result.success) {
+            this.formatter.output(result.data);
+          } else {
+            this.formatter.output(null, result.error, result.code);
+          }
+        } catch (error) {
+          this.formatter.output(null, `List windows failed: ${error}`, ErrorCode.UNKNOWN_ERROR);
+        }
+      });
+  }
+
+  private registerWindowManagementCommands(): void {
+    const windowCmd = this.program
+      .command('window')
+      .description('Open, close, move, resize, minimize and full-screen Chrome windows');
+
+    windowCmd
+      .command('new')
+      .description('Open a new Chrome window')
+      .option('--incognito', 'open an incognito window')
+      .option('--url <url>', 'URL to load in the new window')
+      .option('--viewport <WxH>', 'resize the window so the page viewport is exactly WxH, e.g. 1280x800')
+      .action(async (options) => {
+        await this.executeWindowCommand('New window', command => command.create({
+          incognito: Boolean(options.incognito),
+          url: options.url,
+          viewport: options.viewport
+        }));
+      });
+
+    windowCmd
+      .command('close')
+      .description('Close a Chrome window and all of its tabs')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
+      .action(async (options) => {
+        await this.executeWindowCommand('Close window', command => command.close({
+          windowIndex: parseInt(options.window, 10)
+        }));
+      });
+
+    windowCmd
+      .command('set-bounds')
+      .description('Move and resize a Chrome window; omitted coordinates keep their current value')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
+      .option('--x <points>', 'left edge in screen points')
+      .option('--y <points>', 'top edge in screen points')
+      .option('--width <points>', 'outer window width in screen points')
+      .option('--height <points>', 'outer window height in screen points')
+      .option('--viewport <WxH>', 'resize the window so the page viewport is exactly WxH, e.g. 1280x800')
+      .action(async (options) => {
+        const numberOption = (value?: string) => value !== undefined ? Number(value) : undefined;
+        await this.executeWindowCommand('Set window bounds', command => command.setBounds({
+          windowIndex: parseInt(options.window, 10),
+          x: numberOption(options.x),
+          y: numberOption(options.y),
+          width: numberOption(options.width),
+          height: numberOption(options.height),
+          viewport: options.viewport
+        }));
+      });
+
+    const stateCommands = [
+      { name: 'minimize', description: 'Minimize a Chrome window to the Dock', label: 'Minimize window' },
+      { name: 'restore', description: 'Restore a minimized or full screen window and bring it to the front', label: 'Restore window' },
+      { name: 'fullscreen', description: 'Bring a Chrome window to the front and enter full screen (needs accessibility access)', label: 'Full screen window' }
+    ] as const;
+
+    for (const { name, description, label } of stateCommands) {
+      windowCmd
+        .command(name)
+        .description(description)
+        .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
+        .action(async (options) => {
+          await this.executeWindowCommand(label, command => command[name]({
+            windowIndex: parseInt(options.window, 10)
+          }));
+        });
+    }
+  }
+
   private registerScreenshotCommands(): void {
     // Unified screenshot command - handles viewport, element, navigation, and fullscreen
-    this.program
+    const screenshotCmd = this.program
       .command('screenshot [url]')
       .description('Take screenshot (optionally navigate to URL first)')
       .option('--out <path>', 'Output file path (auto-generated if not specified)')
@@ -471,15 +567,25 @@ export class CommandRegistry {
       .option('--save-file', 'Save to file instead of returning base64 (default: return base64)')
       .option('--wait', 'wait for page load completion (when navigating)')
       .option('--timeout <ms>', 'navigation/screenshot timeout in milliseconds', '30000')
-      .option('--window <index>', 'Target window index', '1')
-      .option('--selector <selector>', 'CSS selector for element screenshot')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
+      .option('--selector <selector>', 'CSS selector or locator for element screenshot')
       .option('--fullscreen', 'capture entire screen instead of browser viewport')
+      .option('--full-page', 'capture the whole page by scrolling and stitching viewport tiles')
+      .option('--mask <selector>', 'paint over every element matching this CSS selector (repeatable)', collectOption, [])
+      .option('--mask-text <regex>', 'paint over text matching this regular expression (repeatable)', collectOption, [])
+      .option('--annotate', 'draw numbered boxes over interactive elements and return the legend (viewport only)')
+      .option('--baseline-dir <dir>', 'compare with the baseline of the same name in this directory (created when missing)')
+      .option('--baseline-name <name>', 'baseline file name without extension (default: --out file name or "screenshot")')
+      .option('--update', 'replace the baseline with the new screenshot (with --baseline-dir)')
+      .option('--threshold <n>', 'per-channel difference 0-255 that still counts as equal (with --baseline-dir)', '16')
+      .option('--antialiasing <px>', 'radius searched for antialiased edges, 0 to disable (with --baseline-dir)', '1')
+      .option('--max-diff <percent>', 'mismatch percentage that still passes (with --baseline-dir)', '0')
       .action(async (url, options) => {
         await this.executeScreenshotCommand(url, options);
       });
 
     // Add 'capture' as alias for 'screenshot'
-    this.program
+    const captureCmd = this.program
       .command('capture [url]')
       .description('Alias for screenshot command')
       .option('--out <path>', 'Output file path (auto-generated if not specified)')
@@ -488,26 +594,71 @@ export class CommandRegistry {
       .option('--save-file', 'Save to file instead of returning base64 (default: return base64)')
       .option('--wait', 'wait for page load completion (when navigating)')
       .option('--timeout <ms>', 'navigation/screenshot timeout in milliseconds', '30000')
-      .option('--window <index>', 'Target window index', '1')
-      .option('--selector <selector>', 'CSS selector for element screenshot')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
+      .option('--selector <selector>', 'CSS selector or locator for element screenshot')
       .option('--fullscreen', 'capture entire screen instead of browser viewport')
+      .option('--full-page', 'capture the whole page by scrolling and stitching viewport tiles')
+      .option('--mask <selector>', 'paint over every element matching this CSS selector (repeatable)', collectOption, [])
+      .option('--mask-text <regex>', 'paint over text matching this regular expression (repeatable)', collectOption, [])
+      .option('--annotate', 'draw numbered boxes over interactive elements and return the legend (viewport only)')
+      .option('--baseline-dir <dir>', 'compare with the baseline of the same name in this directory (created when missing)')
+      .option('--baseline-name <name>', 'baseline file name without extension (default: --out file name or "screenshot")')
+      .option('--update', 'replace the baseline with the new screenshot (with --baseline-dir)')
+      .option('--threshold <n>', 'per-channel difference 0-255 that still counts as equal (with --baseline-dir)', '16')
+      .option('--antialiasing <px>', 'radius searched for antialiased edges, 0 to disable (with --baseline-dir)', '1')
+      .option('--max-diff <percent>', 'mismatch percentage that still passes (with --baseline-dir)', '0')
       .action(async (url, options) => {
         await this.executeScreenshotCommand(url, options);
       });
 
+    for (const parent of [screenshotCmd, captureCmd]) {
+      parent
+        .command('compare <baseline> <actual>')
+        .description('Compare two screenshots pixel by pixel and write a diff image')
+        .option('--threshold <n>', 'per-channel difference 0-255 that still counts as equal', '16')
+        .option('--antialiasing <px>', 'radius searched for antialiased edges, 0 to disable', '1')
+        .option('--max-diff <percent>', 'mismatch percentage that still passes', '0')
+        .option('--diff <path>', 'diff image path (default: <actual>.diff.png)')
+        .action(async (baseline: string, actual: string, options) => {
+          try {
+            const { compareScreenshots } = await import('../commands/screenshot-compare.js');
+            const result = await compareScreenshots(baseline, actual, {
+              threshold: Number(options.threshold),
+              antialiasing: Number(options.antialiasing),
+              maxDiffPercentage: Number(options.maxDiff),
+              ...(options.diff && { diffPath: options.diff })
+            });
+
+            if (!result.success) {
+              this.formatter.output(null, result.error, result.code);
+              return;
+            }
+
+            this.formatter.output(result.data);
+            // Mismatches above --max-diff gate the exit code
+            if (!result.data.passed) {
+              process.exitCode = ErrorCode.VALIDATION_FAILED;
+            }
+          } catch (error) {
+            this.formatter.output(null, `Screenshot compare failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+          }
+        });
+    }
   }
 
   private registerMouseCommands(): void {
     // Natural top-level click command (unified mouse interaction)
     this.program
       .command('click <selector>')
-      .description('Click on element by CSS selector')
+      .description('Click on element by CSS selector or locator')
       .option('--button <button>', 'Mouse button (left|right|middle)', 'left')
       .option('--click-count <count>', 'Number of clicks (1=single, 2=double)', '1')
       .option('--hover-only', 'Only hover over element without clicking')
       .option('--offset-x <x>', 'X offset from element center')
       .option('--offset-y <y>', 'Y offset from element center')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--timeout <ms>', 'maximum time to wait for the element to become actionable', '5000')
+      .option('--force', 'skip actionability checks (visible, stable, enabled, not covered)')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (selector, options) => {
         // Determine action based on options
         let action: 'click' | 'doubleClick' | 'rightClick' | 'move';
@@ -528,10 +679,12 @@ export class CommandRegistry {
     // Add 'double-click' as alias for 'click --click-count 2'
     this.program
       .command('double-click <selector>')
-      .description('Double-click on element by CSS selector')
+      .description('Double-click on element by CSS selector or locator')
       .option('--offset-x <x>', 'X offset from element center')
       .option('--offset-y <y>', 'Y offset from element center')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--timeout <ms>', 'maximum time to wait for the element to become actionable', '5000')
+      .option('--force', 'skip actionability checks (visible, stable, enabled, not covered)')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (selector, options) => {
         await this.executeMouseCommand(selector, 'doubleClick', options);
       });
@@ -539,10 +692,12 @@ export class CommandRegistry {
     // Add 'right-click' as alias for 'click --button right'
     this.program
       .command('right-click <selector>')
-      .description('Right-click (context menu) on element by CSS selector')
+      .description('Right-click (context menu) on element by CSS selector or locator')
       .option('--offset-x <x>', 'X offset from element center')
       .option('--offset-y <y>', 'Y offset from element center')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--timeout <ms>', 'maximum time to wait for the element to become actionable', '5000')
+      .option('--force', 'skip actionability checks (visible, stable, enabled, not covered)')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (selector, options) => {
         await this.executeMouseCommand(selector, 'rightClick', options);
       });
@@ -550,14 +705,53 @@ export class CommandRegistry {
     // Add 'hover' as alias for 'click --hover-only'
     this.program
       .command('hover <selector>')
-      .description('Hover over element by CSS selector')
+      .description('Hover over element by CSS selector or locator')
       .option('--offset-x <x>', 'X offset from element center')
       .option('--offset-y <y>', 'Y offset from element center')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (selector, options) => {
         await this.executeMouseCommand(selector, 'move', options);
       });
 
+    // Click an element by its number in the last annotated screenshot
+    this.program
+      .command('click-ref <n>')
+      .description('Click the element numbered <n> in the last screenshot --annotate capture')
+      .option('--button <button>', 'Mouse button (left|right|middle)', 'left')
+      .option('--click-count <count>', 'Number of clicks (1=single, 2=double)', '1')
+      .option('--timeout <ms>', 'maximum time to wait for the element to become actionable', '5000')
+      .option('--force', 'skip actionability checks (visible, stable, enabled, not covered)')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern> (default: the annotated window)')
+      .action(async (n, options) => {
+        try {
+          const { locateAnnotationRef } = await import('../commands/annotate.js');
+          const resolved = await locateAnnotationRef(
+            Number(n),
+            options.window !== undefined ? parseInt(options.window, 10) : undefined
+          );
+          if (!resolved.success) {
+            this.formatter.output(null, resolved.error, resolved.code);
+            return;
+          }
+
+          let action: 'click' | 'doubleClick' | 'rightClick';
+          if (options.button === 'right') {
+            action = 'rightClick';
+          } else if (options.clickCount && parseInt(options.clickCount, 10) === 2) {
+            action = 'doubleClick';
+          } else {
+            action = 'click';
+          }
+
+          await this.executeMouseCommand(resolved.data.selector, action, {
+            ...options,
+            window: String(resolved.data.windowIndex)
+          });
+        } catch (error) {
+          this.formatter.output(null, `click-ref command failed: ${error}`, ErrorCode.UNKNOWN_ERROR);
+        }
+      });
+
     // Flat mouse commands - coordinate-based operations
     
     // Click at exact coordinates
@@ -566,7 +760,7 @@ export class CommandRegistry {
       .description('Click at exact coordinates')
       .option('--button <button>', 'Mouse button (left|right|middle)', 'left')
       .option('--click-count <count>', 'Number of clicks', '1')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (x, y, options) => {
         try {
           const { MouseCommand } = await import('../commands/mouse.js');
@@ -596,13 +790,13 @@ export class CommandRegistry {
     this.program
       .command('drag')
       .description('Drag from one location to another')
-      .option('--from-selector <selector>', 'CSS selector for source element')
+      .option('--from-selector <selector>', 'CSS selector or locator for source element')
       .option('--from-x <x>', 'Source X coordinate (if not using from-selector)')
       .option('--from-y <y>', 'Source Y coordinate (if not using from-selector)')
-      .option('--to-selector <selector>', 'CSS selector for target element')
+      .option('--to-selector <selector>', 'CSS selector or locator for target element')
       .option('--to-x <x>', 'Target X coordinate (if not using to-selector)')
       .option('--to-y <y>', 'Target Y coordinate (if not using to-selector)')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { MouseCommand } = await import('../commands/mouse.js');
@@ -753,7 +947,9 @@ export class CommandRegistry {
       .option('--no-clear', 'Do not clear existing content before filling')
       .option('--method <method>', 'Input method (auto|paste|type|js)', 'auto')
       .option('--speed <ms>', 'Typing speed in milliseconds (for type method)', '50')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--timeout <ms>', 'maximum time to wait for the element to become actionable', '5000')
+      .option('--force', 'skip actionability checks (visible, stable, enabled, not covered)')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .option('--mask-secret', 'Mask value in logs (for sensitive data)')
       .option('--get-value', 'Get current value instead of filling (ignores <value>)')
       .action(async (selector, value, options) => {
@@ -770,8 +966,8 @@ export class CommandRegistry {
     inputCmd
       .command('get-value')
       .description('Get current value of input field')
-      .requiredOption('--selector <selector>', 'CSS selector for input element')
-      .option('--window <index>', 'Target window index', '1')
+      .requiredOption('--selector <selector>', 'CSS selector or locator for input element')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .option('--json', 'Output result as JSON')
       .action(async (options) => {
         await this.executeInputCommand('getValue', options.selector, undefined, { window: options.window });
@@ -785,7 +981,7 @@ export class CommandRegistry {
       .command('submit')
       .description('Submit form')
       .requiredOption('--selector <selector>', 'CSS selector for form or submit button')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .option('--json', 'Output result as JSON')
       .action(async (options) => {
         try {
@@ -823,22 +1019,21 @@ export class CommandRegistry {
   }
 
   private registerWaitCommand(): void {
-    this.program
+    const waitCmd = this.program
       .command('wait')
-      .description('Wait for a specified duration')
+      .description('Wait for a specified duration or a page condition')
       .option('--ms <milliseconds>', 'duration to wait in milliseconds', '800')
       .action(async (options) => {
         try {
           const { waitIdle } = await import('../commands/wait.js');
           
-          const milliseconds = parseInt(options.ms, 10);
-          
-          if (isNaN(milliseconds)) {
-            this.formatter.output(null, 'Invalid milliseconds value. Must be a number.', ERROR_CODES.INVALID_INPUT);
+          const waitOptions = parseWaitIdleOptions(options);
+          if (!waitOptions.success) {
+            this.formatter.output(null, waitOptions.error, waitOptions.code);
             return;
           }
           
-          const result = await waitIdle({ milliseconds });
+          const result = await waitIdle(waitOptions.data);
           
           if (result.success) {
             this.formatter.output(result.data, undefined, result.code);
@@ -850,6 +1045,108 @@ export class CommandRegistry {
           this.formatter.output(null, `Wait command failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
         }
       });
+
+    this.addConditionWaitOptions(
+      waitCmd
+        .command('selector <selector>')
+        .description('Wait for an element to be present, visible, hidden or detached')
+        .option('--state <state>', 'element state (present|visible|hidden|detached)', 'visible')
+    ).action(async (selector, options) => {
+      await this.executeConditionWait('selector', parseConditionWaitOptions(options), async (waitOptions) => {
+        const { waitForSelector } = await import('../commands/wait.js');
+        return waitForSelector(selector, { ...waitOptions, state: options.state });
+      });
+    });
+
+    this.addConditionWaitOptions(
+      waitCmd
+        .command('text <text>')
+        .description('Wait for text to be present in the page')
+    ).action(async (text, options) => {
+      await this.executeConditionWait('text', parseConditionWaitOptions(options), async (waitOptions) => {
+        const { waitForText } = await import('../commands/wait.js');
+        return waitForText(text, waitOptions);
+      });
+    });
+
+    this.addConditionWaitOptions(
+      waitCmd
+        .command('url <pattern>')
+        .description('Wait for the page URL to match a substring or /regex/')
+    ).action(async (pattern, options) => {
+      await this.executeConditionWait('url', parseConditionWaitOptions(options), async (waitOptions) => {
+        const { waitForUrl } = await import('../commands/wait.js');
+        return waitForUrl(pattern, waitOptions);
+      });
+    });
+
+    this.addConditionWaitOptions(
+      waitCmd
+        .command('title <pattern>')
+        .description('Wait for the page title to match a substring or /regex/')
+    ).action(async (pattern, options) => {
+      await this.executeConditionWait('title', parseConditionWaitOptions(options), async (waitOptions) => {
+        const { waitForTitle } = await import('../commands/wait.js');
+        return waitForTitle(pattern, waitOptions);
+      });
+    });
+
+    this.addConditionWaitOptions(
+      waitCmd
+        .command('network-idle')
+        .description('Wait until no fetch/XHR requests are pending (requires netlog start)')
+        .option('--idle <ms>', 'required quiet period in milliseconds', '500')
+    ).action(async (options) => {
+      await this.executeConditionWait('network-idle', parseNetworkIdleOptions(options), async (waitOptions) => {
+        const { waitForNetworkIdle } = await import('../commands/wait.js');
+        return waitForNetworkIdle(waitOptions);
+      });
+    });
+
+    this.addConditionWaitOptions(
+      waitCmd
+        .command('js <predicate>')
+        .description('Wait for a JavaScript expression to become truthy')
+    ).action(async (predicate, options) => {
+      await this.executeConditionWait('js', parseConditionWaitOptions(options), async (waitOptions) => {
+        const { waitForFunction } = await import('../commands/wait.js');
+        return waitForFunction(predicate, waitOptions);
+      });
+    });
+  }
+
+  /**
+   * Add polling options shared by condition wait subcommands
+   */
+  private addConditionWaitOptions(command: Command): Command {
+    return command
+      .option('--timeout <ms>', 'maximum time to wait in milliseconds', '30000')
+      .option('--interval <ms>', 'polling interval in milliseconds', '100')
+      .option('--tab <index>', 'target tab index', '1')
+      .option('--window <target>', 'target window: index, id:<n>, title:<pattern> or url:<pattern>', '1');
+  }
+
+  private async executeConditionWait<O extends ConditionWaitOptions>(
+    name: string,
+    waitOptions: Result<O, string>,
+    wait: (waitOptions: O) => Promise<Result<WaitResult, string>>
+  ): Promise<void> {
+    try {
+      if (!waitOptions.success) {
+        this.formatter.output(null, waitOptions.error, waitOptions.code);
+        return;
+      }
+
+      const result = await wait(waitOptions.data);
+
+      if (result.success) {
+        this.formatter.output(result.data, undefined, result.code);
+      } else {
+        this.formatter.output(null, result.error, result.code);
+      }
+    } catch (error) {
+      this.formatter.output(null, `Wait ${name} failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+    }
   }
 
   private registerNetlogCommands(): void {
@@ -862,12 +1159,14 @@ export class CommandRegistry {
       .description('Start network monitoring')
       .option('--max-events <number>', 'maximum number of events to store', '100')
       .option('--body-limit <bytes>', 'maximum body preview size in bytes', '2048')
+      .option('--max-frames <number>', 'maximum WebSocket frames kept per connection', '100')
       .action(async (options) => {
         try {
           const { startNetworkMonitoring } = await import('../commands/netlog.js');
           
           const maxEvents = parseInt(options.maxEvents as string, 10);
           const bodyPreviewLimit = parseInt(options.bodyLimit as string, 10);
+          const maxWebSocketFrames = parseInt(options.maxFrames as string, 10);
           
           if (isNaN(maxEvents) || maxEvents < 1 || maxEvents > 10000) {
             this.formatter.output(null, 'Invalid max-events value. Must be between 1 and 10000', ERROR_CODES.INVALID_INPUT);
@@ -879,13 +1178,19 @@ export class CommandRegistry {
             return;
           }
           
+          if (isNaN(maxWebSocketFrames) || maxWebSocketFrames < 1 || maxWebSocketFrames > 10000) {
+            this.formatter.output(null, 'Invalid max-frames value. Must be between 1 and 10000', ERROR_CODES.INVALID_INPUT);
+            return;
+          }
+          
           const result = await startNetworkMonitoring({ 
             maxEvents, 
-            bodyPreviewLimit 
+            bodyPreviewLimit,
+            maxWebSocketFrames
           });
           
           if (result.success) {
-            this.formatter.output(`Network monitoring started (max events: ${maxEvents}, body limit: ${bodyPreviewLimit} bytes)`);
+            this.formatter.output(`Network monitoring started (max events: ${maxEvents}, body limit: ${bodyPreviewLimit} bytes, max frames: ${maxWebSocketFrames})`);
           } else {
             this.formatter.output(null, result.error || 'Failed to start network monitoring', ERROR_CODES.CHROME_NOT_FOUND);
           }
@@ -965,6 +1270,270 @@ export class CommandRegistry {
           this.formatter.output(null, `Network log clear failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
         }
       });
+
+    netlogCmd
+      .command('stats')
+      .description('Summarize latency percentiles, error rates and sizes of captured events')
+      .option('--top <n>', 'number of slowest requests to list', '10')
+      .option('--waterfall', 'also render a text waterfall of the requests')
+      .option('--width <cols>', 'waterfall bar width in characters', '50')
+      .option('--rows <n>', 'maximum waterfall rows', '50')
+      .action(async (options) => {
+        try {
+          const { dumpNetworkLog } = await import('../commands/netlog.js');
+          const {
+            computeNetworkStats,
+            formatNetworkStats,
+            renderWaterfall,
+            validateNetworkStatsOptions,
+            validateWaterfallOptions
+          } = await import('../commands/netlog-stats.js');
+
+          const statsOptions = validateNetworkStatsOptions({ top: parseInt(options.top, 10) });
+          if (!statsOptions.success) {
+            this.formatter.output(null, statsOptions.error, statsOptions.code);
+            return;
+          }
+          const waterfallOptions = validateWaterfallOptions({
+            width: parseInt(options.width, 10),
+            maxRows: parseInt(options.rows, 10)
+          });
+          if (!waterfallOptions.success) {
+            this.formatter.output(null, waterfallOptions.error, waterfallOptions.code);
+            return;
+          }
+
+          const result = await dumpNetworkLog();
+          if (!result.success) {
+            this.formatter.output(null, result.error || 'Failed to dump network log', ERROR_CODES.CHROME_NOT_FOUND);
+            return;
+          }
+          if (!result.data) {
+            this.formatter.output(null, 'No network log data available', ERROR_CODES.TARGET_NOT_FOUND);
+            return;
+          }
+
+          const report = computeNetworkStats(result.data.events, statsOptions.data);
+          const waterfall = options.waterfall ? renderWaterfall(result.data.events, waterfallOptions.data) : undefined;
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (globalOpts.json) {
+            this.formatter.output(waterfall !== undefined ? { ...report, waterfall } : report);
+          } else {
+            console.log(formatNetworkStats(report));
+            if (waterfall !== undefined) {
+              console.log('');
+              console.log(waterfall);
+            }
+          }
+        } catch (error) {
+          this.formatter.output(null, `Network stats failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    netlogCmd
+      .command('tail')
+      .description('Stream finished network events as NDJSON (needs netlog start)')
+      .option('--method <methods>', 'comma-separated HTTP methods, e.g. GET,POST')
+      .option('--status <range>', 'status code, range or class: 404, 400-599, 5xx (0 = failed)')
+      .option('--url <regex>', 'regular expression matched against the request URL')
+      .option('--type <types>', 'comma-separated event types: fetch, xhr, websocket')
+      .option('--interval <ms>', 'poll interval in milliseconds', '500')
+      .option('--duration <ms>', 'stop after this many milliseconds')
+      .option('--count <n>', 'stop after this many events')
+      .option('--from-start', 'also print events already captured')
+      .action(async (options) => {
+        const controller = new AbortController();
+        const stop = () => controller.abort();
+        process.once('SIGINT', stop);
+        process.once('SIGTERM', stop);
+
+        try {
+          const { tailNetworkLog } = await import('../commands/netlog.js');
+          const splitList = (value?: string) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+          const result = await tailNetworkLog({
+            methods: splitList(options.method),
+            status: options.status,
+            url: options.url,
+            types: splitList(options.type) as NetworkEventType[] | undefined,
+            intervalMs: parseInt(options.interval, 10),
+            ...(options.duration !== undefined && { durationMs: parseInt(options.duration, 10) }),
+            ...(options.count !== undefined && { count: parseInt(options.count, 10) }),
+            fromStart: Boolean(options.fromStart),
+            signal: controller.signal
+          }, {
+            onEvent: event => process.stdout.write(JSON.stringify(event) + '\n'),
+            onSkipped: count => console.error(`netlog tail: ${count} event(s) left the buffer before they were read; raise --max-events on netlog start`)
+          });
+
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Network tail failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        } finally {
+          process.removeListener('SIGINT', stop);
+          process.removeListener('SIGTERM', stop);
+        }
+      });
+
+    netlogCmd
+      .command('mock')
+      .description('Answer page requests from a recorded HAR file')
+      .option('--har <file>', 'HAR file to replay')
+      .option('--mode <mode>', 'unmatched requests: passthrough or strict', 'passthrough')
+      .option('--match-body', 'also match a hash of the request body')
+      .option('--ignore-query', 'ignore query strings when matching URLs')
+      .option('--off', 'stop mocking')
+      .action(async (options) => {
+        try {
+          const { loadHARFile, createHARMockEntries, startHARMock, stopHARMock, getHARMockStatus } = await import('../commands/netlog.js');
+
+          if (options.off) {
+            const result = await stopHARMock();
+            if (result.success) {
+              this.formatter.output('HAR mocking stopped');
+            } else {
+              this.formatter.output(null, result.error || 'Failed to stop HAR mocking', ERROR_CODES.CHROME_NOT_FOUND);
+            }
+            return;
+          }
+
+          // Without --har, report the current mock counters
+          if (!options.har) {
+            const result = await getHARMockStatus();
+            if (result.success) {
+              this.formatter.output(result.data);
+            } else {
+              this.formatter.output(null, result.error || 'Failed to read HAR mock status', ERROR_CODES.CHROME_NOT_FOUND);
+            }
+            return;
+          }
+
+          if (!['passthrough', 'strict'].includes(options.mode)) {
+            this.formatter.output(null, 'Invalid mode. Must be "passthrough" or "strict"', ERROR_CODES.INVALID_INPUT);
+            return;
+          }
+
+          const harResult = loadHARFile(options.har);
+          if (!harResult.success) {
+            this.formatter.output(null, harResult.error, harResult.code);
+            return;
+          }
+
+          if (createHARMockEntries(harResult.data).length === 0) {
+            this.formatter.output(null, 'HAR file has no replayable entries', ERROR_CODES.INVALID_INPUT);
+            return;
+          }
+
+          const result = await startHARMock(harResult.data, {
+            mode: options.mode,
+            matchBody: Boolean(options.matchBody),
+            ignoreQuery: Boolean(options.ignoreQuery)
+          });
+
+          if (result.success) {
+            this.formatter.output(result.data);
+          } else {
+            this.formatter.output(null, result.error || 'Failed to start HAR mocking', ERROR_CODES.CHROME_NOT_FOUND);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Network mock failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    const rulesCmd = netlogCmd
+      .command('rules')
+      .description('Block, delay or rewrite page requests');
+
+    rulesCmd
+      .command('add')
+      .description('Add an interception rule (all matching rules apply)')
+      .requiredOption('--url <pattern>', 'URL pattern, * matches any characters')
+      .option('--method <method>', 'only match this HTTP method')
+      .option('--block', 'fail matching requests as network errors')
+      .option('--delay <ms>', 'add latency in milliseconds')
+      .option('--status <code>', 'answer with this status instead of sending the request')
+      .option('--body <text>', 'answer with this body instead of sending the request')
+      .option('--set-header <header>', 'set a request header, "Name: value" (repeatable)', collectOption, [])
+      .option('--strip-header <name>', 'remove a request header (repeatable)', collectOption, [])
+      .action(async (options) => {
+        try {
+          const { addInterceptRule, validateInterceptRule } = await import('../commands/netlog.js');
+
+          const setHeaders: Record<string, string> = {};
+          for (const header of options.setHeader as string[]) {
+            const separator = header.indexOf(':');
+            if (separator <= 0) {
+              this.formatter.output(null, `Invalid header "${header}". Use "Name: value"`, ERROR_CODES.INVALID_INPUT);
+              return;
+            }
+            setHeaders[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+          }
+
+          const validation = validateInterceptRule({
+            urlPattern: options.url,
+            ...(options.method && { method: options.method }),
+            ...(options.block && { block: true }),
+            ...(options.delay !== undefined && { delayMs: Number(options.delay) }),
+            ...(options.status !== undefined && { status: Number(options.status) }),
+            ...(options.body !== undefined && { body: options.body }),
+            ...(Object.keys(setHeaders).length > 0 && { setHeaders }),
+            ...((options.stripHeader as string[]).length > 0 && { removeHeaders: options.stripHeader })
+          });
+          if (!validation.success) {
+            this.formatter.output(null, validation.error, validation.code);
+            return;
+          }
+
+          const result = await addInterceptRule(validation.data);
+          if (result.success) {
+            this.formatter.output(result.data);
+          } else {
+            this.formatter.output(null, result.error || 'Failed to add interception rule', ERROR_CODES.CHROME_NOT_FOUND);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Network rule add failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    rulesCmd
+      .command('list')
+      .description('List interception rules with hit counts')
+      .action(async () => {
+        try {
+          const { listInterceptRules } = await import('../commands/netlog.js');
+          const result = await listInterceptRules();
+
+          if (result.success) {
+            this.formatter.output(result.data);
+          } else {
+            this.formatter.output(null, result.error || 'Failed to list interception rules', ERROR_CODES.CHROME_NOT_FOUND);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Network rule list failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    rulesCmd
+      .command('clear [id]')
+      .description('Remove one interception rule, or all rules when no id is given')
+      .action(async (id?: string) => {
+        try {
+          const { clearInterceptRules } = await import('../commands/netlog.js');
+          const result = await clearInterceptRules(id);
+
+          if (result.success) {
+            this.formatter.output(result.data);
+          } else {
+            const code = result.error?.startsWith('No interception rule') ? ERROR_CODES.TARGET_NOT_FOUND : ERROR_CODES.CHROME_NOT_FOUND;
+            this.formatter.output(null, result.error || 'Failed to clear interception rules', code);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Network rule clear failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
   }
 
   private registerSnapshotCommands(): void {
@@ -979,7 +1548,12 @@ export class CommandRegistry {
       .action(async (options) => {
         try {
           const { captureOutline, formatSnapshotResult } = await import('../commands/snapshot.js');
-          const result = await captureOutline({ visibleOnly: options.visibleOnly });
+          const outlineOptions = parseOutlineOptions(options);
+          if (!outlineOptions.success) {
+            this.formatter.output(null, outlineOptions.error, outlineOptions.code);
+            return;
+          }
+          const result = await captureOutline(outlineOptions.data);
           const formattedResult = formatSnapshotResult(result);
           
           if ('ok' in formattedResult && formattedResult.ok) {
@@ -1003,12 +1577,12 @@ export class CommandRegistry {
       .action(async (options) => {
         try {
           const { captureDomLite, formatSnapshotResult } = await import('../commands/snapshot.js');
-          const maxDepth = parseInt(options.maxDepth, 10) || 10;
-          const result = await captureDomLite({ 
-            maxDepth, 
-            visibleOnly: options.visibleOnly,
-            mode: options.mode === 'simple' ? 'simple' : 'full'
-          });
+          const domLiteOptions = parseDomLiteOptions(options);
+          if (!domLiteOptions.success) {
+            this.formatter.output(null, domLiteOptions.error, domLiteOptions.code);
+            return;
+          }
+          const result = await captureDomLite(domLiteOptions.data);
           const formattedResult = formatSnapshotResult(result);
           
           if ('ok' in formattedResult && formattedResult.ok) {
@@ -1022,7 +1596,79 @@ export class CommandRegistry {
           this.formatter.output(null, `Snapshot dom-lite failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
         }
       });
-  }
+
+    snapshotCmd
+      .command('diff <before> <after>')
+      .description('Compare two saved snapshots (JSON files)')
+      .option('--tolerance <px>', 'ignore rect changes up to this many pixels', '0')
+      .option('--ignore-state <keys>', 'comma-separated state keys to ignore (e.g. focused,value)')
+      .action(async (before: string, after: string, options) => {
+        try {
+          const { diffSnapshotFiles } = await import('../commands/snapshot-diff.js');
+          const ignoreState = options.ignoreState
+            ? String(options.ignoreState).split(',').map((key: string) => key.trim()).filter(Boolean) as SnapshotDiffOptions['ignoreState']
+            : undefined;
+          const result = diffSnapshotFiles(before, after, {
+            rectTolerance: Number(options.tolerance),
+            ...(ignoreState && { ignoreState })
+          });
+
+          if (result.success) {
+            this.formatter.output(result.data);
+          } else {
+            this.formatter.output(null, result.error, result.code);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Snapshot diff failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
+
+  private registerA11yCommands(): void {
+    const a11yCmd = this.program
+      .command('a11y')
+      .description('Accessibility checks');
+
+    a11yCmd
+      .command('audit')
+      .description('Audit the current page for common accessibility violations')
+      .option('--rules <ids>', 'comma-separated rule ids to run (default: all)')
+      .option('--fail-on <severity>', 'lowest severity that fails the audit (critical|serious|moderate|minor)', 'minor')
+      .option('--visible-only', 'only report elements visible in the viewport')
+      .option('--tab <index>', 'tab index (1-based)', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
+      .option('--timeout <ms>', 'audit timeout in milliseconds', '20000')
+      .action(async (options) => {
+        try {
+          const { auditAccessibility, formatAuditSummary } = await import('../commands/a11y.js');
+          const auditOptions = parseA11yAuditOptions(options);
+          if (!auditOptions.success) {
+            this.formatter.output(null, auditOptions.error, auditOptions.code);
+            return;
+          }
+          const result = await auditAccessibility(auditOptions.data);
+
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+            return;
+          }
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            console.log(formatAuditSummary(result.data));
+          }
+
+          // Violations at or above --fail-on gate the exit code
+          if (!result.data.passed) {
+            process.exitCode = ErrorCode.VALIDATION_FAILED;
+          }
+        } catch (error) {
+          this.formatter.output(null, `Accessibility audit failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
 
   private registerScrollCommands(): void {
     const scrollCmd = this.program
@@ -1032,26 +1678,25 @@ export class CommandRegistry {
     scrollCmd
       .command('to')
       .description('Scroll to element (centers in viewport)')
-      .requiredOption('--selector <selector>', 'CSS selector for element')
+      .requiredOption('--selector <selector>', 'CSS selector or locator for element')
       .option('--smooth', 'use smooth scrolling animation')
       .option('--tab <index>', 'tab index (1-based)', '1')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { scrollToElement } = await import('../commands/scroll.js');
           const globalOpts = this.program.opts() as GlobalOptions;
           
-          const tabIndex = parseInt(options.tab, 10);
-          const windowIndex = parseInt(options.window, 10);
           const timeoutMs = parseInt(String(globalOpts.timeout || '30000'), 10);
           
-          const result = await scrollToElement(
-            options.selector,
-            options.smooth || false,
-            tabIndex,
-            windowIndex,
-            timeoutMs
-          );
+          const scrollOptions = parseScrollToOptions(options);
+          if (!scrollOptions.success) {
+            this.formatter.output(null, scrollOptions.error, scrollOptions.code);
+            return;
+          }
+          const { selector, smooth, tabIndex, windowIndex } = scrollOptions.data;
+          
+          const result = await scrollToElement(selector, smooth, tabIndex, windowIndex, timeoutMs);
           
           if (result.success) {
             this.formatter.output(result.data);
@@ -1070,31 +1715,22 @@ export class CommandRegistry {
       .option('--smooth', 'use smooth scrolling animation')
       .option('--horizontal', 'scroll horizontally instead of vertically')
       .option('--tab <index>', 'tab index (1-based)', '1')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { scrollByPixels } = await import('../commands/scroll.js');
           const globalOpts = this.program.opts() as GlobalOptions;
           
-          const pixels = parseInt(options.px, 10);
-          const tabIndex = parseInt(options.tab, 10);
-          const windowIndex = parseInt(options.window, 10);
           const timeoutMs = parseInt(String(globalOpts.timeout || '30000'), 10);
-          const direction = options.horizontal ? 'horizontal' : 'vertical';
           
-          if (isNaN(pixels)) {
-            this.formatter.output(null, 'Invalid pixel value. Must be a number.', ERROR_CODES.INVALID_INPUT);
+          const scrollOptions = parseScrollByOptions(options);
+          if (!scrollOptions.success) {
+            this.formatter.output(null, scrollOptions.error, scrollOptions.code);
             return;
           }
+          const { px, smooth, direction, tabIndex, windowIndex } = scrollOptions.data;
           
-          const result = await scrollByPixels(
-            pixels,
-            options.smooth || false,
-            direction,
-            tabIndex,
-            windowIndex,
-            timeoutMs
-          );
+          const result = await scrollByPixels(px, smooth, direction, tabIndex, windowIndex, timeoutMs);
           
           if (result.success) {
             this.formatter.output(result.data);
@@ -1110,7 +1746,7 @@ export class CommandRegistry {
       .command('position')
       .description('Get current scroll position')
       .option('--tab <index>', 'tab index (1-based)', '1')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
       .action(async (options) => {
         try {
           const { getScrollPosition } = await import('../commands/scroll.js');
@@ -1213,22 +1849,23 @@ export class CommandRegistry {
       .description('Execute JavaScript in the Chrome page context')
       .requiredOption('--js <javascript>', 'JavaScript code to execute')
       .option('--tab <index>', 'tab index (1-based)', '1')
-      .option('--window <index>', 'Target window index', '1')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
+      .option('--frame <selector>', 'evaluate inside a same-origin iframe (use >>> for nested frames)')
+      .option('--max-size <bytes>', 'truncate results larger than this many bytes (default: 1048576)')
       .action(async (options) => {
         try {
           const { domEval, formatDomEvalResult } = await import('../commands/dom.js');
           const globalOpts = this.program.opts() as GlobalOptions;
           
-          const tabIndex = parseInt(options.tab, 10);
-          const windowIndex = parseInt(options.window, 10);
           const timeout = parseInt(String(globalOpts.timeout || '10000'), 10);
           
-          const result = await domEval({
-            js: options.js,
-            tabIndex,
-            windowIndex,
-            timeout
-          });
+          const evalOptions = parseDomEvalOptions(options, timeout);
+          if (!evalOptions.success) {
+            this.formatter.output(null, evalOptions.error, evalOptions.code);
+            return;
+          }
+          
+          const result = await domEval(evalOptions.data);
           
           const formattedResult = formatDomEvalResult(result);
           
@@ -1342,6 +1979,31 @@ export class CommandRegistry {
         }
       });
 
+    metaCmd
+      .command('schema [command...]')
+      .description('Emit JSON Schema for command options and result data')
+      .action(async (command: string[]) => {
+        try {
+          const { getCommandSchemas } = await import('../commands/meta.js');
+          const globalOpts = this.program.opts() as GlobalOptions;
+
+          const result = await getCommandSchemas(this.program, command.length > 0 ? command.join(' ') : undefined);
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+            return;
+          }
+
+          const schemas = command.length > 0 ? result.data[0] : result.data;
+          if (globalOpts.json) {
+            this.formatter.output(schemas);
+          } else {
+            console.log(JSON.stringify(schemas, null, 2));
+          }
+        } catch (error) {
+          this.formatter.output(null, `Meta schema failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
     metaCmd
       .command('permissions')
       .description('Show permission requirements for all features')
@@ -1413,6 +2075,442 @@ export class CommandRegistry {
       });
   }
 
+  private registerSanitizeCommands(): void {
+    const sanitizeCmd = this.program
+      .command('sanitize')
+      .description('Review the redaction policy applied to captured network data');
+
+    sanitizeCmd
+      .command('test')
+      .description('Show what the redaction policy would redact in a netlog dump, HAR or body file')
+      .argument('<file>', 'netlog dump JSON, HAR file or raw body')
+      .option('--policy <file>', 'JSON policy to test instead of the configured one')
+      .option('--show-sanitized', 'include the sanitized values of matching items')
+      .action(async (file: string, options) => {
+        try {
+          const { testSanitization, formatSanitizeReport } = await import('../commands/sanitize.js');
+          const result = testSanitization(file, {
+            policyFile: options.policy,
+            showSanitized: Boolean(options.showSanitized)
+          });
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            console.log(formatSanitizeReport(result.data));
+          }
+        } catch (error) {
+          this.formatter.output(null, `Sanitize test failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
+
+  private registerConfigCommands(): void {
+    const configCmd = this.program
+      .command('config')
+      .description('Show, set and validate persistent configuration (files, profiles, environment)');
+
+    configCmd
+      .command('get')
+      .description('Show the effective value of a key and where it came from')
+      .argument('<key>', 'configuration key, e.g. timeout or networkMonitoring.maxEvents')
+      .action(async (key: string) => {
+        try {
+          const { getConfig } = await import('../commands/config.js');
+          const globalOpts = this.program.opts() as GlobalOptions;
+          const result = await getConfig(key, { profile: globalOpts.profile });
+
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            console.log(typeof result.data.value === 'object' ? JSON.stringify(result.data.value, null, 2) : String(result.data.value));
+          }
+        } catch (error) {
+          this.formatter.output(null, `Config get failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    configCmd
+      .command('set')
+      .description('Set a key in the user config file, or the project .macchromerc with --project')
+      .argument('<key>', 'configuration key')
+      .argument('<value>', 'value; numbers, true/false, or JSON for sections')
+      .option('--project', 'write to the project .macchromerc instead of the user config')
+      .action(async (key: string, value: string, options) => {
+        try {
+          const { setConfig } = await import('../commands/config.js');
+          const globalOpts = this.program.opts() as GlobalOptions;
+          const result = await setConfig(key, value, {
+            scope: options.project ? 'project' : 'user',
+            profile: globalOpts.profile
+          });
+
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            const target = result.data.profile ? `profile "${result.data.profile}" in ${result.data.path}` : result.data.path;
+            console.log(`Set ${key} = ${JSON.stringify(result.data.value)} in ${target}`);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Config set failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    configCmd
+      .command('list')
+      .description('List all effective values with their source')
+      .action(async () => {
+        try {
+          const { listConfig, formatConfigList } = await import('../commands/config.js');
+          const globalOpts = this.program.opts() as GlobalOptions;
+          const result = await listConfig({ profile: globalOpts.profile });
+
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            console.log(formatConfigList(result.data));
+          }
+        } catch (error) {
+          this.formatter.output(null, `Config list failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    configCmd
+      .command('validate')
+      .description('Validate config files against the configuration schema')
+      .argument('[file]', 'file to validate (default: the user and project files in use)')
+      .action(async (file: string | undefined) => {
+        try {
+          const { validateConfig, formatConfigValidation } = await import('../commands/config.js');
+          const result = await validateConfig(file);
+
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+            return;
+          }
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            console.log(formatConfigValidation(result.data));
+          }
+
+          if (!result.data.valid) {
+            process.exitCode = ErrorCode.VALIDATION_FAILED;
+          }
+        } catch (error) {
+          this.formatter.output(null, `Config validate failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
+
+  private registerDaemonCommands(): void {
+    const daemonCmd = this.program
+      .command('daemon')
+      .description('Keep a background process that serves commands over a JSON-RPC socket');
+
+    daemonCmd
+      .command('start')
+      .description('Start the daemon; later invocations are forwarded to it')
+      .option('--foreground', 'run the daemon in this process until stopped')
+      .action(async (options) => {
+        try {
+          const { startDaemon, serveDaemon } = await import('../commands/daemon.js');
+          const globalOpts = this.program.opts() as GlobalOptions;
+
+          if (!options.foreground) {
+            const result = await startDaemon({ profile: globalOpts.profile });
+            if (!result.success) {
+              this.formatter.output(null, result.error, result.code);
+            } else if (globalOpts.json) {
+              this.formatter.output(result.data);
+            } else {
+              console.log(result.data.alreadyRunning
+                ? `Daemon already running (pid ${result.data.pid}) on ${result.data.socketPath}`
+                : `Daemon started (pid ${result.data.pid}) on ${result.data.socketPath}`);
+            }
+            return;
+          }
+
+          if (!this.invocationRunner) {
+            this.formatter.output(null, 'Daemon needs the service container, which failed to initialize', ERROR_CODES.UNKNOWN_ERROR);
+            return;
+          }
+          const { listCommandMethods, listGlobalMethodOptions } = await import('../daemon/CommandMethods.js');
+          const { loadInvocationEnvironment } = await import('../daemon/DaemonClient.js');
+          const environment = await loadInvocationEnvironment({ profile: globalOpts.profile });
+          const server = await serveDaemon({
+            runner: this.invocationRunner,
+            methods: listCommandMethods(this.program),
+            globalOptions: listGlobalMethodOptions(this.program),
+            ...(environment && { environment })
+          });
+          if (!server.success) {
+            this.formatter.output(null, server.error, server.code);
+            return;
+          }
+
+          console.error(`Daemon listening on ${server.data.status().socketPath} (pid ${process.pid})`);
+          await server.data.waitUntilStopped();
+          console.error('Daemon stopped');
+        } catch (error) {
+          this.formatter.output(null, `Daemon start failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    daemonCmd
+      .command('stop')
+      .description('Stop the running daemon')
+      .action(async () => {
+        try {
+          const { stopDaemon } = await import('../commands/daemon.js');
+          const result = await stopDaemon();
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            console.log(`Daemon stopped (pid ${result.data.pid})`);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Daemon stop failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    daemonCmd
+      .command('status')
+      .description('Show whether the daemon is running, with uptime and request count')
+      .action(async () => {
+        try {
+          const { getDaemonStatus, formatDaemonStatus } = await import('../commands/daemon.js');
+          const result = await getDaemonStatus();
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            console.log(formatDaemonStatus(result.data));
+          }
+        } catch (error) {
+          this.formatter.output(null, `Daemon status failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
+
+  private registerRunCommand(): void {
+    this.program
+      .command('run <script>')
+      .description('Run a JSON or YAML script of CLI steps in one session')
+      .option('--continue-on-error', 'continue with remaining steps when a step fails')
+      .option('--timeout <ms>', 'default per-step timeout in milliseconds')
+      .action(async (script, options) => {
+        try {
+          const { loadScript, runScript } = await import('../commands/run.js');
+
+          let timeoutMs: number | undefined;
+          if (options.timeout !== undefined) {
+            timeoutMs = parseInt(options.timeout, 10);
+            if (isNaN(timeoutMs) || timeoutMs < 1) {
+              this.formatter.output(null, 'Invalid timeout. Must be a positive number of milliseconds.', ERROR_CODES.INVALID_INPUT);
+              return;
+            }
+          }
+
+          const scriptResult = loadScript(script);
+          if (!scriptResult.success) {
+            this.formatter.output(null, scriptResult.error, scriptResult.code);
+            return;
+          }
+
+          const container = await this.getServiceContainer();
+          const result = await runScript(scriptResult.data, container, {
+            ...(options.continueOnError && { continueOnError: true }),
+            ...(timeoutMs !== undefined && { timeoutMs })
+          });
+
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+            return;
+          }
+
+          this.formatter.output(result.data, undefined, result.code);
+
+          // Report the first failing step's code as the process exit code
+          const failedStep = result.data.steps.find(step => step.status === 'failed');
+          if (failedStep?.result) {
+            process.exitCode = failedStep.result.code;
+          }
+        } catch (error) {
+          this.formatter.output(null, `Run command failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
+
+  private registerMcpCommand(): void {
+    this.program
+      .command('mcp')
+      .description('Serve browser commands as Model Context Protocol tools over stdio')
+      .option('--timeout <ms>', 'per-tool timeout in milliseconds', '30000')
+      .action(async (options) => {
+        try {
+          const { serveMcp } = await import('../commands/mcp.js');
+
+          const timeoutMs = parseInt(options.timeout, 10);
+          if (isNaN(timeoutMs) || timeoutMs < 1) {
+            this.formatter.output(null, 'Invalid timeout. Must be a positive number of milliseconds.', ERROR_CODES.INVALID_INPUT);
+            return;
+          }
+
+          const container = await this.getServiceContainer();
+          const result = await serveMcp(container, { timeoutMs });
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          }
+        } catch (error) {
+          this.formatter.output(null, `MCP server failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
+
+  private registerTraceCommands(): void {
+    const traceCmd = this.program
+      .command('trace')
+      .description('Inspect traces recorded with --trace <file>');
+
+    traceCmd
+      .command('show')
+      .description('Show a recorded trace as a timeline')
+      .argument('<file>', 'trace file written by --trace')
+      .option('--full', 'print the full script text and data of every step')
+      .action(async (file: string, options) => {
+        try {
+          const { readTrace, formatTraceTimeline } = await import('../commands/trace.js');
+          const result = readTrace(file);
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            console.log(formatTraceTimeline(result.data, { full: Boolean(options.full) }));
+          }
+        } catch (error) {
+          this.formatter.output(null, `Trace show failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
+
+  private registerRecordCommands(): void {
+    const recordCmd = this.program
+      .command('record')
+      .description('Record the Chrome window to an MP4 or GIF video');
+
+    recordCmd
+      .command('start')
+      .description('Start recording the window in the background; run record stop to save the video')
+      .option('--out <path>', 'video file; .mp4 or .gif selects the format')
+      .option('--format <format>', 'video format (mp4|gif)')
+      .option('--fps <number>', 'frames per second (1-30)', '5')
+      .option('--max-duration <seconds>', 'stop recording by itself after this long', '300')
+      .option('--no-overlays', 'do not draw click markers and typed-key captions')
+      .option('--backend <name>', 'frame source backend', 'screencapture')
+      .option('--window <target>', 'Target window: index, id:<n>, title:<pattern> or url:<pattern>', '1')
+      .addOption(new Option('--session <dir>', 'run the recorder for a session in this process').hideHelp())
+      .action(async (options) => {
+        try {
+          const { startRecording, runRecorder } = await import('../commands/record.js');
+
+          if (options.session) {
+            const controller = new AbortController();
+            const stop = () => controller.abort();
+            process.once('SIGTERM', stop);
+            process.once('SIGINT', stop);
+
+            const result = await runRecorder(options.session, controller.signal);
+            if (!result.success) {
+              console.error(`Recorder failed: ${result.error}`);
+              process.exitCode = result.code;
+            } else {
+              console.error(`Recorder stopped by ${result.data.stoppedBy} after ${result.data.frames} frame(s)`);
+            }
+            return;
+          }
+
+          const windowIndex = parseInt(options.window, 10);
+          const fps = Number(options.fps);
+          const maxDurationSeconds = Number(options.maxDuration);
+
+          if (isNaN(windowIndex) || windowIndex < 1) {
+            this.formatter.output(null, 'Invalid window index. Must be a positive integer.', ErrorCode.INVALID_INPUT);
+            return;
+          }
+
+          if (isNaN(maxDurationSeconds)) {
+            this.formatter.output(null, 'Invalid max-duration. Must be a number of seconds.', ErrorCode.INVALID_INPUT);
+            return;
+          }
+
+          const result = await startRecording({
+            ...(options.out && { output: options.out }),
+            ...(options.format && { format: options.format }),
+            fps,
+            maxDurationMs: maxDurationSeconds * 1000,
+            overlays: options.overlays !== false,
+            backend: options.backend,
+            windowIndex
+          });
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            const { rect, fps: rate, output, pid } = result.data;
+            console.log(`Recording window ${windowIndex} (${rect.width}x${rect.height}) at ${rate} fps to ${output} (pid ${pid}); run record stop to save it`);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Record start failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+
+    recordCmd
+      .command('stop')
+      .description('Stop recording and save the video')
+      .action(async () => {
+        try {
+          const { stopRecording } = await import('../commands/record.js');
+          const result = await stopRecording();
+
+          const globalOpts = this.program.opts() as GlobalOptions;
+          if (!result.success) {
+            this.formatter.output(null, result.error, result.code);
+          } else if (globalOpts.json) {
+            this.formatter.output(result.data);
+          } else {
+            const { path, frames, durationMs, width, height, clicks, keystrokes } = result.data;
+            console.log(`Saved ${frames} frame(s), ${(durationMs / 1000).toFixed(1)}s at ${width}x${height} to ${path} (${clicks} click(s), ${keystrokes} key event(s))`);
+          }
+        } catch (error) {
+          this.formatter.output(null, `Record stop failed: ${error}`, ERROR_CODES.UNKNOWN_ERROR);
+        }
+      });
+  }
 
   private async registerBenchmarkCommand(): Promise<void> {
     // Add benchmark command
@@ -1435,18 +2533,26 @@ export class CommandRegistry {
     window: string;
     selector?: string;
     fullscreen?: boolean;
+    fullPage?: boolean;
+    mask: string[];
+    maskText: string[];
+    annotate?: boolean;
+    baselineDir?: string;
+    baselineName?: string;
+    update?: boolean;
+    threshold: string;
+    antialiasing: string;
+    maxDiff: string;
   }): Promise<void> {
     try {
-      const windowIndex = parseInt(options.window, 10);
-      const timeoutMs = parseInt(options.timeout, 10);
-      
-      if (isNaN(windowIndex) || windowIndex < 1) {
-        this.formatter.output(null, 'Invalid window index. Must be a positive integer.', ErrorCode.INVALID_INPUT);
+      const navigationOptions = parseNavigationOptions(options, 30000);
+      if (!navigationOptions.success) {
+        this.formatter.output(null, navigationOptions.error, navigationOptions.code);
         return;
       }
-      
-      if (isNaN(timeoutMs) || timeoutMs < 1000) {
-        this.formatter.output(null, 'Invalid timeout. Must be at least 1000ms.', ErrorCode.INVALID_INPUT);
+      const parsed = parseScreenshotOptions(options);
+      if (!parsed.success) {
+        this.formatter.output(null, parsed.error, parsed.code);
         return;
       }
 
@@ -1455,11 +2561,7 @@ export class CommandRegistry {
         const { NavigationCommand } = await import('../commands/navigation.js');
         const navCmd = new NavigationCommand();
         
-        const navResult = await navCmd.go(url, {
-          windowIndex,
-          waitForLoad: options.wait,
-          timeoutMs
-        });
+        const navResult = await navCmd.go(url, navigationOptions.data);
         
         if (!navResult.success) {
           this.formatter.output(null, `Navigation failed: ${navResult.error}`, navResult.code);
@@ -1472,29 +2574,70 @@ export class CommandRegistry {
       const container = await this.getServiceContainer();
       const screenshotCmd = new ScreenshotCommand(container);
       
-      const format = options.format as 'png' | 'jpg' | 'pdf';
+      const format = parsed.data.format ?? 'png';
+      if (options.baselineDir && format === 'pdf') {
+        this.formatter.output(null, 'Baseline comparison supports png and jpg formats only.', ErrorCode.INVALID_INPUT);
+        return;
+      }
+
+      // Baseline comparison needs the screenshot on disk; without --out it goes next to the baseline
+      const baselineName = options.baselineName
+        || (options.out ? basename(options.out, extname(options.out)) : 'screenshot');
+      const actualPath = options.baselineDir && !options.out
+        ? join(expandPath(options.baselineDir, true), `${baselineName}.actual.${format}`)
+        : options.out;
+
       const screenshotOptions: ScreenshotOptions = {
-        outputPath: options.out,
-        format,
-        windowIndex,
-        saveFile: options.saveFile,
-        ...(format === 'jpg' && options.quality && { quality: parseInt(options.quality, 10) })
+        ...parsed.data,
+        ...(actualPath && { outputPath: actualPath }),
+        ...(options.baselineDir && { saveFile: true })
       };
       
       let result;
       
       if (options.fullscreen) {
         result = await screenshotCmd.fullscreen(screenshotOptions);
+      } else if (options.fullPage) {
+        result = await screenshotCmd.fullPage(screenshotOptions);
       } else if (options.selector) {
         result = await screenshotCmd.element(options.selector, screenshotOptions);
       } else {
         result = await screenshotCmd.viewport(screenshotOptions);
       }
       
-      if (result.success) {
-        this.formatter.output(result.data);
-      } else {
+      if (!result.success) {
         this.formatter.output(null, result.error, result.code);
+        return;
+      }
+
+      if (!options.baselineDir) {
+        this.formatter.output(result.data);
+        return;
+      }
+
+      const { checkBaseline } = await import('../commands/screenshot-compare.js');
+      const check = await checkBaseline(result.data, {
+        baselineDir: options.baselineDir,
+        name: baselineName,
+        update: Boolean(options.update),
+        threshold: Number(options.threshold),
+        antialiasing: Number(options.antialiasing),
+        maxDiffPercentage: Number(options.maxDiff)
+      });
+
+      if (!check.success) {
+        this.formatter.output(null, check.error, check.code);
+        return;
+      }
+
+      // Keep the generated screenshot only when it is needed to review a failure
+      if (!options.out && check.data.status !== 'failed') {
+        rmSync(result.data.path, { force: true });
+      }
+
+      this.formatter.output(check.data);
+      if (check.data.status === 'failed') {
+        process.exitCode = ErrorCode.VALIDATION_FAILED;
       }
     } catch (error) {
       this.formatter.output(null, `Screenshot command failed: ${error}`, ErrorCode.UNKNOWN_ERROR);
@@ -1506,20 +2649,20 @@ export class CommandRegistry {
     clickCount?: string;
     offsetX?: string;
     offsetY?: string;
+    timeout?: string;
+    force?: boolean;
     window: string;
   }): Promise<void> {
     try {
       const { MouseCommand } = await import('../commands/mouse.js');
       const mouseCommand = new MouseCommand();
       
-      const mouseOptions: MouseOptions = {
-        selector,
-        ...(options.button && { button: options.button as 'left' | 'right' | 'middle' }),
-        ...(options.clickCount && { clickCount: parseInt(options.clickCount, 10) }),
-        ...(options.offsetX && { offsetX: parseFloat(options.offsetX) }),
-        ...(options.offsetY && { offsetY: parseFloat(options.offsetY) }),
-        windowIndex: parseInt(options.window, 10)
-      };
+      const parsed = parseMouseOptions({ ...options, selector }, action);
+      if (!parsed.success) {
+        this.formatter.output(null, parsed.error, parsed.code);
+        return;
+      }
+      const mouseOptions = parsed.data;
       
       let result;
       
@@ -1562,22 +2705,23 @@ export class CommandRegistry {
       const { KeyboardCommand } = await import('../commands/keyboard.js');
       const keyboardCommand = new KeyboardCommand();
       
-      const keyboardOptions: KeyboardOptions = {
-        ...(options.text && { text: options.text }),
-        ...(options.combo && { combo: options.combo }),
-        ...(options.speed && { speed: parseInt(options.speed, 10) }),
-        ...(options.clear && { clear: options.clear }),
-        ...(options.repeat && { repeat: parseInt(options.repeat, 10) })
-      };
-      
       let result;
       
       switch (action) {
-        case 'type':
-          result = await keyboardCommand.type(keyboardOptions);
+        case 'type': {
+          const typeOptions = parseTypeOptions(options);
+          if (!typeOptions.success) {
+            this.formatter.output(null, typeOptions.error, typeOptions.code);
+            return;
+          }
+          result = await keyboardCommand.type(typeOptions.data);
           break;
+        }
         case 'combo':
-          result = await keyboardCommand.combo(keyboardOptions);
+          result = await keyboardCommand.combo({
+            ...(options.combo && { combo: options.combo }),
+            ...(options.repeat && { repeat: parseInt(options.repeat, 10) })
+          });
           break;
         default:
           this.formatter.output(null, `Unknown keyboard action: ${action}`, ErrorCode.INVALID_INPUT);
@@ -1595,11 +2739,13 @@ export class CommandRegistry {
   }
 
   private async executeInputCommand(action: 'fill' | 'getValue', selector: string, value: string | undefined, options: {
-    noClear?: boolean;
+    clear?: boolean;
     method?: string;
     speed?: string;
     window: string;
     maskSecret?: boolean;
+    timeout?: string;
+    force?: boolean;
   }): Promise<void> {
     try {
       const { InputCommand } = await import('../commands/input.js');
@@ -1608,24 +2754,16 @@ export class CommandRegistry {
       let result;
       
       switch (action) {
-        case 'fill':
-          if (!value) {
-            this.formatter.output(null, 'Value is required for fill operation', ErrorCode.INVALID_INPUT);
+        case 'fill': {
+          const fillOptions = parseFillOptions({ ...options, selector, value });
+          if (!fillOptions.success) {
+            this.formatter.output(null, fillOptions.error, fillOptions.code);
             return;
           }
           
-          const fillOptions: InputOptions = {
-            selector,
-            value,
-            clear: !options.noClear,
-            method: options.method as 'auto' | 'paste' | 'type' | 'js',
-            speed: parseInt(options.speed || '50', 10),
-            windowIndex: parseInt(options.window, 10),
-            maskSecret: options.maskSecret
-          };
-          
-          result = await inputCommand.fill(fillOptions);
+          result = await inputCommand.fill(fillOptions.data);
           break;
+        }
           
         case 'getValue':
           const valueOptions: InputValueOptions = {
@@ -1651,6 +2789,24 @@ export class CommandRegistry {
     }
   }
 
+  private async executeWindowCommand(
+    label: string,
+    run: (command: WindowCommand) => Promise<Result<WindowActionData, string>>
+  ): Promise<void> {
+    try {
+      const { WindowCommand } = await import('../commands/window.js');
+      const result = await run(new WindowCommand());
+
+      if (result.success) {
+        this.formatter.output(result.data);
+      } else {
+        this.formatter.output(null, result.error, result.code);
+      }
+    } catch (error) {
+      this.formatter.output(null, `${label} failed: ${error}`, ErrorCode.UNKNOWN_ERROR);
+    }
+  }
+
   private async executeGenericCommand<T, R>(
     commandModule: string,
     commandClass: string,
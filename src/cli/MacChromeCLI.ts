@@ -1,16 +1,37 @@
-import { Command } from 'commander';
+import { Command, CommanderError } from 'commander';
 import { OutputFormatter, GlobalOptions } from './OutputFormatter.js';
 import { CommandRegistry } from './CommandRegistry.js';
 import { ErrorCode } from '../core/index.js';
 import { createFormattedResponse, ErrorUtils } from '../core/ErrorUtils.js';
 import { createServiceContainer } from '../di/ServiceRegistry.js';
+import { loadConfiguration } from '../di/services/ConfigurationLoader.js';
+import type { PartialConfiguration } from '../di/services/ConfigurationSchema.js';
+import { forwardToDaemon } from '../daemon/DaemonClient.js';
+import { captureInvocation } from '../daemon/InvocationCapture.js';
+import type { InvocationRunner } from '../daemon/DaemonProtocol.js';
 import { SERVICE_TOKENS } from '../di/ServiceTokens.js';
+import { appleScriptService } from '../services/AppleScriptService.js';
 import { initializeLogger } from '../lib/logger.js';
+import { startTrace, stopTrace } from '../lib/trace.js';
+import { initializeDataSanitizer, PassthroughDataSanitizer } from '../security/DataSanitizer.js';
 import type { IServiceContainer, ServiceContainer } from '../di/ServiceContainer.js';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
+/**
+ * Read `--profile <name>` or `--profile=<name>` from raw arguments
+ */
+function profileFromArgs(args: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') break;
+    if (arg === '--profile') return args[i + 1];
+    if (arg?.startsWith('--profile=')) return arg.slice('--profile='.length);
+  }
+  return undefined;
+}
+
 /**
  * Main CLI application class
  * Orchestrates the entire CLI application lifecycle
@@ -20,6 +41,11 @@ export class MacChromeCLI {
   private formatter: OutputFormatter;
   private registry: CommandRegistry;
   private serviceContainer?: IServiceContainer;
+  private configOverrides: PartialConfiguration = {};
+  /** Running inside the daemon: never exit the process */
+  private embedded = false;
+  /** Arguments of this invocation, recorded at the start of a --trace file */
+  private invocationArgs: string[] = [];
 
   constructor() {
     this.program = new Command();
@@ -29,6 +55,8 @@ export class MacChromeCLI {
     
     this.setupProgram();
     this.setupGlobalOptions();
+    this.setupWindowTargeting();
+    this.setupConfiguredTimeout();
     this.setupErrorHandling();
   }
 
@@ -54,7 +82,79 @@ export class MacChromeCLI {
   private setupGlobalOptions(): void {
     this.program
       .option('--json', 'output in JSON format')
-      .option('--preview-max <bytes>', 'maximum preview size in bytes', '1572864'); // 1.5MB
+      .option('--preview-max <bytes>', 'maximum preview size in bytes', '1572864') // 1.5MB
+      .option('--no-redact', 'disable redaction of captured network data (secrets are output verbatim)')
+      .option('--profile <name>', 'configuration profile to apply (see `config list`)')
+      .option('--no-daemon', 'run in this process even when a daemon is running')
+      .option('--trace <file>', 'record each step of the command to an NDJSON trace file (see `trace show`)');
+
+    // Redaction can only be switched off per invocation, never from configuration
+    this.program.hook('preAction', (_program, actionCommand) => {
+      const globalOpts = this.program.opts() as GlobalOptions;
+      if (globalOpts.redact === false) {
+        initializeDataSanitizer(new PassthroughDataSanitizer());
+        console.error('Warning: --no-redact is set; network data is output without redaction');
+      }
+
+      if (globalOpts.trace) {
+        const traceResult = startTrace(globalOpts.trace, this.traceArgs(actionCommand));
+        if (!traceResult.success) {
+          console.error(`Warning: ${traceResult.error}; continuing without a trace`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Invocation arguments for the trace `start` event; with `--mask-secret` the
+   * command's `<value>` argument is replaced so the secret is not recorded
+   */
+  private traceArgs(actionCommand: Command): string[] {
+    if (!actionCommand.getOptionValue('maskSecret')) {
+      return this.invocationArgs;
+    }
+    const index = actionCommand.registeredArguments.findIndex(argument => argument.name() === 'value');
+    const secret = index >= 0 ? actionCommand.args[index] : undefined;
+    return secret ? this.invocationArgs.map(arg => (arg === secret ? '[redacted]' : arg)) : this.invocationArgs;
+  }
+
+  /**
+   * Resolve `--window id:<n>`, `title:<pattern>` and `url:<pattern>` to a window
+   * index before any command runs, so commands only ever see indexes
+   */
+  private setupWindowTargeting(): void {
+    this.program.hook('preAction', async (_program, actionCommand) => {
+      const target = actionCommand.getOptionValue('window') as unknown;
+      if (typeof target !== 'string' || /^\d+$/.test(target.trim())) {
+        return;
+      }
+
+      const serviceResult = await this.serviceContainer?.resolve(SERVICE_TOKENS.AppleScriptService);
+      const service = serviceResult?.success ? serviceResult.data : appleScriptService;
+      const resolved = await service.resolveWindowIndex(target);
+      if (!resolved.success) {
+        throw Object.assign(new Error(resolved.error), { errorCode: resolved.code });
+      }
+      actionCommand.setOptionValue('window', String(resolved.data));
+    });
+  }
+
+  /**
+   * Commands define their own `--timeout`; when it is not given on the command
+   * line the configured timeout replaces the command's default
+   */
+  private setupConfiguredTimeout(): void {
+    this.program.hook('preAction', (_program, actionCommand) => {
+      const timeout = this.configOverrides.timeout;
+      if (timeout === undefined || !actionCommand.options.some(option => option.attributeName() === 'timeout')) {
+        return;
+      }
+
+      const source = actionCommand.getOptionValueSource('timeout');
+      if (source === undefined || source === 'default') {
+        actionCommand.setOptionValueWithSource('timeout', String(timeout), 'config');
+      }
+    });
   }
 
   /**
@@ -79,6 +179,10 @@ export class MacChromeCLI {
         console.log(formatted.output);
       }
       
+      if (this.embedded) {
+        process.exitCode = formatted.exitCode;
+        return;
+      }
       process.exit(formatted.exitCode);
     });
 
@@ -88,16 +192,33 @@ export class MacChromeCLI {
 
   /**
    * Initialize service container and global services
+   * @param profile - Configuration profile named on the command line
    */
-  private async initializeServices(): Promise<void> {
+  private async initializeServices(profile?: string): Promise<void> {
     try {
-      this.serviceContainer = await createServiceContainer();
+      const configResult = await loadConfiguration({ profile });
+      if (configResult.success) {
+        this.configOverrides = configResult.data.overrides;
+        this.applyConfiguredOptions(configResult.data.overrides);
+      } else {
+        console.warn(`Warning: ${configResult.error}; using default configuration`);
+      }
+
+      this.serviceContainer = await createServiceContainer(configResult.success ? configResult.data.config : undefined);
       
       // Initialize global logger
       const loggerResult = await this.serviceContainer.resolve(SERVICE_TOKENS.LoggerService);
       if (loggerResult.success) {
         initializeLogger(loggerResult.data);
       }
+
+      // Apply the configured redaction policy to captured network data
+      const sanitizerResult = await this.serviceContainer.resolve(SERVICE_TOKENS.DataSanitizer);
+      if (sanitizerResult.success) {
+        initializeDataSanitizer(sanitizerResult.data);
+      } else {
+        console.warn(`Warning: ${sanitizerResult.error}; using the default redaction policy`);
+      }
     } catch (error) {
       // If service initialization fails, continue without DI services
       // The logger utility will fall back to a basic logger
@@ -105,6 +226,23 @@ export class MacChromeCLI {
     }
   }
 
+  /**
+   * Use configured values for global options that are not given on the command line.
+   * Values set before parsing are replaced by explicit flags. The timeout is also
+   * kept here for commands without a `--timeout` of their own.
+   */
+  private applyConfiguredOptions(overrides: PartialConfiguration): void {
+    if (overrides.json !== undefined) {
+      this.program.setOptionValueWithSource('json', overrides.json, 'config');
+    }
+    if (overrides.timeout !== undefined) {
+      this.program.setOptionValueWithSource('timeout', overrides.timeout, 'config');
+    }
+    if (overrides.previewMaxBytes !== undefined) {
+      this.program.setOptionValueWithSource('previewMax', String(overrides.previewMaxBytes), 'config');
+    }
+  }
+
   /**
    * Register all commands with the program
    */
@@ -112,48 +250,108 @@ export class MacChromeCLI {
     // Pass service container to registry if available
     if (this.serviceContainer) {
       this.registry.setServiceContainer(this.serviceContainer);
+      this.registry.setInvocationRunner(this.createInvocationRunner());
     }
     await this.registry.registerAll();
   }
 
+  /**
+   * Runner for the daemon: each invocation gets a fresh program that shares this
+   * process's service container and configuration
+   */
+  private createInvocationRunner(): InvocationRunner {
+    return args => captureInvocation(async () => {
+      const cli = new MacChromeCLI();
+      await cli.execute(args, this.serviceContainer!, this.configOverrides);
+    });
+  }
+
+  /**
+   * Run one invocation in-process with an existing service container (daemon mode).
+   * Failures set `process.exitCode` instead of exiting.
+   *
+   * @param args - CLI arguments without the node and script entries
+   */
+  async execute(args: string[], container: IServiceContainer, overrides: PartialConfiguration = {}): Promise<void> {
+    this.embedded = true;
+    this.serviceContainer = container;
+    this.configOverrides = overrides;
+    this.applyConfiguredOptions(overrides);
+
+    // A previous invocation may have switched redaction off with --no-redact
+    const sanitizerResult = await container.resolve(SERVICE_TOKENS.DataSanitizer);
+    if (sanitizerResult.success) {
+      initializeDataSanitizer(sanitizerResult.data);
+    }
+
+    await this.registerCommands();
+    this.invocationArgs = args;
+    try {
+      await this.program.parseAsync(args, { from: 'user' });
+    } catch (err) {
+      // Help, version and usage errors were already printed by commander
+      process.exitCode = err instanceof CommanderError ? err.exitCode : this.reportError(err);
+    } finally {
+      stopTrace();
+    }
+  }
+
+  /**
+   * Print a fatal error and return its exit code
+   */
+  private reportError(err: unknown): number {
+    const errorResult = ErrorUtils.fromException(
+      err,
+      'cli-initialization',
+      ErrorCode.INVALID_INPUT
+    );
+    
+    const globalOpts = this.program.opts() as GlobalOptions;
+    const formatted = createFormattedResponse(errorResult, { 
+      json: globalOpts.json ?? false,
+      detailed: true,
+      includeRecovery: true
+    });
+    
+    if (formatted.isError) {
+      console.error(formatted.output);
+    } else {
+      console.log(formatted.output);
+    }
+    return formatted.exitCode;
+  }
+
 
   /**
    * Run the CLI application
    */
   async run(args?: string[]): Promise<void> {
+    const argv = args ?? process.argv;
     try {
-      // Initialize services first
-      await this.initializeServices();
+      // Hand the invocation to a running daemon when there is one
+      const forwarded = await forwardToDaemon(argv.slice(2));
+      if (forwarded) {
+        process.stdout.write(forwarded.stdout);
+        process.stderr.write(forwarded.stderr);
+        process.exitCode = forwarded.exitCode;
+        return;
+      }
+
+      // Initialize services first; --profile is needed before parsing to pick the configuration
+      await this.initializeServices(profileFromArgs(argv));
       
       // Register all commands
       await this.registerCommands();
       
       // Parse arguments
+      this.invocationArgs = argv.slice(2);
       await this.program.parseAsync(args);
       
     } catch (err) {
-      const errorResult = ErrorUtils.fromException(
-        err,
-        'cli-initialization',
-        ErrorCode.INVALID_INPUT
-      );
-      
-      const globalOpts = this.program.opts() as GlobalOptions;
-      const formatted = createFormattedResponse(errorResult, { 
-        json: globalOpts.json ?? false,
-        detailed: true,
-        includeRecovery: true
-      });
-      
-      if (formatted.isError) {
-        console.error(formatted.output);
-      } else {
-        console.log(formatted.output);
-      }
-      
-      process.exit(formatted.exitCode);
+      process.exit(this.reportError(err));
     } finally {
       // Ensure cleanup always happens
+      stopTrace();
       await this.cleanup();
     }
   }
@@ -6,6 +6,12 @@ export interface GlobalOptions {
   timeout?: number;
   previewMax?: number;
   out?: string;
+  /** False when --no-redact is passed */
+  redact?: boolean;
+  /** Configuration profile selected with --profile */
+  profile?: string;
+  /** Trace file given with --trace */
+  trace?: string;
 }
 
 export interface OutputFormatterOptions {
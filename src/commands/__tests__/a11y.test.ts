@@ -0,0 +1,147 @@
+import { Script } from 'vm';
+import { auditAccessibility, formatAuditSummary, getA11yRules } from '../a11y';
+import { ERROR_CODES } from '../../lib/util';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+jest.mock('../../lib/apple.js', () => ({
+  execChromeJS: jest.fn()
+}));
+
+import { execChromeJS } from '../../lib/apple';
+const mockExecChromeJS = execChromeJS as jest.MockedFunction<typeof execChromeJS>;
+
+const rect = { x: 10, y: 20, w: 100, h: 30 };
+
+function rawAudit(violations: unknown[]) {
+  return {
+    success: true as const,
+    data: JSON.stringify({
+      ok: true,
+      violations,
+      nodeCount: 42,
+      url: 'https://example.com/form',
+      title: 'Form',
+      durationMs: 12
+    }),
+    code: ERROR_CODES.OK,
+    timestamp: new Date().toISOString()
+  };
+}
+
+describe('Accessibility Audit', () => {
+  it('should generate a syntactically valid page script', async () => {
+    mockExecChromeJS.mockResolvedValue(rawAudit([]));
+
+    await auditAccessibility();
+
+    const script = mockExecChromeJS.mock.calls[0][0];
+    expect(() => new Script(script)).not.toThrow();
+    expect(script).toContain('function getAccessibilityInfo');
+    expect(script).toContain('function getUniqueSelector');
+    expect(mockExecChromeJS).toHaveBeenCalledWith(expect.any(String), 1, 1, 20000);
+  });
+
+  it('should pass when there are no violations', async () => {
+    mockExecChromeJS.mockResolvedValue(rawAudit([]));
+
+    const result = await auditAccessibility();
+
+    expect(result.success).toBe(true);
+    expect(result.data?.passed).toBe(true);
+    expect(result.data?.summary.total).toBe(0);
+    expect(result.data?.meta.rules).toEqual(getA11yRules().map(rule => rule.id));
+    expect(result.data?.meta.nodeCount).toBe(42);
+  });
+
+  it('should assign severities and summarize violations', async () => {
+    mockExecChromeJS.mockResolvedValue(rawAudit([
+      { rule: 'image-alt', message: 'Image has no alt attribute', selector: 'img.hero', role: 'img', name: '', tagName: 'img', rect },
+      { rule: 'duplicate-id', message: 'id "email" is used by more than one element', selector: 'form > input:nth-child(2)', role: 'textbox', name: 'Email', tagName: 'input', rect },
+      { rule: 'heading-order', message: 'Heading level 4 follows level 2', selector: '#details', role: 'heading', name: 'Details', tagName: 'h4', rect }
+    ]));
+
+    const result = await auditAccessibility();
+
+    expect(result.data?.passed).toBe(false);
+    expect(result.data?.violations[0]).toMatchObject({ rule: 'image-alt', severity: 'critical', selector: 'img.hero', rect });
+    expect(result.data?.summary.bySeverity).toEqual({ critical: 1, serious: 0, moderate: 2, minor: 0 });
+    expect(result.data?.summary.byRule).toEqual({ 'image-alt': 1, 'duplicate-id': 1, 'heading-order': 1 });
+  });
+
+  it('should only fail on violations at or above the failOn severity', async () => {
+    mockExecChromeJS.mockResolvedValue(rawAudit([
+      { rule: 'heading-order', message: 'Heading level 3 follows level 1', selector: 'h3', role: 'heading', name: 'Intro', tagName: 'h3', rect }
+    ]));
+
+    const result = await auditAccessibility({ failOn: 'serious' });
+
+    expect(result.data?.passed).toBe(true);
+    expect(result.data?.summary.total).toBe(1);
+  });
+
+  it('should pass selected rules and visibility filter to the page script', async () => {
+    mockExecChromeJS.mockResolvedValue(rawAudit([]));
+
+    const result = await auditAccessibility({ rules: ['label', 'empty-button'], visibleOnly: true });
+
+    const script = mockExecChromeJS.mock.calls[0][0];
+    expect(script).toContain('new Set(["label","empty-button"])');
+    expect(script).toContain('const visibleOnly = true;');
+    expect(result.data?.meta.rules).toEqual(['label', 'empty-button']);
+  });
+
+  it('should audit the requested tab and window with the given timeout', async () => {
+    mockExecChromeJS.mockResolvedValue(rawAudit([]));
+
+    await auditAccessibility({ tabIndex: 2, windowIndex: 3, timeoutMs: 5000 });
+
+    expect(mockExecChromeJS).toHaveBeenCalledWith(expect.any(String), 2, 3, 5000);
+  });
+
+  it('should validate rules and severity before running', async () => {
+    const unknownRule = await auditAccessibility({ rules: ['color-contrast' as never] });
+    const badSeverity = await auditAccessibility({ failOn: 'blocker' as never });
+    const badTab = await auditAccessibility({ tabIndex: 0 });
+    const badTimeout = await auditAccessibility({ timeoutMs: NaN });
+
+    expect(unknownRule.code).toBe(ERROR_CODES.INVALID_INPUT);
+    expect(unknownRule.error).toContain('color-contrast');
+    expect(badSeverity.code).toBe(ERROR_CODES.INVALID_INPUT);
+    expect(badTab.code).toBe(ERROR_CODES.INVALID_INPUT);
+    expect(badTimeout.code).toBe(ERROR_CODES.INVALID_INPUT);
+    expect(mockExecChromeJS).not.toHaveBeenCalled();
+  });
+
+  it('should surface browser and script errors', async () => {
+    mockExecChromeJS.mockResolvedValueOnce({
+      success: false,
+      error: 'Chrome is not running',
+      code: ErrorCode.CHROME_NOT_RUNNING,
+      timestamp: new Date().toISOString()
+    });
+    mockExecChromeJS.mockResolvedValueOnce({
+      ...rawAudit([]),
+      data: JSON.stringify({ ok: false, error: 'boom', violations: [], nodeCount: 0 })
+    });
+
+    expect((await auditAccessibility()).code).toBe(ErrorCode.CHROME_NOT_RUNNING);
+    const scriptFailure = await auditAccessibility();
+    expect(scriptFailure.code).toBe(ErrorCode.JAVASCRIPT_ERROR);
+    expect(scriptFailure.error).toContain('boom');
+  });
+
+  describe('formatAuditSummary', () => {
+    it('should group violations by rule with selectors and rects', async () => {
+      mockExecChromeJS.mockResolvedValue(rawAudit([
+        { rule: 'empty-link', message: 'Link has no discernible text', selector: 'a.icon', role: 'link', name: '', tagName: 'a', rect }
+      ]));
+
+      const result = await auditAccessibility();
+      const summary = formatAuditSummary(result.data!);
+
+      expect(summary).toContain('Accessibility audit failed: 1 violation(s) on https://example.com/form');
+      expect(summary).toContain('[serious] empty-link');
+      expect(summary).toContain('a.icon @ 10,20 100x30: Link has no discernible text');
+    });
+  });
+});
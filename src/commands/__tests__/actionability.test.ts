@@ -0,0 +1,160 @@
+import { Script, createContext } from 'vm';
+import { generateActionabilityScript, waitForActionable } from '../actionability';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+jest.mock('../../lib/apple.js', () => ({
+  execChromeJS: jest.fn()
+}));
+
+import { execChromeJS } from '../../lib/apple';
+const mockExecChromeJS = execChromeJS as jest.MockedFunction<typeof execChromeJS>;
+
+function jsResult(data: unknown) {
+  return { success: true as const, data, code: ErrorCode.OK, timestamp: new Date().toISOString() };
+}
+
+/**
+ * Single-document page with a button at (100, 100)-(200, 140), an optional
+ * element covering it, and animation frames run on demand
+ */
+function buildPage(options: { disabled?: boolean; covered?: boolean } = {}) {
+  const frames: Array<() => void> = [];
+  const window: Record<string, unknown> = {
+    innerWidth: 800,
+    innerHeight: 600,
+    frameElement: null,
+    getComputedStyle: () => ({ visibility: 'visible', pointerEvents: 'auto', paddingLeft: '0', paddingTop: '0' }),
+    requestAnimationFrame: (callback: () => void) => frames.push(callback)
+  };
+  const document: Record<string, unknown> = { defaultView: window, children: [] };
+  const body = { tagName: 'BODY', id: '', classList: [], parentNode: document };
+  const button = {
+    tagName: 'BUTTON',
+    id: 'buy',
+    classList: [],
+    isConnected: true,
+    parentNode: body,
+    ownerDocument: document,
+    rect: { left: 100, top: 100, right: 200, bottom: 140, width: 100, height: 40 },
+    getBoundingClientRect() { return this.rect; },
+    matches: (selector: string) => selector === ':disabled' ? Boolean(options.disabled) : selector === '#buy',
+    closest: () => null,
+    getAttribute: () => null,
+    scrollIntoView: jest.fn()
+  };
+  const backdrop = { tagName: 'DIV', id: '', classList: ['modal-backdrop', 'fade', 'show'], parentNode: body };
+
+  document.querySelector = (selector: string) => selector === '#buy' ? button : null;
+  document.elementFromPoint = () => options.covered ? backdrop : button;
+  window.document = document;
+
+  const runFrames = () => {
+    while (frames.length > 0) frames.shift()!();
+  };
+  return { window, document, button, runFrames };
+}
+
+function poll(page: ReturnType<typeof buildPage>, selector = '#buy'): Record<string, unknown> {
+  const context = createContext({ ...page.window, window: page.window, Node: { ELEMENT_NODE: 1 } });
+  return JSON.parse(new Script(generateActionabilityScript(selector)).runInContext(context));
+}
+
+describe('Actionability Checks', () => {
+  it('should wait two animation frames before reporting the element stable', () => {
+    const page = buildPage();
+    expect(poll(page)).toEqual({ actionable: false, check: 'stable', reason: 'waiting for animation frames' });
+
+    page.runFrames();
+    expect(poll(page)).toEqual({ actionable: true, point: { x: 150, y: 120 } });
+  });
+
+  it('should report moving elements and the element covering the click point', () => {
+    const page = buildPage({ covered: true });
+    poll(page);
+    page.runFrames();
+    page.button.rect = { ...page.button.rect, left: 120, right: 220 };
+    expect(poll(page)).toMatchObject({ check: 'stable', reason: 'not stable (still moving or resizing)' });
+
+    poll(page);
+    page.runFrames();
+    expect(poll(page)).toMatchObject({ check: 'receives-events', reason: 'covered by div.modal-backdrop.fade' });
+  });
+
+  it('should check attachment, visibility and state before stability', () => {
+    expect(poll(buildPage(), '#missing')).toMatchObject({ check: 'attached', reason: 'not attached to the DOM' });
+    expect(poll(buildPage({ disabled: true }))).toMatchObject({ check: 'enabled', reason: 'disabled' });
+
+    const hidden = buildPage();
+    hidden.button.rect = { left: 0, top: 0, right: 0, bottom: 0, width: 0, height: 0 };
+    expect(poll(hidden)).toMatchObject({ check: 'visible' });
+  });
+
+  it('should scroll the element into view when the click point is outside the viewport', () => {
+    const page = buildPage();
+    page.button.rect = { left: 100, top: 900, right: 200, bottom: 940, width: 100, height: 40 };
+    poll(page);
+    expect(page.button.scrollIntoView).toHaveBeenCalledWith({ block: 'center', inline: 'center', behavior: 'instant' });
+  });
+});
+
+describe('waitForActionable', () => {
+  beforeEach(() => {
+    mockExecChromeJS.mockReset();
+  });
+
+  it('should poll until every check passes', async () => {
+    mockExecChromeJS
+      .mockResolvedValueOnce(jsResult({ actionable: false, check: 'stable', reason: 'waiting for animation frames' }))
+      .mockResolvedValueOnce(jsResult({ actionable: false, check: 'receives-events', reason: 'covered by div.spinner' }))
+      .mockResolvedValueOnce(jsResult({ actionable: true, point: { x: 150, y: 120 } }));
+
+    const result = await waitForActionable('#buy', { windowIndex: 2, intervalMs: 1 });
+
+    expect(result.success && result.data).toMatchObject({ point: { x: 150, y: 120 }, attempts: 3 });
+    expect(mockExecChromeJS).toHaveBeenCalledTimes(3);
+    expect(mockExecChromeJS.mock.calls[0]![2]).toBe(2);
+  });
+
+  it('should time out with the reason of the last failed check', async () => {
+    mockExecChromeJS.mockResolvedValue(jsResult({
+      actionable: false,
+      check: 'receives-events',
+      reason: 'covered by div.modal-backdrop'
+    }));
+
+    const result = await waitForActionable('[data-mac-chrome-cli-target="t1"]', {
+      label: 'text=Buy now',
+      timeoutMs: 30,
+      intervalMs: 10
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatch(/^Element "text=Buy now" is not actionable: covered by div\.modal-backdrop \(waited \d+ms, \d+ attempts\)$/);
+    expect(!result.success && result.code).toBe(ErrorCode.ELEMENT_NOT_INTERACTABLE);
+    expect(result.context?.metadata).toMatchObject({ check: 'receives-events', reason: 'covered by div.modal-backdrop' });
+    for (const call of mockExecChromeJS.mock.calls) {
+      expect(call[3]).toBeLessThanOrEqual(30);
+    }
+  });
+
+  it('should map failed checks to error codes', async () => {
+    mockExecChromeJS.mockResolvedValue(jsResult({ actionable: false, check: 'attached', reason: 'not attached to the DOM' }));
+    const missing = await waitForActionable('#gone', { timeoutMs: 5, intervalMs: 5 });
+    expect(!missing.success && missing.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+
+    mockExecChromeJS.mockResolvedValue(jsResult({ actionable: false, check: 'visible', reason: 'not visible (empty bounding box)' }));
+    const hidden = await waitForActionable('#gone', { timeoutMs: 5, intervalMs: 5 });
+    expect(!hidden.success && hidden.code).toBe(ErrorCode.ELEMENT_NOT_VISIBLE);
+  });
+
+  it('should fail immediately when waiting cannot help', async () => {
+    mockExecChromeJS.mockResolvedValue(jsResult({ actionable: false, fatal: "'#' is not a valid selector", fatalKind: 'selector' }));
+
+    const result = await waitForActionable('#', { timeoutMs: 1000 });
+    expect(!result.success && result.code).toBe(ErrorCode.INVALID_SELECTOR);
+    expect(mockExecChromeJS).toHaveBeenCalledTimes(1);
+
+    const invalid = await waitForActionable('#buy', { timeoutMs: 0 });
+    expect(!invalid.success && invalid.code).toBe(ErrorCode.INVALID_INPUT);
+  });
+});
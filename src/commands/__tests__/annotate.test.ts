@@ -0,0 +1,197 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  annotationCachePath,
+  captureAnnotationTargets,
+  loadAnnotationLegend,
+  locateAnnotationRef,
+  resolveAnnotationRef,
+  saveAnnotationLegend,
+  selectAnnotationTargets,
+  toLegendEntries,
+  type AnnotationLegend
+} from '../annotate';
+import { captureOutline, type SnapshotNode } from '../snapshot';
+import { ErrorCode } from '../../core/ErrorCodes';
+import type { ChromeWindowInfo, IAppleScriptService } from '../../services/IAppleScriptService';
+
+jest.mock('../snapshot.js', () => ({
+  ...jest.requireActual('../snapshot.js'),
+  captureOutline: jest.fn()
+}));
+
+const mockCaptureOutline = captureOutline as jest.MockedFunction<typeof captureOutline>;
+
+function windowInfo(id: number, index: number, url: string): ChromeWindowInfo {
+  return {
+    id,
+    index,
+    title: 'Example',
+    url,
+    bounds: { x: 0, y: 25, width: 1280, height: 800 },
+    tabCount: 1,
+    activeTabIndex: 1,
+    incognito: false,
+    minimized: false,
+    visible: true
+  };
+}
+
+function serviceWithWindows(windows: ChromeWindowInfo[]): IAppleScriptService {
+  return {
+    listWindows: jest.fn().mockResolvedValue({ success: true, data: windows, code: 0 })
+  } as unknown as IAppleScriptService;
+}
+
+function node(selector: string, rect: SnapshotNode['rect'], name = selector): SnapshotNode {
+  return { role: 'button', name, selector, rect, state: {} };
+}
+
+describe('Annotate', () => {
+  describe('selectAnnotationTargets', () => {
+    it('should number elements with a size once per selector', () => {
+      const targets = selectAnnotationTargets([
+        node('#save', { x: 10, y: 20, w: 80, h: 24 }),
+        node('#hidden', { x: 0, y: 0, w: 0, h: 0 }),
+        node('#save', { x: 10, y: 20, w: 80, h: 24 }),
+        node('#frame >>> #cancel', { x: 100, y: 20, w: 80, h: 24 }, 'Cancel')
+      ]);
+
+      expect(targets).toEqual([
+        { ref: 1, selector: '#save', role: 'button', name: '#save', rect: { x: 10, y: 20, width: 80, height: 24 } },
+        { ref: 2, selector: '#frame >>> #cancel', role: 'button', name: 'Cancel', rect: { x: 100, y: 20, width: 80, height: 24 } }
+      ]);
+      expect(toLegendEntries(targets)[1]).toEqual({ ref: 2, selector: '#frame >>> #cancel', role: 'button', name: 'Cancel' });
+    });
+
+    it('should cap the number of targets', () => {
+      const nodes = Array.from({ length: 250 }, (_, i) => node(`#b${i}`, { x: 0, y: i, w: 10, h: 10 }));
+
+      const targets = selectAnnotationTargets(nodes);
+
+      expect(targets).toHaveLength(200);
+      expect(targets[199]).toMatchObject({ ref: 200, selector: '#b199' });
+    });
+  });
+
+  describe('captureAnnotationTargets', () => {
+    it('should return the stable id of the annotated window', async () => {
+      mockCaptureOutline.mockResolvedValue({
+        success: true,
+        data: {
+          ok: true,
+          cmd: 'snapshot.outline',
+          nodes: [node('#save', { x: 10, y: 20, w: 80, h: 24 })],
+          meta: { url: 'https://example.com/', title: 'Example' }
+        },
+        code: 0
+      } as unknown as Awaited<ReturnType<typeof captureOutline>>);
+
+      const result = await captureAnnotationTargets(2, serviceWithWindows([
+        windowInfo(1842, 1, 'https://other.test/'),
+        windowInfo(1901, 2, 'https://example.com/')
+      ]));
+
+      expect(result.success && result.data).toMatchObject({ windowId: 1901, url: 'https://example.com/', title: 'Example' });
+      expect(result.success && result.data.targets).toHaveLength(1);
+    });
+  });
+
+  describe('legend cache', () => {
+    let dir: string;
+    let cacheFile: string;
+
+    const legend: AnnotationLegend = {
+      windowIndex: 2,
+      url: 'https://example.com/',
+      capturedAt: '2024-01-01T00:00:00.000Z',
+      entries: [
+        { ref: 1, selector: '#save', role: 'button', name: 'Save' },
+        { ref: 2, selector: 'a[href="/docs"]', role: 'link', name: 'Docs' }
+      ]
+    };
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'annotate-'));
+      cacheFile = join(dir, 'runtime', 'annotations.json');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should use the cache file from the environment', () => {
+      expect(annotationCachePath({ MAC_CHROME_CLI_ANNOTATIONS: cacheFile })).toBe(cacheFile);
+      expect(annotationCachePath({})).toMatch(/mac-chrome-cli-[^/]+\/annotations\.json$/);
+    });
+
+    it('should resolve numbers from the last saved legend', () => {
+      expect(saveAnnotationLegend(legend, cacheFile).success).toBe(true);
+      expect(loadAnnotationLegend(cacheFile)).toEqual(legend);
+
+      const resolved = resolveAnnotationRef(2, cacheFile);
+
+      expect(resolved.success && resolved.data).toEqual({
+        ref: 2,
+        selector: 'a[href="/docs"]',
+        role: 'link',
+        name: 'Docs',
+        windowIndex: 2,
+        url: 'https://example.com/'
+      });
+    });
+
+    it('should report a missing capture and numbers outside the legend', () => {
+      const missing = resolveAnnotationRef(1, cacheFile);
+      expect(!missing.success && missing.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+      expect(!missing.success && missing.error).toContain('screenshot --annotate');
+
+      saveAnnotationLegend(legend, cacheFile);
+      const outside = resolveAnnotationRef(3, cacheFile);
+      expect(!outside.success && outside.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+      expect(!outside.success && outside.error).toContain('1-2');
+
+      const invalid = resolveAnnotationRef(0, cacheFile);
+      expect(!invalid.success && invalid.code).toBe(ErrorCode.INVALID_INPUT);
+    });
+
+    it('should find the annotated window by id after windows are reordered', async () => {
+      saveAnnotationLegend({ ...legend, windowId: 1901 }, cacheFile);
+
+      const located = await locateAnnotationRef(1, undefined, cacheFile, serviceWithWindows([
+        windowInfo(1901, 1, 'https://example.com/'),
+        windowInfo(1842, 2, 'https://other.test/')
+      ]));
+
+      expect(located.success && located.data).toEqual({ ref: 1, selector: '#save', role: 'button', name: 'Save', windowIndex: 1 });
+    });
+
+    it('should refuse numbers once the window shows a different page', async () => {
+      saveAnnotationLegend({ ...legend, windowId: 1901 }, cacheFile);
+
+      const navigated = await locateAnnotationRef(1, undefined, cacheFile, serviceWithWindows([
+        windowInfo(1901, 2, 'https://example.com/other')
+      ]));
+      expect(!navigated.success && navigated.code).toBe(ErrorCode.ELEMENT_STALE);
+      expect(!navigated.success && navigated.error).toContain('screenshot --annotate');
+
+      const closed = await locateAnnotationRef(1, undefined, cacheFile, serviceWithWindows([
+        windowInfo(1842, 1, 'https://example.com/')
+      ]));
+      expect(!closed.success && closed.code).toBe(ErrorCode.WINDOW_NOT_FOUND);
+
+      const elsewhere = await locateAnnotationRef(1, 1, cacheFile, serviceWithWindows([
+        windowInfo(1842, 1, 'https://example.com/')
+      ]));
+      expect(elsewhere.success && elsewhere.data.windowIndex).toBe(1);
+    });
+
+    it('should ignore a corrupt cache file', () => {
+      saveAnnotationLegend(legend, cacheFile);
+      writeFileSync(cacheFile, '{"entries":');
+
+      expect(loadAnnotationLegend(cacheFile)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Command } from 'commander';
+import { getDaemonStatus, stopDaemon, serveDaemon, formatDaemonStatus } from '../daemon';
+import { createBenchmarkCommand } from '../benchmark';
+import { captureInvocation } from '../../daemon/InvocationCapture';
+import { buildMethodArgs, listCommandMethods, listGlobalMethodOptions } from '../../daemon/CommandMethods';
+import { callDaemon, isForwardable } from '../../daemon/DaemonClient';
+import { RPC_ERRORS, describeEnvironment, environmentDifferences, type InvocationRunner } from '../../daemon/DaemonProtocol';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+function buildProgram(): Command {
+  const program = new Command();
+  program
+    .option('--json', 'output JSON')
+    .option('--preview-max <bytes>', 'preview size')
+    .option('--no-redact', 'disable redaction');
+
+  const netlog = program.command('netlog');
+  netlog.command('tail').option('--filter <expr>', 'filter');
+  netlog.command('stats').option('--by <field>', 'group by', 'domain').option('--slowest <n>', 'slowest');
+  const rules = netlog.command('rules');
+  rules.command('add').requiredOption('--url <pattern>', 'URL pattern').option('--block', 'block').option('--header <h>', 'header');
+
+  program.command('sanitize').command('test <file>').option('--show-sanitized', 'show output');
+  program.command('daemon').command('status');
+  return program;
+}
+
+describe('Daemon Command Methods', () => {
+  const program = buildProgram();
+  const methods = listCommandMethods(program);
+  const method = (name: string) => methods.find(m => m.method === name)!;
+
+  it('should expose leaf commands except streaming and daemon commands', () => {
+    expect(methods.map(m => m.method).sort()).toEqual(['netlog.rules.add', 'netlog.stats', 'sanitize.test']);
+    expect(method('netlog.rules.add').options.find(o => o.name === 'url')).toMatchObject({ flag: '--url', takesValue: true, required: true });
+    expect(method('sanitize.test').arguments).toEqual([{ name: 'file', description: '', required: true, variadic: false }]);
+  });
+
+  it('should build CLI arguments from named params', () => {
+    const globals = listGlobalMethodOptions(program);
+    expect(globals.map(o => o.name)).toEqual(['previewMax', 'redact']);
+
+    const args = buildMethodArgs(method('netlog.rules.add'), { url: '*.png', block: true, header: ['A: 1', 'B: 2'], redact: false }, globals);
+    expect(args.success && args.data).toEqual([
+      '--no-redact', 'netlog', 'rules', 'add', '--url', '*.png', '--block', '--header', 'A: 1', '--header', 'B: 2'
+    ]);
+
+    const positional = buildMethodArgs(method('sanitize.test'), { args: ['capture.har'], 'show-sanitized': true });
+    expect(positional.success && positional.data).toEqual(['sanitize', 'test', 'capture.har', '--show-sanitized']);
+  });
+
+  it('should reject unknown and missing params', () => {
+    const unknown = buildMethodArgs(method('netlog.stats'), { nope: 1 });
+    expect(unknown.success).toBe(false);
+    expect(!unknown.success && unknown.error).toContain('Unknown param "nope"');
+    expect(!unknown.success && unknown.code).toBe(ErrorCode.INVALID_INPUT);
+
+    expect(buildMethodArgs(method('netlog.rules.add'), {}).success).toBe(false);
+    expect(buildMethodArgs(method('sanitize.test'), {}).success).toBe(false);
+  });
+});
+
+describe('Daemon Forwarding', () => {
+  it('should forward ordinary commands only', () => {
+    expect(isForwardable(['tab', 'list'], {})).toBe(true);
+    expect(isForwardable(['--json', '--preview-max', '100', 'netlog', 'dump'], {})).toBe(true);
+    expect(isForwardable(['netlog', 'tail'], {})).toBe(false);
+    expect(isForwardable(['daemon', 'status'], {})).toBe(false);
+    expect(isForwardable(['config', 'list'], {})).toBe(false);
+    expect(isForwardable(['mcp'], {})).toBe(false);
+    expect(isForwardable(['benchmark', 'run'], {})).toBe(false);
+    expect(isForwardable(['tab', 'list', '--no-daemon'], {})).toBe(false);
+    expect(isForwardable(['--profile', 'ci', 'tab', 'list'], {})).toBe(false);
+    expect(isForwardable(['--trace=click.ndjson', 'tab', 'list'], {})).toBe(false);
+    expect(isForwardable(['tab', 'list'], { MAC_CHROME_CLI_NO_DAEMON: '1' })).toBe(false);
+    expect(isForwardable([], {})).toBe(false);
+  });
+});
+
+describe('Daemon Environment', () => {
+  it('should describe configuration overrides and CLI variables', () => {
+    const environment = describeEnvironment({ timeouts: { default: 5000 } }, {
+      MAC_CHROME_CLI_TIMEOUTS_DEFAULT: '5000',
+      MAC_CHROME_CLI_SOCKET: '/tmp/daemon.sock',
+      MAC_CHROME_CLI_NO_DAEMON: '0',
+      HOME: '/Users/me'
+    });
+
+    expect(environment).toEqual({
+      config: { timeouts: { default: 5000 } },
+      env: { MAC_CHROME_CLI_TIMEOUTS_DEFAULT: '5000' }
+    });
+  });
+
+  it('should report which parts differ regardless of key order', () => {
+    const daemon = describeEnvironment({ a: 1, b: { c: 2 } }, {});
+
+    expect(environmentDifferences(describeEnvironment({ b: { c: 2 }, a: 1 }, {}), daemon)).toEqual([]);
+    expect(environmentDifferences(describeEnvironment({ a: 2 }, { MAC_CHROME_CLI_PROFILE: 'work' }), daemon)).toEqual(['config', 'env']);
+  });
+});
+
+describe('Daemon Server', () => {
+  let dir: string;
+  let socketPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'daemon-'));
+    socketPath = join(dir, 'daemon.sock');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report a missing daemon', async () => {
+    const status = await getDaemonStatus({ socketPath });
+    expect(status.success && status.data).toEqual({ running: false, socketPath });
+    expect(formatDaemonStatus({ running: false, socketPath })).toContain('not running');
+
+    const stopped = await stopDaemon({ socketPath });
+    expect(stopped.success).toBe(false);
+    expect(!stopped.success && stopped.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+  });
+
+  it('should serve command methods and CLI invocations until stopped', async () => {
+    const calls: string[][] = [];
+    const runner: InvocationRunner = async (args) => {
+      calls.push(args);
+      if (args.includes('stats')) {
+        return { exitCode: 0, stdout: JSON.stringify({ success: true, data: { total: 3 } }), stderr: '' };
+      }
+      if (args.includes('add')) {
+        return {
+          exitCode: 20,
+          stdout: '',
+          stderr: JSON.stringify({ success: false, error: 'No tab', code: ErrorCode.TARGET_NOT_FOUND, retryable: false })
+        };
+      }
+      return { exitCode: 0, stdout: 'plain output\n', stderr: '' };
+    };
+
+    const program = buildProgram();
+    const server = await serveDaemon({
+      socketPath,
+      runner,
+      methods: listCommandMethods(program),
+      globalOptions: listGlobalMethodOptions(program)
+    });
+    expect(server.success).toBe(true);
+
+    const stats = await callDaemon('netlog.stats', { by: 'status' }, { socketPath });
+    expect(stats.success && stats.data).toEqual({ total: 3 });
+    expect(calls[0]).toEqual(['--json', 'netlog', 'stats', '--by', 'status']);
+
+    const failed = await callDaemon('netlog.rules.add', { url: '*' }, { socketPath });
+    expect(!failed.success && failed.error).toBe('No tab');
+    expect(!failed.success && failed.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+
+    const invalid = await callDaemon('netlog.stats', { bogus: true }, { socketPath });
+    expect(!invalid.success && invalid.code).toBe(ErrorCode.INVALID_INPUT);
+
+    const missing = await callDaemon('nope.method', {}, { socketPath });
+    expect(!missing.success && missing.error).toContain('Method not found');
+
+    const run = await callDaemon('cli.run', { argv: ['tab', 'list'], cwd: dir }, { socketPath });
+    expect(run.success && run.data).toEqual({ exitCode: 0, stdout: 'plain output\n', stderr: '' });
+
+    const status = await getDaemonStatus({ socketPath });
+    expect(status.success && status.data).toMatchObject({ running: true, pid: process.pid, requests: 3, methods: 3 });
+
+    const stopped = await stopDaemon({ socketPath });
+    expect(stopped.success && stopped.data).toEqual({ stopped: true, pid: process.pid, socketPath });
+    if (server.success) await server.data.waitUntilStopped();
+
+    const after = await getDaemonStatus({ socketPath });
+    expect(after.success && after.data.running).toBe(false);
+  });
+
+  it('should keep serving after a CLI invocation fails', async () => {
+    const program = new Command().exitOverride();
+    program.addCommand(createBenchmarkCommand());
+    const runner: InvocationRunner = args => captureInvocation(async () => {
+      await program.parseAsync(args, { from: 'user' });
+    });
+
+    const server = await serveDaemon({ socketPath, runner, methods: [] });
+    expect(server.success).toBe(true);
+
+    const failed = await callDaemon('cli.run', { argv: ['benchmark', 'run', '--iterations', '0'], cwd: dir }, { socketPath });
+    expect(failed.success && failed.data).toEqual({ exitCode: 1, stdout: '', stderr: 'Error: iterations must be a positive number\n' });
+    expect(process.exitCode).toBeUndefined();
+
+    const cleared = await callDaemon('cli.run', { argv: ['benchmark', 'clear-cache'], cwd: dir }, { socketPath });
+    expect(cleared.success && cleared.data).toEqual({ exitCode: 0, stdout: 'Performance caches cleared\n', stderr: '' });
+
+    const status = await getDaemonStatus({ socketPath });
+    expect(status.success && status.data.running).toBe(true);
+
+    await stopDaemon({ socketPath });
+    if (server.success) await server.data.waitUntilStopped();
+  });
+
+  it('should refuse CLI invocations configured differently from the daemon', async () => {
+    const calls: string[][] = [];
+    const runner: InvocationRunner = async (args) => {
+      calls.push(args);
+      return { exitCode: 0, stdout: '', stderr: '' };
+    };
+    const environment = describeEnvironment({}, {});
+
+    const server = await serveDaemon({ socketPath, runner, methods: [], environment });
+    expect(server.success).toBe(true);
+
+    const differing = await callDaemon('cli.run', {
+      argv: ['tab', 'list'],
+      cwd: dir,
+      environment: describeEnvironment({ timeouts: { default: 1000 } }, {})
+    }, { socketPath });
+    expect(!differing.success && differing.context?.metadata?.rpcCode).toBe(RPC_ERRORS.ENVIRONMENT_MISMATCH);
+    expect(calls).toEqual([]);
+
+    const matching = await callDaemon('cli.run', { argv: ['tab', 'list'], cwd: dir, environment }, { socketPath });
+    expect(matching.success).toBe(true);
+    expect(calls).toEqual([['tab', 'list']]);
+
+    await stopDaemon({ socketPath });
+    if (server.success) await server.data.waitUntilStopped();
+  });
+});
@@ -150,6 +150,57 @@ describe('DOM Evaluation Command', () => {
         5000 // timeout
       );
     });
+
+    it('should evaluate in the global scope of a frame', async () => {
+      mockExecChromeJS.mockResolvedValue({
+        success: true,
+        data: { success: true, result: 'Checkout', executionTimeMs: 1, timestamp: '2024-01-01T00:00:00.000Z', resultSize: 10, truncated: false },
+        code: ERROR_CODES.OK,
+        timestamp: '2024-01-01T00:00:00.000Z'
+      });
+
+      const result = await domEval({ js: 'document.title', frame: 'iframe#outer >>> iframe#pay' });
+
+      expect(result.success && result.data.result).toBe('Checkout');
+      const script = mockExecChromeJS.mock.calls[0]![0];
+      expect(script).toContain('deepQuerySelector(["iframe#outer","iframe#pay"])');
+      expect(script).toContain('frameWindow.eval("document.title")');
+    });
+
+    it('should report frames that cannot be evaluated in', async () => {
+      mockExecChromeJS.mockResolvedValue({
+        success: true,
+        data: { frameError: 'Cannot evaluate in cross-origin frame iframe#pay' },
+        code: ERROR_CODES.OK,
+        timestamp: '2024-01-01T00:00:00.000Z'
+      });
+
+      const result = await domEval({ js: 'document.title', frame: 'iframe#pay' });
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toContain('cross-origin');
+      expect(!result.success && result.code).toBe(ERROR_CODES.TARGET_NOT_FOUND);
+
+      const empty = await domEval({ js: 'document.title', frame: ' ' });
+      expect(!empty.success && empty.code).toBe(ERROR_CODES.INVALID_INPUT);
+    });
+
+    it('should cut results to the requested size', async () => {
+      mockExecChromeJS.mockResolvedValue({
+        success: true,
+        data: { success: true, result: '"abcd', executionTimeMs: 1, timestamp: '2024-01-01T00:00:00.000Z', resultSize: 12, truncated: true },
+        code: ERROR_CODES.OK,
+        timestamp: '2024-01-01T00:00:00.000Z'
+      });
+
+      await domEval({ js: '"abcdefghij"', maxSize: 5 });
+
+      const script = mockExecChromeJS.mock.calls[0]![0];
+      expect(script).toContain('resultSize > 5');
+      expect(script).toContain('serialized.slice(0, 5)');
+
+      const invalid = await domEval({ js: 'document.title', maxSize: 0 });
+      expect(!invalid.success && invalid.code).toBe(ERROR_CODES.INVALID_INPUT);
+    });
   });
 
   describe('formatDomEvalResult', () => {
@@ -0,0 +1,154 @@
+import { Script } from 'vm';
+import {
+  generateLocatorScript,
+  resolveLocator,
+  resolveTargetSelector,
+  restoreLocator,
+  LOCATOR_TARGET_ATTRIBUTE
+} from '../locator';
+import { parseLocator, splitLocator, isLocator } from '../../lib/locator';
+import { ok } from '../../core/Result';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+jest.mock('../../lib/apple.js', () => ({
+  execChromeJS: jest.fn()
+}));
+
+import { execChromeJS } from '../../lib/apple';
+const mockExecChromeJS = execChromeJS as jest.MockedFunction<typeof execChromeJS>;
+
+function jsResult(data: unknown) {
+  return { success: true as const, data, code: ErrorCode.OK, timestamp: new Date().toISOString() };
+}
+
+describe('Locator Parsing', () => {
+  it('should tell locators from plain CSS selectors', () => {
+    expect(isLocator('#submit')).toBe(false);
+    expect(isLocator('a[href="x>>y"]')).toBe(false);
+    expect(isLocator('div > p')).toBe(false);
+    expect(isLocator('text=Sign in')).toBe(true);
+    expect(isLocator('//button')).toBe(true);
+    expect(isLocator('.list >> nth=2')).toBe(true);
+  });
+
+  it('should split on >> outside quotes and brackets', () => {
+    expect(splitLocator('role=dialog >> text="a >> b" >> nth=0')).toEqual(['role=dialog', 'text="a >> b"', 'nth=0']);
+    expect(splitLocator('a[title=">>"] >> span')).toEqual(['a[title=">>"]', 'span']);
+    expect(splitLocator('my-app >>> button')).toEqual(['my-app >>> button']);
+    expect(isLocator('iframe#pay >>> input[name=card]')).toBe(false);
+  });
+
+  it('should parse every engine', () => {
+    const result = parseLocator('css=.form >> label=Email');
+    expect(result.success && result.data).toEqual([
+      { engine: 'css', selector: '.form' },
+      { engine: 'label', text: { kind: 'substring', value: 'Email' } }
+    ]);
+
+    expect(parseLocator('text="Sign in"')).toMatchObject({ success: true, data: [{ engine: 'text', text: { kind: 'exact', value: 'Sign in' } }] });
+    expect(parseLocator('placeholder=/^search/i')).toMatchObject({
+      data: [{ engine: 'placeholder', text: { kind: 'regex', source: '^search', flags: 'i' } }]
+    });
+    expect(parseLocator("testid='chart'")).toMatchObject({ data: [{ engine: 'testid', testId: 'chart' }] });
+    expect(parseLocator('//nav//a >> nth=-1')).toMatchObject({
+      data: [{ engine: 'xpath', expression: '//nav//a' }, { engine: 'nth', index: -1 }]
+    });
+  });
+
+  it('should parse role names and states', () => {
+    const result = parseLocator('role=Button[name="Submit order"][pressed=false]');
+    expect(result.success && result.data).toEqual([{
+      engine: 'role',
+      role: 'button',
+      name: { kind: 'exact', value: 'Submit order' },
+      states: { pressed: false }
+    }]);
+
+    expect(parseLocator('role=heading[level=2][name=/intro/i]')).toMatchObject({
+      data: [{ engine: 'role', role: 'heading', name: { kind: 'regex', source: 'intro' }, states: { level: 2 } }]
+    });
+    expect(parseLocator('role=checkbox[checked]')).toMatchObject({ data: [{ states: { checked: true } }] });
+  });
+
+  it('should reject malformed locators', () => {
+    const cases: Array<[string, string]> = [
+      ['foo=bar', 'Unknown locator engine "foo="'],
+      ['text=', 'needs a value'],
+      ['#list >>  >> nth=0', 'Empty locator part'],
+      ['nth=0', 'cannot start with nth='],
+      ['li >> nth=first', 'integer index'],
+      ['text=/[/', 'Invalid regular expression'],
+      ['role=button[colour=red]', 'Unknown role attribute [colour]'],
+      ['role=heading[level=0]', 'positive integer'],
+      ['role=button[name="x"', 'Invalid role locator'],
+      ['role=button[name="x"] [pressed]', 'Invalid role attributes'],
+      ['iframe#pay >>> ', 'Empty selector around >>>']
+    ];
+
+    for (const [selector, message] of cases) {
+      const result = parseLocator(selector);
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toContain(message);
+      expect(!result.success && result.code).toBe(ErrorCode.INVALID_SELECTOR);
+    }
+  });
+});
+
+describe('Locator Resolution', () => {
+  beforeEach(() => {
+    mockExecChromeJS.mockReset();
+  });
+
+  it('should generate a syntactically valid page script', () => {
+    const parts = parseLocator('role=button[name="Save"] >> nth=1');
+    const script = generateLocatorScript(parts.success ? parts.data : []);
+
+    expect(() => new Script(script)).not.toThrow();
+    expect(script).toContain('function getAccessibilityInfo');
+    expect(script).toContain(`"${LOCATOR_TARGET_ATTRIBUTE}"`);
+    expect(script).toContain('"engine":"role"');
+  });
+
+  it('should pass plain CSS selectors through without a page round trip', async () => {
+    expect(await resolveTargetSelector('#submit')).toMatchObject({ success: true, data: '#submit' });
+    expect(mockExecChromeJS).not.toHaveBeenCalled();
+  });
+
+  it('should address the marked element', async () => {
+    mockExecChromeJS.mockResolvedValue(jsResult({
+      matches: 3,
+      token: 'abc-123',
+      element: { tagName: 'button', role: 'button', name: 'Sign in' }
+    }));
+
+    const result = await resolveLocator('text=Sign in', 2);
+    expect(result.success && result.data).toEqual({
+      locator: 'text=Sign in',
+      selector: `[${LOCATOR_TARGET_ATTRIBUTE}="abc-123"]`,
+      matches: 3,
+      element: { tagName: 'button', role: 'button', name: 'Sign in' }
+    });
+    expect(mockExecChromeJS.mock.calls[0]![2]).toBe(2);
+  });
+
+  it('should report locators that match nothing or fail in the page', async () => {
+    mockExecChromeJS.mockResolvedValueOnce(jsResult({ matches: 0 }));
+    const missing = await resolveTargetSelector('label=Email');
+    expect(!missing.success && missing.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+    expect(!missing.success && missing.error).toBe('No element matches "label=Email"');
+
+    mockExecChromeJS.mockResolvedValueOnce(jsResult({ matches: 0, error: 'xpath locator failed: bad expression' }));
+    const invalid = await resolveTargetSelector('xpath=//[');
+    expect(!invalid.success && invalid.code).toBe(ErrorCode.INVALID_SELECTOR);
+    expect(!invalid.success && invalid.error).toContain('bad expression');
+  });
+
+  it('should report the locator instead of the generated selector', () => {
+    const selector = `[${LOCATOR_TARGET_ATTRIBUTE}="abc-123"]`;
+    const result = restoreLocator(ok({ selector, element: { selector, visible: true }, action: 'click' }), 'text=Go', selector);
+    expect(result.success && result.data).toEqual({ selector: 'text=Go', element: { selector: 'text=Go', visible: true }, action: 'click' });
+
+    const plain = ok({ selector: '#go' });
+    expect(restoreLocator(plain, '#go', '#go')).toBe(plain);
+  });
+});
@@ -0,0 +1,228 @@
+import { ErrorCode } from '../../core/ErrorCodes';
+import { error, ok } from '../../core/Result';
+import type { IServiceContainer } from '../../di/ServiceContainer';
+
+jest.mock('../tab.js', () => ({
+  TabCommand: jest.fn()
+}));
+
+jest.mock('../screenshot.js', () => ({
+  ScreenshotCommand: jest.fn()
+}));
+
+jest.mock('../meta.js', () => {
+  const automation = { category: 'Test', permissions: ['automation'] };
+  const commands = [
+    { name: 'nav', description: 'Navigation', ...automation, subcommands: [
+      { name: 'nav go', description: 'Navigate to URL', ...automation,
+        options: [{ name: '--url', type: 'string', required: true, description: 'URL to navigate to' }] }
+    ] },
+    { name: 'tab', description: 'Tabs', ...automation, subcommands: [
+      { name: 'tab list', description: 'List tabs', ...automation }
+    ] },
+    { name: 'mouse', description: 'Mouse', ...automation, subcommands: [
+      { name: 'mouse click', description: 'Click at coordinates or element', ...automation, options: [
+        { name: '--selector', type: 'string', required: false, description: 'CSS selector for element' },
+        { name: '--x', type: 'number', required: false, description: 'X coordinate' },
+        { name: '--button', type: 'string', required: false, default: 'left', choices: ['left', 'right', 'middle'], description: 'Mouse button' }
+      ] }
+    ] },
+    { name: 'snapshot', description: 'Snapshots', ...automation, subcommands: [
+      { name: 'snapshot dom-lite', description: 'Capture pruned DOM hierarchy', ...automation, options: [
+        { name: '--max-depth', type: 'number', required: false, default: 10, description: 'Maximum traversal depth' },
+        { name: '--visible-only', type: 'boolean', required: false, description: 'Only include visible elements' }
+      ] }
+    ] },
+    { name: 'shot', description: 'Screenshots', ...automation, subcommands: [
+      { name: 'shot viewport', description: 'Capture viewport screenshot', ...automation, options: [
+        { name: '--annotate', type: 'boolean', required: false, description: 'Draw numbered boxes over interactive elements' }
+      ] }
+    ] },
+    { name: 'netlog', description: 'Network', ...automation, subcommands: [
+      { name: 'netlog dump', description: 'Dump captured network events', ...automation, options: [
+        { name: '--format', type: 'string', required: false, default: 'json', choices: ['json', 'har'], description: 'Output format' }
+      ] }
+    ] },
+    { name: 'doctor', description: 'Diagnose', category: 'Test', permissions: [] }
+  ];
+  return {
+    getCommands: jest.fn().mockResolvedValue({ success: true, data: commands, code: 0, timestamp: '' }),
+    getMetaInfo: jest.fn().mockResolvedValue({ success: false, error: 'unavailable', code: 99, timestamp: '' })
+  };
+});
+
+import { TabCommand } from '../tab';
+import { ScreenshotCommand } from '../screenshot';
+import { getMcpTools } from '../mcp';
+import { getCommandRegistry } from '../meta-commands';
+import { listMcpTools, toolArguments, toolNameForCommand, validateToolArguments, type McpTool } from '../../mcp/McpTools';
+import { McpServer } from '../../mcp/McpServer';
+
+const MockTabCommand = TabCommand as jest.MockedClass<typeof TabCommand>;
+const MockScreenshotCommand = ScreenshotCommand as jest.MockedClass<typeof ScreenshotCommand>;
+
+const container = {} as IServiceContainer;
+
+describe('MCP Server', () => {
+  let tools: McpTool[];
+  let server: McpServer;
+  let mockList: jest.Mock;
+  let mockViewport: jest.Mock;
+
+  const request = (id: number, method: string, params?: Record<string, unknown>) =>
+    JSON.stringify({ jsonrpc: '2.0', id, method, ...(params && { params }) });
+
+  beforeAll(async () => {
+    const result = await getMcpTools();
+    if (!result.success) throw new Error(result.error);
+    tools = result.data;
+  });
+
+  beforeEach(() => {
+    mockList = jest.fn().mockResolvedValue(ok({ action: 'list', tabs: [{ id: 1, title: 'Example', url: 'https://example.com' }] }));
+    mockViewport = jest.fn().mockResolvedValue(ok({
+      path: '/tmp/shot.png',
+      format: 'png',
+      metadata: { width: 800, height: 600, timestamp: '' },
+      preview: { base64: 'UklGRg==', size: 6 }
+    }));
+    MockTabCommand.mockImplementation(() => ({ list: mockList }) as unknown as TabCommand);
+    MockScreenshotCommand.mockImplementation(() => ({ viewport: mockViewport }) as unknown as ScreenshotCommand);
+    server = new McpServer({ tools, context: { container, timeoutMs: 1000 }, serverInfo: { name: 'mac-chrome-cli', version: '1.0.0' } });
+  });
+
+  describe('tool schemas', () => {
+    it('should expose registry commands that have a tool handler', () => {
+      expect(tools.map(tool => tool.name)).toEqual([
+        'nav_go', 'tab_list', 'mouse_click', 'snapshot_dom_lite', 'shot_viewport', 'netlog_dump'
+      ]);
+
+      const domLite = tools.find(tool => tool.name === 'snapshot_dom_lite')!;
+      expect(domLite.inputSchema).toEqual({
+        type: 'object',
+        properties: {
+          maxDepth: { type: 'number', description: 'Maximum traversal depth', default: 10 },
+          visibleOnly: { type: 'boolean', description: 'Only include visible elements' }
+        },
+        additionalProperties: false
+      });
+      expect(tools.find(tool => tool.name === 'nav_go')!.inputSchema.required).toEqual(['url']);
+      expect(tools.find(tool => tool.name === 'netlog_dump')!.inputSchema.properties.format!.enum).toEqual(['json', 'har']);
+    });
+
+    it('should advertise only registry options each handler reads', () => {
+      const registryTools = listMcpTools(getCommandRegistry());
+
+      const commandNames = ['nav go', 'nav reload', 'nav back', 'nav forward', 'tab focus', 'tab list', 'windows list',
+        'mouse click', 'input fill', 'keyboard type', 'snapshot outline', 'snapshot dom-lite', 'shot viewport',
+        'shot full-page', 'shot element', 'dom eval', 'netlog dump'];
+      for (const command of commandNames) {
+        const tool = registryTools.find(candidate => candidate.name === toolNameForCommand(command));
+        expect(tool).toBeDefined();
+        // Every argument the handler reads is advertised, and nothing else
+        expect(Object.keys(tool!.inputSchema.properties).sort()).toEqual([...toolArguments(command)!].sort());
+      }
+
+      const byName = (name: string) => registryTools.find(tool => tool.name === name)!.inputSchema;
+      expect(byName('tab_focus').required).toEqual(['match']);
+      expect(Object.keys(byName('shot_full_page').properties)).toEqual([]);
+      expect(Object.keys(byName('shot_viewport').properties)).toEqual(['annotate']);
+      expect(Object.keys(byName('dom_eval').properties)).toEqual(['js', 'tab', 'window', 'frame', 'maxSize']);
+    });
+
+    it('should name tools after commands', () => {
+      expect(toolNameForCommand('snapshot dom-lite')).toBe('snapshot_dom_lite');
+    });
+
+    it('should validate arguments and apply defaults', () => {
+      const schema = tools.find(tool => tool.name === 'mouse_click')!.inputSchema;
+      const valid = validateToolArguments(schema, { selector: '#go' });
+      expect(valid.success && valid.data).toEqual({ selector: '#go', button: 'left' });
+
+      expect(validateToolArguments(schema, { x: '10' }).success).toBe(false);
+      expect(validateToolArguments(schema, { button: 'up' }).success).toBe(false);
+      expect(validateToolArguments(schema, { other: 1 }).success).toBe(false);
+    });
+  });
+
+  describe('protocol', () => {
+    it('should negotiate the protocol version on initialize', async () => {
+      const response = await server.handleMessage(request(1, 'initialize', { protocolVersion: '2024-11-05' }));
+      expect(response).toEqual({
+        jsonrpc: '2.0',
+        id: 1,
+        result: {
+          protocolVersion: '2024-11-05',
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: 'mac-chrome-cli', version: '1.0.0' }
+        }
+      });
+
+      const future = await server.handleMessage(request(2, 'initialize', { protocolVersion: '2099-01-01' }));
+      expect(future && 'result' in future && (future.result as { protocolVersion: string }).protocolVersion).toBe('2025-06-18');
+    });
+
+    it('should ignore notifications and reject unknown methods', async () => {
+      expect(await server.handleMessage(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }))).toBeUndefined();
+      expect(await server.handleMessage(request(3, 'resources/list'))).toMatchObject({ error: { code: -32601 } });
+      expect(await server.handleMessage('{not json')).toMatchObject({ id: null, error: { code: -32700 } });
+    });
+
+    it('should list tools', async () => {
+      const response = await server.handleMessage(request(4, 'tools/list'));
+      expect(response && 'result' in response && (response.result as { tools: McpTool[] }).tools).toBe(tools);
+    });
+  });
+
+  describe('tools/call', () => {
+    it('should return command data as text and structured content', async () => {
+      const response = await server.handleMessage(request(5, 'tools/call', { name: 'tab_list', arguments: {} }));
+      const result = response && 'result' in response ? response.result as Record<string, unknown> : undefined;
+
+      expect(mockList).toHaveBeenCalled();
+      expect(result?.isError).toBeUndefined();
+      expect(result?.structuredContent).toEqual({ action: 'list', tabs: [{ id: 1, title: 'Example', url: 'https://example.com' }] });
+      expect((result?.content as Array<{ type: string }>)[0]!.type).toBe('text');
+    });
+
+    it('should return screenshots as WebP images', async () => {
+      const response = await server.handleMessage(request(6, 'tools/call', { name: 'shot_viewport' }));
+      const result = response && 'result' in response ? response.result as { content: unknown[] } : undefined;
+
+      expect(mockViewport).toHaveBeenCalledWith({ preview: true });
+      expect(result?.content[0]).toEqual({ type: 'image', data: 'UklGRg==', mimeType: 'image/webp' });
+    });
+
+    it('should pass annotate to viewport screenshots', async () => {
+      await server.handleMessage(request(9, 'tools/call', { name: 'shot_viewport', arguments: { annotate: true } }));
+
+      expect(mockViewport).toHaveBeenCalledWith({ preview: true, annotate: true });
+    });
+
+    it('should map ErrorCode failures to structured tool errors', async () => {
+      mockList.mockResolvedValue(error('Chrome is not running', ErrorCode.CHROME_NOT_RUNNING));
+
+      const response = await server.handleMessage(request(7, 'tools/call', { name: 'tab_list', arguments: {} }));
+      const result = response && 'result' in response ? response.result as Record<string, unknown> : undefined;
+
+      expect(result?.isError).toBe(true);
+      expect(result?.structuredContent).toMatchObject({
+        error: 'Chrome is not running',
+        code: ErrorCode.CHROME_NOT_RUNNING,
+        codeName: 'CHROME_NOT_RUNNING',
+        category: 'browser'
+      });
+    });
+
+    it('should report invalid arguments as tool errors and unknown tools as protocol errors', async () => {
+      const invalid = await server.handleMessage(request(8, 'tools/call', { name: 'nav_go', arguments: {} }));
+      expect(invalid && 'result' in invalid && invalid.result).toMatchObject({
+        isError: true,
+        structuredContent: { code: ErrorCode.INVALID_INPUT, codeName: 'INVALID_INPUT' }
+      });
+
+      const unknown = await server.handleMessage(request(9, 'tools/call', { name: 'format_disk', arguments: {} }));
+      expect(unknown).toMatchObject({ id: 9, error: { code: -32602, message: 'Unknown tool: format_disk' } });
+    });
+  });
+});
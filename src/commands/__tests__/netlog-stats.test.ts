@@ -0,0 +1,157 @@
+import {
+  computeNetworkStats,
+  summarizeLatency,
+  normalizeEndpointPath,
+  formatNetworkStats,
+  renderWaterfall,
+  validateNetworkStatsOptions,
+  validateWaterfallOptions
+} from '../netlog-stats';
+import type { NetworkEvent } from '../netlog';
+import { ERROR_CODES } from '../../lib/util';
+
+let counter = 0;
+
+function event(url: string, overrides: Partial<NetworkEvent> & { start?: number; duration?: number } = {}): NetworkEvent {
+  const { start = 0, duration, ...rest } = overrides;
+  counter++;
+  return {
+    id: `evt_${counter}`,
+    type: 'fetch',
+    method: 'GET',
+    url,
+    timestamp: 1704067200000 + start,
+    requestHeaders: {},
+    status: 200,
+    timing: { startTime: start, duration: 'duration' in overrides ? duration : 100 },
+    ...rest
+  };
+}
+
+describe('Network Stats', () => {
+  describe('summarizeLatency', () => {
+    it('should compute nearest-rank percentiles', () => {
+      const durations = Array.from({ length: 100 }, (_, i) => i + 1);
+
+      expect(summarizeLatency(durations)).toEqual({
+        count: 100, min: 1, mean: 50.5, p50: 50, p95: 95, p99: 99, max: 100
+      });
+      expect(summarizeLatency([42])).toMatchObject({ p50: 42, p95: 42, p99: 42 });
+      expect(summarizeLatency([])).toBeNull();
+    });
+  });
+
+  describe('normalizeEndpointPath', () => {
+    it('should collapse numeric, UUID and hex segments', () => {
+      expect(normalizeEndpointPath('/users/42/orders')).toBe('/users/:id/orders');
+      expect(normalizeEndpointPath('/docs/3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toBe('/docs/:id');
+      expect(normalizeEndpointPath('/blobs/a94a8fe5ccb19ba61c4c0873')).toBe('/blobs/:id');
+      expect(normalizeEndpointPath('/v2/search')).toBe('/v2/search');
+    });
+  });
+
+  describe('computeNetworkStats', () => {
+    const events = [
+      event('https://api.example.com/users/1', { duration: 100 }),
+      event('https://api.example.com/users/2', { duration: 300, status: 500, statusText: 'Internal Server Error' }),
+      event('https://api.example.com/users/3?expand=1', { duration: 200, responseHeaders: { 'Content-Length': '5000' }, responseBody: 'x' }),
+      event('https://cdn.example.com/app.js', { duration: 50, responseBody: 'console.log(1)' }),
+      event('/api/ping', { type: 'xhr', method: 'POST', duration: 20, requestBody: '{}', status: undefined, error: 'Failed to fetch' }),
+      event('https://api.example.com/slow', { duration: undefined, status: undefined })
+    ];
+
+    it('should report totals, error rate and bytes', () => {
+      const stats = computeNetworkStats(events);
+
+      expect(stats).toMatchObject({ cmd: 'netlog.stats', requests: 6, completed: 5, pending: 1, errors: 2 });
+      expect(stats.errorRate).toBeCloseTo(0.4);
+      expect(stats.bytes).toEqual({ request: 2, response: 5014, total: 5016, estimated: false });
+      expect(stats.latency).toMatchObject({ count: 5, p50: 100, max: 300 });
+    });
+
+    it('should group by host and by normalized endpoint', () => {
+      const stats = computeNetworkStats(events);
+
+      expect(stats.hosts.map(host => [host.key, host.requests])).toEqual([
+        ['api.example.com', 4],
+        ['(same-origin)', 1],
+        ['cdn.example.com', 1]
+      ]);
+      const users = stats.endpoints.find(endpoint => endpoint.key === 'GET api.example.com/users/:id');
+      expect(users).toMatchObject({ requests: 3, completed: 3, errors: 1, latency: { p50: 200, p99: 300 } });
+      expect(stats.endpoints.some(endpoint => endpoint.key === 'POST (same-origin)/api/ping')).toBe(true);
+    });
+
+    it('should list the slowest completed requests', () => {
+      const stats = computeNetworkStats(events, { top: 2 });
+
+      expect(stats.slowest).toEqual([
+        expect.objectContaining({ url: 'https://api.example.com/users/2', durationMs: 300, status: 500 }),
+        expect.objectContaining({ url: 'https://api.example.com/users/3?expand=1', durationMs: 200 })
+      ]);
+    });
+
+    it('should flag byte totals estimated from truncated previews', () => {
+      const stats = computeNetworkStats([event('https://a.test/big', { responseBody: 'abc...[truncated]' })]);
+
+      expect(stats.bytes.estimated).toBe(true);
+      expect(formatNetworkStats(stats)).toContain('~');
+    });
+
+    it('should handle an empty log', () => {
+      const stats = computeNetworkStats([]);
+
+      expect(stats).toMatchObject({ requests: 0, errorRate: 0, latency: null, hosts: [], slowest: [] });
+      expect(formatNetworkStats(stats)).toContain('Network stats: 0 request(s)');
+    });
+  });
+
+  describe('formatNetworkStats', () => {
+    it('should include latency, groups and slowest requests', () => {
+      const text = formatNetworkStats(computeNetworkStats([
+        event('https://api.example.com/a', { duration: 120 }),
+        event('https://api.example.com/b', { duration: 80, status: 404 })
+      ]));
+
+      expect(text).toContain('2 request(s) (2 completed, 0 pending), 1 error(s) (50.0%)');
+      expect(text).toContain('Latency: p50 80ms  p95 120ms  p99 120ms');
+      expect(text).toContain('Hosts:');
+      expect(text).toContain('GET api.example.com/b');
+      expect(text).toMatch(/120ms {2}GET https:\/\/api\.example\.com\/a {2}200/);
+    });
+  });
+
+  describe('renderWaterfall', () => {
+    it('should place bars by start time and duration', () => {
+      const text = renderWaterfall([
+        event('https://api.example.com/late', { start: 50, duration: 50 }),
+        event('https://api.example.com/first', { start: 0, duration: 100 }),
+        event('https://api.example.com/open', { start: 80, duration: undefined, status: undefined })
+      ], { width: 10 });
+      const rows = text.split('\n');
+
+      expect(rows[0]).toContain('|0ms  100ms|');
+      expect(rows[1]).toContain('GET api.example.com/first');
+      expect(rows[1]).toContain('|██████████|');
+      expect(rows[2]).toContain('|     █████|');
+      expect(rows[3]).toContain('pending');
+      expect(rows[3]).toContain('|        ░░|');
+    });
+
+    it('should cap rows and handle logs without timings', () => {
+      const many = Array.from({ length: 5 }, (_, i) => event(`https://a.test/${i}`, { start: i }));
+
+      expect(renderWaterfall(many, { maxRows: 2 })).toContain('... 3 more request(s)');
+      expect(renderWaterfall([])).toBe('No timed requests to render');
+    });
+  });
+
+  describe('option validation', () => {
+    it('should reject invalid top, width and rows', () => {
+      expect(validateNetworkStatsOptions({ top: NaN }).code).toBe(ERROR_CODES.INVALID_INPUT);
+      expect(validateNetworkStatsOptions({ top: 5 }).success).toBe(true);
+      expect(validateWaterfallOptions({ width: 5 }).code).toBe(ERROR_CODES.INVALID_INPUT);
+      expect(validateWaterfallOptions({ maxRows: 0 }).code).toBe(ERROR_CODES.INVALID_INPUT);
+    });
+  });
+});
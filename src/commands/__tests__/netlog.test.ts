@@ -1,5 +1,76 @@
-import { convertToHAR } from '../netlog.js';
-import type { NetworkEvent } from '../netlog.js';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createContext, runInContext } from 'vm';
+import {
+  convertToHAR,
+  hashRequestBody,
+  createHARMockEntries,
+  loadHARFile,
+  startHARMock,
+  validateInterceptRule,
+  addInterceptRule,
+  clearInterceptRules,
+  parseStatusRange,
+  createNetworkEventFilter,
+  matchesNetworkFilter,
+  tailNetworkLog,
+  startNetworkMonitoring,
+  readNetworkEventsSince
+} from '../netlog.js';
+import type { NetworkEvent, HAR, HAREntry } from '../netlog.js';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+jest.mock('../../services/AppleScriptService.js', () => ({
+  appleScriptService: {
+    executeScript: jest.fn(),
+    escapeAppleScriptString: (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+  }
+}));
+
+import { appleScriptService } from '../../services/AppleScriptService';
+const mockExecuteScript = appleScriptService.executeScript as jest.MockedFunction<typeof appleScriptService.executeScript>;
+
+function harEntry(overrides: { method?: string; url?: string; status?: number; postData?: string; text?: string; encoding?: string; headers?: Array<{ name: string; value: string }> }): HAREntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 12,
+    request: {
+      method: overrides.method || 'GET',
+      url: overrides.url || 'https://api.example.com/users?page=1#top',
+      httpVersion: 'HTTP/1.1',
+      headers: [],
+      queryString: [],
+      ...(overrides.postData && { postData: { mimeType: 'application/json', text: overrides.postData } }),
+      headersSize: 0,
+      bodySize: 0
+    },
+    response: {
+      status: overrides.status ?? 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/1.1',
+      headers: overrides.headers || [
+        { name: 'Content-Type', value: 'application/json' },
+        { name: 'Content-Encoding', value: 'gzip' },
+        { name: 'Content-Length', value: '120' }
+      ],
+      content: {
+        size: 0,
+        mimeType: 'application/json',
+        text: overrides.text ?? '{"users":[]}',
+        ...(overrides.encoding && { encoding: overrides.encoding })
+      },
+      headersSize: 0,
+      bodySize: 0
+    },
+    cache: {},
+    timings: { wait: 12 }
+  };
+}
+
+function har(entries: HAREntry[]): HAR {
+  return { log: { version: '1.2', creator: { name: 'test', version: '1.0.0' }, entries } };
+}
 
 describe('Network Logging with Sanitization', () => {
   describe('convertToHAR', () => {
@@ -100,5 +171,476 @@ describe('Network Logging with Sanitization', () => {
       expect(entry.request.headers).toEqual([]);
       expect(entry.response.status).toBe(0);
     });
+
+    it('should export WebSocket frames as DevTools _webSocketMessages', () => {
+      const events: NetworkEvent[] = [
+        {
+          id: 'ws1',
+          type: 'websocket',
+          method: 'CONNECT',
+          url: 'wss://api.example.com/socket',
+          timestamp: 1704067200000,
+          requestHeaders: {},
+          status: 101,
+          webSocket: {
+            frames: [
+              { direction: 'send', timestamp: 1704067200500, opcode: 1, size: 28, payload: '{"token":"secret-session-id"}' },
+              { direction: 'receive', timestamp: 1704067201250, opcode: 2, size: 4, payload: 'AQIDBA==', encoding: 'base64' }
+            ],
+            droppedFrames: 0,
+            closeCode: 1006,
+            wasClean: false
+          }
+        }
+      ];
+
+      const entry = convertToHAR(events).log.entries[0];
+
+      expect(entry._resourceType).toBe('websocket');
+      expect(entry._webSocketMessages).toEqual([
+        { type: 'send', time: 1704067200.5, opcode: 1, data: '{"token":"[REDACTED]"}' },
+        { type: 'receive', time: 1704067201.25, opcode: 2, data: 'AQIDBA==' }
+      ]);
+      expect(entry._webSocketClose).toEqual({ code: 1006, reason: '', wasClean: false });
+      // The captured event itself is left untouched
+      expect(events[0].webSocket?.frames[0].payload).toContain('secret-session-id');
+    });
+
+    it('should flag mocked and intercepted requests with custom fields', () => {
+      const events: NetworkEvent[] = [
+        { id: 'a', type: 'fetch', method: 'GET', url: 'https://api.example.com/a', timestamp: Date.now(), requestHeaders: {}, mocked: true },
+        { id: 'b', type: 'xhr', method: 'GET', url: 'https://api.example.com/b', timestamp: Date.now(), requestHeaders: {}, interceptedBy: ['rule_1', 'rule_3'] },
+        { id: 'c', type: 'fetch', method: 'GET', url: 'https://api.example.com/c', timestamp: Date.now(), requestHeaders: {}, interceptedBy: [] }
+      ];
+
+      const [mocked, intercepted, untouched] = convertToHAR(events).log.entries;
+
+      expect(mocked._mocked).toBe(true);
+      expect(intercepted._interceptedBy).toEqual(['rule_1', 'rule_3']);
+      expect(untouched).not.toHaveProperty('_mocked');
+      expect(untouched).not.toHaveProperty('_interceptedBy');
+    });
+  });
+
+  describe('HAR mocking', () => {
+    it('should hash request bodies with 32-bit FNV-1a', () => {
+      expect(hashRequestBody('')).toBe('811c9dc5');
+      expect(hashRequestBody('a')).toBe('e40c292c');
+      expect(hashRequestBody('{"q":1}')).toBe(hashRequestBody('{"q":1}'));
+      expect(hashRequestBody('{"q":1}')).not.toBe(hashRequestBody('{"q":2}'));
+    });
+
+    it('should convert HAR entries into mock entries', () => {
+      const entries = createHARMockEntries(har([
+        harEntry({}),
+        harEntry({ url: 'wss://api.example.com/socket', status: 101 }),
+        harEntry({ method: 'post', url: 'https://api.example.com/login', postData: '{"user":"a"}', text: 'b2s=', encoding: 'base64' })
+      ]), { matchBody: true });
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toEqual({
+        method: 'GET',
+        url: 'https://api.example.com/users?page=1',
+        status: 200,
+        statusText: 'OK',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"users":[]}'
+      });
+      expect(entries[1]).toMatchObject({
+        method: 'POST',
+        bodyHash: hashRequestBody('{"user":"a"}'),
+        body: 'b2s=',
+        bodyEncoding: 'base64'
+      });
+    });
+
+    it('should strip query strings and skip body hashes unless requested', () => {
+      const [entry] = createHARMockEntries(har([harEntry({ postData: 'x=1' })]), { ignoreQuery: true });
+
+      expect(entry.url).toBe('https://api.example.com/users');
+      expect(entry.bodyHash).toBeUndefined();
+    });
+
+    describe('loadHARFile', () => {
+      let dir: string;
+
+      beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'netlog-har-'));
+      });
+
+      afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+      });
+
+      it('should load plain HAR files and netlog dump --json output', () => {
+        const plain = join(dir, 'plain.har');
+        const envelope = join(dir, 'envelope.json');
+        writeFileSync(plain, JSON.stringify(har([harEntry({})])));
+        writeFileSync(envelope, JSON.stringify({ success: true, data: har([harEntry({})]) }));
+
+        expect(loadHARFile(plain).data?.log.entries).toHaveLength(1);
+        expect(loadHARFile(envelope).data?.log.entries).toHaveLength(1);
+      });
+
+      it('should report missing, malformed and invalid HAR files', () => {
+        const malformed = join(dir, 'malformed.har');
+        const noEntries = join(dir, 'no-entries.har');
+        const relative = join(dir, 'relative.har');
+        writeFileSync(malformed, '{"log":');
+        writeFileSync(noEntries, JSON.stringify({ log: {} }));
+        writeFileSync(relative, JSON.stringify(har([harEntry({ url: '/api/users' })])));
+
+        expect(loadHARFile(join(dir, 'missing.har')).code).toBe(ErrorCode.FILE_NOT_FOUND);
+        expect(loadHARFile(malformed).code).toBe(ErrorCode.INVALID_JSON);
+        expect(loadHARFile(noEntries).code).toBe(ErrorCode.INVALID_INPUT);
+        expect(loadHARFile(relative).error).toContain('relative or invalid URL');
+      });
+    });
+
+    describe('startHARMock', () => {
+      beforeEach(() => {
+        mockExecuteScript
+          .mockResolvedValueOnce({ success: true, data: 'Network hooks injected successfully', code: ErrorCode.OK, timestamp: '' })
+          .mockResolvedValueOnce({
+            success: true,
+            data: 'SUCCESS:{"success":true,"data":{"active":true,"mode":"strict","entries":1,"hits":0,"misses":0,"unmatched":[]}}',
+            code: ErrorCode.OK,
+            timestamp: ''
+          });
+      });
+
+      it('should inject hooks and send mock entries to the page', async () => {
+        const result = await startHARMock(har([harEntry({ text: 'partial...[truncated]' })]), { mode: 'strict' });
+
+        expect(result.success).toBe(true);
+        expect(result.data).toMatchObject({ active: true, mode: 'strict', entries: 1, truncatedBodies: 1 });
+        expect(mockExecuteScript).toHaveBeenCalledTimes(2);
+        const mockScript = mockExecuteScript.mock.calls[1][0];
+        expect(mockScript).toContain('window.__netlog.setMocks(');
+        expect(mockScript).toContain('https://api.example.com/users?page=1');
+      });
+
+      it('should refuse HAR files without replayable entries', async () => {
+        const result = await startHARMock(har([harEntry({ status: 101 })]));
+
+        expect(result.success).toBe(false);
+        expect(mockExecuteScript).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('interception rules', () => {
+    it('should normalize valid rules', () => {
+      const result = validateInterceptRule({ urlPattern: ' */api/* ', method: 'post', delayMs: 500, setHeaders: { 'X-Debug': '1' } });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ urlPattern: '*/api/*', method: 'POST', delayMs: 500, setHeaders: { 'X-Debug': '1' } });
+    });
+
+    it('should reject rules without a pattern, effect or with conflicting effects', () => {
+      expect(validateInterceptRule({ urlPattern: '' }).error).toContain('URL pattern');
+      expect(validateInterceptRule({ urlPattern: '*' }).error).toContain('at least one effect');
+      expect(validateInterceptRule({ urlPattern: '*', block: true, status: 500 }).error).toContain('cannot both block');
+      expect(validateInterceptRule({ urlPattern: '*', delayMs: 120000 }).code).toBe(ErrorCode.INVALID_INPUT);
+      expect(validateInterceptRule({ urlPattern: '*', status: 302 }).success).toBe(true);
+      expect(validateInterceptRule({ urlPattern: '*', status: 100 }).code).toBe(ErrorCode.INVALID_INPUT);
+      expect(validateInterceptRule({ urlPattern: '*', removeHeaders: ['Bad Header'] }).error).toContain('Invalid header name');
+    });
+
+    it('should inject hooks and add the rule in the page', async () => {
+      mockExecuteScript
+        .mockResolvedValueOnce({ success: true, data: 'Network hooks injected successfully', code: ErrorCode.OK, timestamp: '' })
+        .mockResolvedValueOnce({
+          success: true,
+          data: 'SUCCESS:{"success":true,"data":{"urlPattern":"*.png","block":true,"id":"rule_1","hits":0,"createdAt":1}}',
+          code: ErrorCode.OK,
+          timestamp: ''
+        });
+
+      const result = await addInterceptRule({ urlPattern: '*.png', block: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ id: 'rule_1', hits: 0 });
+      expect(mockExecuteScript.mock.calls[1][0]).toContain('window.__netlog.addRule(');
+    });
+
+    it('should not touch the page for invalid rules', async () => {
+      const result = await addInterceptRule({ urlPattern: '*', delayMs: -1 });
+
+      expect(result.success).toBe(false);
+      expect(mockExecuteScript).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown rule ids when clearing', async () => {
+      mockExecuteScript.mockResolvedValueOnce({
+        success: true,
+        data: 'SUCCESS:{"success":true,"data":{"removed":0}}',
+        code: ErrorCode.OK,
+        timestamp: ''
+      });
+
+      const result = await clearInterceptRules('rule_9');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No interception rule with id rule_9');
+    });
+  });
+
+  describe('page hooks', () => {
+    class FakeWebSocket extends EventTarget {
+      static instances: FakeWebSocket[] = [];
+      protocol = '';
+      sent: unknown[] = [];
+
+      constructor(public url: string) {
+        super();
+        FakeWebSocket.instances.push(this);
+      }
+
+      send(data: unknown) {
+        this.sent.push(data);
+      }
+
+      emit(type: string, fields: Record<string, unknown> = {}) {
+        this.dispatchEvent(Object.assign(new Event(type), fields));
+      }
+    }
+
+    class FakeXMLHttpRequest {
+      open() {}
+      send() {}
+    }
+
+    let page: Record<string, unknown>;
+
+    /**
+     * Run the scripts netlog sends to Chrome in a page whose fetch and WebSocket the test controls
+     */
+    function loadPage(fetch: (input: string) => Promise<Response>) {
+      FakeWebSocket.instances = [];
+      page = createContext({
+        fetch,
+        WebSocket: FakeWebSocket,
+        XMLHttpRequest: FakeXMLHttpRequest,
+        Headers,
+        Response,
+        Event,
+        TextEncoder,
+        TextDecoder,
+        URL,
+        performance,
+        setTimeout,
+        btoa,
+        atob,
+        location: { href: 'https://app.test/' }
+      });
+      page.window = page;
+
+      mockExecuteScript.mockImplementation(async (script: string) => {
+        const js = /javascript "((?:[^"\\]|\\.)*)"/.exec(script)![1]!.replace(/\\(["\\])/g, '$1');
+        const value = runInContext(js, page) as string;
+        return {
+          success: true,
+          data: script.includes('set result to') ? 'SUCCESS:' + value : 'Network hooks injected successfully',
+          code: ErrorCode.OK,
+          timestamp: ''
+        };
+      });
+    }
+
+    async function read(cursor: number) {
+      const batch = await readNetworkEventsSince(cursor);
+      expect(batch.success).toBe(true);
+      return batch.data!;
+    }
+
+    it('should report a streaming fetch once its headers arrive and cap the body preview', async () => {
+      let cancelled = false;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('data: ' + 'x'.repeat(3000) + '\n\n'));
+        },
+        cancel() {
+          cancelled = true;
+        }
+      });
+      loadPage(() => Promise.resolve(new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } })));
+      expect((await startNetworkMonitoring()).success).toBe(true);
+
+      const response = await (runInContext('fetch("https://app.test/events")', page) as Promise<Response>);
+      const batch = await read(0);
+      expect(batch.events).toHaveLength(1);
+      expect(batch.events[0]).toMatchObject({ type: 'fetch', url: 'https://app.test/events', status: 200, seq: 1 });
+
+      // The page still owns an open stream; only the preview clone was cancelled
+      expect(cancelled).toBe(false);
+      const reader = response.body!.getReader();
+      expect((await reader.read()).done).toBe(false);
+      await reader.cancel();
+
+      const preview = (await read(0)).events[0]!.responseBody!;
+      expect(preview).toMatch(/^data: x+\.\.\.\[truncated\]$/);
+      expect(preview).toHaveLength(2048 + '...[truncated]'.length);
+    });
+
+    it('should report a WebSocket again with its frames once it closes', async () => {
+      loadPage(() => Promise.reject(new TypeError('offline')));
+      expect((await startNetworkMonitoring()).success).toBe(true);
+
+      const socket = runInContext('new WebSocket("wss://app.test/live")', page) as FakeWebSocket;
+      socket.emit('open');
+      const opened = await read(0);
+      expect(opened.events.map(event => [event.seq, event.webSocket?.closeCode])).toEqual([[1, undefined]]);
+
+      socket.send('ping');
+      socket.emit('message', { data: 'pong' });
+      socket.emit('close', { code: 1000, reason: 'done', wasClean: true });
+
+      const closed = await read(opened.cursor);
+      expect(closed).toMatchObject({ cursor: 2, skipped: 0 });
+      expect(closed.events).toHaveLength(1);
+      expect(closed.events[0]).toMatchObject({
+        id: opened.events[0]!.id,
+        seq: 2,
+        webSocket: { closeCode: 1000, closeReason: 'done', wasClean: true }
+      });
+      expect(closed.events[0]!.webSocket!.frames.map(frame => [frame.direction, frame.payload])).toEqual([
+        ['send', 'ping'],
+        ['receive', 'pong']
+      ]);
+
+      const replayed = await read(0);
+      expect(replayed).toMatchObject({ cursor: 2, skipped: 0 });
+      expect(replayed.events).toHaveLength(1);
+    });
+  });
+
+  describe('netlog tail', () => {
+    function event(overrides: Partial<NetworkEvent>): NetworkEvent {
+      return {
+        id: 'evt_1',
+        type: 'fetch',
+        method: 'GET',
+        url: 'https://api.example.com/users',
+        timestamp: Date.now(),
+        requestHeaders: {},
+        status: 200,
+        ...overrides
+      };
+    }
+
+    function batch(cursor: number, events: NetworkEvent[], skipped = 0) {
+      return {
+        success: true,
+        data: 'SUCCESS:' + JSON.stringify({ success: true, data: { isActive: true, cursor, reset: false, skipped, events } }),
+        code: ErrorCode.OK,
+        timestamp: ''
+      };
+    }
+
+    it('should parse status codes, ranges and classes', () => {
+      expect(parseStatusRange('404').data).toEqual({ min: 404, max: 404 });
+      expect(parseStatusRange('400-599').data).toEqual({ min: 400, max: 599 });
+      expect(parseStatusRange('5XX').data).toEqual({ min: 500, max: 599 });
+      expect(parseStatusRange('0').data).toEqual({ min: 0, max: 0 });
+      expect(parseStatusRange('500-400').code).toBe(ErrorCode.INVALID_INPUT);
+      expect(parseStatusRange('6xx').code).toBe(ErrorCode.INVALID_INPUT);
+      expect(parseStatusRange('ok').code).toBe(ErrorCode.INVALID_INPUT);
+    });
+
+    it('should match events against every filter criterion', () => {
+      const filter = createNetworkEventFilter({ methods: ['post'], status: '5xx', url: '/api/', types: ['fetch', 'xhr'] });
+
+      expect(filter.success).toBe(true);
+      expect(matchesNetworkFilter(event({ method: 'POST', status: 503, url: 'https://x.test/api/save' }), filter.data!)).toBe(true);
+      expect(matchesNetworkFilter(event({ method: 'GET', status: 503, url: 'https://x.test/api/save' }), filter.data!)).toBe(false);
+      expect(matchesNetworkFilter(event({ method: 'POST', status: 200, url: 'https://x.test/api/save' }), filter.data!)).toBe(false);
+      expect(matchesNetworkFilter(event({ method: 'POST', status: 503, url: 'https://x.test/static' }), filter.data!)).toBe(false);
+      expect(matchesNetworkFilter(event({ type: 'websocket', method: 'POST', status: 503, url: 'https://x.test/api/' }), filter.data!)).toBe(false);
+
+      const failed = createNetworkEventFilter({ status: '0' }).data!;
+      expect(matchesNetworkFilter(event({ status: undefined, error: 'Failed to fetch' }), failed)).toBe(true);
+    });
+
+    it('should reject invalid filters', () => {
+      expect(createNetworkEventFilter({ url: '(' }).error).toContain('Invalid URL pattern');
+      expect(createNetworkEventFilter({ types: ['beacon' as never] }).error).toContain('beacon');
+    });
+
+    it('should skip buffered events and stream new ones once', async () => {
+      mockExecuteScript
+        .mockResolvedValueOnce(batch(2, [event({ id: 'evt_1', seq: 1 }), event({ id: 'evt_2', seq: 2 })]))
+        .mockResolvedValueOnce(batch(4, [
+          event({ id: 'evt_3', seq: 3, status: 500 }),
+          event({ id: 'evt_4', seq: 4, status: 200 })
+        ], 1))
+        .mockResolvedValueOnce(batch(5, [event({ id: 'evt_5', seq: 5, status: 502 })]));
+      const emitted: string[] = [];
+      const onSkipped = jest.fn();
+
+      const result = await tailNetworkLog(
+        { status: '5xx', intervalMs: 50, count: 2 },
+        { onEvent: e => emitted.push(e.id), onSkipped }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ emitted: 2, skipped: 1, polls: 3, stoppedBy: 'count' });
+      expect(emitted).toEqual(['evt_3', 'evt_5']);
+      expect(onSkipped).toHaveBeenCalledWith(1);
+      expect(mockExecuteScript.mock.calls[0][0]).toContain('window.__netlog.since(0, 0)');
+      expect(mockExecuteScript.mock.calls[1][0]).toContain('window.__netlog.since(2, 200)');
+    });
+
+    it('should replay buffered events with fromStart and stop after the duration', async () => {
+      mockExecuteScript
+        .mockResolvedValueOnce(batch(1, [event({ id: 'evt_1', seq: 1 })]))
+        .mockResolvedValue(batch(1, []));
+      const emitted: string[] = [];
+
+      const result = await tailNetworkLog({ fromStart: true, intervalMs: 50, durationMs: 60 }, { onEvent: e => emitted.push(e.id) });
+
+      expect(result.data?.stoppedBy).toBe('duration');
+      expect(emitted).toEqual(['evt_1']);
+    });
+
+    it('should not start monitoring when it is stopped or the hooks are gone', async () => {
+      mockExecuteScript.mockResolvedValueOnce({
+        success: true,
+        data: 'SUCCESS:' + JSON.stringify({ success: true, data: { isActive: false, cursor: 0, reset: false, skipped: 0, events: [] } }),
+        code: ErrorCode.OK,
+        timestamp: ''
+      });
+
+      const stopped = await tailNetworkLog({ intervalMs: 50 }, { onEvent: jest.fn() });
+
+      expect(stopped.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+      expect(stopped.error).toContain('netlog start');
+      expect(mockExecuteScript).toHaveBeenCalledTimes(1);
+
+      mockExecuteScript
+        .mockResolvedValueOnce(batch(0, []))
+        .mockResolvedValueOnce({ success: true, data: 'SUCCESS:' + JSON.stringify({ success: true, data: null }), code: ErrorCode.OK, timestamp: '' });
+
+      const lost = await tailNetworkLog({ intervalMs: 50 }, { onEvent: jest.fn() });
+
+      expect(lost.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+      expect(lost.error).toContain('navigation');
+      expect(mockExecuteScript).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report the error code of a failed poll', async () => {
+      mockExecuteScript.mockResolvedValueOnce({ success: true, data: 'ERROR: Chrome is not running', code: ErrorCode.OK, timestamp: '' });
+
+      const result = await tailNetworkLog({ intervalMs: 50 }, { onEvent: jest.fn() });
+
+      expect(result.code).toBe(ErrorCode.CHROME_NOT_RUNNING);
+    });
+
+    it('should validate options before polling', async () => {
+      const result = await tailNetworkLog({ intervalMs: 10 }, { onEvent: jest.fn() });
+
+      expect(result.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(mockExecuteScript).not.toHaveBeenCalled();
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,111 @@
+import {
+  parseA11yAuditOptions,
+  parseConditionWaitOptions,
+  parseDomEvalOptions,
+  parseFillOptions,
+  parseMouseOptions,
+  parseNavigationOptions,
+  parseScreenshotOptions,
+  parseWaitIdleOptions
+} from '../options';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+describe('Options', () => {
+  describe('parseNavigationOptions', () => {
+    it('should read CLI strings and step values alike', () => {
+      const cli = parseNavigationOptions({ window: '2', timeout: '5000', wait: true }, 30000);
+      const step = parseNavigationOptions({ window: 2, timeout: 5000, wait: true }, 30000);
+
+      expect(cli).toEqual(step);
+      expect(cli.success && cli.data).toEqual({ windowIndex: 2, waitForLoad: true, timeoutMs: 5000 });
+    });
+
+    it('should apply defaults and reject invalid values', () => {
+      const defaults = parseNavigationOptions({}, 12000);
+      expect(defaults.success && defaults.data).toEqual({ windowIndex: 1, waitForLoad: false, timeoutMs: 12000 });
+
+      for (const values of [{ window: '0' }, { window: 'abc' }, { timeout: '500' }, { timeout: 'soon' }]) {
+        const invalid = parseNavigationOptions(values, 30000);
+        expect(!invalid.success && invalid.code).toBe(ErrorCode.INVALID_INPUT);
+      }
+    });
+  });
+
+  describe('wait options', () => {
+    it('should leave unset durations to the wait', () => {
+      const idle = parseWaitIdleOptions({});
+      expect(idle.success && idle.data).toEqual({});
+
+      const condition = parseConditionWaitOptions({ interval: '250', tab: '2' });
+      expect(condition.success && condition.data).toEqual({ intervalMs: 250, tabIndex: 2, windowIndex: 1 });
+
+      const withTimeout = parseConditionWaitOptions({}, 8000);
+      expect(withTimeout.success && withTimeout.data.timeoutMs).toBe(8000);
+
+      const negative = parseConditionWaitOptions({ timeout: -1 });
+      expect(!negative.success && negative.code).toBe(ErrorCode.INVALID_INPUT);
+    });
+  });
+
+  describe('parseFillOptions', () => {
+    it('should clear the field unless clear is false', () => {
+      const fill = parseFillOptions({ selector: '#email', value: 'a@b.c' });
+      expect(fill.success && fill.data).toEqual({
+        selector: '#email',
+        value: 'a@b.c',
+        clear: true,
+        method: 'auto',
+        speed: 50,
+        windowIndex: 1
+      });
+
+      // commander sets `clear: false` for --no-clear
+      const keep = parseFillOptions({ selector: '#email', value: 'x', clear: false, maskSecret: true, timeout: '2000' });
+      expect(keep.success && keep.data).toMatchObject({ clear: false, maskSecret: true, timeoutMs: 2000 });
+    });
+
+    it('should accept an empty value but require one', () => {
+      const empty = parseFillOptions({ selector: '#email', value: '' });
+      expect(empty.success && empty.data.value).toBe('');
+
+      const missing = parseFillOptions({ selector: '#email' });
+      expect(!missing.success && missing.error).toBe('fill requires "value"');
+    });
+  });
+
+  describe('command options', () => {
+    it('should name the command when a required option is missing', () => {
+      const mouse = parseMouseOptions({ button: 'left' }, 'double-click');
+      expect(!mouse.success && mouse.error).toBe('double-click requires "selector"');
+    });
+
+    it('should read repeated and list options from strings or arrays', () => {
+      const screenshot = parseScreenshotOptions({ mask: '.card', maskText: ['\\d{4}'], format: 'jpg', quality: '70' });
+      expect(screenshot.success && screenshot.data).toEqual({
+        format: 'jpg',
+        quality: 70,
+        windowIndex: 1,
+        saveFile: false,
+        mask: ['.card'],
+        maskText: ['\\d{4}']
+      });
+
+      const audit = parseA11yAuditOptions({ rules: 'image-alt, label', failOn: 'serious' }, 20000);
+      expect(audit.success && audit.data).toMatchObject({ rules: ['image-alt', 'label'], failOn: 'serious', timeoutMs: 20000 });
+    });
+
+    it('should pass dom eval maxSize through', () => {
+      const evalOptions = parseDomEvalOptions({ js: 'document.title', maxSize: '4096' }, 10000);
+      expect(evalOptions.success && evalOptions.data).toEqual({
+        js: 'document.title',
+        tabIndex: 1,
+        windowIndex: 1,
+        timeout: 10000,
+        maxSize: 4096
+      });
+
+      const invalid = parseDomEvalOptions({ js: 'document.title', maxSize: '1.5' }, 10000);
+      expect(!invalid.success && invalid.code).toBe(ErrorCode.INVALID_INPUT);
+    });
+  });
+});
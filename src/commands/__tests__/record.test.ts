@@ -0,0 +1,247 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { captureFrames, planFrames, renderFrame, runRecorder, stopRecording, type FrameSource } from '../record';
+import {
+  RECORDING_FILES,
+  readRecordingLog,
+  recordInputEvent,
+  type InputEvent,
+  type RecordedFrame,
+  type RecordingSession
+} from '../../lib/recording';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+type Color = { r: number; g: number; b: number };
+
+const WHITE = { r: 255, g: 255, b: 255 };
+
+/**
+ * Frame source returning solid frames twice the size of the region, like a Retina display
+ */
+class FakeFrameSource implements FrameSource {
+  readonly name = 'fake';
+  captures = 0;
+
+  constructor(private readonly failing = false) {}
+
+  async capture(rect: { width: number; height: number }): Promise<Buffer> {
+    this.captures++;
+    if (this.failing) {
+      throw new Error('capture failed');
+    }
+    return sharp({ create: { width: rect.width * 2, height: rect.height * 2, channels: 3, background: WHITE } }).png().toBuffer();
+  }
+}
+
+async function pixelAt(image: Buffer, x: number, y: number): Promise<Color> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return { r: data[offset]!, g: data[offset + 1]!, b: data[offset + 2]! };
+}
+
+const RECT = { x: 500, y: 300, width: 100, height: 50 };
+
+describe('Record', () => {
+  describe('captureFrames', () => {
+    it('should capture frames until the signal aborts', async () => {
+      const source = new FakeFrameSource();
+      const controller = new AbortController();
+      const times: number[] = [];
+
+      const result = await captureFrames(source, RECT, { fps: 50, maxDurationMs: 10000, signal: controller.signal }, (image, t) => {
+        expect(image.length).toBeGreaterThan(0);
+        times.push(t);
+        if (times.length === 3) controller.abort();
+      });
+
+      expect(result).toMatchObject({ frames: 3, failures: 0, stoppedBy: 'signal' });
+      expect(times[1]! - times[0]!).toBeGreaterThanOrEqual(19);
+    });
+
+    it('should stop after the maximum duration', async () => {
+      const result = await captureFrames(new FakeFrameSource(), RECT, { fps: 20, maxDurationMs: 120 }, () => {});
+
+      expect(result.stoppedBy).toBe('max-duration');
+      expect(result.frames).toBeGreaterThanOrEqual(2);
+      expect(result.frames).toBeLessThanOrEqual(4);
+    });
+
+    it('should give up when captures keep failing', async () => {
+      const source = new FakeFrameSource(true);
+
+      const result = await captureFrames(source, RECT, { fps: 30, maxDurationMs: 10000 }, () => {});
+
+      expect(result).toMatchObject({ frames: 0, failures: 5, stoppedBy: 'failures' });
+      expect(source.captures).toBe(5);
+    });
+  });
+
+  describe('planFrames', () => {
+    const frames: RecordedFrame[] = [1000, 1200, 1400, 1600, 2000].map((t, i) => ({ file: `frame-${i}.png`, t }));
+
+    it('should time frames by their capture times', () => {
+      const plans = planFrames(frames, [], 5);
+
+      expect(plans.map(plan => plan.durationMs)).toEqual([200, 200, 200, 400, 200]);
+      expect(plans.every(plan => plan.clicks.length === 0 && plan.caption === undefined)).toBe(true);
+    });
+
+    it('should show clicks and keys on the frames after they happened', () => {
+      const events: InputEvent[] = [
+        { t: 1100, type: 'click', x: 550, y: 325, button: 'left', clickCount: 1 },
+        { t: 1150, type: 'type', text: 'hi' },
+        { t: 1300, type: 'key', key: 'Enter' }
+      ];
+
+      const plans = planFrames(frames, events, 5);
+
+      expect(plans.map(plan => plan.clicks.length)).toEqual([0, 1, 1, 1, 0]);
+      expect(plans[1]!.clicks).toEqual([{ x: 550, y: 325 }]);
+      expect(plans.map(plan => plan.caption)).toEqual([undefined, 'hi', 'hi [enter]', 'hi [enter]', 'hi [enter]']);
+    });
+
+    it('should keep short events on the next frame at low frame rates', () => {
+      const plans = planFrames([{ file: 'a.png', t: 0 }, { file: 'b.png', t: 1000 }, { file: 'c.png', t: 2000 }], [
+        { t: 100, type: 'click', x: 1, y: 1, button: 'left', clickCount: 1 }
+      ], 1);
+
+      expect(plans.map(plan => plan.clicks.length)).toEqual([0, 1, 0]);
+    });
+
+    it('should shorten long captions from the start', () => {
+      const plans = planFrames([{ file: 'a.png', t: 100 }], [{ t: 0, type: 'type', text: 'x'.repeat(100) + 'end' }], 5);
+
+      expect(plans[0]!.caption).toHaveLength(60);
+      expect(plans[0]!.caption!.startsWith('…')).toBe(true);
+      expect(plans[0]!.caption!.endsWith('end')).toBe(true);
+    });
+  });
+
+  describe('renderFrame', () => {
+    it('should mark clicks at their position scaled to image pixels', async () => {
+      const frame = await new FakeFrameSource().capture(RECT);
+
+      const image = await renderFrame(frame, { file: 'frame.png', t: 0, durationMs: 200, clicks: [{ x: 550, y: 325 }] }, RECT);
+
+      expect(await sharp(image).metadata()).toMatchObject({ width: 200, height: 100 });
+      const center = await pixelAt(image, 100, 50);
+      expect(center.r).toBeGreaterThan(200);
+      expect(center.g).toBeLessThan(200);
+      expect(await pixelAt(image, 10, 10)).toEqual(WHITE);
+    });
+
+    it('should draw captions at the bottom of the frame', async () => {
+      const frame = await new FakeFrameSource().capture({ ...RECT, width: 200 });
+
+      const image = await renderFrame(frame, { file: 'frame.png', t: 0, durationMs: 200, clicks: [], caption: 'hello' }, { ...RECT, width: 200 });
+
+      const box = await pixelAt(image, 150, 100 - 34);
+      expect(box.r).toBeLessThan(128);
+      expect(await pixelAt(image, 5, 5)).toEqual(WHITE);
+    });
+
+    it('should leave frames without overlays unchanged', async () => {
+      const frame = await new FakeFrameSource().capture(RECT);
+
+      const image = await renderFrame(frame, { file: 'frame.png', t: 0, durationMs: 200, clicks: [] }, RECT);
+
+      expect(await pixelAt(image, 100, 50)).toEqual(WHITE);
+    });
+  });
+
+  describe('sessions', () => {
+    let dir: string;
+    let stateFile: string;
+
+    function writeSession(overrides: Partial<RecordingSession> = {}): RecordingSession {
+      const session: RecordingSession = {
+        pid: 0,
+        dir,
+        output: join(dir, 'out.mp4'),
+        format: 'mp4',
+        fps: 50,
+        backend: 'screencapture',
+        rect: RECT,
+        windowIndex: 1,
+        overlays: true,
+        maxDurationMs: 10000,
+        startedAt: new Date().toISOString(),
+        ...overrides
+      };
+      writeFileSync(join(dir, RECORDING_FILES.SESSION), JSON.stringify(session));
+      writeFileSync(stateFile, JSON.stringify(session));
+      return session;
+    }
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'record-session-'));
+      stateFile = join(dir, 'recording.json');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write captured frames to the session directory', async () => {
+      writeSession();
+      const controller = new AbortController();
+      const source = new FakeFrameSource();
+      const capture = source.capture.bind(source);
+      source.capture = async rect => {
+        if (source.captures === 2) controller.abort();
+        return capture(rect);
+      };
+
+      const result = await runRecorder(dir, controller.signal, source);
+
+      expect(result.success && result.data).toMatchObject({ frames: 3, stoppedBy: 'signal' });
+      const frames = readRecordingLog<RecordedFrame>(dir, RECORDING_FILES.FRAMES);
+      expect(frames.map(frame => frame.file)).toEqual(['frame-000000.png', 'frame-000001.png', 'frame-000002.png']);
+      expect(frames.every(frame => existsSync(join(dir, frame.file)))).toBe(true);
+    });
+
+    it('should log input events only while a recording with overlays runs', () => {
+      recordInputEvent({ type: 'key', key: 'Enter' }, stateFile);
+      expect(existsSync(join(dir, RECORDING_FILES.EVENTS))).toBe(false);
+
+      writeSession({ overlays: false });
+      recordInputEvent({ type: 'key', key: 'Enter' }, stateFile);
+      expect(existsSync(join(dir, RECORDING_FILES.EVENTS))).toBe(false);
+
+      writeSession();
+      recordInputEvent({ type: 'click', x: 550, y: 325, button: 'left', clickCount: 1 }, stateFile);
+      recordInputEvent({ type: 'type', text: 'hello' }, stateFile);
+
+      const events = readRecordingLog<InputEvent>(dir, RECORDING_FILES.EVENTS);
+      expect(events).toMatchObject([
+        { type: 'click', x: 550, y: 325 },
+        { type: 'type', text: 'hello' }
+      ]);
+      expect(typeof events[0]!.t).toBe('number');
+    });
+
+    it('should skip a partially written last line', () => {
+      writeFileSync(join(dir, RECORDING_FILES.FRAMES), '{"file":"a.png","t":1}\n{"file":"b.pn');
+
+      expect(readRecordingLog<RecordedFrame>(dir, RECORDING_FILES.FRAMES)).toEqual([{ file: 'a.png', t: 1 }]);
+    });
+
+    it('should report when no recording is running', async () => {
+      const result = await stopRecording({ stateFile });
+
+      expect(!result.success && result.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+    });
+
+    it('should fail and clear the session when no frames were recorded', async () => {
+      writeSession();
+
+      const result = await stopRecording({ stateFile });
+
+      expect(!result.success && result.code).toBe(ErrorCode.SCREEN_CAPTURE_FAILED);
+      expect(existsSync(stateFile)).toBe(false);
+      expect(JSON.parse(readFileSync(join(dir, RECORDING_FILES.SESSION), 'utf8')).dir).toBe(dir);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseScript,
+  loadScript,
+  resolveReferences,
+  runScript,
+  executeStep,
+  type RunScript
+} from '../run';
+import { ERROR_CODES } from '../../lib/util';
+import { ErrorCode } from '../../core/ErrorCodes';
+import { error, ok } from '../../core/Result';
+import type { IServiceContainer } from '../../di/ServiceContainer';
+
+jest.mock('../navigation.js', () => ({
+  NavigationCommand: jest.fn()
+}));
+
+jest.mock('../mouse.js', () => ({
+  MouseCommand: jest.fn()
+}));
+
+jest.mock('../wait.js', () => ({
+  waitIdle: jest.fn()
+}));
+
+jest.mock('../snapshot.js', () => ({
+  captureOutline: jest.fn(),
+  captureDomLite: jest.fn(),
+  formatSnapshotResult: jest.fn()
+}));
+
+import { NavigationCommand } from '../navigation';
+import { MouseCommand } from '../mouse';
+import { waitIdle } from '../wait';
+import { captureOutline, formatSnapshotResult } from '../snapshot';
+
+const MockNavigationCommand = NavigationCommand as jest.MockedClass<typeof NavigationCommand>;
+const MockMouseCommand = MouseCommand as jest.MockedClass<typeof MouseCommand>;
+const mockWaitIdle = waitIdle as jest.MockedFunction<typeof waitIdle>;
+const mockCaptureOutline = captureOutline as jest.MockedFunction<typeof captureOutline>;
+const mockFormatSnapshotResult = formatSnapshotResult as jest.MockedFunction<typeof formatSnapshotResult>;
+
+const container = {} as IServiceContainer;
+
+describe('Run Command', () => {
+  let mockGo: jest.Mock;
+  let mockClick: jest.Mock;
+
+  beforeEach(() => {
+    mockGo = jest.fn().mockResolvedValue(ok({ url: 'https://example.com', title: 'Example' }));
+    mockClick = jest.fn().mockResolvedValue(ok({ action: 'click' }));
+    MockNavigationCommand.mockImplementation(() => ({ go: mockGo }) as unknown as NavigationCommand);
+    MockMouseCommand.mockImplementation(() => ({ click: mockClick }) as unknown as MouseCommand);
+    mockWaitIdle.mockResolvedValue(ok({ success: true, cmd: 'wait idle', durationMs: 10, actualMs: 10, timestamp: '' }) as never);
+    mockCaptureOutline.mockResolvedValue(ok({}) as never);
+    mockFormatSnapshotResult.mockReturnValue({
+      ok: true,
+      cmd: 'snapshot.outline',
+      nodes: [
+        { role: 'link', name: 'Home', selector: '#home', rect: { x: 0, y: 0, w: 10, h: 10 }, state: {} },
+        { role: 'button', name: 'Sign in', selector: '#sign-in', rect: { x: 0, y: 20, w: 10, h: 10 }, state: {} }
+      ]
+    });
+  });
+
+  describe('parseScript', () => {
+    it('should parse a JSON object script', () => {
+      const result = parseScript(JSON.stringify({
+        name: 'smoke',
+        steps: [{ cmd: 'open', args: { url: 'https://example.com' } }]
+      }), 'json');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.name).toBe('smoke');
+      expect(result.data?.steps).toHaveLength(1);
+    });
+
+    it('should parse a YAML list of steps and normalize command names', () => {
+      const result = parseScript([
+        '- id: outline',
+        '  cmd: snapshot   outline',
+        '- cmd: click',
+        '  args:',
+        '    selector: "${outline.nodes[0].selector}"'
+      ].join('\n'), 'yaml');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.steps[0].cmd).toBe('snapshot outline');
+      expect(result.data?.steps[1].args?.selector).toBe('${outline.nodes[0].selector}');
+    });
+
+    it('should reject malformed JSON', () => {
+      const result = parseScript('{ "steps": [', 'json');
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe(ErrorCode.INVALID_JSON);
+    });
+
+    it('should reject unsupported commands and duplicate ids', () => {
+      const unsupported = parseScript(JSON.stringify([{ cmd: 'launch-rockets' }]), 'json');
+      expect(unsupported.success).toBe(false);
+      expect(unsupported.error).toContain('unsupported command');
+
+      const duplicate = parseScript(JSON.stringify([
+        { id: 'a', cmd: 'wait' },
+        { id: 'a', cmd: 'wait' }
+      ]), 'json');
+      expect(duplicate.success).toBe(false);
+      expect(duplicate.error).toContain('reuses id');
+    });
+
+    it('should reject invalid step timeouts', () => {
+      const result = parseScript(JSON.stringify([{ cmd: 'wait', timeoutMs: -5 }]), 'json');
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe(ERROR_CODES.INVALID_INPUT);
+    });
+  });
+
+  describe('loadScript', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'run-script-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load YAML files by extension', () => {
+      const scriptPath = join(dir, 'flow.yml');
+      writeFileSync(scriptPath, 'steps:\n  - cmd: wait\n    args:\n      ms: 10\n');
+
+      const result = loadScript(scriptPath);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.steps[0].args?.ms).toBe(10);
+    });
+
+    it('should report missing files and unknown extensions', () => {
+      expect(loadScript(join(dir, 'missing.json')).code).toBe(ErrorCode.FILE_NOT_FOUND);
+      expect(loadScript(join(dir, 'flow.txt')).code).toBe(ERROR_CODES.INVALID_INPUT);
+    });
+  });
+
+  describe('resolveReferences', () => {
+    const outputs = {
+      outline: { nodes: [{ name: 'Home', selector: '#home' }, { name: 'Sign in', selector: '#sign-in' }] },
+      count: 3
+    };
+
+    it('should resolve index and filter paths', () => {
+      expect(resolveReferences('${outline.nodes[1].selector}', outputs).data).toBe('#sign-in');
+      expect(resolveReferences('${outline.nodes[name=Sign in].selector}', outputs).data).toBe('#sign-in');
+    });
+
+    it('should keep value types for whole-string references and interpolate embedded ones', () => {
+      expect(resolveReferences('${count}', outputs).data).toBe(3);
+      expect(resolveReferences({ text: 'Found ${count} items' }, outputs).data).toEqual({ text: 'Found 3 items' });
+    });
+
+    it('should fail on unresolved references', () => {
+      const result = resolveReferences('${outline.nodes[5].selector}', outputs);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unresolved step reference');
+    });
+  });
+
+  describe('executeStep', () => {
+    it('should reject unknown commands', async () => {
+      const result = await executeStep('nope', {}, { container, timeoutMs: 1000 });
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe(ERROR_CODES.INVALID_INPUT);
+    });
+
+    it('should validate required arguments', async () => {
+      const result = await executeStep('click', {}, { container, timeoutMs: 1000 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('requires "selector"');
+      expect(mockClick).not.toHaveBeenCalled();
+    });
+
+    it('should resolve window targets through the AppleScript service', async () => {
+      const resolveWindowIndex = jest.fn()
+        .mockResolvedValueOnce(ok(3))
+        .mockResolvedValueOnce(error('No Chrome window matches title:Inbox', ErrorCode.WINDOW_NOT_FOUND));
+      const windowContainer = {
+        resolve: jest.fn().mockResolvedValue(ok({ resolveWindowIndex }))
+      } as unknown as IServiceContainer;
+
+      await executeStep('open', { url: 'https://example.com', window: 'id:1842' }, { container: windowContainer, timeoutMs: 1000 });
+      expect(resolveWindowIndex).toHaveBeenCalledWith('id:1842');
+      expect(mockGo).toHaveBeenCalledWith('https://example.com', expect.objectContaining({ windowIndex: 3 }));
+
+      const missing = await executeStep('open', { url: 'https://example.com', window: 'title:Inbox' }, { container: windowContainer, timeoutMs: 1000 });
+      expect(missing.code).toBe(ErrorCode.WINDOW_NOT_FOUND);
+      expect(mockGo).toHaveBeenCalledTimes(1);
+
+      await executeStep('open', { url: 'https://example.com', window: '2' }, { container: windowContainer, timeoutMs: 1000 });
+      expect(resolveWindowIndex).toHaveBeenCalledTimes(2);
+      expect(mockGo).toHaveBeenLastCalledWith('https://example.com', expect.objectContaining({ windowIndex: 2 }));
+    });
+  });
+
+  describe('runScript', () => {
+    it('should run steps in order and pass outputs to later steps', async () => {
+      const script: RunScript = {
+        steps: [
+          { cmd: 'open', args: { url: 'https://example.com', wait: true } },
+          { id: 'outline', cmd: 'snapshot outline', args: { visibleOnly: true } },
+          { cmd: 'click', args: { selector: '${outline.nodes[role=button].selector}' } }
+        ]
+      };
+
+      const result = await runScript(script, container);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.success).toBe(true);
+      expect(result.data?.summary).toEqual({ total: 3, passed: 3, failed: 0, skipped: 0 });
+      expect(mockGo).toHaveBeenCalledWith('https://example.com', expect.objectContaining({ waitForLoad: true }));
+      expect(mockCaptureOutline).toHaveBeenCalledWith({ visibleOnly: true });
+      expect(mockClick).toHaveBeenCalledWith(expect.objectContaining({ selector: '#sign-in' }));
+      expect(result.data?.steps[2].args).toEqual({ selector: '#sign-in' });
+      result.data?.steps.forEach(step => expect(step.durationMs).toBeGreaterThanOrEqual(0));
+    });
+
+    it('should stop at the first failure and skip remaining steps', async () => {
+      mockGo.mockResolvedValue(error('Chrome not running', ERROR_CODES.CHROME_NOT_RUNNING));
+
+      const result = await runScript({
+        steps: [
+          { cmd: 'open', args: { url: 'https://example.com' } },
+          { cmd: 'click', args: { selector: '#go' } }
+        ]
+      }, container);
+
+      expect(result.data?.success).toBe(false);
+      expect(result.data?.steps.map(step => step.status)).toEqual(['failed', 'skipped']);
+      expect(result.data?.steps[0].result?.code).toBe(ERROR_CODES.CHROME_NOT_RUNNING);
+      expect(mockClick).not.toHaveBeenCalled();
+    });
+
+    it('should continue after failures when continueOnError is set', async () => {
+      mockGo.mockResolvedValue(error('Chrome not running', ERROR_CODES.CHROME_NOT_RUNNING));
+
+      const result = await runScript({
+        continueOnError: true,
+        steps: [
+          { cmd: 'open', args: { url: 'https://example.com' } },
+          { cmd: 'click', args: { selector: '#go' } }
+        ]
+      }, container);
+
+      expect(result.data?.steps.map(step => step.status)).toEqual(['failed', 'passed']);
+      expect(result.data?.summary.failed).toBe(1);
+    });
+
+    it('should fail steps that exceed their timeout', async () => {
+      mockClick.mockImplementation(() => new Promise(() => undefined));
+
+      const result = await runScript({
+        steps: [{ cmd: 'click', args: { selector: '#slow' }, timeoutMs: 20 }]
+      }, container);
+
+      expect(result.data?.steps[0].status).toBe('failed');
+      expect(result.data?.steps[0].result?.code).toBe(ERROR_CODES.TIMEOUT);
+    });
+
+    it('should report each step through onStep', async () => {
+      const onStep = jest.fn();
+
+      await runScript({ steps: [{ cmd: 'wait', args: { ms: 10 } }] }, container, { onStep });
+
+      expect(mockWaitIdle).toHaveBeenCalledWith({ milliseconds: 10 });
+      expect(onStep).toHaveBeenCalledWith(expect.objectContaining({ index: 1, cmd: 'wait', status: 'passed' }));
+    });
+  });
+});
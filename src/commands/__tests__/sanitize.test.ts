@@ -0,0 +1,106 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { testSanitization, formatSanitizeReport, extractSanitizeSamples } from '../sanitize';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+describe('Sanitize Test Command', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sanitize-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, content: unknown): string {
+    const path = join(dir, name);
+    writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+    return path;
+  }
+
+  const dump = {
+    success: true,
+    data: {
+      isActive: true,
+      events: [
+        {
+          id: 'evt_1',
+          type: 'fetch',
+          method: 'POST',
+          url: 'https://api.example.com/login?api_key=abc',
+          timestamp: 1704067200000,
+          requestHeaders: { 'Content-Type': 'application/json', 'Authorization': 'Bearer t' },
+          requestBody: '{"user":"ada","ssn":"123"}',
+          timing: { startTime: 0 }
+        },
+        {
+          id: 'evt_2',
+          type: 'fetch',
+          method: 'GET',
+          url: 'https://api.example.com/health',
+          timestamp: 1704067200100,
+          requestHeaders: {},
+          timing: { startTime: 100 }
+        }
+      ]
+    }
+  };
+
+  it('should report findings for a netlog dump with the default policy', () => {
+    const result = testSanitization(write('dump.json', dump));
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ cmd: 'sanitize.test', input: 'netlog', items: 2, itemsWithFindings: 1 });
+    expect(result.data!.results[0]).toMatchObject({ source: 'events[0]', method: 'POST' });
+    expect(result.data!.results[0].findings).toEqual(expect.arrayContaining([
+      expect.objectContaining({ location: 'url', rule: 'url-param', field: 'api_key' }),
+      expect.objectContaining({ location: 'request.headers', field: 'Authorization' })
+    ]));
+    expect(result.data!.results[0].sanitized).toBeUndefined();
+  });
+
+  it('should test a policy file and show sanitized values', () => {
+    const policy = write('policy.json', { redaction: { jsonPaths: ['$.ssn'] } });
+
+    const result = testSanitization(write('dump.json', dump), { policyFile: policy, showSanitized: true });
+
+    expect(result.data!.policy.jsonPaths).toEqual(['$.ssn']);
+    expect(result.data!.totals).toContainEqual({ target: 'body', rule: 'json-path:$.ssn', count: 1 });
+    expect(result.data!.results[0].sanitized?.requestBody).toBe('{"user":"ada","ssn":"[REDACTED]"}');
+    expect(formatSanitizeReport(result.data!)).toContain('request.body      json-path:$.ssn  $.ssn');
+  });
+
+  it('should read HAR entries and raw bodies', () => {
+    const har = {
+      log: {
+        entries: [{
+          request: { method: 'GET', url: 'https://a.test/?token=1', headers: [{ name: 'Cookie', value: 's=1' }] },
+          response: { status: 200, headers: [], content: { mimeType: 'text/plain', text: 'ok' } }
+        }]
+      }
+    };
+
+    expect(extractSanitizeSamples(JSON.stringify(har)).input).toBe('har');
+    expect(testSanitization(write('a.har', har)).data!.totals).toHaveLength(2);
+
+    const body = testSanitization(write('body.txt', 'password=x&api_key=secret'));
+    expect(body.data).toMatchObject({ input: 'body', itemsWithFindings: 1 });
+  });
+
+  it('should fail on missing files and invalid policies', () => {
+    expect(testSanitization(join(dir, 'missing.json')).code).toBe(ErrorCode.FILE_NOT_FOUND);
+
+    const input = write('dump.json', dump);
+    expect(testSanitization(input, { policyFile: write('bad.json', '{') }).code).toBe(ErrorCode.INVALID_JSON);
+    expect(testSanitization(input, { policyFile: write('p.json', { jsonPaths: ['ssn'] }) }).code).toBe(ErrorCode.INVALID_INPUT);
+  });
+
+  it('should say when nothing would be redacted', () => {
+    const result = testSanitization(write('clean.json', { events: [dump.data.events[1]] }));
+
+    expect(formatSanitizeReport(result.data!)).toContain('Nothing would be redacted');
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  OUTPUT_SCHEMAS,
+  JSON_SCHEMA_DIALECT,
+  buildCommandSchema,
+  buildInputSchema,
+  listSchemaCommands,
+  objectSchema,
+  optional,
+  propertyNameForOption
+} from '../schema';
+import { Command } from 'commander';
+import { CommandRegistry } from '../../cli/CommandRegistry';
+import { OutputFormatter } from '../../cli/OutputFormatter';
+
+describe('Command Schemas', () => {
+  describe('buildInputSchema', () => {
+    it('should describe options by camelCase name with defaults, choices and required', () => {
+      expect(propertyNameForOption('--visible-only')).toBe('visibleOnly');
+      expect(buildInputSchema([
+        { name: '--max-size', type: 'number', required: true, description: 'Size' },
+        { name: '--format', type: 'string', required: false, default: 'json', choices: ['json', 'har'], description: 'Format' }
+      ])).toEqual({
+        type: 'object',
+        properties: {
+          maxSize: { type: 'number', description: 'Size' },
+          format: { type: 'string', description: 'Format', default: 'json', enum: ['json', 'har'] }
+        },
+        required: ['maxSize'],
+        additionalProperties: false
+      });
+      expect(buildInputSchema()).toEqual({ type: 'object', properties: {}, additionalProperties: false });
+    });
+  });
+
+  describe('objectSchema', () => {
+    it('should require properties not marked optional', () => {
+      const schema = objectSchema<{ id: string; size?: number }>('Sample', {
+        id: { type: 'string' },
+        size: optional({ type: 'number' })
+      });
+      expect(schema).toEqual({
+        title: 'Sample',
+        type: 'object',
+        properties: { id: { type: 'string' }, size: { type: 'number' } },
+        required: ['id'],
+        additionalProperties: false
+      });
+    });
+
+    it('should describe result payloads', () => {
+      expect(OUTPUT_SCHEMAS['screenshot']).toMatchObject({
+        title: 'ScreenshotData',
+        required: ['path', 'format', 'metadata'],
+        properties: { preview: { properties: { base64: { type: 'string' } } } }
+      });
+      expect(OUTPUT_SCHEMAS['snapshot outline']!.properties!.nodes).toMatchObject({
+        type: 'array',
+        items: { title: 'SnapshotNode', required: ['role', 'name', 'selector', 'rect', 'state'] }
+      });
+      expect(OUTPUT_SCHEMAS['netlog dump']!.properties!.events!.items!.properties!.type).toEqual({
+        type: 'string',
+        enum: ['fetch', 'xhr', 'websocket']
+      });
+    });
+  });
+
+  describe('buildCommandSchema', () => {
+    function buildProgram(): Command {
+      const program = new Command();
+      program.option('--json', 'output JSON');
+      program
+        .command('open <url>')
+        .description('Navigate to URL')
+        .option('--timeout <ms>', 'navigation timeout in milliseconds', '30000')
+        .option('--window <target>', 'target window', '1');
+      program
+        .command('fill <selector> <value>')
+        .option('--no-clear', 'do not clear the field first')
+        .option('--mask <selector>', 'mask (repeatable)', (value: string, previous: string[]) => [...previous, value], []);
+      const wait = program.command('wait').option('--ms <milliseconds>', 'duration', '800');
+      wait.command('text <text>');
+      program.command('netlog').command('rules').command('add').requiredOption('--url <pattern>', 'URL pattern');
+      return program;
+    }
+
+    it('should list invokable commands by path', () => {
+      expect(listSchemaCommands(buildProgram()).map(command => command.name))
+        .toEqual(['open', 'fill', 'wait', 'wait text', 'netlog rules add']);
+    });
+
+    it('should describe arguments and options as the CLI parses them', () => {
+      const commands = listSchemaCommands(buildProgram());
+      const schema = (name: string) => {
+        const found = commands.find(command => command.name === name)!;
+        return buildCommandSchema(found.name, found.command);
+      };
+
+      const open = schema('open');
+      expect(open.input).toEqual({
+        $schema: JSON_SCHEMA_DIALECT,
+        title: 'open options',
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          timeout: { type: 'number', description: 'navigation timeout in milliseconds', default: 30000 },
+          window: { type: 'string', description: 'target window', default: '1' }
+        },
+        required: ['url'],
+        additionalProperties: false
+      });
+      expect(open.output).toMatchObject({ $schema: JSON_SCHEMA_DIALECT, title: 'NavigationData' });
+
+      expect(schema('fill').input.properties).toMatchObject({
+        clear: { type: 'boolean', default: true },
+        mask: { type: 'array', items: { type: 'string' } }
+      });
+      expect(schema('netlog rules add').input.required).toEqual(['url']);
+      expect(schema('netlog rules add').output).toMatchObject({ title: 'InterceptRule', required: ['id', 'urlPattern', 'hits', 'createdAt'] });
+    });
+
+    it('should describe the output of every command that returns a Result', async () => {
+      const program = new Command();
+      await new CommandRegistry(program, new OutputFormatter()).registerAll();
+      const names = listSchemaCommands(program).map(command => command.name);
+
+      expect(Object.keys(OUTPUT_SCHEMAS).filter(name => !names.includes(name))).toEqual([]);
+      // The MCP server speaks JSON-RPC over stdio and benchmarks print their own reports
+      const withoutResult = (name: string) => name === 'mcp' || name.startsWith('benchmark ');
+      expect(names.filter(name => !withoutResult(name) && !OUTPUT_SCHEMAS[name])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { diffPixels, findDiffClusters, compareScreenshots, checkBaseline, type RgbaImage } from '../screenshot-compare';
+import type { ScreenshotData } from '../screenshot';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+type Rgb = [number, number, number];
+
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+
+function image(width: number, height: number, background: Rgb = WHITE): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([...background, 255], i * 4);
+  }
+  return { data, width, height };
+}
+
+function fillRect(target: RgbaImage, x: number, y: number, width: number, height: number, color: Rgb): RgbaImage {
+  for (let row = y; row < y + height; row++) {
+    for (let column = x; column < x + width; column++) {
+      target.data.set([...color, 255], (row * target.width + column) * 4);
+    }
+  }
+  return target;
+}
+
+async function writePng(filePath: string, source: RgbaImage): Promise<string> {
+  await sharp(Buffer.from(source.data), { raw: { width: source.width, height: source.height, channels: 4 } }).png().toFile(filePath);
+  return filePath;
+}
+
+function screenshotData(filePath: string): ScreenshotData {
+  return { path: filePath, format: 'png', metadata: { width: 40, height: 40, timestamp: new Date().toISOString() } };
+}
+
+describe('Screenshot Compare', () => {
+  describe('diffPixels', () => {
+    it('should ignore channel differences up to the threshold', () => {
+      const baseline = image(10, 10, [200, 200, 200]);
+      const actual = image(10, 10, [210, 195, 200]);
+
+      expect(diffPixels(baseline, actual, { threshold: 10 }).mismatchedPixels).toBe(0);
+      expect(diffPixels(baseline, actual, { threshold: 9, antialiasing: 0 }).mismatchedPixels).toBe(100);
+    });
+
+    it('should count edges shifted by a pixel as antialiasing', () => {
+      const baseline = fillRect(image(20, 20), 5, 5, 6, 6, BLACK);
+      const actual = fillRect(image(20, 20), 6, 5, 6, 6, BLACK);
+
+      const tolerant = diffPixels(baseline, actual, { antialiasing: 1 });
+      expect(tolerant).toMatchObject({ mismatchedPixels: 0, antialiasedPixels: 12 });
+
+      const strict = diffPixels(baseline, actual, { antialiasing: 0 });
+      expect(strict).toMatchObject({ mismatchedPixels: 12, antialiasedPixels: 0 });
+    });
+
+    it('should count pixels outside the smaller image as changed', () => {
+      const diff = diffPixels(image(10, 10), image(10, 12));
+
+      expect(diff).toMatchObject({ width: 10, height: 12, mismatchedPixels: 20 });
+    });
+  });
+
+  describe('findDiffClusters', () => {
+    it('should report separate changed regions with their bounding boxes', () => {
+      const baseline = image(100, 60);
+      const actual = fillRect(fillRect(image(100, 60), 4, 4, 10, 5, BLACK), 60, 30, 20, 20, BLACK);
+
+      const clusters = findDiffClusters(diffPixels(baseline, actual));
+
+      expect(clusters).toEqual([
+        { x: 60, y: 30, width: 20, height: 20, pixels: 400 },
+        { x: 4, y: 4, width: 10, height: 5, pixels: 50 }
+      ]);
+    });
+  });
+
+  describe('compareScreenshots', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'screenshot-compare-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should report the mismatch and write a diff image', async () => {
+      const baseline = await writePng(join(dir, 'baseline.png'), image(40, 40));
+      const actual = await writePng(join(dir, 'actual.png'), fillRect(image(40, 40), 10, 10, 8, 5, BLACK));
+
+      const result = await compareScreenshots(baseline, actual);
+
+      expect(result.success && result.data).toMatchObject({
+        passed: false,
+        totalPixels: 1600,
+        mismatchedPixels: 40,
+        mismatchPercentage: 2.5,
+        clusters: [{ x: 10, y: 10, width: 8, height: 5, pixels: 40 }],
+        clusterCount: 1,
+        diff: join(dir, 'actual.diff.png')
+      });
+      expect(await sharp(join(dir, 'actual.diff.png')).metadata()).toMatchObject({ width: 40, height: 40 });
+
+      const tolerated = await compareScreenshots(baseline, actual, { maxDiffPercentage: 3 });
+      expect(tolerated.success && tolerated.data.passed).toBe(true);
+    });
+
+    it('should not write a diff image for matching screenshots', async () => {
+      const baseline = await writePng(join(dir, 'baseline.png'), image(20, 20));
+      const actual = await writePng(join(dir, 'actual.png'), image(20, 20));
+
+      const result = await compareScreenshots(baseline, actual);
+
+      expect(result.success && result.data).toMatchObject({ passed: true, mismatchedPixels: 0, clusters: [] });
+      expect(result.success && result.data.diff).toBeUndefined();
+      expect(existsSync(join(dir, 'actual.diff.png'))).toBe(false);
+    });
+
+    it('should reject missing files and invalid options', async () => {
+      const actual = await writePng(join(dir, 'actual.png'), image(20, 20));
+
+      const missing = await compareScreenshots(join(dir, 'missing.png'), actual);
+      expect(!missing.success && missing.code).toBe(ErrorCode.FILE_NOT_FOUND);
+
+      const invalid = await compareScreenshots(actual, actual, { threshold: 300 });
+      expect(!invalid.success && invalid.code).toBe(ErrorCode.INVALID_INPUT);
+    });
+  });
+
+  describe('checkBaseline', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'screenshot-baseline-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should create, pass, fail and update a baseline', async () => {
+      const baselineDir = join(dir, 'baselines');
+      const original = screenshotData(await writePng(join(dir, 'original.png'), image(40, 40)));
+      const changed = screenshotData(await writePng(join(dir, 'changed.png'), fillRect(image(40, 40), 0, 0, 20, 20, BLACK)));
+
+      const created = await checkBaseline(original, { baselineDir, name: 'home' });
+      expect(created.success && created.data).toMatchObject({ status: 'created', baseline: join(baselineDir, 'home.png') });
+      expect(created.success && created.data.comparison).toBeUndefined();
+
+      const passed = await checkBaseline(original, { baselineDir, name: 'home' });
+      expect(passed.success && passed.data.status).toBe('passed');
+
+      const failed = await checkBaseline(changed, { baselineDir, name: 'home' });
+      expect(failed.success && failed.data).toMatchObject({ status: 'failed', comparison: { mismatchPercentage: 25 } });
+      expect(existsSync(join(baselineDir, 'home.diff.png'))).toBe(true);
+
+      const updated = await checkBaseline(changed, { baselineDir, name: 'home', update: true });
+      expect(updated.success && updated.data).toMatchObject({ status: 'updated', comparison: { mismatchPercentage: 25 } });
+      expect(existsSync(join(baselineDir, 'home.diff.png'))).toBe(false);
+
+      const afterUpdate = await checkBaseline(changed, { baselineDir, name: 'home' });
+      expect(afterUpdate.success && afterUpdate.data.status).toBe('passed');
+    });
+
+    it('should reject baseline names that are not plain file names', async () => {
+      const result = await checkBaseline(screenshotData(join(dir, 'shot.png')), { baselineDir: dir, name: '../escape' });
+
+      expect(!result.success && result.code).toBe(ErrorCode.INVALID_INPUT);
+    });
+  });
+});
@@ -9,7 +9,7 @@
  * @version 1.0.0
  */
 
-import { ScreenshotCommand, type ScreenshotOptions, type ScreenshotData } from '../screenshot.js';
+import { ScreenshotCommand, parseMaskPattern, type ScreenshotOptions, type ScreenshotData } from '../screenshot.js';
 import { ErrorCode } from '../../core/ErrorCodes.js';
 import type { IServiceContainer } from '../../di/ServiceContainer.js';
 import type { IRateLimiterService } from '../../di/IRateLimiterService.js';
@@ -26,6 +26,13 @@ jest.mock('../../lib/capture.js', () => ({
   captureFullScreen: jest.fn()
 }));
 
+// Mock the outline snapshot and legend cache used by annotate
+jest.mock('../annotate.js', () => ({
+  ...jest.requireActual('../annotate.js'),
+  captureAnnotationTargets: jest.fn(),
+  saveAnnotationLegend: jest.fn()
+}));
+
 // Mock file system operations
 jest.mock('fs', () => ({
   existsSync: jest.fn(),
@@ -45,6 +52,11 @@ const mockCaptureWindow = captureWindow as jest.MockedFunction<typeof captureWin
 const mockCaptureElement = captureElement as jest.MockedFunction<typeof captureElement>;
 const mockCaptureFullScreen = captureFullScreen as jest.MockedFunction<typeof captureFullScreen>;
 
+import { captureAnnotationTargets, saveAnnotationLegend } from '../annotate.js';
+
+const mockCaptureAnnotationTargets = captureAnnotationTargets as jest.MockedFunction<typeof captureAnnotationTargets>;
+const mockSaveAnnotationLegend = saveAnnotationLegend as jest.MockedFunction<typeof saveAnnotationLegend>;
+
 const mockExistsSync = fs.existsSync as jest.MockedFunction<typeof fs.existsSync>;
 const mockMkdirSync = fs.mkdirSync as jest.MockedFunction<typeof fs.mkdirSync>;
 
@@ -468,4 +480,131 @@ describe('ScreenshotCommand', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('masking', () => {
+    it('should pass mask selectors and text patterns to the capture library', async () => {
+      mockCaptureViewport.mockResolvedValue({
+        success: true as const,
+        action: 'viewport_screenshot',
+        path: '/tmp/masked.png',
+        code: 0,
+        metadata: {
+          width: 1200,
+          height: 800,
+          masked: [{ kind: 'selector' as const, pattern: '.account', x: 8, y: 16, width: 100, height: 20 }]
+        }
+      });
+
+      const result = await screenshotCmd.viewport({ mask: ['.account'], maskText: ['/\\d{4}/g'] });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.metadata.masked).toEqual([
+          { kind: 'selector', pattern: '.account', x: 8, y: 16, width: 100, height: 20 }
+        ]);
+      }
+      expect(mockCaptureViewport).toHaveBeenCalledWith(
+        expect.objectContaining({
+          masks: { selectors: ['.account'], textPatterns: [/\d{4}/g] }
+        }),
+        undefined
+      );
+    });
+
+    it('should reject invalid mask options before capturing', async () => {
+      const pdf = await screenshotCmd.viewport({ format: 'pdf', mask: ['.account'] });
+      expect(!pdf.success && pdf.code).toBe(ErrorCode.INVALID_INPUT);
+
+      const emptySelector = await screenshotCmd.viewport({ mask: [' '] });
+      expect(!emptySelector.success && emptySelector.code).toBe(ErrorCode.INVALID_SELECTOR);
+
+      const fullscreen = await screenshotCmd.fullscreen({ maskText: ['secret'] });
+      expect(!fullscreen.success && fullscreen.code).toBe(ErrorCode.INVALID_INPUT);
+
+      expect(mockCaptureViewport).not.toHaveBeenCalled();
+      expect(mockCaptureFullScreen).not.toHaveBeenCalled();
+    });
+
+    it('should parse plain and /source/flags mask patterns', () => {
+      const plain = parseMaskPattern('[\\w.]+@example\\.com');
+      expect(plain.success && plain.data.source).toBe('[\\w.]+@example\\.com');
+
+      const literal = parseMaskPattern('/secret/i');
+      expect(literal.success && literal.data.flags).toBe('i');
+
+      const invalid = parseMaskPattern('(unclosed');
+      expect(!invalid.success && invalid.code).toBe(ErrorCode.INVALID_INPUT);
+
+      const empty = parseMaskPattern('a*');
+      expect(!empty.success && empty.code).toBe(ErrorCode.INVALID_INPUT);
+    });
+  });
+
+  describe('annotate', () => {
+    const target = { ref: 1, selector: '#search', role: 'button', name: 'Search', rect: { x: 10, y: 20, width: 80, height: 24 } };
+
+    it('should draw the numbered targets and return and cache the legend', async () => {
+      mockCaptureAnnotationTargets.mockResolvedValue(ok({ targets: [target], windowId: 1901, url: 'https://example.com/' }));
+      mockSaveAnnotationLegend.mockReturnValue(ok(undefined));
+      mockCaptureViewport.mockResolvedValue({
+        success: true as const,
+        action: 'viewport_screenshot',
+        path: '/tmp/annotated.png',
+        code: 0,
+        metadata: {
+          width: 1200,
+          height: 800,
+          annotated: [{ label: '1', x: 20, y: 40, width: 160, height: 48 }]
+        }
+      });
+
+      const result = await screenshotCmd.viewport({ annotate: true, windowIndex: 2 });
+
+      expect(result.success && result.data.legend).toEqual([{ ref: 1, selector: '#search', role: 'button', name: 'Search' }]);
+      expect(result.success && result.data.metadata.annotated).toEqual([{ label: '1', x: 20, y: 40, width: 160, height: 48 }]);
+      expect(mockCaptureAnnotationTargets).toHaveBeenCalledWith(2);
+      expect(mockCaptureViewport).toHaveBeenCalledWith(
+        expect.objectContaining({ annotations: [{ label: '1', rect: target.rect }] }),
+        2
+      );
+      expect(mockSaveAnnotationLegend).toHaveBeenCalledWith(expect.objectContaining({
+        windowIndex: 2,
+        windowId: 1901,
+        url: 'https://example.com/',
+        entries: [{ ref: 1, selector: '#search', role: 'button', name: 'Search' }]
+      }));
+    });
+
+    it('should not capture when the elements cannot be found', async () => {
+      mockCaptureAnnotationTargets.mockResolvedValue({
+        success: false,
+        error: 'Failed to find elements to annotate: snapshot failed',
+        code: ErrorCode.JAVASCRIPT_ERROR
+      });
+
+      const result = await screenshotCmd.viewport({ annotate: true });
+
+      expect(!result.success && result.code).toBe(ErrorCode.JAVASCRIPT_ERROR);
+      expect(mockCaptureViewport).not.toHaveBeenCalled();
+      expect(mockSaveAnnotationLegend).not.toHaveBeenCalled();
+    });
+
+    it('should reject annotate for captures other than the viewport', async () => {
+      const pdf = await screenshotCmd.viewport({ format: 'pdf', annotate: true });
+      expect(!pdf.success && pdf.code).toBe(ErrorCode.INVALID_INPUT);
+
+      const fullPage = await screenshotCmd.fullPage({ annotate: true });
+      expect(!fullPage.success && fullPage.code).toBe(ErrorCode.INVALID_INPUT);
+
+      const element = await screenshotCmd.element('#search', { annotate: true });
+      expect(!element.success && element.code).toBe(ErrorCode.INVALID_INPUT);
+
+      const fullscreen = await screenshotCmd.fullscreen({ annotate: true });
+      expect(!fullscreen.success && fullscreen.code).toBe(ErrorCode.INVALID_INPUT);
+
+      expect(mockCaptureAnnotationTargets).not.toHaveBeenCalled();
+      expect(mockCaptureElement).not.toHaveBeenCalled();
+      expect(mockCaptureFullScreen).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { diffSnapshots, loadSnapshotFile, diffSnapshotFiles } from '../snapshot-diff';
+import type { SnapshotNode, SnapshotResult } from '../snapshot';
+import { ERROR_CODES } from '../../lib/util';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+function node(overrides: Partial<SnapshotNode>): SnapshotNode {
+  return {
+    role: 'button',
+    name: 'Submit',
+    selector: '#submit',
+    rect: { x: 0, y: 0, w: 100, h: 30 },
+    state: { disabled: false },
+    ...overrides
+  };
+}
+
+function snapshot(nodes: SnapshotNode[]): SnapshotResult {
+  return { ok: true, cmd: 'snapshot.outline', nodes };
+}
+
+describe('Snapshot Diff', () => {
+  describe('diffSnapshots', () => {
+    it('should report no changes for identical snapshots', () => {
+      const nodes = [node({}), node({ role: 'link', name: 'Home', selector: '#home' })];
+
+      const diff = diffSnapshots(snapshot(nodes), snapshot(nodes));
+
+      expect(diff.changed).toBe(false);
+      expect(diff.summary).toEqual({
+        before: 2, after: 2, matched: 2, added: 0, removed: 0, moved: 0, stateChanged: 0, unchanged: 2
+      });
+    });
+
+    it('should report added and removed nodes', () => {
+      const before = [node({}), node({ role: 'link', name: 'Old', selector: '#old' })];
+      const after = [node({}), node({ role: 'dialog', name: 'Confirm', selector: '#confirm' })];
+
+      const diff = diffSnapshots(before, after);
+
+      expect(diff.changed).toBe(true);
+      expect(diff.added.map(n => n.selector)).toEqual(['#confirm']);
+      expect(diff.removed.map(n => n.selector)).toEqual(['#old']);
+    });
+
+    it('should report moved nodes with a rect delta', () => {
+      const diff = diffSnapshots(
+        [node({ rect: { x: 10, y: 20, w: 100, h: 30 } })],
+        [node({ rect: { x: 10, y: 80, w: 120, h: 30 } })]
+      );
+
+      expect(diff.moved).toHaveLength(1);
+      expect(diff.moved[0]).toMatchObject({
+        selector: '#submit',
+        matchedBy: 'selector',
+        before: { x: 10, y: 20, w: 100, h: 30 },
+        after: { x: 10, y: 80, w: 120, h: 30 },
+        delta: { x: 0, y: 60, w: 20, h: 0 }
+      });
+    });
+
+    it('should ignore rect changes within the tolerance', () => {
+      const diff = diffSnapshots(
+        [node({ rect: { x: 10, y: 20, w: 100, h: 30 } })],
+        [node({ rect: { x: 11, y: 19, w: 100, h: 30 } })],
+        { rectTolerance: 1 }
+      );
+
+      expect(diff.moved).toHaveLength(0);
+      expect(diff.summary.unchanged).toBe(1);
+    });
+
+    it('should report state changes such as checked and disabled flipping', () => {
+      const diff = diffSnapshots(
+        [node({ role: 'checkbox', name: 'Accept terms', selector: '#terms', state: { checked: false } }), node({ state: { disabled: true } })],
+        [node({ role: 'checkbox', name: 'Accept terms', selector: '#terms', state: { checked: true } }), node({ state: { disabled: false, focused: true } })]
+      );
+
+      expect(diff.stateChanged).toEqual([
+        expect.objectContaining({ selector: '#terms', changes: [{ key: 'checked', before: false, after: true }] }),
+        expect.objectContaining({
+          selector: '#submit',
+          changes: [
+            { key: 'disabled', before: true, after: false },
+            { key: 'focused', before: undefined, after: true }
+          ]
+        })
+      ]);
+    });
+
+    it('should skip ignored state keys', () => {
+      const diff = diffSnapshots(
+        [node({ state: { focused: false } })],
+        [node({ state: { focused: true } })],
+        { ignoreState: ['focused'] }
+      );
+
+      expect(diff.changed).toBe(false);
+    });
+
+    it('should fall back to role and name when the selector changed', () => {
+      const diff = diffSnapshots(
+        [node({ selector: 'button.btn:nth-of-type(2)', state: { disabled: true } })],
+        [node({ selector: 'button.btn.primary', state: { disabled: false } })]
+      );
+
+      expect(diff.added).toHaveLength(0);
+      expect(diff.removed).toHaveLength(0);
+      expect(diff.stateChanged[0]).toMatchObject({
+        selector: 'button.btn.primary',
+        previousSelector: 'button.btn:nth-of-type(2)',
+        matchedBy: 'role-name'
+      });
+    });
+
+    it('should not pair unnamed nodes by role alone', () => {
+      const diff = diffSnapshots(
+        [node({ name: '', selector: 'div > button:nth-child(1)' })],
+        [node({ name: '', selector: 'div > button:nth-child(2)' })]
+      );
+
+      expect(diff.added).toHaveLength(1);
+      expect(diff.removed).toHaveLength(1);
+    });
+
+    it('should pair duplicate selectors in document order', () => {
+      const diff = diffSnapshots(
+        [node({ name: 'A', selector: '.row' }), node({ name: 'B', selector: '.row' })],
+        [node({ name: 'A', selector: '.row' })]
+      );
+
+      expect(diff.removed.map(n => n.name)).toEqual(['B']);
+      expect(diff.summary.matched).toBe(1);
+    });
+  });
+
+  describe('loadSnapshotFile', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'snapshot-diff-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should accept raw results, CLI JSON envelopes and bare node arrays', () => {
+      const raw = join(dir, 'raw.json');
+      const envelope = join(dir, 'envelope.json');
+      const bare = join(dir, 'bare.json');
+      writeFileSync(raw, JSON.stringify(snapshot([node({})])));
+      writeFileSync(envelope, JSON.stringify({ success: true, data: snapshot([node({})]), code: 0 }));
+      writeFileSync(bare, JSON.stringify([node({})]));
+
+      for (const path of [raw, envelope, bare]) {
+        const result = loadSnapshotFile(path);
+        expect(result.success).toBe(true);
+        expect(result.data?.nodes).toHaveLength(1);
+      }
+    });
+
+    it('should report missing, malformed and invalid files', () => {
+      const malformed = join(dir, 'malformed.json');
+      const invalid = join(dir, 'invalid.json');
+      writeFileSync(malformed, '{ "nodes": [');
+      writeFileSync(invalid, JSON.stringify({ ok: true }));
+
+      expect(loadSnapshotFile(join(dir, 'missing.json')).code).toBe(ErrorCode.FILE_NOT_FOUND);
+      expect(loadSnapshotFile(malformed).code).toBe(ErrorCode.INVALID_JSON);
+      expect(loadSnapshotFile(invalid).code).toBe(ERROR_CODES.INVALID_INPUT);
+    });
+
+    it('should diff two files', () => {
+      const before = join(dir, 'before.json');
+      const after = join(dir, 'after.json');
+      writeFileSync(before, JSON.stringify(snapshot([node({})])));
+      writeFileSync(after, JSON.stringify(snapshot([node({}), node({ role: 'alert', name: 'Saved', selector: '#toast' })])));
+
+      const result = diffSnapshotFiles(before, after);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.summary.added).toBe(1);
+      expect(diffSnapshotFiles(before, after, { rectTolerance: -1 }).code).toBe(ERROR_CODES.INVALID_INPUT);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readTrace, formatTraceTimeline, describeTraceEvent } from '../trace';
+import { startTrace, stopTrace, traceEvent, traceSpan, traceText, traceRedacted, isTracing } from '../../lib/trace';
+import { withRetry } from '../../core/RetryHandler';
+import { error, ok } from '../../core/Result';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+describe('Trace Recording', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'trace-'));
+    file = join(dir, 'traces', 'run.ndjson');
+  });
+
+  afterEach(() => {
+    stopTrace();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should do nothing without an active trace', () => {
+    expect(isTracing()).toBe(false);
+    traceEvent('applescript', { script: traceText('return 1') });
+    traceSpan('javascript', {})(true);
+    expect(stopTrace()).toBeNull();
+  });
+
+  it('should write start, step and end events as NDJSON', async () => {
+    const started = startTrace(file, ['mouse', 'click', '--selector', '#go']);
+    expect(started.success && started.data).toBe(file);
+    expect(isTracing()).toBe(true);
+
+    const endScript = traceSpan('applescript', { script: traceText('tell application "Google Chrome"\n  return 1\nend tell') });
+    endScript(true, { output: traceText('1') });
+    traceEvent('coords', {
+      from: 'selector',
+      selector: '#go',
+      cached: false,
+      coordinates: { x: 140, y: 224 },
+      element: { x: 100, y: 180, width: 80, height: 40 },
+      window: { contentAreaX: 0, contentAreaY: 24 }
+    }, { durationMs: 12, success: true });
+
+    let attempts = 0;
+    await withRetry(async () => {
+      attempts++;
+      return attempts < 2 ? error('Busy', ErrorCode.NETWORK_TIMEOUT) : ok('done');
+    }, { initialDelayMs: 0, jitter: false }, 'focus tab');
+
+    expect(stopTrace(3)).toBe(file);
+    expect(isTracing()).toBe(false);
+
+    const lines = readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.kind)).toEqual(['start', 'applescript', 'coords', 'retry', 'end']);
+    expect(lines.map(line => line.seq)).toEqual([0, 1, 2, 3, 4]);
+    expect(lines[0].data).toMatchObject({ version: 1, argv: ['mouse', 'click', '--selector', '#go'], pid: process.pid });
+    expect(lines[1]).toMatchObject({ success: true, data: { output: { text: '1', length: 1 } } });
+    expect(lines[3].data).toEqual({ context: 'focus tab', attempt: 1, maxAttempts: 3, error: 'Busy', code: ErrorCode.NETWORK_TIMEOUT, delayMs: 0 });
+    expect(lines[4].data).toEqual({ exitCode: 3, events: 3 });
+  });
+
+  it('should truncate long scripts', () => {
+    expect(traceText('abcdef', 4)).toEqual({ text: 'abcd', length: 6, truncated: true });
+    expect(traceText('abc', 4)).toEqual({ text: 'abc', length: 3 });
+  });
+
+  it('should leave redacted scripts out', () => {
+    expect(traceRedacted("el.value = 'hunter2';")).toEqual({ text: '[redacted]', length: 21, redacted: true });
+  });
+
+  it('should report an unwritable trace file', () => {
+    writeFileSync(join(dir, 'blocker'), '');
+    const result = startTrace(join(dir, 'blocker', 'run.ndjson'));
+    expect(!result.success && result.code).toBe(ErrorCode.FILE_WRITE_ERROR);
+    expect(isTracing()).toBe(false);
+  });
+});
+
+describe('Trace Viewer', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'trace-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeTrace(events: object[]): string {
+    const file = join(dir, 'trace.ndjson');
+    writeFileSync(file, events.map(event => JSON.stringify(event)).join('\n') + '\n');
+    return file;
+  }
+
+  const start = { seq: 0, t: 0, kind: 'start', data: { version: 1, argv: ['shot', 'viewport'], startedAt: '2026-01-01T00:00:00.000Z', pid: 1 } };
+
+  it('should order steps by start time and summarize them', () => {
+    const file = writeTrace([
+      start,
+      { seq: 1, t: 5, kind: 'javascript', durationMs: 20, success: true, data: {
+        javascript: { text: '\n(function() {\n  return window.innerWidth;\n})()', length: 44 }, tabIndex: 1, windowIndex: 1, timeout: 10000
+      } },
+      { seq: 2, t: 2, kind: 'coords', durationMs: 30, success: true, data: {
+        from: 'viewport', viewportX: 10, viewportY: 20, windowIndex: 1, coordinates: { x: 10, y: 44 }
+      } },
+      { seq: 3, t: 40, kind: 'rate-limit', success: false, data: { operation: 'screenshot', allowed: false, retryAfterMs: 500 } },
+      { seq: 4, t: 41, kind: 'screenshot', durationMs: 300, success: true, data: {
+        operation: 'viewport_screenshot', path: '/tmp/shot.png', metadata: { width: 800, height: 600 }, preview: { base64: 'UklGRg==', size: 6 }
+      } },
+      { seq: 5, t: 400, kind: 'end', data: { exitCode: 0, events: 4 } }
+    ]);
+
+    const result = readTrace(file);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data).toMatchObject({
+      argv: ['shot', 'viewport'],
+      exitCode: 0,
+      complete: true,
+      durationMs: 400,
+      counts: { javascript: 1, coords: 1, 'rate-limit': 1, screenshot: 1 },
+      failures: 1
+    });
+    expect(result.data.events.map(event => event.seq)).toEqual([2, 1, 3, 4]);
+
+    const [coords, javascript, rateLimit, screenshot] = result.data.events;
+    expect(describeTraceEvent(coords!)).toBe('viewport (10, 20) -> screen (10, 44)');
+    expect(describeTraceEvent(javascript!)).toBe('[window 1 tab 1] return window.innerWidth;');
+    expect(describeTraceEvent(rateLimit!)).toBe('screenshot denied, retry after 500ms');
+    expect(describeTraceEvent(screenshot!)).toBe('viewport_screenshot /tmp/shot.png 800x600 (preview in trace)');
+
+    const timeline = formatTraceTimeline(result.data);
+    expect(timeline).toContain('Trace: shot viewport');
+    expect(timeline).toContain('4 step(s), 1 failed, exit 0');
+    expect(timeline).toContain('❌ rate-limit');
+
+    const full = formatTraceTimeline(result.data, { full: true });
+    expect(full).toContain('return window.innerWidth;');
+    expect(full).not.toContain('UklGRg==');
+  });
+
+  it('should flag traces that were never closed', () => {
+    const result = readTrace(writeTrace([start, { seq: 1, t: 3, kind: 'applescript', durationMs: 7, data: { script: { text: 'return 1', length: 8 } } }]));
+    expect(result.success && result.data).toMatchObject({ complete: false, durationMs: 10 });
+    expect(result.success && formatTraceTimeline(result.data)).toContain('incomplete');
+  });
+
+  it('should reject missing and malformed files', () => {
+    const missing = readTrace(join(dir, 'nope.ndjson'));
+    expect(!missing.success && missing.code).toBe(ErrorCode.FILE_NOT_FOUND);
+
+    const file = join(dir, 'bad.ndjson');
+    writeFileSync(file, `${JSON.stringify(start)}\n{oops\n`);
+    const malformed = readTrace(file);
+    expect(!malformed.success && malformed.error).toContain('line 2');
+    expect(!malformed.success && malformed.code).toBe(ErrorCode.INVALID_JSON);
+
+    const notTrace = readTrace(writeTrace([{ hello: 'world' }]));
+    expect(!notTrace.success && notTrace.error).toContain('not a trace file');
+  });
+});
@@ -1,5 +1,24 @@
-import { waitIdle } from '../wait';
+import {
+  waitIdle,
+  waitForSelector,
+  waitForText,
+  waitForUrl,
+  waitForNetworkIdle,
+  waitForFunction
+} from '../wait';
 import { ERROR_CODES } from '../../lib/util';
+import { ErrorCode } from '../../core/ErrorCodes';
+
+jest.mock('../../lib/apple.js', () => ({
+  execChromeJS: jest.fn()
+}));
+
+import { execChromeJS } from '../../lib/apple';
+const mockExecChromeJS = execChromeJS as jest.MockedFunction<typeof execChromeJS>;
+
+function pollResult(data: unknown) {
+  return { success: true as const, data, code: ERROR_CODES.OK, timestamp: new Date().toISOString() };
+}
 
 describe('Wait Command', () => {
   describe('waitIdle', () => {
@@ -126,4 +145,79 @@ describe('Wait Command', () => {
       expect(variance).toBeLessThan(100); // Less than 100ms variance expected for CI environments
     });
   });
-});
\ No newline at end of file
+
+  describe('condition waits', () => {
+    it('should poll until the selector becomes visible', async () => {
+      mockExecChromeJS
+        .mockResolvedValueOnce(pollResult({ matched: false, state: { attached: false, visible: false } }))
+        .mockResolvedValueOnce(pollResult({ matched: false, state: { attached: true, visible: false } }))
+        .mockResolvedValueOnce(pollResult({ matched: true, state: { attached: true, visible: true } }));
+
+      const result = await waitForSelector('#results', { intervalMs: 5, timeoutMs: 1000 });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.cmd).toBe('wait selector');
+      expect(result.data?.condition).toBe('selector');
+      expect(result.data?.attempts).toBe(3);
+      expect(result.data?.matchedState).toEqual({ attached: true, visible: true });
+      expect(mockExecChromeJS).toHaveBeenCalledWith(expect.stringContaining('"#results"'), 1, 1, expect.any(Number));
+    });
+
+    it('should return TIMEOUT with attempts when the condition never matches', async () => {
+      mockExecChromeJS.mockResolvedValue(pollResult({ matched: false, state: { found: false } }));
+
+      const result = await waitForText('Welcome back', { intervalMs: 10, timeoutMs: 50 });
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe(ErrorCode.TIMEOUT);
+      expect(result.error).toContain('text "Welcome back"');
+      expect(result.context?.metadata?.attempts).toBeGreaterThan(1);
+      expect(result.context?.metadata?.lastState).toEqual({ found: false });
+      for (const call of mockExecChromeJS.mock.calls) {
+        expect(call[3]).toBeLessThanOrEqual(50);
+      }
+    });
+
+    it('should fail fast on fatal poll results', async () => {
+      mockExecChromeJS.mockResolvedValue(pollResult({ matched: false, fatal: 'Invalid selector: ##' }));
+
+      const result = await waitForSelector('##', { state: 'present' });
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe(ErrorCode.INVALID_SELECTOR);
+      expect(mockExecChromeJS).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass through browser errors', async () => {
+      mockExecChromeJS.mockResolvedValue({
+        success: false,
+        error: 'Chrome is not running',
+        code: ErrorCode.CHROME_NOT_RUNNING,
+        timestamp: new Date().toISOString()
+      });
+
+      const result = await waitForNetworkIdle({ idleMs: 100 });
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe(ErrorCode.CHROME_NOT_RUNNING);
+    });
+
+    it('should build regex matchers for /pattern/ URLs', async () => {
+      mockExecChromeJS.mockResolvedValue(pollResult({ matched: true, state: { url: 'https://example.com/done' } }));
+
+      const result = await waitForUrl('/\\/done$/i');
+
+      expect(result.success).toBe(true);
+      expect(mockExecChromeJS.mock.calls[0][0]).toContain('new RegExp');
+    });
+
+    it('should validate inputs before polling', async () => {
+      expect((await waitForSelector('#a', { state: 'gone' as never })).code).toBe(ERROR_CODES.INVALID_INPUT);
+      expect((await waitForText('x', { timeoutMs: 0 })).code).toBe(ERROR_CODES.INVALID_INPUT);
+      expect((await waitForText('x', { timeoutMs: 100, intervalMs: 500 })).code).toBe(ERROR_CODES.INVALID_INPUT);
+      expect((await waitForUrl('/[/')).code).toBe(ERROR_CODES.INVALID_INPUT);
+      expect((await waitForFunction('eval("1")')).code).toBe(ERROR_CODES.INVALID_INPUT);
+      expect(mockExecChromeJS).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { WindowCommand, parseViewportSize } from '../window';
+import { ErrorCode } from '../../core/ErrorCodes';
+import { error, ok } from '../../core/Result';
+import type { ChromeWindowInfo, IAppleScriptService } from '../../services/IAppleScriptService';
+
+function chromeWindow(id: number, index: number, overrides: Partial<ChromeWindowInfo> = {}): ChromeWindowInfo {
+  return {
+    id,
+    index,
+    title: `Window ${id}`,
+    url: 'https://example.com/',
+    bounds: { x: 0, y: 25, width: 1440, height: 900 },
+    tabCount: 1,
+    activeTabIndex: 1,
+    incognito: false,
+    minimized: false,
+    visible: true,
+    ...overrides
+  };
+}
+
+/**
+ * AppleScript service double whose window bounds follow setWindowBounds and
+ * whose viewport is the window size minus 160x180 of browser chrome
+ */
+function createService(windows: ChromeWindowInfo[]) {
+  let bounds = { ...windows[0]!.bounds };
+  const service = {
+    listWindows: jest.fn(async () => ok(windows.map((window, i) => i === 0 ? { ...window, bounds } : window))),
+    getChromeWindowBounds: jest.fn(async () => ok({ id: 1, title: '', bounds, visible: true })),
+    setWindowBounds: jest.fn(async (_index: number, next: typeof bounds) => {
+      bounds = { ...next };
+      return ok({ id: 1, title: '', bounds, visible: true });
+    }),
+    getViewportSize: jest.fn(async () => ok({ width: bounds.width - 160, height: bounds.height - 180 })),
+    setWindowState: jest.fn(async () => ok(true)),
+    closeWindow: jest.fn(async () => ok(true)),
+    createWindow: jest.fn(async () => ok(windows[0]!))
+  };
+  return { service, command: new WindowCommand(service as unknown as IAppleScriptService) };
+}
+
+describe('Window Command', () => {
+  it('should parse viewport sizes', () => {
+    expect(parseViewportSize('1280x800')).toMatchObject({ success: true, data: { width: 1280, height: 800 } });
+    expect(parseViewportSize(' 375 X 667 ')).toMatchObject({ success: true, data: { width: 375, height: 667 } });
+
+    for (const value of ['1280', '1280x', '0x800', '1280x800px', '-1x5']) {
+      const result = parseViewportSize(value);
+      expect(!result.success && result.code).toBe(ErrorCode.INVALID_INPUT);
+    }
+  });
+
+  it('should keep omitted coordinates when moving a window', async () => {
+    const { service, command } = createService([chromeWindow(7, 1)]);
+
+    const result = await command.setBounds({ windowIndex: 1, x: 100, width: 1024 });
+
+    expect(service.setWindowBounds).toHaveBeenCalledWith(1, { x: 100, y: 25, width: 1024, height: 900 });
+    expect(result.success && result.data).toMatchObject({ action: 'set-bounds', window: { id: 7, bounds: { x: 100, width: 1024 } } });
+  });
+
+  it('should resize the window around the requested viewport', async () => {
+    const { service, command } = createService([chromeWindow(7, 1)]);
+
+    const result = await command.setBounds({ viewport: '1280x800' });
+
+    expect(service.setWindowBounds).toHaveBeenCalledTimes(1);
+    expect(service.setWindowBounds).toHaveBeenCalledWith(1, { x: 0, y: 25, width: 1440, height: 980 });
+    expect(result.success && result.data.viewport).toEqual({ width: 1280, height: 800 });
+  });
+
+  it('should fail when Chrome will not reach the viewport size', async () => {
+    const { service, command } = createService([chromeWindow(7, 1)]);
+    service.getViewportSize.mockResolvedValue(ok({ width: 500, height: 700 }));
+
+    const result = await command.setBounds({ viewport: '320x480' });
+
+    expect(!result.success && result.code).toBe(ErrorCode.UI_AUTOMATION_FAILED);
+    expect(!result.success && result.error).toContain('Viewport is 500x700 instead of 320x480');
+  });
+
+  it('should validate bounds before touching the window', async () => {
+    const { service, command } = createService([chromeWindow(7, 1)]);
+
+    expect(await command.setBounds({})).toMatchObject({ success: false, code: ErrorCode.INVALID_INPUT });
+    expect(await command.setBounds({ viewport: '800x600', width: 900 })).toMatchObject({ success: false, code: ErrorCode.INVALID_INPUT });
+    expect(await command.setBounds({ height: 0 })).toMatchObject({ success: false, code: ErrorCode.INVALID_INPUT });
+    expect(service.listWindows).not.toHaveBeenCalled();
+  });
+
+  it('should follow a window by id when a state change brings it to the front', async () => {
+    const { service, command } = createService([chromeWindow(7, 1), chromeWindow(9, 2)]);
+    service.listWindows
+      .mockResolvedValueOnce(ok([chromeWindow(7, 1), chromeWindow(9, 2, { minimized: true })]))
+      .mockResolvedValueOnce(ok([chromeWindow(9, 1), chromeWindow(7, 2)]));
+
+    const result = await command.restore({ windowIndex: 2 });
+
+    expect(service.setWindowState).toHaveBeenCalledWith(2, 'normal');
+    expect(result.success && result.data.window).toMatchObject({ id: 9, index: 1 });
+  });
+
+  it('should open windows sized to a viewport on a blank page', async () => {
+    const { service, command } = createService([chromeWindow(12, 1, { incognito: true })]);
+
+    const result = await command.create({ incognito: true, viewport: '1280x720' });
+
+    expect(service.createWindow).toHaveBeenCalledWith({ incognito: true, url: 'about:blank' });
+    expect(result.success && result.data).toMatchObject({ action: 'new', window: { id: 12, incognito: true }, viewport: { width: 1280, height: 720 } });
+  });
+
+  it('should report windows that do not exist', async () => {
+    const { service, command } = createService([chromeWindow(7, 1)]);
+
+    const missing = await command.close({ windowIndex: 3 });
+    expect(!missing.success && missing.code).toBe(ErrorCode.WINDOW_NOT_FOUND);
+    expect(service.closeWindow).not.toHaveBeenCalled();
+
+    service.setWindowState.mockResolvedValue(error('System Events got an error: osascript is not allowed assistive access.', ErrorCode.ACCESSIBILITY_DENIED));
+    const denied = await command.fullscreen();
+    expect(!denied.success && denied.code).toBe(ErrorCode.ACCESSIBILITY_DENIED);
+  });
+});
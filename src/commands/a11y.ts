@@ -0,0 +1,527 @@
+/**
+ * @fileoverview Accessibility audit built on the snapshot engine
+ *
+ * This module walks the page with the same helpers used by `snapshot outline`
+ * (selector generation, role and accessible name computation) and reports rule
+ * violations with a selector, rule id, severity and the offending element's rect.
+ *
+ * Rules:
+ * - interactive-name: custom interactive widgets without an accessible name
+ * - image-alt: images without alternative text
+ * - label: form fields without an associated label
+ * - duplicate-id: id attributes used by more than one element
+ * - empty-link / empty-button: links and buttons with no discernible text
+ * - heading-order: heading levels that skip a level (h2 followed by h4)
+ *
+ * @example
+ * ```typescript
+ * const result = await auditAccessibility({ failOn: 'serious' });
+ * if (result.success && !result.data.passed) {
+ *   console.log(formatAuditSummary(result.data));
+ * }
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { execChromeJS } from '../lib/apple.js';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { getSnapshotHelperScripts, type ElementRect } from './snapshot.js';
+
+/**
+ * Violation severity, ordered from most to least severe
+ */
+export type A11ySeverity = 'critical' | 'serious' | 'moderate' | 'minor';
+
+/**
+ * Identifiers of the supported audit rules
+ */
+export type A11yRuleId =
+  | 'interactive-name'
+  | 'image-alt'
+  | 'label'
+  | 'duplicate-id'
+  | 'empty-link'
+  | 'empty-button'
+  | 'heading-order';
+
+/**
+ * Audit rule definition
+ */
+export interface A11yRule {
+  /** Rule identifier */
+  id: A11yRuleId;
+  /** Severity assigned to violations of this rule */
+  severity: A11ySeverity;
+  /** Short description of what the rule checks */
+  description: string;
+}
+
+/**
+ * A single rule violation
+ */
+export interface A11yViolation {
+  /** Rule that was violated */
+  rule: A11yRuleId;
+  /** Severity of the violation */
+  severity: A11ySeverity;
+  /** Human-readable explanation */
+  message: string;
+  /** Unique CSS selector of the offending element */
+  selector: string;
+  /** ARIA role of the offending element */
+  role: string;
+  /** Accessible name of the offending element (empty when missing) */
+  name: string;
+  /** HTML tag name in lowercase */
+  tagName: string;
+  /** Element's bounding rectangle in viewport coordinates */
+  rect: ElementRect;
+}
+
+/**
+ * Options for the accessibility audit
+ */
+export interface A11yAuditOptions {
+  /** Rules to run (default: all rules) */
+  rules?: A11yRuleId[];
+  /** Only report elements visible in the viewport (default: false) */
+  visibleOnly?: boolean;
+  /** Lowest severity that makes the audit fail (default: 'minor', any violation fails) */
+  failOn?: A11ySeverity;
+  /** Tab index (1-based, default: 1) */
+  tabIndex?: number;
+  /** Chrome window index (1-based, default: 1) */
+  windowIndex?: number;
+  /** Audit script timeout in milliseconds (default: 20000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Accessibility audit report
+ */
+export interface A11yAuditResult {
+  /** Whether the audit script ran */
+  ok: boolean;
+  /** Command identifier */
+  cmd: 'a11y.audit';
+  /** Whether no violation reached the failOn severity */
+  passed: boolean;
+  /** Severity threshold used to compute passed */
+  failOn: A11ySeverity;
+  /** Violations in document order (heading-order after element rules) */
+  violations: A11yViolation[];
+  /** Violation counts */
+  summary: {
+    total: number;
+    bySeverity: Record<A11ySeverity, number>;
+    byRule: Partial<Record<A11yRuleId, number>>;
+  };
+  /** Page and run metadata */
+  meta: {
+    url: string;
+    title: string;
+    timestamp: string;
+    durationMs: number;
+    /** Number of elements inspected */
+    nodeCount: number;
+    /** Rules that were run */
+    rules: A11yRuleId[];
+    visibleOnly: boolean;
+  };
+}
+
+/**
+ * Raw violation returned by the page script, before severities are assigned
+ */
+interface RawViolation {
+  rule: A11yRuleId;
+  message: string;
+  selector: string;
+  role: string;
+  name: string;
+  tagName: string;
+  rect: ElementRect;
+}
+
+interface RawAuditResult {
+  ok: boolean;
+  error?: string;
+  violations: RawViolation[];
+  nodeCount: number;
+  url: string;
+  title: string;
+  durationMs: number;
+}
+
+/**
+ * Rule table; severities follow the impact levels used by common a11y tooling
+ */
+const A11Y_RULES: Record<A11yRuleId, A11yRule> = {
+  'interactive-name': {
+    id: 'interactive-name',
+    severity: 'serious',
+    description: 'Interactive widgets must have an accessible name'
+  },
+  'image-alt': {
+    id: 'image-alt',
+    severity: 'critical',
+    description: 'Images must have alternative text (use alt="" for decorative images)'
+  },
+  'label': {
+    id: 'label',
+    severity: 'critical',
+    description: 'Form fields must have a label'
+  },
+  'duplicate-id': {
+    id: 'duplicate-id',
+    severity: 'moderate',
+    description: 'id attribute values must be unique'
+  },
+  'empty-link': {
+    id: 'empty-link',
+    severity: 'serious',
+    description: 'Links must have discernible text'
+  },
+  'empty-button': {
+    id: 'empty-button',
+    severity: 'critical',
+    description: 'Buttons must have discernible text'
+  },
+  'heading-order': {
+    id: 'heading-order',
+    severity: 'moderate',
+    description: 'Heading levels should only increase by one'
+  }
+};
+
+const SEVERITY_ORDER: A11ySeverity[] = ['critical', 'serious', 'moderate', 'minor'];
+
+const A11Y_AUDIT_TIMEOUT_MS = 20000;
+
+/**
+ * Get the supported audit rules
+ *
+ * @returns Rule definitions in table order
+ */
+export function getA11yRules(): A11yRule[] {
+  return Object.values(A11Y_RULES);
+}
+
+/**
+ * Whether a severity is at least as severe as the threshold
+ */
+function meetsThreshold(severity: A11ySeverity, threshold: A11ySeverity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) <= SEVERITY_ORDER.indexOf(threshold);
+}
+
+/**
+ * Generates the page script that runs the selected rules.
+ *
+ * @param rules - Rules to run
+ * @param visibleOnly - Only report elements visible in the viewport
+ * @returns JavaScript code as a string that can be executed in Chrome
+ */
+function generateAuditScript(rules: A11yRuleId[], visibleOnly: boolean): string {
+  return `
+${getSnapshotHelperScripts()}
+
+(function() {
+  try {
+    const startTime = Date.now();
+    const rules = new Set(${JSON.stringify(rules)});
+    const visibleOnly = ${JSON.stringify(visibleOnly)};
+    const violations = [];
+    let nodeCount = 0;
+
+    const fieldTags = new Set(['input', 'select', 'textarea']);
+    const nonLabelledInputTypes = new Set(['hidden', 'submit', 'reset', 'button', 'image']);
+    const widgetRoles = new Set([
+      'checkbox', 'combobox', 'listbox', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+      'option', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch', 'tab', 'textbox', 'treeitem'
+    ]);
+
+    // Elements removed from the accessibility tree are not audited
+    function isExposed(element) {
+      if (element.closest('[aria-hidden="true"]')) return false;
+      const style = window.getComputedStyle(element);
+      if (style.display === 'none' || style.visibility === 'hidden') return false;
+      return element.getClientRects().length > 0;
+    }
+
+    function textOf(element) {
+      return element ? (element.textContent || '').trim().replace(/\\s+/g, ' ') : '';
+    }
+
+    function labelledByText(element) {
+      const ids = (element.getAttribute('aria-labelledby') || '').split(/\\s+/).filter(Boolean);
+      return ids.map(id => textOf(document.getElementById(id))).join(' ').trim();
+    }
+
+    function hasAttributeText(element, attribute) {
+      return (element.getAttribute(attribute) || '').trim().length > 0;
+    }
+
+    // Text exposed by a link or button, including alt text of nested images
+    function hasDiscernibleText(element) {
+      if (hasAttributeText(element, 'aria-label') || labelledByText(element) || hasAttributeText(element, 'title')) {
+        return true;
+      }
+      if (textOf(element)) return true;
+      return Array.from(element.querySelectorAll('img[alt], [aria-label], svg title'))
+        .some(child => (child.getAttribute('alt') || child.getAttribute('aria-label') || child.textContent || '').trim());
+    }
+
+    function hasLabel(element) {
+      if (hasAttributeText(element, 'aria-label') || labelledByText(element) || hasAttributeText(element, 'title')) {
+        return true;
+      }
+      return Array.from(element.labels || []).some(label => textOf(label));
+    }
+
+    function report(rule, element, info, message) {
+      if (!rules.has(rule)) return;
+      if (visibleOnly && !isElementVisible(element)) return;
+      const rect = element.getBoundingClientRect();
+      violations.push({
+        rule,
+        message,
+        selector: getUniqueSelector(element),
+        role: info.role,
+        name: info.nameFromFallback ? '' : info.name,
+        tagName: element.tagName.toLowerCase(),
+        rect: {
+          x: Math.round(rect.left),
+          y: Math.round(rect.top),
+          w: Math.round(rect.width),
+          h: Math.round(rect.height)
+        }
+      });
+    }
+
+    const seenIds = new Set();
+    const headings = [];
+    const walker = document.createTreeWalker(document.body || document.documentElement, NodeFilter.SHOW_ELEMENT, null, false);
+    let element = walker.currentNode;
+
+    while (element) {
+      nodeCount++;
+      const tagName = element.tagName.toLowerCase();
+
+      // Duplicate ids break label and aria references even on hidden elements
+      const isDuplicateId = element.id && seenIds.has(element.id);
+      if (element.id) seenIds.add(element.id);
+
+      if (isExposed(element)) {
+        const info = getAccessibilityInfo(element);
+        const explicitRole = element.getAttribute('role');
+        const missingName = info.nameFromFallback || !info.name;
+
+        if (isDuplicateId) {
+          report('duplicate-id', element, info, 'id "' + element.id + '" is used by more than one element');
+        }
+
+        if (tagName === 'img' && explicitRole !== 'presentation' && explicitRole !== 'none') {
+          if (!element.hasAttribute('alt') && !hasAttributeText(element, 'aria-label') && !labelledByText(element) && !hasAttributeText(element, 'title')) {
+            report('image-alt', element, info, 'Image has no alt attribute');
+          }
+        } else if (fieldTags.has(tagName) && !(tagName === 'input' && nonLabelledInputTypes.has(element.type))) {
+          if (!hasLabel(element)) {
+            report('label', element, info, 'Form field has no associated label');
+          }
+        } else if (info.role === 'link' || explicitRole === 'link') {
+          if (!hasDiscernibleText(element)) {
+            report('empty-link', element, info, 'Link has no discernible text');
+          }
+        } else if (info.role === 'button' || explicitRole === 'button') {
+          const hasDefaultLabel = tagName === 'input' && (element.type === 'submit' || element.type === 'reset');
+          const valueText = tagName === 'input' && (element.value || '').trim();
+          if (!hasDefaultLabel && !valueText && !hasDiscernibleText(element)) {
+            report('empty-button', element, info, 'Button has no discernible text');
+          }
+        } else if (explicitRole && widgetRoles.has(explicitRole) && missingName) {
+          report('interactive-name', element, info, 'Element with role "' + explicitRole + '" has no accessible name');
+        }
+
+        const headingMatch = /^h([1-6])$/.exec(tagName);
+        if (headingMatch || explicitRole === 'heading') {
+          const level = explicitRole === 'heading'
+            ? parseInt(element.getAttribute('aria-level') || '2', 10)
+            : parseInt(headingMatch[1], 10);
+          headings.push({ element, info, level });
+        }
+      }
+
+      element = walker.nextNode();
+    }
+
+    let previousLevel = null;
+    for (const heading of headings) {
+      if (previousLevel !== null && heading.level > previousLevel + 1) {
+        report('heading-order', heading.element, heading.info,
+          'Heading level ' + heading.level + ' follows level ' + previousLevel);
+      }
+      previousLevel = heading.level;
+    }
+
+    return JSON.stringify({
+      ok: true,
+      violations,
+      nodeCount,
+      url: window.location.href,
+      title: document.title,
+      durationMs: Date.now() - startTime
+    });
+  } catch (e) {
+    return JSON.stringify({ ok: false, error: e.message, violations: [], nodeCount: 0 });
+  }
+})();
+`;
+}
+
+/**
+ * Build the audit report from raw page violations
+ */
+function buildAuditResult(raw: RawAuditResult, rules: A11yRuleId[], failOn: A11ySeverity, visibleOnly: boolean): A11yAuditResult {
+  const violations: A11yViolation[] = raw.violations.map(violation => ({
+    ...violation,
+    severity: A11Y_RULES[violation.rule].severity
+  }));
+
+  const bySeverity: Record<A11ySeverity, number> = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+  const byRule: Partial<Record<A11yRuleId, number>> = {};
+  for (const violation of violations) {
+    bySeverity[violation.severity]++;
+    byRule[violation.rule] = (byRule[violation.rule] || 0) + 1;
+  }
+
+  return {
+    ok: true,
+    cmd: 'a11y.audit',
+    passed: !violations.some(violation => meetsThreshold(violation.severity, failOn)),
+    failOn,
+    violations,
+    summary: { total: violations.length, bySeverity, byRule },
+    meta: {
+      url: raw.url,
+      title: raw.title,
+      timestamp: new Date().toISOString(),
+      durationMs: raw.durationMs,
+      nodeCount: raw.nodeCount,
+      rules,
+      visibleOnly
+    }
+  };
+}
+
+/**
+ * Run an accessibility audit on the active tab.
+ *
+ * The result is successful whenever the audit ran; check `passed` (or the
+ * violations) to decide whether the page meets the requested severity threshold.
+ *
+ * @param options - Audit options
+ * @returns Promise resolving to the audit report
+ *
+ * @throws {ErrorCode.INVALID_INPUT} When an unknown rule id or severity, or an invalid tab, window or timeout is given
+ * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {ErrorCode.JAVASCRIPT_ERROR} When the audit script fails in the page
+ * @throws {ErrorCode.SCRIPT_TIMEOUT} When the audit exceeds `timeoutMs` (20 seconds by default)
+ *
+ * @example
+ * ```typescript
+ * const result = await auditAccessibility({ rules: ['image-alt', 'label'], failOn: 'critical' });
+ * if (result.success) {
+ *   result.data.violations.forEach(v => console.log(v.rule, v.selector));
+ * }
+ * ```
+ */
+export async function auditAccessibility(options: A11yAuditOptions = {}): Promise<Result<A11yAuditResult, string>> {
+  const rules = options.rules && options.rules.length > 0 ? options.rules : (Object.keys(A11Y_RULES) as A11yRuleId[]);
+  const failOn = options.failOn ?? 'minor';
+  const visibleOnly = options.visibleOnly ?? false;
+  const tabIndex = options.tabIndex ?? 1;
+  const windowIndex = options.windowIndex ?? 1;
+  const timeoutMs = options.timeoutMs ?? A11Y_AUDIT_TIMEOUT_MS;
+
+  const unknownRules = rules.filter(rule => !(rule in A11Y_RULES));
+  if (unknownRules.length > 0) {
+    return ErrorUtils.validationError(
+      `Unknown audit rule(s): ${unknownRules.join(', ')}. Supported rules: ${Object.keys(A11Y_RULES).join(', ')}`,
+      'rules',
+      unknownRules
+    );
+  }
+
+  if (!SEVERITY_ORDER.includes(failOn)) {
+    return ErrorUtils.validationError(
+      `Invalid severity "${failOn}". Use one of: ${SEVERITY_ORDER.join(', ')}`,
+      'failOn',
+      failOn
+    );
+  }
+
+  if (!Number.isInteger(tabIndex) || tabIndex < 1) {
+    return ErrorUtils.validationError(`Invalid tab index: ${tabIndex}. Must be a positive integer`, 'tabIndex', tabIndex);
+  }
+
+  if (!Number.isInteger(windowIndex) || windowIndex < 1) {
+    return ErrorUtils.validationError(`Invalid window index: ${windowIndex}. Must be a positive integer`, 'windowIndex', windowIndex);
+  }
+
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    return ErrorUtils.validationError(`Invalid timeout: ${timeoutMs}. Must be a positive number of milliseconds`, 'timeoutMs', timeoutMs);
+  }
+
+  const jsResult = await execChromeJS<RawAuditResult | string>(generateAuditScript(rules, visibleOnly), tabIndex, windowIndex, timeoutMs);
+  if (!jsResult.success) {
+    return error(jsResult.error || 'Accessibility audit failed', jsResult.code);
+  }
+
+  let raw: RawAuditResult;
+  try {
+    raw = (typeof jsResult.data === 'string' ? JSON.parse(jsResult.data) : jsResult.data) as RawAuditResult;
+  } catch (err) {
+    return error(`Failed to parse audit result: ${err}`, ErrorCode.INVALID_JSON);
+  }
+
+  if (!raw || !raw.ok) {
+    return error(`Accessibility audit script failed: ${raw?.error || 'no result returned'}`, ErrorCode.JAVASCRIPT_ERROR);
+  }
+
+  const result = buildAuditResult(raw, rules, failOn, visibleOnly);
+  return ok(result, ErrorCode.OK, {
+    durationMs: result.meta.durationMs,
+    metadata: { violations: result.summary.total, passed: result.passed }
+  });
+}
+
+/**
+ * Format an audit report as a human-readable summary
+ *
+ * @param result - Audit report
+ * @returns Multi-line summary grouped by rule
+ */
+export function formatAuditSummary(result: A11yAuditResult): string {
+  const lines: string[] = [];
+  const statusIcon = result.passed ? '✅' : '❌';
+  lines.push(`${statusIcon} Accessibility audit ${result.passed ? 'passed' : 'failed'}: ${result.summary.total} violation(s) on ${result.meta.url || 'current page'}`);
+  lines.push(`   ${SEVERITY_ORDER.map(severity => `${severity}: ${result.summary.bySeverity[severity]}`).join(', ')} (fail on: ${result.failOn})`);
+
+  for (const rule of getA11yRules()) {
+    const ruleViolations = result.violations.filter(violation => violation.rule === rule.id);
+    if (ruleViolations.length === 0) continue;
+
+    lines.push('');
+    lines.push(`[${rule.severity}] ${rule.id}: ${rule.description} (${ruleViolations.length})`);
+    for (const violation of ruleViolations) {
+      const { x, y, w, h } = violation.rect;
+      lines.push(`  - ${violation.selector} @ ${x},${y} ${w}x${h}: ${violation.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
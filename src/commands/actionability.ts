@@ -0,0 +1,362 @@
+/**
+ * @fileoverview Auto-waiting actionability checks for clicks and fills
+ *
+ * Before a click or fill lands, the target element must be able to receive it.
+ * `waitForActionable()` polls the page until the element is:
+ *
+ * - attached: the selector matches an element in the document
+ * - visible: non-empty box and not `visibility: hidden`
+ * - stable: its rect did not change across two animation frames
+ * - enabled: not `:disabled` and not inside `aria-disabled="true"`
+ * - editable (fills only): not `readonly` or `aria-readonly="true"`
+ * - receiving events: `elementFromPoint` at the click point returns the
+ *   element or a descendant, in its own document and in every enclosing frame
+ *
+ * The element is scrolled into view whenever the click point is outside the
+ * viewport. When the timeout elapses the error names the check that failed
+ * last, e.g. `covered by div.modal-backdrop`.
+ *
+ * @example
+ * ```typescript
+ * const ready = await waitForActionable('#submit', { timeoutMs: 10000 });
+ * if (!ready.success) {
+ *   console.error(ready.error); // Element "#submit" is not actionable: disabled (...)
+ * }
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { execChromeJS } from '../lib/apple.js';
+import { getDeepQueryScript } from '../lib/deep-query.js';
+import { splitPierceSelector } from '../lib/locator.js';
+import { sleep } from '../lib/util.js';
+import type { Coordinates } from '../lib/coords.js';
+
+/**
+ * Individual actionability checks, in the order they are evaluated
+ */
+export type ActionabilityCheck = 'attached' | 'visible' | 'enabled' | 'editable' | 'stable' | 'viewport' | 'receives-events';
+
+/**
+ * Options for actionability waits
+ */
+export interface ActionabilityOptions {
+  /** Target window index (1-based, default: 1) */
+  windowIndex?: number;
+  /** X offset of the click point from the element center */
+  offsetX?: number;
+  /** Y offset of the click point from the element center */
+  offsetY?: number;
+  /** Also require the element to accept text input */
+  editable?: boolean;
+  /** Maximum time to wait in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Delay between polls in milliseconds (default: 100) */
+  intervalMs?: number;
+  /** Selector or locator to name in error messages (default: selector) */
+  label?: string;
+}
+
+/**
+ * Outcome of a successful actionability wait
+ */
+export interface ActionabilityResult {
+  /** Click point in top-level viewport coordinates */
+  point: Coordinates;
+  /** Number of polls performed */
+  attempts: number;
+  /** Time spent waiting in milliseconds */
+  waitedMs: number;
+}
+
+/**
+ * Result of a single actionability poll in the page
+ */
+interface ActionabilityPoll {
+  actionable: boolean;
+  point?: Coordinates;
+  /** Check that failed */
+  check?: ActionabilityCheck;
+  /** Human-readable reason the check failed */
+  reason?: string;
+  /** Set when waiting cannot help (invalid selector, cross-origin frame) */
+  fatal?: string;
+  fatalKind?: 'selector' | 'frame';
+}
+
+/**
+ * Default time to wait for an element to become actionable
+ */
+export const DEFAULT_ACTIONABILITY_TIMEOUT_MS = 5000;
+
+/**
+ * Default delay between actionability polls
+ */
+const DEFAULT_POLL_INTERVAL_MS = 100;
+
+/**
+ * Maximum allowed actionability timeout (10 minutes, matching the wait command)
+ */
+const MAX_ACTIONABILITY_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Upper bound for a single poll's JavaScript execution
+ */
+const MAX_POLL_EXECUTION_MS = 5000;
+
+/**
+ * Error codes reported for each failed check
+ */
+const CHECK_ERROR_CODES: Record<ActionabilityCheck, ErrorCode> = {
+  'attached': ErrorCode.TARGET_NOT_FOUND,
+  'visible': ErrorCode.ELEMENT_NOT_VISIBLE,
+  'enabled': ErrorCode.ELEMENT_NOT_INTERACTABLE,
+  'editable': ErrorCode.ELEMENT_NOT_INTERACTABLE,
+  'stable': ErrorCode.ELEMENT_NOT_INTERACTABLE,
+  'viewport': ErrorCode.TARGET_OUTSIDE_VIEWPORT,
+  'receives-events': ErrorCode.ELEMENT_NOT_INTERACTABLE
+};
+
+/**
+ * Generate the page script performing one actionability poll
+ *
+ * Stability needs two animation frames, which a single synchronous script
+ * cannot wait for. The first poll schedules the frame samples and reports the
+ * element as not yet stable; a later poll compares them with the current rect.
+ */
+export function generateActionabilityScript(
+  selector: string,
+  options: Pick<ActionabilityOptions, 'offsetX' | 'offsetY' | 'editable'> = {}
+): string {
+  return `
+(function() {
+  ${getDeepQueryScript()}
+
+  const segments = ${JSON.stringify(splitPierceSelector(selector))};
+  const offsetX = ${JSON.stringify(options.offsetX ?? 0)};
+  const offsetY = ${JSON.stringify(options.offsetY ?? 0)};
+  const requireEditable = ${options.editable ? 'true' : 'false'};
+  const FRAME_WAIT_MS = 1000;
+
+  function fail(check, reason) {
+    return { actionable: false, check: check, reason: reason };
+  }
+
+  function describe(element) {
+    const tag = element.tagName.toLowerCase();
+    if (element.id) return tag + '#' + element.id;
+    const classes = Array.from(element.classList || []).slice(0, 2);
+    return classes.length > 0 ? tag + '.' + classes.join('.') : tag;
+  }
+
+  function composedContains(ancestor, node) {
+    while (node) {
+      if (node === ancestor) return true;
+      node = node.parentNode || node.host || null;
+    }
+    return false;
+  }
+
+  function hitTest(doc, x, y) {
+    let hit = doc.elementFromPoint(x, y);
+    while (hit && hit.shadowRoot) {
+      const inner = hit.shadowRoot.elementFromPoint(x, y);
+      if (!inner || inner === hit) break;
+      hit = inner;
+    }
+    return hit;
+  }
+
+  function clickPoint(element) {
+    const rect = viewportRect(element);
+    return { x: rect.left + rect.width / 2 + offsetX, y: rect.top + rect.height / 2 + offsetY, rect: rect };
+  }
+
+  function rectKey(rect) {
+    return [rect.left, rect.top, rect.width, rect.height].join(',');
+  }
+
+  function inViewport(target, point) {
+    const offset = frameOffset(target);
+    const x = point.x - offset.x;
+    const y = point.y - offset.y;
+    const targetWindow = elementWindow(target);
+    return x >= 0 && y >= 0 && x < targetWindow.innerWidth && y < targetWindow.innerHeight;
+  }
+
+  function poll() {
+    let element;
+    try {
+      element = deepQuerySelector(segments);
+    } catch (e) {
+      return { actionable: false, fatal: String((e && e.message) || e), fatalKind: e && e.name === 'SyntaxError' ? 'selector' : 'frame' };
+    }
+    if (!element || !element.isConnected) return fail('attached', 'not attached to the DOM');
+
+    const style = elementWindow(element).getComputedStyle(element);
+    const box = element.getBoundingClientRect();
+    if (box.width === 0 || box.height === 0) return fail('visible', 'not visible (empty bounding box)');
+    if (style.visibility === 'hidden' || style.visibility === 'collapse') return fail('visible', 'not visible (visibility: ' + style.visibility + ')');
+
+    if (element.matches(':disabled') || element.closest('[aria-disabled="true"]')) return fail('enabled', 'disabled');
+    if (requireEditable && (element.readOnly === true || element.getAttribute('aria-readonly') === 'true')) return fail('editable', 'not editable (readonly)');
+
+    let point = clickPoint(element);
+    let target = element;
+    while (target) {
+      if (!inViewport(target, point)) {
+        element.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+        point = clickPoint(element);
+        break;
+      }
+      target = elementWindow(target).frameElement;
+    }
+
+    const probes = window.__macChromeCliStability || (window.__macChromeCliStability = new WeakMap());
+    let probe = probes.get(element);
+    if (!probe || (probe.frames.length === 2 && Date.now() - probe.startedAt > FRAME_WAIT_MS)) {
+      probe = { startedAt: Date.now(), frames: [] };
+      probes.set(element, probe);
+      const sample = function() { probe.frames.push(rectKey(viewportRect(element))); };
+      window.requestAnimationFrame(function() {
+        sample();
+        window.requestAnimationFrame(sample);
+      });
+      return fail('stable', 'waiting for animation frames');
+    }
+    if (probe.frames.length < 2) {
+      return Date.now() - probe.startedAt > FRAME_WAIT_MS
+        ? fail('stable', 'not stable (no animation frames rendered; is the tab in the background?)')
+        : fail('stable', 'waiting for animation frames');
+    }
+    probes.delete(element);
+    if (probe.frames[0] !== probe.frames[1] || probe.frames[1] !== rectKey(point.rect)) {
+      return fail('stable', 'not stable (still moving or resizing)');
+    }
+
+    if (style.pointerEvents === 'none') return fail('receives-events', 'does not receive pointer events (pointer-events: none)');
+
+    target = element;
+    while (target) {
+      const offset = frameOffset(target);
+      const x = point.x - offset.x;
+      const y = point.y - offset.y;
+      if (!inViewport(target, point)) return fail('viewport', 'outside of the viewport at (' + Math.round(point.x) + ', ' + Math.round(point.y) + ')');
+      const hit = hitTest(target.ownerDocument, x, y);
+      if (!hit) return fail('receives-events', 'no element at (' + Math.round(point.x) + ', ' + Math.round(point.y) + ')');
+      if (!composedContains(target, hit)) return fail('receives-events', 'covered by ' + describe(hit));
+      target = elementWindow(target).frameElement;
+    }
+
+    return { actionable: true, point: { x: Math.round(point.x), y: Math.round(point.y) } };
+  }
+
+  return JSON.stringify(poll());
+})();
+`;
+}
+
+/**
+ * Wait until the element matching `selector` can receive a click or input
+ *
+ * Polls the page until every actionability check passes or the timeout
+ * elapses. Invalid selectors and cross-origin frames fail immediately.
+ *
+ * @param selector CSS selector, optionally with `>>>` segments
+ * @param options Click point, timeout and window options
+ * @returns Click point and wait statistics
+ *
+ * @throws {ErrorCode.INVALID_INPUT} When timeout or interval is invalid
+ * @throws {ErrorCode.INVALID_SELECTOR} When the selector cannot be parsed by the page
+ * @throws {ErrorCode.TARGET_NOT_FOUND} When no element is attached before the timeout
+ * @throws {ErrorCode.ELEMENT_NOT_VISIBLE} When the element stays invisible
+ * @throws {ErrorCode.ELEMENT_NOT_INTERACTABLE} When the element stays disabled, readonly, moving or covered
+ * @throws {ErrorCode.TARGET_OUTSIDE_VIEWPORT} When the click point cannot be scrolled into the viewport
+ */
+export async function waitForActionable(
+  selector: string,
+  options: ActionabilityOptions = {}
+): Promise<Result<ActionabilityResult, string>> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_ACTIONABILITY_TIMEOUT_MS;
+  const intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const windowIndex = options.windowIndex ?? 1;
+  const label = options.label ?? selector;
+
+  if (typeof timeoutMs !== 'number' || !Number.isFinite(timeoutMs) || timeoutMs < 1 || timeoutMs > MAX_ACTIONABILITY_TIMEOUT_MS) {
+    return ErrorUtils.validationError(
+      `Invalid actionability timeout. Must be between 1 and ${MAX_ACTIONABILITY_TIMEOUT_MS}ms.`,
+      'timeoutMs',
+      timeoutMs
+    );
+  }
+
+  if (typeof intervalMs !== 'number' || !Number.isFinite(intervalMs) || intervalMs < 1 || intervalMs > timeoutMs) {
+    return ErrorUtils.validationError(
+      'Invalid polling interval. Must be between 1ms and the timeout.',
+      'intervalMs',
+      intervalMs
+    );
+  }
+
+  const script = generateActionabilityScript(selector, options);
+  const startTime = Date.now();
+  let attempts = 0;
+  let lastPoll: ActionabilityPoll | undefined;
+
+  while (true) {
+    attempts++;
+    const remainingMs = timeoutMs - (Date.now() - startTime);
+    const pollTimeoutMs = Math.max(1, Math.min(remainingMs, MAX_POLL_EXECUTION_MS));
+    const pollResult = await execChromeJS<ActionabilityPoll>(script, 1, windowIndex, pollTimeoutMs);
+    const elapsedMs = Date.now() - startTime;
+
+    if (!pollResult.success) {
+      return error(pollResult.error, pollResult.code, {
+        ...pollResult.context,
+        metadata: { ...pollResult.context?.metadata, selector: label, operation: 'actionability', attempts }
+      });
+    }
+
+    const poll = pollResult.data;
+    if (poll?.fatal) {
+      return error(
+        poll.fatal,
+        poll.fatalKind === 'selector' ? ErrorCode.INVALID_SELECTOR : ErrorCode.TARGET_NOT_FOUND,
+        { recoveryHint: 'user_action', metadata: { selector: label, operation: 'actionability', attempts } }
+      );
+    }
+
+    if (poll?.actionable && poll.point) {
+      return ok({ point: poll.point, attempts, waitedMs: elapsedMs }, ErrorCode.OK, {
+        durationMs: elapsedMs,
+        metadata: { selector: label, operation: 'actionability', attempts }
+      });
+    }
+
+    if (poll) {
+      lastPoll = poll;
+    }
+
+    if (elapsedMs + intervalMs > timeoutMs) {
+      const check = lastPoll?.check ?? 'attached';
+      const reason = lastPoll?.reason ?? 'no result from page';
+      const code = CHECK_ERROR_CODES[check];
+      return error(
+        `Element "${label}" is not actionable: ${reason} (waited ${elapsedMs}ms, ${attempts} attempts)`,
+        code,
+        {
+          recoveryHint: code === ErrorCode.TARGET_NOT_FOUND ? 'check_target' : 'retry_with_delay',
+          durationMs: elapsedMs,
+          metadata: { selector: label, operation: 'actionability', check, reason, attempts, timeoutMs }
+        }
+      );
+    }
+
+    await sleep(intervalMs);
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Numbered element annotations for `screenshot --annotate` and `click-ref`
+ *
+ * `screenshot --annotate` takes an outline snapshot of the visible interactive
+ * elements, numbers them from 1 and draws a box with the number over each one
+ * in the capture. The legend mapping numbers to selectors is returned with the
+ * screenshot and kept in a per-user cache file, so a later `click-ref 7`
+ * clicks the element labeled 7 in the last annotated capture. The legend
+ * records the window by its id, which survives reordering, and the page URL;
+ * `click-ref` refuses to click once the window shows a different page.
+ *
+ * @example
+ * ```typescript
+ * const outline = await captureAnnotationTargets(1);
+ * // ... draw outline.data.targets over a viewport capture ...
+ * saveAnnotationLegend({ windowIndex: 1, windowId: outline.data.windowId, capturedAt: new Date().toISOString(), entries });
+ * const target = await locateAnnotationRef(7);
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import type { Rect } from '../lib/coords.js';
+import { appleScriptService } from '../services/AppleScriptService.js';
+import type { IAppleScriptService } from '../services/IAppleScriptService.js';
+import { captureOutline, formatSnapshotResult, type SnapshotNode } from './snapshot.js';
+
+export const ANNOTATION_CACHE_ENV_VARIABLE = 'MAC_CHROME_CLI_ANNOTATIONS';
+
+/**
+ * Annotation limits
+ */
+const ANNOTATION_CONSTANTS = {
+  /** Elements numbered per capture; the rest are left out of the image and legend */
+  MAX_TARGETS: 200,
+  /** Smallest width and height in CSS pixels for an element to be numbered */
+  MIN_SIZE: 1
+} as const;
+
+/**
+ * Interactive element numbered in an annotated capture
+ */
+export interface AnnotationTarget {
+  /** Number drawn on the capture, starting at 1 */
+  ref: number;
+  selector: string;
+  role: string;
+  name: string;
+  /** Element rect in top-level viewport CSS pixels */
+  rect: Rect;
+}
+
+/**
+ * Legend entry returned with an annotated screenshot
+ */
+export interface AnnotationLegendEntry {
+  ref: number;
+  selector: string;
+  role: string;
+  name: string;
+}
+
+/**
+ * Legend of the last annotated capture, as kept in the cache file
+ */
+export interface AnnotationLegend {
+  /** Window index at capture time */
+  windowIndex: number;
+  /** Stable window id; indexes change when windows are brought to the front */
+  windowId?: number;
+  url?: string;
+  title?: string;
+  capturedAt: string;
+  /** Screenshot file, when it was saved to disk */
+  path?: string;
+  entries: AnnotationLegendEntry[];
+}
+
+/**
+ * Cache file path: `$MAC_CHROME_CLI_ANNOTATIONS`, or a per-user path in the temp directory
+ */
+export function annotationCachePath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env[ANNOTATION_CACHE_ENV_VARIABLE]) {
+    return resolve(env[ANNOTATION_CACHE_ENV_VARIABLE]!);
+  }
+  const user = typeof process.getuid === 'function' ? String(process.getuid()) : (env.USER || 'user');
+  return join(tmpdir(), `mac-chrome-cli-${user}`, 'annotations.json');
+}
+
+/**
+ * Number the snapshot nodes worth annotating: elements with a size, one per
+ * selector, in document order
+ *
+ * @param nodes - Outline snapshot nodes (visible only)
+ * @returns Targets numbered from 1, at most MAX_TARGETS
+ */
+export function selectAnnotationTargets(nodes: SnapshotNode[]): AnnotationTarget[] {
+  const seen = new Set<string>();
+  const targets: AnnotationTarget[] = [];
+
+  for (const node of nodes) {
+    if (targets.length >= ANNOTATION_CONSTANTS.MAX_TARGETS) {
+      break;
+    }
+    if (!node.selector || seen.has(node.selector)) {
+      continue;
+    }
+    if (!node.rect || node.rect.w < ANNOTATION_CONSTANTS.MIN_SIZE || node.rect.h < ANNOTATION_CONSTANTS.MIN_SIZE) {
+      continue;
+    }
+    seen.add(node.selector);
+    targets.push({
+      ref: targets.length + 1,
+      selector: node.selector,
+      role: node.role,
+      name: node.name,
+      rect: { x: node.rect.x, y: node.rect.y, width: node.rect.w, height: node.rect.h }
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * Take an outline snapshot of the visible interactive elements and number them
+ *
+ * @param windowIndex - Chrome window index (1-based)
+ * @returns Numbered targets with the window id, page URL and title
+ */
+export async function captureAnnotationTargets(
+  windowIndex: number,
+  service: IAppleScriptService = appleScriptService
+): Promise<Result<{ targets: AnnotationTarget[]; windowId: number; url?: string; title?: string }, string>> {
+  const snapshot = formatSnapshotResult(await captureOutline({ visibleOnly: true, windowIndex }));
+  if ('success' in snapshot && snapshot.success === false) {
+    return error(`Failed to find elements to annotate: ${snapshot.error}`, snapshot.code, {
+      recoveryHint: 'retry',
+      metadata: { windowIndex }
+    });
+  }
+  if (!('ok' in snapshot) || !snapshot.ok) {
+    const reason = 'error' in snapshot && typeof snapshot.error === 'string' ? snapshot.error : 'snapshot failed';
+    return error(`Failed to find elements to annotate: ${reason}`, ErrorCode.JAVASCRIPT_ERROR, {
+      recoveryHint: 'retry',
+      metadata: { windowIndex }
+    });
+  }
+
+  const windows = await service.listWindows();
+  if (!windows.success) {
+    return error(`Failed to identify the annotated window: ${windows.error}`, windows.code, {
+      recoveryHint: 'retry',
+      metadata: { windowIndex }
+    });
+  }
+  const found = windows.data.find(candidate => candidate.index === windowIndex);
+  if (!found) {
+    return error(`Chrome window ${windowIndex} not found`, ErrorCode.WINDOW_NOT_FOUND, {
+      recoveryHint: 'check_target',
+      metadata: { windowIndex }
+    });
+  }
+
+  return ok({
+    targets: selectAnnotationTargets(snapshot.nodes),
+    windowId: found.id,
+    ...(snapshot.meta?.url && { url: snapshot.meta.url }),
+    ...(snapshot.meta?.title && { title: snapshot.meta.title })
+  });
+}
+
+/**
+ * Legend entries for numbered targets
+ */
+export function toLegendEntries(targets: AnnotationTarget[]): AnnotationLegendEntry[] {
+  return targets.map(({ ref, selector, role, name }) => ({ ref, selector, role, name }));
+}
+
+/**
+ * Replace the cached legend with the one from a new annotated capture
+ */
+export function saveAnnotationLegend(legend: AnnotationLegend, cacheFile: string = annotationCachePath()): Result<void, string> {
+  try {
+    mkdirSync(dirname(cacheFile), { recursive: true, mode: 0o700 });
+    writeFileSync(cacheFile, JSON.stringify(legend, null, 2));
+    return ok(undefined);
+  } catch (err) {
+    return error(`Failed to save annotation legend to ${cacheFile}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_WRITE_ERROR, {
+      recoveryHint: 'user_action',
+      metadata: { cacheFile }
+    });
+  }
+}
+
+/**
+ * The legend of the last annotated capture, or null when there is none
+ */
+export function loadAnnotationLegend(cacheFile: string = annotationCachePath()): AnnotationLegend | null {
+  if (!existsSync(cacheFile)) return null;
+  try {
+    const legend = JSON.parse(readFileSync(cacheFile, 'utf8')) as AnnotationLegend;
+    return Array.isArray(legend.entries) ? legend : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a number from the last annotated capture to its element
+ *
+ * @param ref - Number as drawn on the capture
+ * @returns The legend entry with the window and page it was captured in
+ */
+export function resolveAnnotationRef(
+  ref: number,
+  cacheFile: string = annotationCachePath()
+): Result<AnnotationLegendEntry & { windowIndex: number; windowId?: number; url?: string }, string> {
+  if (!Number.isInteger(ref) || ref < 1) {
+    return error(`Invalid annotation number: ${ref}. Must be a positive integer`, ErrorCode.INVALID_INPUT, {
+      recoveryHint: 'user_action',
+      metadata: { parameter: 'ref', provided: ref }
+    });
+  }
+
+  const legend = loadAnnotationLegend(cacheFile);
+  if (!legend) {
+    return error('No annotated capture found; run screenshot --annotate first', ErrorCode.TARGET_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { cacheFile }
+    });
+  }
+
+  const entry = legend.entries.find(candidate => candidate.ref === ref);
+  if (!entry) {
+    const count = legend.entries.length;
+    const range = count === 0 ? 'none' : count === 1 ? '1' : `1-${count}`;
+    return error(`No element numbered ${ref} in the last annotated capture (numbers: ${range})`, ErrorCode.TARGET_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { ref, count, capturedAt: legend.capturedAt }
+    });
+  }
+
+  return ok({
+    ...entry,
+    windowIndex: legend.windowIndex,
+    ...(legend.windowId !== undefined && { windowId: legend.windowId }),
+    ...(legend.url && { url: legend.url })
+  });
+}
+
+/**
+ * Resolve a number from the last annotated capture to its element in the
+ * window it was captured in (found by id), or in `windowIndex` when given
+ *
+ * @param ref - Number as drawn on the capture
+ * @param windowIndex - Window to click in instead of the annotated one
+ * @returns The legend entry with the window's current index
+ *
+ * @throws {ErrorCode.WINDOW_NOT_FOUND} When the annotated window is closed
+ * @throws {ErrorCode.ELEMENT_STALE} When the window shows a different page than the capture
+ */
+export async function locateAnnotationRef(
+  ref: number,
+  windowIndex?: number,
+  cacheFile: string = annotationCachePath(),
+  service: IAppleScriptService = appleScriptService
+): Promise<Result<AnnotationLegendEntry & { windowIndex: number }, string>> {
+  const resolved = resolveAnnotationRef(ref, cacheFile);
+  if (!resolved.success) {
+    return resolved;
+  }
+  const { windowId, url, ...entry } = resolved.data;
+
+  const windows = await service.listWindows();
+  if (!windows.success) {
+    return error(windows.error, windows.code, { recoveryHint: 'retry' });
+  }
+
+  const found = windowIndex !== undefined
+    ? windows.data.find(candidate => candidate.index === windowIndex)
+    : windowId !== undefined
+      ? windows.data.find(candidate => candidate.id === windowId)
+      : windows.data.find(candidate => candidate.index === entry.windowIndex);
+  if (!found) {
+    const target = windowIndex ?? (windowId !== undefined ? `id:${windowId}` : entry.windowIndex);
+    return error(`Chrome window ${target} not found; run screenshot --annotate again`, ErrorCode.WINDOW_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { window: target }
+    });
+  }
+
+  if (url && found.url !== url) {
+    return error(
+      `The window shows ${found.url || 'no page'}, not the annotated ${url}; run screenshot --annotate again`,
+      ErrorCode.ELEMENT_STALE,
+      { recoveryHint: 'user_action', metadata: { ref, annotatedUrl: url, currentUrl: found.url } }
+    );
+  }
+
+  return ok({ ...entry, windowIndex: found.index });
+}
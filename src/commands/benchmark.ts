@@ -353,7 +353,8 @@ export function createBenchmarkCommand(): Command {
         const iterations = parseInt(options.iterations);
         if (isNaN(iterations) || iterations < 1) {
           console.error('Error: iterations must be a positive number');
-          process.exit(1);
+          process.exitCode = 1;
+          return;
         }
         
         const suite = await runBenchmarkSuite(iterations);
@@ -388,7 +389,7 @@ export function createBenchmarkCommand(): Command {
         } else {
           console.error(`Benchmark failed: ${error}`);
         }
-        process.exit(1);
+        process.exitCode = 1;
       }
     });
   
@@ -504,7 +505,7 @@ export function createBenchmarkCommand(): Command {
         } else {
           console.error(`Memory command failed: ${error}`);
         }
-        process.exit(1);
+        process.exitCode = 1;
       }
     });
 
@@ -518,7 +519,8 @@ export function createBenchmarkCommand(): Command {
         const count = parseInt(options.count);
         if (isNaN(count) || count < 1) {
           console.error('Error: count must be a positive number');
-          process.exit(1);
+          process.exitCode = 1;
+          return;
         }
 
         console.log(`\nTesting batch operations with ${count} operations...`);
@@ -575,7 +577,7 @@ export function createBenchmarkCommand(): Command {
         } else {
           console.error(`Batch test failed: ${error}`);
         }
-        process.exit(1);
+        process.exitCode = 1;
       }
     });
   
@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Inspect and edit persistent configuration
+ *
+ * Configuration is layered: built-in defaults, the user file
+ * (`~/.config/mac-chrome-cli/config.json`), the nearest project `.macchromerc`,
+ * the selected profile and `MAC_CHROME_CLI_*` environment variables. These
+ * commands show the effective values with the layer each came from, set values
+ * in either file and validate files against the configuration schema.
+ *
+ * @example
+ * ```typescript
+ * await setConfig('timeout', '60000', { scope: 'project', profile: 'ci' });
+ * const value = await getConfig('timeout', { profile: 'ci' });
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import * as path from 'path';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { expandPath } from '../lib/util.js';
+import {
+  PROJECT_CONFIG_FILENAME,
+  findProjectConfig,
+  loadConfiguration,
+  readConfigFile,
+  userConfigPath,
+  validateConfigFile,
+  writeConfigValue,
+  type ConfigDiscoveryOptions,
+  type ConfigLayer
+} from '../di/services/ConfigurationLoader.js';
+import {
+  envVariableForKey,
+  getSchemaNode,
+  listConfigurationKeys,
+  parseConfigValue,
+  type ConfigValidationIssue
+} from '../di/services/ConfigurationSchema.js';
+
+export type ConfigScope = 'user' | 'project';
+
+/**
+ * Where a value came from: `defaults`, `env`, or a file path with an optional profile
+ */
+export interface ConfigValueSource {
+  source: ConfigLayer['source'];
+  path?: string;
+  profile?: string;
+}
+
+export interface ConfigGetResult {
+  key: string;
+  value: unknown;
+  from: ConfigValueSource;
+}
+
+export interface ConfigListEntry extends ConfigGetResult {
+  env: string;
+}
+
+export interface ConfigListResult {
+  profile?: string;
+  userPath: string;
+  projectPath?: string;
+  entries: ConfigListEntry[];
+}
+
+export interface ConfigSetOptions extends ConfigDiscoveryOptions {
+  /** File to write: the user file (default) or the project `.macchromerc` */
+  scope?: ConfigScope;
+}
+
+export interface ConfigSetResult {
+  key: string;
+  value: unknown;
+  path: string;
+  profile?: string;
+}
+
+export interface ConfigFileValidation {
+  path: string;
+  exists: boolean;
+  valid: boolean;
+  issues: ConfigValidationIssue[];
+  error?: string;
+}
+
+export interface ConfigValidateResult {
+  valid: boolean;
+  files: ConfigFileValidation[];
+}
+
+function lookup(values: unknown, keyPath: string): unknown {
+  let current = values;
+  for (const key of keyPath.split('.')) {
+    if (!current || typeof current !== 'object' || !(key in current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function sourceOf(layers: ConfigLayer[], keyPath: string): ConfigValueSource {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const layer = layers[i]!;
+    if (lookup(layer.values, keyPath) !== undefined) {
+      return {
+        source: layer.source,
+        ...(layer.path && { path: layer.path }),
+        ...(layer.profile && { profile: layer.profile })
+      };
+    }
+  }
+  return { source: 'defaults' };
+}
+
+function unknownKey(key: string): Result<never, string> {
+  return ErrorUtils.validationError(
+    `Unknown configuration key: ${key}. Known keys: ${listConfigurationKeys().join(', ')}`,
+    'key',
+    key
+  );
+}
+
+/**
+ * Get the effective value of one key (a leaf like `networkMonitoring.maxEvents` or a section like `logging`)
+ */
+export async function getConfig(key: string, options: ConfigDiscoveryOptions = {}): Promise<Result<ConfigGetResult, string>> {
+  if (!getSchemaNode(key)) {
+    return unknownKey(key);
+  }
+
+  const loaded = await loadConfiguration(options);
+  if (!loaded.success) {
+    return error(loaded.error, loaded.code, loaded.context);
+  }
+
+  return ok({ key, value: lookup(loaded.data.config, key), from: sourceOf(loaded.data.layers, key) });
+}
+
+/**
+ * List every effective value with its source and environment variable
+ */
+export async function listConfig(options: ConfigDiscoveryOptions = {}): Promise<Result<ConfigListResult, string>> {
+  const loaded = await loadConfiguration(options);
+  if (!loaded.success) {
+    return error(loaded.error, loaded.code, loaded.context);
+  }
+
+  const { config, layers, profile, userPath, projectPath } = loaded.data;
+  return ok({
+    ...(profile && { profile }),
+    userPath,
+    ...(projectPath && { projectPath }),
+    entries: listConfigurationKeys().map(key => ({
+      key,
+      value: lookup(config, key),
+      from: sourceOf(layers, key),
+      env: envVariableForKey(key)
+    }))
+  });
+}
+
+/**
+ * Set a key in the user or project config file, inside `profile` when given.
+ * The value is parsed for the key's type: numbers, true/false, or JSON for sections.
+ */
+export async function setConfig(key: string, rawValue: string, options: ConfigSetOptions = {}): Promise<Result<ConfigSetResult, string>> {
+  if (!getSchemaNode(key)) {
+    return unknownKey(key);
+  }
+
+  let value: unknown;
+  try {
+    value = parseConfigValue(key, rawValue);
+  } catch (err) {
+    return ErrorUtils.validationError(err instanceof Error ? err.message : String(err), key, rawValue);
+  }
+
+  const filePath = options.scope === 'project'
+    ? findProjectConfig(options.cwd) ?? path.join(path.resolve(options.cwd ?? process.cwd()), PROJECT_CONFIG_FILENAME)
+    : userConfigPath(options);
+
+  const written = await writeConfigValue(filePath, key, value, options.profile);
+  if (!written.success) {
+    return error(written.error, written.code, written.context);
+  }
+
+  return ok({ key, value, path: filePath, ...(options.profile && { profile: options.profile }) });
+}
+
+/**
+ * Validate config files against the schema: the given file, or the user and project files in use.
+ * Invalid files are reported in the result (`valid: false`), not as an error.
+ */
+export async function validateConfig(file?: string, options: ConfigDiscoveryOptions = {}): Promise<Result<ConfigValidateResult, string>> {
+  const paths = file
+    ? [expandPath(file, true)]
+    : [userConfigPath(options), findProjectConfig(options.cwd)].filter((candidate): candidate is string => Boolean(candidate));
+
+  const files: ConfigFileValidation[] = [];
+  for (const filePath of paths) {
+    const content = await readConfigFile(filePath);
+    if (!content.success) {
+      files.push({ path: filePath, exists: true, valid: false, issues: [], error: content.error });
+      continue;
+    }
+    if (content.data === undefined) {
+      if (file) {
+        return error(`Config file not found: ${file}`, ErrorCode.FILE_NOT_FOUND, {
+          recoveryHint: 'user_action',
+          metadata: { path: filePath }
+        });
+      }
+      files.push({ path: filePath, exists: false, valid: true, issues: [] });
+      continue;
+    }
+
+    const issues = validateConfigFile(content.data);
+    files.push({ path: filePath, exists: true, valid: issues.length === 0, issues });
+  }
+
+  return ok({ valid: files.every(entry => entry.valid), files });
+}
+
+function describeSource(from: ConfigValueSource): string {
+  const origin = from.path ? `${from.source} ${from.path}` : from.source;
+  return from.profile ? `${origin} [profile ${from.profile}]` : origin;
+}
+
+/**
+ * Format `config list` output
+ */
+export function formatConfigList(result: ConfigListResult): string {
+  const lines = [
+    `Profile: ${result.profile ?? '(none)'}`,
+    `User config: ${result.userPath}`,
+    `Project config: ${result.projectPath ?? '(none found)'}`,
+    ''
+  ];
+  const width = Math.max(...result.entries.map(entry => entry.key.length));
+  for (const entry of result.entries) {
+    lines.push(`${entry.key.padEnd(width)}  ${JSON.stringify(entry.value)}  (${describeSource(entry.from)})`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format `config validate` output
+ */
+export function formatConfigValidation(result: ConfigValidateResult): string {
+  if (result.files.length === 0) {
+    return 'No config files found';
+  }
+  return result.files.map(entry => {
+    if (!entry.exists) return `- ${entry.path}: not present`;
+    if (entry.error) return `❌ ${entry.path}: ${entry.error}`;
+    if (entry.valid) return `✅ ${entry.path}`;
+    return [`❌ ${entry.path}`, ...entry.issues.map(issue => `    ${issue.path} ${issue.message}`)].join('\n');
+  }).join('\n');
+}
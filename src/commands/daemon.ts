@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Start, stop and inspect the background daemon
+ *
+ * The daemon is a long-lived mac-chrome-cli process that listens on a Unix
+ * domain socket and runs commands sent as JSON-RPC requests, so the service
+ * container, cache, rate limiter and AppleScript caches survive between
+ * invocations. While it runs, the CLI forwards invocations to it (except
+ * `daemon`, `config` and `netlog tail`, or with `--no-daemon`).
+ *
+ * @example
+ * ```typescript
+ * await startDaemon();
+ * const status = await getDaemonStatus();
+ * await stopDaemon();
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { sleep } from '../lib/util.js';
+import { callDaemon } from '../daemon/DaemonClient.js';
+import { DaemonServer } from '../daemon/DaemonServer.js';
+import {
+  SOCKET_ENV_VARIABLE,
+  defaultSocketPath,
+  type DaemonStatus,
+  type InvocationEnvironment,
+  type InvocationRunner
+} from '../daemon/DaemonProtocol.js';
+import type { CommandMethod, CommandMethodOption } from '../daemon/CommandMethods.js';
+
+export { callDaemon, type DaemonCallOptions } from '../daemon/DaemonClient.js';
+
+export interface DaemonOptions {
+  socketPath?: string;
+}
+
+export interface DaemonStartOptions extends DaemonOptions {
+  /** Configuration profile for the daemon process */
+  profile?: string;
+  /** How long to wait for the daemon to answer (default 10000ms) */
+  timeoutMs?: number;
+}
+
+export type DaemonStatusResult =
+  | { running: false; socketPath: string }
+  | ({ running: true } & DaemonStatus);
+
+export interface DaemonStartResult extends DaemonStatus {
+  alreadyRunning: boolean;
+  logFile?: string;
+}
+
+export interface DaemonServeOptions extends DaemonOptions {
+  runner: InvocationRunner;
+  methods: CommandMethod[];
+  globalOptions?: CommandMethodOption[];
+  /** Environment the runner's services were built from; forwarded invocations must match it */
+  environment?: InvocationEnvironment;
+}
+
+/**
+ * Report whether a daemon answers on the socket
+ */
+export async function getDaemonStatus(options: DaemonOptions = {}): Promise<Result<DaemonStatusResult, string>> {
+  const socketPath = options.socketPath ?? defaultSocketPath();
+  const status = await callDaemon<DaemonStatus>('daemon.status', {}, { socketPath, connectTimeoutMs: 500 });
+  if (!status.success) {
+    return status.code === ErrorCode.TARGET_NOT_FOUND || status.code === ErrorCode.TIMEOUT
+      ? ok({ running: false, socketPath })
+      : error(status.error, status.code, status.context);
+  }
+  return ok({ running: true, ...status.data });
+}
+
+/**
+ * Start the daemon in the background and wait until it answers
+ *
+ * @throws {ErrorCode.TIMEOUT} When the daemon does not answer in time
+ * @throws {ErrorCode.UNKNOWN_ERROR} When the daemon process exits during startup
+ */
+export async function startDaemon(options: DaemonStartOptions = {}): Promise<Result<DaemonStartResult, string>> {
+  const socketPath = options.socketPath ?? defaultSocketPath();
+  const current = await getDaemonStatus({ socketPath });
+  if (current.success && current.data.running) {
+    const { running: _running, ...status } = current.data;
+    return ok({ ...status, alreadyRunning: true });
+  }
+
+  const script = process.argv[1];
+  if (!script) {
+    return error('Cannot determine the CLI entry point to start the daemon', ErrorCode.UNKNOWN_ERROR);
+  }
+
+  fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+  const logFile = path.join(path.dirname(socketPath), 'daemon.log');
+  const log = fs.openSync(logFile, 'a');
+
+  const child = spawn(process.execPath, [
+    ...process.execArgv,
+    script,
+    ...(options.profile ? ['--profile', options.profile] : []),
+    'daemon',
+    'start',
+    '--foreground'
+  ], {
+    detached: true,
+    stdio: ['ignore', log, log],
+    env: { ...process.env, [SOCKET_ENV_VARIABLE]: socketPath }
+  });
+  fs.closeSync(log);
+
+  let exitCode: number | null = null;
+  child.once('exit', code => {
+    exitCode = code ?? 1;
+  });
+  child.unref();
+
+  const deadline = Date.now() + (options.timeoutMs ?? 10000);
+  while (Date.now() < deadline) {
+    await sleep(100);
+    if (exitCode !== null) {
+      return error(`Daemon exited during startup with code ${exitCode}; see ${logFile}`, ErrorCode.UNKNOWN_ERROR, {
+        metadata: { logFile }
+      });
+    }
+    const status = await getDaemonStatus({ socketPath });
+    if (status.success && status.data.running) {
+      const { running: _running, ...details } = status.data;
+      return ok({ ...details, alreadyRunning: false, logFile });
+    }
+  }
+
+  return error(`Daemon did not answer on ${socketPath} within ${options.timeoutMs ?? 10000}ms; see ${logFile}`, ErrorCode.TIMEOUT, {
+    recoveryHint: 'retry',
+    metadata: { logFile, pid: child.pid }
+  });
+}
+
+/**
+ * Ask the daemon to shut down
+ *
+ * @throws {ErrorCode.TARGET_NOT_FOUND} When no daemon is running
+ */
+export async function stopDaemon(options: DaemonOptions = {}): Promise<Result<{ stopped: true; pid: number; socketPath: string }, string>> {
+  const socketPath = options.socketPath ?? defaultSocketPath();
+  const result = await callDaemon<{ pid: number }>('daemon.stop', {}, { socketPath, connectTimeoutMs: 500 });
+  if (!result.success) {
+    return result.code === ErrorCode.TARGET_NOT_FOUND || result.code === ErrorCode.TIMEOUT
+      ? error(`Daemon is not running (socket ${socketPath})`, ErrorCode.TARGET_NOT_FOUND, { recoveryHint: 'user_action' })
+      : error(result.error, result.code, result.context);
+  }
+  return ok({ stopped: true, pid: result.data.pid, socketPath });
+}
+
+/**
+ * Run the daemon server in this process; resolves to the listening server
+ */
+export async function serveDaemon(options: DaemonServeOptions): Promise<Result<DaemonServer, string>> {
+  const server = new DaemonServer({
+    socketPath: options.socketPath ?? defaultSocketPath(),
+    runner: options.runner,
+    methods: options.methods,
+    ...(options.globalOptions && { globalOptions: options.globalOptions }),
+    ...(options.environment && { environment: options.environment })
+  });
+
+  try {
+    await server.start();
+  } catch (err) {
+    return error(`Failed to start daemon: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.UNKNOWN_ERROR, {
+      recoveryHint: 'user_action'
+    });
+  }
+  return ok(server);
+}
+
+/**
+ * Format `daemon status` output
+ */
+export function formatDaemonStatus(status: DaemonStatusResult): string {
+  if (!status.running) {
+    return `Daemon is not running (socket ${status.socketPath})`;
+  }
+  return [
+    `Daemon running (pid ${status.pid})`,
+    `  Socket:   ${status.socketPath}`,
+    `  Started:  ${status.startedAt} (${Math.round(status.uptimeMs / 1000)}s ago)`,
+    `  Requests: ${status.requests}`,
+    `  Methods:  ${status.methods}`
+  ].join('\n');
+}
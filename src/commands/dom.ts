@@ -25,8 +25,14 @@
 
 import { execChromeJS, type JavaScriptResult } from '../lib/apple.js';
 import { ERROR_CODES, validateInput, formatJSONResult, type JSONResult } from '../lib/util.js';
+import { getDeepQueryScript, deepQueryExpression } from '../lib/deep-query.js';
 import { error } from '../core/Result.js';
 
+/**
+ * Default limit for serialized evaluation results (1MB)
+ */
+const DOM_EVAL_MAX_RESULT_SIZE = 1048576;
+
 /**
  * Configuration options for DOM JavaScript evaluation.
  * 
@@ -50,6 +56,13 @@ export interface DOMEvalOptions {
   windowIndex?: number;
   /** Execution timeout in milliseconds (default: 10000) */
   timeout?: number;
+  /**
+   * Same-origin iframe to evaluate in, as a CSS selector; use `>>>` to reach
+   * nested frames or frames inside shadow roots (`iframe#outer >>> iframe#pay`)
+   */
+  frame?: string;
+  /** Largest serialized result in bytes; longer results are cut to this size (default: 1048576) */
+  maxSize?: number;
 }
 
 /**
@@ -140,6 +153,16 @@ const DANGEROUS_PATTERNS = [
   /\bexport\s+/,
 ];
 
+/**
+ * Check JavaScript source against the blocked pattern list.
+ * 
+ * @param js - JavaScript source to check
+ * @returns True if the source contains a blocked pattern
+ */
+export function containsDangerousPatterns(js: string): boolean {
+  return DANGEROUS_PATTERNS.some(pattern => pattern.test(js));
+}
+
 /**
  * Executes arbitrary JavaScript code in the browser page context with security validation.
  * 
@@ -200,13 +223,19 @@ const DANGEROUS_PATTERNS = [
  *   js: 'window.location.href',
  *   tabIndex: 2
  * });
+ * 
+ * // Evaluate inside a same-origin iframe
+ * const frameResult = await domEval({
+ *   js: 'document.querySelector("input[name=card]").value',
+ *   frame: 'iframe#pay'
+ * });
  * ```
  * 
  * @security This function blocks dangerous JavaScript patterns but should still
  * be used with caution. Only execute trusted JavaScript code.
  */
 export async function domEval(options: DOMEvalOptions): Promise<JavaScriptResult<DOMEvalData>> {
-  const { js, tabIndex = 1, windowIndex = 1, timeout = 10000 } = options;
+  const { js, tabIndex = 1, windowIndex = 1, timeout = 10000, frame, maxSize = DOM_EVAL_MAX_RESULT_SIZE } = options;
 
   // Validate input
   if (!validateInput(js, 'string') || js.trim().length === 0) {
@@ -217,18 +246,53 @@ export async function domEval(options: DOMEvalOptions): Promise<JavaScriptResult
   }
 
   // Security validation - check for dangerous patterns
-  for (const pattern of DANGEROUS_PATTERNS) {
-    if (pattern.test(js)) {
-      return error(
-        'JavaScript contains dangerous patterns and cannot be executed',
-        ERROR_CODES.INVALID_INPUT
-      );
+  if (containsDangerousPatterns(js)) {
+    return error(
+      'JavaScript contains dangerous patterns and cannot be executed',
+      ERROR_CODES.INVALID_INPUT
+    );
+  }
+
+  if (!Number.isInteger(maxSize) || maxSize < 1) {
+    return error(
+      `Invalid maxSize: ${maxSize}. Must be a positive integer`,
+      ERROR_CODES.INVALID_INPUT
+    );
+  }
+
+  if (frame !== undefined && (!validateInput(frame, 'string') || frame.trim().length === 0)) {
+    return error(
+      'Frame selector cannot be empty',
+      ERROR_CODES.INVALID_INPUT
+    );
+  }
+
+  // Evaluate in the frame's global scope when a frame is given
+  const frameLookup = frame ? `
+  ${getDeepQueryScript()}
+
+  let frameWindow;
+  try {
+    const frameElement = ${deepQueryExpression(frame)};
+    if (!frameElement) {
+      return JSON.stringify({ frameError: 'Frame not found: ' + ${JSON.stringify(frame)} });
+    }
+    if (frameElement.tagName !== 'IFRAME' && frameElement.tagName !== 'FRAME') {
+      return JSON.stringify({ frameError: ${JSON.stringify(frame)} + ' is not an iframe' });
     }
+    if (!frameDocument(frameElement)) {
+      return JSON.stringify({ frameError: 'Cannot evaluate in cross-origin frame ' + ${JSON.stringify(frame)} });
+    }
+    frameWindow = frameElement.contentWindow;
+  } catch (e) {
+    return JSON.stringify({ frameError: e.message });
   }
+` : '';
 
   // Wrap the user's JavaScript with error handling and timing
   const wrappedJS = `
 (() => {
+  ${frameLookup}
   const startTime = performance.now();
   const timestamp = new Date().toISOString();
   let result, error, success = true;
@@ -237,7 +301,7 @@ export async function domEval(options: DOMEvalOptions): Promise<JavaScriptResult
     // Execute user's JavaScript in a controlled context
     // Try to evaluate as expression first, then as statement with return
     result = (function() {
-      return eval(${JSON.stringify(js)});
+      return ${frame ? 'frameWindow.eval' : 'eval'}(${JSON.stringify(js)});
     })();
   } catch (e) {
     error = e.message;
@@ -261,11 +325,11 @@ export async function domEval(options: DOMEvalOptions): Promise<JavaScriptResult
   }
   
   const resultSize = serialized.length;
-  const truncated = resultSize > 1048576; // 1MB limit
+  const truncated = resultSize > ${maxSize};
   
   return JSON.stringify({
     success,
-    result: success ? result : undefined,
+    result: success ? (truncated ? serialized.slice(0, ${maxSize}) : result) : undefined,
     error: success ? undefined : error,
     executionTimeMs,
     timestamp,
@@ -286,6 +350,7 @@ export async function domEval(options: DOMEvalOptions): Promise<JavaScriptResult
     }
 
     const evalResult = jsResult.data as {
+      frameError?: string;
       success: boolean;
       result?: unknown;
       error?: string;
@@ -295,6 +360,10 @@ export async function domEval(options: DOMEvalOptions): Promise<JavaScriptResult
       truncated: boolean;
     };
 
+    if (evalResult.frameError) {
+      return error(evalResult.frameError, ERROR_CODES.TARGET_NOT_FOUND);
+    }
+
     return {
       success: true,
       data: {
@@ -1,5 +1,6 @@
 import { execChromeJS, escapeAppleScriptString } from '../lib/apple.js';
-import { expandPath, validateInput, sleep, escapeCSSSelector, ERROR_CODES, type ErrorCode } from '../lib/util.js';
+import { expandPath, validateInput, sleep, ERROR_CODES, type ErrorCode } from '../lib/util.js';
+import { getDeepQueryScript, deepQueryExpression } from '../lib/deep-query.js';
 import { SecurePathValidator } from '../security/PathValidator.js';
 import { appleScriptService } from '../services/AppleScriptService.js';
 import { Result } from '../core/index.js';
@@ -127,7 +128,9 @@ function parseMultipleFiles(paths: string): string[] {
 async function verifyFileInput(selector: string): Promise<{ exists: boolean; error?: string }> {
   const checkScript = `
 (function() {
-  const element = document.querySelector('${escapeCSSSelector(selector)}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (!element) {
     return { exists: false, error: 'Element not found' };
   }
@@ -311,7 +314,9 @@ export async function uploadFiles(options: FileUploadOptions): Promise<LegacyFil
     // Step 1: Click the file input to open the dialog
     const clickScript = `
 (function() {
-  const element = document.querySelector('${escapeCSSSelector(selector)}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (element) {
     element.click();
     return true;
@@ -424,7 +429,9 @@ end tell`;
     // Step 4: Verify upload success by checking if the input has files
     const verifyScript = `
 (function() {
-  const element = document.querySelector('${escapeCSSSelector(selector)}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (element && element.files) {
     return {
       fileCount: element.files.length,
@@ -595,7 +602,9 @@ export async function dragDropFiles(options: FileUploadOptions): Promise<LegacyF
   // Create synthetic drag and drop event
   const dragDropScript = `
 (function() {
-  const dropzone = document.querySelector('${escapeCSSSelector(selector)}');
+  ${getDeepQueryScript()}
+
+  const dropzone = ${deepQueryExpression(selector)};
   if (!dropzone) {
     return { success: false, error: 'Dropzone element not found' };
   }
@@ -13,4 +13,19 @@ export * from './scroll.js';
 export * from './files.js';
 export * from './netlog.js';
 export * from './benchmark.js';
-export * from './navigation.js';
\ No newline at end of file
+export * from './navigation.js';
+export * from './run.js';
+export * from './snapshot-diff.js';
+export * from './screenshot-compare.js';
+export * from './a11y.js';
+export * from './netlog-stats.js';
+export * from './sanitize.js';
+export * from './config.js';
+export * from './daemon.js';
+export * from './mcp.js';
+export * from './trace.js';
+export * from './locator.js';
+export * from './actionability.js';
+export * from './window.js';
+export * from './record.js';
+export * from './annotate.js';
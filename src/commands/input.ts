@@ -8,6 +8,7 @@
  * 
  * Key Features:
  * - Form element validation (input, textarea, contentEditable)
+ * - Auto-waiting until the field is visible, stable, enabled, editable and not covered
  * - Element state validation (disabled/readonly checking)
  * - Click-to-focus workflow with mouse service integration
  * - Optional content clearing with keyboard service
@@ -47,8 +48,11 @@ import { ErrorCode, getErrorInfo } from '../core/ErrorCodes.js';
 import { type RecoveryStrategy } from '../core/Result.js';
 import { MouseCommand } from './mouse.js';
 import { KeyboardCommand } from './keyboard.js';
+import { resolveTargetSelector, restoreLocator } from './locator.js';
+import { waitForActionable } from './actionability.js';
 import { validateElementVisibility } from '../lib/coords.js';
 import { execChromeJS } from '../lib/apple.js';
+import { getDeepQueryScript, deepQueryExpression } from '../lib/deep-query.js';
 import { 
   getInputValue,
   submitForm
@@ -77,6 +81,10 @@ export interface InputOptions {
   offsetX?: number;
   /** Y offset from element center for mouse click (when focusing) */
   offsetY?: number;
+  /** Maximum time to wait for the element to become actionable in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Skip actionability checks before focusing the element */
+  force?: boolean;
 }
 
 /**
@@ -276,17 +284,43 @@ export class InputCommand extends BrowserCommandBase {
    * });
    * ```
    */
-  async fill(options: InputOptions): Promise<Result<InputCommandData, string>> {
+  async fill(requested: InputOptions): Promise<Result<InputCommandData, string>> {
     const startTime = Date.now();
     
     // Validate options first
-    const validationResult = this.validateFillOptions(options);
+    const validationResult = this.validateFillOptions(requested);
     if (!validationResult.success) {
       return validationResult as Result<InputCommandData, string>;
     }
+
+    const target = await this.resolveTarget(requested.selector, requested.windowIndex || 1, 'fill');
+    if (!target.success) {
+      return target;
+    }
+    const options = { ...requested, selector: target.data };
     
-    return this.executeBrowserCommand(async () => {
-      // Step 1: Comprehensive form element validation
+    const fillResult = await this.executeBrowserCommand(async () => {
+      // Step 1: Wait until the field can be clicked and edited
+      if (!options.force) {
+        const actionable = await waitForActionable(options.selector, {
+          windowIndex: options.windowIndex || 1,
+          editable: true,
+          label: requested.selector,
+          ...(options.offsetX !== undefined && { offsetX: options.offsetX }),
+          ...(options.offsetY !== undefined && { offsetY: options.offsetY }),
+          ...(options.timeoutMs !== undefined && { timeoutMs: options.timeoutMs })
+        });
+        if (!actionable.success) {
+          throw this.createCustomError(
+            actionable.error,
+            actionable.code,
+            this.determineInputRecoveryStrategy(actionable.code),
+            { ...actionable.context?.metadata, selector: requested.selector, step: 'actionability' }
+          );
+        }
+      }
+
+      // Step 2: Comprehensive form element validation
       const formValidation = await this.validateFormElement(options.selector, options.windowIndex || 1);
       if (!formValidation.success) {
         const err = new Error(formValidation.error || 'Form element validation failed') as Error & { errorCode: number };
@@ -296,7 +330,7 @@ export class InputCommand extends BrowserCommandBase {
       
       const elementValidation = formValidation.data!;
       
-      // Step 2: Element visibility and interactability validation
+      // Step 3: Element visibility and interactability validation
       const visibilityResult = await validateElementVisibility(
         options.selector,
         options.windowIndex || 1
@@ -329,10 +363,11 @@ export class InputCommand extends BrowserCommandBase {
         );
       }
       
-      // Step 3: Click to focus using mouse service
+      // Step 4: Click to focus using mouse service (actionability was checked in step 1)
       const focusResult = await this.mouseCommand.click({
         selector: options.selector,
         windowIndex: options.windowIndex || 1,
+        force: true,
         ...(options.offsetX !== undefined && { offsetX: options.offsetX }),
         ...(options.offsetY !== undefined && { offsetY: options.offsetY })
       });
@@ -346,7 +381,7 @@ export class InputCommand extends BrowserCommandBase {
         );
       }
       
-      // Step 4: Clear field if requested (default: true)
+      // Step 5: Clear field if requested (default: true)
       let wasCleared = false;
       if (options.clear !== false) {
         const clearResult = await this.keyboardCommand.clear(options.windowIndex || 1);
@@ -358,7 +393,7 @@ export class InputCommand extends BrowserCommandBase {
         }
       }
       
-      // Step 5: Input text using keyboard service based on method
+      // Step 6: Input text using keyboard service based on method
       let inputMethod: 'type' | 'paste' = 'type';
       let keyboardResult;
       
@@ -369,7 +404,8 @@ export class InputCommand extends BrowserCommandBase {
         keyboardResult = await this.keyboardCommand.type({
           text: options.value,
           speed: options.speed || 50,
-          windowIndex: options.windowIndex || 1
+          windowIndex: options.windowIndex || 1,
+          ...(options.maskSecret && { maskSecret: true })
         });
         inputMethod = 'type'; // Actually typed due to paste limitations
       } else {
@@ -377,7 +413,8 @@ export class InputCommand extends BrowserCommandBase {
         keyboardResult = await this.keyboardCommand.type({
           text: options.value,
           speed: options.speed || 50,
-          windowIndex: options.windowIndex || 1
+          windowIndex: options.windowIndex || 1,
+          ...(options.maskSecret && { maskSecret: true })
         });
         inputMethod = 'type';
       }
@@ -424,6 +461,7 @@ export class InputCommand extends BrowserCommandBase {
       
       return inputData;
     }, 'input_fill');
+    return restoreLocator(fillResult, requested.selector, options.selector);
   }
   
   /**
@@ -481,16 +519,22 @@ export class InputCommand extends BrowserCommandBase {
    * }
    * ```
    */
-  async getValue(options: InputValueOptions): Promise<Result<InputCommandData, string>> {
+  async getValue(requested: InputValueOptions): Promise<Result<InputCommandData, string>> {
     const startTime = Date.now();
     
     // Validate options
-    const validationResult = this.validateValueOptions(options);
+    const validationResult = this.validateValueOptions(requested);
     if (!validationResult.success) {
       return validationResult as Result<InputCommandData, string>;
     }
+
+    const target = await this.resolveTarget(requested.selector, requested.windowIndex || 1, 'get_value');
+    if (!target.success) {
+      return target;
+    }
+    const options = { ...requested, selector: target.data };
     
-    return this.executeBrowserCommand(async () => {
+    const valueResult = await this.executeBrowserCommand(async () => {
       const libResult = await getInputValue(
         options.selector,
         options.windowIndex || 1
@@ -517,6 +561,7 @@ export class InputCommand extends BrowserCommandBase {
       
       return inputData;
     }, 'input_get_value');
+    return restoreLocator(valueResult, requested.selector, options.selector);
   }
   
   /**
@@ -629,7 +674,9 @@ export class InputCommand extends BrowserCommandBase {
     try {
       const javascript = `
 (function() {
-  const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (!element) {
     return { error: 'Element not found' };
   }
@@ -672,7 +719,7 @@ export class InputCommand extends BrowserCommandBase {
   }
   
   // Check if element can be focused
-  const computedStyle = window.getComputedStyle(element);
+  const computedStyle = elementWindow(element).getComputedStyle(element);
   const focusable = !disabled && !readonly && 
     computedStyle.display !== 'none' && 
     computedStyle.visibility !== 'hidden' &&
@@ -749,6 +796,22 @@ export class InputCommand extends BrowserCommandBase {
    * @param errorCode Error code from operation
    * @returns Recovery strategy
    */
+  /**
+   * Resolve a text, role or XPath locator to the element's CSS selector once
+   * 
+   * @private
+   */
+  private async resolveTarget(selector: string, windowIndex: number, operation: string): Promise<Result<string, string>> {
+    const resolved = await resolveTargetSelector(selector, windowIndex);
+    if (!resolved.success) {
+      return error(resolved.error, resolved.code, {
+        recoveryHint: this.determineInputRecoveryStrategy(resolved.code),
+        metadata: { selector, operation }
+      });
+    }
+    return resolved;
+  }
+
   private determineInputRecoveryStrategy(errorCode: ErrorCode): RecoveryStrategy {
     const errorInfo = getErrorInfo(errorCode);
     
@@ -61,6 +61,8 @@ export interface KeyboardOptions {
   repeat?: number;
   /** Chrome window index to focus (defaults to 1) */
   windowIndex?: number;
+  /** Caption typed text as asterisks in recordings */
+  maskSecret?: boolean;
 }
 
 /**
@@ -638,6 +640,7 @@ export class KeyboardCommand extends BrowserCommandBase {
       ...(options.speed && { speed: options.speed }),
       ...(options.clear !== undefined && { clear: options.clear }),
       ...(options.repeat && { repeat: options.repeat }),
+      ...(options.maskSecret && { maskSecret: true }),
       windowIndex: options.windowIndex || 1
     };
   }
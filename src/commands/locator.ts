@@ -0,0 +1,291 @@
+/**
+ * @fileoverview In-page resolution of text, role, XPath and other locators
+ *
+ * Targeting commands accept a locator wherever they accept a CSS selector
+ * (`click "role=button[name=\"Submit\"]"`, `fill "label=Email" me@example.com`,
+ * `screenshot --selector "testid=chart >> nth=1"`). The locator is resolved in
+ * the page once: the first match is marked with a `data-mac-chrome-cli-target`
+ * attribute and every later step of the command (scrolling, visibility checks,
+ * `selectorToScreen`) addresses it by that attribute. Plain CSS selectors are
+ * passed through without a round trip.
+ *
+ * Roles and accessible names are computed by the same helpers the snapshot
+ * commands use, so `role=` matches what `snapshot outline` reports. Every
+ * engine also searches open shadow roots and same-origin iframes.
+ *
+ * @example
+ * ```typescript
+ * const target = await resolveTargetSelector('text=Sign in >> nth=0');
+ * if (target.success) {
+ *   await selectorToScreen(target.data);
+ * }
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { execChromeJS } from '../lib/apple.js';
+import { isLocator, parseLocator, splitPierceSelector, type LocatorPart } from '../lib/locator.js';
+import { getSnapshotHelperScripts } from './snapshot.js';
+
+/** Attribute marking the element a locator resolved to */
+export const LOCATOR_TARGET_ATTRIBUTE = 'data-mac-chrome-cli-target';
+
+/** Marks older than this are removed the next time a locator is resolved */
+const TARGET_MARK_TTL_MS = 60000;
+
+/**
+ * Element a locator resolved to
+ */
+export interface ResolvedLocator {
+  /** Locator as given */
+  locator: string;
+  /** CSS selector addressing the marked element */
+  selector: string;
+  /** Number of elements the locator matched; the first is used */
+  matches: number;
+  element: {
+    tagName: string;
+    role: string;
+    name: string;
+  };
+}
+
+interface LocatorScriptResult {
+  matches: number;
+  token?: string;
+  element?: ResolvedLocator['element'];
+  error?: string;
+}
+
+/**
+ * Browser-side locator engine. Evaluates the parts in order, each inside the
+ * matches of the previous one, and marks the first final match.
+ */
+export function generateLocatorScript(parts: LocatorPart[]): string {
+  return `
+(function() {
+  ${getSnapshotHelperScripts()}
+
+  const ATTRIBUTE = ${JSON.stringify(LOCATOR_TARGET_ATTRIBUTE)};
+  const parts = ${JSON.stringify(parts.map(part => part.engine === 'css' ? { ...part, segments: splitPierceSelector(part.selector) } : part))};
+  const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'TITLE', 'META', 'LINK']);
+
+  function normalize(value) {
+    return String(value || '').replace(/\\s+/g, ' ').trim();
+  }
+
+  function matchesText(matcher, value) {
+    const text = normalize(value);
+    if (matcher.kind === 'exact') return text === normalize(matcher.value);
+    if (matcher.kind === 'regex') return new RegExp(matcher.source, matcher.flags).test(text);
+    return text.toLowerCase().includes(normalize(matcher.value).toLowerCase());
+  }
+
+  function elementsIn(scope) {
+    return deepElements(scope).filter(el => !SKIPPED_TAGS.has(el.tagName));
+  }
+
+  function ownText(el) {
+    if (el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes(el.type)) return el.value;
+    return el.textContent;
+  }
+
+  function byText(scope, matcher) {
+    const found = elementsIn(scope).filter(el => matchesText(matcher, ownText(el)));
+    const matched = new Set(found);
+    // Keep the innermost elements: an ancestor matches whenever its child does
+    return found.filter(el => !Array.from(el.children).some(child => matched.has(child)));
+  }
+
+  function labelTexts(el) {
+    const texts = [];
+    if (el.labels) {
+      for (const label of el.labels) texts.push(label.textContent);
+    }
+    const ariaLabel = el.getAttribute('aria-label');
+    if (ariaLabel) texts.push(ariaLabel);
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      texts.push(labelledBy.split(/\\s+/).map(id => {
+        const labelElement = el.getRootNode().getElementById(id);
+        return labelElement ? labelElement.textContent : '';
+      }).join(' '));
+    }
+    return texts;
+  }
+
+  function matchesStates(el, states) {
+    const aria = name => el.getAttribute('aria-' + name);
+    if (states.checked !== undefined && (aria('checked') === 'true' || el.checked === true) !== states.checked) return false;
+    if (states.disabled !== undefined && (aria('disabled') === 'true' || el.disabled === true) !== states.disabled) return false;
+    if (states.expanded !== undefined && (aria('expanded') === 'true') !== states.expanded) return false;
+    if (states.pressed !== undefined && (aria('pressed') === 'true') !== states.pressed) return false;
+    if (states.selected !== undefined && (aria('selected') === 'true' || el.selected === true) !== states.selected) return false;
+    if (states.level !== undefined) {
+      const heading = el.tagName.match(/^H([1-6])$/);
+      if ((Number(aria('level')) || (heading ? Number(heading[1]) : 0)) !== states.level) return false;
+    }
+    return true;
+  }
+
+  function byRole(scope, part) {
+    return elementsIn(scope).filter(el => {
+      const info = getAccessibilityInfo(el);
+      if (info.role !== part.role) return false;
+      if (part.name && (info.nameFromFallback || !matchesText(part.name, info.name))) return false;
+      return matchesStates(el, part.states);
+    });
+  }
+
+  function byXPath(scope, expression) {
+    // Absolute expressions in a chained part search below the previous match
+    const relative = scope !== document && expression.startsWith('/') ? '.' + expression : expression;
+    const snapshot = (scope.ownerDocument || scope).evaluate(relative, scope, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+    const found = [];
+    for (let i = 0; i < snapshot.snapshotLength; i++) {
+      const node = snapshot.snapshotItem(i);
+      if (node && node.nodeType === Node.ELEMENT_NODE) found.push(node);
+    }
+    return found;
+  }
+
+  function query(scope, part) {
+    switch (part.engine) {
+      case 'css': return deepQuerySelectorAll(part.segments, scope);
+      case 'xpath': return byXPath(scope, part.expression);
+      case 'text': return byText(scope, part.text);
+      case 'role': return byRole(scope, part);
+      case 'label': return elementsIn(scope).filter(el => labelTexts(el).some(text => matchesText(part.text, text)));
+      case 'placeholder': return elementsIn(scope).filter(el => el.hasAttribute('placeholder') && matchesText(part.text, el.getAttribute('placeholder')));
+      case 'testid': return deepQuerySelectorAll(['[data-testid="' + CSS.escape(part.testId) + '"]'], scope);
+      default: return [];
+    }
+  }
+
+  // Tree order across shadow roots and frames, where compareDocumentPosition does not apply
+  let treeOrder = null;
+  function documentOrder(a, b) {
+    if (!treeOrder) treeOrder = new Map(deepElements(document).map((el, index) => [el, index]));
+    return (treeOrder.get(a) ?? 0) - (treeOrder.get(b) ?? 0);
+  }
+
+  let current = [document];
+  for (const part of parts) {
+    if (part.engine === 'nth') {
+      const index = part.index < 0 ? current.length + part.index : part.index;
+      current = current[index] ? [current[index]] : [];
+      continue;
+    }
+
+    const next = new Set();
+    for (const scope of current) {
+      try {
+        for (const el of query(scope, part)) next.add(el);
+      } catch (err) {
+        return JSON.stringify({ matches: 0, error: part.engine + ' locator failed: ' + (err && err.message ? err.message : String(err)) });
+      }
+    }
+    current = next.size > 1 ? Array.from(next).sort(documentOrder) : Array.from(next);
+  }
+
+  const now = Date.now();
+  deepQuerySelectorAll(['[' + ATTRIBUTE + ']']).forEach(el => {
+    if (now - parseInt(el.getAttribute(ATTRIBUTE), 36) > ${TARGET_MARK_TTL_MS}) el.removeAttribute(ATTRIBUTE);
+  });
+
+  const target = current[0];
+  if (!target) {
+    return JSON.stringify({ matches: 0 });
+  }
+
+  const token = target.getAttribute(ATTRIBUTE) || now.toString(36) + '-' + Math.random().toString(36).slice(2, 8);
+  target.setAttribute(ATTRIBUTE, token);
+  const info = getAccessibilityInfo(target);
+  return JSON.stringify({
+    matches: current.length,
+    token,
+    element: { tagName: target.tagName.toLowerCase(), role: info.role, name: info.name }
+  });
+})();
+`;
+}
+
+/**
+ * Resolve a locator in the page and mark the first match
+ *
+ * @param locator - Locator or CSS selector
+ * @param windowIndex - Target window index (default: 1)
+ */
+export async function resolveLocator(locator: string, windowIndex: number = 1): Promise<Result<ResolvedLocator, string>> {
+  const parts = parseLocator(locator);
+  if (!parts.success) {
+    return parts;
+  }
+
+  const result = await execChromeJS<LocatorScriptResult>(generateLocatorScript(parts.data), 1, windowIndex);
+  if (!result.success) {
+    return error(`Failed to resolve locator "${locator}": ${result.error}`, result.code, {
+      recoveryHint: 'retry',
+      metadata: { locator }
+    });
+  }
+
+  const data = result.data;
+  if (data.error) {
+    return error(`Invalid locator "${locator}": ${data.error}`, ErrorCode.INVALID_SELECTOR, {
+      recoveryHint: 'check_target',
+      metadata: { locator }
+    });
+  }
+
+  if (!data.token || !data.element) {
+    return error(`No element matches "${locator}"`, ErrorCode.TARGET_NOT_FOUND, {
+      recoveryHint: 'check_target',
+      metadata: { locator }
+    });
+  }
+
+  return ok({
+    locator,
+    selector: `[${LOCATOR_TARGET_ATTRIBUTE}="${data.token}"]`,
+    matches: data.matches,
+    element: data.element
+  });
+}
+
+/**
+ * CSS selector for a targeting command: locators are resolved in the page,
+ * plain CSS selectors are returned unchanged
+ */
+export async function resolveTargetSelector(selector: string, windowIndex: number = 1): Promise<Result<string, string>> {
+  if (!isLocator(selector)) {
+    return ok(selector);
+  }
+
+  const resolved = await resolveLocator(selector, windowIndex);
+  return resolved.success ? ok(resolved.data.selector) : resolved;
+}
+
+/**
+ * Report the locator the user gave instead of the generated target selector
+ * in command output (`selector` and `element.selector` fields)
+ */
+export function restoreLocator<T>(result: Result<T, string>, locator: string, selector: string): Result<T, string> {
+  if (!result.success || locator === selector || !result.data || typeof result.data !== 'object') {
+    return result;
+  }
+
+  const data = { ...result.data } as Record<string, unknown>;
+  if (data.selector === selector) {
+    data.selector = locator;
+  }
+  const element = data.element as { selector?: unknown } | undefined;
+  if (element && typeof element === 'object' && element.selector === selector) {
+    data.element = { ...element, selector: locator };
+  }
+  return { ...result, data: data as T };
+}
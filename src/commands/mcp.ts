@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Serve browser commands to LLM agents over the Model Context Protocol
+ *
+ * `mcp` runs an MCP server on stdin/stdout exposing navigation, tabs, input,
+ * snapshots, screenshots, DOM evaluation and the network log as typed tools.
+ * While it runs, console output is sent to stderr so stdout carries only
+ * protocol messages.
+ *
+ * @example
+ * ```json
+ * { "mcpServers": { "chrome": { "command": "mac-chrome-cli", "args": ["mcp"] } } }
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import type { IServiceContainer } from '../di/ServiceContainer.js';
+import { getCommands, getMetaInfo } from './meta.js';
+import { McpServer } from '../mcp/McpServer.js';
+import { listMcpTools, type McpTool } from '../mcp/McpTools.js';
+
+export interface McpServeOptions {
+  /** Timeout passed to each tool call in milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * List the tools the MCP server exposes
+ */
+export async function getMcpTools(): Promise<Result<McpTool[], string>> {
+  const commands = await getCommands();
+  if (!commands.success) {
+    return error(commands.error, commands.code);
+  }
+  return ok(listMcpTools(commands.data));
+}
+
+/**
+ * Serve MCP on stdin/stdout until stdin closes
+ */
+export async function serveMcp(
+  container: IServiceContainer,
+  options: McpServeOptions = {}
+): Promise<Result<{ tools: number }, string>> {
+  const tools = await getMcpTools();
+  if (!tools.success) {
+    return error(`Failed to build MCP tools: ${tools.error}`, ErrorCode.UNKNOWN_ERROR);
+  }
+  const meta = await getMetaInfo();
+
+  const server = new McpServer({
+    tools: tools.data,
+    context: { container, timeoutMs: options.timeoutMs ?? 30000 },
+    serverInfo: {
+      name: 'mac-chrome-cli',
+      version: meta.success ? meta.data.version : '1.0.0'
+    }
+  });
+
+  const originalConsole = { log: console.log, info: console.info, debug: console.debug };
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+  try {
+    await server.serve(process.stdin, process.stdout);
+  } finally {
+    Object.assign(console, originalConsole);
+  }
+  return ok({ tools: tools.data.length });
+}
@@ -0,0 +1,1708 @@
+/**
+ * @fileoverview Command registry behind `meta commands`, `schema` and the MCP tools
+ *
+ * Kept apart from `meta.ts`, which reads package.json through `import.meta`,
+ * so the registry loads anywhere, tests included.
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import type { CommandInfo } from './meta.js';
+
+/**
+ * Complete command registry with detailed information
+ */
+export function getCommandRegistry(): CommandInfo[] {
+  return [
+    // System Commands
+    {
+      name: 'doctor',
+      description: 'Diagnose system setup and dependencies',
+      category: 'System Diagnostics',
+      permissions: ['accessibility', 'automation'],
+      examples: ['mac-chrome-cli doctor']
+    },
+    {
+      name: 'test',
+      description: 'Test command to verify CLI is working',
+      category: 'System Diagnostics',
+      permissions: [],
+      examples: ['mac-chrome-cli test']
+    },
+    
+    // Navigation Commands
+    {
+      name: 'nav',
+      description: 'Navigation and page control commands',
+      category: 'Navigation',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'nav go',
+          description: 'Navigate to URL',
+          category: 'Navigation',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--url',
+              type: 'string',
+              required: true,
+              description: 'URL to navigate to'
+            },
+            {
+              name: '--wait',
+              type: 'boolean',
+              required: false,
+              description: 'Wait for page load completion'
+            },
+            {
+              name: '--timeout',
+              type: 'number',
+              required: false,
+              default: 30000,
+              description: 'Navigation timeout in milliseconds'
+            },
+            {
+              name: '--window',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Window index (1-based)'
+            }
+          ]
+        },
+        {
+          name: 'nav reload',
+          description: 'Reload current page',
+          category: 'Navigation',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--hard',
+              type: 'boolean',
+              required: false,
+              description: 'Perform hard reload (bypass cache)'
+            },
+            {
+              name: '--wait',
+              type: 'boolean',
+              required: false,
+              description: 'Wait for page load completion'
+            },
+            {
+              name: '--timeout',
+              type: 'number',
+              required: false,
+              default: 30000,
+              description: 'Navigation timeout in milliseconds'
+            },
+            {
+              name: '--window',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Window index (1-based)'
+            }
+          ]
+        },
+        {
+          name: 'nav back',
+          description: 'Navigate back in history',
+          category: 'Navigation',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--wait',
+              type: 'boolean',
+              required: false,
+              description: 'Wait for page load completion'
+            },
+            {
+              name: '--timeout',
+              type: 'number',
+              required: false,
+              default: 30000,
+              description: 'Navigation timeout in milliseconds'
+            },
+            {
+              name: '--window',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Window index (1-based)'
+            }
+          ]
+        },
+        {
+          name: 'nav forward',
+          description: 'Navigate forward in history',
+          category: 'Navigation',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--wait',
+              type: 'boolean',
+              required: false,
+              description: 'Wait for page load completion'
+            },
+            {
+              name: '--timeout',
+              type: 'number',
+              required: false,
+              default: 30000,
+              description: 'Navigation timeout in milliseconds'
+            },
+            {
+              name: '--window',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Window index (1-based)'
+            }
+          ]
+        }
+      ]
+    },
+    
+    // Tab Management
+    {
+      name: 'tab',
+      description: 'Tab management commands',
+      category: 'Tab Management',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'tab focus',
+          description: 'Focus tab by match criteria',
+          category: 'Tab Management',
+          permissions: ['automation'],
+          options: [{
+            name: '--match',
+            type: 'string',
+            required: false,
+            description: 'Pattern to match tab title or URL'
+          }]
+        },
+        {
+          name: 'tab list',
+          description: 'List tabs in the front Chrome window',
+          category: 'Tab Management',
+          permissions: ['automation']
+        }
+      ]
+    },
+    
+    // Window Management
+    {
+      name: 'windows',
+      description: 'Chrome window commands',
+      category: 'Tab Management',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'windows list',
+          description: 'List Chrome windows with stable ids, bounds, tab counts and incognito/minimized state',
+          category: 'Tab Management',
+          permissions: ['automation']
+        }
+      ]
+    },
+    {
+      name: 'window',
+      description: 'Chrome window management commands',
+      category: 'Tab Management',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'window new',
+          description: 'Open a new Chrome window',
+          category: 'Tab Management',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--incognito',
+              type: 'boolean',
+              required: false,
+              description: 'Open an incognito window'
+            },
+            {
+              name: '--url',
+              type: 'string',
+              required: false,
+              description: 'URL to load in the new window'
+            },
+            {
+              name: '--viewport',
+              type: 'string',
+              required: false,
+              description: 'Resize the window so the page viewport is exactly WxH, e.g. 1280x800'
+            }
+          ]
+        },
+        {
+          name: 'window close',
+          description: 'Close a Chrome window and all of its tabs',
+          category: 'Tab Management',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            }
+          ]
+        },
+        {
+          name: 'window set-bounds',
+          description: 'Move and resize a Chrome window; omitted coordinates keep their current value',
+          category: 'Tab Management',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            },
+            {
+              name: '--x',
+              type: 'number',
+              required: false,
+              description: 'Left edge in screen points'
+            },
+            {
+              name: '--y',
+              type: 'number',
+              required: false,
+              description: 'Top edge in screen points'
+            },
+            {
+              name: '--width',
+              type: 'number',
+              required: false,
+              description: 'Outer window width in screen points'
+            },
+            {
+              name: '--height',
+              type: 'number',
+              required: false,
+              description: 'Outer window height in screen points'
+            },
+            {
+              name: '--viewport',
+              type: 'string',
+              required: false,
+              description: 'Resize the window so the page viewport is exactly WxH, e.g. 1280x800'
+            }
+          ]
+        },
+        {
+          name: 'window minimize',
+          description: 'Minimize a Chrome window to the Dock',
+          category: 'Tab Management',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            }
+          ]
+        },
+        {
+          name: 'window restore',
+          description: 'Restore a minimized or full screen window and bring it to the front',
+          category: 'Tab Management',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            }
+          ]
+        },
+        {
+          name: 'window fullscreen',
+          description: 'Bring a Chrome window to the front and enter full screen',
+          category: 'Tab Management',
+          permissions: ['accessibility', 'automation'],
+          options: [
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            }
+          ]
+        }
+      ]
+    },
+    
+    // Screenshot Commands
+    {
+      name: 'shot',
+      description: 'Screenshot capture commands',
+      category: 'Screenshot Capture',
+      permissions: ['screen-recording', 'automation'],
+      subcommands: [
+        {
+          name: 'shot viewport',
+          description: 'Capture viewport screenshot',
+          category: 'Screenshot Capture',
+          permissions: ['screen-recording', 'automation'],
+          options: [{
+            name: '--annotate',
+            type: 'boolean',
+            required: false,
+            description: 'Draw numbered boxes over interactive elements and return the legend (use with click-ref)'
+          }],
+          examples: ['mac-chrome-cli screenshot --annotate --out page.png --json']
+        },
+        {
+          name: 'shot full-page',
+          description: 'Capture the whole page by scrolling and stitching viewport tiles',
+          category: 'Screenshot Capture',
+          permissions: ['screen-recording', 'automation']
+        },
+        {
+          name: 'shot window',
+          description: 'Capture window screenshot',
+          category: 'Screenshot Capture',
+          permissions: ['screen-recording', 'automation']
+        },
+        {
+          name: 'shot element',
+          description: 'Capture element screenshot',
+          category: 'Screenshot Capture',
+          permissions: ['screen-recording', 'automation'],
+          options: [{
+            name: '--selector',
+            type: 'string',
+            required: true,
+            description: 'CSS selector or locator for element'
+          }]
+        },
+        {
+          name: 'shot compare',
+          description: 'Compare two screenshots pixel by pixel and write a diff image',
+          category: 'Screenshot Capture',
+          permissions: [],
+          options: [
+            {
+              name: '--threshold',
+              type: 'number',
+              required: false,
+              default: 16,
+              description: 'Per-channel difference 0-255 that still counts as equal'
+            },
+            {
+              name: '--antialiasing',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Radius searched for antialiased edges, 0 to disable'
+            },
+            {
+              name: '--max-diff',
+              type: 'number',
+              required: false,
+              default: 0,
+              description: 'Mismatch percentage that still passes'
+            },
+            {
+              name: '--diff',
+              type: 'string',
+              required: false,
+              description: 'Diff image path (default: <actual>.diff.png)'
+            }
+          ]
+        }
+      ]
+    },
+
+    // Screen Recording
+    {
+      name: 'record',
+      description: 'Record the Chrome window to an MP4 or GIF video',
+      category: 'Screenshot Capture',
+      permissions: ['screen-recording', 'automation'],
+      subcommands: [
+        {
+          name: 'record start',
+          description: 'Start recording the window in the background; run record stop to save the video',
+          category: 'Screenshot Capture',
+          permissions: ['screen-recording', 'automation'],
+          options: [
+            {
+              name: '--out',
+              type: 'string',
+              required: false,
+              description: 'Video file; .mp4 or .gif selects the format'
+            },
+            {
+              name: '--format',
+              type: 'string',
+              required: false,
+              description: 'Video format (mp4|gif)'
+            },
+            {
+              name: '--fps',
+              type: 'number',
+              required: false,
+              default: 5,
+              description: 'Frames per second (1-30)'
+            },
+            {
+              name: '--max-duration',
+              type: 'number',
+              required: false,
+              default: 300,
+              description: 'Stop recording by itself after this many seconds'
+            },
+            {
+              name: '--no-overlays',
+              type: 'boolean',
+              required: false,
+              description: 'Do not draw click markers and typed-key captions'
+            },
+            {
+              name: '--backend',
+              type: 'string',
+              required: false,
+              default: 'screencapture',
+              description: 'Frame source backend'
+            }
+          ],
+          examples: ['mac-chrome-cli record start --out bug.mp4', 'mac-chrome-cli record start --out flow.gif --fps 10']
+        },
+        {
+          name: 'record stop',
+          description: 'Stop recording and save the video',
+          category: 'Screenshot Capture',
+          permissions: [],
+          examples: ['mac-chrome-cli record stop --json']
+        }
+      ]
+    },
+    
+    // Mouse Commands
+    {
+      name: 'mouse',
+      description: 'Mouse interaction commands',
+      category: 'Input Control',
+      permissions: ['accessibility', 'automation'],
+      subcommands: [
+        {
+          name: 'mouse click',
+          description: 'Click at coordinates or element',
+          category: 'Input Control',
+          permissions: ['accessibility', 'automation'],
+          options: [
+            {
+              name: '--selector',
+              type: 'string',
+              required: false,
+              description: 'CSS selector or locator for element'
+            },
+            {
+              name: '--x',
+              type: 'number',
+              required: false,
+              description: 'X coordinate'
+            },
+            {
+              name: '--y',
+              type: 'number',
+              required: false,
+              description: 'Y coordinate'
+            },
+            {
+              name: '--button',
+              type: 'string',
+              required: false,
+              default: 'left',
+              choices: ['left', 'right', 'middle'],
+              description: 'Mouse button (left|right|middle)'
+            },
+            {
+              name: '--timeout',
+              type: 'number',
+              required: false,
+              default: 5000,
+              description: 'Maximum time in ms to wait for the element to become actionable'
+            },
+            {
+              name: '--force',
+              type: 'boolean',
+              required: false,
+              description: 'Skip actionability checks (visible, stable, enabled, not covered)'
+            },
+            {
+              name: '--offset-x',
+              type: 'number',
+              required: false,
+              description: 'X offset from element center'
+            },
+            {
+              name: '--offset-y',
+              type: 'number',
+              required: false,
+              description: 'Y offset from element center'
+            },
+            {
+              name: '--window',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Window index (1-based)'
+            }
+          ]
+        },
+        {
+          name: 'mouse click-ref',
+          description: 'Click the element numbered <n> in the last screenshot --annotate capture',
+          category: 'Input Control',
+          permissions: ['accessibility', 'automation'],
+          options: [
+            {
+              name: '--button',
+              type: 'string',
+              required: false,
+              default: 'left',
+              choices: ['left', 'right', 'middle'],
+              description: 'Mouse button (left|right|middle)'
+            },
+            {
+              name: '--click-count',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Number of clicks (1=single, 2=double)'
+            },
+            {
+              name: '--timeout',
+              type: 'number',
+              required: false,
+              default: 5000,
+              description: 'Maximum time in ms to wait for the element to become actionable'
+            },
+            {
+              name: '--force',
+              type: 'boolean',
+              required: false,
+              description: 'Skip actionability checks (visible, stable, enabled, not covered)'
+            }
+          ],
+          examples: ['mac-chrome-cli click-ref 7']
+        },
+        {
+          name: 'mouse move',
+          description: 'Move mouse to coordinates or element',
+          category: 'Input Control',
+          permissions: ['accessibility', 'automation'],
+          options: [
+            {
+              name: '--selector',
+              type: 'string',
+              required: false,
+              description: 'CSS selector or locator for element'
+            },
+            {
+              name: '--x',
+              type: 'number',
+              required: false,
+              description: 'X coordinate'
+            },
+            {
+              name: '--y',
+              type: 'number',
+              required: false,
+              description: 'Y coordinate'
+            }
+          ]
+        }
+      ]
+    },
+    
+    // Keyboard Commands
+    {
+      name: 'keyboard',
+      description: 'Keyboard input commands',
+      category: 'Input Control',
+      permissions: ['accessibility', 'automation'],
+      subcommands: [
+        {
+          name: 'keyboard type',
+          description: 'Type text',
+          category: 'Input Control',
+          permissions: ['accessibility', 'automation'],
+          options: [
+            {
+              name: '--text',
+              type: 'string',
+              required: true,
+              description: 'Text to type'
+            },
+            {
+              name: '--speed',
+              type: 'number',
+              required: false,
+              default: 50,
+              description: 'Delay between characters in ms'
+            },
+            {
+              name: '--repeat',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Number of times to type the text'
+            },
+            {
+              name: '--clear',
+              type: 'boolean',
+              required: false,
+              description: 'Clear field before typing'
+            }
+          ]
+        },
+        {
+          name: 'keyboard keys',
+          description: 'Send key combination',
+          category: 'Input Control',
+          permissions: ['accessibility', 'automation'],
+          options: [{
+            name: '--combo',
+            type: 'string',
+            required: true,
+            description: 'Key combination (e.g., cmd+shift+r)'
+          }]
+        }
+      ]
+    },
+    
+    // Input Commands
+    {
+      name: 'input',
+      description: 'Form input commands',
+      category: 'Form Control',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'input fill',
+          description: 'Fill input field',
+          category: 'Form Control',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--selector',
+              type: 'string',
+              required: true,
+              description: 'CSS selector or locator for input'
+            },
+            {
+              name: '--value',
+              type: 'string',
+              required: true,
+              description: 'Value to fill'
+            },
+            {
+              name: '--clear',
+              type: 'boolean',
+              required: false,
+              default: true,
+              description: 'Clear field before filling'
+            },
+            {
+              name: '--method',
+              type: 'string',
+              required: false,
+              default: 'auto',
+              choices: ['auto', 'paste', 'type', 'js'],
+              description: 'Input method (auto|paste|type|js)'
+            },
+            {
+              name: '--speed',
+              type: 'number',
+              required: false,
+              default: 50,
+              description: 'Typing speed in ms (for the type method)'
+            },
+            {
+              name: '--timeout',
+              type: 'number',
+              required: false,
+              default: 5000,
+              description: 'Maximum time in ms to wait for the field to become actionable'
+            },
+            {
+              name: '--force',
+              type: 'boolean',
+              required: false,
+              description: 'Skip actionability checks (visible, stable, enabled, not covered)'
+            },
+            {
+              name: '--mask-secret',
+              type: 'boolean',
+              required: false,
+              description: 'Mask the value in logs (for sensitive data)'
+            },
+            {
+              name: '--window',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Window index (1-based)'
+            }
+          ]
+        }
+      ]
+    },
+    
+    // DOM Commands
+    {
+      name: 'dom eval',
+      description: 'Execute JavaScript in page context',
+      category: 'DOM Evaluation',
+      permissions: ['automation'],
+      options: [
+        {
+          name: '--js',
+          type: 'string',
+          required: true,
+          description: 'JavaScript code to execute'
+        },
+        {
+          name: '--tab',
+          type: 'number',
+          required: false,
+          default: 1,
+          description: 'Tab index (1-based)'
+        },
+        {
+          name: '--window',
+          type: 'string',
+          required: false,
+          default: '1',
+          description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+        },
+        {
+          name: '--frame',
+          type: 'string',
+          required: false,
+          description: 'Same-origin iframe to evaluate in (CSS selector, >>> for nested frames)'
+        },
+        {
+          name: '--max-size',
+          type: 'number',
+          required: false,
+          default: 1048576,
+          description: 'Maximum result size in bytes'
+        }
+      ],
+      examples: [
+        'mac-chrome-cli dom eval --js "document.title"',
+        'mac-chrome-cli dom eval --js "document.querySelectorAll(\'button\').length"',
+        'mac-chrome-cli dom eval --frame "iframe#pay" --js "document.title"'
+      ]
+    },
+    
+    // Wait Command
+    {
+      name: 'wait',
+      description: 'Wait for a specified duration or a page condition',
+      category: 'Utility Commands',
+      permissions: [],
+      options: [{
+        name: '--ms',
+        type: 'number',
+        required: false,
+        default: 800,
+        description: 'Duration to wait in milliseconds'
+      }],
+      subcommands: [
+        {
+          name: 'wait selector',
+          description: 'Wait for an element to reach a state (present|visible|hidden|detached)',
+          category: 'Utility Commands',
+          permissions: ['automation'],
+          options: [{
+            name: '--state',
+            type: 'string',
+            required: false,
+            default: 'visible',
+            description: 'Element state to wait for'
+          }]
+        },
+        {
+          name: 'wait text',
+          description: 'Wait for text to appear in the page body',
+          category: 'Utility Commands',
+          permissions: ['automation']
+        },
+        {
+          name: 'wait url',
+          description: 'Wait for the page URL to match a substring or /regex/',
+          category: 'Utility Commands',
+          permissions: ['automation']
+        },
+        {
+          name: 'wait title',
+          description: 'Wait for the page title to match a substring or /regex/',
+          category: 'Utility Commands',
+          permissions: ['automation']
+        },
+        {
+          name: 'wait network-idle',
+          description: 'Wait until no requests are in flight (requires netlog start)',
+          category: 'Utility Commands',
+          permissions: ['automation'],
+          options: [{
+            name: '--idle',
+            type: 'number',
+            required: false,
+            default: 500,
+            description: 'Quiet period in milliseconds'
+          }]
+        },
+        {
+          name: 'wait js',
+          description: 'Wait for a JavaScript predicate to return a truthy value',
+          category: 'Utility Commands',
+          permissions: ['automation']
+        }
+      ],
+      examples: [
+        'mac-chrome-cli wait --ms 1000',
+        'mac-chrome-cli wait selector "#results" --state visible --timeout 10000',
+        'mac-chrome-cli wait url "/\\/dashboard$/"'
+      ]
+    },
+    
+    // Network Monitoring
+    {
+      name: 'netlog',
+      description: 'Network monitoring and logging commands',
+      category: 'Network Monitoring',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'netlog start',
+          description: 'Start network monitoring',
+          category: 'Network Monitoring',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--max-events',
+              type: 'number',
+              required: false,
+              default: 100,
+              description: 'Maximum number of events to store'
+            },
+            {
+              name: '--body-limit',
+              type: 'number',
+              required: false,
+              default: 2048,
+              description: 'Maximum body preview size in bytes'
+            },
+            {
+              name: '--max-frames',
+              type: 'number',
+              required: false,
+              default: 100,
+              description: 'Maximum WebSocket frames kept per connection'
+            }
+          ]
+        },
+        {
+          name: 'netlog stop',
+          description: 'Stop network monitoring',
+          category: 'Network Monitoring',
+          permissions: ['automation']
+        },
+        {
+          name: 'netlog dump',
+          description: 'Dump captured network events',
+          category: 'Network Monitoring',
+          permissions: ['automation'],
+          options: [{
+            name: '--format',
+            type: 'string',
+            required: false,
+            default: 'json',
+            choices: ['json', 'har'],
+            description: 'Output format (json|har)'
+          }]
+        },
+        {
+          name: 'netlog clear',
+          description: 'Clear captured network events',
+          category: 'Network Monitoring',
+          permissions: ['automation']
+        },
+        {
+          name: 'netlog stats',
+          description: 'Summarize latency percentiles, error rates and sizes of captured events',
+          category: 'Network Monitoring',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--top',
+              type: 'number',
+              required: false,
+              default: 10,
+              description: 'Number of slowest requests to list'
+            },
+            {
+              name: '--waterfall',
+              type: 'boolean',
+              required: false,
+              description: 'Also render a text waterfall of the requests'
+            },
+            {
+              name: '--width',
+              type: 'number',
+              required: false,
+              default: 50,
+              description: 'Waterfall bar width in characters'
+            },
+            {
+              name: '--rows',
+              type: 'number',
+              required: false,
+              default: 50,
+              description: 'Maximum waterfall rows'
+            }
+          ],
+          examples: [
+            'mac-chrome-cli netlog stats',
+            'mac-chrome-cli netlog stats --top 5 --waterfall'
+          ]
+        },
+        {
+          name: 'netlog tail',
+          description: 'Stream finished network events as NDJSON (needs netlog start)',
+          category: 'Network Monitoring',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--method',
+              type: 'string',
+              required: false,
+              description: 'Comma-separated HTTP methods'
+            },
+            {
+              name: '--status',
+              type: 'string',
+              required: false,
+              description: 'Status code, range or class (404, 400-599, 5xx; 0 = failed)'
+            },
+            {
+              name: '--url',
+              type: 'string',
+              required: false,
+              description: 'Regular expression matched against the request URL'
+            },
+            {
+              name: '--type',
+              type: 'string',
+              required: false,
+              description: 'Comma-separated event types (fetch, xhr, websocket)'
+            },
+            {
+              name: '--interval',
+              type: 'number',
+              required: false,
+              default: 500,
+              description: 'Poll interval in milliseconds'
+            },
+            {
+              name: '--duration',
+              type: 'number',
+              required: false,
+              description: 'Stop after this many milliseconds'
+            },
+            {
+              name: '--count',
+              type: 'number',
+              required: false,
+              description: 'Stop after this many events'
+            },
+            {
+              name: '--from-start',
+              type: 'boolean',
+              required: false,
+              description: 'Also print events already captured'
+            }
+          ],
+          examples: [
+            'mac-chrome-cli netlog tail --status 4xx --url "/api/"',
+            'mac-chrome-cli netlog tail --method POST,PUT --type fetch,xhr --count 10'
+          ]
+        },
+        {
+          name: 'netlog mock',
+          description: 'Answer page requests from a recorded HAR file',
+          category: 'Network Monitoring',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--har',
+              type: 'string',
+              required: false,
+              description: 'HAR file to replay (omit to show mock status)'
+            },
+            {
+              name: '--mode',
+              type: 'string',
+              required: false,
+              default: 'passthrough',
+              description: 'Unmatched requests: passthrough or strict'
+            },
+            {
+              name: '--match-body',
+              type: 'boolean',
+              required: false,
+              description: 'Also match a hash of the request body'
+            },
+            {
+              name: '--ignore-query',
+              type: 'boolean',
+              required: false,
+              description: 'Ignore query strings when matching URLs'
+            },
+            {
+              name: '--off',
+              type: 'boolean',
+              required: false,
+              description: 'Stop mocking'
+            }
+          ]
+        },
+        {
+          name: 'netlog rules add',
+          description: 'Add a request interception rule (block, delay, answer or rewrite headers)',
+          category: 'Network Monitoring',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--url',
+              type: 'string',
+              required: true,
+              description: 'URL pattern, * matches any characters'
+            },
+            {
+              name: '--method',
+              type: 'string',
+              required: false,
+              description: 'Only match this HTTP method'
+            },
+            {
+              name: '--block',
+              type: 'boolean',
+              required: false,
+              description: 'Fail matching requests as network errors'
+            },
+            {
+              name: '--delay',
+              type: 'number',
+              required: false,
+              description: 'Added latency in milliseconds (max 60000)'
+            },
+            {
+              name: '--status',
+              type: 'number',
+              required: false,
+              description: 'Answer with this status instead of sending the request'
+            },
+            {
+              name: '--body',
+              type: 'string',
+              required: false,
+              description: 'Answer with this body instead of sending the request'
+            },
+            {
+              name: '--set-header',
+              type: 'string',
+              required: false,
+              description: 'Set a request header, "Name: value" (repeatable)'
+            },
+            {
+              name: '--strip-header',
+              type: 'string',
+              required: false,
+              description: 'Remove a request header (repeatable)'
+            }
+          ],
+          examples: [
+            'mac-chrome-cli netlog rules add --url "*.png" --block',
+            'mac-chrome-cli netlog rules add --url "*/api/*" --delay 1500',
+            'mac-chrome-cli netlog rules add --url "*/api/flags" --method GET --status 503 --body "unavailable"'
+          ]
+        },
+        {
+          name: 'netlog rules list',
+          description: 'List interception rules with hit counts',
+          category: 'Network Monitoring',
+          permissions: ['automation']
+        },
+        {
+          name: 'netlog rules clear',
+          description: 'Remove one interception rule by id, or all rules',
+          category: 'Network Monitoring',
+          permissions: ['automation']
+        }
+      ]
+    },
+    
+    // Redaction Policy Review
+    {
+      name: 'sanitize',
+      description: 'Review the redaction policy applied to captured network data',
+      category: 'Network Monitoring',
+      permissions: [],
+      subcommands: [
+        {
+          name: 'sanitize test',
+          description: 'Show what the redaction policy would redact in a netlog dump, HAR or body file',
+          category: 'Network Monitoring',
+          permissions: [],
+          options: [
+            {
+              name: '--policy',
+              type: 'string',
+              required: false,
+              description: 'JSON policy file to test instead of the configured policy'
+            },
+            {
+              name: '--show-sanitized',
+              type: 'boolean',
+              required: false,
+              description: 'Include the sanitized values of matching items'
+            }
+          ],
+          examples: [
+            'mac-chrome-cli sanitize test network.har',
+            'mac-chrome-cli sanitize test dump.json --policy policy.json --show-sanitized'
+          ]
+        }
+      ]
+    },    
+    // Snapshot Commands
+    {
+      name: 'snapshot',
+      description: 'Page structure extraction commands',
+      category: 'Page Snapshots',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'snapshot outline',
+          description: 'Capture flat list of interactive elements',
+          category: 'Page Snapshots',
+          permissions: ['automation'],
+          options: [{
+            name: '--visible-only',
+            type: 'boolean',
+            required: false,
+            description: 'Only include visible elements'
+          }]
+        },
+        {
+          name: 'snapshot dom-lite',
+          description: 'Capture pruned DOM hierarchy',
+          category: 'Page Snapshots',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--max-depth',
+              type: 'number',
+              required: false,
+              default: 10,
+              description: 'Maximum traversal depth'
+            },
+            {
+              name: '--visible-only',
+              type: 'boolean',
+              required: false,
+              description: 'Only include visible elements'
+            },
+            {
+              name: '--mode',
+              type: 'string',
+              required: false,
+              default: 'full',
+              choices: ['full', 'simple'],
+              description: 'dom-lite algorithm (full|simple)'
+            }
+          ]
+        },
+        {
+          name: 'snapshot diff',
+          description: 'Compare two saved snapshots (added, removed, moved, state-changed)',
+          category: 'Page Snapshots',
+          permissions: [],
+          options: [
+            {
+              name: '--tolerance',
+              type: 'number',
+              required: false,
+              default: 0,
+              description: 'Ignore rect changes up to this many pixels'
+            },
+            {
+              name: '--ignore-state',
+              type: 'string',
+              required: false,
+              description: 'Comma-separated state keys to ignore'
+            }
+          ]
+        }
+      ]
+    },
+    
+    // Accessibility
+    {
+      name: 'a11y',
+      description: 'Accessibility checks',
+      category: 'Page Snapshots',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'a11y audit',
+          description: 'Audit the current page for common accessibility violations',
+          category: 'Page Snapshots',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--rules',
+              type: 'string',
+              required: false,
+              description: 'Comma-separated rule ids (interactive-name, image-alt, label, duplicate-id, empty-link, empty-button, heading-order)'
+            },
+            {
+              name: '--fail-on',
+              type: 'string',
+              required: false,
+              default: 'minor',
+              description: 'Lowest severity that fails the audit (critical|serious|moderate|minor)'
+            },
+            {
+              name: '--visible-only',
+              type: 'boolean',
+              required: false,
+              description: 'Only report elements visible in the viewport'
+            },
+            {
+              name: '--tab',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Tab index (1-based)'
+            },
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            },
+            {
+              name: '--timeout',
+              type: 'number',
+              required: false,
+              default: 20000,
+              description: 'Audit timeout in milliseconds'
+            }
+          ],
+          examples: [
+            'mac-chrome-cli a11y audit',
+            'mac-chrome-cli a11y audit --fail-on serious --json'
+          ]
+        }
+      ]
+    },
+    
+    // Scroll Commands
+    {
+      name: 'scroll',
+      description: 'Page scrolling commands',
+      category: 'Scrolling Control',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'scroll to',
+          description: 'Scroll to element (centers in viewport)',
+          category: 'Scrolling Control',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--selector',
+              type: 'string',
+              required: true,
+              description: 'CSS selector or locator for element'
+            },
+            {
+              name: '--smooth',
+              type: 'boolean',
+              required: false,
+              description: 'Use smooth scrolling animation'
+            },
+            {
+              name: '--tab',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Tab index (1-based)'
+            },
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            }
+          ]
+        },
+        {
+          name: 'scroll by',
+          description: 'Scroll by pixel amount',
+          category: 'Scrolling Control',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--px',
+              type: 'number',
+              required: true,
+              description: 'Number of pixels to scroll'
+            },
+            {
+              name: '--smooth',
+              type: 'boolean',
+              required: false,
+              description: 'Use smooth scrolling animation'
+            },
+            {
+              name: '--horizontal',
+              type: 'boolean',
+              required: false,
+              description: 'Scroll horizontally instead of vertically'
+            },
+            {
+              name: '--tab',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Tab index (1-based)'
+            },
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            }
+          ]
+        },
+        {
+          name: 'scroll position',
+          description: 'Get current scroll position',
+          category: 'Scrolling Control',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--tab',
+              type: 'number',
+              required: false,
+              default: 1,
+              description: 'Tab index (1-based)'
+            },
+            {
+              name: '--window',
+              type: 'string',
+              required: false,
+              default: '1',
+              description: 'Target window: index (1-based), id:<n>, title:<pattern> or url:<pattern>'
+            }
+          ]
+        }
+      ]
+    },
+    
+    // File Commands
+    {
+      name: 'files',
+      description: 'File upload and management commands',
+      category: 'File Operations',
+      permissions: ['automation'],
+      subcommands: [
+        {
+          name: 'files upload',
+          description: 'Upload files to a file input element',
+          category: 'File Operations',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--selector',
+              type: 'string',
+              required: true,
+              description: 'CSS selector for file input element'
+            },
+            {
+              name: '--path',
+              type: 'string',
+              required: true,
+              description: 'File path or comma-separated paths for multiple files'
+            },
+            {
+              name: '--multiple',
+              type: 'boolean',
+              required: false,
+              description: 'Enable multiple file selection'
+            }
+          ]
+        },
+        {
+          name: 'files dragdrop',
+          description: 'Simulate drag and drop file upload to a dropzone',
+          category: 'File Operations',
+          permissions: ['automation'],
+          options: [
+            {
+              name: '--selector',
+              type: 'string',
+              required: true,
+              description: 'CSS selector for dropzone element'
+            },
+            {
+              name: '--path',
+              type: 'string',
+              required: true,
+              description: 'File path or comma-separated paths for multiple files'
+            },
+            {
+              name: '--multiple',
+              type: 'boolean',
+              required: false,
+              description: 'Enable multiple file selection'
+            }
+          ]
+        }
+      ]
+    },
+    
+    // Script Runner
+    {
+      name: 'run',
+      description: 'Run a JSON or YAML script of CLI steps in one session',
+      category: 'Utility Commands',
+      permissions: ['automation'],
+      options: [
+        {
+          name: '--continue-on-error',
+          type: 'boolean',
+          required: false,
+          description: 'Continue with remaining steps when a step fails'
+        },
+        {
+          name: '--timeout',
+          type: 'number',
+          required: false,
+          default: 30000,
+          description: 'Default per-step timeout in milliseconds'
+        }
+      ],
+      examples: [
+        'mac-chrome-cli run login.yaml',
+        'mac-chrome-cli run smoke.json --continue-on-error --json'
+      ]
+    },
+    
+    // Configuration Commands
+    {
+      name: 'config',
+      description: 'Show, set and validate persistent configuration',
+      category: 'Utility Commands',
+      permissions: [],
+      subcommands: [
+        {
+          name: 'config get',
+          description: 'Show the effective value of a key and where it came from',
+          category: 'Utility Commands',
+          permissions: [],
+          examples: ['mac-chrome-cli config get networkMonitoring.maxEvents']
+        },
+        {
+          name: 'config set',
+          description: 'Set a key in the user config file or the project .macchromerc',
+          category: 'Utility Commands',
+          permissions: [],
+          options: [
+            {
+              name: '--project',
+              type: 'boolean',
+              required: false,
+              description: 'Write to the project .macchromerc instead of the user config'
+            }
+          ],
+          examples: [
+            'mac-chrome-cli config set timeout 60000',
+            'mac-chrome-cli --profile ci config set json true --project'
+          ]
+        },
+        {
+          name: 'config list',
+          description: 'List all effective values with their source',
+          category: 'Utility Commands',
+          permissions: []
+        },
+        {
+          name: 'config validate',
+          description: 'Validate config files against the configuration schema',
+          category: 'Utility Commands',
+          permissions: [],
+          examples: ['mac-chrome-cli config validate', 'mac-chrome-cli config validate ./.macchromerc']
+        }
+      ]
+    },
+
+    // Daemon Commands
+    {
+      name: 'daemon',
+      description: 'Long-lived process serving every command as a JSON-RPC method over a Unix socket',
+      category: 'Utility Commands',
+      permissions: [],
+      subcommands: [
+        {
+          name: 'daemon start',
+          description: 'Start the daemon; later invocations are forwarded to it',
+          category: 'Utility Commands',
+          permissions: [],
+          options: [
+            {
+              name: '--foreground',
+              type: 'boolean',
+              required: false,
+              description: 'Run the daemon in this process until stopped'
+            }
+          ],
+          examples: ['mac-chrome-cli daemon start', 'mac-chrome-cli --profile ci daemon start --foreground']
+        },
+        {
+          name: 'daemon stop',
+          description: 'Stop the running daemon',
+          category: 'Utility Commands',
+          permissions: [],
+          examples: ['mac-chrome-cli daemon stop']
+        },
+        {
+          name: 'daemon status',
+          description: 'Show whether the daemon is running, with uptime and request count',
+          category: 'Utility Commands',
+          permissions: [],
+          examples: ['mac-chrome-cli daemon status --json']
+        }
+      ]
+    },
+    // MCP Server
+    {
+      name: 'mcp',
+      description: 'Serve browser commands as Model Context Protocol tools over stdio',
+      category: 'Utility Commands',
+      permissions: ['automation'],
+      options: [
+        {
+          name: '--timeout',
+          type: 'number',
+          required: false,
+          default: 30000,
+          description: 'Per-tool timeout in milliseconds'
+        }
+      ],
+      examples: ['mac-chrome-cli mcp']
+    },
+    // Traces
+    {
+      name: 'trace',
+      description: 'Inspect traces recorded with --trace <file>',
+      category: 'System Diagnostics',
+      permissions: [],
+      subcommands: [
+        {
+          name: 'trace show',
+          description: 'Show a recorded trace as a timeline',
+          category: 'System Diagnostics',
+          permissions: [],
+          options: [
+            {
+              name: '--full',
+              type: 'boolean',
+              required: false,
+              description: 'Print the full script text and data of every step'
+            }
+          ],
+          examples: [
+            'mac-chrome-cli --trace click.ndjson mouse click --selector "#submit"',
+            'mac-chrome-cli trace show click.ndjson --full'
+          ]
+        }
+      ]
+    },
+
+    // Meta Commands
+    {
+      name: 'meta',
+      description: 'CLI information and statistics commands',
+      category: 'System Diagnostics',
+      permissions: [],
+      subcommands: [
+        {
+          name: 'meta info',
+          description: 'Show CLI version, capabilities, and implementation status',
+          category: 'System Diagnostics',
+          permissions: []
+        },
+        {
+          name: 'meta stats',
+          description: 'Show CLI runtime statistics and performance metrics',
+          category: 'System Diagnostics',
+          permissions: []
+        },
+        {
+          name: 'meta commands',
+          description: 'List all available commands with descriptions and status',
+          category: 'System Diagnostics',
+          permissions: []
+        },
+        {
+          name: 'meta schema',
+          description: 'Emit JSON Schema for command options and result data',
+          category: 'System Diagnostics',
+          permissions: [],
+          examples: ['mac-chrome-cli meta schema', 'mac-chrome-cli meta schema snapshot outline']
+        },
+        {
+          name: 'meta permissions',
+          description: 'Show permission requirements for all features',
+          category: 'System Diagnostics',
+          permissions: []
+        },
+        {
+          name: 'meta performance',
+          description: 'Show performance statistics and optimization recommendations',
+          category: 'System Diagnostics',
+          permissions: []
+        }
+      ]
+    }
+  ];
+}
@@ -1,5 +1,8 @@
-import { Result, mapError } from '../core/index.js';
+import { Result, mapError, ok, error, ErrorCode } from '../core/index.js';
 import { executeWithContext } from '../core/ErrorUtils.js';
+import { buildCommandSchema, listSchemaCommands, type CommandSchema } from './schema.js';
+import type { Command } from 'commander';
+import { getCommandRegistry } from './meta-commands.js';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -21,7 +24,7 @@ export interface MetaInfo {
     node: string;
     os: string;
     arch: string;
-    macosVersion: string | undefined;
+    macosVersion?: string | undefined;
     macosMinimum: string;
   };
   capabilities: string[];
@@ -49,6 +52,8 @@ export interface CommandOption {
   required: boolean;
   description: string;
   default?: string | number | boolean;
+  /** Allowed values for string options */
+  choices?: string[];
 }
 
 export interface ExternalDependency {
@@ -98,644 +103,6 @@ function getPackageInfo(): { name: string; version: string; description: string;
   }
 }
 
-/**
- * Get complete command registry with detailed information
- */
-function getCommandRegistry(): CommandInfo[] {
-  return [
-    // System Commands
-    {
-      name: 'doctor',
-      description: 'Diagnose system setup and dependencies',
-      category: 'System Diagnostics',
-      permissions: ['accessibility', 'automation'],
-      examples: ['mac-chrome-cli doctor']
-    },
-    {
-      name: 'test',
-      description: 'Test command to verify CLI is working',
-      category: 'System Diagnostics',
-      permissions: [],
-      examples: ['mac-chrome-cli test']
-    },
-    
-    // Navigation Commands
-    {
-      name: 'nav',
-      description: 'Navigation and page control commands',
-      category: 'Navigation',
-      permissions: ['automation'],
-      subcommands: [
-        {
-          name: 'nav go',
-          description: 'Navigate to URL',
-          category: 'Navigation',
-          permissions: ['automation'],
-          options: [{
-            name: '--url',
-            type: 'string',
-            required: true,
-            description: 'URL to navigate to'
-          }]
-        },
-        {
-          name: 'nav reload',
-          description: 'Reload current page',
-          category: 'Navigation',
-          permissions: ['automation'],
-          options: [{
-            name: '--hard',
-            type: 'boolean',
-            required: false,
-            description: 'Perform hard reload (bypass cache)'
-          }]
-        },
-        {
-          name: 'nav back',
-          description: 'Navigate back in history',
-          category: 'Navigation',
-          permissions: ['automation']
-        },
-        {
-          name: 'nav forward',
-          description: 'Navigate forward in history',
-          category: 'Navigation',
-          permissions: ['automation']
-        }
-      ]
-    },
-    
-    // Tab Management
-    {
-      name: 'tab',
-      description: 'Tab management commands',
-      category: 'Tab Management',
-      permissions: ['automation'],
-      subcommands: [
-        {
-          name: 'tab focus',
-          description: 'Focus tab by match criteria',
-          category: 'Tab Management',
-          permissions: ['automation'],
-          options: [{
-            name: '--match',
-            type: 'string',
-            required: false,
-            description: 'Pattern to match tab title or URL'
-          }]
-        }
-      ]
-    },
-    
-    // Screenshot Commands
-    {
-      name: 'shot',
-      description: 'Screenshot capture commands',
-      category: 'Screenshot Capture',
-      permissions: ['screen-recording', 'automation'],
-      subcommands: [
-        {
-          name: 'shot viewport',
-          description: 'Capture viewport screenshot',
-          category: 'Screenshot Capture',
-          permissions: ['screen-recording', 'automation']
-        },
-        {
-          name: 'shot window',
-          description: 'Capture window screenshot',
-          category: 'Screenshot Capture',
-          permissions: ['screen-recording', 'automation']
-        },
-        {
-          name: 'shot element',
-          description: 'Capture element screenshot',
-          category: 'Screenshot Capture',
-          permissions: ['screen-recording', 'automation'],
-          options: [{
-            name: '--selector',
-            type: 'string',
-            required: true,
-            description: 'CSS selector for element'
-          }]
-        }
-      ]
-    },
-    
-    // Mouse Commands
-    {
-      name: 'mouse',
-      description: 'Mouse interaction commands',
-      category: 'Input Control',
-      permissions: ['accessibility', 'automation'],
-      subcommands: [
-        {
-          name: 'mouse click',
-          description: 'Click at coordinates or element',
-          category: 'Input Control',
-          permissions: ['accessibility', 'automation'],
-          options: [
-            {
-              name: '--selector',
-              type: 'string',
-              required: false,
-              description: 'CSS selector for element'
-            },
-            {
-              name: '--x',
-              type: 'number',
-              required: false,
-              description: 'X coordinate'
-            },
-            {
-              name: '--y',
-              type: 'number',
-              required: false,
-              description: 'Y coordinate'
-            },
-            {
-              name: '--button',
-              type: 'string',
-              required: false,
-              default: 'left',
-              description: 'Mouse button (left|right|middle)'
-            }
-          ]
-        },
-        {
-          name: 'mouse move',
-          description: 'Move mouse to coordinates or element',
-          category: 'Input Control',
-          permissions: ['accessibility', 'automation'],
-          options: [
-            {
-              name: '--selector',
-              type: 'string',
-              required: false,
-              description: 'CSS selector for element'
-            },
-            {
-              name: '--x',
-              type: 'number',
-              required: false,
-              description: 'X coordinate'
-            },
-            {
-              name: '--y',
-              type: 'number',
-              required: false,
-              description: 'Y coordinate'
-            }
-          ]
-        }
-      ]
-    },
-    
-    // Keyboard Commands
-    {
-      name: 'keyboard',
-      description: 'Keyboard input commands',
-      category: 'Input Control',
-      permissions: ['accessibility', 'automation'],
-      subcommands: [
-        {
-          name: 'keyboard type',
-          description: 'Type text',
-          category: 'Input Control',
-          permissions: ['accessibility', 'automation'],
-          options: [
-            {
-              name: '--text',
-              type: 'string',
-              required: true,
-              description: 'Text to type'
-            },
-            {
-              name: '--speed',
-              type: 'number',
-              required: false,
-              default: 50,
-              description: 'Delay between characters in ms'
-            }
-          ]
-        },
-        {
-          name: 'keyboard keys',
-          description: 'Send key combination',
-          category: 'Input Control',
-          permissions: ['accessibility', 'automation'],
-          options: [{
-            name: '--combo',
-            type: 'string',
-            required: true,
-            description: 'Key combination (e.g., cmd+shift+r)'
-          }]
-        }
-      ]
-    },
-    
-    // Input Commands
-    {
-      name: 'input',
-      description: 'Form input commands',
-      category: 'Form Control',
-      permissions: ['automation'],
-      subcommands: [
-        {
-          name: 'input fill',
-          description: 'Fill input field',
-          category: 'Form Control',
-          permissions: ['automation'],
-          options: [
-            {
-              name: '--selector',
-              type: 'string',
-              required: true,
-              description: 'CSS selector for input'
-            },
-            {
-              name: '--value',
-              type: 'string',
-              required: true,
-              description: 'Value to fill'
-            },
-            {
-              name: '--clear',
-              type: 'boolean',
-              required: false,
-              description: 'Clear field before filling'
-            }
-          ]
-        }
-      ]
-    },
-    
-    // DOM Commands
-    {
-      name: 'dom eval',
-      description: 'Execute JavaScript in page context',
-      category: 'DOM Evaluation',
-      permissions: ['automation'],
-      options: [
-        {
-          name: '--js',
-          type: 'string',
-          required: true,
-          description: 'JavaScript code to execute'
-        },
-        {
-          name: '--tab',
-          type: 'number',
-          required: false,
-          default: 1,
-          description: 'Tab index (1-based)'
-        },
-        {
-          name: '--window',
-          type: 'number',
-          required: false,
-          default: 1,
-          description: 'Window index (1-based)'
-        },
-        {
-          name: '--max-size',
-          type: 'number',
-          required: false,
-          default: 1048576,
-          description: 'Maximum result size in bytes'
-        }
-      ],
-      examples: [
-        'mac-chrome-cli dom eval --js "document.title"',
-        'mac-chrome-cli dom eval --js "document.querySelectorAll(\'button\').length"'
-      ]
-    },
-    
-    // Wait Command
-    {
-      name: 'wait',
-      description: 'Wait for specified duration',
-      category: 'Utility Commands',
-      permissions: [],
-      options: [{
-        name: '--ms',
-        type: 'number',
-        required: false,
-        default: 800,
-        description: 'Duration to wait in milliseconds'
-      }],
-      examples: ['mac-chrome-cli wait --ms 1000']
-    },
-    
-    // Network Monitoring
-    {
-      name: 'netlog',
-      description: 'Network monitoring and logging commands',
-      category: 'Network Monitoring',
-      permissions: ['automation'],
-      subcommands: [
-        {
-          name: 'netlog start',
-          description: 'Start network monitoring',
-          category: 'Network Monitoring',
-          permissions: ['automation'],
-          options: [
-            {
-              name: '--max-events',
-              type: 'number',
-              required: false,
-              default: 100,
-              description: 'Maximum number of events to store'
-            },
-            {
-              name: '--body-limit',
-              type: 'number',
-              required: false,
-              default: 2048,
-              description: 'Maximum body preview size in bytes'
-            }
-          ]
-        },
-        {
-          name: 'netlog stop',
-          description: 'Stop network monitoring',
-          category: 'Network Monitoring',
-          permissions: ['automation']
-        },
-        {
-          name: 'netlog dump',
-          description: 'Dump captured network events',
-          category: 'Network Monitoring',
-          permissions: ['automation'],
-          options: [{
-            name: '--format',
-            type: 'string',
-            required: false,
-            default: 'json',
-            description: 'Output format (json|har)'
-          }]
-        },
-        {
-          name: 'netlog clear',
-          description: 'Clear captured network events',
-          category: 'Network Monitoring',
-          permissions: ['automation']
-        }
-      ]
-    },
-    
-    // Snapshot Commands
-    {
-      name: 'snapshot',
-      description: 'Page structure extraction commands',
-      category: 'Page Snapshots',
-      permissions: ['automation'],
-      subcommands: [
-        {
-          name: 'snapshot outline',
-          description: 'Capture flat list of interactive elements',
-          category: 'Page Snapshots',
-          permissions: ['automation'],
-          options: [{
-            name: '--visible-only',
-            type: 'boolean',
-            required: false,
-            description: 'Only include visible elements'
-          }]
-        },
-        {
-          name: 'snapshot dom-lite',
-          description: 'Capture pruned DOM hierarchy',
-          category: 'Page Snapshots',
-          permissions: ['automation'],
-          options: [
-            {
-              name: '--max-depth',
-              type: 'number',
-              required: false,
-              default: 10,
-              description: 'Maximum traversal depth'
-            },
-            {
-              name: '--visible-only',
-              type: 'boolean',
-              required: false,
-              description: 'Only include visible elements'
-            }
-          ]
-        }
-      ]
-    },
-    
-    // Scroll Commands
-    {
-      name: 'scroll',
-      description: 'Page scrolling commands',
-      category: 'Scrolling Control',
-      permissions: ['automation'],
-      subcommands: [
-        {
-          name: 'scroll to',
-          description: 'Scroll to element (centers in viewport)',
-          category: 'Scrolling Control',
-          permissions: ['automation'],
-          options: [
-            {
-              name: '--selector',
-              type: 'string',
-              required: true,
-              description: 'CSS selector for element'
-            },
-            {
-              name: '--smooth',
-              type: 'boolean',
-              required: false,
-              description: 'Use smooth scrolling animation'
-            },
-            {
-              name: '--tab',
-              type: 'number',
-              required: false,
-              default: 1,
-              description: 'Tab index (1-based)'
-            },
-            {
-              name: '--window',
-              type: 'number',
-              required: false,
-              default: 1,
-              description: 'Window index (1-based)'
-            }
-          ]
-        },
-        {
-          name: 'scroll by',
-          description: 'Scroll by pixel amount',
-          category: 'Scrolling Control',
-          permissions: ['automation'],
-          options: [
-            {
-              name: '--px',
-              type: 'number',
-              required: true,
-              description: 'Number of pixels to scroll'
-            },
-            {
-              name: '--smooth',
-              type: 'boolean',
-              required: false,
-              description: 'Use smooth scrolling animation'
-            },
-            {
-              name: '--horizontal',
-              type: 'boolean',
-              required: false,
-              description: 'Scroll horizontally instead of vertically'
-            },
-            {
-              name: '--tab',
-              type: 'number',
-              required: false,
-              default: 1,
-              description: 'Tab index (1-based)'
-            },
-            {
-              name: '--window',
-              type: 'number',
-              required: false,
-              default: 1,
-              description: 'Window index (1-based)'
-            }
-          ]
-        },
-        {
-          name: 'scroll position',
-          description: 'Get current scroll position',
-          category: 'Scrolling Control',
-          permissions: ['automation'],
-          options: [
-            {
-              name: '--tab',
-              type: 'number',
-              required: false,
-              default: 1,
-              description: 'Tab index (1-based)'
-            },
-            {
-              name: '--window',
-              type: 'number',
-              required: false,
-              default: 1,
-              description: 'Window index (1-based)'
-            }
-          ]
-        }
-      ]
-    },
-    
-    // File Commands
-    {
-      name: 'files',
-      description: 'File upload and management commands',
-      category: 'File Operations',
-      permissions: ['automation'],
-      subcommands: [
-        {
-          name: 'files upload',
-          description: 'Upload files to a file input element',
-          category: 'File Operations',
-          permissions: ['automation'],
-          options: [
-            {
-              name: '--selector',
-              type: 'string',
-              required: true,
-              description: 'CSS selector for file input element'
-            },
-            {
-              name: '--path',
-              type: 'string',
-              required: true,
-              description: 'File path or comma-separated paths for multiple files'
-            },
-            {
-              name: '--multiple',
-              type: 'boolean',
-              required: false,
-              description: 'Enable multiple file selection'
-            }
-          ]
-        },
-        {
-          name: 'files dragdrop',
-          description: 'Simulate drag and drop file upload to a dropzone',
-          category: 'File Operations',
-          permissions: ['automation'],
-          options: [
-            {
-              name: '--selector',
-              type: 'string',
-              required: true,
-              description: 'CSS selector for dropzone element'
-            },
-            {
-              name: '--path',
-              type: 'string',
-              required: true,
-              description: 'File path or comma-separated paths for multiple files'
-            },
-            {
-              name: '--multiple',
-              type: 'boolean',
-              required: false,
-              description: 'Enable multiple file selection'
-            }
-          ]
-        }
-      ]
-    },
-    
-    // Meta Commands
-    {
-      name: 'meta',
-      description: 'CLI information and statistics commands',
-      category: 'System Diagnostics',
-      permissions: [],
-      subcommands: [
-        {
-          name: 'meta info',
-          description: 'Show CLI version, capabilities, and implementation status',
-          category: 'System Diagnostics',
-          permissions: []
-        },
-        {
-          name: 'meta stats',
-          description: 'Show CLI runtime statistics and performance metrics',
-          category: 'System Diagnostics',
-          permissions: []
-        },
-        {
-          name: 'meta commands',
-          description: 'List all available commands with descriptions and status',
-          category: 'System Diagnostics',
-          permissions: []
-        },
-        {
-          name: 'meta permissions',
-          description: 'Show permission requirements for all features',
-          category: 'System Diagnostics',
-          permissions: []
-        },
-        {
-          name: 'meta performance',
-          description: 'Show performance statistics and optimization recommendations',
-          category: 'System Diagnostics',
-          permissions: []
-        }
-      ]
-    }
-  ];
-}
-
 
 /**
  * Get external dependencies
@@ -765,6 +132,31 @@ function getExternalDependencies(): ExternalDependency[] {
   ];
 }
 
+/**
+ * Get JSON Schema for command options and Result data, generated from the CLI's command definitions
+ *
+ * @param program - The CLI program whose commands are described
+ * @param command - Command path (e.g. 'snapshot outline'); all commands when omitted
+ * @throws {INVALID_INPUT} When the program has no such command
+ */
+export async function getCommandSchemas(program: Command, command?: string): Promise<Result<CommandSchema[], string>> {
+  const commands = listSchemaCommands(program);
+  if (command === undefined) {
+    return ok(commands.map(({ name, command: definition }) => buildCommandSchema(name, definition)));
+  }
+
+  const name = command.trim().split(/\s+/).join(' ');
+  const match = commands.find(candidate => candidate.name === name);
+  if (!match) {
+    return error(
+      `Unknown command "${name}". Available: ${commands.map(candidate => candidate.name).join(', ')}`,
+      ErrorCode.INVALID_INPUT,
+      { recoveryHint: 'user_action' }
+    );
+  }
+  return ok([buildCommandSchema(match.name, match.command)]);
+}
+
 /**
  * Get permission requirements
  */
@@ -792,7 +184,7 @@ function getPermissionRequirements(): PermissionInfo[] {
         'Execute JavaScript in page context',
         'Monitor network activity'
       ],
-      commands: ['nav', 'dom', 'snapshot', 'scroll', 'files', 'netlog', 'tab'],
+      commands: ['nav', 'dom', 'snapshot', 'scroll', 'files', 'netlog', 'tab', 'windows', 'window'],
       setupInstructions: 'System Settings > Privacy & Security > Automation > Terminal > Google Chrome'
     },
     {
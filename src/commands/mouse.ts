@@ -3,7 +3,8 @@
  * 
  * This module provides mouse interaction functionality using the service-oriented
  * architecture with standardized error handling and result types. Supports clicking,
- * moving, dragging, and various mouse actions with element visibility validation.
+ * moving, dragging, and various mouse actions. Clicks wait until the target element
+ * is actionable (see `actionability.ts`).
  * 
  * @example
  * ```typescript
@@ -43,9 +44,10 @@ import {
   type MouseActionData
 } from '../lib/mouse.js';
 import { type RecoveryStrategy } from '../core/Result.js';
-import { validateElementVisibility } from '../lib/coords.js';
 import { ErrorCode, getErrorInfo } from '../core/ErrorCodes.js';
 import { scrollToElement } from './scroll.js';
+import { waitForActionable } from './actionability.js';
+import { resolveTargetSelector, restoreLocator } from './locator.js';
 
 /**
  * Mouse click options with enhanced validation and type safety
@@ -67,6 +69,10 @@ export interface MouseClickOptions {
   offsetY?: number;
   /** Target window index (1-based) */
   windowIndex?: number;
+  /** Maximum time to wait for the element to become actionable in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Skip actionability checks and click as soon as the element is scrolled into view */
+  force?: boolean;
 }
 
 /**
@@ -118,7 +124,8 @@ export class MouseCommand extends BrowserCommandBase {
    * Perform a mouse click action with automatic element scrolling
    * 
    * Clicks on the specified element (by selector) or at specific coordinates.
-   * Automatically scrolls elements into view and validates visibility before clicking.
+   * Waits until the element is visible, stable, enabled and not covered, scrolling
+   * it into view, before clicking (skipped with `force`).
    * 
    * @param options Mouse click configuration options
    * @returns Promise resolving to mouse action result with coordinates
@@ -128,7 +135,7 @@ export class MouseCommand extends BrowserCommandBase {
    * @throws {INVALID_COORDINATES} When x/y coordinates are negative or non-finite
    * @throws {TARGET_NOT_FOUND} When specified element selector matches no elements on page
    * @throws {ELEMENT_NOT_VISIBLE} When target element exists but is not visible in viewport
-   * @throws {ELEMENT_NOT_INTERACTABLE} When target element cannot be clicked (disabled, hidden)
+   * @throws {ELEMENT_NOT_INTERACTABLE} When target element stays disabled, moving or covered by another element
    * @throws {TARGET_OUTSIDE_VIEWPORT} When element cannot be scrolled into viewport
    * @throws {MULTIPLE_TARGETS_FOUND} When selector matches multiple elements (ambiguous target)
    * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
@@ -234,11 +241,17 @@ export class MouseCommand extends BrowserCommandBase {
    * const coordResult = await mouseCmd.move({ x: 150, y: 250 });
    * ```
    */
-  async move(options: MouseMoveOptions): Promise<Result<MouseActionData, string>> {
-    const validationResult = this.validateMouseOptions(options);
+  async move(requested: MouseMoveOptions): Promise<Result<MouseActionData, string>> {
+    const validationResult = this.validateMouseOptions(requested);
     if (!validationResult.success) {
       return validationResult as Result<MouseActionData, string>;
     }
+
+    const targetResult = await this.resolveTarget(requested, 'move');
+    if (!targetResult.success) {
+      return targetResult;
+    }
+    const options = targetResult.data;
     
     // If selector provided, scroll element into view for consistency
     if (options.selector) {
@@ -258,7 +271,7 @@ export class MouseCommand extends BrowserCommandBase {
       ...(options.windowIndex && { windowIndex: options.windowIndex })
     };
     
-    return this.executeBrowserCommand(
+    const moveResult = await this.executeBrowserCommand(
       async () => {
         const result = await mouseMove(mouseOptions);
         if (result.success && result.data) {
@@ -268,6 +281,7 @@ export class MouseCommand extends BrowserCommandBase {
       },
       'mouse-move'
     );
+    return this.restoreRequestedSelector(moveResult, requested, options);
   }
   
   /**
@@ -329,16 +343,27 @@ export class MouseCommand extends BrowserCommandBase {
    * );
    * ```
    */
-  async drag(fromOptions: MouseMoveOptions, toOptions: MouseMoveOptions): Promise<Result<MouseActionData, string>> {
-    const fromValidation = this.validateMouseOptions(fromOptions);
+  async drag(fromRequested: MouseMoveOptions, toRequested: MouseMoveOptions): Promise<Result<MouseActionData, string>> {
+    const fromValidation = this.validateMouseOptions(fromRequested);
     if (!fromValidation.success) {
       return fromValidation as Result<MouseActionData, string>;
     }
     
-    const toValidation = this.validateMouseOptions(toOptions);
+    const toValidation = this.validateMouseOptions(toRequested);
     if (!toValidation.success) {
       return toValidation as Result<MouseActionData, string>;
     }
+
+    const fromTarget = await this.resolveTarget(fromRequested, 'drag');
+    if (!fromTarget.success) {
+      return fromTarget;
+    }
+    const toTarget = await this.resolveTarget(toRequested, 'drag');
+    if (!toTarget.success) {
+      return toTarget;
+    }
+    const fromOptions = fromTarget.data;
+    const toOptions = toTarget.data;
     
     // Convert to MouseOptions format for the existing mouse library
     const fromMouseOptions: LibMouseOptions = {
@@ -375,7 +400,8 @@ export class MouseCommand extends BrowserCommandBase {
    * Perform a double-click action with automatic element scrolling
    * 
    * Double-clicks on the specified element (by selector) or at specific coordinates.
-   * Automatically scrolls elements into view and validates visibility before double-clicking.
+   * Waits until the element is visible, stable, enabled and not covered, scrolling
+   * it into view, before double-clicking (skipped with `force`).
    * 
    * @param options Mouse double-click configuration options
    * @returns Promise resolving to mouse action result with coordinates
@@ -385,7 +411,7 @@ export class MouseCommand extends BrowserCommandBase {
    * @throws {INVALID_COORDINATES} When x/y coordinates are negative or non-finite
    * @throws {TARGET_NOT_FOUND} When specified element selector matches no elements on page
    * @throws {ELEMENT_NOT_VISIBLE} When target element exists but is not visible in viewport
-   * @throws {ELEMENT_NOT_INTERACTABLE} When target element cannot be double-clicked (disabled, hidden)
+   * @throws {ELEMENT_NOT_INTERACTABLE} When target element stays disabled, moving or covered by another element
    * @throws {TARGET_OUTSIDE_VIEWPORT} When element cannot be scrolled into viewport
    * @throws {MULTIPLE_TARGETS_FOUND} When selector matches multiple elements (ambiguous target)
    * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
@@ -432,7 +458,8 @@ export class MouseCommand extends BrowserCommandBase {
    * Perform a right-click (context menu) action with automatic element scrolling
    * 
    * Right-clicks on the specified element (by selector) or at specific coordinates.
-   * Automatically scrolls elements into view and validates visibility before right-clicking.
+   * Waits until the element is visible, stable, enabled and not covered, scrolling
+   * it into view, before right-clicking (skipped with `force`).
    * Typically used to open context menus.
    * 
    * @param options Mouse right-click configuration options
@@ -443,7 +470,7 @@ export class MouseCommand extends BrowserCommandBase {
    * @throws {INVALID_COORDINATES} When x/y coordinates are negative or non-finite
    * @throws {TARGET_NOT_FOUND} When specified element selector matches no elements on page
    * @throws {ELEMENT_NOT_VISIBLE} When target element exists but is not visible in viewport
-   * @throws {ELEMENT_NOT_INTERACTABLE} When target element cannot be right-clicked (disabled, hidden)
+   * @throws {ELEMENT_NOT_INTERACTABLE} When target element stays disabled, moving or covered by another element
    * @throws {TARGET_OUTSIDE_VIEWPORT} When element cannot be scrolled into viewport
    * @throws {MULTIPLE_TARGETS_FOUND} When selector matches multiple elements (ambiguous target)
    * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
@@ -490,21 +517,27 @@ export class MouseCommand extends BrowserCommandBase {
    * Perform a mouse action with unified validation, scrolling, and error handling
    */
   private async performMouseAction(
-    options: MouseClickOptions,
+    requested: MouseClickOptions,
     actionType: MouseActionType,
     actionFunction: MouseActionFunction
   ): Promise<Result<MouseActionData, string>> {
     // Validate input options
-    const validationResult = this.validateMouseOptions(options);
+    const validationResult = this.validateMouseOptions(requested);
     if (!validationResult.success) {
       return validationResult as Result<MouseActionData, string>;
     }
+
+    const targetResult = await this.resolveTarget(requested, actionType);
+    if (!targetResult.success) {
+      return targetResult;
+    }
+    const options = targetResult.data;
     
-    // If selector provided, scroll element into view and validate visibility
+    // If selector provided, wait until the element can receive the click
     if (options.selector) {
       const elementValidationResult = await this.validateAndPrepareElement(
-        options.selector,
-        options.windowIndex || 1,
+        { ...options, selector: options.selector },
+        requested.selector ?? options.selector,
         actionType
       );
       
@@ -517,7 +550,7 @@ export class MouseCommand extends BrowserCommandBase {
     const mouseOptions = this.convertToLibMouseOptions(options);
     
     // Execute the mouse action with unified error handling
-    return this.executeBrowserCommand(
+    const actionResult = await this.executeBrowserCommand(
       async () => {
         const result = await actionFunction(mouseOptions);
         if (result.success && result.data) {
@@ -543,48 +576,76 @@ export class MouseCommand extends BrowserCommandBase {
       },
       `mouse-${actionType}`
     );
+    return this.restoreRequestedSelector(actionResult, requested, options);
+  }
+
+  /**
+   * Resolve a text, role or XPath locator to the element's CSS selector once,
+   * so scrolling, visibility checks and coordinates all address the same element
+   */
+  private async resolveTarget<T extends MouseMoveOptions>(
+    options: T,
+    actionType: MouseActionType | 'move' | 'drag'
+  ): Promise<Result<T, string>> {
+    if (!options.selector) {
+      return ok(options);
+    }
+
+    const resolved = await resolveTargetSelector(options.selector, options.windowIndex || 1);
+    if (!resolved.success) {
+      return error(resolved.error, resolved.code, {
+        recoveryHint: this.determineMouseRecoveryStrategy(resolved.code),
+        metadata: { selector: options.selector, operation: actionType }
+      });
+    }
+    return ok({ ...options, selector: resolved.data });
+  }
+
+  /**
+   * Report the selector or locator the caller gave in the action result
+   */
+  private restoreRequestedSelector(
+    result: Result<MouseActionData, string>,
+    requested: MouseMoveOptions,
+    resolved: MouseMoveOptions
+  ): Result<MouseActionData, string> {
+    return requested.selector && resolved.selector
+      ? restoreLocator(result, requested.selector, resolved.selector)
+      : result;
   }
   
   /**
-   * Validate element visibility and prepare it for mouse interaction
+   * Wait until the element is attached, visible, stable, enabled and hit by
+   * the click point, scrolling it into view as needed. With `force` the
+   * element is only scrolled into view.
    */
   private async validateAndPrepareElement(
-    selector: string,
-    windowIndex: number,
+    options: MouseClickOptions & { selector: string },
+    requestedSelector: string,
     actionType: MouseActionType
   ): Promise<Result<void, string>> {
-    // Automatically scroll element into view
-    const scrollResult = await this.scrollElementIntoView(selector, windowIndex);
-    if (!scrollResult.success) {
-      return scrollResult;
-    }
-    
-    // Validate element visibility and interactability
-    const visibilityResult = await validateElementVisibility(selector, windowIndex);
-    
-    if (!visibilityResult.success) {
-      // Use the original error code to determine recovery strategy  
-      const originalErrorCode = visibilityResult.code || ErrorCode.JAVASCRIPT_ERROR;
-      return error(`Element validation failed: ${visibilityResult.error}`, ErrorCode.JAVASCRIPT_ERROR, {
-        recoveryHint: this.determineMouseRecoveryStrategy(originalErrorCode),
-        metadata: { selector, operation: actionType }
-      });
-    }
-    
-    if (!visibilityResult.data?.visible) {
-      return error(`Element "${selector}" is not visible`, ErrorCode.ELEMENT_NOT_VISIBLE, {
-        recoveryHint: this.determineMouseRecoveryStrategy(ErrorCode.ELEMENT_NOT_VISIBLE),
-        metadata: { selector, operation: actionType }
-      });
+    const windowIndex = options.windowIndex || 1;
+
+    if (options.force) {
+      return this.scrollElementIntoView(options.selector, windowIndex);
     }
-    
-    if (!visibilityResult.data?.clickable) {
-      return error(`Element "${selector}" is not clickable`, ErrorCode.ELEMENT_NOT_INTERACTABLE, {
-        recoveryHint: this.determineMouseRecoveryStrategy(ErrorCode.ELEMENT_NOT_INTERACTABLE),
-        metadata: { selector, operation: actionType }
+
+    const actionable = await waitForActionable(options.selector, {
+      windowIndex,
+      label: requestedSelector,
+      ...(options.offsetX !== undefined && { offsetX: options.offsetX }),
+      ...(options.offsetY !== undefined && { offsetY: options.offsetY }),
+      ...(options.timeoutMs !== undefined && { timeoutMs: options.timeoutMs })
+    });
+
+    if (!actionable.success) {
+      return error(actionable.error, actionable.code, {
+        recoveryHint: this.determineMouseRecoveryStrategy(actionable.code),
+        ...(actionable.context?.durationMs !== undefined && { durationMs: actionable.context.durationMs }),
+        metadata: { ...actionable.context?.metadata, selector: requestedSelector, operation: actionType }
       });
     }
-    
+
     return ok(undefined);
   }
   
@@ -0,0 +1,412 @@
+/**
+ * @fileoverview Latency and error analysis for captured network events
+ *
+ * This module summarizes events captured by `netlog start`: per-host and
+ * per-endpoint request counts, p50/p95/p99 durations, error rates, transferred
+ * body bytes and the slowest requests. It can also render a text waterfall for
+ * the terminal.
+ *
+ * Endpoints group URLs by method, host and path with numeric, UUID and long hex
+ * path segments collapsed to `:id`, so `/users/17` and `/users/42` are one row.
+ *
+ * @example
+ * ```typescript
+ * const log = await dumpNetworkLog();
+ * const stats = computeNetworkStats(log.data!.events, { top: 5 });
+ * console.log(formatNetworkStats(stats));
+ * console.log(renderWaterfall(log.data!.events));
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { Result, ok } from '../core/Result.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import type { NetworkEvent } from './netlog.js';
+
+/**
+ * Options for computing network statistics
+ */
+export interface NetworkStatsOptions {
+  /** Number of slowest requests to report (default 10) */
+  top?: number;
+}
+
+/**
+ * Duration distribution in milliseconds (nearest-rank percentiles)
+ */
+export interface LatencySummary {
+  count: number;
+  min: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Statistics for one host or endpoint
+ */
+export interface NetworkStatsGroup {
+  key: string;
+  requests: number;
+  completed: number;
+  errors: number;
+  /** Errors divided by completed requests, 0..1 */
+  errorRate: number;
+  bytes: number;
+  latency: LatencySummary | null;
+}
+
+export interface SlowRequest {
+  id: string;
+  method: string;
+  url: string;
+  status?: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface NetworkStatsReport {
+  cmd: 'netlog.stats';
+  requests: number;
+  completed: number;
+  /** Requests without a response or error yet */
+  pending: number;
+  errors: number;
+  errorRate: number;
+  bytes: {
+    request: number;
+    response: number;
+    total: number;
+    /** True when a truncated body preview had no Content-Length to fall back on */
+    estimated: boolean;
+  };
+  latency: LatencySummary | null;
+  hosts: NetworkStatsGroup[];
+  endpoints: NetworkStatsGroup[];
+  slowest: SlowRequest[];
+}
+
+export interface WaterfallOptions {
+  /** Width of the bar area in characters (default 50) */
+  width?: number;
+  /** Maximum rows to render (default 50) */
+  maxRows?: number;
+}
+
+const DEFAULT_TOP = 10;
+const DEFAULT_WATERFALL_WIDTH = 50;
+const DEFAULT_WATERFALL_ROWS = 50;
+const WATERFALL_LABEL_WIDTH = 40;
+const TRUNCATED_MARKER = '...[truncated]';
+// Host key for relative XHR URLs, which are resolved against the page origin
+const SAME_ORIGIN_HOST = '(same-origin)';
+
+/**
+ * Validate stats options
+ */
+export function validateNetworkStatsOptions(options: NetworkStatsOptions): Result<NetworkStatsOptions, string> {
+  if (options.top !== undefined && (!Number.isInteger(options.top) || options.top < 0 || options.top > 1000)) {
+    return ErrorUtils.validationError('Top must be an integer between 0 and 1000', 'top', options.top);
+  }
+  return ok(options);
+}
+
+/**
+ * Validate waterfall options
+ */
+export function validateWaterfallOptions(options: WaterfallOptions): Result<WaterfallOptions, string> {
+  if (options.width !== undefined && (!Number.isInteger(options.width) || options.width < 10 || options.width > 500)) {
+    return ErrorUtils.validationError('Waterfall width must be an integer between 10 and 500', 'width', options.width);
+  }
+  if (options.maxRows !== undefined && (!Number.isInteger(options.maxRows) || options.maxRows < 1)) {
+    return ErrorUtils.validationError('Waterfall rows must be a positive integer', 'maxRows', options.maxRows);
+  }
+  return ok(options);
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.max(0, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.min(index, sorted.length - 1)];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Summarize a list of durations; null when there are none
+ */
+export function summarizeLatency(durations: number[]): LatencySummary | null {
+  if (durations.length === 0) {
+    return null;
+  }
+  const sorted = [...durations].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return {
+    count: sorted.length,
+    min: round(sorted[0]),
+    mean: round(total / sorted.length),
+    p50: round(percentile(sorted, 50)),
+    p95: round(percentile(sorted, 95)),
+    p99: round(percentile(sorted, 99)),
+    max: round(sorted[sorted.length - 1])
+  };
+}
+
+function parseEventUrl(url: string): { host: string; path: string } {
+  try {
+    const parsed = new URL(url);
+    return { host: parsed.host, path: parsed.pathname };
+  } catch {
+    return { host: SAME_ORIGIN_HOST, path: url.split(/[?#]/)[0] || '/' };
+  }
+}
+
+/**
+ * Collapse id-like path segments so requests for different records share an endpoint
+ */
+export function normalizeEndpointPath(path: string): string {
+  return path
+    .split('/')
+    .map(segment =>
+      /^\d+$/.test(segment) ||
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+      /^[0-9a-f]{16,}$/i.test(segment)
+        ? ':id'
+        : segment
+    )
+    .join('/');
+}
+
+function isCompleted(event: NetworkEvent): boolean {
+  return Boolean(event.error) || (typeof event.status === 'number' && event.status > 0);
+}
+
+function isError(event: NetworkEvent): boolean {
+  return Boolean(event.error) || (typeof event.status === 'number' && event.status >= 400);
+}
+
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const match = Object.keys(headers || {}).find(key => key.toLowerCase() === name);
+  return match ? headers![match] : undefined;
+}
+
+/**
+ * Body bytes for an event. Response sizes prefer Content-Length because body
+ * previews are truncated to the netlog body limit.
+ */
+function eventBytes(event: NetworkEvent): { request: number; response: number; estimated: boolean } {
+  const request = event.requestBody ? Buffer.byteLength(event.requestBody) : 0;
+  let estimated = Boolean(event.requestBody?.endsWith(TRUNCATED_MARKER));
+
+  const contentLengthHeader = findHeader(event.responseHeaders, 'content-length');
+  const contentLength = contentLengthHeader !== undefined ? Number(contentLengthHeader) : NaN;
+  let response = 0;
+  if (Number.isFinite(contentLength) && contentLength >= 0) {
+    response = contentLength;
+  } else if (event.responseBody) {
+    response = Buffer.byteLength(event.responseBody);
+    estimated = estimated || event.responseBody.endsWith(TRUNCATED_MARKER);
+  }
+
+  return { request, response, estimated };
+}
+
+function buildGroups(events: NetworkEvent[], keyOf: (event: NetworkEvent) => string): NetworkStatsGroup[] {
+  const buckets = new Map<string, NetworkEvent[]>();
+  for (const event of events) {
+    const key = keyOf(event);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(event);
+    } else {
+      buckets.set(key, [event]);
+    }
+  }
+
+  return Array.from(buckets.entries())
+    .map(([key, bucket]) => {
+      const completed = bucket.filter(isCompleted);
+      const errors = completed.filter(isError).length;
+      return {
+        key,
+        requests: bucket.length,
+        completed: completed.length,
+        errors,
+        errorRate: completed.length > 0 ? errors / completed.length : 0,
+        bytes: bucket.reduce((sum, event) => {
+          const bytes = eventBytes(event);
+          return sum + bytes.request + bytes.response;
+        }, 0),
+        latency: summarizeLatency(durationsOf(completed))
+      };
+    })
+    .sort((a, b) => b.requests - a.requests || a.key.localeCompare(b.key));
+}
+
+function durationsOf(events: NetworkEvent[]): number[] {
+  return events
+    .map(event => event.timing?.duration)
+    .filter((duration): duration is number => typeof duration === 'number' && Number.isFinite(duration));
+}
+
+/**
+ * Compute latency, error and size statistics for captured events
+ */
+export function computeNetworkStats(events: NetworkEvent[], options: NetworkStatsOptions = {}): NetworkStatsReport {
+  const top = options.top ?? DEFAULT_TOP;
+  const completed = events.filter(isCompleted);
+  const errors = completed.filter(isError).length;
+
+  const bytes = { request: 0, response: 0, total: 0, estimated: false };
+  for (const event of events) {
+    const eventSize = eventBytes(event);
+    bytes.request += eventSize.request;
+    bytes.response += eventSize.response;
+    bytes.estimated = bytes.estimated || eventSize.estimated;
+  }
+  bytes.total = bytes.request + bytes.response;
+
+  const slowest = completed
+    .filter(event => typeof event.timing?.duration === 'number')
+    .sort((a, b) => b.timing!.duration! - a.timing!.duration!)
+    .slice(0, top)
+    .map(event => ({
+      id: event.id,
+      method: event.method,
+      url: event.url,
+      ...(event.status !== undefined && { status: event.status }),
+      durationMs: round(event.timing!.duration!),
+      ...(event.error && { error: event.error })
+    }));
+
+  return {
+    cmd: 'netlog.stats',
+    requests: events.length,
+    completed: completed.length,
+    pending: events.length - completed.length,
+    errors,
+    errorRate: completed.length > 0 ? errors / completed.length : 0,
+    bytes,
+    latency: summarizeLatency(durationsOf(completed)),
+    hosts: buildGroups(events, event => parseEventUrl(event.url).host),
+    endpoints: buildGroups(events, event => {
+      const { host, path } = parseEventUrl(event.url);
+      return `${event.method} ${host}${normalizeEndpointPath(path)}`;
+    }),
+    slowest
+  };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatLatency(latency: LatencySummary | null): string {
+  return latency
+    ? `p50 ${latency.p50}ms  p95 ${latency.p95}ms  p99 ${latency.p99}ms`
+    : 'no timings';
+}
+
+function formatGroups(title: string, groups: NetworkStatsGroup[]): string[] {
+  if (groups.length === 0) return [];
+  const keyWidth = Math.min(60, Math.max(...groups.map(group => group.key.length)));
+  const lines = ['', `${title}:`];
+  for (const group of groups) {
+    const key = group.key.length > keyWidth ? group.key.slice(0, keyWidth - 1) + '…' : group.key.padEnd(keyWidth);
+    lines.push(
+      `  ${key}  ${String(group.requests).padStart(4)} req  ${formatLatency(group.latency)}  ` +
+      `err ${formatPercent(group.errorRate)}  ${formatBytes(group.bytes)}`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Format a stats report for the terminal
+ */
+export function formatNetworkStats(report: NetworkStatsReport): string {
+  const lines: string[] = [];
+  lines.push(
+    `Network stats: ${report.requests} request(s) (${report.completed} completed, ${report.pending} pending), ` +
+    `${report.errors} error(s) (${formatPercent(report.errorRate)}), ` +
+    `${report.bytes.estimated ? '~' : ''}${formatBytes(report.bytes.total)} transferred`
+  );
+  if (report.latency) {
+    lines.push(`Latency: ${formatLatency(report.latency)} (min ${report.latency.min}ms, mean ${report.latency.mean}ms, max ${report.latency.max}ms)`);
+  }
+
+  lines.push(...formatGroups('Hosts', report.hosts));
+  lines.push(...formatGroups('Endpoints', report.endpoints));
+
+  if (report.slowest.length > 0) {
+    lines.push('', 'Slowest:');
+    for (const request of report.slowest) {
+      const outcome = request.error || (request.status !== undefined ? String(request.status) : '');
+      lines.push(`  ${`${request.durationMs}ms`.padStart(9)}  ${request.method} ${request.url}  ${outcome}`.trimEnd());
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render events as a text waterfall, one row per request in start order.
+ * Pending requests extend to the end of the timeline with a lighter bar.
+ */
+export function renderWaterfall(events: NetworkEvent[], options: WaterfallOptions = {}): string {
+  const width = options.width ?? DEFAULT_WATERFALL_WIDTH;
+  const maxRows = options.maxRows ?? DEFAULT_WATERFALL_ROWS;
+  const timed = events
+    .filter(event => typeof event.timing?.startTime === 'number')
+    .sort((a, b) => a.timing!.startTime - b.timing!.startTime);
+
+  if (timed.length === 0) {
+    return 'No timed requests to render';
+  }
+
+  const start = timed[0].timing!.startTime;
+  const end = Math.max(...timed.map(event => event.timing!.startTime + (event.timing!.duration ?? 0)));
+  const span = Math.max(end - start, 1);
+  const scale = width / span;
+
+  const lines: string[] = [];
+  const totalLabel = `${Math.round(span)}ms`;
+  lines.push(`${''.padEnd(WATERFALL_LABEL_WIDTH)}  ${'status'.padEnd(6)} ${'time'.padStart(8)}  |0ms${totalLabel.padStart(width - 3)}|`);
+
+  for (const event of timed.slice(0, maxRows)) {
+    const { host, path } = parseEventUrl(event.url);
+    const rawLabel = `${event.method} ${host === SAME_ORIGIN_HOST ? '' : host}${path}`;
+    const label = rawLabel.length > WATERFALL_LABEL_WIDTH
+      ? rawLabel.slice(0, WATERFALL_LABEL_WIDTH - 1) + '…'
+      : rawLabel.padEnd(WATERFALL_LABEL_WIDTH);
+
+    const offset = Math.min(width - 1, Math.floor((event.timing!.startTime - start) * scale));
+    const duration = event.timing!.duration;
+    const pending = duration === undefined;
+    const length = pending
+      ? width - offset
+      : Math.max(1, Math.min(width - offset, Math.round(duration * scale)));
+    const bar = ' '.repeat(offset) + (pending ? '░' : '█').repeat(length);
+
+    const status = event.error ? 'ERR' : event.status !== undefined ? String(event.status) : '...';
+    const time = pending ? 'pending' : `${Math.round(duration)}ms`;
+    lines.push(`${label}  ${status.padEnd(6)} ${time.padStart(8)}  |${bar.padEnd(width)}|`);
+  }
+
+  if (timed.length > maxRows) {
+    lines.push(`... ${timed.length - maxRows} more request(s)`);
+  }
+
+  return lines.join('\n');
+}
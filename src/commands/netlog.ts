@@ -1,26 +1,86 @@
-import { NetworkDataSanitizer } from '../security/DataSanitizer.js';
+import { readFileSync, existsSync } from 'fs';
+import { getDataSanitizer } from '../security/DataSanitizer.js';
 import { appleScriptService } from '../services/AppleScriptService.js';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { expandPath, sleep } from '../lib/util.js';
 
-// Initialize data sanitizer
-const dataSanitizer = new NetworkDataSanitizer();
+/**
+ * Case-insensitive header lookup
+ */
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
 
 /**
- * Sanitize network events to remove sensitive data
+ * Sanitize network events to remove sensitive data using the configured redaction policy
  */
 function sanitizeNetworkEvents(events: NetworkEvent[]): NetworkEvent[] {
+  const dataSanitizer = getDataSanitizer();
   return events.map(event => ({
     ...event,
     url: dataSanitizer.sanitizeUrl(event.url),
     requestHeaders: dataSanitizer.sanitizeHeaders(event.requestHeaders),
-    ...(event.requestBody && { requestBody: dataSanitizer.sanitizeBody(event.requestBody) }),
+    ...(event.requestBody && {
+      requestBody: dataSanitizer.sanitizeBody(event.requestBody, headerValue(event.requestHeaders, 'content-type'))
+    }),
     ...(event.responseHeaders && { responseHeaders: dataSanitizer.sanitizeHeaders(event.responseHeaders) }),
-    ...(event.responseBody && { responseBody: dataSanitizer.sanitizeBody(event.responseBody) })
+    ...(event.responseBody && {
+      responseBody: dataSanitizer.sanitizeBody(event.responseBody, headerValue(event.responseHeaders, 'content-type'))
+    }),
+    ...(event.webSocket && { webSocket: sanitizeWebSocketDetails(event.webSocket) })
   }));
 }
 
+/**
+ * Sanitize WebSocket frame payloads. Binary frames are base64 and carry no
+ * readable secrets, so only text frames are rewritten.
+ */
+function sanitizeWebSocketDetails(details: WebSocketDetails): WebSocketDetails {
+  const dataSanitizer = getDataSanitizer();
+  return {
+    ...details,
+    frames: details.frames.map(frame => frame.opcode === 1
+      ? { ...frame, payload: dataSanitizer.sanitizeBody(frame.payload) }
+      : frame
+    ),
+    ...(details.closeReason && { closeReason: dataSanitizer.sanitizeBody(details.closeReason) })
+  };
+}
+
 // Network event types
 export type NetworkEventType = 'fetch' | 'xhr' | 'websocket';
 
+export type WebSocketFrameDirection = 'send' | 'receive';
+
+export interface WebSocketFrame {
+  direction: WebSocketFrameDirection;
+  /** Epoch milliseconds */
+  timestamp: number;
+  /** 1 = text, 2 = binary */
+  opcode: 1 | 2;
+  /** Full payload size in bytes */
+  size: number;
+  /** Text, or base64 of the first bodyPreviewLimit bytes for binary frames */
+  payload: string;
+  encoding?: 'base64';
+}
+
+export interface WebSocketDetails {
+  frames: WebSocketFrame[];
+  /** Older frames discarded once maxWebSocketFrames was reached */
+  droppedFrames: number;
+  protocol?: string;
+  openedAt?: number;
+  closedAt?: number;
+  closeCode?: number;
+  closeReason?: string;
+  wasClean?: boolean;
+}
+
 export interface NetworkEvent {
   id: string;
   type: NetworkEventType;
@@ -40,6 +100,17 @@ export interface NetworkEvent {
     duration?: number;
   };
   error?: string;
+  /** True when the response was served from a HAR mock (netlog mock) */
+  mocked?: boolean;
+  /** Ids of the interception rules (netlog rules) that matched this request */
+  interceptedBy?: string[];
+  /**
+   * Completion sequence number, assigned when the request finishes (netlog tail
+   * cursor). A WebSocket gets a new one when it closes, so tail reports it again.
+   */
+  seq?: number;
+  /** Frames and lifecycle of a WebSocket connection */
+  webSocket?: WebSocketDetails;
 }
 
 export interface NetworkLogState {
@@ -47,11 +118,145 @@ export interface NetworkLogState {
   events: NetworkEvent[];
   maxEvents: number;
   bodyPreviewLimit: number;
+  maxWebSocketFrames?: number;
 }
 
 export interface NetworkLogOptions {
   maxEvents?: number;
   bodyPreviewLimit?: number;
+  /** Frames kept per WebSocket connection (newest win) */
+  maxWebSocketFrames?: number;
+}
+
+/**
+ * Inclusive status range. Requests that failed without a response have status 0.
+ */
+export interface NetworkStatusRange {
+  min: number;
+  max: number;
+}
+
+export interface NetworkEventFilter {
+  methods?: string[];
+  status?: NetworkStatusRange;
+  url?: RegExp;
+  types?: NetworkEventType[];
+}
+
+/**
+ * Finished events read from the page after a cursor
+ */
+export interface NetworkTailBatch {
+  isActive: boolean;
+  cursor: number;
+  /** True when the page log was replaced (e.g. navigation) and reading restarted */
+  reset: boolean;
+  /** Finished events that left the buffer before they could be read */
+  skipped: number;
+  events: NetworkEvent[];
+}
+
+export interface NetworkTailOptions {
+  /** HTTP methods, matched case-insensitively */
+  methods?: string[];
+  /** Status code, range ("400-599") or class ("5xx") */
+  status?: string;
+  /** Regular expression tested against the request URL */
+  url?: string;
+  types?: NetworkEventType[];
+  /** Poll interval in milliseconds (default 500) */
+  intervalMs?: number;
+  /** Stop after this many milliseconds; runs until interrupted when omitted */
+  durationMs?: number;
+  /** Stop after emitting this many events */
+  count?: number;
+  /** Also emit events already in the buffer */
+  fromStart?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface NetworkTailHandlers {
+  onEvent: (event: NetworkEvent) => void;
+  onSkipped?: (count: number) => void;
+}
+
+export interface NetworkTailSummary {
+  emitted: number;
+  skipped: number;
+  polls: number;
+  durationMs: number;
+  stoppedBy: 'duration' | 'count' | 'signal';
+}
+
+/**
+ * How requests without a matching HAR entry are handled while mocking
+ * - passthrough: send the request to the network as usual
+ * - strict: fail the request (fetch rejects, XHR fires an error event)
+ */
+export type HARMockMode = 'passthrough' | 'strict';
+
+export interface HARMockOptions {
+  mode?: HARMockMode;
+  /** Require the request body hash to match entries that recorded a body */
+  matchBody?: boolean;
+  /** Ignore query strings when matching URLs */
+  ignoreQuery?: boolean;
+}
+
+/**
+ * Response entry sent to the page hook. `url` is a pattern where `*` matches any characters.
+ */
+export interface HARMockEntry {
+  method: string;
+  url: string;
+  bodyHash?: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  /** Set when `body` holds base64 bytes, decoded in the page so binary bodies survive */
+  bodyEncoding?: 'base64';
+}
+
+export interface HARMockStatus {
+  active: boolean;
+  mode?: HARMockMode;
+  ignoreQuery?: boolean;
+  entries?: number;
+  hits?: number;
+  misses?: number;
+  unmatched?: Array<{ method: string; url: string }>;
+  /** Entries whose recorded body was truncated by netlog's body limit */
+  truncatedBodies?: number;
+}
+
+/**
+ * Interception rule applied by the page hook. Rules match by method and URL
+ * (`*` wildcards allowed); all matching rules apply, delays add up.
+ */
+export interface InterceptRuleInput {
+  urlPattern: string;
+  method?: string;
+  /** Fail the request as a network error */
+  block?: boolean;
+  /** Added latency before the request is sent or answered */
+  delayMs?: number;
+  /** Answer with this status instead of sending the request */
+  status?: number;
+  /** Answer with this body instead of sending the request */
+  body?: string;
+  responseHeaders?: Record<string, string>;
+  /** Request headers to add or overwrite */
+  setHeaders?: Record<string, string>;
+  /** Request headers to strip */
+  removeHeaders?: string[];
+}
+
+export interface InterceptRule extends InterceptRuleInput {
+  id: string;
+  /** Requests sent while the rule matched */
+  hits: number;
+  createdAt: number;
 }
 
 export interface HAR {
@@ -90,6 +295,7 @@ export interface HAREntry {
       size: number;
       mimeType: string;
       text?: string;
+      encoding?: string;
     };
     headersSize: number;
     bodySize: number;
@@ -104,6 +310,26 @@ export interface HAREntry {
     receive?: number;
     ssl?: number;
   };
+  /** Custom field: response was served from a HAR mock */
+  _mocked?: boolean;
+  /** Custom field: ids of the interception rules that matched */
+  _interceptedBy?: string[];
+  /** Chrome DevTools extension fields for WebSocket connections */
+  _resourceType?: 'websocket';
+  _webSocketMessages?: HARWebSocketMessage[];
+  /** Custom field: how the WebSocket connection closed */
+  _webSocketClose?: { code: number; reason: string; wasClean: boolean };
+}
+
+/**
+ * WebSocket message in the format Chrome DevTools writes to HAR files
+ */
+export interface HARWebSocketMessage {
+  type: WebSocketFrameDirection;
+  /** Epoch seconds */
+  time: number;
+  opcode: number;
+  data: string;
 }
 
 // JavaScript code to inject into the browser page
@@ -118,12 +344,39 @@ const NETWORK_HOOK_SCRIPT = `
       events: [],
       maxEvents: 100,
       bodyPreviewLimit: 2048,
-      eventCounter: 0
+      maxWebSocketFrames: 100,
+      eventCounter: 0,
+      pendingRequests: 0,
+      lastActivity: performance.now(),
+      rules: [],
+      ruleCounter: 0,
+      completedCounter: 0,
+      supersededSeqs: []
     };
   }
   
   const netlog = window.__netlog;
   
+  // In-flight tracking is independent of isActive so waits can detect network idle
+  if (typeof netlog.pendingRequests !== 'number') {
+    netlog.pendingRequests = 0;
+    netlog.lastActivity = performance.now();
+  }
+  
+  // Interception rules survive start/clear so they keep applying between captures
+  if (!Array.isArray(netlog.rules)) {
+    netlog.rules = [];
+    netlog.ruleCounter = 0;
+  }
+  
+  // Completion sequence numbers never reset so tail cursors survive start/clear
+  if (typeof netlog.completedCounter !== 'number') {
+    netlog.completedCounter = 0;
+  }
+  if (!Array.isArray(netlog.supersededSeqs)) {
+    netlog.supersededSeqs = [];
+  }
+  
   // Utility functions
   function generateEventId() {
     return 'evt_' + (++netlog.eventCounter);
@@ -143,6 +396,116 @@ const NETWORK_HOOK_SCRIPT = `
       netlog.events.shift();
     }
     netlog.events.push(event);
+    capturedEvents.add(event);
+  }
+  
+  // Events captured while monitoring get a sequence number once they finish
+  const capturedEvents = new WeakSet();
+  
+  function completeEvent(event) {
+    if (capturedEvents.has(event) && event.seq === undefined) {
+      event.seq = ++netlog.completedCounter;
+    }
+  }
+  
+  // A finished event that changed again (a WebSocket closing) gets a new
+  // sequence number so readers see it once more; its old number is kept so
+  // since() does not count it as skipped
+  function resequenceEvent(event) {
+    if (!capturedEvents.has(event)) return;
+    if (event.seq !== undefined) {
+      netlog.supersededSeqs.push(event.seq);
+      if (netlog.supersededSeqs.length > 1000) {
+        netlog.supersededSeqs.shift();
+      }
+    }
+    event.seq = ++netlog.completedCounter;
+  }
+  
+  // Reads up to limit characters of a response body, then cancels the rest
+  // of the stream instead of buffering it
+  function readBodyPreview(response, limit) {
+    if (!response.body || typeof response.body.getReader !== 'function') {
+      return response.text().then(text => truncateBody(text, limit));
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    const pump = () => reader.read().then(chunk => {
+      if (chunk.done) {
+        return truncateBody(text + decoder.decode(), limit);
+      }
+      text += decoder.decode(chunk.value, { stream: true });
+      if (text.length > limit) {
+        reader.cancel().catch(() => {});
+        return truncateBody(text, limit);
+      }
+      return pump();
+    });
+    return pump();
+  }
+  
+  function utf8Length(str) {
+    return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(str).length : str.length;
+  }
+  
+  function bytesToBase64(bytes) {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+  
+  // Frames keep the newest maxWebSocketFrames per socket; text payloads are
+  // truncated like bodies, binary payloads keep the first bodyPreviewLimit bytes as base64
+  function recordWebSocketFrame(event, direction, data) {
+    if (!capturedEvents.has(event)) return;
+    
+    const limit = netlog.bodyPreviewLimit;
+    const frame = {
+      direction: direction,
+      timestamp: Date.now(),
+      opcode: typeof data === 'string' ? 1 : 2,
+      size: 0,
+      payload: ''
+    };
+    
+    if (typeof data === 'string') {
+      frame.size = utf8Length(data);
+      frame.payload = truncateBody(data, limit) || '';
+    } else if (typeof Blob !== 'undefined' && data instanceof Blob) {
+      frame.size = data.size;
+      frame.encoding = 'base64';
+      data.slice(0, limit).arrayBuffer().then(buffer => {
+        frame.payload = bytesToBase64(new Uint8Array(buffer));
+      }).catch(() => {});
+    } else if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+      const bytes = data instanceof ArrayBuffer
+        ? new Uint8Array(data)
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+      frame.size = bytes.length;
+      frame.encoding = 'base64';
+      frame.payload = bytesToBase64(bytes.subarray(0, limit));
+    }
+    
+    const socket = event.webSocket;
+    socket.frames.push(frame);
+    if (socket.frames.length > netlog.maxWebSocketFrames) {
+      socket.frames.shift();
+      socket.droppedFrames++;
+    }
+  }
+  
+  function beginRequest() {
+    netlog.pendingRequests++;
+    netlog.lastActivity = performance.now();
+  }
+  
+  function endRequest() {
+    netlog.pendingRequests = Math.max(0, netlog.pendingRequests - 1);
+    netlog.lastActivity = performance.now();
   }
   
   function headersToObject(headers) {
@@ -157,6 +520,331 @@ const NETWORK_HOOK_SCRIPT = `
     return result;
   }
   
+  // HAR replay mocks (netlog mock)
+  if (netlog.mocks === undefined) {
+    netlog.mocks = null;
+    netlog.mockPatterns = [];
+  }
+  
+  // Control functions are (re)defined on every injection so a page that already
+  // has the hooks still picks up current versions; state lives on netlog so
+  // they share it with the installed hooks
+  window.__netlog.start = function(options = {}) {
+    netlog.isActive = true;
+    netlog.maxEvents = options.maxEvents || 100;
+    netlog.bodyPreviewLimit = options.bodyPreviewLimit || 2048;
+    netlog.maxWebSocketFrames = options.maxWebSocketFrames || 100;
+    netlog.events = [];
+    netlog.eventCounter = 0;
+  };
+  
+  window.__netlog.stop = function() {
+    netlog.isActive = false;
+  };
+  
+  window.__netlog.dump = function() {
+    return {
+      isActive: netlog.isActive,
+      events: netlog.events.slice(),
+      maxEvents: netlog.maxEvents,
+      bodyPreviewLimit: netlog.bodyPreviewLimit,
+      maxWebSocketFrames: netlog.maxWebSocketFrames
+    };
+  };
+  
+  window.__netlog.clear = function() {
+    netlog.events = [];
+    netlog.eventCounter = 0;
+  };
+  
+  // Finished events with seq > cursor, oldest first. A cursor ahead of the
+  // counter means the page (and its log) was replaced, so reading restarts.
+  window.__netlog.since = function(cursor, limit) {
+    const reset = cursor > netlog.completedCounter;
+    const from = reset ? 0 : cursor;
+    const finished = netlog.events
+      .filter(event => event.seq !== undefined && event.seq > from)
+      .sort((a, b) => a.seq - b.seq);
+    const truncated = limit > 0 && finished.length > limit;
+    const events = truncated ? finished.slice(0, limit) : finished;
+    const next = truncated ? events[events.length - 1].seq : netlog.completedCounter;
+    const superseded = netlog.supersededSeqs.filter(seq => seq > from && seq <= next).length;
+    return {
+      isActive: netlog.isActive,
+      cursor: next,
+      reset: reset,
+      // Finished events between the cursors that are no longer buffered
+      skipped: next - from - events.length - superseded,
+      events: events
+    };
+  };
+  
+  window.__netlog.setMocks = function(config) {
+    netlog.mocks = {
+      mode: config.mode === 'strict' ? 'strict' : 'passthrough',
+      ignoreQuery: !!config.ignoreQuery,
+      entries: config.entries.map(entry => Object.assign({}, entry, { hits: 0 })),
+      hits: 0,
+      misses: 0,
+      unmatched: []
+    };
+    netlog.mockPatterns = netlog.mocks.entries.map(entry => globToRegExp(entry.url));
+    return window.__netlog.mockStatus();
+  };
+  
+  window.__netlog.clearMocks = function() {
+    netlog.mocks = null;
+    netlog.mockPatterns = [];
+  };
+  
+  window.__netlog.addRule = function(rule) {
+    const stored = Object.assign({}, rule, {
+      id: 'rule_' + (++netlog.ruleCounter),
+      hits: 0,
+      createdAt: Date.now()
+    });
+    netlog.rules.push(stored);
+    return stored;
+  };
+  
+  window.__netlog.listRules = function() {
+    return netlog.rules.slice();
+  };
+  
+  window.__netlog.clearRules = function(id) {
+    const before = netlog.rules.length;
+    netlog.rules = id ? netlog.rules.filter(rule => rule.id !== id) : [];
+    return before - netlog.rules.length;
+  };
+  
+  window.__netlog.mockStatus = function() {
+    const mocks = netlog.mocks;
+    if (!mocks) return { active: false };
+    return {
+      active: true,
+      mode: mocks.mode,
+      ignoreQuery: mocks.ignoreQuery,
+      entries: mocks.entries.length,
+      hits: mocks.hits,
+      misses: mocks.misses,
+      unmatched: mocks.unmatched.slice()
+    };
+  };
+  
+  // Hooks are installed once per page; re-injection only refreshes state
+  if (netlog.hooksInstalled) return;
+  netlog.hooksInstalled = true;
+  
+  // FNV-1a 32-bit hash, mirrors hashRequestBody() in netlog.ts
+  function hashBody(body) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < body.length; i++) {
+      hash ^= body.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  
+  function bodyToString(body) {
+    if (body === undefined || body === null) return '';
+    if (typeof body === 'string') return body;
+    if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) return body.toString();
+    return null;
+  }
+  
+  function normalizeUrl(url, ignoreQuery) {
+    let href;
+    try {
+      href = new URL(url, window.location.href).href;
+    } catch (e) {
+      href = String(url);
+    }
+    href = href.split('#')[0];
+    return ignoreQuery ? href.split('?')[0] : href;
+  }
+  
+  function globToRegExp(pattern) {
+    const specials = '.+?^$(){}|[]\\\\/';
+    const source = pattern.split('').map(ch => {
+      if (ch === '*') return '.*';
+      return specials.indexOf(ch) >= 0 ? '\\\\' + ch : ch;
+    }).join('');
+    return new RegExp('^' + source + '$');
+  }
+  
+  function findMock(method, url, body) {
+    const mocks = netlog.mocks;
+    if (!mocks) return null;
+    
+    const target = normalizeUrl(url, mocks.ignoreQuery);
+    let bodyHash;
+    const candidates = [];
+    
+    mocks.entries.forEach((entry, index) => {
+      if (entry.method !== method || !netlog.mockPatterns[index].test(target)) return;
+      if (entry.bodyHash) {
+        if (bodyHash === undefined) {
+          const text = bodyToString(body);
+          bodyHash = text === null ? null : hashBody(text);
+        }
+        if (entry.bodyHash !== bodyHash) return;
+      }
+      candidates.push(entry);
+    });
+    
+    if (candidates.length === 0) {
+      mocks.misses++;
+      if (mocks.unmatched.length < 50) {
+        mocks.unmatched.push({ method: method, url: target });
+      }
+      return null;
+    }
+    
+    // Repeated requests replay recorded responses in order, then stick to the last one
+    const entry = candidates.find(candidate => candidate.hits === 0) || candidates[candidates.length - 1];
+    entry.hits++;
+    mocks.hits++;
+    return entry;
+  }
+  
+  function matchRules(method, url) {
+    if (netlog.rules.length === 0) return [];
+    const target = normalizeUrl(url, false);
+    const matched = netlog.rules.filter(rule =>
+      (!rule.method || rule.method === method) && globToRegExp(rule.urlPattern).test(target)
+    );
+    return matched;
+  }
+  
+  // Hits count requests actually sent, so an XHR that is opened but never sent is not counted
+  function countRuleHits(rules) {
+    rules.forEach(rule => rule.hits++);
+  }
+  
+  // Combined effect of all matching rules: first block/respond rule wins, delays add up
+  function ruleEffect(rules) {
+    return {
+      block: rules.find(rule => rule.block) || null,
+      respond: rules.find(rule => rule.status !== undefined || rule.body !== undefined) || null,
+      delayMs: rules.reduce((total, rule) => total + (rule.delayMs || 0), 0)
+    };
+  }
+  
+  function ruleResponse(rule) {
+    return {
+      status: rule.status || 200,
+      statusText: '',
+      headers: rule.responseHeaders || {},
+      body: rule.body || ''
+    };
+  }
+  
+  function hasHeaderRules(rules) {
+    return rules.some(rule => (rule.removeHeaders && rule.removeHeaders.length > 0) || (rule.setHeaders && Object.keys(rule.setHeaders).length > 0));
+  }
+  
+  function applyFetchHeaderRules(rules, input, init) {
+    const headers = new Headers(init.headers || (input && typeof input === 'object' && input.headers) || undefined);
+    rules.forEach(rule => {
+      (rule.removeHeaders || []).forEach(name => headers.delete(name));
+      Object.keys(rule.setHeaders || {}).forEach(name => headers.set(name, rule.setHeaders[name]));
+    });
+    return Object.assign({}, init, { headers: headers });
+  }
+  
+  // Header names whose page-set values are dropped for an XHR (stripped or replaced by a rule)
+  function ruleManagedHeaders(rules) {
+    const names = new Set();
+    rules.forEach(rule => {
+      (rule.removeHeaders || []).forEach(name => names.add(name.toLowerCase()));
+      Object.keys(rule.setHeaders || {}).forEach(name => names.add(name.toLowerCase()));
+    });
+    return names;
+  }
+  
+  function isStrictMiss(mock) {
+    return !mock && netlog.mocks !== null && netlog.mocks.mode === 'strict';
+  }
+  
+  // Binary HAR bodies stay base64 until here so bytes are not mangled as UTF-8
+  function mockBodyBytes(entry) {
+    if (entry.bodyEncoding !== 'base64') {
+      return new TextEncoder().encode(entry.body);
+    }
+    const binary = atob(entry.body);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+  
+  function mockBodyText(entry) {
+    return entry.bodyEncoding === 'base64' ? new TextDecoder().decode(mockBodyBytes(entry)) : entry.body;
+  }
+  
+  function mockFetchResponse(entry) {
+    if (entry.status === 0) {
+      return Promise.reject(new TypeError('Failed to fetch (recorded failure)'));
+    }
+    const nullBody = [204, 205, 304].indexOf(entry.status) >= 0;
+    let headers;
+    try {
+      headers = new Headers(entry.headers);
+    } catch (e) {
+      headers = new Headers();
+    }
+    const body = entry.bodyEncoding === 'base64' ? mockBodyBytes(entry) : entry.body;
+    return Promise.resolve(new Response(nullBody ? null : body, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: headers
+    }));
+  }
+  
+  function fulfillXHR(xhr, entry) {
+    const define = (name, value) => Object.defineProperty(xhr, name, { value: value, configurable: true });
+    
+    if (entry && entry.status !== 0) {
+      const headerNames = Object.keys(entry.headers);
+      const text = mockBodyText(entry);
+      let response = text;
+      if (xhr.responseType === 'json') {
+        try {
+          response = JSON.parse(text);
+        } catch (e) {
+          response = null;
+        }
+      } else if (xhr.responseType === 'arraybuffer') {
+        const bytes = mockBodyBytes(entry);
+        response = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+      } else if (xhr.responseType === 'blob') {
+        const contentType = headerNames.find(name => name.toLowerCase() === 'content-type');
+        response = new Blob([mockBodyBytes(entry)], { type: contentType ? entry.headers[contentType] : '' });
+      }
+      define('status', entry.status);
+      define('statusText', entry.statusText);
+      define('responseText', text);
+      define('response', response);
+      define('responseURL', normalizeUrl(xhr.__netlog_url, false));
+      define('getAllResponseHeaders', () => headerNames.map(name => name.toLowerCase() + ': ' + entry.headers[name]).join('\\r\\n'));
+      define('getResponseHeader', (name) => {
+        const match = headerNames.find(headerName => headerName.toLowerCase() === String(name).toLowerCase());
+        return match ? entry.headers[match] : null;
+      });
+    } else {
+      define('status', 0);
+      define('statusText', '');
+      define('responseText', '');
+      define('response', '');
+    }
+    define('readyState', 4);
+    
+    xhr.dispatchEvent(new Event('readystatechange'));
+    xhr.dispatchEvent(new ProgressEvent(entry && entry.status !== 0 ? 'load' : 'error'));
+    xhr.dispatchEvent(new ProgressEvent('loadend'));
+  }
+  
   // Store original functions
   const originalFetch = window.fetch;
   const originalXHROpen = XMLHttpRequest.prototype.open;
@@ -166,7 +854,7 @@ const NETWORK_HOOK_SCRIPT = `
   // Fetch hook
   window.fetch = function(input, init = {}) {
     const eventId = generateEventId();
-    const url = typeof input === 'string' ? input : input.url;
+    const url = typeof input === 'string' ? input : (input && input.url) || String(input);
     const method = init.method || 'GET';
     const startTime = performance.now();
     
@@ -183,10 +871,46 @@ const NETWORK_HOOK_SCRIPT = `
       }
     };
     
+    const rules = matchRules(event.method, url);
+    countRuleHits(rules);
+    const effect = ruleEffect(rules);
+    if (rules.length > 0) {
+      event.interceptedBy = rules.map(rule => rule.id);
+      if (hasHeaderRules(rules)) {
+        init = applyFetchHeaderRules(rules, input, init);
+        event.requestHeaders = headersToObject(init.headers);
+      }
+    }
+    
     addEvent(event);
+    beginRequest();
+    
+    const self = this;
+    const dispatch = () => {
+      if (effect.block) {
+        return Promise.reject(new TypeError('Blocked by netlog rule ' + effect.block.id));
+      }
+      if (effect.respond) {
+        return mockFetchResponse(ruleResponse(effect.respond));
+      }
+      const mock = findMock(event.method, url, init.body);
+      if (mock) {
+        event.mocked = true;
+        return mockFetchResponse(mock);
+      }
+      if (isStrictMiss(mock)) {
+        return Promise.reject(new TypeError('netlog mock: no HAR entry matches ' + event.method + ' ' + url));
+      }
+      return originalFetch.call(self, input, init);
+    };
+    
+    const pending = effect.delayMs > 0
+      ? new Promise(resolve => setTimeout(resolve, effect.delayMs)).then(dispatch)
+      : dispatch();
     
-    return originalFetch.call(this, input, init)
+    return pending
       .then(response => {
+        endRequest();
         const responseEnd = performance.now();
         event.status = response.status;
         event.statusText = response.statusText;
@@ -195,10 +919,11 @@ const NETWORK_HOOK_SCRIPT = `
         event.timing.responseEnd = responseEnd;
         event.timing.duration = responseEnd - startTime;
         
-        // Clone response to read body without consuming it
-        const responseClone = response.clone();
-        responseClone.text().then(text => {
-          event.responseBody = truncateBody(text, netlog.bodyPreviewLimit);
+        // The request is finished once headers arrive; the body preview is
+        // read from a clone so streaming responses are not held back
+        completeEvent(event);
+        readBodyPreview(response.clone(), netlog.bodyPreviewLimit).then(text => {
+          event.responseBody = text;
         }).catch(() => {
           event.responseBody = '[Unable to read response body]';
         });
@@ -206,10 +931,12 @@ const NETWORK_HOOK_SCRIPT = `
         return response;
       })
       .catch(error => {
+        endRequest();
         const responseEnd = performance.now();
         event.error = error.message;
         event.timing.responseEnd = responseEnd;
         event.timing.duration = responseEnd - startTime;
+        completeEvent(event);
         throw error;
       });
   };
@@ -221,12 +948,17 @@ const NETWORK_HOOK_SCRIPT = `
     this.__netlog_url = url;
     this.__netlog_startTime = performance.now();
     this.__netlog_requestHeaders = {};
+    this.__netlog_rules = matchRules(this.__netlog_method, url);
     
     return originalXHROpen.call(this, method, url, async, user, password);
   };
   
   const originalSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
   XMLHttpRequest.prototype.setRequestHeader = function(header, value) {
+    // Headers stripped or replaced by a rule never reach the request
+    if (this.__netlog_rules && ruleManagedHeaders(this.__netlog_rules).has(String(header).toLowerCase())) {
+      return;
+    }
     if (this.__netlog_requestHeaders) {
       this.__netlog_requestHeaders[header] = value;
     }
@@ -234,6 +966,27 @@ const NETWORK_HOOK_SCRIPT = `
   };
   
   XMLHttpRequest.prototype.send = function(data) {
+    beginRequest();
+    this.addEventListener('loadend', endRequest, { once: true });
+    
+    const rules = this.__netlog_rules || [];
+    countRuleHits(rules);
+    const effect = ruleEffect(rules);
+    const intercepted = effect.block || effect.respond;
+    
+    if (!intercepted) {
+      rules.forEach(rule => {
+        Object.keys(rule.setHeaders || {}).forEach(name => {
+          originalSetRequestHeader.call(this, name, rule.setHeaders[name]);
+          if (this.__netlog_requestHeaders) {
+            this.__netlog_requestHeaders[name] = rule.setHeaders[name];
+          }
+        });
+      });
+    }
+    
+    const mock = !intercepted && this.__netlog_method ? findMock(this.__netlog_method, this.__netlog_url, data) : null;
+    
     if (this.__netlog_eventId) {
       const event = {
         id: this.__netlog_eventId,
@@ -248,7 +1001,14 @@ const NETWORK_HOOK_SCRIPT = `
         }
       };
       
+      if (rules.length > 0) {
+        event.interceptedBy = rules.map(rule => rule.id);
+      }
+      if (mock) {
+        event.mocked = true;
+      }
       addEvent(event);
+      this.addEventListener('loadend', () => completeEvent(event), { once: true });
       
       // Hook response
       const originalOnReadyStateChange = this.onreadystatechange;
@@ -276,7 +1036,9 @@ const NETWORK_HOOK_SCRIPT = `
           event.timing.responseEnd = responseEnd;
           event.timing.duration = responseEnd - this.__netlog_startTime;
           
-          if (this.status === 0 || this.status >= 400) {
+          if (effect.block) {
+            event.error = 'Blocked by netlog rule ' + effect.block.id;
+          } else if (this.status === 0 || this.status >= 400) {
             event.error = \`HTTP \${this.status} \${this.statusText}\`;
           }
         }
@@ -287,6 +1049,24 @@ const NETWORK_HOOK_SCRIPT = `
       };
     }
     
+    const xhr = this;
+    if (effect.block) {
+      setTimeout(() => fulfillXHR(xhr, null), effect.delayMs);
+      return;
+    }
+    if (effect.respond) {
+      setTimeout(() => fulfillXHR(xhr, ruleResponse(effect.respond)), effect.delayMs);
+      return;
+    }
+    if (mock || isStrictMiss(mock)) {
+      setTimeout(() => fulfillXHR(xhr, mock), effect.delayMs);
+      return;
+    }
+    if (effect.delayMs > 0) {
+      setTimeout(() => originalXHRSend.call(xhr, data), effect.delayMs);
+      return;
+    }
+    
     return originalXHRSend.call(this, data);
   };
   
@@ -304,6 +1084,10 @@ const NETWORK_HOOK_SCRIPT = `
       requestHeaders: {},
       timing: {
         startTime: startTime
+      },
+      webSocket: {
+        frames: [],
+        droppedFrames: 0
       }
     };
     
@@ -311,12 +1095,34 @@ const NETWORK_HOOK_SCRIPT = `
     
     const ws = new originalWebSocket(url, protocols);
     
+    // Instance-level wrapper so only sockets created through the hook are recorded
+    const originalSend = ws.send;
+    ws.send = function(data) {
+      recordWebSocketFrame(event, 'send', data);
+      return originalSend.call(this, data);
+    };
+    
+    ws.addEventListener('message', (message) => {
+      recordWebSocketFrame(event, 'receive', message.data);
+    });
+    
     ws.addEventListener('open', () => {
       const responseEnd = performance.now();
       event.status = 101;
       event.statusText = 'Switching Protocols';
       event.timing.responseEnd = responseEnd;
       event.timing.duration = responseEnd - startTime;
+      event.webSocket.openedAt = Date.now();
+      event.webSocket.protocol = ws.protocol;
+      completeEvent(event);
+    });
+    
+    ws.addEventListener('close', (close) => {
+      event.webSocket.closedAt = Date.now();
+      event.webSocket.closeCode = close.code;
+      event.webSocket.closeReason = close.reason;
+      event.webSocket.wasClean = close.wasClean;
+      resequenceEvent(event);
     });
     
     ws.addEventListener('error', (error) => {
@@ -324,6 +1130,7 @@ const NETWORK_HOOK_SCRIPT = `
       event.error = 'WebSocket connection failed';
       event.timing.responseEnd = responseEnd;
       event.timing.duration = responseEnd - startTime;
+      completeEvent(event);
     });
     
     return ws;
@@ -336,51 +1143,26 @@ const NETWORK_HOOK_SCRIPT = `
     writable: false
   });
   
-  // Expose control functions
-  window.__netlog.start = function(options = {}) {
-    netlog.isActive = true;
-    netlog.maxEvents = options.maxEvents || 100;
-    netlog.bodyPreviewLimit = options.bodyPreviewLimit || 2048;
-    netlog.events = [];
-    netlog.eventCounter = 0;
-  };
-  
-  window.__netlog.stop = function() {
-    netlog.isActive = false;
-  };
-  
-  window.__netlog.dump = function() {
-    return {
-      isActive: netlog.isActive,
-      events: netlog.events.slice(),
-      maxEvents: netlog.maxEvents,
-      bodyPreviewLimit: netlog.bodyPreviewLimit
-    };
-  };
-  
-  window.__netlog.clear = function() {
-    netlog.events = [];
-    netlog.eventCounter = 0;
-  };
-  
 })();
 `;
 
 /**
  * Execute AppleScript to inject network monitoring hooks using unified service
  */
-async function executeAppleScript(script: string): Promise<{ success: boolean; result?: string; error?: string }> {
+async function executeAppleScript(script: string): Promise<{ success: boolean; result?: string; error?: string; code?: ErrorCode }> {
   try {
     const result = await appleScriptService.executeScript(script, 10000);
     return {
       success: result.success,
       ...(result.data && { result: result.data }),
-      ...(result.error && { error: result.error })
+      ...(result.error && { error: result.error }),
+      ...(!result.success && { code: result.code })
     };
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error)
+      error: error instanceof Error ? error.message : String(error),
+      code: ErrorCode.APPLESCRIPT_ERROR
     };
   }
 }
@@ -402,7 +1184,7 @@ tell application "Google Chrome"
   set activeTab to active tab of front window
   
   try
-    execute activeTab javascript "${NETWORK_HOOK_SCRIPT.replace(/"/g, '\\"').replace(/\n/g, '\\n')}"
+    execute activeTab javascript "${appleScriptService.escapeAppleScriptString(NETWORK_HOOK_SCRIPT)}"
     return "Network hooks injected successfully"
   on error errorMessage
     return "Failed to inject hooks: " & errorMessage
@@ -432,7 +1214,7 @@ end tell
 /**
  * Execute JavaScript in the active Chrome tab
  */
-async function executeJavaScript(jsCode: string): Promise<{ success: boolean; result?: unknown; error?: string }> {
+async function executeJavaScript(jsCode: string): Promise<{ success: boolean; result?: unknown; error?: string; code?: ErrorCode }> {
   const script = `
 tell application "Google Chrome"
   if not running then
@@ -446,7 +1228,7 @@ tell application "Google Chrome"
   set activeTab to active tab of front window
   
   try
-    set result to execute activeTab javascript "${jsCode.replace(/"/g, '\\"').replace(/\n/g, '\\n')}"
+    set result to execute activeTab javascript "${appleScriptService.escapeAppleScriptString(jsCode)}"
     return "SUCCESS:" & result
   on error errorMessage
     return "ERROR: " & errorMessage
@@ -459,14 +1241,19 @@ end tell
   if (!result.success) {
     return {
       success: false,
-      error: result.error || 'Failed to execute AppleScript'
+      error: result.error || 'Failed to execute AppleScript',
+      ...(result.code !== undefined && { code: result.code })
     };
   }
   
   if (result.result?.startsWith('ERROR:')) {
+    const message = result.result.substring(6);
     return {
       success: false,
-      error: result.result.substring(6)
+      error: message,
+      code: message.trim() === 'Chrome is not running'
+        ? ErrorCode.CHROME_NOT_RUNNING
+        : message.trim() === 'No Chrome windows open' ? ErrorCode.WINDOW_NOT_FOUND : ErrorCode.JAVASCRIPT_ERROR
     };
   }
   
@@ -511,7 +1298,8 @@ export async function startNetworkMonitoring(options: NetworkLogOptions = {}): P
 if (window.__netlog) {
   window.__netlog.start({
     maxEvents: ${options.maxEvents || 100},
-    bodyPreviewLimit: ${options.bodyPreviewLimit || 2048}
+    bodyPreviewLimit: ${options.bodyPreviewLimit || 2048},
+    maxWebSocketFrames: ${options.maxWebSocketFrames || 100}
   });
   JSON.stringify({ success: true, message: 'Network monitoring started' });
 } else {
@@ -617,6 +1405,248 @@ if (window.__netlog) {
   }
 }
 
+const NETWORK_EVENT_TYPES: NetworkEventType[] = ['fetch', 'xhr', 'websocket'];
+const DEFAULT_TAIL_INTERVAL_MS = 500;
+const MIN_TAIL_INTERVAL_MS = 50;
+// Events read per poll; a busy page catches up over the following polls
+const TAIL_BATCH_LIMIT = 200;
+
+/**
+ * Parse a status filter: a single code ("404"), a range ("400-599") or a class ("5xx")
+ */
+export function parseStatusRange(spec: string): Result<NetworkStatusRange, string> {
+  const value = spec.trim().toLowerCase();
+  let range: NetworkStatusRange | undefined;
+
+  const single = /^(\d{1,3})$/.exec(value);
+  const between = /^(\d{1,3})-(\d{1,3})$/.exec(value);
+  const statusClass = /^([1-5])xx$/.exec(value);
+  if (single) {
+    range = { min: Number(single[1]), max: Number(single[1]) };
+  } else if (between) {
+    range = { min: Number(between[1]), max: Number(between[2]) };
+  } else if (statusClass) {
+    range = { min: Number(statusClass[1]) * 100, max: Number(statusClass[1]) * 100 + 99 };
+  }
+
+  if (!range || range.min > range.max || range.max > 599) {
+    return ErrorUtils.validationError(
+      `Invalid status filter "${spec}". Use a code (404), a range (400-599) or a class (5xx)`,
+      'status',
+      spec
+    );
+  }
+  return ok(range);
+}
+
+/**
+ * Check an event against a filter; every given criterion must match
+ */
+export function matchesNetworkFilter(event: NetworkEvent, filter: NetworkEventFilter): boolean {
+  if (filter.methods && filter.methods.length > 0 &&
+      !filter.methods.some(method => method.toUpperCase() === event.method.toUpperCase())) {
+    return false;
+  }
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(event.type)) {
+    return false;
+  }
+  if (filter.status) {
+    const status = event.status || 0;
+    if (status < filter.status.min || status > filter.status.max) {
+      return false;
+    }
+  }
+  if (filter.url && !filter.url.test(event.url)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Build an event filter from tail options, validating status, URL regex and types
+ */
+export function createNetworkEventFilter(options: NetworkTailOptions): Result<NetworkEventFilter, string> {
+  const filter: NetworkEventFilter = {};
+
+  if (options.methods && options.methods.length > 0) {
+    filter.methods = options.methods.map(method => method.toUpperCase());
+  }
+
+  if (options.status !== undefined) {
+    const status = parseStatusRange(options.status);
+    if (!status.success) {
+      return status;
+    }
+    filter.status = status.data;
+  }
+
+  if (options.url !== undefined) {
+    try {
+      filter.url = new RegExp(options.url);
+    } catch (err) {
+      return ErrorUtils.validationError(
+        `Invalid URL pattern: ${err instanceof Error ? err.message : String(err)}`,
+        'url',
+        options.url
+      );
+    }
+  }
+
+  if (options.types && options.types.length > 0) {
+    const unknown = options.types.find(type => !NETWORK_EVENT_TYPES.includes(type));
+    if (unknown !== undefined) {
+      return ErrorUtils.validationError(
+        `Invalid event type "${unknown}". Must be one of: ${NETWORK_EVENT_TYPES.join(', ')}`,
+        'type',
+        unknown
+      );
+    }
+    filter.types = options.types;
+  }
+
+  return ok(filter);
+}
+
+/**
+ * Read finished events with a sequence number above the cursor
+ *
+ * Returns `data: null` when the page has no network hooks (not injected yet, or
+ * lost on navigation).
+ *
+ * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {APPLESCRIPT_ERROR} When underlying AppleScript execution fails
+ */
+export async function readNetworkEventsSince(
+  cursor: number,
+  limit: number = TAIL_BATCH_LIMIT
+): Promise<{ success: boolean; data?: NetworkTailBatch | null; error?: string; code?: ErrorCode }> {
+  const readScript = `
+if (window.__netlog && window.__netlog.since) {
+  JSON.stringify({ success: true, data: window.__netlog.since(${cursor}, ${limit}) });
+} else {
+  JSON.stringify({ success: true, data: null });
+}
+`;
+
+  const result = await executeJavaScript(readScript);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'Failed to read network events',
+      ...(result.code !== undefined && { code: result.code })
+    };
+  }
+
+  const response = result.result as { success: boolean; data?: NetworkTailBatch | null; error?: string };
+  if (response.success && response.data) {
+    response.data.events = sanitizeNetworkEvents(response.data.events);
+  }
+  return response;
+}
+
+/**
+ * Stream finished network events as they arrive
+ *
+ * Polls the page with a completion cursor so each event is delivered once.
+ * Monitoring must already be running (`netlog start`); tailing never starts
+ * it, so options given to `netlog start` and a later `netlog stop` are kept.
+ * Runs until `durationMs`, `count` or the abort signal.
+ *
+ * @throws {INVALID_INPUT} When filters or timing options are invalid
+ * @throws {TARGET_NOT_FOUND} When monitoring is stopped or a navigation dropped the page hooks
+ * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {JAVASCRIPT_ERROR} When the page cannot be polled
+ */
+export async function tailNetworkLog(
+  options: NetworkTailOptions,
+  handlers: NetworkTailHandlers
+): Promise<Result<NetworkTailSummary, string>> {
+  const filter = createNetworkEventFilter(options);
+  if (!filter.success) {
+    return filter;
+  }
+
+  const intervalMs = options.intervalMs ?? DEFAULT_TAIL_INTERVAL_MS;
+  if (!Number.isFinite(intervalMs) || intervalMs < MIN_TAIL_INTERVAL_MS) {
+    return ErrorUtils.validationError(`Interval must be at least ${MIN_TAIL_INTERVAL_MS}ms`, 'intervalMs', intervalMs);
+  }
+  if (options.durationMs !== undefined && (!Number.isFinite(options.durationMs) || options.durationMs <= 0)) {
+    return ErrorUtils.validationError('Duration must be a positive number of milliseconds', 'durationMs', options.durationMs);
+  }
+  if (options.count !== undefined && (!Number.isInteger(options.count) || options.count <= 0)) {
+    return ErrorUtils.validationError('Count must be a positive integer', 'count', options.count);
+  }
+
+  const startTime = Date.now();
+  const summary: NetworkTailSummary = { emitted: 0, skipped: 0, polls: 0, durationMs: 0, stoppedBy: 'signal' };
+  let cursor = 0;
+  let first = true;
+
+  while (!options.signal?.aborted) {
+    // The first read only positions the cursor unless buffered events are wanted
+    const batch = await readNetworkEventsSince(cursor, first && !options.fromStart ? 0 : TAIL_BATCH_LIMIT);
+    summary.polls++;
+
+    if (!batch.success) {
+      return error(batch.error || 'Failed to read network events', batch.code ?? ErrorCode.JAVASCRIPT_ERROR, {
+        recoveryHint: 'check_target',
+        metadata: { operation: 'netlog tail', polls: summary.polls }
+      });
+    }
+
+    if (!batch.data || !batch.data.isActive) {
+      const reason = !batch.data
+        ? (first ? 'Network monitoring is not running' : 'Network hooks were lost, probably on navigation')
+        : 'Network monitoring is stopped';
+      return error(`${reason}; run netlog start first`, ErrorCode.TARGET_NOT_FOUND, {
+        recoveryHint: 'user_action',
+        metadata: { operation: 'netlog tail', polls: summary.polls, emitted: summary.emitted }
+      });
+    }
+
+    cursor = batch.data.cursor;
+    const replay = !first || options.fromStart;
+
+    if (replay && batch.data.skipped > 0 && !batch.data.reset) {
+      summary.skipped += batch.data.skipped;
+      handlers.onSkipped?.(batch.data.skipped);
+    }
+
+    for (const event of replay ? batch.data.events : []) {
+      if (!matchesNetworkFilter(event, filter.data)) {
+        continue;
+      }
+      handlers.onEvent(event);
+      summary.emitted++;
+      if (options.count !== undefined && summary.emitted >= options.count) {
+        summary.stoppedBy = 'count';
+        summary.durationMs = Date.now() - startTime;
+        return ok(summary);
+      }
+    }
+    first = false;
+
+    const elapsedMs = Date.now() - startTime;
+    if (options.durationMs !== undefined && elapsedMs >= options.durationMs) {
+      summary.stoppedBy = 'duration';
+      break;
+    }
+
+    // A full batch means more events are waiting; read them without sleeping
+    if (batch.data.events.length >= TAIL_BATCH_LIMIT) {
+      continue;
+    }
+    const waitMs = options.durationMs !== undefined
+      ? Math.min(intervalMs, options.durationMs - elapsedMs)
+      : intervalMs;
+    await sleep(waitMs, options.signal);
+  }
+
+  summary.durationMs = Date.now() - startTime;
+  return ok(summary);
+}
+
 /**
  * Convert network events to HAR format
  */
@@ -686,6 +1716,29 @@ export function convertToHAR(events: NetworkEvent[]): HAR {
       };
     }
     
+    if (event.mocked) {
+      entry._mocked = true;
+    }
+    if (event.interceptedBy && event.interceptedBy.length > 0) {
+      entry._interceptedBy = event.interceptedBy;
+    }
+    if (event.webSocket) {
+      entry._resourceType = 'websocket';
+      entry._webSocketMessages = event.webSocket.frames.map(frame => ({
+        type: frame.direction,
+        time: frame.timestamp / 1000,
+        opcode: frame.opcode,
+        data: frame.payload
+      }));
+      if (event.webSocket.closeCode !== undefined) {
+        entry._webSocketClose = {
+          code: event.webSocket.closeCode,
+          reason: event.webSocket.closeReason || '',
+          wasClean: Boolean(event.webSocket.wasClean)
+        };
+      }
+    }
+    
     return entry;
   });
   
@@ -701,6 +1754,373 @@ export function convertToHAR(events: NetworkEvent[]): HAR {
   };
 }
 
+// Headers describing the encoded transfer do not apply to the decoded HAR body
+const HAR_MOCK_DROPPED_HEADERS = new Set(['content-length', 'content-encoding', 'transfer-encoding']);
+
+/**
+ * Hash a request body for HAR mock matching (FNV-1a, 32-bit, hex).
+ * The page hook computes the same hash for outgoing request bodies.
+ */
+export function hashRequestBody(body: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < body.length; i++) {
+    hash ^= body.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Convert HAR entries into mock entries for the page hook.
+ * Entries with informational statuses (1xx, e.g. WebSocket upgrades) cannot be replayed and are skipped.
+ */
+export function createHARMockEntries(har: HAR, options: HARMockOptions = {}): HARMockEntry[] {
+  return har.log.entries
+    .filter(entry => entry.response.status === 0 || (entry.response.status >= 200 && entry.response.status <= 599))
+    .map(entry => {
+      const url = new URL(entry.request.url);
+      url.hash = '';
+      if (options.ignoreQuery) {
+        url.search = '';
+      }
+
+      const headers: Record<string, string> = {};
+      for (const header of entry.response.headers) {
+        if (!HAR_MOCK_DROPPED_HEADERS.has(header.name.toLowerCase())) {
+          headers[header.name] = header.value;
+        }
+      }
+
+      const content = entry.response.content;
+      const base64 = Boolean(content.text) && content.encoding === 'base64';
+
+      const postData = entry.request.postData?.text;
+      return {
+        method: entry.request.method.toUpperCase(),
+        url: url.href,
+        ...(options.matchBody && postData && { bodyHash: hashRequestBody(postData) }),
+        status: entry.response.status,
+        statusText: entry.response.statusText,
+        headers,
+        body: content.text || '',
+        ...(base64 && { bodyEncoding: 'base64' as const })
+      };
+    });
+}
+
+function isAbsoluteUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load a HAR file. Accepts a plain HAR document or the `--json` output of `netlog dump --format har`.
+ */
+export function loadHARFile(harPath: string): Result<HAR, string> {
+  const resolvedPath = expandPath(harPath, true);
+
+  if (!existsSync(resolvedPath)) {
+    return error(`HAR file not found: ${harPath}`, ErrorCode.FILE_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(resolvedPath, 'utf8'));
+  } catch (err) {
+    const code = err instanceof SyntaxError ? ErrorCode.INVALID_JSON : ErrorCode.FILE_READ_ERROR;
+    return error(`Failed to read HAR file: ${err instanceof Error ? err.message : String(err)}`, code, {
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  const envelope = parsed as { data?: unknown } | null;
+  const har = (envelope && typeof envelope === 'object' && 'data' in envelope ? envelope.data : parsed) as HAR | null;
+
+  if (!har || !har.log || !Array.isArray(har.log.entries)) {
+    return ErrorUtils.validationError(`HAR file ${harPath} does not contain log.entries`, 'har', harPath);
+  }
+
+  const invalidIndex = har.log.entries.findIndex(entry =>
+    !entry?.request?.method || !entry.request.url || !entry.response || typeof entry.response.status !== 'number' ||
+    !Array.isArray(entry.response.headers) || !entry.response.content
+  );
+  if (invalidIndex >= 0) {
+    return ErrorUtils.validationError(`HAR entry ${invalidIndex} is missing request or response fields`, 'har', harPath);
+  }
+
+  const unparsableIndex = har.log.entries.findIndex(entry => !isAbsoluteUrl(entry.request.url));
+  if (unparsableIndex >= 0) {
+    return ErrorUtils.validationError(
+      `HAR entry ${unparsableIndex} has a relative or invalid URL: ${har.log.entries[unparsableIndex].request.url}`,
+      'har',
+      harPath
+    );
+  }
+
+  return ok(har);
+}
+
+/**
+ * Start answering page requests from HAR entries
+ *
+ * Injects the network hooks if needed and replaces any active mocks. Requests are
+ * matched by method, URL (exact, `*` wildcards allowed) and, with `matchBody`, a hash
+ * of the request body. Repeated requests replay matching entries in recorded order.
+ *
+ * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {JAVASCRIPT_ERROR} When the hook script or mock setup fails
+ * @throws {APPLESCRIPT_ERROR} When underlying AppleScript execution fails
+ */
+export async function startHARMock(har: HAR, options: HARMockOptions = {}): Promise<{ success: boolean; data?: HARMockStatus; error?: string }> {
+  const entries = createHARMockEntries(har, options);
+  if (entries.length === 0) {
+    return { success: false, error: 'HAR file has no replayable entries' };
+  }
+
+  const injectResult = await injectNetworkHooks();
+  if (!injectResult.success) {
+    return injectResult;
+  }
+
+  const config = {
+    mode: options.mode || 'passthrough',
+    ignoreQuery: options.ignoreQuery || false,
+    entries
+  };
+  const mockScript = `
+if (window.__netlog && window.__netlog.setMocks) {
+  JSON.stringify({ success: true, data: window.__netlog.setMocks(${JSON.stringify(config)}) });
+} else {
+  JSON.stringify({ success: false, error: 'Network hooks not available' });
+}
+`;
+
+  const result = await executeJavaScript(mockScript);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'Failed to start HAR mocking'
+    };
+  }
+
+  const response = result.result as { success: boolean; data?: HARMockStatus; error?: string };
+  if (response.success && response.data) {
+    response.data.truncatedBodies = entries.filter(entry => entry.body.endsWith('...[truncated]')).length;
+  }
+  return response;
+}
+
+/**
+ * Stop HAR mocking; requests go to the network again
+ *
+ * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {APPLESCRIPT_ERROR} When underlying AppleScript execution fails
+ */
+export async function stopHARMock(): Promise<{ success: boolean; error?: string }> {
+  const stopScript = `
+if (window.__netlog && window.__netlog.clearMocks) {
+  window.__netlog.clearMocks();
+  JSON.stringify({ success: true, message: 'HAR mocking stopped' });
+} else {
+  JSON.stringify({ success: false, error: 'Network hooks not available' });
+}
+`;
+
+  const result = await executeJavaScript(stopScript);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'Failed to stop HAR mocking'
+    };
+  }
+
+  return result.result as { success: boolean; error?: string };
+}
+
+/**
+ * Get HAR mock hit/miss counters and the most recent unmatched requests
+ *
+ * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {APPLESCRIPT_ERROR} When underlying AppleScript execution fails
+ */
+export async function getHARMockStatus(): Promise<{ success: boolean; data?: HARMockStatus; error?: string }> {
+  const statusScript = `
+if (window.__netlog && window.__netlog.mockStatus) {
+  JSON.stringify({ success: true, data: window.__netlog.mockStatus() });
+} else {
+  JSON.stringify({ success: true, data: { active: false } });
+}
+`;
+
+  const result = await executeJavaScript(statusScript);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'Failed to read HAR mock status'
+    };
+  }
+
+  return result.result as { success: boolean; data?: HARMockStatus; error?: string };
+}
+
+// Upper bound for rule latency; longer delays would outlast most command timeouts
+const MAX_RULE_DELAY_MS = 60000;
+
+/**
+ * Validate and normalize an interception rule before it is sent to the page
+ */
+export function validateInterceptRule(input: InterceptRuleInput): Result<InterceptRuleInput, string> {
+  if (!input.urlPattern || !input.urlPattern.trim()) {
+    return ErrorUtils.validationError('Rule requires a URL pattern', 'urlPattern', input.urlPattern);
+  }
+
+  const hasResponse = input.status !== undefined || input.body !== undefined;
+  const hasHeaders = Object.keys(input.setHeaders || {}).length > 0 || (input.removeHeaders || []).length > 0;
+  if (!input.block && !hasResponse && !hasHeaders && input.delayMs === undefined) {
+    return ErrorUtils.validationError(
+      'Rule needs at least one effect: block, delay, status/body or header changes',
+      'rule',
+      input
+    );
+  }
+
+  if (input.block && hasResponse) {
+    return ErrorUtils.validationError('A rule cannot both block and answer a request', 'block', input.block);
+  }
+
+  if (input.delayMs !== undefined &&
+      (!Number.isFinite(input.delayMs) || input.delayMs < 0 || input.delayMs > MAX_RULE_DELAY_MS)) {
+    return ErrorUtils.validationError(`Delay must be between 0 and ${MAX_RULE_DELAY_MS}ms`, 'delayMs', input.delayMs);
+  }
+
+  if (input.status !== undefined &&
+      (!Number.isInteger(input.status) || input.status < 200 || input.status > 599)) {
+    return ErrorUtils.validationError('Status must be an integer between 200 and 599', 'status', input.status);
+  }
+
+  const invalidHeader = [...Object.keys(input.setHeaders || {}), ...(input.removeHeaders || [])]
+    .find(name => !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name));
+  if (invalidHeader !== undefined) {
+    return ErrorUtils.validationError(`Invalid header name: ${invalidHeader}`, 'header', invalidHeader);
+  }
+
+  return ok({
+    ...input,
+    urlPattern: input.urlPattern.trim(),
+    ...(input.method && { method: input.method.toUpperCase() })
+  });
+}
+
+/**
+ * Add a request interception rule to the current page
+ *
+ * Injects the network hooks if needed. Rules live in the page until it navigates
+ * or `clearInterceptRules` removes them; matching requests record the rule ids in
+ * `interceptedBy`.
+ *
+ * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {JAVASCRIPT_ERROR} When the hook script or rule setup fails
+ * @throws {APPLESCRIPT_ERROR} When underlying AppleScript execution fails
+ */
+export async function addInterceptRule(rule: InterceptRuleInput): Promise<{ success: boolean; data?: InterceptRule; error?: string }> {
+  const validation = validateInterceptRule(rule);
+  if (!validation.success) {
+    return { success: false, error: validation.error };
+  }
+
+  const injectResult = await injectNetworkHooks();
+  if (!injectResult.success) {
+    return injectResult;
+  }
+
+  const addScript = `
+if (window.__netlog && window.__netlog.addRule) {
+  JSON.stringify({ success: true, data: window.__netlog.addRule(${JSON.stringify(validation.data)}) });
+} else {
+  JSON.stringify({ success: false, error: 'Network hooks not available' });
+}
+`;
+
+  const result = await executeJavaScript(addScript);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'Failed to add interception rule'
+    };
+  }
+
+  return result.result as { success: boolean; data?: InterceptRule; error?: string };
+}
+
+/**
+ * List interception rules on the current page with their hit counts
+ *
+ * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {APPLESCRIPT_ERROR} When underlying AppleScript execution fails
+ */
+export async function listInterceptRules(): Promise<{ success: boolean; data?: InterceptRule[]; error?: string }> {
+  const listScript = `
+if (window.__netlog && window.__netlog.listRules) {
+  JSON.stringify({ success: true, data: window.__netlog.listRules() });
+} else {
+  JSON.stringify({ success: true, data: [] });
+}
+`;
+
+  const result = await executeJavaScript(listScript);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'Failed to list interception rules'
+    };
+  }
+
+  return result.result as { success: boolean; data?: InterceptRule[]; error?: string };
+}
+
+/**
+ * Remove one interception rule by id, or all rules when no id is given
+ *
+ * @throws {CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * @throws {APPLESCRIPT_ERROR} When underlying AppleScript execution fails
+ */
+export async function clearInterceptRules(id?: string): Promise<{ success: boolean; data?: { removed: number }; error?: string }> {
+  const clearScript = `
+if (window.__netlog && window.__netlog.clearRules) {
+  JSON.stringify({ success: true, data: { removed: window.__netlog.clearRules(${JSON.stringify(id || null)}) } });
+} else {
+  JSON.stringify({ success: true, data: { removed: 0 } });
+}
+`;
+
+  const result = await executeJavaScript(clearScript);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'Failed to clear interception rules'
+    };
+  }
+
+  const response = result.result as { success: boolean; data?: { removed: number }; error?: string };
+  if (response.success && id && response.data?.removed === 0) {
+    return { success: false, error: `No interception rule with id ${id}` };
+  }
+  return response;
+}
+
 /**
  * Clear network monitoring data
  * 
@@ -0,0 +1,432 @@
+/**
+ * @fileoverview Option parsing shared by CLI commands and script steps
+ *
+ * Commander hands actions their options as strings (`--window 2` is `'2'`),
+ * while script steps and MCP tools pass JSON values. Both go through the
+ * parsers here, so a command reads the same options with the same defaults and
+ * validation however it is invoked. Values are keyed by camelCase option name
+ * (`--visible-only` is `visibleOnly`); positional arguments use their CLI
+ * argument name (`open <url>` is `url`).
+ *
+ * @example
+ * ```typescript
+ * // CLI action
+ * const parsed = parseNavigationOptions(options, 30000);
+ * // Script step
+ * const parsed = parseNavigationOptions(step.args, context.timeoutMs);
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { Result, ok } from '../core/Result.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import type { NavigationOptions } from './navigation.js';
+import type { MouseOptions } from './mouse.js';
+import type { KeyboardOptions } from './keyboard.js';
+import type { InputOptions } from './input.js';
+import type { ScreenshotOptions } from './screenshot.js';
+import type { CaptureDomLiteOptions } from './snapshot.js';
+import type { DOMEvalOptions } from './dom.js';
+import type { A11yAuditOptions, A11yRuleId, A11ySeverity } from './a11y.js';
+import type { ConditionWaitOptions, WaitOptions } from './wait.js';
+
+/**
+ * Option values keyed by camelCase option name
+ */
+export type OptionValues = Record<string, unknown>;
+
+/**
+ * Shortest navigation timeout accepted, in milliseconds
+ */
+const MIN_NAVIGATION_TIMEOUT_MS = 1000;
+
+/**
+ * Read a string option
+ */
+export function stringOption(values: OptionValues, name: string): string | undefined {
+  const value = values[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return String(value);
+}
+
+/**
+ * Read a numeric option, accepting numeric strings
+ */
+function numberOption(values: OptionValues, name: string): number | undefined {
+  const value = values[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Read a boolean option
+ */
+export function booleanOption(values: OptionValues, name: string): boolean | undefined {
+  const value = values[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return value === true || value === 'true';
+}
+
+/**
+ * Read a list option given as an array or a comma-separated string
+ */
+function listOption(values: OptionValues, name: string): string[] | undefined {
+  const value = values[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Read a repeatable option given as an array or a single value
+ */
+function repeatedOption(values: OptionValues, name: string): string[] | undefined {
+  const value = values[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+/**
+ * Require a non-empty string option
+ */
+export function requireOption(values: OptionValues, name: string, cmd: string): Result<string, string> {
+  const value = stringOption(values, name);
+  if (value === undefined || value.trim().length === 0) {
+    return ErrorUtils.validationError(`${cmd} requires "${name}"`, name, values[name]);
+  }
+  return ok(value);
+}
+
+/**
+ * Read a 1-based tab or window index (default: 1)
+ */
+function indexOption(values: OptionValues, name: 'tab' | 'window'): Result<number, string> {
+  if (values[name] === undefined || values[name] === null) {
+    return ok(1);
+  }
+  const index = numberOption(values, name);
+  if (index === undefined || !Number.isInteger(index) || index < 1) {
+    return ErrorUtils.validationError(`Invalid ${name} index: ${String(values[name])}. Must be a positive integer`, name, values[name]);
+  }
+  return ok(index);
+}
+
+/**
+ * Read a millisecond option that must be a non-negative number
+ */
+function durationOption(values: OptionValues, name: string, fallback?: number): Result<number | undefined, string> {
+  if (values[name] === undefined || values[name] === null) {
+    return ok(fallback);
+  }
+  const ms = numberOption(values, name);
+  if (ms === undefined || ms < 0) {
+    return ErrorUtils.validationError(`Invalid ${name} value: ${String(values[name])}. Must be a non-negative number`, name, values[name]);
+  }
+  return ok(ms);
+}
+
+/**
+ * `open`, `reload`, `back` and `forward`: `window`, `wait`, `timeout` and (reload) `hard`
+ */
+export function parseNavigationOptions(values: OptionValues, defaultTimeoutMs: number): Result<NavigationOptions, string> {
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  const timeout = durationOption(values, 'timeout');
+  if (!timeout.success) return timeout;
+  const timeoutMs = timeout.data ?? defaultTimeoutMs;
+  if (timeoutMs < MIN_NAVIGATION_TIMEOUT_MS) {
+    return ErrorUtils.validationError(`Invalid timeout: ${timeoutMs}. Must be at least ${MIN_NAVIGATION_TIMEOUT_MS}ms`, 'timeout', values.timeout);
+  }
+
+  const hardReload = booleanOption(values, 'hard');
+  return ok({
+    windowIndex: windowIndex.data,
+    waitForLoad: booleanOption(values, 'wait') ?? false,
+    timeoutMs,
+    ...(hardReload !== undefined && { hardReload })
+  });
+}
+
+/**
+ * `wait`: `ms`; the wait applies its own default when it is not given
+ */
+export function parseWaitIdleOptions(values: OptionValues): Result<WaitOptions, string> {
+  const milliseconds = durationOption(values, 'ms');
+  if (!milliseconds.success) return milliseconds;
+  return ok(milliseconds.data !== undefined ? { milliseconds: milliseconds.data } : {});
+}
+
+/**
+ * Condition waits (`wait selector`, `wait text`, ...): `timeout`, `interval`,
+ * `tab` and `window`; the wait applies its own defaults for what is not given
+ */
+export function parseConditionWaitOptions(values: OptionValues, defaultTimeoutMs?: number): Result<ConditionWaitOptions, string> {
+  const timeoutMs = durationOption(values, 'timeout', defaultTimeoutMs);
+  if (!timeoutMs.success) return timeoutMs;
+  const intervalMs = durationOption(values, 'interval');
+  if (!intervalMs.success) return intervalMs;
+  const tabIndex = indexOption(values, 'tab');
+  if (!tabIndex.success) return tabIndex;
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  return ok({
+    ...(timeoutMs.data !== undefined && { timeoutMs: timeoutMs.data }),
+    ...(intervalMs.data !== undefined && { intervalMs: intervalMs.data }),
+    tabIndex: tabIndex.data,
+    windowIndex: windowIndex.data
+  });
+}
+
+/**
+ * `wait network-idle`: condition wait options plus `idle`
+ */
+export function parseNetworkIdleOptions(
+  values: OptionValues,
+  defaultTimeoutMs?: number
+): Result<ConditionWaitOptions & { idleMs?: number }, string> {
+  const waitOptions = parseConditionWaitOptions(values, defaultTimeoutMs);
+  if (!waitOptions.success) return waitOptions;
+  const idleMs = durationOption(values, 'idle');
+  if (!idleMs.success) return idleMs;
+  return ok({ ...waitOptions.data, ...(idleMs.data !== undefined && { idleMs: idleMs.data }) });
+}
+
+/**
+ * `click`, `double-click`, `right-click` and `hover`: `selector`, `button`,
+ * `clickCount`, `offsetX`, `offsetY`, `timeout`, `force` and `window`
+ */
+export function parseMouseOptions(values: OptionValues, cmd: string): Result<MouseOptions, string> {
+  const selector = requireOption(values, 'selector', cmd);
+  if (!selector.success) return selector;
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  const button = stringOption(values, 'button');
+  const clickCount = numberOption(values, 'clickCount');
+  const offsetX = numberOption(values, 'offsetX');
+  const offsetY = numberOption(values, 'offsetY');
+  const timeout = durationOption(values, 'timeout');
+  if (!timeout.success) return timeout;
+  const timeoutMs = timeout.data;
+  return ok({
+    selector: selector.data,
+    windowIndex: windowIndex.data,
+    ...(button && { button: button as 'left' | 'right' | 'middle' }),
+    ...(clickCount !== undefined && { clickCount }),
+    ...(offsetX !== undefined && { offsetX }),
+    ...(offsetY !== undefined && { offsetY }),
+    ...(timeoutMs !== undefined && { timeoutMs }),
+    ...(booleanOption(values, 'force') && { force: true })
+  });
+}
+
+/**
+ * `type`: `text`, `speed`, `repeat` and `clear`
+ */
+export function parseTypeOptions(values: OptionValues): Result<KeyboardOptions, string> {
+  const text = requireOption(values, 'text', 'type');
+  if (!text.success) return text;
+
+  const speed = numberOption(values, 'speed');
+  const repeat = numberOption(values, 'repeat');
+  return ok({
+    text: text.data,
+    ...(speed !== undefined && { speed }),
+    ...(repeat !== undefined && { repeat }),
+    ...(booleanOption(values, 'clear') && { clear: true })
+  });
+}
+
+/**
+ * `fill`: `selector`, `value`, `clear` (default: true), `method` (default:
+ * auto), `speed` (default: 50), `timeout`, `force`, `maskSecret` and `window`
+ */
+export function parseFillOptions(values: OptionValues): Result<InputOptions, string> {
+  const selector = requireOption(values, 'selector', 'fill');
+  if (!selector.success) return selector;
+  const value = stringOption(values, 'value');
+  if (value === undefined) {
+    return ErrorUtils.validationError('fill requires "value"', 'value', value);
+  }
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  const timeout = durationOption(values, 'timeout');
+  if (!timeout.success) return timeout;
+  const timeoutMs = timeout.data;
+  return ok({
+    selector: selector.data,
+    value,
+    clear: booleanOption(values, 'clear') ?? true,
+    method: (stringOption(values, 'method') ?? 'auto') as 'auto' | 'paste' | 'type' | 'js',
+    speed: numberOption(values, 'speed') ?? 50,
+    windowIndex: windowIndex.data,
+    ...(booleanOption(values, 'maskSecret') && { maskSecret: true }),
+    ...(timeoutMs !== undefined && { timeoutMs }),
+    ...(booleanOption(values, 'force') && { force: true })
+  });
+}
+
+/**
+ * `snapshot outline`: `visibleOnly`
+ */
+export function parseOutlineOptions(values: OptionValues): Result<{ visibleOnly: boolean }, string> {
+  return ok({ visibleOnly: booleanOption(values, 'visibleOnly') ?? false });
+}
+
+/**
+ * `snapshot dom-lite`: `maxDepth` (default: 10), `visibleOnly` and `mode` (default: full)
+ */
+export function parseDomLiteOptions(values: OptionValues): Result<CaptureDomLiteOptions, string> {
+  const maxDepth = numberOption(values, 'maxDepth') ?? 10;
+  if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+    return ErrorUtils.validationError(`Invalid maxDepth: ${String(values.maxDepth)}. Must be a positive integer`, 'maxDepth', values.maxDepth);
+  }
+  return ok({
+    maxDepth,
+    visibleOnly: booleanOption(values, 'visibleOnly') ?? false,
+    mode: stringOption(values, 'mode') === 'simple' ? 'simple' : 'full'
+  });
+}
+
+/**
+ * `a11y audit`: `rules`, `failOn` (default: minor), `visibleOnly`, `tab`, `window` and `timeout`
+ */
+export function parseA11yAuditOptions(values: OptionValues, defaultTimeoutMs?: number): Result<A11yAuditOptions, string> {
+  const tabIndex = indexOption(values, 'tab');
+  if (!tabIndex.success) return tabIndex;
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  const rules = listOption(values, 'rules');
+  const timeout = durationOption(values, 'timeout', defaultTimeoutMs);
+  if (!timeout.success) return timeout;
+  const timeoutMs = timeout.data;
+  return ok({
+    failOn: (stringOption(values, 'failOn') ?? 'minor') as A11ySeverity,
+    visibleOnly: booleanOption(values, 'visibleOnly') ?? false,
+    tabIndex: tabIndex.data,
+    windowIndex: windowIndex.data,
+    ...(timeoutMs !== undefined && { timeoutMs }),
+    ...(rules && { rules: rules as A11yRuleId[] })
+  });
+}
+
+/**
+ * `screenshot`: `out`, `format` (default: png), `quality` (jpg only),
+ * `saveFile`, `mask`, `maskText`, `annotate` and `window`. The capture kind
+ * (`selector`, `fullscreen`, `fullPage`) is left to the caller.
+ */
+export function parseScreenshotOptions(values: OptionValues): Result<ScreenshotOptions, string> {
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  const format = (stringOption(values, 'format') ?? 'png') as 'png' | 'jpg' | 'pdf';
+  const quality = numberOption(values, 'quality');
+  const outputPath = stringOption(values, 'out');
+  const mask = repeatedOption(values, 'mask');
+  const maskText = repeatedOption(values, 'maskText');
+  return ok({
+    format,
+    windowIndex: windowIndex.data,
+    saveFile: booleanOption(values, 'saveFile') ?? false,
+    ...(outputPath && { outputPath }),
+    ...(format === 'jpg' && quality !== undefined && { quality }),
+    ...(mask && mask.length > 0 && { mask }),
+    ...(maskText && maskText.length > 0 && { maskText }),
+    ...(booleanOption(values, 'annotate') && { annotate: true })
+  });
+}
+
+/**
+ * `scroll to`: `selector`, `smooth`, `tab` and `window`
+ */
+export function parseScrollToOptions(values: OptionValues): Result<{
+  selector: string;
+  smooth: boolean;
+  tabIndex: number;
+  windowIndex: number;
+}, string> {
+  const selector = requireOption(values, 'selector', 'scroll to');
+  if (!selector.success) return selector;
+  const tabIndex = indexOption(values, 'tab');
+  if (!tabIndex.success) return tabIndex;
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  return ok({
+    selector: selector.data,
+    smooth: booleanOption(values, 'smooth') ?? false,
+    tabIndex: tabIndex.data,
+    windowIndex: windowIndex.data
+  });
+}
+
+/**
+ * `scroll by`: `px`, `smooth`, `horizontal`, `tab` and `window`
+ */
+export function parseScrollByOptions(values: OptionValues): Result<{
+  px: number;
+  smooth: boolean;
+  direction: 'vertical' | 'horizontal';
+  tabIndex: number;
+  windowIndex: number;
+}, string> {
+  const px = numberOption(values, 'px');
+  if (px === undefined) {
+    return ErrorUtils.validationError('scroll by requires numeric "px"', 'px', values.px);
+  }
+  const tabIndex = indexOption(values, 'tab');
+  if (!tabIndex.success) return tabIndex;
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  return ok({
+    px,
+    smooth: booleanOption(values, 'smooth') ?? false,
+    direction: booleanOption(values, 'horizontal') ? 'horizontal' : 'vertical',
+    tabIndex: tabIndex.data,
+    windowIndex: windowIndex.data
+  });
+}
+
+/**
+ * `dom eval`: `js`, `tab`, `window`, `frame` and `maxSize`
+ */
+export function parseDomEvalOptions(values: OptionValues, defaultTimeoutMs: number): Result<DOMEvalOptions, string> {
+  const js = requireOption(values, 'js', 'dom eval');
+  if (!js.success) return js;
+  const tabIndex = indexOption(values, 'tab');
+  if (!tabIndex.success) return tabIndex;
+  const windowIndex = indexOption(values, 'window');
+  if (!windowIndex.success) return windowIndex;
+
+  const maxSize = numberOption(values, 'maxSize');
+  if (values.maxSize !== undefined && (maxSize === undefined || !Number.isInteger(maxSize) || maxSize < 1)) {
+    return ErrorUtils.validationError(`Invalid maxSize: ${String(values.maxSize)}. Must be a positive integer`, 'maxSize', values.maxSize);
+  }
+  const frame = stringOption(values, 'frame');
+  return ok({
+    js: js.data,
+    tabIndex: tabIndex.data,
+    windowIndex: windowIndex.data,
+    timeout: defaultTimeoutMs,
+    ...(frame && { frame }),
+    ...(maxSize !== undefined && { maxSize })
+  });
+}
@@ -0,0 +1,663 @@
+/**
+ * @fileoverview Screen recording of the Chrome window with `record start|stop`
+ *
+ * `record start` reads the window bounds, then starts a background recorder
+ * process that captures the window region with a frame source backend at a
+ * fixed rate until `record stop` (or the maximum duration). Meanwhile every
+ * click and key press sent by the mouse and keyboard commands is logged to
+ * the session (see `lib/recording.ts`). `record stop` ends the recorder,
+ * draws click markers and key captions over the frames they happened in and
+ * encodes the frames to MP4 or GIF with ffmpeg.
+ *
+ * Frame capture (`captureFrames`), timing and overlays (`planFrames`,
+ * `renderFrame`) only depend on the `FrameSource` interface, so they can be
+ * driven by any backend.
+ *
+ * @example
+ * ```typescript
+ * await startRecording({ output: './bug.mp4', fps: 5 });
+ * // ... run mouse and keyboard commands ...
+ * const video = await stopRecording();
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { spawn } from 'child_process';
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  openSync,
+  readFileSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+  appendFileSync
+} from 'fs';
+import { tmpdir } from 'os';
+import { dirname, extname, join } from 'path';
+import sharp from 'sharp';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { getChromeWindowBounds } from '../lib/apple.js';
+import { execWithTimeout, expandPath, sleep } from '../lib/util.js';
+import type { Rect } from '../lib/coords.js';
+import { NO_DAEMON_ENV_VARIABLE } from '../daemon/DaemonProtocol.js';
+import {
+  RECORDING_FILES,
+  readRecordingLog,
+  readRecordingSession,
+  recordingStatePath,
+  type InputEvent,
+  type RecordedFrame,
+  type RecordingFormat,
+  type RecordingSession
+} from '../lib/recording.js';
+
+/**
+ * Captures one frame of a screen region. Backends are registered in FRAME_SOURCES.
+ */
+export interface FrameSource {
+  readonly name: string;
+  /** PNG image of the region in device pixels */
+  capture(rect: Rect): Promise<Buffer>;
+}
+
+export interface RecordStartOptions {
+  /** Video file; the format follows its extension (default: temp directory) */
+  output?: string;
+  format?: RecordingFormat;
+  /** Frames per second, 1-30 (default 5) */
+  fps?: number;
+  /** Recording ends by itself after this long (default 5 minutes) */
+  maxDurationMs?: number;
+  windowIndex?: number;
+  /** Draw click markers and key captions (default true) */
+  overlays?: boolean;
+  /** Frame source backend (default screencapture) */
+  backend?: string;
+  stateFile?: string;
+  /** How long to wait for the first frame (default 10000ms) */
+  timeoutMs?: number;
+}
+
+export interface RecordStopOptions {
+  stateFile?: string;
+  /** How long to wait for the recorder to exit (default 10000ms) */
+  timeoutMs?: number;
+}
+
+export interface CaptureFramesOptions {
+  fps: number;
+  maxDurationMs: number;
+  signal?: AbortSignal;
+}
+
+export interface CaptureFramesResult {
+  frames: number;
+  failures: number;
+  durationMs: number;
+  stoppedBy: 'signal' | 'max-duration' | 'failures';
+}
+
+/**
+ * How one recorded frame appears in the video
+ */
+export interface FramePlan {
+  file: string;
+  t: number;
+  durationMs: number;
+  /** Screen coordinates of clicks marked on this frame */
+  clicks: Array<{ x: number; y: number }>;
+  caption?: string;
+}
+
+export interface RecordingResult {
+  path: string;
+  format: RecordingFormat;
+  frames: number;
+  durationMs: number;
+  width: number;
+  height: number;
+  fps: number;
+  backend: string;
+  clicks: number;
+  keystrokes: number;
+  startedAt: string;
+}
+
+/**
+ * Frame source backends by name
+ */
+export const FRAME_SOURCES: Record<string, () => FrameSource> = {
+  screencapture: () => screencaptureFrameSource
+};
+
+export const RECORDING_DEFAULTS = {
+  FPS: 5,
+  MAX_FPS: 30,
+  MAX_DURATION_MS: 5 * 60 * 1000,
+  START_TIMEOUT_MS: 10000,
+  STOP_TIMEOUT_MS: 10000,
+  /** The recorder gives up after this many failed captures in a row */
+  MAX_CONSECUTIVE_FAILURES: 5
+} as const;
+
+export const OVERLAY_CONSTANTS = {
+  /** Click markers stay on screen this long */
+  CLICK_MARKER_MS: 600,
+  CLICK_MARKER_RADIUS: 14,
+  /** Typed text and keys stay in the caption this long */
+  CAPTION_MS: 1500,
+  CAPTION_FONT_SIZE: 16,
+  CAPTION_MAX_LENGTH: 60
+} as const;
+
+/**
+ * Capture regions with `screencapture -R` (needs the Screen Recording permission)
+ */
+export const screencaptureFrameSource: FrameSource = {
+  name: 'screencapture',
+  async capture(rect) {
+    const path = join(tmpdir(), `mac-chrome-cli-frame-${process.pid}.png`);
+    const result = await execWithTimeout('screencapture', [
+      '-x',
+      '-R', `${Math.round(rect.x)},${Math.round(rect.y)},${Math.round(rect.width)},${Math.round(rect.height)}`,
+      '-t', 'png',
+      path
+    ], 10000);
+    if (!result.success || !existsSync(path)) {
+      throw new Error(result.success ? 'screencapture produced no image' : result.error);
+    }
+    try {
+      return readFileSync(path);
+    } finally {
+      unlinkSync(path);
+    }
+  }
+};
+
+function isProcessAlive(pid: number): boolean {
+  if (pid <= 0) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Capture frames at a fixed rate until the signal aborts, the maximum duration
+ * passes or captures keep failing. Each frame is passed to `onFrame` with the
+ * epoch time its capture started.
+ */
+export async function captureFrames(
+  source: FrameSource,
+  rect: Rect,
+  options: CaptureFramesOptions,
+  onFrame: (image: Buffer, t: number) => void | Promise<void>
+): Promise<CaptureFramesResult> {
+  const interval = 1000 / options.fps;
+  const startTime = Date.now();
+  let frames = 0;
+  let failures = 0;
+  let consecutiveFailures = 0;
+  let stoppedBy: CaptureFramesResult['stoppedBy'];
+
+  for (;;) {
+    const t = Date.now();
+    if (options.signal?.aborted) {
+      stoppedBy = 'signal';
+      break;
+    }
+    if (t - startTime >= options.maxDurationMs) {
+      stoppedBy = 'max-duration';
+      break;
+    }
+
+    try {
+      await onFrame(await source.capture(rect), t);
+      frames++;
+      consecutiveFailures = 0;
+    } catch {
+      failures++;
+      if (++consecutiveFailures >= RECORDING_DEFAULTS.MAX_CONSECUTIVE_FAILURES) {
+        stoppedBy = 'failures';
+        break;
+      }
+    }
+
+    const wait = t + interval - Date.now();
+    if (wait > 0) {
+      await sleep(wait, options.signal);
+    }
+  }
+
+  return { frames, failures, durationMs: Date.now() - startTime, stoppedBy };
+}
+
+/**
+ * Whether an event is shown on frame `index`: from the event until `visibleMs`
+ * later, and always on the first frame after it so short events are not lost
+ */
+function isVisible(eventTime: number, frames: RecordedFrame[], index: number, visibleMs: number): boolean {
+  const frame = frames[index]!;
+  if (frame.t < eventTime) return false;
+  return frame.t < eventTime + visibleMs || index === 0 || frames[index - 1]!.t < eventTime;
+}
+
+function describeKeyEvent(event: Extract<InputEvent, { type: 'type' | 'key' }>): string {
+  return event.type === 'type' ? event.text : `[${event.key.toLowerCase()}]`;
+}
+
+/**
+ * Work out each frame's duration and which clicks and keys it shows
+ *
+ * @param frames - Recorded frames
+ * @param events - Clicks and key presses logged during the recording
+ * @param fps - Recording rate, used for the last frame's duration
+ */
+export function planFrames(frames: RecordedFrame[], events: InputEvent[], fps: number): FramePlan[] {
+  const sorted = [...frames].sort((a, b) => a.t - b.t);
+  const clicks = events.filter((event): event is Extract<InputEvent, { type: 'click' }> => event.type === 'click');
+  const keys = events
+    .filter((event): event is Extract<InputEvent, { type: 'type' | 'key' }> => event.type !== 'click')
+    .sort((a, b) => a.t - b.t);
+
+  return sorted.map((frame, index) => {
+    const next = sorted[index + 1];
+    const shownKeys = keys.filter(event => isVisible(event.t, sorted, index, OVERLAY_CONSTANTS.CAPTION_MS));
+    let caption = shownKeys.map(describeKeyEvent).join(' ');
+    if (caption.length > OVERLAY_CONSTANTS.CAPTION_MAX_LENGTH) {
+      caption = `…${caption.slice(caption.length - OVERLAY_CONSTANTS.CAPTION_MAX_LENGTH + 1)}`;
+    }
+
+    return {
+      file: frame.file,
+      t: frame.t,
+      durationMs: next ? next.t - frame.t : Math.round(1000 / fps),
+      clicks: clicks
+        .filter(event => isVisible(event.t, sorted, index, OVERLAY_CONSTANTS.CLICK_MARKER_MS))
+        .map(({ x, y }) => ({ x, y })),
+      ...(caption && { caption })
+    };
+  });
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Draw a frame's click markers and caption
+ *
+ * @param input - Frame image
+ * @param plan - Overlays for the frame
+ * @param rect - Recorded screen region; click coordinates are mapped from it
+ *   to image pixels
+ */
+export async function renderFrame(input: string | Buffer, plan: FramePlan, rect: Rect): Promise<Buffer> {
+  const image = sharp(input);
+  if (plan.clicks.length === 0 && !plan.caption) {
+    return image.png().toBuffer();
+  }
+
+  const { width = 0, height = 0 } = await image.metadata();
+  const scale = width / rect.width;
+  const shapes: string[] = [];
+
+  for (const click of plan.clicks) {
+    const cx = (click.x - rect.x) * scale;
+    const cy = (click.y - rect.y) * scale;
+    shapes.push(
+      `<circle cx="${cx}" cy="${cy}" r="${OVERLAY_CONSTANTS.CLICK_MARKER_RADIUS * scale}" fill="#ff3b30" fill-opacity="0.35" stroke="#ff3b30" stroke-width="${3 * scale}"/>`
+    );
+  }
+
+  if (plan.caption) {
+    const fontSize = OVERLAY_CONSTANTS.CAPTION_FONT_SIZE * scale;
+    const boxHeight = fontSize * 2;
+    const boxWidth = Math.min(width - 20 * scale, plan.caption.length * fontSize * 0.6 + fontSize * 2);
+    const left = (width - boxWidth) / 2;
+    const top = height - boxHeight - 16 * scale;
+    shapes.push(
+      `<rect x="${left}" y="${top}" width="${boxWidth}" height="${boxHeight}" rx="${6 * scale}" fill="#000" fill-opacity="0.75"/>`,
+      `<text x="${width / 2}" y="${top + fontSize * 1.35}" font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" fill="#fff" text-anchor="middle">${escapeXml(plan.caption)}</text>`
+    );
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`;
+  return image.composite([{ input: Buffer.from(svg), left: 0, top: 0 }]).png().toBuffer();
+}
+
+/**
+ * Encode planned frames to MP4 or GIF with ffmpeg, drawing overlays first
+ *
+ * @param dir - Directory holding the frame files; rendered frames are written there too
+ */
+export async function encodeVideo(
+  plans: FramePlan[],
+  dir: string,
+  rect: Rect,
+  output: string,
+  format: RecordingFormat,
+  fps: number
+): Promise<Result<string, string>> {
+  const ffmpeg = await execWithTimeout('which', ['ffmpeg'], 5000);
+  if (!ffmpeg.success || ffmpeg.data.stdout === '') {
+    return error('ffmpeg is not installed. Install with: brew install ffmpeg', ErrorCode.RESOURCE_UNAVAILABLE, {
+      recoveryHint: 'user_action',
+      metadata: { sessionDir: dir }
+    });
+  }
+
+  // The concat demuxer plays each file for its duration; the last file is
+  // repeated because its duration is otherwise ignored
+  const list: string[] = [];
+  for (let i = 0; i < plans.length; i++) {
+    const plan = plans[i]!;
+    let file = plan.file;
+    if (plan.clicks.length > 0 || plan.caption) {
+      file = `rendered-${String(i).padStart(6, '0')}.png`;
+      writeFileSync(join(dir, file), await renderFrame(join(dir, plan.file), plan, rect));
+    }
+    list.push(`file '${file}'`, `duration ${(plan.durationMs / 1000).toFixed(3)}`);
+    if (i === plans.length - 1) {
+      list.push(`file '${file}'`);
+    }
+  }
+  const listFile = join(dir, 'frames.txt');
+  writeFileSync(listFile, list.join('\n') + '\n');
+
+  const filter = format === 'gif'
+    ? `fps=${fps},split[a][b];[a]palettegen[p];[b][p]paletteuse`
+    : 'pad=ceil(iw/2)*2:ceil(ih/2)*2,format=yuv420p';
+  const args = [
+    '-y', '-loglevel', 'error',
+    '-f', 'concat', '-safe', '0', '-i', listFile,
+    '-vf', filter,
+    ...(format === 'mp4' ? ['-r', String(fps), '-c:v', 'libx264', '-movflags', '+faststart'] : ['-loop', '0']),
+    output
+  ];
+
+  mkdirSync(dirname(output), { recursive: true });
+  const result = await execWithTimeout('ffmpeg', args, 120000 + plans.length * 200);
+  if (!result.success) {
+    return error(`ffmpeg failed to encode the recording: ${result.error}`, ErrorCode.PROCESS_FAILED, {
+      recoveryHint: 'check_target',
+      metadata: { output, sessionDir: dir }
+    });
+  }
+  return ok(output);
+}
+
+function validateStartOptions(options: RecordStartOptions): Result<{ output: string; format: RecordingFormat }, string> {
+  const extension = options.output ? extname(options.output).slice(1).toLowerCase() : '';
+  const format = options.format ?? (extension === 'gif' ? 'gif' : 'mp4');
+  if (format !== 'mp4' && format !== 'gif') {
+    return error(`Invalid recording format: ${format}. Must be mp4 or gif`, ErrorCode.INVALID_INPUT, {
+      recoveryHint: 'user_action',
+      metadata: { parameter: 'format', provided: format }
+    });
+  }
+  if (options.output && extension !== format) {
+    return error(`Output file ${options.output} does not end in .${format}`, ErrorCode.INVALID_INPUT, {
+      recoveryHint: 'user_action',
+      metadata: { parameter: 'output', provided: options.output }
+    });
+  }
+
+  const fps = options.fps ?? RECORDING_DEFAULTS.FPS;
+  if (!Number.isInteger(fps) || fps < 1 || fps > RECORDING_DEFAULTS.MAX_FPS) {
+    return error(`Invalid fps: ${fps}. Must be an integer between 1 and ${RECORDING_DEFAULTS.MAX_FPS}`, ErrorCode.INVALID_INPUT, {
+      recoveryHint: 'user_action',
+      metadata: { parameter: 'fps', provided: fps }
+    });
+  }
+
+  const maxDurationMs = options.maxDurationMs ?? RECORDING_DEFAULTS.MAX_DURATION_MS;
+  if (!Number.isFinite(maxDurationMs) || maxDurationMs < 1000) {
+    return error(`Invalid maximum duration: ${maxDurationMs}ms. Must be at least 1000ms`, ErrorCode.INVALID_INPUT, {
+      recoveryHint: 'user_action',
+      metadata: { parameter: 'maxDurationMs', provided: maxDurationMs }
+    });
+  }
+
+  const backend = options.backend ?? 'screencapture';
+  if (!FRAME_SOURCES[backend]) {
+    return error(`Unknown frame source: ${backend}. Available: ${Object.keys(FRAME_SOURCES).join(', ')}`, ErrorCode.INVALID_INPUT, {
+      recoveryHint: 'user_action',
+      metadata: { parameter: 'backend', provided: backend }
+    });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const output = options.output
+    ? expandPath(options.output, true)
+    : join(tmpdir(), 'mac-chrome-cli', `recording-${timestamp}.${format}`);
+  return ok({ output, format });
+}
+
+/**
+ * Start recording the Chrome window in a background recorder process
+ *
+ * @throws {ErrorCode.RESOURCE_UNAVAILABLE} When a recording is already running or waiting for `record stop`
+ * @throws {ErrorCode.WINDOW_NOT_FOUND} When the window bounds cannot be read
+ * @throws {ErrorCode.SCREEN_CAPTURE_FAILED} When the recorder exits before capturing a frame
+ * @throws {ErrorCode.TIMEOUT} When no frame is captured in time
+ */
+export async function startRecording(options: RecordStartOptions = {}): Promise<Result<RecordingSession, string>> {
+  const validation = validateStartOptions(options);
+  if (!validation.success) {
+    return validation as Result<never, string>;
+  }
+  const { output, format } = validation.data;
+
+  const stateFile = options.stateFile ?? recordingStatePath();
+  const current = readRecordingSession(stateFile);
+  if (current) {
+    const message = isProcessAlive(current.pid)
+      ? `A recording is already running (pid ${current.pid}); stop it with record stop`
+      : 'A finished recording is waiting to be saved; run record stop first';
+    return error(message, ErrorCode.RESOURCE_UNAVAILABLE, {
+      recoveryHint: 'user_action',
+      metadata: { output: current.output }
+    });
+  }
+
+  const script = process.argv[1];
+  if (!script) {
+    return error('Cannot determine the CLI entry point to start the recorder', ErrorCode.UNKNOWN_ERROR);
+  }
+
+  const windowIndex = options.windowIndex ?? 1;
+  const bounds = await getChromeWindowBounds(windowIndex);
+  if (!bounds.success) {
+    return error(`Cannot read the bounds of window ${windowIndex}: ${bounds.error}`, ErrorCode.WINDOW_NOT_FOUND, {
+      recoveryHint: 'check_target',
+      metadata: { windowIndex }
+    });
+  }
+
+  mkdirSync(dirname(stateFile), { recursive: true, mode: 0o700 });
+  const dir = mkdtempSync(join(dirname(stateFile), 'recording-'));
+  const { x, y, width, height } = bounds.data.bounds;
+  const session: RecordingSession = {
+    pid: 0,
+    dir,
+    output,
+    format,
+    fps: options.fps ?? RECORDING_DEFAULTS.FPS,
+    backend: options.backend ?? 'screencapture',
+    rect: { x, y, width, height },
+    windowIndex,
+    overlays: options.overlays ?? true,
+    maxDurationMs: options.maxDurationMs ?? RECORDING_DEFAULTS.MAX_DURATION_MS,
+    startedAt: new Date().toISOString()
+  };
+  writeFileSync(join(dir, RECORDING_FILES.SESSION), JSON.stringify(session, null, 2));
+
+  const logFile = join(dir, RECORDING_FILES.LOG);
+  const log = openSync(logFile, 'a');
+  const child = spawn(process.execPath, [...process.execArgv, script, 'record', 'start', '--session', dir], {
+    detached: true,
+    stdio: ['ignore', log, log],
+    env: { ...process.env, [NO_DAEMON_ENV_VARIABLE]: '1' }
+  });
+  closeSync(log);
+
+  let exitCode: number | null = null;
+  child.once('exit', code => {
+    exitCode = code ?? 1;
+  });
+  child.unref();
+
+  session.pid = child.pid ?? 0;
+  writeFileSync(stateFile, JSON.stringify(session, null, 2));
+
+  const cleanUp = () => {
+    if (isProcessAlive(session.pid)) process.kill(session.pid, 'SIGTERM');
+    rmSync(stateFile, { force: true });
+  };
+
+  const timeoutMs = options.timeoutMs ?? RECORDING_DEFAULTS.START_TIMEOUT_MS;
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    await sleep(100);
+    if (readRecordingLog<RecordedFrame>(dir, RECORDING_FILES.FRAMES).length > 0) {
+      return ok(session);
+    }
+    if (exitCode !== null) {
+      cleanUp();
+      return error(`Recorder exited before capturing a frame (code ${exitCode}); see ${logFile}`, ErrorCode.SCREEN_CAPTURE_FAILED, {
+        recoveryHint: 'permission',
+        metadata: { logFile }
+      });
+    }
+  }
+
+  cleanUp();
+  return error(`Recorder captured no frame within ${timeoutMs}ms; see ${logFile}`, ErrorCode.TIMEOUT, {
+    recoveryHint: 'retry',
+    metadata: { logFile }
+  });
+}
+
+/**
+ * Run the recorder for a session directory in this process until the signal
+ * aborts or the session's maximum duration passes
+ */
+export async function runRecorder(
+  dir: string,
+  signal?: AbortSignal,
+  source?: FrameSource
+): Promise<Result<CaptureFramesResult, string>> {
+  let session: RecordingSession;
+  try {
+    session = JSON.parse(readFileSync(join(dir, RECORDING_FILES.SESSION), 'utf8')) as RecordingSession;
+  } catch (err) {
+    return error(`Cannot read recording session in ${dir}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_READ_ERROR, {
+      metadata: { dir }
+    });
+  }
+
+  const frameSource = source ?? FRAME_SOURCES[session.backend]?.();
+  if (!frameSource) {
+    return error(`Unknown frame source: ${session.backend}`, ErrorCode.INVALID_INPUT);
+  }
+
+  let sequence = 0;
+  const result = await captureFrames(frameSource, session.rect, {
+    fps: session.fps,
+    maxDurationMs: session.maxDurationMs,
+    ...(signal && { signal })
+  }, (image, t) => {
+    const file = `frame-${String(sequence++).padStart(6, '0')}.png`;
+    writeFileSync(join(dir, file), image);
+    appendFileSync(join(dir, RECORDING_FILES.FRAMES), JSON.stringify({ file, t }) + '\n');
+  });
+
+  if (result.stoppedBy === 'failures') {
+    return error(`Frame capture with ${frameSource.name} failed ${RECORDING_DEFAULTS.MAX_CONSECUTIVE_FAILURES} times in a row`, ErrorCode.SCREEN_CAPTURE_FAILED, {
+      recoveryHint: 'permission',
+      metadata: { frames: result.frames, failures: result.failures }
+    });
+  }
+  return ok(result);
+}
+
+/**
+ * Stop the recorder and save the video
+ *
+ * The session is kept when encoding fails, so `record stop` can be run again
+ * (for example after installing ffmpeg).
+ *
+ * @throws {ErrorCode.TARGET_NOT_FOUND} When no recording is running
+ * @throws {ErrorCode.TIMEOUT} When the recorder does not exit in time
+ * @throws {ErrorCode.SCREEN_CAPTURE_FAILED} When no frame was captured
+ * @throws {ErrorCode.RESOURCE_UNAVAILABLE} When ffmpeg is not installed
+ */
+export async function stopRecording(options: RecordStopOptions = {}): Promise<Result<RecordingResult, string>> {
+  const stateFile = options.stateFile ?? recordingStatePath();
+  const session = readRecordingSession(stateFile);
+  if (!session) {
+    return error('No recording is running; start one with record start', ErrorCode.TARGET_NOT_FOUND, {
+      recoveryHint: 'user_action'
+    });
+  }
+
+  if (isProcessAlive(session.pid)) {
+    process.kill(session.pid, 'SIGTERM');
+    const timeoutMs = options.timeoutMs ?? RECORDING_DEFAULTS.STOP_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+    while (isProcessAlive(session.pid)) {
+      if (Date.now() >= deadline) {
+        return error(`Recorder (pid ${session.pid}) did not stop within ${timeoutMs}ms`, ErrorCode.TIMEOUT, {
+          recoveryHint: 'retry',
+          metadata: { pid: session.pid }
+        });
+      }
+      await sleep(100);
+    }
+  }
+
+  const frames = readRecordingLog<RecordedFrame>(session.dir, RECORDING_FILES.FRAMES)
+    .filter(frame => existsSync(join(session.dir, frame.file)));
+  if (frames.length === 0) {
+    rmSync(stateFile, { force: true });
+    return error(`No frames were recorded; see ${join(session.dir, RECORDING_FILES.LOG)}`, ErrorCode.SCREEN_CAPTURE_FAILED, {
+      recoveryHint: 'permission',
+      metadata: { sessionDir: session.dir }
+    });
+  }
+
+  const events = session.overlays ? readRecordingLog<InputEvent>(session.dir, RECORDING_FILES.EVENTS) : [];
+  const plans = planFrames(frames, events, session.fps);
+  const encoded = await encodeVideo(plans, session.dir, session.rect, session.output, session.format, session.fps);
+  if (!encoded.success) {
+    return encoded as Result<never, string>;
+  }
+
+  const { width = 0, height = 0 } = await sharp(join(session.dir, plans[0]!.file)).metadata();
+  const last = plans[plans.length - 1]!;
+  rmSync(stateFile, { force: true });
+  rmSync(session.dir, { recursive: true, force: true });
+
+  return ok({
+    path: session.output,
+    format: session.format,
+    frames: plans.length,
+    durationMs: last.t + last.durationMs - plans[0]!.t,
+    width,
+    height,
+    fps: session.fps,
+    backend: session.backend,
+    clicks: events.filter(event => event.type === 'click').length,
+    keystrokes: events.filter(event => event.type !== 'click').length,
+    startedAt: session.startedAt
+  });
+}
@@ -0,0 +1,838 @@
+/**
+ * @fileoverview Script runner for executing a file of CLI steps as one session
+ *
+ * This module runs a list of steps mapped onto the commands registered in the
+ * CLI (open, wait, click, fill, snapshot outline, screenshot, ...) inside a single
+ * process. All steps share one service container, so process start-up and service
+ * bootstrap are paid once per script instead of once per command.
+ *
+ * Steps can reference the output of earlier steps with `${stepId.path}` expressions,
+ * for example `${outline.nodes[0].selector}` or `${outline.nodes[name=Sign in].selector}`.
+ *
+ * @example
+ * ```typescript
+ * const scriptResult = loadScript('./login.yaml');
+ * if (scriptResult.success) {
+ *   const report = await runScript(scriptResult.data, container);
+ *   console.log(`${report.data.summary.passed}/${report.data.summary.total} steps passed`);
+ * }
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { expandPath } from '../lib/util.js';
+import { logCommandStart, logCommandEnd } from '../lib/logger.js';
+import type { IServiceContainer } from '../di/ServiceContainer.js';
+import { SERVICE_TOKENS } from '../di/ServiceTokens.js';
+import { appleScriptService } from '../services/AppleScriptService.js';
+import { NavigationCommand } from './navigation.js';
+import { MouseCommand } from './mouse.js';
+import { KeyboardCommand } from './keyboard.js';
+import { InputCommand } from './input.js';
+import { ScreenshotCommand } from './screenshot.js';
+import { captureOutline, captureDomLite, formatSnapshotResult, type SnapshotResult } from './snapshot.js';
+import { scrollToElement, scrollByPixels } from './scroll.js';
+import { domEval } from './dom.js';
+import { auditAccessibility } from './a11y.js';
+import {
+  waitIdle,
+  waitForSelector,
+  waitForText,
+  waitForUrl,
+  waitForTitle,
+  waitForNetworkIdle,
+  waitForFunction,
+  type ConditionWaitOptions,
+  type SelectorWaitState
+} from './wait.js';
+import {
+  booleanOption,
+  parseA11yAuditOptions,
+  parseConditionWaitOptions,
+  parseDomEvalOptions,
+  parseDomLiteOptions,
+  parseFillOptions,
+  parseMouseOptions,
+  parseNavigationOptions,
+  parseNetworkIdleOptions,
+  parseOutlineOptions,
+  parseScreenshotOptions,
+  parseScrollByOptions,
+  parseScrollToOptions,
+  parseTypeOptions,
+  parseWaitIdleOptions,
+  requireOption,
+  stringOption
+} from './options.js';
+
+/**
+ * A single step in a script
+ */
+export interface ScriptStep {
+  /** Identifier used to reference this step's output from later steps */
+  id?: string;
+  /** Registered command name, e.g. 'open', 'click' or 'snapshot outline' */
+  cmd: string;
+  /** Command arguments keyed by option name (camelCase, as in the CLI options) */
+  args?: Record<string, unknown>;
+  /** Step timeout in milliseconds (overrides the script default) */
+  timeoutMs?: number;
+  /** Whether to continue with the next step if this one fails (overrides the script default) */
+  continueOnError?: boolean;
+}
+
+/**
+ * A parsed script file
+ */
+export interface RunScript {
+  /** Optional script name used in the report */
+  name?: string;
+  /** Whether failed steps should not stop the script (default: false) */
+  continueOnError?: boolean;
+  /** Default step timeout in milliseconds (default: 30000) */
+  timeoutMs?: number;
+  /** Steps to execute in order */
+  steps: ScriptStep[];
+}
+
+/**
+ * Outcome of a single step
+ */
+export type StepStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * Per-step report entry
+ */
+export interface StepReport {
+  /** 1-based position of the step in the script */
+  index: number;
+  /** Step identifier, if one was given */
+  id?: string;
+  /** Command that was executed */
+  cmd: string;
+  /** Step outcome */
+  status: StepStatus;
+  /** Step execution time in milliseconds */
+  durationMs: number;
+  /** Arguments after step references were resolved */
+  args?: Record<string, unknown>;
+  /** Result returned by the command (absent for skipped steps) */
+  result?: Result<unknown, string>;
+}
+
+/**
+ * Report for a complete script run
+ */
+export interface RunReport {
+  /** Whether every executed step succeeded */
+  success: boolean;
+  cmd: string;
+  /** Script name, if one was given */
+  name?: string;
+  /** Per-step reports in execution order */
+  steps: StepReport[];
+  /** Step counts by outcome */
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+  };
+  /** Total run time in milliseconds */
+  durationMs: number;
+  timestamp: string;
+}
+
+/**
+ * Context passed to step handlers
+ */
+export interface StepContext {
+  /** Shared service container for the whole run */
+  container: IServiceContainer;
+  /** Effective timeout for the step in milliseconds */
+  timeoutMs: number;
+}
+
+/**
+ * Handler executing one script command
+ */
+export type StepHandler = (
+  args: Record<string, unknown>,
+  context: StepContext
+) => Promise<Result<unknown, string>>;
+
+/**
+ * Options for a script run
+ */
+export interface RunScriptOptions {
+  /** Override the script-level continueOnError setting */
+  continueOnError?: boolean;
+  /** Override the script-level default step timeout */
+  timeoutMs?: number;
+  /** Called after each step completes */
+  onStep?: (report: StepReport) => void;
+}
+
+/**
+ * Default per-step timeout in milliseconds
+ */
+const DEFAULT_STEP_TIMEOUT_MS = 30000;
+
+/**
+ * Maximum allowed per-step timeout (10 minutes, matching the wait command)
+ */
+const MAX_STEP_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Valid step identifiers
+ */
+const STEP_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Step reference expression, e.g. ${outline.nodes[0].selector}
+ */
+const REFERENCE_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Replace a `window` argument given as `id:<n>`, `title:<pattern>` or
+ * `url:<pattern>` with the index of the matching window
+ */
+async function resolveWindowArg(
+  args: Record<string, unknown>,
+  context: StepContext
+): Promise<Result<Record<string, unknown>, string>> {
+  const target = args.window;
+  if (typeof target !== 'string' || /^\d+$/.test(target.trim())) {
+    return ok(args);
+  }
+
+  const serviceResult = await context.container.resolve(SERVICE_TOKENS.AppleScriptService);
+  const service = serviceResult.success ? serviceResult.data : appleScriptService;
+  const resolved = await service.resolveWindowIndex(target);
+  if (!resolved.success) {
+    return error(resolved.error, resolved.code);
+  }
+  return ok({ ...args, window: resolved.data });
+}
+
+/**
+ * Convert a snapshot capture into a Result
+ */
+function snapshotToResult(formatted: ReturnType<typeof formatSnapshotResult>): Result<SnapshotResult, string> {
+  if ('ok' in formatted && formatted.ok) {
+    return ok(formatted);
+  }
+  if ('success' in formatted && formatted.success === false) {
+    return error(formatted.error, formatted.code);
+  }
+  return error('Snapshot failed', ErrorCode.UNKNOWN_ERROR);
+}
+
+/**
+ * Build mouse handler for the given action
+ */
+function mouseHandler(cmd: string, action: 'click' | 'doubleClick' | 'rightClick' | 'move'): StepHandler {
+  return async (args) => {
+    const options = parseMouseOptions(args, cmd);
+    if (!options.success) return options;
+
+    const mouseCommand = new MouseCommand();
+    switch (action) {
+      case 'doubleClick':
+        return mouseCommand.doubleClick(options.data);
+      case 'rightClick':
+        return mouseCommand.rightClick(options.data);
+      case 'move':
+        return mouseCommand.move(options.data);
+      default:
+        return mouseCommand.click(options.data);
+    }
+  };
+}
+
+/**
+ * Build navigation handler for history/reload actions
+ */
+function navigationHandler(action: 'reload' | 'back' | 'forward'): StepHandler {
+  return async (args, context) => {
+    const options = parseNavigationOptions(args, context.timeoutMs);
+    if (!options.success) return options;
+    return new NavigationCommand()[action](options.data);
+  };
+}
+
+/**
+ * Build handler for a condition wait on a required argument
+ */
+function conditionWaitHandler(
+  cmd: string,
+  name: string,
+  wait: (value: string, options: ConditionWaitOptions, args: Record<string, unknown>) => Promise<Result<unknown, string>>
+): StepHandler {
+  return async (args, context) => {
+    const value = requireOption(args, name, cmd);
+    if (!value.success) return value;
+    const options = parseConditionWaitOptions(args, context.timeoutMs);
+    if (!options.success) return options;
+    return wait(value.data, options.data, args);
+  };
+}
+
+/**
+ * Step handlers keyed by CLI command name. Options are read by the same
+ * parsers as the CLI commands (see options.ts).
+ */
+const STEP_HANDLERS: Record<string, StepHandler> = {
+  'open': async (args, context) => {
+    const url = requireOption(args, 'url', 'open');
+    if (!url.success) return url;
+    const options = parseNavigationOptions(args, context.timeoutMs);
+    if (!options.success) return options;
+    return new NavigationCommand().go(url.data, options.data);
+  },
+  'reload': navigationHandler('reload'),
+  'back': navigationHandler('back'),
+  'forward': navigationHandler('forward'),
+
+  'wait': async (args) => {
+    const options = parseWaitIdleOptions(args);
+    return options.success ? waitIdle(options.data) : options;
+  },
+  'wait selector': conditionWaitHandler('wait selector', 'selector', (selector, options, args) => waitForSelector(selector, {
+    ...options,
+    state: (stringOption(args, 'state') ?? 'visible') as SelectorWaitState
+  })),
+  'wait text': conditionWaitHandler('wait text', 'text', (text, options) => waitForText(text, options)),
+  'wait url': conditionWaitHandler('wait url', 'pattern', (pattern, options) => waitForUrl(pattern, options)),
+  'wait title': conditionWaitHandler('wait title', 'pattern', (pattern, options) => waitForTitle(pattern, options)),
+  'wait network-idle': async (args, context) => {
+    const options = parseNetworkIdleOptions(args, context.timeoutMs);
+    return options.success ? waitForNetworkIdle(options.data) : options;
+  },
+  'wait js': conditionWaitHandler('wait js', 'predicate', (predicate, options) => waitForFunction(predicate, options)),
+
+  'click': mouseHandler('click', 'click'),
+  'double-click': mouseHandler('double-click', 'doubleClick'),
+  'right-click': mouseHandler('right-click', 'rightClick'),
+  'hover': mouseHandler('hover', 'move'),
+
+  'type': async (args) => {
+    const options = parseTypeOptions(args);
+    return options.success ? new KeyboardCommand().type(options.data) : options;
+  },
+
+  'fill': async (args) => {
+    const options = parseFillOptions(args);
+    return options.success ? new InputCommand().fill(options.data) : options;
+  },
+
+  'snapshot outline': async (args) => {
+    const options = parseOutlineOptions(args);
+    if (!options.success) return options;
+    return snapshotToResult(formatSnapshotResult(await captureOutline(options.data)));
+  },
+  'snapshot dom-lite': async (args) => {
+    const options = parseDomLiteOptions(args);
+    if (!options.success) return options;
+    return snapshotToResult(formatSnapshotResult(await captureDomLite(options.data)));
+  },
+
+  'a11y audit': async (args, context) => {
+    const options = parseA11yAuditOptions(args, context.timeoutMs);
+    if (!options.success) return options;
+    const result = await auditAccessibility(options.data);
+    if (!result.success || result.data.passed) return result;
+
+    return error(
+      `Accessibility audit failed with ${result.data.summary.total} violation(s) (fail on: ${options.data.failOn})`,
+      ErrorCode.VALIDATION_FAILED,
+      { metadata: { summary: result.data.summary, violations: result.data.violations } }
+    );
+  },
+
+  'screenshot': async (args, context) => {
+    const options = parseScreenshotOptions(args);
+    if (!options.success) return options;
+
+    const screenshotCmd = new ScreenshotCommand(context.container);
+    const selector = stringOption(args, 'selector');
+    if (booleanOption(args, 'fullscreen')) {
+      return screenshotCmd.fullscreen(options.data);
+    }
+    if (booleanOption(args, 'fullPage')) {
+      return screenshotCmd.fullPage(options.data);
+    }
+    if (selector) {
+      return screenshotCmd.element(selector, options.data);
+    }
+    return screenshotCmd.viewport(options.data);
+  },
+
+  'scroll to': async (args, context) => {
+    const options = parseScrollToOptions(args);
+    if (!options.success) return options;
+    const { selector, smooth, tabIndex, windowIndex } = options.data;
+    return scrollToElement(selector, smooth, tabIndex, windowIndex, context.timeoutMs);
+  },
+
+  'scroll by': async (args, context) => {
+    const options = parseScrollByOptions(args);
+    if (!options.success) return options;
+    const { px, smooth, direction, tabIndex, windowIndex } = options.data;
+    return scrollByPixels(px, smooth, direction, tabIndex, windowIndex, context.timeoutMs);
+  },
+
+  'dom eval': async (args, context) => {
+    const options = parseDomEvalOptions(args, context.timeoutMs);
+    return options.success ? domEval(options.data) : options;
+  }
+};
+
+/**
+ * Normalize a command name ("snapshot   outline" -> "snapshot outline")
+ */
+function normalizeCommandName(cmd: string): string {
+  return cmd.trim().split(/\s+/).join(' ');
+}
+
+/**
+ * Get the list of commands that can be used in script steps
+ */
+export function getSupportedStepCommands(): string[] {
+  return Object.keys(STEP_HANDLERS);
+}
+
+/**
+ * Execute a single command with the given arguments
+ *
+ * Runs the handler for a registered command without any step bookkeeping.
+ * Unknown commands produce an INVALID_INPUT error.
+ *
+ * @param cmd Command name as used on the CLI, e.g. 'click' or 'snapshot outline'
+ * @param args Command arguments keyed by option name
+ * @param context Step context with the shared service container
+ * @returns Promise resolving to the command's Result
+ */
+export async function executeStep(
+  cmd: string,
+  args: Record<string, unknown>,
+  context: StepContext
+): Promise<Result<unknown, string>> {
+  const handler = STEP_HANDLERS[normalizeCommandName(cmd)];
+  if (!handler) {
+    return ErrorUtils.validationError(
+      `Unsupported step command: ${cmd}. Supported: ${getSupportedStepCommands().join(', ')}`,
+      'cmd',
+      cmd
+    );
+  }
+
+  try {
+    const resolvedArgs = await resolveWindowArg(args, context);
+    if (!resolvedArgs.success) return resolvedArgs;
+    return await handler(resolvedArgs.data, context);
+  } catch (err) {
+    return error(
+      `${cmd} step failed: ${err instanceof Error ? err.message : String(err)}`,
+      ErrorCode.UNKNOWN_ERROR
+    );
+  }
+}
+
+/**
+ * Look up a reference path (e.g. "nodes[0].selector" or "nodes[name=Submit].selector")
+ * inside a value
+ */
+function lookupPath(root: unknown, path: string): { found: boolean; value?: unknown } {
+  const segments = path.match(/[^.[\]]+|\[[^\]]*\]/g) ?? [];
+  let current: unknown = root;
+
+  for (const segment of segments) {
+    if (current === undefined || current === null) {
+      return { found: false };
+    }
+
+    if (segment.startsWith('[')) {
+      const inner = segment.slice(1, -1).trim();
+      const eqIndex = inner.indexOf('=');
+
+      if (eqIndex > 0 && Array.isArray(current)) {
+        // Filter expression: first element whose key equals the value
+        const key = inner.slice(0, eqIndex).trim();
+        const expected = inner.slice(eqIndex + 1).trim().replace(/^["']|["']$/g, '');
+        current = current.find(item =>
+          item !== null && typeof item === 'object' &&
+          String((item as Record<string, unknown>)[key]) === expected
+        );
+      } else if (/^\d+$/.test(inner) && Array.isArray(current)) {
+        current = current[parseInt(inner, 10)];
+      } else {
+        current = (current as Record<string, unknown>)[inner.replace(/^["']|["']$/g, '')];
+      }
+    } else if (typeof current === 'object') {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return { found: false };
+    }
+  }
+
+  return current === undefined ? { found: false } : { found: true, value: current };
+}
+
+/**
+ * Resolve `${stepId.path}` references in step arguments against earlier step outputs
+ *
+ * A string consisting of a single reference is replaced by the referenced value as-is
+ * (so numbers and objects keep their type); references embedded in longer strings are
+ * interpolated as text.
+ *
+ * @param value Argument value to resolve (strings, arrays and objects are traversed)
+ * @param outputs Outputs of completed steps keyed by step id
+ * @returns Resolved value, or an error naming the first unresolved reference
+ */
+export function resolveReferences(
+  value: unknown,
+  outputs: Record<string, unknown>
+): Result<unknown, string> {
+  if (typeof value === 'string') {
+    const resolveOne = (expression: string): { found: boolean; value?: unknown } => {
+      const trimmed = expression.trim();
+      const match = trimmed.match(/^([A-Za-z_][A-Za-z0-9_-]*)(.*)$/);
+      if (!match || !(match[1] in outputs)) {
+        return { found: false };
+      }
+      const rest = match[2].replace(/^\./, '');
+      return rest.length === 0 ? { found: true, value: outputs[match[1]] } : lookupPath(outputs[match[1]], rest);
+    };
+
+    const whole = value.match(/^\$\{([^}]+)\}$/);
+    if (whole) {
+      const resolved = resolveOne(whole[1]);
+      return resolved.found
+        ? ok(resolved.value)
+        : ErrorUtils.validationError(`Unresolved step reference: ${value}`, 'args', value);
+    }
+
+    let unresolved: string | undefined;
+    const interpolated = value.replace(REFERENCE_PATTERN, (full, expression: string) => {
+      const resolved = resolveOne(expression);
+      if (!resolved.found) {
+        unresolved = unresolved ?? full;
+        return full;
+      }
+      return typeof resolved.value === 'object' ? JSON.stringify(resolved.value) : String(resolved.value);
+    });
+
+    return unresolved
+      ? ErrorUtils.validationError(`Unresolved step reference: ${unresolved}`, 'args', value)
+      : ok(interpolated);
+  }
+
+  if (Array.isArray(value)) {
+    const items: unknown[] = [];
+    for (const item of value) {
+      const resolved = resolveReferences(item, outputs);
+      if (!resolved.success) return resolved;
+      items.push(resolved.data);
+    }
+    return ok(items);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const resolvedObject: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const resolved = resolveReferences(item, outputs);
+      if (!resolved.success) return resolved;
+      resolvedObject[key] = resolved.data;
+    }
+    return ok(resolvedObject);
+  }
+
+  return ok(value);
+}
+
+/**
+ * Validate a timeout value
+ */
+function isValidTimeout(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 1 && value <= MAX_STEP_TIMEOUT_MS;
+}
+
+/**
+ * Validate a parsed script document and normalize it into a RunScript
+ *
+ * Accepts either a bare array of steps or an object with a `steps` array.
+ *
+ * @param document Parsed JSON or YAML document
+ * @returns Validated script or validation error
+ */
+export function validateScript(document: unknown): Result<RunScript, string> {
+  const root = Array.isArray(document) ? { steps: document } : document;
+
+  if (root === null || typeof root !== 'object' || !Array.isArray((root as RunScript).steps)) {
+    return ErrorUtils.validationError('Script must be a list of steps or an object with a "steps" list', 'steps');
+  }
+
+  const script = root as RunScript;
+  if (script.steps.length === 0) {
+    return ErrorUtils.validationError('Script has no steps', 'steps');
+  }
+  if (script.timeoutMs !== undefined && !isValidTimeout(script.timeoutMs)) {
+    return ErrorUtils.validationError(
+      `timeoutMs must be between 1 and ${MAX_STEP_TIMEOUT_MS}ms`,
+      'timeoutMs',
+      script.timeoutMs
+    );
+  }
+
+  const seenIds = new Set<string>();
+  const steps: ScriptStep[] = [];
+
+  for (const [position, rawStep] of script.steps.entries()) {
+    const label = `Step ${position + 1}`;
+
+    if (rawStep === null || typeof rawStep !== 'object') {
+      return ErrorUtils.validationError(`${label} must be an object`, 'steps', rawStep);
+    }
+
+    const step = rawStep as ScriptStep;
+    if (typeof step.cmd !== 'string' || !STEP_HANDLERS[normalizeCommandName(step.cmd)]) {
+      return ErrorUtils.validationError(
+        `${label} has unsupported command "${String(step.cmd)}". Supported: ${getSupportedStepCommands().join(', ')}`,
+        'cmd',
+        step.cmd
+      );
+    }
+    if (step.id !== undefined) {
+      if (typeof step.id !== 'string' || !STEP_ID_PATTERN.test(step.id)) {
+        return ErrorUtils.validationError(`${label} has invalid id "${String(step.id)}"`, 'id', step.id);
+      }
+      if (seenIds.has(step.id)) {
+        return ErrorUtils.validationError(`${label} reuses id "${step.id}"`, 'id', step.id);
+      }
+      seenIds.add(step.id);
+    }
+    if (step.args !== undefined && (step.args === null || typeof step.args !== 'object' || Array.isArray(step.args))) {
+      return ErrorUtils.validationError(`${label} args must be an object`, 'args', step.args);
+    }
+    if (step.timeoutMs !== undefined && !isValidTimeout(step.timeoutMs)) {
+      return ErrorUtils.validationError(
+        `${label} timeoutMs must be between 1 and ${MAX_STEP_TIMEOUT_MS}ms`,
+        'timeoutMs',
+        step.timeoutMs
+      );
+    }
+
+    steps.push({ ...step, cmd: normalizeCommandName(step.cmd) });
+  }
+
+  return ok({ ...script, steps });
+}
+
+/**
+ * Parse script source text
+ *
+ * @param content Script source
+ * @param format Source format
+ * @returns Validated script or parse/validation error
+ */
+export function parseScript(content: string, format: 'json' | 'yaml'): Result<RunScript, string> {
+  let document: unknown;
+  try {
+    document = format === 'json' ? JSON.parse(content) : parseYaml(content);
+  } catch (err) {
+    return error(
+      `Failed to parse ${format.toUpperCase()} script: ${err instanceof Error ? err.message : String(err)}`,
+      ErrorCode.INVALID_JSON,
+      { recoveryHint: 'user_action' }
+    );
+  }
+  return validateScript(document);
+}
+
+/**
+ * Load and parse a script file (.json, .yaml or .yml)
+ *
+ * @param scriptPath Path to the script file
+ * @returns Validated script or error
+ */
+export function loadScript(scriptPath: string): Result<RunScript, string> {
+  const resolvedPath = expandPath(scriptPath, true);
+  const extension = extname(resolvedPath).toLowerCase();
+
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    return ErrorUtils.validationError(
+      'Script file must have a .json, .yaml or .yml extension',
+      'script',
+      scriptPath
+    );
+  }
+
+  if (!existsSync(resolvedPath)) {
+    return error(`Script file not found: ${scriptPath}`, ErrorCode.FILE_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(resolvedPath, 'utf8');
+  } catch (err) {
+    return error(
+      `Failed to read script file: ${err instanceof Error ? err.message : String(err)}`,
+      ErrorCode.FILE_READ_ERROR
+    );
+  }
+
+  return parseScript(content, extension === '.json' ? 'json' : 'yaml');
+}
+
+/**
+ * Run a handler with a timeout
+ */
+async function runWithTimeout(
+  operation: () => Promise<Result<unknown, string>>,
+  cmd: string,
+  timeoutMs: number
+): Promise<Result<unknown, string>> {
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<Result<unknown, string>>(resolve => {
+    timeoutId = setTimeout(() => {
+      resolve(ErrorUtils.timeoutError(`${cmd} step`, timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(), timeout]);
+  } finally {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Run a script in the current process
+ *
+ * Executes steps in order through the shared service container. Each step's
+ * arguments are resolved against the outputs (Result data) of earlier steps with
+ * an `id`. When a step fails and continueOnError is not set for it, the remaining
+ * steps are reported as skipped.
+ *
+ * @param script Validated script
+ * @param container Shared service container
+ * @param options Run options overriding script-level settings
+ * @returns Promise resolving to the run report (step failures are reported per step, not as an error)
+ *
+ * @example
+ * ```typescript
+ * const report = await runScript({
+ *   steps: [
+ *     { cmd: 'open', args: { url: 'https://example.com', wait: true } },
+ *     { id: 'outline', cmd: 'snapshot outline', args: { visibleOnly: true } },
+ *     { cmd: 'click', args: { selector: '${outline.nodes[role=button].selector}' } }
+ *   ]
+ * }, container);
+ * ```
+ */
+export async function runScript(
+  script: RunScript,
+  container: IServiceContainer,
+  options: RunScriptOptions = {}
+): Promise<Result<RunReport, string>> {
+  const continueOnError = options.continueOnError ?? script.continueOnError ?? false;
+  const defaultTimeoutMs = options.timeoutMs ?? script.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+  const correlationId = logCommandStart('run', {
+    name: script.name,
+    steps: script.steps.length,
+    continueOnError
+  });
+
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString();
+  const outputs: Record<string, unknown> = {};
+  const reports: StepReport[] = [];
+  let halted = false;
+
+  for (const [position, step] of script.steps.entries()) {
+    const index = position + 1;
+
+    if (halted) {
+      reports.push({
+        index,
+        ...(step.id && { id: step.id }),
+        cmd: step.cmd,
+        status: 'skipped',
+        durationMs: 0
+      });
+      continue;
+    }
+
+    const stepStart = Date.now();
+    const timeoutMs = step.timeoutMs ?? defaultTimeoutMs;
+    const resolvedArgs = resolveReferences(step.args ?? {}, outputs);
+
+    const result: Result<unknown, string> = resolvedArgs.success
+      ? await runWithTimeout(
+          () => executeStep(step.cmd, resolvedArgs.data as Record<string, unknown>, { container, timeoutMs }),
+          step.cmd,
+          timeoutMs
+        )
+      : resolvedArgs;
+
+    const report: StepReport = {
+      index,
+      ...(step.id && { id: step.id }),
+      cmd: step.cmd,
+      status: result.success ? 'passed' : 'failed',
+      durationMs: Date.now() - stepStart,
+      ...(resolvedArgs.success && { args: resolvedArgs.data as Record<string, unknown> }),
+      result
+    };
+    reports.push(report);
+    options.onStep?.(report);
+
+    if (result.success) {
+      if (step.id) {
+        outputs[step.id] = result.data;
+      }
+    } else if (!(step.continueOnError ?? continueOnError)) {
+      halted = true;
+    }
+  }
+
+  const summary = {
+    total: reports.length,
+    passed: reports.filter(r => r.status === 'passed').length,
+    failed: reports.filter(r => r.status === 'failed').length,
+    skipped: reports.filter(r => r.status === 'skipped').length
+  };
+  const durationMs = Date.now() - startTime;
+  const success = summary.failed === 0;
+
+  const runReport: RunReport = {
+    success,
+    cmd: 'run',
+    ...(script.name && { name: script.name }),
+    steps: reports,
+    summary,
+    durationMs,
+    timestamp
+  };
+
+  logCommandEnd('run', correlationId, success, durationMs, success ? undefined : new Error(`${summary.failed} step(s) failed`));
+
+  return ok(runReport, ErrorCode.OK, {
+    durationMs,
+    metadata: { operation: 'run-script', ...summary }
+  });
+}
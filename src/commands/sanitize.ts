@@ -0,0 +1,379 @@
+/**
+ * @fileoverview Dry-run of the network redaction policy against saved data
+ *
+ * `sanitize test <file>` applies a redaction policy to a netlog dump, a HAR
+ * file or a raw body and reports every header, URL parameter, JSON path and
+ * pattern that would be redacted, so a policy can be reviewed before it is
+ * rolled out. Nothing is sent to the browser.
+ *
+ * Accepted inputs:
+ * - `netlog dump` output (plain or the `--json` envelope), or a bare event array
+ * - HAR documents, including `netlog dump --format har` output
+ * - Any other file, treated as a single body (JSON when it parses as JSON)
+ *
+ * @example
+ * ```typescript
+ * const report = testSanitization('./capture.har', { policyFile: './policy.json' });
+ * console.log(formatSanitizeReport(report.data!));
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { expandPath } from '../lib/util.js';
+import { NetworkDataSanitizer, getDataSanitizer, type RedactionFinding } from '../security/DataSanitizer.js';
+import { validateRedactionPolicy, type RedactionPolicy } from '../security/RedactionPolicy.js';
+import type { HAR, NetworkEvent } from './netlog.js';
+
+/**
+ * Options for a redaction dry-run
+ */
+export interface SanitizeTestOptions {
+  /** JSON file holding a redaction policy (or a config file with a `redaction` key) */
+  policyFile?: string;
+  /** Include the sanitized values of items with findings */
+  showSanitized?: boolean;
+}
+
+export type SanitizeLocation =
+  | 'url'
+  | 'request.headers'
+  | 'request.body'
+  | 'response.headers'
+  | 'response.body'
+  | 'websocket';
+
+export interface SanitizeFinding extends RedactionFinding {
+  location: SanitizeLocation;
+}
+
+/**
+ * Request, response or body extracted from the input file
+ */
+export interface SanitizeSample {
+  url?: string;
+  method?: string;
+  requestHeaders?: Record<string, string>;
+  requestBody?: string;
+  requestContentType?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  responseContentType?: string;
+  webSocketPayloads?: string[];
+}
+
+export interface SanitizeItemResult {
+  /** Position in the input, e.g. `events[3]`, `entries[0]` or `body` */
+  source: string;
+  method?: string;
+  url?: string;
+  findings: SanitizeFinding[];
+  sanitized?: SanitizeSample;
+}
+
+export interface SanitizeTotal {
+  target: RedactionFinding['target'];
+  rule: string;
+  count: number;
+}
+
+export interface SanitizeTestReport {
+  cmd: 'sanitize.test';
+  file: string;
+  input: 'netlog' | 'har' | 'body';
+  /** Effective policy after merging with the defaults */
+  policy: RedactionPolicy;
+  items: number;
+  itemsWithFindings: number;
+  totals: SanitizeTotal[];
+  /** Only items with at least one finding */
+  results: SanitizeItemResult[];
+}
+
+interface LoadedSamples {
+  input: SanitizeTestReport['input'];
+  samples: Array<{ source: string; sample: SanitizeSample }>;
+}
+
+function readTextFile(filePath: string, label: string): Result<string, string> {
+  const resolvedPath = expandPath(filePath, true);
+
+  if (!existsSync(resolvedPath)) {
+    return error(`${label} not found: ${filePath}`, ErrorCode.FILE_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  try {
+    return ok(readFileSync(resolvedPath, 'utf8'));
+  } catch (err) {
+    return error(`Failed to read ${label.toLowerCase()}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_READ_ERROR, {
+      recoveryHint: 'permission',
+      metadata: { path: resolvedPath }
+    });
+  }
+}
+
+function headerRecord(headers: Array<{ name: string; value: string }> | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const header of headers || []) {
+    record[header.name] = header.value;
+  }
+  return record;
+}
+
+function contentTypeOf(headers: Record<string, string> | undefined): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find(name => name.toLowerCase() === 'content-type');
+  return key ? headers[key] : undefined;
+}
+
+function sampleFromEvent(event: NetworkEvent): SanitizeSample {
+  return {
+    url: event.url,
+    method: event.method,
+    requestHeaders: event.requestHeaders,
+    requestBody: event.requestBody,
+    requestContentType: contentTypeOf(event.requestHeaders),
+    responseHeaders: event.responseHeaders,
+    responseBody: event.responseBody,
+    responseContentType: contentTypeOf(event.responseHeaders),
+    webSocketPayloads: event.webSocket?.frames.filter(frame => frame.opcode === 1).map(frame => frame.payload)
+  };
+}
+
+function sampleFromHAREntry(entry: HAR['log']['entries'][number]): SanitizeSample {
+  return {
+    url: entry.request?.url,
+    method: entry.request?.method,
+    requestHeaders: headerRecord(entry.request?.headers),
+    requestBody: entry.request?.postData?.text,
+    requestContentType: entry.request?.postData?.mimeType,
+    responseHeaders: headerRecord(entry.response?.headers),
+    // Base64 content is binary and carries no readable secrets
+    responseBody: entry.response?.content?.encoding === 'base64' ? undefined : entry.response?.content?.text,
+    responseContentType: entry.response?.content?.mimeType
+  };
+}
+
+function isEventArray(value: unknown): value is NetworkEvent[] {
+  return Array.isArray(value) && value.every(item => item && typeof item === 'object' && typeof item.url === 'string');
+}
+
+/**
+ * Work out what kind of data the file holds and extract the values to redact
+ */
+export function extractSanitizeSamples(content: string): LoadedSamples {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { input: 'body', samples: [{ source: 'body', sample: { requestBody: content } }] };
+  }
+
+  const envelope = parsed as { data?: unknown } | null;
+  const candidate = envelope && typeof envelope === 'object' && !Array.isArray(envelope) && 'data' in envelope
+    ? envelope.data
+    : parsed;
+  const document = candidate as { log?: { entries?: unknown }; events?: unknown } | null;
+
+  if (document && typeof document === 'object' && Array.isArray(document.log?.entries)) {
+    const entries = document.log!.entries as HAR['log']['entries'];
+    return {
+      input: 'har',
+      samples: entries.map((entry, index) => ({ source: `entries[${index}]`, sample: sampleFromHAREntry(entry) }))
+    };
+  }
+
+  const events = document && typeof document === 'object' && !Array.isArray(document) ? document.events : candidate;
+  if (isEventArray(events) && events.length > 0) {
+    return {
+      input: 'netlog',
+      samples: events.map((event, index) => ({ source: `events[${index}]`, sample: sampleFromEvent(event) }))
+    };
+  }
+
+  return {
+    input: 'body',
+    samples: [{ source: 'body', sample: { requestBody: content, requestContentType: 'application/json' } }]
+  };
+}
+
+/**
+ * Load a policy file. Accepts a bare policy or a configuration file with a `redaction` key.
+ */
+export function loadRedactionPolicyFile(policyFile: string): Result<RedactionPolicy, string> {
+  const content = readTextFile(policyFile, 'Policy file');
+  if (!content.success) {
+    return error(content.error, content.code, content.context);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.data);
+  } catch (err) {
+    return error(`Invalid policy JSON in ${policyFile}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.INVALID_JSON, {
+      recoveryHint: 'user_action'
+    });
+  }
+
+  const config = parsed && typeof parsed === 'object' && 'redaction' in parsed
+    ? (parsed as { redaction: unknown }).redaction
+    : parsed;
+  return validateRedactionPolicy(config);
+}
+
+function sanitizeSample(
+  sanitizer: NetworkDataSanitizer,
+  sample: SanitizeSample
+): { findings: SanitizeFinding[]; sanitized: SanitizeSample } {
+  const findings: SanitizeFinding[] = [];
+  const sanitized: SanitizeSample = { ...sample };
+  const collect = (location: SanitizeLocation, found: RedactionFinding[]) => {
+    findings.push(...found.map(finding => ({ location, ...finding })));
+  };
+
+  if (sample.url !== undefined) {
+    const result = sanitizer.redactUrl(sample.url);
+    sanitized.url = result.value;
+    collect('url', result.findings);
+  }
+  if (sample.requestHeaders) {
+    const result = sanitizer.redactHeaders(sample.requestHeaders);
+    sanitized.requestHeaders = result.value;
+    collect('request.headers', result.findings);
+  }
+  if (sample.requestBody) {
+    const result = sanitizer.redactBody(sample.requestBody, sample.requestContentType);
+    sanitized.requestBody = result.value;
+    collect('request.body', result.findings);
+  }
+  if (sample.responseHeaders) {
+    const result = sanitizer.redactHeaders(sample.responseHeaders);
+    sanitized.responseHeaders = result.value;
+    collect('response.headers', result.findings);
+  }
+  if (sample.responseBody) {
+    const result = sanitizer.redactBody(sample.responseBody, sample.responseContentType);
+    sanitized.responseBody = result.value;
+    collect('response.body', result.findings);
+  }
+  if (sample.webSocketPayloads) {
+    sanitized.webSocketPayloads = sample.webSocketPayloads.map(payload => {
+      const result = sanitizer.redactBody(payload);
+      collect('websocket', result.findings);
+      return result.value;
+    });
+  }
+
+  return { findings, sanitized };
+}
+
+/**
+ * Report what the redaction policy would redact in a saved netlog dump, HAR file or body.
+ * Uses the configured policy unless a policy file is given; `--no-redact` does not apply.
+ *
+ * @param file - Netlog dump, HAR or body file
+ * @param options - Policy file and output options
+ * @returns Result containing the redaction report
+ *
+ * @throws {ErrorCode.FILE_NOT_FOUND} When the input or policy file does not exist
+ * @throws {ErrorCode.FILE_READ_ERROR} When a file cannot be read
+ * @throws {ErrorCode.INVALID_JSON} When the policy file is not valid JSON
+ * @throws {ErrorCode.INVALID_INPUT} When the policy is invalid
+ */
+export function testSanitization(file: string, options: SanitizeTestOptions = {}): Result<SanitizeTestReport, string> {
+  let sanitizer: NetworkDataSanitizer;
+  if (options.policyFile) {
+    const policy = loadRedactionPolicyFile(options.policyFile);
+    if (!policy.success) {
+      return error(policy.error, policy.code, policy.context);
+    }
+    sanitizer = new NetworkDataSanitizer(policy.data);
+  } else {
+    const active = getDataSanitizer();
+    sanitizer = active instanceof NetworkDataSanitizer ? active : new NetworkDataSanitizer();
+  }
+
+  const content = readTextFile(file, 'Input file');
+  if (!content.success) {
+    return error(content.error, content.code, content.context);
+  }
+  if (content.data.trim() === '') {
+    return ErrorUtils.validationError(`Input file ${file} is empty`, 'file', file);
+  }
+
+  const { input, samples } = extractSanitizeSamples(content.data);
+  const totals = new Map<string, SanitizeTotal>();
+  const results: SanitizeItemResult[] = [];
+
+  for (const { source, sample } of samples) {
+    const { findings, sanitized } = sanitizeSample(sanitizer, sample);
+    if (findings.length === 0) continue;
+
+    for (const finding of findings) {
+      const key = `${finding.target}\u0000${finding.rule}`;
+      const total = totals.get(key) || { target: finding.target, rule: finding.rule, count: 0 };
+      total.count += finding.count;
+      totals.set(key, total);
+    }
+    results.push({
+      source,
+      ...(sample.method && { method: sample.method }),
+      ...(sample.url && { url: sample.url }),
+      findings,
+      ...(options.showSanitized && { sanitized })
+    });
+  }
+
+  return ok({
+    cmd: 'sanitize.test',
+    file,
+    input,
+    policy: sanitizer.policy,
+    items: samples.length,
+    itemsWithFindings: results.length,
+    totals: Array.from(totals.values()).sort((a, b) => b.count - a.count || a.rule.localeCompare(b.rule)),
+    results
+  });
+}
+
+/**
+ * Format a redaction report for terminal review
+ */
+export function formatSanitizeReport(report: SanitizeTestReport): string {
+  const lines = [
+    `Redaction test: ${report.file} (${report.input}, ${report.items} item(s), ${report.itemsWithFindings} with redactions)`
+  ];
+
+  if (report.totals.length === 0) {
+    lines.push('', 'Nothing would be redacted by the current policy');
+    return lines.join('\n');
+  }
+
+  lines.push('', 'Totals:');
+  for (const total of report.totals) {
+    lines.push(`  ${String(total.count).padStart(5)}  ${total.target.padEnd(6)}  ${total.rule}`);
+  }
+
+  lines.push('', 'Items:');
+  for (const item of report.results) {
+    const label = [item.method, item.url].filter(Boolean).join(' ');
+    lines.push(`  ${item.source}${label ? `  ${label}` : ''}`);
+    for (const finding of item.findings) {
+      const count = finding.count > 1 ? ` x${finding.count}` : '';
+      lines.push(`    ${finding.location.padEnd(16)}  ${finding.rule}${finding.field ? `  ${finding.field}` : ''}${count}`);
+    }
+    if (item.sanitized) {
+      lines.push(...JSON.stringify(item.sanitized, null, 2).split('\n').map(line => `    ${line}`));
+    }
+  }
+
+  return lines.join('\n');
+}
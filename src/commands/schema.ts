@@ -0,0 +1,1239 @@
+/**
+ * @fileoverview JSON Schema for command options and result payloads
+ *
+ * `meta schema` input schemas are generated from the commander definitions of
+ * the CLI commands themselves: their options (camelCase, as commander stores
+ * them) and positional arguments. Output schemas describe the `data` payload
+ * of each command's Result and are written against the TypeScript interfaces
+ * with `objectSchema<T>()`, which requires exactly one entry per property of
+ * `T` and `optional()` for optional properties, so changing an interface
+ * without its schema fails type-checking. MCP tools build their input schemas
+ * from the `meta commands` registry with `buildInputSchema()`.
+ *
+ * @example
+ * ```typescript
+ * const schema = buildCommandSchema('open', openCommand);
+ * // { command: 'open', input: { type: 'object', properties: { url: ... } }, output: { title: 'NavigationData', ... } }
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import type { Argument, Command, Option } from 'commander';
+import type { CliStats, CommandInfo, CommandOption, ExternalDependency, MetaInfo, PerformanceInfo, PermissionInfo } from './meta.js';
+import type { DependencyCheck, DoctorResult, PermissionCheck, ScreenshotDoctorResult, SystemCheck } from './doctor.js';
+import type { NavigationData } from './navigation.js';
+import type { TabCommandData, TabInfo } from './tab.js';
+import type { ScreenshotData } from './screenshot.js';
+import type { DiffCluster, ScreenshotComparison } from './screenshot-compare.js';
+import type { KeyboardCommandData } from './keyboard.js';
+import type { InputCommandData, FormElementValidation } from './input.js';
+import type { DOMEvalData, DOMEvalMeta } from './dom.js';
+import type { SnapshotResult, SnapshotNode, ElementRect, ElementState } from './snapshot.js';
+import type { SnapshotDiff, MatchedSnapshotNode, MovedSnapshotNode, SnapshotStateChange } from './snapshot-diff.js';
+import type { HARMockStatus, InterceptRule, NetworkLogState, NetworkEvent, WebSocketDetails, WebSocketFrame } from './netlog.js';
+import type { LatencySummary, NetworkStatsGroup, NetworkStatsReport, SlowRequest } from './netlog-stats.js';
+import type { WaitResult } from './wait.js';
+import type { A11yAuditResult, A11yRuleId, A11ySeverity, A11yViolation } from './a11y.js';
+import type { WindowActionData, WindowListData } from './window.js';
+import type { RecordingResult } from './record.js';
+import type { TraceReport } from './trace.js';
+import type { SanitizeFinding, SanitizeItemResult, SanitizeLocation, SanitizeSample, SanitizeTestReport, SanitizeTotal } from './sanitize.js';
+import type { ScrollResult } from './scroll.js';
+import type {
+  ConfigFileValidation,
+  ConfigGetResult,
+  ConfigListEntry,
+  ConfigListResult,
+  ConfigSetResult,
+  ConfigValidateResult,
+  ConfigValueSource
+} from './config.js';
+import type { DaemonStartResult } from './daemon.js';
+import type { RunReport, StepReport } from './run.js';
+import type { MouseActionData } from '../lib/mouse.js';
+import type { Rect } from '../lib/coords.js';
+import type { RecordingSession } from '../lib/recording.js';
+import type { TraceEvent, TraceEventKind } from '../lib/trace.js';
+import type { ChromeWindowInfo, ViewportSize, WindowBounds } from '../services/IAppleScriptService.js';
+import type { RedactionPattern, RedactionPolicy } from '../security/RedactionPolicy.js';
+import type { DaemonStatus } from '../daemon/DaemonProtocol.js';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  enum?: Array<string | number>;
+  default?: string | number | boolean;
+}
+
+/**
+ * Schema of a command's options, keyed by camelCase option name
+ */
+export interface CommandInputSchema {
+  type: 'object';
+  properties: Record<string, {
+    type: CommandOption['type'];
+    description: string;
+    default?: string | number | boolean;
+    enum?: string[];
+  }>;
+  required?: string[];
+  additionalProperties: false;
+}
+
+export interface CommandSchema {
+  command: string;
+  description: string;
+  input: JsonSchema & { $schema: string; title: string };
+  /** Schema of the Result `data` payload, when described */
+  output?: JsonSchema;
+}
+
+const OPTIONAL = Symbol('optional');
+
+interface OptionalProperty {
+  readonly [OPTIONAL]: true;
+  readonly schema: JsonSchema;
+}
+
+type OptionalKeys<T> = { [K in keyof T]-?: {} extends Pick<T, K> ? K : never }[keyof T];
+
+/**
+ * One schema per property of `T`; optional properties must be wrapped in `optional()`
+ */
+export type SchemaShape<T> = {
+  [K in keyof T]-?: K extends OptionalKeys<T> ? OptionalProperty : JsonSchema;
+};
+
+/**
+ * Mark a property as optional
+ */
+export function optional(schema: JsonSchema): OptionalProperty {
+  return { [OPTIONAL]: true, schema };
+}
+
+/**
+ * Object schema whose properties and required list follow the interface `T`
+ */
+export function objectSchema<T>(title: string | undefined, shape: SchemaShape<T>, description?: string): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(shape) as Array<[string, JsonSchema | OptionalProperty]>) {
+    if (OPTIONAL in value) {
+      properties[key] = value.schema;
+    } else {
+      properties[key] = value;
+      required.push(key);
+    }
+  }
+
+  return {
+    ...(title && { title }),
+    ...(description && { description }),
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false
+  };
+}
+
+const string = (description?: string): JsonSchema => ({ type: 'string', ...(description && { description }) });
+const number = (description?: string): JsonSchema => ({ type: 'number', ...(description && { description }) });
+const integer = (description?: string): JsonSchema => ({ type: 'integer', ...(description && { description }) });
+const boolean = (description?: string): JsonSchema => ({ type: 'boolean', ...(description && { description }) });
+const oneOf = <V extends string | number>(values: V[], description?: string): JsonSchema => ({
+  type: typeof values[0] === 'number' ? 'integer' : 'string',
+  enum: values,
+  ...(description && { description })
+});
+const arrayOf = (items: JsonSchema, description?: string): JsonSchema => ({ type: 'array', items, ...(description && { description }) });
+const stringMap = (description?: string): JsonSchema => ({
+  type: 'object',
+  additionalProperties: { type: 'string' },
+  ...(description && { description })
+});
+const anyValue = (description: string): JsonSchema => ({ description });
+const record = (description?: string): JsonSchema => ({ type: 'object', ...(description && { description }) });
+const nullable = (schema: JsonSchema): JsonSchema => ({ ...schema, type: [schema.type as JsonSchemaType, 'null'] });
+const point = (): JsonSchema => objectSchema<{ x: number; y: number }>(undefined, { x: number(), y: number() });
+
+const NAVIGATION_DATA = objectSchema<NavigationData>('NavigationData', {
+  url: string('Current page URL'),
+  title: string('Current page title'),
+  loading: boolean('Whether the page is still loading'),
+  canGoBack: boolean(),
+  canGoForward: boolean(),
+  timestamp: string('When navigation completed (ISO 8601)')
+});
+
+const TAB_INFO = objectSchema<TabInfo>('TabInfo', {
+  id: integer(),
+  title: string(),
+  url: string(),
+  active: optional(boolean()),
+  loading: optional(boolean()),
+  windowId: optional(integer())
+});
+
+const TAB_COMMAND_DATA = objectSchema<TabCommandData>('TabCommandData', {
+  action: string('Action performed'),
+  tab: optional(TAB_INFO),
+  newTab: optional(TAB_INFO),
+  targetTab: optional(TAB_INFO),
+  closedTab: optional(TAB_INFO),
+  tabs: optional(arrayOf(TAB_INFO, 'Tabs (list)')),
+  totalTabs: optional(integer()),
+  activeTabId: optional(integer()),
+  pattern: optional(string('Pattern used for matching')),
+  matchType: optional(oneOf(['exact', 'partial', 'url', 'regex', 'id', 'index', 'active', 'current'])),
+  windowIndex: optional(integer()),
+  force: optional(boolean()),
+  url: optional(string()),
+  activate: optional(boolean()),
+  metadata: objectSchema<TabCommandData['metadata']>(undefined, {
+    timestamp: string(),
+    durationMs: number(),
+    windowIndex: optional(integer()),
+    searchedTabs: optional(integer()),
+    forced: optional(boolean()),
+    multipleMatches: optional(boolean()),
+    totalMatches: optional(integer()),
+    totalTabs: optional(integer())
+  })
+});
+
+const SCREENSHOT_DATA = objectSchema<ScreenshotData>('ScreenshotData', {
+  path: string('Path to the captured screenshot file'),
+  format: string('Format used for the screenshot'),
+  metadata: objectSchema<ScreenshotData['metadata']>(undefined, {
+    width: integer(),
+    height: integer(),
+    timestamp: string(),
+    windowTitle: optional(string()),
+    url: optional(string()),
+    captureMethod: optional(string('window-id, rectangle-direct or fullscreen-crop')),
+    windowId: optional(integer()),
+    tiles: optional(integer('Viewport tiles stitched (full-page captures)')),
+    pageHeight: optional(integer('Page height in CSS pixels (full-page captures)')),
+    truncated: optional(boolean('Page was taller than the capture limit')),
+    masked: optional(arrayOf(objectSchema<NonNullable<ScreenshotData['metadata']['masked']>[number]>(undefined, {
+      kind: oneOf(['selector', 'text']),
+      pattern: string('Mask selector or text pattern'),
+      x: integer(),
+      y: integer(),
+      width: integer(),
+      height: integer()
+    }), 'Regions painted over, in image pixels')),
+    annotated: optional(arrayOf(objectSchema<NonNullable<ScreenshotData['metadata']['annotated']>[number]>(undefined, {
+      label: string('Number drawn on the box'),
+      x: integer(),
+      y: integer(),
+      width: integer(),
+      height: integer()
+    }), 'Numbered boxes drawn by --annotate, in image pixels'))
+  }),
+  legend: optional(arrayOf(objectSchema<NonNullable<ScreenshotData['legend']>[number]>(undefined, {
+    ref: integer('Number drawn on the capture; pass it to click-ref'),
+    selector: string(),
+    role: string(),
+    name: string()
+  }), 'Elements numbered by --annotate')),
+  preview: optional(objectSchema<NonNullable<ScreenshotData['preview']>>(undefined, {
+    base64: string('Base64 WebP preview'),
+    size: integer('Preview size in bytes')
+  }))
+});
+
+const IMAGE_SIZE = objectSchema<{ width: number; height: number }>(undefined, { width: integer(), height: integer() });
+
+const SCREENSHOT_COMPARISON = objectSchema<ScreenshotComparison>('ScreenshotComparison', {
+  baseline: string(),
+  actual: string(),
+  diff: optional(string('Diff image, only written when pixels changed')),
+  passed: boolean('Whether the mismatch is within --max-diff'),
+  width: integer(),
+  height: integer(),
+  totalPixels: integer(),
+  mismatchedPixels: integer(),
+  antialiasedPixels: integer('Differing pixels ignored as antialiasing'),
+  mismatchPercentage: number(),
+  sizeMismatch: optional(objectSchema<NonNullable<ScreenshotComparison['sizeMismatch']>>(undefined, {
+    baseline: IMAGE_SIZE,
+    actual: IMAGE_SIZE
+  }, 'Image sizes, when they differ')),
+  clusters: arrayOf(objectSchema<DiffCluster>('DiffCluster', {
+    x: integer(),
+    y: integer(),
+    width: integer(),
+    height: integer(),
+    pixels: integer('Changed pixels inside the cluster')
+  }), 'Changed regions, largest first'),
+  clusterCount: integer('Number of clusters found (clusters is capped)'),
+  options: objectSchema<ScreenshotComparison['options']>(undefined, {
+    threshold: number(),
+    antialiasing: number(),
+    maxDiffPercentage: number()
+  })
+});
+
+const MOUSE_ACTION_DATA = objectSchema<MouseActionData>('MouseActionData', {
+  action: string(),
+  coordinates: optional(point()),
+  element: optional(objectSchema<NonNullable<MouseActionData['element']>>(undefined, {
+    selector: string(),
+    visible: boolean(),
+    clickable: boolean()
+  }))
+});
+
+const KEYBOARD_COMMAND_DATA = objectSchema<KeyboardCommandData>('KeyboardCommandData', {
+  action: string(),
+  input: string('Input that was processed'),
+  method: oneOf(['type', 'combo', 'key', 'clear', 'shortcut']),
+  metadata: objectSchema<KeyboardCommandData['metadata']>(undefined, {
+    timestamp: string(),
+    speed: optional(number()),
+    repeat: optional(integer()),
+    cleared: optional(boolean())
+  })
+});
+
+const FORM_ELEMENT_VALIDATION = objectSchema<FormElementValidation>('FormElementValidation', {
+  isValidFormElement: boolean(),
+  elementType: string(),
+  inputType: optional(string()),
+  disabled: boolean(),
+  readonly: boolean(),
+  contentEditable: boolean(),
+  currentValue: string(),
+  focusable: boolean(),
+  validationError: optional(string())
+});
+
+const INPUT_COMMAND_DATA = objectSchema<InputCommandData>('InputCommandData', {
+  action: string(),
+  selector: string(),
+  method: optional(oneOf(['paste', 'type', 'js'])),
+  value: optional(string('Value processed (masked if secret)')),
+  element: optional(objectSchema<NonNullable<InputCommandData['element']>>(undefined, {
+    visible: boolean(),
+    clickable: boolean(),
+    focusable: boolean(),
+    type: string(),
+    formValidation: FORM_ELEMENT_VALIDATION
+  })),
+  mouseAction: optional(objectSchema<NonNullable<InputCommandData['mouseAction']>>(undefined, {
+    focusClicked: boolean(),
+    coordinates: optional(point())
+  })),
+  keyboardAction: optional(objectSchema<NonNullable<InputCommandData['keyboardAction']>>(undefined, {
+    cleared: boolean(),
+    method: oneOf(['type', 'paste']),
+    speed: optional(number())
+  })),
+  metadata: objectSchema<InputCommandData['metadata']>(undefined, {
+    timestamp: string(),
+    masked: optional(boolean()),
+    inputMethod: optional(string()),
+    windowIndex: integer(),
+    durationMs: optional(number())
+  })
+});
+
+const DOM_EVAL_DATA = objectSchema<DOMEvalData>('DOMEvalData', {
+  success: boolean('Whether the JavaScript execution succeeded'),
+  result: optional(anyValue('Value returned by the script')),
+  error: optional(string()),
+  meta: objectSchema<DOMEvalMeta>(undefined, {
+    executionTimeMs: number(),
+    timestamp: string(),
+    resultSize: integer('Result size in bytes'),
+    truncated: boolean(),
+    serializationWarning: optional(string())
+  })
+});
+
+const ELEMENT_RECT = objectSchema<ElementRect>('ElementRect', { x: number(), y: number(), w: number(), h: number() });
+
+const ELEMENT_STATE = objectSchema<ElementState>('ElementState', {
+  editable: optional(boolean()),
+  disabled: optional(boolean()),
+  value: optional(string()),
+  checked: optional(boolean()),
+  expanded: optional(boolean()),
+  selected: optional(boolean()),
+  hidden: optional(boolean()),
+  focused: optional(boolean())
+});
+
+const SNAPSHOT_NODE = objectSchema<SnapshotNode>('SnapshotNode', {
+  role: string(),
+  name: string('Accessible name'),
+  selector: string('CSS selector for the element'),
+  rect: ELEMENT_RECT,
+  state: ELEMENT_STATE,
+  tagName: optional(string()),
+  id: optional(string()),
+  className: optional(string()),
+  href: optional(string()),
+  src: optional(string()),
+  alt: optional(string()),
+  title: optional(string()),
+  type: optional(string()),
+  placeholder: optional(string()),
+  ariaLabel: optional(string()),
+  ariaRole: optional(string()),
+  level: optional(integer('Depth in the DOM hierarchy (dom-lite)')),
+  parent: optional(string('Selector of the parent node (dom-lite)'))
+});
+
+type SnapshotMeta = NonNullable<SnapshotResult['meta']>;
+
+const SNAPSHOT_RESULT = objectSchema<SnapshotResult>('SnapshotResult', {
+  ok: boolean(),
+  cmd: string(),
+  nodes: arrayOf(SNAPSHOT_NODE),
+  meta: optional(objectSchema<SnapshotMeta>(undefined, {
+    url: string(),
+    title: string(),
+    timestamp: string(),
+    durationMs: number(),
+    visibleOnly: boolean(),
+    maxDepth: optional(integer()),
+    performance: optional(objectSchema<NonNullable<SnapshotMeta['performance']>>(undefined, {
+      algorithm: string(),
+      nodeCount: integer(),
+      traversalMs: optional(number()),
+      processingMs: number(),
+      memoryPeakMB: number(),
+      algorithmsUsed: optional(arrayOf(string()))
+    }))
+  }))
+});
+
+const WEBSOCKET_FRAME = objectSchema<WebSocketFrame>('WebSocketFrame', {
+  direction: oneOf(['send', 'receive']),
+  timestamp: number('Epoch milliseconds'),
+  opcode: oneOf([1, 2], '1 = text, 2 = binary'),
+  size: integer('Full payload size in bytes'),
+  payload: string('Text, or base64 of the first bodyPreviewLimit bytes for binary frames'),
+  encoding: optional(oneOf(['base64']))
+});
+
+const WEBSOCKET_DETAILS = objectSchema<WebSocketDetails>('WebSocketDetails', {
+  frames: arrayOf(WEBSOCKET_FRAME),
+  droppedFrames: integer(),
+  protocol: optional(string()),
+  openedAt: optional(number()),
+  closedAt: optional(number()),
+  closeCode: optional(integer()),
+  closeReason: optional(string()),
+  wasClean: optional(boolean())
+});
+
+const NETWORK_EVENT = objectSchema<NetworkEvent>('NetworkEvent', {
+  id: string(),
+  type: oneOf(['fetch', 'xhr', 'websocket']),
+  method: string(),
+  url: string(),
+  timestamp: number('Epoch milliseconds'),
+  requestHeaders: stringMap(),
+  requestBody: optional(string()),
+  responseHeaders: optional(stringMap()),
+  responseBody: optional(string()),
+  status: optional(integer()),
+  statusText: optional(string()),
+  timing: optional(objectSchema<NonNullable<NetworkEvent['timing']>>(undefined, {
+    startTime: number(),
+    responseStart: optional(number()),
+    responseEnd: optional(number()),
+    duration: optional(number())
+  })),
+  error: optional(string()),
+  mocked: optional(boolean('Served from a HAR mock')),
+  interceptedBy: optional(arrayOf(string(), 'Ids of matching interception rules')),
+  seq: optional(integer('Completion sequence number; a WebSocket gets a new one when it closes')),
+  webSocket: optional(WEBSOCKET_DETAILS)
+});
+
+const NETWORK_LOG_STATE = objectSchema<NetworkLogState>('NetworkLogState', {
+  isActive: boolean(),
+  events: arrayOf(NETWORK_EVENT),
+  maxEvents: integer(),
+  bodyPreviewLimit: integer(),
+  maxWebSocketFrames: optional(integer())
+}, 'Payload of netlog dump with --format json');
+
+const HAR_MOCK_STATUS = objectSchema<HARMockStatus>('HARMockStatus', {
+  active: boolean(),
+  mode: optional(oneOf(['passthrough', 'strict'])),
+  ignoreQuery: optional(boolean()),
+  entries: optional(integer()),
+  hits: optional(integer()),
+  misses: optional(integer()),
+  unmatched: optional(arrayOf(objectSchema<{ method: string; url: string }>(undefined, { method: string(), url: string() }))),
+  truncatedBodies: optional(integer('Entries whose recorded body was truncated by the body limit'))
+}, 'Mock counters');
+
+const INTERCEPT_RULE = objectSchema<InterceptRule>('InterceptRule', {
+  id: string(),
+  urlPattern: string('URL pattern, * matches any characters'),
+  method: optional(string()),
+  block: optional(boolean()),
+  delayMs: optional(number()),
+  status: optional(integer()),
+  body: optional(string()),
+  responseHeaders: optional(stringMap()),
+  setHeaders: optional(stringMap()),
+  removeHeaders: optional(arrayOf(string())),
+  hits: integer('Requests sent while the rule matched'),
+  createdAt: number('Epoch milliseconds')
+});
+
+const SANITIZE_LOCATIONS: SanitizeLocation[] = ['url', 'request.headers', 'request.body', 'response.headers', 'response.body', 'websocket'];
+const REDACTION_TARGETS: SanitizeTotal['target'][] = ['header', 'url', 'body'];
+
+const SANITIZE_TEST_REPORT = objectSchema<SanitizeTestReport>('SanitizeTestReport', {
+  cmd: oneOf(['sanitize.test']),
+  file: string(),
+  input: oneOf(['netlog', 'har', 'body']),
+  policy: objectSchema<RedactionPolicy>('RedactionPolicy', {
+    replacement: string(),
+    headers: arrayOf(string()),
+    urlParams: arrayOf(string()),
+    jsonPaths: arrayOf(string()),
+    patterns: arrayOf(objectSchema<RedactionPattern>(undefined, {
+      name: string(),
+      pattern: string(),
+      flags: optional(string()),
+      replacement: string()
+    }))
+  }, 'Effective policy after merging with the defaults'),
+  items: integer(),
+  itemsWithFindings: integer(),
+  totals: arrayOf(objectSchema<SanitizeTotal>(undefined, {
+    target: oneOf(REDACTION_TARGETS),
+    rule: string(),
+    count: integer()
+  })),
+  results: arrayOf(objectSchema<SanitizeItemResult>('SanitizeItemResult', {
+    source: string('Position in the input, e.g. events[3] or entries[0]'),
+    method: optional(string()),
+    url: optional(string()),
+    findings: arrayOf(objectSchema<SanitizeFinding>(undefined, {
+      location: oneOf(SANITIZE_LOCATIONS),
+      target: oneOf(REDACTION_TARGETS),
+      rule: string(),
+      field: optional(string()),
+      count: integer()
+    })),
+    sanitized: optional(objectSchema<SanitizeSample>(undefined, {
+      url: optional(string()),
+      method: optional(string()),
+      requestHeaders: optional(stringMap()),
+      requestBody: optional(string()),
+      requestContentType: optional(string()),
+      responseHeaders: optional(stringMap()),
+      responseBody: optional(string()),
+      responseContentType: optional(string()),
+      webSocketPayloads: optional(arrayOf(string()))
+    }, 'With --show-sanitized'))
+  }), 'Only items with at least one finding')
+});
+
+const NETWORK_STATS_GROUP_FIELDS = {
+  requests: integer(),
+  completed: integer(),
+  errors: integer(),
+  errorRate: number('Errors divided by completed requests, 0..1')
+};
+
+const LATENCY_SUMMARY = objectSchema<LatencySummary>('LatencySummary', {
+  count: integer(),
+  min: number(),
+  mean: number(),
+  p50: number(),
+  p95: number(),
+  p99: number(),
+  max: number()
+}, 'Duration distribution in milliseconds');
+
+const NETWORK_STATS_GROUP = objectSchema<NetworkStatsGroup>('NetworkStatsGroup', {
+  key: string('Host or endpoint'),
+  ...NETWORK_STATS_GROUP_FIELDS,
+  bytes: integer(),
+  latency: nullable(LATENCY_SUMMARY)
+});
+
+const NETWORK_STATS_REPORT = objectSchema<NetworkStatsReport & { waterfall?: string }>('NetworkStatsReport', {
+  cmd: oneOf(['netlog.stats']),
+  ...NETWORK_STATS_GROUP_FIELDS,
+  pending: integer('Requests without a response or error yet'),
+  bytes: objectSchema<NetworkStatsReport['bytes']>(undefined, {
+    request: integer(),
+    response: integer(),
+    total: integer(),
+    estimated: boolean('A truncated body preview had no Content-Length to fall back on')
+  }),
+  latency: nullable(LATENCY_SUMMARY),
+  hosts: arrayOf(NETWORK_STATS_GROUP),
+  endpoints: arrayOf(NETWORK_STATS_GROUP),
+  slowest: arrayOf(objectSchema<SlowRequest>('SlowRequest', {
+    id: string(),
+    method: string(),
+    url: string(),
+    status: optional(integer()),
+    durationMs: number(),
+    error: optional(string())
+  })),
+  waterfall: optional(string('Text waterfall (with --waterfall)'))
+});
+
+const WAIT_RESULT = objectSchema<WaitResult>('WaitResult', {
+  success: boolean(),
+  cmd: string(),
+  durationMs: number('Requested duration (fixed waits) or timeout budget (condition waits)'),
+  actualMs: number(),
+  timestamp: string(),
+  condition: optional(oneOf(['selector', 'text', 'url', 'title', 'network-idle', 'function'])),
+  attempts: optional(integer('Number of polls performed')),
+  matchedState: optional(record('Page state observed by the final, matching poll'))
+});
+
+const A11Y_SEVERITY = oneOf<A11ySeverity>(['critical', 'serious', 'moderate', 'minor']);
+const A11Y_RULE_ID = oneOf<A11yRuleId>([
+  'interactive-name', 'image-alt', 'label', 'duplicate-id', 'empty-link', 'empty-button', 'heading-order'
+]);
+
+const A11Y_AUDIT_RESULT = objectSchema<A11yAuditResult>('A11yAuditResult', {
+  ok: boolean('Whether the audit script ran'),
+  cmd: oneOf(['a11y.audit']),
+  passed: boolean('Whether no violation reached the failOn severity'),
+  failOn: A11Y_SEVERITY,
+  violations: arrayOf(objectSchema<A11yViolation>('A11yViolation', {
+    rule: A11Y_RULE_ID,
+    severity: A11Y_SEVERITY,
+    message: string(),
+    selector: string(),
+    role: string(),
+    name: string('Accessible name (empty when missing)'),
+    tagName: string(),
+    rect: ELEMENT_RECT
+  })),
+  summary: objectSchema<A11yAuditResult['summary']>(undefined, {
+    total: integer(),
+    bySeverity: objectSchema<A11yAuditResult['summary']['bySeverity']>(undefined, {
+      critical: integer(),
+      serious: integer(),
+      moderate: integer(),
+      minor: integer()
+    }),
+    byRule: objectSchema<A11yAuditResult['summary']['byRule']>(undefined, {
+      'interactive-name': optional(integer()),
+      'image-alt': optional(integer()),
+      'label': optional(integer()),
+      'duplicate-id': optional(integer()),
+      'empty-link': optional(integer()),
+      'empty-button': optional(integer()),
+      'heading-order': optional(integer())
+    })
+  }),
+  meta: objectSchema<A11yAuditResult['meta']>(undefined, {
+    url: string(),
+    title: string(),
+    timestamp: string(),
+    durationMs: number(),
+    nodeCount: integer('Number of elements inspected'),
+    rules: arrayOf(A11Y_RULE_ID, 'Rules that were run'),
+    visibleOnly: boolean()
+  })
+});
+
+const MATCHED_SNAPSHOT_NODE_FIELDS = {
+  selector: string('Selector in the after snapshot'),
+  previousSelector: optional(string('Selector in the before snapshot, when it differs')),
+  role: string(),
+  name: string(),
+  matchedBy: oneOf(['selector', 'role-name'])
+};
+
+/** State change as serialized: a value missing from one snapshot is left out */
+type SerializedStateChange = Pick<SnapshotStateChange, 'key'> & Partial<Pick<SnapshotStateChange, 'before' | 'after'>>;
+
+const SNAPSHOT_DIFF = objectSchema<SnapshotDiff>('SnapshotDiff', {
+  cmd: oneOf(['snapshot.diff']),
+  changed: boolean('Whether any difference was found'),
+  added: arrayOf(SNAPSHOT_NODE, 'Nodes only present in the after snapshot'),
+  removed: arrayOf(SNAPSHOT_NODE, 'Nodes only present in the before snapshot'),
+  moved: arrayOf(objectSchema<MovedSnapshotNode>('MovedSnapshotNode', {
+    ...MATCHED_SNAPSHOT_NODE_FIELDS,
+    before: ELEMENT_RECT,
+    after: ELEMENT_RECT,
+    delta: ELEMENT_RECT
+  })),
+  stateChanged: arrayOf(objectSchema<MatchedSnapshotNode & { changes: SerializedStateChange[] }>('StateChangedSnapshotNode', {
+    ...MATCHED_SNAPSHOT_NODE_FIELDS,
+    changes: arrayOf(objectSchema<SerializedStateChange>(undefined, {
+      key: string('ElementState key'),
+      before: optional(anyValue('Value in the before snapshot')),
+      after: optional(anyValue('Value in the after snapshot'))
+    }))
+  })),
+  summary: objectSchema<SnapshotDiff['summary']>(undefined, {
+    before: integer(),
+    after: integer(),
+    matched: integer(),
+    added: integer(),
+    removed: integer(),
+    moved: integer(),
+    stateChanged: integer(),
+    unchanged: integer()
+  })
+});
+
+const TIMING_METADATA = objectSchema<{ timestamp: string; durationMs: number }>(undefined, {
+  timestamp: string(),
+  durationMs: number()
+});
+
+const CHROME_WINDOW_INFO = objectSchema<ChromeWindowInfo>('ChromeWindowInfo', {
+  id: integer('Stable Chrome window id'),
+  index: integer('Front-to-back position (1-based), as used by --window <n>'),
+  title: string(),
+  url: string('URL of the active tab'),
+  bounds: objectSchema<WindowBounds>('WindowBounds', { x: number(), y: number(), width: number(), height: number() }),
+  tabCount: integer(),
+  activeTabIndex: integer(),
+  incognito: boolean(),
+  minimized: boolean(),
+  visible: boolean()
+});
+
+const WINDOW_LIST_DATA = objectSchema<WindowListData>('WindowListData', {
+  windows: arrayOf(CHROME_WINDOW_INFO, 'Windows from front to back'),
+  totalWindows: integer(),
+  metadata: TIMING_METADATA
+});
+
+const WINDOW_ACTION_DATA = objectSchema<WindowActionData>('WindowActionData', {
+  action: oneOf(['new', 'close', 'set-bounds', 'minimize', 'restore', 'fullscreen']),
+  window: CHROME_WINDOW_INFO,
+  viewport: optional(objectSchema<ViewportSize>('ViewportSize', { width: integer(), height: integer() })),
+  metadata: TIMING_METADATA
+});
+
+const RECORDING_SESSION = objectSchema<RecordingSession>('RecordingSession', {
+  pid: integer('Process id of the background recorder'),
+  dir: string('Directory holding the session file, frames and input events'),
+  output: string(),
+  format: oneOf(['mp4', 'gif']),
+  fps: number(),
+  backend: string(),
+  rect: objectSchema<Rect>(undefined, { x: number(), y: number(), width: number(), height: number() }, 'Recorded screen region'),
+  windowIndex: integer(),
+  overlays: boolean(),
+  maxDurationMs: number(),
+  startedAt: string()
+});
+
+const RECORDING_RESULT = objectSchema<RecordingResult>('RecordingResult', {
+  path: string(),
+  format: oneOf(['mp4', 'gif']),
+  frames: integer(),
+  durationMs: number(),
+  width: integer(),
+  height: integer(),
+  fps: number(),
+  backend: string(),
+  clicks: integer(),
+  keystrokes: integer(),
+  startedAt: string()
+});
+
+const SCROLL_RESULT = objectSchema<ScrollResult>('ScrollResult', {
+  scrolled: boolean(),
+  position: point(),
+  viewport: optional(objectSchema<NonNullable<ScrollResult['viewport']>>(undefined, { width: integer(), height: integer() }))
+});
+
+const CONFIG_VALUE_SOURCE = objectSchema<ConfigValueSource>('ConfigValueSource', {
+  source: oneOf<ConfigValueSource['source']>(['defaults', 'user', 'project', 'env']),
+  path: optional(string()),
+  profile: optional(string())
+});
+
+const CONFIG_GET_RESULT = objectSchema<ConfigGetResult>('ConfigGetResult', {
+  key: string(),
+  value: anyValue('Effective value'),
+  from: CONFIG_VALUE_SOURCE
+});
+
+const CONFIG_LIST_RESULT = objectSchema<ConfigListResult>('ConfigListResult', {
+  profile: optional(string()),
+  userPath: string(),
+  projectPath: optional(string()),
+  entries: arrayOf(objectSchema<ConfigListEntry>('ConfigListEntry', {
+    key: string(),
+    value: anyValue('Effective value'),
+    from: CONFIG_VALUE_SOURCE,
+    env: string('Environment variable that overrides the key')
+  }))
+});
+
+const CONFIG_SET_RESULT = objectSchema<ConfigSetResult>('ConfigSetResult', {
+  key: string(),
+  value: anyValue('Value as written'),
+  path: string('File that was written'),
+  profile: optional(string())
+});
+
+const CONFIG_VALIDATE_RESULT = objectSchema<ConfigValidateResult>('ConfigValidateResult', {
+  valid: boolean(),
+  files: arrayOf(objectSchema<ConfigFileValidation>('ConfigFileValidation', {
+    path: string(),
+    exists: boolean(),
+    valid: boolean(),
+    issues: arrayOf(objectSchema<ConfigFileValidation['issues'][number]>(undefined, { path: string(), message: string() })),
+    error: optional(string())
+  }))
+});
+
+const DAEMON_STATUS_FIELDS: SchemaShape<DaemonStatus> = {
+  pid: integer(),
+  socketPath: string(),
+  startedAt: string(),
+  uptimeMs: number(),
+  requests: integer(),
+  methods: integer('Command methods served over JSON-RPC')
+};
+
+const DAEMON_START_RESULT = objectSchema<DaemonStartResult>('DaemonStartResult', {
+  ...DAEMON_STATUS_FIELDS,
+  alreadyRunning: boolean(),
+  logFile: optional(string())
+});
+
+const DAEMON_STATUS_RESULT = objectSchema<{ running: boolean; socketPath: string } & Partial<DaemonStatus>>('DaemonStatusResult', {
+  running: boolean(),
+  socketPath: string(),
+  pid: optional(integer()),
+  startedAt: optional(string()),
+  uptimeMs: optional(number()),
+  requests: optional(integer()),
+  methods: optional(integer())
+}, 'Fields other than running and socketPath are present while the daemon runs');
+
+const DAEMON_STOP_RESULT = objectSchema<{ stopped: true; pid: number; socketPath: string }>('DaemonStopResult', {
+  stopped: boolean(),
+  pid: integer(),
+  socketPath: string()
+});
+
+const RUN_REPORT = objectSchema<RunReport>('RunReport', {
+  success: boolean('Whether every executed step succeeded'),
+  cmd: string(),
+  name: optional(string()),
+  steps: arrayOf(objectSchema<StepReport>('StepReport', {
+    index: integer('1-based position of the step in the script'),
+    id: optional(string()),
+    cmd: string(),
+    status: oneOf<StepReport['status']>(['passed', 'failed', 'skipped']),
+    durationMs: number(),
+    args: optional(record('Arguments after step references were resolved')),
+    result: optional(record('Result of the step command (absent for skipped steps)'))
+  })),
+  summary: objectSchema<RunReport['summary']>(undefined, {
+    total: integer(),
+    passed: integer(),
+    failed: integer(),
+    skipped: integer()
+  }),
+  durationMs: number(),
+  timestamp: string()
+});
+
+const DOCTOR_RESULT = objectSchema<DoctorResult>('DoctorResult', {
+  overall: oneOf(['healthy', 'warnings', 'errors']),
+  dependencies: arrayOf(objectSchema<DependencyCheck>('DependencyCheck', {
+    name: string(),
+    required: boolean(),
+    installed: boolean(),
+    version: optional(string()),
+    installCommand: optional(string()),
+    description: string()
+  })),
+  permissions: arrayOf(objectSchema<PermissionCheck>('PermissionCheck', {
+    name: string(),
+    granted: boolean(),
+    description: string(),
+    instructions: optional(string())
+  })),
+  system: arrayOf(objectSchema<SystemCheck>('SystemCheck', {
+    name: string(),
+    status: oneOf(['ok', 'warning', 'error']),
+    description: string(),
+    details: optional(string())
+  })),
+  recommendations: arrayOf(string())
+});
+
+const SCREENSHOT_DOCTOR_RESULT = objectSchema<ScreenshotDoctorResult>('ScreenshotDoctorResult', {
+  screenRecordingOk: boolean(),
+  chromeRunning: boolean(),
+  axWindowNumber: nullable(integer()),
+  windowIdCaptureOk: boolean(),
+  notes: arrayOf(string())
+});
+
+const MEMORY_USAGE = objectSchema<CliStats['memoryUsage']>(undefined, {
+  rss: number(),
+  heapTotal: number(),
+  heapUsed: number(),
+  external: number()
+});
+
+const META_INFO = objectSchema<MetaInfo>('MetaInfo', {
+  version: string(),
+  name: string(),
+  description: string(),
+  platform: objectSchema<MetaInfo['platform']>(undefined, {
+    node: string(),
+    os: string(),
+    arch: string(),
+    macosVersion: optional(string()),
+    macosMinimum: string()
+  }),
+  capabilities: arrayOf(string()),
+  repository: string(),
+  license: string(),
+  dependencies: objectSchema<MetaInfo['dependencies']>(undefined, {
+    external: arrayOf(objectSchema<ExternalDependency>('ExternalDependency', {
+      name: string(),
+      description: string(),
+      required: boolean(),
+      installCommand: optional(string()),
+      validateCommand: optional(string())
+    })),
+    node: string()
+  })
+});
+
+const CLI_STATS = objectSchema<CliStats>('CliStats', {
+  uptime: number('Seconds'),
+  startTime: string(),
+  memoryUsage: MEMORY_USAGE,
+  processInfo: objectSchema<CliStats['processInfo']>(undefined, {
+    pid: integer(),
+    ppid: integer(),
+    uid: optional(integer()),
+    gid: optional(integer())
+  })
+});
+
+const COMMAND_INFO = objectSchema<CommandInfo>('CommandInfo', {
+  name: string(),
+  description: string(),
+  category: string(),
+  options: optional(arrayOf(objectSchema<CommandOption>('CommandOption', {
+    name: string(),
+    type: oneOf(['string', 'number', 'boolean']),
+    required: boolean(),
+    description: string(),
+    default: optional(anyValue('Default value')),
+    choices: optional(arrayOf(string()))
+  }))),
+  examples: optional(arrayOf(string())),
+  permissions: arrayOf(string()),
+  subcommands: optional(arrayOf(record('CommandInfo')))
+});
+
+const COMMAND_SCHEMA = objectSchema<CommandSchema>('CommandSchema', {
+  command: string('CLI command path'),
+  description: string(),
+  input: record('JSON Schema of the options and arguments'),
+  output: optional(record('JSON Schema of the Result data'))
+});
+
+const PERMISSION_INFO = objectSchema<PermissionInfo>('PermissionInfo', {
+  name: string(),
+  description: string(),
+  required: boolean(),
+  purpose: arrayOf(string()),
+  commands: arrayOf(string()),
+  setupInstructions: string()
+});
+
+const CACHE_SIZE = objectSchema<{ size: number; maxSize: number }>(undefined, { size: integer(), maxSize: integer() });
+
+const PERFORMANCE_INFO = objectSchema<PerformanceInfo>('PerformanceInfo', {
+  stats: objectSchema<PerformanceInfo['stats']>(undefined, {
+    cacheStats: objectSchema<PerformanceInfo['stats']['cacheStats']>(undefined, {
+      scriptCache: CACHE_SIZE,
+      coordsCache: CACHE_SIZE,
+      webpCache: CACHE_SIZE
+    }),
+    connectionPool: objectSchema<PerformanceInfo['stats']['connectionPool']>(undefined, {
+      activeConnections: integer(),
+      maxConnections: integer()
+    }),
+    memory: MEMORY_USAGE
+  }),
+  recommendations: arrayOf(string()),
+  timestamp: string()
+});
+
+const TRACE_EVENT_KINDS: TraceEventKind[] = ['start', 'end', 'applescript', 'javascript', 'coords', 'retry', 'rate-limit', 'screenshot'];
+
+const TRACE_REPORT = objectSchema<TraceReport>('TraceReport', {
+  file: string(),
+  argv: arrayOf(string()),
+  startedAt: optional(string()),
+  exitCode: optional(integer('Missing when the process was killed before the trace was closed')),
+  complete: boolean(),
+  durationMs: number(),
+  events: arrayOf(objectSchema<TraceEvent>('TraceEvent', {
+    seq: integer(),
+    t: number('Milliseconds since the trace started'),
+    kind: oneOf(TRACE_EVENT_KINDS),
+    durationMs: optional(number()),
+    success: optional(boolean()),
+    data: record()
+  })),
+  counts: objectSchema<TraceReport['counts']>(undefined, Object.fromEntries(
+    TRACE_EVENT_KINDS.map(kind => [kind, optional(integer())])
+  ) as SchemaShape<TraceReport['counts']>),
+  failures: integer()
+});
+
+/**
+ * Result `data` schemas keyed by CLI command path
+ */
+export const OUTPUT_SCHEMAS: Record<string, JsonSchema> = {
+  'doctor': DOCTOR_RESULT,
+  'doctor-screenshots': SCREENSHOT_DOCTOR_RESULT,
+  'open': NAVIGATION_DATA,
+  'reload': NAVIGATION_DATA,
+  'back': NAVIGATION_DATA,
+  'forward': NAVIGATION_DATA,
+  'focus-tab': TAB_COMMAND_DATA,
+  'focus-tab-index': TAB_COMMAND_DATA,
+  'active-tab': TAB_COMMAND_DATA,
+  'list-tabs': TAB_COMMAND_DATA,
+  'windows list': WINDOW_LIST_DATA,
+  'window new': WINDOW_ACTION_DATA,
+  'window close': WINDOW_ACTION_DATA,
+  'window set-bounds': WINDOW_ACTION_DATA,
+  'window minimize': WINDOW_ACTION_DATA,
+  'window restore': WINDOW_ACTION_DATA,
+  'window fullscreen': WINDOW_ACTION_DATA,
+  'screenshot': SCREENSHOT_DATA,
+  'capture': SCREENSHOT_DATA,
+  'screenshot compare': SCREENSHOT_COMPARISON,
+  'capture compare': SCREENSHOT_COMPARISON,
+  'click': MOUSE_ACTION_DATA,
+  'double-click': MOUSE_ACTION_DATA,
+  'right-click': MOUSE_ACTION_DATA,
+  'hover': MOUSE_ACTION_DATA,
+  'click-ref': MOUSE_ACTION_DATA,
+  'click-coords': MOUSE_ACTION_DATA,
+  'drag': MOUSE_ACTION_DATA,
+  'type': KEYBOARD_COMMAND_DATA,
+  'keyboard combo': KEYBOARD_COMMAND_DATA,
+  'keyboard press': KEYBOARD_COMMAND_DATA,
+  'keyboard clear': KEYBOARD_COMMAND_DATA,
+  'keyboard shortcut': KEYBOARD_COMMAND_DATA,
+  'fill': INPUT_COMMAND_DATA,
+  'input get-value': INPUT_COMMAND_DATA,
+  'input submit': INPUT_COMMAND_DATA,
+  'wait': WAIT_RESULT,
+  'wait selector': WAIT_RESULT,
+  'wait text': WAIT_RESULT,
+  'wait url': WAIT_RESULT,
+  'wait title': WAIT_RESULT,
+  'wait network-idle': WAIT_RESULT,
+  'wait js': WAIT_RESULT,
+  'dom eval': DOM_EVAL_DATA,
+  'snapshot outline': SNAPSHOT_RESULT,
+  'snapshot dom-lite': SNAPSHOT_RESULT,
+  'snapshot diff': SNAPSHOT_DIFF,
+  'a11y audit': A11Y_AUDIT_RESULT,
+  'netlog start': string('Confirmation message with the applied limits'),
+  'netlog stop': string('Confirmation message'),
+  'netlog dump': NETWORK_LOG_STATE,
+  'netlog clear': string('Confirmation message'),
+  'netlog stats': NETWORK_STATS_REPORT,
+  'netlog tail': { ...NETWORK_EVENT, description: 'One event per line (NDJSON), as each request finishes' },
+  'netlog mock': { anyOf: [HAR_MOCK_STATUS, string('Confirmation message (with --off)')] },
+  'netlog rules add': INTERCEPT_RULE,
+  'netlog rules list': arrayOf(INTERCEPT_RULE),
+  'netlog rules clear': objectSchema<{ removed: number }>(undefined, { removed: integer() }),
+  'sanitize test': SANITIZE_TEST_REPORT,
+  'scroll to': SCROLL_RESULT,
+  'scroll by': SCROLL_RESULT,
+  'scroll position': SCROLL_RESULT,
+  'files upload': string('Message naming the uploaded files'),
+  'files dragdrop': string('Message naming the dropped files'),
+  'config get': CONFIG_GET_RESULT,
+  'config set': CONFIG_SET_RESULT,
+  'config list': CONFIG_LIST_RESULT,
+  'config validate': CONFIG_VALIDATE_RESULT,
+  'daemon start': DAEMON_START_RESULT,
+  'daemon stop': DAEMON_STOP_RESULT,
+  'daemon status': DAEMON_STATUS_RESULT,
+  'run': RUN_REPORT,
+  'record start': RECORDING_SESSION,
+  'record stop': RECORDING_RESULT,
+  'trace show': TRACE_REPORT,
+  'meta info': META_INFO,
+  'meta stats': CLI_STATS,
+  'meta commands': arrayOf(COMMAND_INFO),
+  'meta schema': {
+    anyOf: [arrayOf(COMMAND_SCHEMA), COMMAND_SCHEMA],
+    description: 'Every command, or the one command named'
+  },
+  'meta permissions': arrayOf(PERMISSION_INFO),
+  'meta performance': PERFORMANCE_INFO
+};
+
+/**
+ * Property name for a CLI option (`--max-size` -> `maxSize`)
+ */
+export function propertyNameForOption(option: string): string {
+  return option.replace(/^-+/, '').replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Build the input schema of a command from its option definitions
+ */
+export function buildInputSchema(options: CommandOption[] = []): CommandInputSchema {
+  const properties: CommandInputSchema['properties'] = {};
+  const required: string[] = [];
+
+  for (const option of options) {
+    const name = propertyNameForOption(option.name);
+    properties[name] = {
+      type: option.type,
+      description: option.description,
+      ...(option.default !== undefined && { default: option.default }),
+      ...(option.choices && { enum: option.choices })
+    };
+    if (option.required) {
+      required.push(name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false
+  };
+}
+
+/**
+ * Value placeholders of CLI options and arguments that take numbers (`--timeout <ms>`)
+ */
+const NUMERIC_PLACEHOLDERS = [
+  'ms', 'milliseconds', 'seconds', 'count', 'n', 'number', 'index', 'x', 'y', 'px', 'points',
+  'percent', 'quality', 'bytes', 'depth', 'cols', 'code'
+];
+
+function valueSchema(placeholder: string, description: string, defaultValue: unknown, choices?: readonly string[]): JsonSchema {
+  const numeric = NUMERIC_PLACEHOLDERS.includes(placeholder);
+  const fallback = numeric && typeof defaultValue === 'string' ? Number(defaultValue) : defaultValue;
+  return {
+    type: numeric ? 'number' : 'string',
+    ...(description && { description }),
+    ...((typeof fallback === 'string' || typeof fallback === 'number') && { default: fallback }),
+    ...(choices && { enum: [...choices] })
+  };
+}
+
+function optionSchema(option: Option): JsonSchema {
+  if (!option.required && !option.optional) {
+    // Flags; `--no-x` flags set `x` and default to true
+    return option.negate
+      ? { type: 'boolean', description: `${option.long}: ${option.description}`, default: true }
+      : { type: 'boolean', description: option.description };
+  }
+  const placeholder = /[<[]([^>\]]+)[>\]]/.exec(option.flags)?.[1] ?? '';
+  if (Array.isArray(option.defaultValue)) {
+    // Repeatable options collect their values
+    return { type: 'array', description: option.description, items: valueSchema(placeholder, '', undefined) };
+  }
+  return valueSchema(placeholder, option.description, option.defaultValue, option.argChoices);
+}
+
+function argumentSchema(argument: Argument): JsonSchema {
+  const schema = valueSchema(argument.name(), argument.description, argument.defaultValue, argument.argChoices);
+  return argument.variadic ? { type: 'array', ...(argument.description && { description: argument.description }), items: { type: schema.type } } : schema;
+}
+
+/**
+ * Input schema of a CLI command: positional arguments by name, then options by
+ * commander attribute name (`--max-size` is `maxSize`, `--no-clear` is `clear`)
+ */
+export function buildCommandInputSchema(command: Command): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const argument of command.registeredArguments) {
+    properties[argument.name()] = argumentSchema(argument);
+    if (argument.required) {
+      required.push(argument.name());
+    }
+  }
+  for (const option of command.options.filter(candidate => !candidate.hidden)) {
+    properties[option.attributeName()] = optionSchema(option);
+    if (option.mandatory) {
+      required.push(option.attributeName());
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false
+  };
+}
+
+/**
+ * Input and output schema of one CLI command
+ *
+ * @param name - Command path, e.g. 'netlog rules add'
+ */
+export function buildCommandSchema(name: string, command: Command): CommandSchema {
+  const output = OUTPUT_SCHEMAS[name];
+  return {
+    command: name,
+    description: command.description(),
+    input: { $schema: JSON_SCHEMA_DIALECT, title: `${name} options`, ...buildCommandInputSchema(command) },
+    ...(output && { output: { $schema: JSON_SCHEMA_DIALECT, ...output } })
+  };
+}
+
+/**
+ * Flatten a program into invokable commands by path: leaves, and groups that
+ * take options themselves (`wait --ms`, `screenshot [url]`)
+ */
+export function listSchemaCommands(program: Command): Array<{ name: string; command: Command }> {
+  const visit = (command: Command, path: string[]): Array<{ name: string; command: Command }> => [
+    ...(command.commands.length === 0 || command.options.length > 0 ? [{ name: path.join(' '), command }] : []),
+    ...command.commands.flatMap(child => visit(child, [...path, child.name()]))
+  ];
+  return program.commands.flatMap(command => visit(command, [command.name()]));
+}
@@ -0,0 +1,554 @@
+/**
+ * @fileoverview Visual regression comparison for screenshots
+ *
+ * This module compares two screenshots pixel by pixel, writes a diff image
+ * highlighting what changed, and groups changed pixels into clusters with
+ * bounding boxes so a failing comparison points at the regions to look at.
+ *
+ * Two pixels differ when any RGBA channel differs by more than the threshold.
+ * A differing pixel is counted as antialiasing instead when both images have
+ * its color within the antialiasing radius, which absorbs edges that moved by
+ * a sub-pixel amount between renders.
+ *
+ * @example
+ * ```typescript
+ * const result = await compareScreenshots('baseline/home.png', 'home.png', { threshold: 16 });
+ * if (result.success && !result.data.passed) {
+ *   console.log(`${result.data.mismatchPercentage}% changed`, result.data.clusters);
+ * }
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { existsSync, mkdirSync, copyFileSync, rmSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import sharp from 'sharp';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { expandPath } from '../lib/util.js';
+import type { ScreenshotData } from './screenshot.js';
+
+/**
+ * Options controlling screenshot comparison
+ */
+export interface ScreenshotCompareOptions {
+  /** Maximum per-channel difference (0-255) that still counts as equal (default: 16) */
+  threshold?: number;
+  /** Neighborhood radius in pixels searched for antialiased edges; 0 disables (default: 1) */
+  antialiasing?: number;
+  /** Mismatch percentage that still passes (default: 0) */
+  maxDiffPercentage?: number;
+  /** Where to write the diff image (default: <actual>.diff.png next to the actual image) */
+  diffPath?: string;
+}
+
+/**
+ * Decoded RGBA image
+ */
+export interface RgbaImage {
+  /** RGBA bytes, row by row */
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bounding box of a group of nearby changed pixels
+ */
+export interface DiffCluster {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Changed pixels inside the cluster */
+  pixels: number;
+}
+
+/**
+ * Per-pixel comparison of two images
+ */
+export interface PixelDiff {
+  width: number;
+  height: number;
+  /** One entry per pixel: 0 equal, 1 changed, 2 antialiasing */
+  mask: Uint8Array;
+  mismatchedPixels: number;
+  antialiasedPixels: number;
+}
+
+/**
+ * Result of comparing two screenshots
+ */
+export interface ScreenshotComparison {
+  /** Path of the baseline image */
+  baseline: string;
+  /** Path of the actual image */
+  actual: string;
+  /** Path of the diff image (only written when pixels changed) */
+  diff?: string;
+  /** Whether the mismatch is within maxDiffPercentage */
+  passed: boolean;
+  /** Compared area (the larger of the two images) */
+  width: number;
+  height: number;
+  totalPixels: number;
+  mismatchedPixels: number;
+  /** Differing pixels ignored as antialiasing */
+  antialiasedPixels: number;
+  /** mismatchedPixels / totalPixels, in percent */
+  mismatchPercentage: number;
+  /** Image sizes, when they differ */
+  sizeMismatch?: {
+    baseline: { width: number; height: number };
+    actual: { width: number; height: number };
+  };
+  /** Changed regions, largest first */
+  clusters: DiffCluster[];
+  /** Number of clusters found (clusters is capped) */
+  clusterCount: number;
+  /** Options the comparison used */
+  options: {
+    threshold: number;
+    antialiasing: number;
+    maxDiffPercentage: number;
+  };
+}
+
+/**
+ * What a baseline check did with the new screenshot
+ */
+export type BaselineStatus = 'created' | 'updated' | 'passed' | 'failed';
+
+/**
+ * Options for comparing a fresh screenshot against a baseline directory
+ */
+export interface BaselineCheckOptions extends Omit<ScreenshotCompareOptions, 'diffPath'> {
+  /** Directory holding the baseline images */
+  baselineDir: string;
+  /** Baseline file name without extension */
+  name: string;
+  /** Overwrite the baseline with the new screenshot */
+  update?: boolean;
+}
+
+/**
+ * Result of a baseline check
+ */
+export interface BaselineCheck {
+  status: BaselineStatus;
+  /** Path of the baseline image */
+  baseline: string;
+  /** The screenshot that was checked */
+  screenshot: ScreenshotData;
+  /** Comparison against the previous baseline (absent when the baseline was created) */
+  comparison?: ScreenshotComparison;
+}
+
+const DEFAULT_THRESHOLD = 16;
+const DEFAULT_ANTIALIASING = 1;
+
+/** Changed pixels in grid cells this size that touch are reported as one cluster */
+const CLUSTER_CELL_SIZE = 8;
+const MAX_REPORTED_CLUSTERS = 50;
+
+const CHANGED_COLOR = [255, 0, 0] as const;
+const ANTIALIASED_COLOR = [255, 200, 0] as const;
+const CLUSTER_OUTLINE_COLOR = [255, 0, 255] as const;
+
+/**
+ * Whether two pixels differ by at most threshold in every channel
+ */
+function pixelsMatch(a: RgbaImage, aIndex: number, b: RgbaImage, bIndex: number, threshold: number): boolean {
+  for (let channel = 0; channel < 4; channel++) {
+    if (Math.abs(a.data[aIndex + channel]! - b.data[bIndex + channel]!) > threshold) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether the pixel of source at (x, y) appears in target within radius
+ */
+function foundNearby(source: RgbaImage, target: RgbaImage, x: number, y: number, radius: number, threshold: number): boolean {
+  const sourceIndex = (y * source.width + x) * 4;
+  for (let ny = Math.max(0, y - radius); ny <= Math.min(target.height - 1, y + radius); ny++) {
+    for (let nx = Math.max(0, x - radius); nx <= Math.min(target.width - 1, x + radius); nx++) {
+      if (pixelsMatch(source, sourceIndex, target, (ny * target.width + nx) * 4, threshold)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Compare two RGBA images pixel by pixel
+ *
+ * Images of different sizes are compared over the larger area; pixels that
+ * exist in only one image always count as changed.
+ *
+ * @param baseline - Expected image
+ * @param actual - Image under test
+ * @param options - Threshold and antialiasing radius
+ * @returns Per-pixel mask and counts
+ */
+export function diffPixels(
+  baseline: RgbaImage,
+  actual: RgbaImage,
+  options: Pick<ScreenshotCompareOptions, 'threshold' | 'antialiasing'> = {}
+): PixelDiff {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const radius = options.antialiasing ?? DEFAULT_ANTIALIASING;
+  const width = Math.max(baseline.width, actual.width);
+  const height = Math.max(baseline.height, actual.height);
+  const mask = new Uint8Array(width * height);
+  let mismatchedPixels = 0;
+  let antialiasedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBaseline = x < baseline.width && y < baseline.height;
+      const inActual = x < actual.width && y < actual.height;
+
+      if (inBaseline && inActual) {
+        if (pixelsMatch(baseline, (y * baseline.width + x) * 4, actual, (y * actual.width + x) * 4, threshold)) {
+          continue;
+        }
+        if (radius > 0
+          && foundNearby(actual, baseline, x, y, radius, threshold)
+          && foundNearby(baseline, actual, x, y, radius, threshold)) {
+          mask[y * width + x] = 2;
+          antialiasedPixels++;
+          continue;
+        }
+      }
+
+      mask[y * width + x] = 1;
+      mismatchedPixels++;
+    }
+  }
+
+  return { width, height, mask, mismatchedPixels, antialiasedPixels };
+}
+
+/**
+ * Group changed pixels into clusters. The mask is bucketed into grid cells;
+ * touching cells (including diagonally) form one cluster, whose box is the
+ * extent of its changed pixels.
+ *
+ * @param diff - Result of diffPixels
+ * @returns Clusters, largest first
+ */
+export function findDiffClusters(diff: PixelDiff): DiffCluster[] {
+  const columns = Math.ceil(diff.width / CLUSTER_CELL_SIZE);
+  const rows = Math.ceil(diff.height / CLUSTER_CELL_SIZE);
+  const cells = new Map<number, { minX: number; minY: number; maxX: number; maxY: number; pixels: number }>();
+
+  for (let y = 0; y < diff.height; y++) {
+    for (let x = 0; x < diff.width; x++) {
+      if (diff.mask[y * diff.width + x] !== 1) continue;
+      const key = Math.floor(y / CLUSTER_CELL_SIZE) * columns + Math.floor(x / CLUSTER_CELL_SIZE);
+      const cell = cells.get(key);
+      if (cell) {
+        cell.minX = Math.min(cell.minX, x);
+        cell.minY = Math.min(cell.minY, y);
+        cell.maxX = Math.max(cell.maxX, x);
+        cell.maxY = Math.max(cell.maxY, y);
+        cell.pixels++;
+      } else {
+        cells.set(key, { minX: x, minY: y, maxX: x, maxY: y, pixels: 1 });
+      }
+    }
+  }
+
+  const clusters: DiffCluster[] = [];
+  const visited = new Set<number>();
+
+  for (const start of cells.keys()) {
+    if (visited.has(start)) continue;
+    visited.add(start);
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity, pixels = 0;
+    const queue = [start];
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      const cell = cells.get(key)!;
+      minX = Math.min(minX, cell.minX);
+      minY = Math.min(minY, cell.minY);
+      maxX = Math.max(maxX, cell.maxX);
+      maxY = Math.max(maxY, cell.maxY);
+      pixels += cell.pixels;
+
+      const row = Math.floor(key / columns);
+      const column = key % columns;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const r = row + dy;
+          const c = column + dx;
+          if (r < 0 || r >= rows || c < 0 || c >= columns) continue;
+          const neighbor = r * columns + c;
+          if (cells.has(neighbor) && !visited.has(neighbor)) {
+            visited.add(neighbor);
+            queue.push(neighbor);
+          }
+        }
+      }
+    }
+
+    clusters.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, pixels });
+  }
+
+  return clusters.sort((a, b) => b.pixels - a.pixels || a.y - b.y || a.x - b.x);
+}
+
+/**
+ * Render the diff: the actual image faded to light gray, changed pixels in
+ * red, antialiasing in yellow and each cluster outlined in magenta
+ *
+ * @param baseline - Expected image (used where the actual image has no pixels)
+ * @param actual - Image under test
+ * @param diff - Result of diffPixels
+ * @param clusters - Clusters to outline
+ * @returns RGBA image of diff.width x diff.height
+ */
+export function renderDiffImage(baseline: RgbaImage, actual: RgbaImage, diff: PixelDiff, clusters: DiffCluster[]): RgbaImage {
+  const { width, height, mask } = diff;
+  const data = new Uint8Array(width * height * 4);
+
+  const paint = (x: number, y: number, color: readonly [number, number, number]) => {
+    const index = (y * width + x) * 4;
+    data[index] = color[0];
+    data[index + 1] = color[1];
+    data[index + 2] = color[2];
+    data[index + 3] = 255;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const state = mask[y * width + x];
+      if (state === 1) {
+        paint(x, y, CHANGED_COLOR);
+        continue;
+      }
+      if (state === 2) {
+        paint(x, y, ANTIALIASED_COLOR);
+        continue;
+      }
+      const source = x < actual.width && y < actual.height ? actual : baseline;
+      const index = (y * source.width + x) * 4;
+      const luminance = 0.299 * source.data[index]! + 0.587 * source.data[index + 1]! + 0.114 * source.data[index + 2]!;
+      const faded = Math.round(255 - (255 - luminance) * 0.1);
+      paint(x, y, [faded, faded, faded]);
+    }
+  }
+
+  for (const cluster of clusters) {
+    const left = Math.max(0, cluster.x - 2);
+    const top = Math.max(0, cluster.y - 2);
+    const right = Math.min(width - 1, cluster.x + cluster.width + 1);
+    const bottom = Math.min(height - 1, cluster.y + cluster.height + 1);
+    for (let x = left; x <= right; x++) {
+      paint(x, top, CLUSTER_OUTLINE_COLOR);
+      paint(x, bottom, CLUSTER_OUTLINE_COLOR);
+    }
+    for (let y = top; y <= bottom; y++) {
+      paint(left, y, CLUSTER_OUTLINE_COLOR);
+      paint(right, y, CLUSTER_OUTLINE_COLOR);
+    }
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * Decode an image file to RGBA
+ *
+ * @throws {ErrorCode.FILE_NOT_FOUND} When the file does not exist
+ * @throws {ErrorCode.FILE_READ_ERROR} When the file is not a readable image
+ */
+async function loadRgbaImage(imagePath: string): Promise<Result<RgbaImage, string>> {
+  if (!existsSync(imagePath)) {
+    return error(`Image file not found: ${imagePath}`, ErrorCode.FILE_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { path: imagePath }
+    });
+  }
+
+  try {
+    const { data, info } = await sharp(imagePath).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return ok({ data, width: info.width, height: info.height });
+  } catch (err) {
+    return error(`Failed to read image ${imagePath}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_READ_ERROR, {
+      recoveryHint: 'user_action',
+      metadata: { path: imagePath }
+    });
+  }
+}
+
+/**
+ * Validate comparison options
+ */
+function validateCompareOptions(options: ScreenshotCompareOptions): Result<void, string> {
+  const { threshold, antialiasing, maxDiffPercentage } = options;
+  if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 0 || threshold > 255)) {
+    return ErrorUtils.validationError('Threshold must be an integer between 0 and 255', 'threshold', threshold);
+  }
+  if (antialiasing !== undefined && (!Number.isInteger(antialiasing) || antialiasing < 0 || antialiasing > 10)) {
+    return ErrorUtils.validationError('Antialiasing radius must be an integer between 0 and 10', 'antialiasing', antialiasing);
+  }
+  if (maxDiffPercentage !== undefined && (!Number.isFinite(maxDiffPercentage) || maxDiffPercentage < 0 || maxDiffPercentage > 100)) {
+    return ErrorUtils.validationError('Max diff must be a percentage between 0 and 100', 'maxDiffPercentage', maxDiffPercentage);
+  }
+  return ok(undefined);
+}
+
+/**
+ * Default diff image path: next to the actual image with a .diff.png suffix
+ */
+function defaultDiffPath(actualPath: string): string {
+  return join(dirname(actualPath), `${basename(actualPath, extname(actualPath))}.diff.png`);
+}
+
+/**
+ * Compare two screenshot files and write a diff image when pixels changed
+ *
+ * @param baselinePath - Path to the expected image
+ * @param actualPath - Path to the image under test
+ * @param options - Comparison options
+ * @returns Result containing the comparison; a failed comparison is still a
+ *          successful result with passed: false
+ */
+export async function compareScreenshots(
+  baselinePath: string,
+  actualPath: string,
+  options: ScreenshotCompareOptions = {}
+): Promise<Result<ScreenshotComparison, string>> {
+  const validation = validateCompareOptions(options);
+  if (!validation.success) return validation;
+
+  const resolvedBaseline = expandPath(baselinePath, true);
+  const resolvedActual = expandPath(actualPath, true);
+
+  const baseline = await loadRgbaImage(resolvedBaseline);
+  if (!baseline.success) return baseline;
+
+  const actual = await loadRgbaImage(resolvedActual);
+  if (!actual.success) return actual;
+
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const antialiasing = options.antialiasing ?? DEFAULT_ANTIALIASING;
+  const maxDiffPercentage = options.maxDiffPercentage ?? 0;
+
+  const diff = diffPixels(baseline.data, actual.data, { threshold, antialiasing });
+  const clusters = findDiffClusters(diff);
+  const totalPixels = diff.width * diff.height;
+  const mismatchPercentage = totalPixels > 0 ? Number(((diff.mismatchedPixels / totalPixels) * 100).toFixed(4)) : 0;
+
+  const comparison: ScreenshotComparison = {
+    baseline: resolvedBaseline,
+    actual: resolvedActual,
+    passed: mismatchPercentage <= maxDiffPercentage,
+    width: diff.width,
+    height: diff.height,
+    totalPixels,
+    mismatchedPixels: diff.mismatchedPixels,
+    antialiasedPixels: diff.antialiasedPixels,
+    mismatchPercentage,
+    clusters: clusters.slice(0, MAX_REPORTED_CLUSTERS),
+    clusterCount: clusters.length,
+    options: { threshold, antialiasing, maxDiffPercentage }
+  };
+
+  if (baseline.data.width !== actual.data.width || baseline.data.height !== actual.data.height) {
+    comparison.sizeMismatch = {
+      baseline: { width: baseline.data.width, height: baseline.data.height },
+      actual: { width: actual.data.width, height: actual.data.height }
+    };
+  }
+
+  if (diff.mismatchedPixels > 0) {
+    const diffPath = options.diffPath ? expandPath(options.diffPath, true) : defaultDiffPath(resolvedActual);
+    const image = renderDiffImage(baseline.data, actual.data, diff, clusters);
+    try {
+      mkdirSync(dirname(diffPath), { recursive: true });
+      await sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength), {
+        raw: { width: image.width, height: image.height, channels: 4 }
+      }).png().toFile(diffPath);
+    } catch (err) {
+      return error(`Failed to write diff image: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_WRITE_ERROR, {
+        recoveryHint: 'permission',
+        metadata: { path: diffPath }
+      });
+    }
+    comparison.diff = diffPath;
+  }
+
+  return ok(comparison);
+}
+
+/**
+ * Compare a fresh screenshot with its baseline in a baseline directory
+ *
+ * A missing baseline is created from the screenshot, and `update` replaces
+ * it after reporting how much changed. Otherwise the screenshot is compared
+ * and the diff image written next to it.
+ *
+ * @param screenshot - Screenshot saved to a file
+ * @param options - Baseline directory, name and comparison options
+ * @returns Result containing the baseline check
+ */
+export async function checkBaseline(
+  screenshot: ScreenshotData,
+  options: BaselineCheckOptions
+): Promise<Result<BaselineCheck, string>> {
+  const validation = validateCompareOptions(options);
+  if (!validation.success) return validation;
+
+  if (!/^[\w.-]+$/.test(options.name)) {
+    return ErrorUtils.validationError('Baseline name may only contain letters, digits, ".", "_" and "-"', 'name', options.name);
+  }
+
+  const baselineDir = expandPath(options.baselineDir, true);
+  const baselinePath = join(baselineDir, `${options.name}${extname(screenshot.path) || '.png'}`);
+
+  const saveBaseline = (status: BaselineStatus, comparison?: ScreenshotComparison): Result<BaselineCheck, string> => {
+    try {
+      mkdirSync(baselineDir, { recursive: true });
+      copyFileSync(screenshot.path, baselinePath);
+    } catch (err) {
+      return error(`Failed to write baseline: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_WRITE_ERROR, {
+        recoveryHint: 'permission',
+        metadata: { path: baselinePath }
+      });
+    }
+    return ok({ status, baseline: baselinePath, screenshot, ...(comparison && { comparison }) });
+  };
+
+  if (!existsSync(baselinePath)) {
+    return saveBaseline('created');
+  }
+
+  // A diff left by an earlier failed run no longer applies
+  const diffPath = join(baselineDir, `${options.name}.diff.png`);
+  rmSync(diffPath, { force: true });
+
+  const comparison = await compareScreenshots(baselinePath, screenshot.path, { ...options, diffPath });
+  if (!comparison.success) return comparison;
+
+  if (options.update) {
+    rmSync(diffPath, { force: true });
+    delete comparison.data.diff;
+    return saveBaseline('updated', comparison.data);
+  }
+
+  return ok({
+    status: comparison.data.passed ? 'passed' : 'failed',
+    baseline: baselinePath,
+    screenshot,
+    comparison: comparison.data
+  });
+}
@@ -3,7 +3,7 @@
  * 
  * This module provides screenshot capture functionality using the service-oriented
  * architecture with standardized error handling and result types. Supports viewport,
- * window, element, and fullscreen captures with format options and preview generation.
+ * full-page, window, element, and fullscreen captures with format options and preview generation.
  * 
  * @example
  * ```typescript
@@ -35,9 +35,15 @@ import {
   captureWindow, 
   captureElement, 
   captureFullScreen,
+  captureFullPage,
   type ScreenshotOptions as LibScreenshotOptions,
-  type ScreenshotResult as LibScreenshotResult
+  type ScreenshotResult as LibScreenshotResult,
+  type MaskedRegion,
+  type AnnotatedRegion
 } from '../lib/capture.js';
+import { traceEvent } from '../lib/trace.js';
+import { resolveTargetSelector } from './locator.js';
+import { captureAnnotationTargets, saveAnnotationLegend, toLegendEntries, type AnnotationLegendEntry } from './annotate.js';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -87,6 +93,12 @@ export interface ScreenshotOptions extends RateLimitedCommandOptions {
   preview?: boolean;
   /** Maximum preview size in bytes */
   previewMaxSize?: number;
+  /** CSS selectors whose elements are painted over (every match) */
+  mask?: string[];
+  /** Regular expressions (source or /source/flags) whose matching text is painted over */
+  maskText?: string[];
+  /** Draw numbered boxes over the visible interactive elements (viewport captures only) */
+  annotate?: boolean;
 }
 
 /**
@@ -113,7 +125,19 @@ export interface ScreenshotData {
     captureMethod?: string;
     /** Window ID used for capture (when applicable) */
     windowId?: number;
+    /** Number of viewport tiles stitched (full-page captures) */
+    tiles?: number;
+    /** Page height in CSS pixels (full-page captures) */
+    pageHeight?: number;
+    /** True when the page was taller than the capture limit (full-page captures) */
+    truncated?: boolean;
+    /** Regions painted over by mask and maskText, in image pixels */
+    masked?: MaskedRegion[];
+    /** Numbered boxes drawn by annotate, in image pixels */
+    annotated?: AnnotatedRegion[];
   };
+  /** Numbers drawn by annotate, with the element each one marks */
+  legend?: AnnotationLegendEntry[];
   /** Optional WebP preview data */
   preview?: {
     /** Base64 encoded preview image */
@@ -123,6 +147,31 @@ export interface ScreenshotData {
   };
 }
 
+/**
+ * Parse a --mask-text pattern: a regular expression source, or /source/flags
+ * 
+ * @param value - Pattern as given on the command line
+ * @returns The compiled expression, or INVALID_INPUT when it does not compile
+ */
+export function parseMaskPattern(value: string): Result<RegExp, string> {
+  const literal = value.match(/^\/(.+)\/([a-z]*)$/s);
+  try {
+    const pattern = literal ? new RegExp(literal[1]!, literal[2]) : new RegExp(value);
+    if (pattern.test('')) {
+      return error(`Mask pattern ${value} matches empty text`, ErrorCode.INVALID_INPUT, {
+        recoveryHint: 'user_action',
+        metadata: { parameter: 'maskText', provided: value }
+      });
+    }
+    return ok(pattern);
+  } catch (err) {
+    return error(`Invalid mask pattern ${value}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.INVALID_INPUT, {
+      recoveryHint: 'user_action',
+      metadata: { parameter: 'maskText', provided: value }
+    });
+  }
+}
+
 /**
  * Screenshot command implementation with service-oriented architecture and rate limiting
  * 
@@ -209,6 +258,18 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
     const rateLimitedResult = await this.executeRateLimitedOperation(
       async () => {
         const startTime = Date.now();
+        const windowIndex = options.windowIndex || 1;
+        
+        // Number the interactive elements before capturing, so boxes match the image
+        const annotation = options.annotate ? await captureAnnotationTargets(windowIndex) : undefined;
+        if (annotation && !annotation.success) {
+          throw new ScreenshotError(
+            annotation.error,
+            annotation.code,
+            'retry',
+            annotation.context?.metadata as Record<string, unknown>
+          );
+        }
         
         // Convert to library options format
         const libOptions: LibScreenshotOptions = {
@@ -219,7 +280,11 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
           ...(options.previewMaxSize && { previewMaxSize: options.previewMaxSize }),
           ...(options.method && { method: options.method }),
           ...(options.delayMs !== undefined && { delayMs: options.delayMs }),
-          ...(options.frontmost !== undefined && { frontmost: options.frontmost })
+          ...(options.frontmost !== undefined && { frontmost: options.frontmost }),
+          ...this.libMaskOptions(options),
+          ...(annotation?.success && {
+            annotations: annotation.data.targets.map(target => ({ label: String(target.ref), rect: target.rect }))
+          })
         };
         
         const libResult = await captureViewport(libOptions, options.windowIndex);
@@ -235,6 +300,23 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
           throw customError;
         }
         
+        if (annotation?.success) {
+          const legend = toLegendEntries(annotation.data.targets);
+          const saved = saveAnnotationLegend({
+            windowIndex,
+            windowId: annotation.data.windowId,
+            ...(annotation.data.url && { url: annotation.data.url }),
+            ...(annotation.data.title && { title: annotation.data.title }),
+            capturedAt: convertedResult.data.metadata.timestamp,
+            ...(fs.existsSync(convertedResult.data.path) && { path: convertedResult.data.path }),
+            entries: legend
+          });
+          if (!saved.success) {
+            throw new ScreenshotError(saved.error, saved.code, 'not_recoverable', saved.context?.metadata as Record<string, unknown>);
+          }
+          return { ...convertedResult.data, legend };
+        }
+        
         return convertedResult.data;
       },
       operationId,
@@ -252,6 +334,96 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
     return rateLimitedResult.result;
   }
   
+  /**
+   * Capture screenshot of the whole page, including content below the fold
+   * 
+   * Scrolls the page in viewport-sized steps, captures each step and stitches
+   * the tiles into one image. Fixed and sticky elements are hidden after the
+   * first tile and the original scroll position is restored afterwards.
+   * 
+   * @param options Screenshot capture options (png or jpg only)
+   * @returns Promise resolving to screenshot data or error
+   * 
+   * @throws {INVALID_INPUT} When format is pdf or other parameters are invalid
+   * @throws {SCREEN_RECORDING_DENIED} When screen recording permissions not granted in System Preferences
+   * @throws {CHROME_NOT_FOUND} When Chrome application cannot be found on system
+   * @throws {TARGET_NOT_FOUND} When the page reports an empty viewport
+   * @throws {SCREEN_CAPTURE_FAILED} When a tile cannot be captured or stitched
+   * 
+   * @example
+   * ```typescript
+   * const result = await screenshotCmd.fullPage({ outputPath: './page.png' });
+   * if (result.success) {
+   *   console.log(`${result.data.metadata.tiles} tiles, ${result.data.metadata.height}px tall`);
+   * }
+   * ```
+   */
+  async fullPage(options: ScreenshotOptions = {}): Promise<Result<ScreenshotData, string>> {
+    const validationResult = this.validateScreenshotOptions(options);
+    if (!validationResult.success) {
+      return validationResult as Result<ScreenshotData, string>;
+    }
+    
+    if (options.annotate) {
+      return this.annotateNotSupported('full-page');
+    }
+    
+    if (options.format === 'pdf') {
+      return error(
+        'Full-page screenshots support png and jpg formats only',
+        ErrorCode.INVALID_INPUT,
+        {
+          recoveryHint: 'user_action',
+          metadata: { parameter: 'format', provided: options.format, allowed: ['png', 'jpg'] }
+        }
+      );
+    }
+    
+    const operationId = RateLimitUtils.createOperationId('screenshot', 'full_page');
+    
+    const rateLimitedResult = await this.executeRateLimitedOperation(
+      async () => {
+        const startTime = Date.now();
+        
+        const libOptions: LibScreenshotOptions = {
+          ...(options.outputPath && { outputPath: options.outputPath }),
+          ...(options.format && { format: options.format }),
+          ...(options.quality && { quality: options.quality }),
+          ...(options.preview !== undefined && { preview: options.preview }),
+          ...(options.previewMaxSize && { previewMaxSize: options.previewMaxSize }),
+          ...this.libMaskOptions(options)
+        };
+        
+        const libResult = await captureFullPage(libOptions, options.windowIndex);
+        const convertedResult = this.convertLibResult(libResult, 'full_page_screenshot', startTime, !options.outputPath);
+        
+        if (!convertedResult.success) {
+          const customError = new ScreenshotError(
+            convertedResult.error,
+            convertedResult.code,
+            convertedResult.context?.recoveryHint as 'retry' | 'permission' | 'check_target' | 'not_recoverable' || 'retry',
+            convertedResult.context?.metadata as Record<string, unknown>
+          );
+          throw customError;
+        }
+        
+        return convertedResult.data;
+      },
+      operationId,
+      {
+        ...options,
+        operationWeight: 4, // One capture per viewport of page height
+        rateLimitMetadata: {
+          format: options.format || 'png',
+          preview: options.preview,
+          windowIndex: options.windowIndex
+        }
+      }
+    );
+    
+    return rateLimitedResult.result;
+  }
+  
   /**
    * Capture screenshot of the entire browser window (including chrome and title bar)
    * 
@@ -312,6 +484,10 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
       return validationResult as Result<ScreenshotData, string>;
     }
     
+    if (options.annotate) {
+      return this.annotateNotSupported('window');
+    }
+    
     // Use custom retry logic that excludes screenshot-specific errors
     return this.executeCommand(async () => {
       const libOptions: LibScreenshotOptions = {
@@ -322,7 +498,8 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
         ...(options.previewMaxSize && { previewMaxSize: options.previewMaxSize }),
         ...(options.method && { method: options.method }),
         ...(options.delayMs !== undefined && { delayMs: options.delayMs }),
-        ...(options.frontmost !== undefined && { frontmost: options.frontmost })
+        ...(options.frontmost !== undefined && { frontmost: options.frontmost }),
+        ...this.libMaskOptions(options)
       };
       
       const libResult = await captureWindow(libOptions, options.windowIndex);
@@ -431,6 +608,19 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
       return validationResult as Result<ScreenshotData, string>;
     }
     
+    if (options.annotate) {
+      return this.annotateNotSupported('element');
+    }
+    
+    // Resolve text, role and other locators to the element they match
+    const target = await resolveTargetSelector(selector, options.windowIndex || 1);
+    if (!target.success) {
+      return error(target.error, target.code, {
+        recoveryHint: 'check_target',
+        metadata: { selector, operation: 'element_screenshot' }
+      });
+    }
+    
     // Create operation ID for rate limiting
     const operationId = RateLimitUtils.createOperationId('screenshot', 'element', selector);
     
@@ -447,10 +637,11 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
           ...(options.previewMaxSize && { previewMaxSize: options.previewMaxSize }),
           ...(options.method && { method: options.method }),
           ...(options.delayMs !== undefined && { delayMs: options.delayMs }),
-          ...(options.frontmost !== undefined && { frontmost: options.frontmost })
+          ...(options.frontmost !== undefined && { frontmost: options.frontmost }),
+          ...this.libMaskOptions(options)
         };
         
-        const libResult = await captureElement(selector, libOptions, options.windowIndex);
+        const libResult = await captureElement(target.data, libOptions, options.windowIndex);
         const convertedResult = this.convertLibResult(libResult, 'element_screenshot', startTime, !options.outputPath);
         
         if (!convertedResult.success) {
@@ -541,6 +732,21 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
       return validationResult as Result<ScreenshotData, string>;
     }
     
+    if (options.annotate) {
+      return this.annotateNotSupported('fullscreen');
+    }
+    
+    if (options.mask?.length || options.maskText?.length) {
+      return error(
+        'Masks are not supported for fullscreen screenshots; capture the viewport, window or page instead',
+        ErrorCode.INVALID_INPUT,
+        {
+          recoveryHint: 'user_action',
+          metadata: { parameter: 'mask' }
+        }
+      );
+    }
+    
     // Use custom retry logic that excludes screenshot-specific errors
     return this.executeCommand(async () => {
       const libOptions: LibScreenshotOptions = {
@@ -744,6 +950,46 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
       }
     }
     
+    if (options.annotate && options.format === 'pdf') {
+      return error(
+        'Annotations require png or jpg format',
+        ErrorCode.INVALID_INPUT,
+        {
+          recoveryHint: 'user_action',
+          metadata: { parameter: 'format', provided: options.format, allowed: ['png', 'jpg'] }
+        }
+      );
+    }
+    
+    // Validate masks
+    if (options.mask?.length || options.maskText?.length) {
+      if (options.format === 'pdf') {
+        return error(
+          'Masks require png or jpg format',
+          ErrorCode.INVALID_INPUT,
+          {
+            recoveryHint: 'user_action',
+            metadata: { parameter: 'format', provided: options.format, allowed: ['png', 'jpg'] }
+          }
+        );
+      }
+      
+      const emptySelector = options.mask?.find(selector => selector.trim() === '');
+      if (emptySelector !== undefined) {
+        return error('Mask selector cannot be empty', ErrorCode.INVALID_SELECTOR, {
+          recoveryHint: 'user_action',
+          metadata: { parameter: 'mask' }
+        });
+      }
+      
+      for (const pattern of options.maskText ?? []) {
+        const parsed = parseMaskPattern(pattern);
+        if (!parsed.success) {
+          return parsed as Result<void, string>;
+        }
+      }
+    }
+    
     // Set defaults
     validatedOptions.format = validatedOptions.format || 'png';
     validatedOptions.preview = validatedOptions.preview ?? true;
@@ -752,6 +998,44 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
     return ok(undefined);
   }
   
+  /**
+   * Error for annotate on captures other than the viewport, whose images the
+   * outline snapshot rects do not map to
+   * 
+   * @private
+   */
+  private annotateNotSupported(capture: string): Result<ScreenshotData, string> {
+    return error(
+      `Annotations are not supported for ${capture} screenshots; capture the viewport instead`,
+      ErrorCode.INVALID_INPUT,
+      {
+        recoveryHint: 'user_action',
+        metadata: { parameter: 'annotate' }
+      }
+    );
+  }
+  
+  /**
+   * Library mask options for mask and maskText (validated beforehand)
+   * 
+   * @private
+   */
+  private libMaskOptions(options: ScreenshotOptions): Pick<LibScreenshotOptions, 'masks'> {
+    if (!options.mask?.length && !options.maskText?.length) {
+      return {};
+    }
+    
+    const textPatterns = (options.maskText ?? [])
+      .map(parseMaskPattern)
+      .flatMap(parsed => parsed.success ? [parsed.data] : []);
+    return {
+      masks: {
+        ...(options.mask?.length && { selectors: options.mask }),
+        ...(textPatterns.length > 0 && { textPatterns })
+      }
+    };
+  }
+  
   /**
    * Convert library ScreenshotResult to service Result pattern
    * 
@@ -793,6 +1077,12 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
           recoveryHint = 'retry';
       }
       
+      traceEvent('screenshot', {
+        operation,
+        error: libResult.error || 'Screenshot capture failed',
+        code: errorCode
+      }, { durationMs: duration, success: false });
+
       return error(
         libResult.error || 'Screenshot capture failed',
         errorCode,
@@ -831,10 +1121,24 @@ export class ScreenshotCommand extends RateLimitedBrowserCommandBase {
         ...(libResult.metadata?.windowTitle && { windowTitle: libResult.metadata.windowTitle }),
         ...(libResult.metadata?.url && { url: libResult.metadata.url }),
         ...(libResult.metadata?.captureMethod && { captureMethod: libResult.metadata.captureMethod }),
-        ...(libResult.metadata?.windowId !== undefined && { windowId: libResult.metadata.windowId })
+        ...(libResult.metadata?.windowId !== undefined && { windowId: libResult.metadata.windowId }),
+        ...(libResult.metadata?.tiles !== undefined && { tiles: libResult.metadata.tiles }),
+        ...(libResult.metadata?.pageHeight !== undefined && { pageHeight: libResult.metadata.pageHeight }),
+        ...(libResult.metadata?.truncated && { truncated: true }),
+        ...(libResult.metadata?.masked && { masked: libResult.metadata.masked }),
+        ...(libResult.metadata?.annotated && { annotated: libResult.metadata.annotated })
       }
     };
     
+    // The trace keeps the preview even when the file is the output
+    traceEvent('screenshot', {
+      operation,
+      path: screenshotData.path,
+      format: screenshotData.format,
+      metadata: screenshotData.metadata,
+      ...(libResult.preview && { preview: { base64: libResult.preview.base64, size: libResult.preview.size } })
+    }, { durationMs: duration, success: true });
+
     // Add preview data if available and requested (don't include base64 when saving to file)
     if (libResult.preview && includePreview) {
       screenshotData.preview = {
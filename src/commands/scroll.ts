@@ -1,24 +1,15 @@
 import { execChromeJS } from '../lib/apple.js';
+import { getDeepQueryScript, deepQueryExpression } from '../lib/deep-query.js';
 import { ErrorCode, Result, ok, error, mapError } from '../core/index.js';
 import { ErrorUtils, validateInputParam, executeWithContext } from '../core/ErrorUtils.js';
 import { withRetry } from '../core/RetryHandler.js';
+import { resolveTargetSelector } from './locator.js';
+import type { ScrollResult } from '../lib/scroll.js';
 
-export interface ScrollPosition {
-  x: number;
-  y: number;
-}
-
-export interface ScrollResult {
-  scrolled: boolean;
-  position: ScrollPosition;
-  viewport?: {
-    width: number;
-    height: number;
-  };
-}
+export { scrollByPixels, type ScrollPosition, type ScrollResult } from '../lib/scroll.js';
 
 /**
- * Scroll to element by CSS selector
+ * Scroll to element by CSS selector or locator
  * 
  * Scrolls the page to bring the specified element into view. Supports both smooth
  * and instant scrolling behaviors, with the element positioned in the center of
@@ -99,9 +90,16 @@ export async function scrollToElement(
     return selectorValidation as Result<ScrollResult, string>;
   }
 
+  const target = await resolveTargetSelector(selector, windowIndex);
+  if (!target.success) {
+    return target;
+  }
+
   const javascript = `
 (() => {
-  const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(target.data)};
   if (!element) {
     throw new Error('Element not found');
   }
@@ -150,139 +148,6 @@ export async function scrollToElement(
   }, { maxAttempts: 2, initialDelayMs: 500 }, `scroll to element: ${selector}`);
 }
 
-/**
- * Scroll by pixel amount
- * 
- * Scrolls the page by a specified number of pixels in either horizontal or
- * vertical direction. Supports both smooth and instant scrolling behaviors.
- * 
- * @param pixels Number of pixels to scroll (must be positive)
- * @param smooth Whether to use smooth scrolling animation (default: false)
- * @param direction Scroll direction - 'horizontal' or 'vertical' (default: 'vertical')
- * @param tabIndex Target tab index (1-based, default: 1)
- * @param windowIndex Target window index (1-based, default: 1)
- * @param timeoutMs Operation timeout in milliseconds (default: 10000)
- * @returns Promise resolving to scroll result with position and viewport information
- * 
- * @throws {ErrorCode.INVALID_INPUT} When pixels is not a number, is negative, or direction is invalid
- * @throws {ErrorCode.VALIDATION_FAILED} When input parameter validation fails
- * @throws {ErrorCode.MISSING_REQUIRED_PARAM} When pixels parameter is missing
- * 
- * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
- * @throws {ErrorCode.CHROME_NOT_FOUND} When Chrome application cannot be found on system
- * @throws {ErrorCode.WINDOW_NOT_FOUND} When specified window index does not exist
- * @throws {ErrorCode.TAB_NOT_FOUND} When specified tab index does not exist in window
- * 
- * @throws {ErrorCode.JAVASCRIPT_ERROR} When JavaScript execution fails during scroll operation
- * @throws {ErrorCode.PAGE_LOAD_FAILED} When page is not fully loaded or accessible
- * @throws {ErrorCode.SCRIPT_TIMEOUT} When scroll operation exceeds timeout
- * 
- * @throws {ErrorCode.PERMISSION_DENIED} When system permissions block browser automation
- * @throws {ErrorCode.ACCESSIBILITY_DENIED} When accessibility permissions not granted for automation
- * @throws {ErrorCode.APPLE_EVENTS_DENIED} When Apple Events permissions not granted for Chrome control
- * 
- * @throws {ErrorCode.APPLESCRIPT_ERROR} When underlying AppleScript execution fails
- * @throws {ErrorCode.TIMEOUT} When operation exceeds specified timeout
- * @throws {ErrorCode.SYSTEM_ERROR} When system-level errors prevent scroll operation
- * @throws {ErrorCode.UNKNOWN_ERROR} When an unexpected error occurs during scroll
- * 
- * @example
- * ```typescript
- * // Scroll down by 500 pixels with error handling
- * try {
- *   const result = await scrollByPixels(500, true, 'vertical');
- *   if (!result.success) {
- *     switch (result.code) {
- *       case ErrorCode.INVALID_INPUT:
- *         console.log('Check pixels value and direction parameter');
- *         break;
- *       case ErrorCode.CHROME_NOT_RUNNING:
- *         console.log('Start Chrome browser first');
- *         break;
- *       case ErrorCode.SCRIPT_TIMEOUT:
- *         console.log('Scroll operation timed out');
- *         break;
- *     }
- *   } else {
- *     console.log(`Scrolled: ${result.data.scrolled}`);
- *     console.log(`New position: ${result.data.position.x}, ${result.data.position.y}`);
- *   }
- * } catch (error) {
- *   console.error('Unexpected scroll error:', error);
- * }
- * 
- * // Scroll horizontally with instant behavior
- * const horizontalResult = await scrollByPixels(300, false, 'horizontal');
- * ```
- */
-export async function scrollByPixels(
-  pixels: number,
-  smooth: boolean = false,
-  direction: 'horizontal' | 'vertical' = 'vertical',
-  tabIndex: number = 1,
-  windowIndex: number = 1,
-  timeoutMs: number = 10000
-): Promise<Result<ScrollResult, string>> {
-  // Validate input parameters
-  const pixelsValidation = validateInputParam(pixels, 'pixels', 'number');
-  if (!pixelsValidation.success) {
-    return pixelsValidation as Result<ScrollResult, string>;
-  }
-  
-  if (pixels < 0) {
-    return ErrorUtils.validationError('Pixels must be a positive number', 'pixels', pixels);
-  }
-
-  const javascript = `
-(() => {
-  // Get current scroll position
-  const currentX = window.pageXOffset || document.documentElement.scrollLeft;
-  const currentY = window.pageYOffset || document.documentElement.scrollTop;
-
-  // Calculate deltas
-  const deltaX = ${direction === 'horizontal' ? pixels : 0};
-  const deltaY = ${direction === 'vertical' ? pixels : 0};
-
-  // Perform scroll
-  if (${smooth}) {
-    window.scrollTo({
-      left: currentX + deltaX,
-      top: currentY + deltaY,
-      behavior: 'smooth'
-    });
-  } else {
-    window.scrollBy(deltaX, deltaY);
-  }
-
-  // Get new scroll position and viewport
-  const newX = window.pageXOffset || document.documentElement.scrollLeft;
-  const newY = window.pageYOffset || document.documentElement.scrollTop;
-  const viewportWidth = window.innerWidth || document.documentElement.clientWidth;
-  const viewportHeight = window.innerHeight || document.documentElement.clientHeight;
-
-  // Check if scroll actually happened
-  const scrolled = (newX !== currentX) || (newY !== currentY);
-
-  return JSON.stringify({
-    scrolled: scrolled,
-    position: { x: newX, y: newY },
-    viewport: { width: viewportWidth, height: viewportHeight }
-  });
-})()`;
-
-  // Execute with error context
-  const executeResult = await executeWithContext(async () => {
-    const result = await execChromeJS<ScrollResult>(javascript, tabIndex, windowIndex, timeoutMs);
-    
-    if (!result.success) {
-      throw new Error(result.error || 'Failed to scroll by pixels');
-    }
-    
-    return result.data as ScrollResult;
-  }, `scroll by ${pixels}px ${direction}`);
-  
-  return mapError(executeResult, (err) => err.message);
-}
 
 /**
  * Get current scroll position
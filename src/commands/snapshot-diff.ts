@@ -0,0 +1,389 @@
+/**
+ * @fileoverview Snapshot diffing for comparing two page captures
+ *
+ * This module compares two snapshots produced by `snapshot outline` or
+ * `snapshot dom-lite` and reports which nodes were added, removed, moved
+ * (bounding rectangle changed) or changed state (checked, disabled, value, ...).
+ *
+ * Nodes are matched by selector first. Nodes whose selector changed between the
+ * captures are then matched by role and accessible name, so a button that gained
+ * a class is still reported as the same element.
+ *
+ * @example
+ * ```typescript
+ * const before = formatSnapshotResult(await captureOutline());
+ * await mouse.click({ selector: '#accept-terms' });
+ * const after = formatSnapshotResult(await captureOutline());
+ *
+ * const diff = diffSnapshots(before, after);
+ * console.log(diff.stateChanged.map(change => change.changes));
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { expandPath } from '../lib/util.js';
+import type { ElementRect, ElementState, SnapshotNode, SnapshotResult } from './snapshot.js';
+
+/**
+ * How a node in the after snapshot was matched to the before snapshot
+ */
+export type SnapshotMatchStrategy = 'selector' | 'role-name';
+
+/**
+ * Options controlling snapshot comparison
+ */
+export interface SnapshotDiffOptions {
+  /** Maximum per-edge rect difference in pixels that is not reported as a move (default: 0) */
+  rectTolerance?: number;
+  /** State keys to ignore when comparing nodes, e.g. ['focused'] */
+  ignoreState?: Array<keyof ElementState>;
+}
+
+/**
+ * Common fields describing a node present in both snapshots
+ */
+export interface MatchedSnapshotNode {
+  /** Selector of the node in the after snapshot */
+  selector: string;
+  /** Selector of the node in the before snapshot, when it differs */
+  previousSelector?: string;
+  /** ARIA role of the node */
+  role: string;
+  /** Accessible name of the node */
+  name: string;
+  /** Strategy used to pair the two nodes */
+  matchedBy: SnapshotMatchStrategy;
+}
+
+/**
+ * A node whose bounding rectangle changed
+ */
+export interface MovedSnapshotNode extends MatchedSnapshotNode {
+  /** Rect in the before snapshot */
+  before: ElementRect;
+  /** Rect in the after snapshot */
+  after: ElementRect;
+  /** Difference after - before for each rect field */
+  delta: ElementRect;
+}
+
+/**
+ * A single changed state property
+ */
+export interface SnapshotStateChange {
+  /** State key that changed */
+  key: keyof ElementState;
+  /** Value in the before snapshot (undefined when absent) */
+  before: ElementState[keyof ElementState];
+  /** Value in the after snapshot (undefined when absent) */
+  after: ElementState[keyof ElementState];
+}
+
+/**
+ * A node whose state changed
+ */
+export interface StateChangedSnapshotNode extends MatchedSnapshotNode {
+  /** Changed state properties */
+  changes: SnapshotStateChange[];
+}
+
+/**
+ * Result of comparing two snapshots
+ */
+export interface SnapshotDiff {
+  /** Command identifier, mirrors SnapshotResult.cmd */
+  cmd: 'snapshot.diff';
+  /** Whether any difference was found */
+  changed: boolean;
+  /** Nodes only present in the after snapshot */
+  added: SnapshotNode[];
+  /** Nodes only present in the before snapshot */
+  removed: SnapshotNode[];
+  /** Matched nodes whose rect changed */
+  moved: MovedSnapshotNode[];
+  /** Matched nodes whose state changed */
+  stateChanged: StateChangedSnapshotNode[];
+  /** Node counts */
+  summary: {
+    before: number;
+    after: number;
+    matched: number;
+    added: number;
+    removed: number;
+    moved: number;
+    stateChanged: number;
+    unchanged: number;
+  };
+}
+
+/**
+ * Snapshot input accepted by diffSnapshots: a full result or a bare node list
+ */
+export type SnapshotInput = SnapshotResult | SnapshotNode[];
+
+const RECT_KEYS: Array<keyof ElementRect> = ['x', 'y', 'w', 'h'];
+
+/**
+ * Key used for the role/name fallback match. Nodes without an accessible
+ * name are too ambiguous to pair and only match by selector.
+ */
+function roleNameKey(node: SnapshotNode): string | null {
+  const name = (node.name || '').trim();
+  return name ? `${node.role}\u0000${name}` : null;
+}
+
+/**
+ * Group node indices by key, preserving document order within each group
+ */
+function indexBy(nodes: SnapshotNode[], keyOf: (node: SnapshotNode) => string | null, skip: Set<number>): Map<string, number[]> {
+  const index = new Map<string, number[]>();
+  nodes.forEach((node, i) => {
+    if (skip.has(i)) return;
+    const key = keyOf(node);
+    if (key === null) return;
+    const bucket = index.get(key);
+    if (bucket) {
+      bucket.push(i);
+    } else {
+      index.set(key, [i]);
+    }
+  });
+  return index;
+}
+
+/**
+ * Pair after-nodes with before-nodes sharing the same key, first come first served
+ */
+function matchBy(
+  before: SnapshotNode[],
+  after: SnapshotNode[],
+  keyOf: (node: SnapshotNode) => string | null,
+  matchedBefore: Set<number>,
+  matchedAfter: Set<number>,
+  onMatch: (beforeIndex: number, afterIndex: number) => void
+): void {
+  const beforeIndex = indexBy(before, keyOf, matchedBefore);
+
+  after.forEach((node, afterIndex) => {
+    if (matchedAfter.has(afterIndex)) return;
+    const key = keyOf(node);
+    if (key === null) return;
+    const candidates = beforeIndex.get(key);
+    const beforeMatch = candidates?.shift();
+    if (beforeMatch === undefined) return;
+
+    matchedBefore.add(beforeMatch);
+    matchedAfter.add(afterIndex);
+    onMatch(beforeMatch, afterIndex);
+  });
+}
+
+function compareRects(before: ElementRect, after: ElementRect, tolerance: number): ElementRect | null {
+  const delta: ElementRect = { x: 0, y: 0, w: 0, h: 0 };
+  let moved = false;
+  for (const key of RECT_KEYS) {
+    delta[key] = (after?.[key] ?? 0) - (before?.[key] ?? 0);
+    if (Math.abs(delta[key]) > tolerance) moved = true;
+  }
+  return moved ? delta : null;
+}
+
+function compareStates(before: ElementState = {}, after: ElementState = {}, ignore: Set<string>): SnapshotStateChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof ElementState>;
+  const changes: SnapshotStateChange[] = [];
+
+  for (const key of keys) {
+    if (ignore.has(key)) continue;
+    if (before[key] !== after[key]) {
+      changes.push({ key, before: before[key], after: after[key] });
+    }
+  }
+
+  return changes;
+}
+
+function toNodes(input: SnapshotInput): SnapshotNode[] {
+  return Array.isArray(input) ? input : (input?.nodes || []);
+}
+
+/**
+ * Compare two snapshots and report added, removed, moved and state-changed nodes.
+ *
+ * Matching runs in two passes:
+ * 1. Nodes with identical selectors are paired (duplicates pair in document order)
+ * 2. Remaining nodes with the same role and non-empty accessible name are paired
+ *
+ * Anything left unmatched in the after snapshot is added, anything left in the
+ * before snapshot is removed. A matched node can appear in both `moved` and
+ * `stateChanged`.
+ *
+ * @param before - Snapshot captured before the interaction
+ * @param after - Snapshot captured after the interaction
+ * @param options - Comparison options
+ * @returns Structured diff of the two snapshots
+ *
+ * @example
+ * ```typescript
+ * const diff = diffSnapshots(before, after, { rectTolerance: 1, ignoreState: ['focused'] });
+ * if (diff.stateChanged.some(node => node.selector === '#terms' && node.changes[0].key === 'checked')) {
+ *   console.log('Checkbox toggled');
+ * }
+ * ```
+ */
+export function diffSnapshots(before: SnapshotInput, after: SnapshotInput, options: SnapshotDiffOptions = {}): SnapshotDiff {
+  const beforeNodes = toNodes(before);
+  const afterNodes = toNodes(after);
+  const tolerance = Math.max(0, options.rectTolerance ?? 0);
+  const ignore = new Set<string>(options.ignoreState || []);
+
+  const matchedBefore = new Set<number>();
+  const matchedAfter = new Set<number>();
+  const moved: MovedSnapshotNode[] = [];
+  const stateChanged: StateChangedSnapshotNode[] = [];
+  let unchanged = 0;
+
+  const compare = (matchedBy: SnapshotMatchStrategy) => (beforeIndex: number, afterIndex: number): void => {
+    const previous = beforeNodes[beforeIndex];
+    const current = afterNodes[afterIndex];
+    const base: MatchedSnapshotNode = {
+      selector: current.selector,
+      role: current.role,
+      name: current.name,
+      matchedBy,
+      ...(previous.selector !== current.selector && { previousSelector: previous.selector })
+    };
+
+    const delta = compareRects(previous.rect, current.rect, tolerance);
+    const changes = compareStates(previous.state, current.state, ignore);
+
+    if (delta) {
+      moved.push({ ...base, before: previous.rect, after: current.rect, delta });
+    }
+    if (changes.length > 0) {
+      stateChanged.push({ ...base, changes });
+    }
+    if (!delta && changes.length === 0) {
+      unchanged++;
+    }
+  };
+
+  matchBy(beforeNodes, afterNodes, node => node.selector || null, matchedBefore, matchedAfter, compare('selector'));
+  matchBy(beforeNodes, afterNodes, roleNameKey, matchedBefore, matchedAfter, compare('role-name'));
+
+  const added = afterNodes.filter((_, i) => !matchedAfter.has(i));
+  const removed = beforeNodes.filter((_, i) => !matchedBefore.has(i));
+
+  return {
+    cmd: 'snapshot.diff',
+    changed: added.length + removed.length + moved.length + stateChanged.length > 0,
+    added,
+    removed,
+    moved,
+    stateChanged,
+    summary: {
+      before: beforeNodes.length,
+      after: afterNodes.length,
+      matched: matchedAfter.size,
+      added: added.length,
+      removed: removed.length,
+      moved: moved.length,
+      stateChanged: stateChanged.length,
+      unchanged
+    }
+  };
+}
+
+/**
+ * Load a snapshot saved from the CLI.
+ *
+ * Accepts a raw SnapshotResult, the `--json` output envelope (`{ success, data }`)
+ * or a bare array of nodes.
+ *
+ * @param snapshotPath - Path to the snapshot JSON file
+ * @returns Result containing the snapshot
+ *
+ * @throws {ErrorCode.FILE_NOT_FOUND} When the file does not exist
+ * @throws {ErrorCode.FILE_READ_ERROR} When the file cannot be read
+ * @throws {ErrorCode.INVALID_JSON} When the file is not valid JSON
+ * @throws {ErrorCode.INVALID_INPUT} When the JSON does not contain snapshot nodes
+ */
+export function loadSnapshotFile(snapshotPath: string): Result<SnapshotResult, string> {
+  const resolvedPath = expandPath(snapshotPath, true);
+
+  if (!existsSync(resolvedPath)) {
+    return error(`Snapshot file not found: ${snapshotPath}`, ErrorCode.FILE_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(resolvedPath, 'utf8');
+  } catch (err) {
+    return error(`Failed to read snapshot file: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_READ_ERROR, {
+      recoveryHint: 'permission',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    return error(`Invalid snapshot JSON in ${snapshotPath}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.INVALID_JSON, {
+      recoveryHint: 'user_action',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  if (Array.isArray(parsed)) {
+    return ok({ ok: true, cmd: 'snapshot', nodes: parsed as SnapshotNode[] });
+  }
+
+  const envelope = parsed as { data?: unknown } | null;
+  const candidate = (envelope && typeof envelope === 'object' && 'data' in envelope ? envelope.data : parsed) as SnapshotResult | null;
+
+  if (!candidate || typeof candidate !== 'object' || !Array.isArray(candidate.nodes)) {
+    return ErrorUtils.validationError(
+      `Snapshot file ${snapshotPath} does not contain a "nodes" array`,
+      'snapshot',
+      snapshotPath
+    );
+  }
+
+  return ok(candidate);
+}
+
+/**
+ * Load two snapshot files and diff them
+ *
+ * @param beforePath - Path to the before snapshot
+ * @param afterPath - Path to the after snapshot
+ * @param options - Comparison options
+ * @returns Result containing the snapshot diff
+ */
+export function diffSnapshotFiles(beforePath: string, afterPath: string, options: SnapshotDiffOptions = {}): Result<SnapshotDiff, string> {
+  if (options.rectTolerance !== undefined && (!Number.isFinite(options.rectTolerance) || options.rectTolerance < 0)) {
+    return ErrorUtils.validationError('Rect tolerance must be a non-negative number', 'rectTolerance', options.rectTolerance);
+  }
+
+  const before = loadSnapshotFile(beforePath);
+  if (!before.success) return before;
+
+  const after = loadSnapshotFile(afterPath);
+  if (!after.success) return after;
+
+  return ok(diffSnapshots(before.data, after.data, options), ErrorCode.OK, {
+    metadata: {
+      before: { path: beforePath, url: before.data.meta?.url, timestamp: before.data.meta?.timestamp },
+      after: { path: afterPath, url: after.data.meta?.url, timestamp: after.data.meta?.timestamp }
+    }
+  });
+}
@@ -21,10 +21,11 @@
 import { execChromeJS, type JavaScriptResult } from '../lib/apple.js';
 import { appleScriptService } from '../services/AppleScriptService.js';
 import { ErrorCode } from '../core/index.js';
+import { getDeepQueryScript } from '../lib/deep-query.js';
 
 /**
  * Represents the bounding rectangle of a DOM element.
- * Coordinates are relative to the viewport.
+ * Coordinates are relative to the top-level viewport, including for elements inside iframes.
  * 
  * @interface ElementRect
  * @example
@@ -105,7 +106,7 @@ export interface SnapshotNode {
   role: string;
   /** Accessible name derived from labels, aria-label, text content, etc. */
   name: string;
-  /** Unique CSS selector to target this element */
+  /** Unique CSS selector to target this element, with `>>>` steps into shadow roots and iframes */
   selector: string;
   /** Element's bounding rectangle in viewport coordinates */
   rect: ElementRect;
@@ -238,11 +239,12 @@ export interface SnapshotOptions {
  * @private
  */
 const getSelectorScript = `
-// Performance optimization: Pre-compute selector uniqueness maps
-let selectorCaches = null;
+// Performance optimization: Pre-compute selector uniqueness maps, one set per
+// document or shadow root since selectors do not cross those boundaries
+const selectorCaches = new Map();
 
-function buildSelectorCaches() {
-  if (selectorCaches) return selectorCaches;
+function buildSelectorCaches(root) {
+  if (selectorCaches.has(root)) return selectorCaches.get(root);
   
   const idMap = new Map();
   const testIdMap = new Map();
@@ -251,7 +253,7 @@ function buildSelectorCaches() {
   
   // Single DOM traversal to build all caches - O(n)
   const walker = document.createTreeWalker(
-    document.documentElement,
+    root.nodeType === Node.DOCUMENT_NODE ? root.documentElement : root,
     NodeFilter.SHOW_ELEMENT,
     null,
     false
@@ -289,12 +291,13 @@ function buildSelectorCaches() {
     }
   }
   
-  selectorCaches = { idMap, testIdMap, dataTestMap, classMap };
-  return selectorCaches;
+  const caches = { idMap, testIdMap, dataTestMap, classMap };
+  selectorCaches.set(root, caches);
+  return caches;
 }
 
 function getUniqueSelector(element) {
-  const caches = buildSelectorCaches();
+  const caches = buildSelectorCaches(element.getRootNode());
   
   // Try ID first - O(1) lookup
   if (element.id && caches.idMap.get(element.id) === 1) {
@@ -328,7 +331,7 @@ function getUniqueSelector(element) {
   const path = [];
   let current = element;
   
-  while (current && current !== document.documentElement) {
+  while (current && current !== current.ownerDocument.documentElement) {
     let selector = current.tagName.toLowerCase();
     
     if (current.id && caches.idMap.get(current.id) === 1) {
@@ -361,6 +364,20 @@ function getUniqueSelector(element) {
   
   return path.join(' > ');
 }
+
+// Selector that reaches the element from the top document, stepping into
+// shadow roots and same-origin frames with >>>
+function getPiercingSelector(element) {
+  const chain = [getUniqueSelector(element)];
+  let root = element.getRootNode();
+  while (true) {
+    const host = root.host || (root.defaultView && root.defaultView.frameElement);
+    if (!host) break;
+    chain.unshift(getUniqueSelector(host));
+    root = host.getRootNode();
+  }
+  return chain.join(' >>> ');
+}
 `;
 
 /**
@@ -375,12 +392,12 @@ const isVisibleScript = `
 function isElementVisible(element) {
   if (!element || !element.offsetParent) return false;
   
-  const style = window.getComputedStyle(element);
+  const style = elementWindow(element).getComputedStyle(element);
   if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
     return false;
   }
   
-  const rect = element.getBoundingClientRect();
+  const rect = viewportRect(element);
   return rect.width > 0 && rect.height > 0 && 
          rect.top < window.innerHeight && rect.bottom > 0 &&
          rect.left < window.innerWidth && rect.right > 0;
@@ -465,7 +482,7 @@ function getAccessibilityInfo(element) {
   // 2. aria-labelledby
   const labelledBy = element.getAttribute('aria-labelledby');
   if (labelledBy) {
-    const labelElement = document.getElementById(labelledBy);
+    const labelElement = element.getRootNode().getElementById(labelledBy);
     if (labelElement) {
       name = labelElement.textContent || labelElement.innerText || '';
       if (name.trim()) return { role, name: name.trim() };
@@ -474,7 +491,7 @@ function getAccessibilityInfo(element) {
   
   // 3. Associated label (for form controls)
   if (element.id) {
-    const label = document.querySelector('label[for="' + CSS.escape(element.id) + '"]');
+    const label = element.getRootNode().querySelector('label[for="' + CSS.escape(element.id) + '"]');
     if (label) {
       name = label.textContent || label.innerText || '';
       if (name.trim()) return { role, name: name.trim() };
@@ -512,7 +529,8 @@ function getAccessibilityInfo(element) {
     name = name.substring(0, 47) + '...';
   }
   
-  return { role, name: name || element.tagName.toLowerCase() };
+  // Fall back to the tag name so every node has a label; audits check nameFromFallback
+  return { role, name: name || element.tagName.toLowerCase(), nameFromFallback: !name };
 }
 `;
 
@@ -566,18 +584,36 @@ function getElementState(element) {
   }
   
   // Check if hidden
-  const style = window.getComputedStyle(element);
+  const style = elementWindow(element).getComputedStyle(element);
   if (style.display === 'none' || style.visibility === 'hidden') {
     state.hidden = true;
   }
   
   // Check if focused
-  state.focused = document.activeElement === element;
+  state.focused = element.getRootNode().activeElement === element;
   
   return state;
 }
 `;
 
+/**
+ * Returns the browser-side helper functions used by the snapshot traversal
+ * (getUniqueSelector, getPiercingSelector, isElementVisible, getAccessibilityInfo,
+ * getElementState and the deep query helpers from lib/deep-query) so other page
+ * scripts can compute selectors, roles and names the same way.
+ * 
+ * @returns JavaScript source defining the helper functions
+ */
+export function getSnapshotHelperScripts(): string {
+  return `
+${getDeepQueryScript()}
+${getSelectorScript}
+${isVisibleScript}
+${getAccessibilityInfoScript}
+${getElementStateScript}
+`;
+}
+
 /**
  * Generates JavaScript code for capturing page snapshots in the browser.
  * OPTIMIZED VERSION: Uses O(n) algorithms with pre-computed caches and iterative traversal.
@@ -597,10 +633,7 @@ function getElementState(element) {
  */
 function generateSnapshotScript(options: SnapshotOptions): string {
   return `
-${getSelectorScript}
-${isVisibleScript}
-${getAccessibilityInfoScript}
-${getElementStateScript}
+${getSnapshotHelperScripts()}
 
 (function() {
   try {
@@ -667,7 +700,7 @@ ${getElementStateScript}
         let hasInteractiveDesc = hasInteractive || isInteractive;
         
         // Add children to stack in reverse order for correct processing
-        const children = Array.from(element.children);
+        const children = deepChildren(element);
         for (let i = children.length - 1; i >= 0; i--) {
           stack.push({ element: children[i], hasInteractive: hasInteractiveDesc });
         }
@@ -684,31 +717,41 @@ ${getElementStateScript}
       // Outline mode: optimized flat list of interactive elements
       const processingStart = Date.now();
       
-      // Use TreeWalker for optimal DOM traversal - faster than querySelectorAll
-      const walker = document.createTreeWalker(
-        document.documentElement,
-        NodeFilter.SHOW_ELEMENT,
-        {
-          acceptNode: function(node) {
-            return isElementInteractive(node) ? 
-              NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
+      // Use TreeWalker for optimal DOM traversal - faster than querySelectorAll.
+      // Open shadow roots and same-origin frames are walked where they occur.
+      const interactiveElements = [];
+      function walkInteractive(root) {
+        const walker = document.createTreeWalker(
+          root.nodeType === Node.DOCUMENT_NODE ? root.documentElement : root,
+          NodeFilter.SHOW_ELEMENT,
+          null,
+          false
+        );
+        
+        let element = walker.currentNode;
+        while (element) {
+          if (element.nodeType === Node.ELEMENT_NODE) {
+            if (isElementInteractive(element)) interactiveElements.push(element);
+            if (element.shadowRoot) walkInteractive(element.shadowRoot);
+            const frameDoc = frameDocument(element);
+            if (frameDoc && frameDoc.documentElement) walkInteractive(frameDoc);
           }
-        },
-        false
-      );
+          element = walker.nextNode();
+        }
+      }
+      walkInteractive(document);
       
-      let element;
-      while (element = walker.nextNode()) {
+      for (const element of interactiveElements) {
         performanceMetrics.nodeCount++;
         
         // Skip if visibility filtering is enabled and element is not visible
         if (visibleOnly && !isElementVisible(element)) continue;
         
         try {
-          const rect = element.getBoundingClientRect();
+          const rect = viewportRect(element);
           const { role, name } = getAccessibilityInfo(element);
           const state = getElementState(element);
-          const selector = getUniqueSelector(element);
+          const selector = getPiercingSelector(element);
           
           const node = {
             role,
@@ -776,10 +819,10 @@ ${getElementStateScript}
           
           // Include if interactive or has interactive descendants
           if (isInteractive || hasInteractiveChildren || level === 0) {
-            const rect = element.getBoundingClientRect();
+            const rect = viewportRect(element);
             const { role, name } = getAccessibilityInfo(element);
             const state = getElementState(element);
-            const selector = getUniqueSelector(element);
+            const selector = getPiercingSelector(element);
             
             const node = {
               role,
@@ -823,7 +866,7 @@ ${getElementStateScript}
             nodes.push(node);
             
             // Add children to stack in reverse order for correct processing order
-            const children = Array.from(element.children);
+            const children = deepChildren(element);
             for (let i = children.length - 1; i >= 0; i--) {
               traversalStack.push({
                 element: children[i],
@@ -977,6 +1020,7 @@ function generateDomLiteFallbackScript(options: { maxDepth: number; visibleOnly:
  * 
  * @param options - Configuration options for the outline capture
  * @param options.visibleOnly - If true, only capture elements visible in the viewport
+ * @param options.windowIndex - Chrome window index (1-based, default: 1)
  * @returns Promise resolving to a JavaScriptResult containing the snapshot data
  * 
  * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
@@ -1025,14 +1069,14 @@ function generateDomLiteFallbackScript(options: { maxDepth: number; visibleOnly:
  * const visibleResult = await captureOutline({ visibleOnly: true });
  * ```
  */
-export async function captureOutline(options: { visibleOnly?: boolean } = {}): Promise<JavaScriptResult<SnapshotResult>> {
+export async function captureOutline(options: { visibleOnly?: boolean; windowIndex?: number } = {}): Promise<JavaScriptResult<SnapshotResult>> {
   const snapshotOptions: SnapshotOptions = {
     mode: 'outline',
     visibleOnly: options.visibleOnly || false
   };
   
   const script = generateSnapshotScript(snapshotOptions);
-  return execChromeJS<SnapshotResult>(script, 1, 1, 15000); // 15 second timeout
+  return execChromeJS<SnapshotResult>(script, 1, options.windowIndex ?? 1, 15000); // 15 second timeout
 }
 
 /**
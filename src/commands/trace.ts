@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Reading and rendering traces recorded with `--trace <file>`
+ *
+ * `trace show <file>` prints one line per recorded step in the order the steps
+ * started: the AppleScript and JavaScript that ran, each coordinate conversion
+ * with the element rect and window bounds it used, retries, rate-limit
+ * decisions and screenshots. With `--full` every step is followed by its
+ * complete script text or data, which is usually enough to see why a click
+ * landed somewhere unexpected.
+ *
+ * @example
+ * ```typescript
+ * const trace = readTrace('./click.trace.ndjson');
+ * console.log(formatTraceTimeline(trace.data!, { full: true }));
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { expandPath } from '../lib/util.js';
+import type { TraceEvent, TraceEventKind, TraceText } from '../lib/trace.js';
+
+/**
+ * A trace file with its events in the order the steps started
+ */
+export interface TraceReport {
+  file: string;
+  argv: string[];
+  startedAt?: string;
+  /** Missing when the process was killed before the trace was closed */
+  exitCode?: number;
+  complete: boolean;
+  durationMs: number;
+  /** Recorded steps, without the start and end events */
+  events: TraceEvent[];
+  counts: Partial<Record<TraceEventKind, number>>;
+  failures: number;
+}
+
+export interface TraceTimelineOptions {
+  /** Print the full script text or data below each step */
+  full?: boolean;
+}
+
+/** Width of the one-line step summary */
+const SUMMARY_WIDTH = 100;
+
+/**
+ * Read a trace file written with `--trace`
+ */
+export function readTrace(file: string): Result<TraceReport, string> {
+  const resolvedPath = expandPath(file, true);
+  if (!existsSync(resolvedPath)) {
+    return error(`Trace file not found: ${file}`, ErrorCode.FILE_NOT_FOUND, {
+      recoveryHint: 'user_action',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(resolvedPath, 'utf8');
+  } catch (err) {
+    return error(`Failed to read trace file: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_READ_ERROR, {
+      recoveryHint: 'permission',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  const events: TraceEvent[] = [];
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim();
+    if (line === '') continue;
+    try {
+      events.push(JSON.parse(line) as TraceEvent);
+    } catch {
+      return error(`Trace file ${file} has invalid JSON on line ${i + 1}`, ErrorCode.INVALID_JSON, {
+        recoveryHint: 'check_target',
+        metadata: { path: resolvedPath, line: i + 1 }
+      });
+    }
+  }
+
+  const start = events[0];
+  if (!start || start.kind !== 'start') {
+    return error(`${file} is not a trace file (it must start with a "start" event)`, ErrorCode.INVALID_JSON, {
+      recoveryHint: 'check_target',
+      metadata: { path: resolvedPath }
+    });
+  }
+
+  const end = events.find(event => event.kind === 'end');
+  const steps = events
+    .filter(event => event.kind !== 'start' && event.kind !== 'end')
+    .sort((a, b) => a.t - b.t || a.seq - b.seq);
+
+  const counts: Partial<Record<TraceEventKind, number>> = {};
+  for (const step of steps) {
+    counts[step.kind] = (counts[step.kind] ?? 0) + 1;
+  }
+
+  const last = events.reduce((max, event) => Math.max(max, event.t + (event.durationMs ?? 0)), 0);
+
+  return ok({
+    file: resolvedPath,
+    argv: Array.isArray(start.data.argv) ? start.data.argv as string[] : [],
+    ...(typeof start.data.startedAt === 'string' && { startedAt: start.data.startedAt }),
+    ...(typeof end?.data.exitCode === 'number' && { exitCode: end.data.exitCode }),
+    complete: end !== undefined,
+    durationMs: end ? end.t : last,
+    events: steps,
+    counts,
+    failures: steps.filter(step => step.success === false).length
+  });
+}
+
+function oneLine(text: string, width: number = SUMMARY_WIDTH): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > width ? `${line.slice(0, width - 1)}…` : line;
+}
+
+/** AppleScript boilerplate and function wrappers skipped when summarizing a script */
+const BOILERPLATE_LINE = /^tell application|^if not running|^return "ERROR|^end (if|tell|try)$|^try$|^\(?(\(\)\s*=>|(async\s+)?function\s*\(\))\s*\{$/;
+
+/**
+ * First meaningful line of a script, skipping blank lines, comments and boilerplate
+ */
+function scriptSummary(script: unknown): string {
+  const text = (script as TraceText | undefined)?.text ?? '';
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line !== '' && !line.startsWith('--') && !line.startsWith('//'));
+  const meaningful = lines.find(line => !BOILERPLATE_LINE.test(line));
+  return oneLine(meaningful ?? lines[0] ?? '');
+}
+
+function point(value: unknown): string {
+  const { x, y } = (value ?? {}) as { x?: number; y?: number };
+  return `(${x}, ${y})`;
+}
+
+function ms(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(2)}s` : `${value.toFixed(1)}ms`;
+}
+
+/**
+ * One-line description of a step
+ */
+export function describeTraceEvent(event: TraceEvent): string {
+  const data = event.data;
+  const failure = typeof data.error === 'string' ? `  ✗ ${oneLine(data.error, 60)}` : '';
+
+  switch (event.kind) {
+    case 'applescript':
+      return `${scriptSummary(data.script)}${failure}`;
+
+    case 'javascript': {
+      const target = data.tab === 'active' ? 'active tab' : `window ${data.windowIndex} tab ${data.tabIndex}`;
+      return `[${target}] ${scriptSummary(data.javascript)}${failure}`;
+    }
+
+    case 'coords': {
+      const source = data.from === 'selector'
+        ? `selector ${JSON.stringify(data.selector)}${data.cached ? ' (cached)' : ''}`
+        : `viewport (${data.viewportX}, ${data.viewportY})`;
+      if (!event.success) return `${source}${failure}`;
+      const element = data.element as { x: number; y: number; width: number; height: number } | undefined;
+      const window = data.window as { contentAreaX: number; contentAreaY: number } | undefined;
+      return [
+        `${source} -> screen ${point(data.coordinates)}`,
+        element && `element ${element.width}x${element.height} at ${point(element)}`,
+        window && `content origin (${window.contentAreaX}, ${window.contentAreaY})`
+      ].filter(Boolean).join('; ');
+    }
+
+    case 'retry': {
+      const context = data.context ? `${data.context}: ` : '';
+      const attempt = `attempt ${data.attempt}/${data.maxAttempts} failed (${oneLine(String(data.error), 60)})`;
+      return `${context}${attempt}${data.gaveUp ? ', giving up' : `, retrying in ${data.delayMs}ms`}`;
+    }
+
+    case 'rate-limit':
+      return data.allowed
+        ? `${data.operation} allowed, ${data.remaining} of ${data.maxOperations} left`
+        : `${data.operation} denied${data.retryAfterMs !== undefined ? `, retry after ${data.retryAfterMs}ms` : ''}`;
+
+    case 'screenshot': {
+      if (!event.success) return `${data.operation}${failure}`;
+      const metadata = data.metadata as { width?: number; height?: number } | undefined;
+      return `${data.operation} ${data.path} ${metadata?.width ?? 0}x${metadata?.height ?? 0}${data.preview ? ' (preview in trace)' : ''}`;
+    }
+
+    default:
+      return oneLine(JSON.stringify(data));
+  }
+}
+
+/**
+ * Complete script text or data of a step, for `--full`
+ */
+function eventDetails(event: TraceEvent): string[] {
+  const script = (event.data.script ?? event.data.javascript) as TraceText | undefined;
+  const lines: string[] = [];
+
+  if (script && typeof script.text === 'string') {
+    lines.push(...script.text.split('\n').filter(line => line.trim() !== ''));
+    if (script.truncated) {
+      lines.push(`… (${script.length - script.text.length} more characters not recorded)`);
+    }
+  }
+
+  const { script: _script, javascript: _javascript, preview, ...rest } = event.data;
+  const data = preview ? { ...rest, preview: { size: (preview as { size?: number }).size } } : rest;
+  if (Object.keys(data).length > 0) {
+    lines.push(...JSON.stringify(data, null, 2).split('\n'));
+  }
+  return lines;
+}
+
+/**
+ * Render a trace as a terminal timeline
+ */
+export function formatTraceTimeline(report: TraceReport, options: TraceTimelineOptions = {}): string {
+  const status = report.complete ? `exit ${report.exitCode ?? 0}` : 'incomplete (process ended before the trace was closed)';
+  const lines = [
+    `Trace: ${report.argv.join(' ') || '(no arguments)'}`,
+    `  ${report.file}`,
+    `  ${report.startedAt ? `${report.startedAt}, ` : ''}${ms(report.durationMs)}, ${report.events.length} step(s), ${report.failures} failed, ${status}`
+  ];
+
+  if (report.events.length === 0) {
+    lines.push('', 'No steps were recorded');
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  for (const event of report.events) {
+    const icon = event.success === undefined ? '⚪' : event.success ? '✅' : '❌';
+    const duration = event.durationMs !== undefined ? ms(event.durationMs) : '';
+    lines.push(`${`+${ms(event.t)}`.padStart(10)}  ${icon} ${event.kind.padEnd(11)} ${duration.padStart(9)}  ${describeTraceEvent(event)}`);
+    if (options.full) {
+      lines.push(...eventDetails(event).map(line => `${' '.repeat(14)}${line}`), '');
+    }
+  }
+
+  return lines.join('\n');
+}
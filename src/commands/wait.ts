@@ -1,17 +1,68 @@
 import { Result, ok, ErrorCode, error as createError } from '../core/index.js';
 import { ErrorUtils } from '../core/ErrorUtils.js';
 import { logCommandStart, logCommandEnd, logPerformance } from '../lib/logger.js';
+import { execChromeJS } from '../lib/apple.js';
+import { getDeepQueryScript, deepQueryExpression } from '../lib/deep-query.js';
+import { sleep } from '../lib/util.js';
+import { containsDangerousPatterns } from './dom.js';
 
 export interface WaitOptions {
   milliseconds?: number;
 }
 
+/**
+ * Conditions supported by condition-based waits
+ */
+export type WaitCondition = 'selector' | 'text' | 'url' | 'title' | 'network-idle' | 'function';
+
+/**
+ * Element states for selector waits
+ */
+export type SelectorWaitState = 'present' | 'visible' | 'hidden' | 'detached';
+
+/**
+ * Options shared by all condition-based waits
+ */
+export interface ConditionWaitOptions {
+  /** Maximum time to wait in milliseconds (default: 30000, max: 600000) */
+  timeoutMs?: number;
+  /** Delay between polls in milliseconds (default: 100) */
+  intervalMs?: number;
+  /** Target tab index (1-based, default: 1) */
+  tabIndex?: number;
+  /** Target window index (1-based, default: 1) */
+  windowIndex?: number;
+}
+
+/**
+ * Options for selector waits
+ */
+export interface SelectorWaitOptions extends ConditionWaitOptions {
+  /** Element state to wait for (default: 'visible') */
+  state?: SelectorWaitState;
+}
+
+/**
+ * Options for network idle waits
+ */
+export interface NetworkIdleWaitOptions extends ConditionWaitOptions {
+  /** How long there must be no pending fetch/XHR requests in milliseconds (default: 500) */
+  idleMs?: number;
+}
+
 export interface WaitResult {
   success: boolean;
   cmd: string;
+  /** Requested duration (fixed waits) or timeout budget (condition waits) */
   durationMs: number;
   actualMs: number;
   timestamp: string;
+  /** Condition that was waited for (condition waits only) */
+  condition?: WaitCondition;
+  /** Number of polls performed (condition waits only) */
+  attempts?: number;
+  /** Page state observed by the final, matching poll (condition waits only) */
+  matchedState?: Record<string, unknown>;
 }
 
 /**
@@ -29,6 +80,31 @@ const MAX_WAIT_MS = 10 * 60 * 1000;
  */
 const MIN_WAIT_MS = 1;
 
+/**
+ * Default timeout for condition-based waits
+ */
+const DEFAULT_CONDITION_TIMEOUT_MS = 30000;
+
+/**
+ * Default polling interval for condition-based waits
+ */
+const DEFAULT_POLL_INTERVAL_MS = 100;
+
+/**
+ * Default quiet period for network idle waits
+ */
+const DEFAULT_NETWORK_IDLE_MS = 500;
+
+/**
+ * Upper bound for a single poll's JavaScript execution
+ */
+const MAX_POLL_EXECUTION_MS = 10000;
+
+/**
+ * Valid selector wait states
+ */
+const SELECTOR_WAIT_STATES: readonly SelectorWaitState[] = ['present', 'visible', 'hidden', 'detached'];
+
 /**
  * Wait for the specified duration
  * 
@@ -223,4 +299,443 @@ export async function waitIdle(options: WaitOptions = {}): Promise<Result<WaitRe
       );
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Result of a single condition poll in the page
+ */
+interface ConditionPollResult {
+  matched: boolean;
+  state?: Record<string, unknown>;
+  /** Set when the condition can never match (e.g. invalid selector) */
+  fatal?: string;
+}
+
+/**
+ * Definition of a condition wait passed to the polling engine
+ */
+interface ConditionDefinition {
+  condition: WaitCondition;
+  /** JavaScript function body returning a ConditionPollResult */
+  body: string;
+  /** Error code for fatal poll results */
+  fatalCode: ErrorCode;
+  /** Description used in timeout messages */
+  description: string;
+}
+
+/**
+ * Wrap a condition body so exceptions are reported as unmatched state
+ */
+function buildPollScript(body: string): string {
+  return `
+(function() {
+  try {
+    const result = (function() {
+      ${body}
+    })();
+    return JSON.stringify(result);
+  } catch (e) {
+    return JSON.stringify({ matched: false, state: { error: String((e && e.message) || e) } });
+  }
+})();
+`;
+}
+
+/**
+ * Build the page-side matcher for url/title patterns.
+ * Patterns written as /regex/flags are matched as regular expressions,
+ * anything else as a substring.
+ */
+function buildPatternMatcher(pattern: string): Result<string, string> {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      new RegExp(regexMatch[1], regexMatch[2]);
+    } catch (err) {
+      return ErrorUtils.validationError(`Invalid regular expression: ${pattern}`, 'pattern', pattern);
+    }
+    return ok(`(function(value) { return new RegExp(${JSON.stringify(regexMatch[1])}, ${JSON.stringify(regexMatch[2])}).test(value); })`);
+  }
+  return ok(`(function(value) { return value.includes(${JSON.stringify(pattern)}); })`);
+}
+
+/**
+ * Poll a page condition until it matches or the timeout elapses
+ */
+async function pollCondition(
+  definition: ConditionDefinition,
+  options: ConditionWaitOptions
+): Promise<Result<WaitResult, string>> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_CONDITION_TIMEOUT_MS;
+  const intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const tabIndex = options.tabIndex ?? 1;
+  const windowIndex = options.windowIndex ?? 1;
+  const cmd = `wait ${definition.condition}`;
+
+  const correlationId = logCommandStart(cmd, { timeoutMs, intervalMs, tabIndex, windowIndex });
+
+  if (typeof timeoutMs !== 'number' || isNaN(timeoutMs) || timeoutMs < MIN_WAIT_MS || timeoutMs > MAX_WAIT_MS) {
+    logCommandEnd(cmd, correlationId, false, undefined, new Error(`Invalid timeout: ${timeoutMs}`));
+    return ErrorUtils.validationError(
+      `Invalid timeout. Must be between ${MIN_WAIT_MS} and ${MAX_WAIT_MS}ms.`,
+      'timeoutMs',
+      timeoutMs
+    );
+  }
+
+  if (typeof intervalMs !== 'number' || isNaN(intervalMs) || intervalMs < MIN_WAIT_MS || intervalMs > timeoutMs) {
+    logCommandEnd(cmd, correlationId, false, undefined, new Error(`Invalid interval: ${intervalMs}`));
+    return ErrorUtils.validationError(
+      `Invalid polling interval. Must be between ${MIN_WAIT_MS}ms and the timeout.`,
+      'intervalMs',
+      intervalMs
+    );
+  }
+
+  const script = buildPollScript(definition.body);
+  const startTime = Date.now();
+  const startTimestamp = new Date().toISOString();
+  let attempts = 0;
+  let lastState: Record<string, unknown> | undefined;
+
+  while (true) {
+    attempts++;
+    const remainingMs = timeoutMs - (Date.now() - startTime);
+    const pollTimeoutMs = Math.max(1, Math.min(remainingMs, MAX_POLL_EXECUTION_MS));
+    const pollResult = await execChromeJS<ConditionPollResult>(script, tabIndex, windowIndex, pollTimeoutMs);
+    const elapsedMs = Date.now() - startTime;
+
+    if (!pollResult.success) {
+      logCommandEnd(cmd, correlationId, false, elapsedMs, new Error(pollResult.error));
+      return createError(pollResult.error, pollResult.code, {
+        ...pollResult.context,
+        metadata: { ...pollResult.context?.metadata, operation: cmd, attempts }
+      });
+    }
+
+    const poll = pollResult.data;
+    lastState = poll?.state;
+
+    if (poll?.fatal) {
+      logCommandEnd(cmd, correlationId, false, elapsedMs, new Error(poll.fatal));
+      return createError(poll.fatal, definition.fatalCode, {
+        recoveryHint: 'user_action',
+        metadata: { operation: cmd, attempts }
+      });
+    }
+
+    if (poll?.matched) {
+      logCommandEnd(cmd, correlationId, true, elapsedMs);
+      logPerformance(cmd, elapsedMs, 'command', { attempts, timeoutMs, intervalMs });
+
+      return ok({
+        success: true,
+        cmd,
+        durationMs: timeoutMs,
+        actualMs: elapsedMs,
+        timestamp: startTimestamp,
+        condition: definition.condition,
+        attempts,
+        matchedState: poll.state ?? {}
+      }, ErrorCode.OK, {
+        durationMs: elapsedMs,
+        metadata: { operation: cmd, attempts }
+      });
+    }
+
+    if (elapsedMs + intervalMs > timeoutMs) {
+      logCommandEnd(cmd, correlationId, false, elapsedMs, new Error(`Timed out waiting for ${definition.description}`));
+      return createError(
+        `Timed out after ${elapsedMs}ms waiting for ${definition.description} (${attempts} attempts)`,
+        ErrorCode.TIMEOUT,
+        {
+          recoveryHint: 'retry_with_delay',
+          durationMs: elapsedMs,
+          metadata: {
+            operation: cmd,
+            condition: definition.condition,
+            attempts,
+            timeoutMs,
+            lastState
+          }
+        }
+      );
+    }
+
+    await sleep(intervalMs);
+  }
+}
+
+/**
+ * Wait for an element to reach a state
+ * 
+ * Polls the page until the element matching the selector is present in the DOM,
+ * visible, hidden (not visible or not present) or detached (not present).
+ * 
+ * @param selector CSS selector for the target element
+ * @param options Selector wait options
+ * @param options.state Element state to wait for (default: 'visible')
+ * @returns Promise resolving to wait result with attempts and matched element state
+ * 
+ * @throws {ErrorCode.INVALID_INPUT} When selector, state, timeout or interval is invalid
+ * @throws {ErrorCode.INVALID_SELECTOR} When the selector is not valid CSS
+ * @throws {ErrorCode.TIMEOUT} When the element does not reach the state within the timeout
+ * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ * 
+ * @example
+ * ```typescript
+ * const result = await waitForSelector('#results .item', { state: 'visible', timeoutMs: 5000 });
+ * if (result.success) {
+ *   console.log(`Visible after ${result.data.attempts} attempts`, result.data.matchedState);
+ * }
+ * ```
+ */
+export async function waitForSelector(
+  selector: string,
+  options: SelectorWaitOptions = {}
+): Promise<Result<WaitResult, string>> {
+  const state = options.state ?? 'visible';
+
+  if (typeof selector !== 'string' || selector.trim().length === 0) {
+    return ErrorUtils.validationError('Selector is required and cannot be empty', 'selector', selector);
+  }
+  if (!SELECTOR_WAIT_STATES.includes(state)) {
+    return ErrorUtils.validationError(
+      `Invalid state. Must be one of: ${SELECTOR_WAIT_STATES.join(', ')}`,
+      'state',
+      state
+    );
+  }
+
+  const body = `
+      ${getDeepQueryScript()}
+      const wanted = ${JSON.stringify(state)};
+      let el;
+      try {
+        el = ${deepQueryExpression(selector)};
+      } catch (e) {
+        return { matched: false, fatal: 'Invalid selector: ' + ${JSON.stringify(selector)} };
+      }
+      if (!el) {
+        return { matched: wanted === 'hidden' || wanted === 'detached', state: { attached: false, visible: false } };
+      }
+      const style = elementWindow(el).getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      const visible = style.display !== 'none' && style.visibility !== 'hidden' &&
+        parseFloat(style.opacity || '1') > 0 && rect.width > 0 && rect.height > 0;
+      const matched = wanted === 'present' || (wanted === 'visible' && visible) || (wanted === 'hidden' && !visible);
+      return {
+        matched: matched,
+        state: {
+          attached: true,
+          visible: visible,
+          tagName: el.tagName.toLowerCase(),
+          rect: { x: Math.round(rect.left), y: Math.round(rect.top), w: Math.round(rect.width), h: Math.round(rect.height) }
+        }
+      };`;
+
+  return pollCondition({
+    condition: 'selector',
+    body,
+    fatalCode: ErrorCode.INVALID_SELECTOR,
+    description: `${selector} to be ${state}`
+  }, options);
+}
+
+/**
+ * Wait for text to be present in the page
+ * 
+ * @param text Text to look for in the page's visible text content
+ * @param options Condition wait options
+ * @returns Promise resolving to wait result with attempts and match state
+ * 
+ * @throws {ErrorCode.INVALID_INPUT} When text, timeout or interval is invalid
+ * @throws {ErrorCode.TIMEOUT} When the text does not appear within the timeout
+ * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ */
+export async function waitForText(
+  text: string,
+  options: ConditionWaitOptions = {}
+): Promise<Result<WaitResult, string>> {
+  if (typeof text !== 'string' || text.length === 0) {
+    return ErrorUtils.validationError('Text is required and cannot be empty', 'text', text);
+  }
+
+  const body = `
+      const content = document.body ? document.body.innerText : '';
+      const index = content.indexOf(${JSON.stringify(text)});
+      return { matched: index !== -1, state: { found: index !== -1, textLength: content.length } };`;
+
+  return pollCondition({
+    condition: 'text',
+    body,
+    fatalCode: ErrorCode.INVALID_INPUT,
+    description: `text "${text}"`
+  }, options);
+}
+
+/**
+ * Wait for the page URL to match a pattern
+ * 
+ * @param pattern Substring, or regular expression written as /regex/flags
+ * @param options Condition wait options
+ * @returns Promise resolving to wait result with the matched URL
+ * 
+ * @throws {ErrorCode.INVALID_INPUT} When the pattern, timeout or interval is invalid
+ * @throws {ErrorCode.TIMEOUT} When the URL does not match within the timeout
+ * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ */
+export async function waitForUrl(
+  pattern: string,
+  options: ConditionWaitOptions = {}
+): Promise<Result<WaitResult, string>> {
+  if (typeof pattern !== 'string' || pattern.length === 0) {
+    return ErrorUtils.validationError('URL pattern is required and cannot be empty', 'pattern', pattern);
+  }
+  const matcher = buildPatternMatcher(pattern);
+  if (!matcher.success) {
+    return matcher;
+  }
+
+  const body = `
+      const url = window.location.href;
+      return { matched: ${matcher.data}(url), state: { url: url } };`;
+
+  return pollCondition({
+    condition: 'url',
+    body,
+    fatalCode: ErrorCode.INVALID_INPUT,
+    description: `URL matching ${pattern}`
+  }, options);
+}
+
+/**
+ * Wait for the page title to match a pattern
+ * 
+ * @param pattern Substring, or regular expression written as /regex/flags
+ * @param options Condition wait options
+ * @returns Promise resolving to wait result with the matched title
+ * 
+ * @throws {ErrorCode.INVALID_INPUT} When the pattern, timeout or interval is invalid
+ * @throws {ErrorCode.TIMEOUT} When the title does not match within the timeout
+ * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ */
+export async function waitForTitle(
+  pattern: string,
+  options: ConditionWaitOptions = {}
+): Promise<Result<WaitResult, string>> {
+  if (typeof pattern !== 'string' || pattern.length === 0) {
+    return ErrorUtils.validationError('Title pattern is required and cannot be empty', 'pattern', pattern);
+  }
+  const matcher = buildPatternMatcher(pattern);
+  if (!matcher.success) {
+    return matcher;
+  }
+
+  const body = `
+      const title = document.title;
+      return { matched: ${matcher.data}(title), state: { title: title } };`;
+
+  return pollCondition({
+    condition: 'title',
+    body,
+    fatalCode: ErrorCode.INVALID_INPUT,
+    description: `title matching ${pattern}`
+  }, options);
+}
+
+/**
+ * Wait until there are no pending fetch/XHR requests for a quiet period
+ * 
+ * Uses the in-flight request tracking of the `__netlog` hook, so network
+ * monitoring must have been started with `netlog start` in the target tab.
+ * 
+ * @param options Network idle wait options
+ * @param options.idleMs Required quiet period in milliseconds (default: 500)
+ * @returns Promise resolving to wait result with pending request count and idle time
+ * 
+ * @throws {ErrorCode.INVALID_INPUT} When idleMs, timeout or interval is invalid
+ * @throws {ErrorCode.TARGET_NOT_FOUND} When the network hook is not installed in the page
+ * @throws {ErrorCode.TIMEOUT} When the network does not become idle within the timeout
+ * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ */
+export async function waitForNetworkIdle(
+  options: NetworkIdleWaitOptions = {}
+): Promise<Result<WaitResult, string>> {
+  const idleMs = options.idleMs ?? DEFAULT_NETWORK_IDLE_MS;
+
+  if (typeof idleMs !== 'number' || isNaN(idleMs) || idleMs < 0 || idleMs > MAX_WAIT_MS) {
+    return ErrorUtils.validationError(
+      `Invalid idle duration. Must be between 0 and ${MAX_WAIT_MS}ms.`,
+      'idleMs',
+      idleMs
+    );
+  }
+
+  const body = `
+      const netlog = window.__netlog;
+      if (!netlog || typeof netlog.pendingRequests !== 'number') {
+        return { matched: false, fatal: 'Network hooks are not installed in this page. Run "netlog start" first.' };
+      }
+      const idleForMs = Math.round(performance.now() - netlog.lastActivity);
+      return {
+        matched: netlog.pendingRequests === 0 && idleForMs >= ${idleMs},
+        state: { pendingRequests: netlog.pendingRequests, idleForMs: idleForMs }
+      };`;
+
+  return pollCondition({
+    condition: 'network-idle',
+    body,
+    fatalCode: ErrorCode.TARGET_NOT_FOUND,
+    description: `network idle for ${idleMs}ms`
+  }, options);
+}
+
+/**
+ * Wait for a custom JavaScript predicate to return a truthy value
+ * 
+ * The predicate is evaluated as an expression in the page on every poll. Exceptions
+ * thrown by the predicate count as "not matched" and the last error is reported in
+ * the timeout metadata.
+ * 
+ * @param predicate JavaScript expression, e.g. `document.querySelectorAll('.row').length > 10`
+ * @param options Condition wait options
+ * @returns Promise resolving to wait result with the predicate's final value
+ * 
+ * @throws {ErrorCode.INVALID_INPUT} When the predicate is empty, contains blocked patterns, or timeout/interval is invalid
+ * @throws {ErrorCode.TIMEOUT} When the predicate does not become truthy within the timeout
+ * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+ */
+export async function waitForFunction(
+  predicate: string,
+  options: ConditionWaitOptions = {}
+): Promise<Result<WaitResult, string>> {
+  if (typeof predicate !== 'string' || predicate.trim().length === 0) {
+    return ErrorUtils.validationError('Predicate is required and cannot be empty', 'predicate', predicate);
+  }
+  if (containsDangerousPatterns(predicate)) {
+    return ErrorUtils.validationError(
+      'Predicate contains dangerous patterns and cannot be executed',
+      'predicate',
+      predicate
+    );
+  }
+
+  const body = `
+      const value = (${predicate});
+      let serializable = value;
+      try {
+        JSON.stringify(value);
+      } catch (e) {
+        serializable = String(value);
+      }
+      return { matched: Boolean(value), state: { value: serializable === undefined ? null : serializable } };`;
+
+  return pollCondition({
+    condition: 'function',
+    body,
+    fatalCode: ErrorCode.INVALID_INPUT,
+    description: 'predicate to be truthy'
+  }, options);
+}
@@ -0,0 +1,453 @@
+/**
+ * @fileoverview Chrome window commands
+ *
+ * Lists Chrome windows with their stable ids, so scripts can target a window
+ * with `--window id:<n>`, `--window title:<pattern>` or `--window url:<pattern>`
+ * instead of an index that changes whenever windows are reordered, and opens,
+ * closes, moves, resizes, minimizes and full-screens windows. `--viewport WxH`
+ * sizes a window so that the page viewport, not the outer window, has the
+ * requested size, which keeps screenshots consistent across machines.
+ *
+ * @example
+ * ```typescript
+ * const windowCmd = new WindowCommand();
+ *
+ * // Open an incognito window with a 1280x800 viewport
+ * const created = await windowCmd.create({ incognito: true, viewport: '1280x800' });
+ *
+ * // Move the front window to the top-left corner
+ * await windowCmd.setBounds({ windowIndex: 1, x: 0, y: 25 });
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { BrowserCommandBase } from '../core/CommandBase.js';
+import { Result, ok } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import { appleScriptService } from '../services/AppleScriptService.js';
+import type {
+  ChromeWindowInfo,
+  IAppleScriptService,
+  ViewportSize,
+  WindowBounds,
+  WindowState
+} from '../services/IAppleScriptService.js';
+
+/**
+ * Window list result
+ */
+export interface WindowListData {
+  /** Windows from front to back */
+  windows: ChromeWindowInfo[];
+  /** Number of open windows */
+  totalWindows: number;
+  metadata: {
+    timestamp: string;
+    durationMs: number;
+  };
+}
+
+/**
+ * Window management action
+ */
+export type WindowAction = 'new' | 'close' | 'set-bounds' | 'minimize' | 'restore' | 'fullscreen';
+
+/**
+ * Result of a window management command
+ */
+export interface WindowActionData {
+  action: WindowAction;
+  /** Window after the action; for `close`, the window that was closed */
+  window: ChromeWindowInfo;
+  /** Viewport size reached with `--viewport` */
+  viewport?: ViewportSize;
+  metadata: {
+    timestamp: string;
+    durationMs: number;
+  };
+}
+
+/**
+ * Options for targeting a window
+ */
+export interface WindowTargetOptions {
+  /** Target window index (1-based, default: 1) */
+  windowIndex?: number;
+}
+
+/**
+ * Options for opening a window
+ */
+export interface WindowCreateOptions {
+  /** Open an incognito window */
+  incognito?: boolean;
+  /** URL to load in the new window */
+  url?: string;
+  /** Viewport size as `WxH`, e.g. `1280x800` */
+  viewport?: string;
+}
+
+/**
+ * Options for moving and resizing a window. Omitted coordinates keep their
+ * current value.
+ */
+export interface WindowBoundsOptions extends WindowTargetOptions {
+  /** Left edge in screen points */
+  x?: number;
+  /** Top edge in screen points */
+  y?: number;
+  /** Outer window width in screen points */
+  width?: number;
+  /** Outer window height in screen points */
+  height?: number;
+  /** Viewport size as `WxH`; resizes the window around the page viewport */
+  viewport?: string;
+}
+
+/**
+ * Resize attempts before `--viewport` gives up; the first resize is exact
+ * unless the page is zoomed or Chrome clamps the window
+ */
+const VIEWPORT_RESIZE_ATTEMPTS = 3;
+
+/**
+ * Largest accepted window or viewport dimension
+ */
+const MAX_WINDOW_DIMENSION = 10000;
+
+/**
+ * Turn a failed service call into an error carrying its code
+ */
+function windowError(result: { error: string; code: ErrorCode }): Error {
+  return Object.assign(new Error(result.error), { errorCode: result.code });
+}
+
+/**
+ * Parse a viewport size written as `WxH`
+ *
+ * @param value Size such as `1280x800`
+ * @returns Viewport size, or a validation error for malformed sizes
+ */
+export function parseViewportSize(value: string): Result<ViewportSize, string> {
+  const match = value.trim().match(/^(\d+)\s*[xX×]\s*(\d+)$/);
+  const width = match ? parseInt(match[1]!, 10) : NaN;
+  const height = match ? parseInt(match[2]!, 10) : NaN;
+
+  if (!match || width < 1 || height < 1 || width > MAX_WINDOW_DIMENSION || height > MAX_WINDOW_DIMENSION) {
+    return ErrorUtils.validationError(
+      `Invalid viewport "${value}": expected WIDTHxHEIGHT, e.g. 1280x800`,
+      'viewport',
+      value
+    );
+  }
+  return ok({ width, height });
+}
+
+/**
+ * Chrome window commands
+ */
+export class WindowCommand extends BrowserCommandBase {
+  constructor(private readonly service: IAppleScriptService = appleScriptService) {
+    super();
+  }
+
+  /**
+   * List all Chrome windows from front to back
+   *
+   * @returns Promise resolving to the windows with ids, bounds, tab counts and state
+   *
+   * @throws {ErrorCode.CHROME_NOT_RUNNING} When Chrome browser is not running or accessible
+   * @throws {ErrorCode.APPLESCRIPT_ERROR} When the window enumeration script fails
+   */
+  async list(): Promise<Result<WindowListData, string>> {
+    const startTime = Date.now();
+
+    return this.executeBrowserCommand(async () => {
+      const result = await this.service.listWindows();
+      if (!result.success) {
+        throw windowError(result);
+      }
+
+      return {
+        windows: result.data,
+        totalWindows: result.data.length,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          durationMs: Date.now() - startTime
+        }
+      };
+    }, 'window_list');
+  }
+
+  /**
+   * Open a new window, optionally incognito and sized to a viewport
+   *
+   * @param options Incognito mode, URL and viewport size
+   * @returns Promise resolving to the new window
+   *
+   * @throws {ErrorCode.INVALID_INPUT} When the viewport size is malformed
+   * @throws {ErrorCode.UI_AUTOMATION_FAILED} When the viewport cannot reach the requested size
+   */
+  async create(options: WindowCreateOptions = {}): Promise<Result<WindowActionData, string>> {
+    const startTime = Date.now();
+    const viewport = options.viewport !== undefined ? parseViewportSize(options.viewport) : undefined;
+    if (viewport && !viewport.success) {
+      return viewport;
+    }
+
+    return this.executeCommand(async () => {
+      // The new tab page cannot run JavaScript, so measure the viewport on a blank page
+      const url = options.url ?? (viewport ? 'about:blank' : undefined);
+      const created = await this.service.createWindow({
+        ...(options.incognito && { incognito: true }),
+        ...(url && { url })
+      });
+      if (!created.success) {
+        throw windowError(created);
+      }
+
+      const reached = viewport ? await this.fitViewport(created.data.index, viewport.data) : undefined;
+      return this.actionData('new', await this.findWindow({ id: created.data.id }), startTime, reached);
+    }, 'window_new');
+  }
+
+  /**
+   * Close a window and all of its tabs
+   *
+   * @param options Target window
+   * @returns Promise resolving to the window that was closed
+   *
+   * @throws {ErrorCode.WINDOW_NOT_FOUND} When the window does not exist
+   */
+  async close(options: WindowTargetOptions = {}): Promise<Result<WindowActionData, string>> {
+    const startTime = Date.now();
+    const windowIndex = options.windowIndex ?? 1;
+
+    return this.executeCommand(async () => {
+      const target = await this.findWindow({ index: windowIndex });
+      const closed = await this.service.closeWindow(windowIndex);
+      if (!closed.success) {
+        throw windowError(closed);
+      }
+      return this.actionData('close', target, startTime);
+    }, 'window_close');
+  }
+
+  /**
+   * Move and resize a window
+   *
+   * Coordinates that are not given keep their current value. With `viewport`,
+   * the window is resized until the page viewport has exactly that size.
+   *
+   * @param options Target window, new bounds and/or viewport size
+   * @returns Promise resolving to the window with its new bounds
+   *
+   * @throws {ErrorCode.INVALID_INPUT} When no bounds are given, values are out of range, or
+   *   `viewport` is combined with `width`/`height`
+   * @throws {ErrorCode.WINDOW_NOT_FOUND} When the window does not exist
+   * @throws {ErrorCode.UI_AUTOMATION_FAILED} When the viewport cannot reach the requested size
+   */
+  async setBounds(options: WindowBoundsOptions): Promise<Result<WindowActionData, string>> {
+    const startTime = Date.now();
+    const windowIndex = options.windowIndex ?? 1;
+    const validation = this.validateBounds(options);
+    if (!validation.success) {
+      return validation;
+    }
+    const viewport = validation.data;
+
+    return this.executeCommand(async () => {
+      const target = await this.findWindow({ index: windowIndex });
+
+      if ([options.x, options.y, options.width, options.height].some(value => value !== undefined)) {
+        const bounds: WindowBounds = {
+          x: options.x ?? target.bounds.x,
+          y: options.y ?? target.bounds.y,
+          width: options.width ?? target.bounds.width,
+          height: options.height ?? target.bounds.height
+        };
+        const moved = await this.service.setWindowBounds(windowIndex, bounds);
+        if (!moved.success) {
+          throw windowError(moved);
+        }
+      }
+
+      const reached = viewport ? await this.fitViewport(windowIndex, viewport) : undefined;
+      return this.actionData('set-bounds', await this.findWindow({ id: target.id }), startTime, reached);
+    }, 'window_set_bounds');
+  }
+
+  /**
+   * Minimize a window to the Dock
+   *
+   * @param options Target window
+   * @returns Promise resolving to the minimized window
+   */
+  async minimize(options: WindowTargetOptions = {}): Promise<Result<WindowActionData, string>> {
+    return this.changeState(options, 'minimized', 'minimize');
+  }
+
+  /**
+   * Restore a minimized or full screen window and bring it to the front
+   *
+   * @param options Target window
+   * @returns Promise resolving to the restored window
+   */
+  async restore(options: WindowTargetOptions = {}): Promise<Result<WindowActionData, string>> {
+    return this.changeState(options, 'normal', 'restore');
+  }
+
+  /**
+   * Bring a window to the front and enter full screen
+   *
+   * @param options Target window
+   * @returns Promise resolving to the full screen window
+   *
+   * @throws {ErrorCode.ACCESSIBILITY_DENIED} When System Events is not allowed to control Chrome
+   */
+  async fullscreen(options: WindowTargetOptions = {}): Promise<Result<WindowActionData, string>> {
+    return this.changeState(options, 'fullscreen', 'fullscreen');
+  }
+
+  /**
+   * Apply a window state and report the window afterwards
+   */
+  private async changeState(
+    options: WindowTargetOptions,
+    state: WindowState,
+    action: WindowAction
+  ): Promise<Result<WindowActionData, string>> {
+    const startTime = Date.now();
+    const windowIndex = options.windowIndex ?? 1;
+
+    return this.executeCommand(async () => {
+      // Restoring and full screen move the window to the front, so follow it by id
+      const target = await this.findWindow({ index: windowIndex });
+      const changed = await this.service.setWindowState(windowIndex, state);
+      if (!changed.success) {
+        throw windowError(changed);
+      }
+      return this.actionData(action, await this.findWindow({ id: target.id }), startTime);
+    }, `window_${action}`);
+  }
+
+  /**
+   * Validate bounds options, returning the parsed viewport size if one was given
+   */
+  private validateBounds(options: WindowBoundsOptions): Result<ViewportSize | undefined, string> {
+    const { x, y, width, height } = options;
+    if ([x, y, width, height, options.viewport].every(value => value === undefined)) {
+      return ErrorUtils.validationError('set-bounds needs --x, --y, --width, --height or --viewport', 'bounds', options);
+    }
+    if (options.viewport !== undefined && (width !== undefined || height !== undefined)) {
+      return ErrorUtils.validationError('--viewport cannot be combined with --width or --height', 'viewport', options.viewport);
+    }
+
+    for (const [field, value] of Object.entries({ x, y })) {
+      if (value !== undefined && (!Number.isInteger(value) || Math.abs(value) > MAX_WINDOW_DIMENSION)) {
+        return ErrorUtils.validationError(`Invalid ${field}: ${value}`, field, value);
+      }
+    }
+    for (const [field, value] of Object.entries({ width, height })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > MAX_WINDOW_DIMENSION)) {
+        return ErrorUtils.validationError(`Invalid ${field}: ${value} (expected 1-${MAX_WINDOW_DIMENSION})`, field, value);
+      }
+    }
+
+    if (options.viewport === undefined) {
+      return ok(undefined);
+    }
+    const viewport = parseViewportSize(options.viewport);
+    return viewport.success ? ok(viewport.data) : viewport;
+  }
+
+  /**
+   * Resize a window until its active tab's viewport has the requested size
+   *
+   * The outer size is adjusted by the difference between the measured and the
+   * requested viewport, so toolbars, bookmarks bar and scrollbars are accounted
+   * for. Page zoom or a window clamped to the screen can need another round.
+   */
+  private async fitViewport(windowIndex: number, target: ViewportSize): Promise<ViewportSize> {
+    let viewport = await this.measureViewport(windowIndex);
+
+    for (let attempt = 0; attempt < VIEWPORT_RESIZE_ATTEMPTS; attempt++) {
+      if (viewport.width === target.width && viewport.height === target.height) {
+        return viewport;
+      }
+
+      const current = await this.service.getChromeWindowBounds(windowIndex);
+      if (!current.success) {
+        throw windowError(current);
+      }
+      const { bounds } = current.data;
+      const resized = await this.service.setWindowBounds(windowIndex, {
+        ...bounds,
+        width: bounds.width + target.width - viewport.width,
+        height: bounds.height + target.height - viewport.height
+      });
+      if (!resized.success) {
+        throw windowError(resized);
+      }
+      viewport = await this.measureViewport(windowIndex);
+    }
+
+    if (viewport.width !== target.width || viewport.height !== target.height) {
+      throw windowError({
+        error: `Viewport is ${viewport.width}x${viewport.height} instead of ${target.width}x${target.height}; ` +
+          'Chrome limits windows to its minimum size and to the screen',
+        code: ErrorCode.UI_AUTOMATION_FAILED
+      });
+    }
+    return viewport;
+  }
+
+  private async measureViewport(windowIndex: number): Promise<ViewportSize> {
+    const viewport = await this.service.getViewportSize(windowIndex);
+    if (!viewport.success) {
+      throw windowError(viewport);
+    }
+    return viewport.data;
+  }
+
+  /**
+   * Look up a window by its stable id or its current index
+   */
+  private async findWindow(by: { id: number } | { index: number }): Promise<ChromeWindowInfo> {
+    const windows = await this.service.listWindows();
+    if (!windows.success) {
+      throw windowError(windows);
+    }
+
+    const found = windows.data.find(window => 'id' in by ? window.id === by.id : window.index === by.index);
+    if (!found) {
+      throw windowError({
+        error: 'id' in by
+          ? `Chrome window id:${by.id} no longer exists`
+          : `Chrome window ${by.index} does not exist (${windows.data.length} open)`,
+        code: ErrorCode.WINDOW_NOT_FOUND
+      });
+    }
+    return found;
+  }
+
+  private actionData(
+    action: WindowAction,
+    window: ChromeWindowInfo,
+    startTime: number,
+    viewport?: ViewportSize
+  ): WindowActionData {
+    return {
+      action,
+      window,
+      ...(viewport && { viewport }),
+      metadata: {
+        timestamp: new Date().toISOString(),
+        durationMs: Date.now() - startTime
+      }
+    };
+  }
+}
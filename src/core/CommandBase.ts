@@ -12,6 +12,7 @@ import { Result, ok, mapError } from './Result.js';
 import { ErrorCode } from './ErrorCodes.js';
 import { ErrorUtils, validateInputParam, executeWithContext } from './ErrorUtils.js';
 import { withRetry, type RetryOptions } from './RetryHandler.js';
+import { isLocator, parseLocator, PIERCE_COMBINATOR } from '../lib/locator.js';
 
 /**
  * Base options for all commands
@@ -233,6 +234,14 @@ export abstract class BrowserCommandBase extends CommandBase {
     if (selector.trim().length === 0) {
       return ErrorUtils.validationError('Selector cannot be empty', 'selector', selector);
     }
+
+    // Locators (text=, role=, xpath=, ... and >> chains) and >>> piercing have their own syntax
+    if (isLocator(selector) || selector.includes(PIERCE_COMBINATOR)) {
+      const parsed = parseLocator(selector);
+      return parsed.success
+        ? ok(void 0) as Result<void, string>
+        : ErrorUtils.validationError(parsed.error, 'selector', selector);
+    }
     
     // Basic CSS selector validation
     try {
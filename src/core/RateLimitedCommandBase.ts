@@ -16,6 +16,7 @@ import { ServiceAwareCommand } from '../di/ServiceAwareCommand.js';
 import type { IServiceContainer } from '../di/ServiceContainer.js';
 import type { IRateLimiterService } from '../di/IRateLimiterService.js';
 import { SERVICE_TOKENS } from '../di/ServiceTokens.js';
+import { isLocator, parseLocator, PIERCE_COMBINATOR } from '../lib/locator.js';
 
 /**
  * Interface for errors that carry error code information
@@ -345,6 +346,17 @@ export abstract class RateLimitedBrowserCommandBase extends RateLimitedCommandBa
         metadata: { parameter: 'selector', provided: selector }
       });
     }
+
+    // Locators (text=, role=, xpath=, ... and >> chains) and >>> piercing have their own syntax
+    if (isLocator(selector) || selector.includes(PIERCE_COMBINATOR)) {
+      const parsed = parseLocator(selector);
+      return parsed.success
+        ? ok(undefined)
+        : error(parsed.error, ErrorCode.INVALID_INPUT, {
+          recoveryHint: 'check_target',
+          metadata: { parameter: 'selector', provided: selector }
+        });
+    }
     
     // Basic CSS selector validation
     try {
@@ -11,6 +11,7 @@
 import { Result, ok, error, isOk, withContext, type ResultContext, type RecoveryStrategy } from './Result.js';
 import { ErrorCode, isRetryableError, requiresUserAction } from './ErrorCodes.js';
 import { sleep } from '../lib/util.js';
+import { traceEvent } from '../lib/trace.js';
 
 /**
  * Retry configuration options
@@ -117,6 +118,17 @@ export async function withRetry<T, E>(
                          !requiresUserAction(result.code);
       
       if (!shouldRetry) {
+        if (attempt > 1) {
+          traceEvent('retry', {
+            ...(context && { context }),
+            attempt,
+            maxAttempts: opts.maxAttempts,
+            error: String(result.error),
+            code: result.code,
+            gaveUp: true
+          }, { success: false });
+        }
+
         // Not retryable or max attempts reached
         // Preserve original recovery hint if it was explicitly set, otherwise use default logic
         const originalRecoveryHint = result.context?.recoveryHint;
@@ -144,6 +156,14 @@ export async function withRetry<T, E>(
       // Calculate delay for next attempt
       const delayMs = calculateDelay(attempt - 1, opts);
       retryContext.delayHistory.push(delayMs);
+      traceEvent('retry', {
+        ...(context && { context }),
+        attempt,
+        maxAttempts: opts.maxAttempts,
+        error: String(result.error),
+        code: result.code,
+        delayMs
+      });
       
       // Call retry callback
       opts.onRetry(result.error, attempt, delayMs);
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Map registered CLI commands to JSON-RPC methods
+ *
+ * Every leaf command becomes a method named after its path (`netlog rules add`
+ * is `netlog.rules.add`). Params are an object keyed by option name (camelCase,
+ * as commander stores it, or the long flag without dashes) plus positional
+ * arguments by name or in an `args` array.
+ *
+ * @example
+ * ```json
+ * { "jsonrpc": "2.0", "id": 1, "method": "netlog.rules.add", "params": { "url": "*.png", "block": true } }
+ * { "jsonrpc": "2.0", "id": 2, "method": "sanitize.test", "params": { "file": "capture.har", "showSanitized": true } }
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import type { Command, Option } from 'commander';
+import { Result, ok } from '../core/Result.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+
+/**
+ * Commands that stream, never finish on their own or manage the daemon itself
+ */
+export const NON_RPC_COMMANDS = ['daemon', 'mcp', 'netlog tail'];
+
+/**
+ * Global options callers may pass as params; `--json` is always set by the daemon
+ */
+export const RPC_GLOBAL_OPTIONS = ['previewMax', 'redact'];
+
+export interface CommandMethodOption {
+  /** Param name (commander attribute name) */
+  name: string;
+  flag: string;
+  description: string;
+  takesValue: boolean;
+  required: boolean;
+  /** `--no-x` flags: pass `x: false` */
+  negate: boolean;
+  defaultValue?: unknown;
+}
+
+export interface CommandMethodArgument {
+  name: string;
+  description: string;
+  required: boolean;
+  variadic: boolean;
+}
+
+export interface CommandMethod {
+  method: string;
+  command: string[];
+  description: string;
+  options: CommandMethodOption[];
+  arguments: CommandMethodArgument[];
+}
+
+function describeOption(option: Option): CommandMethodOption {
+  return {
+    name: option.attributeName(),
+    flag: option.long || option.short || option.flags,
+    description: option.description,
+    takesValue: option.required || option.optional,
+    required: option.mandatory,
+    negate: option.negate,
+    ...(option.defaultValue !== undefined && { defaultValue: option.defaultValue })
+  };
+}
+
+/**
+ * Describe the program's global options that callers may set per request
+ */
+export function listGlobalMethodOptions(program: Command): CommandMethodOption[] {
+  return program.options.map(describeOption).filter(option => RPC_GLOBAL_OPTIONS.includes(option.name));
+}
+
+/**
+ * List every leaf command of a program as a method
+ */
+export function listCommandMethods(program: Command): CommandMethod[] {
+  const methods: CommandMethod[] = [];
+
+  const visit = (command: Command, path: string[]) => {
+    const key = path.join(' ');
+    if (NON_RPC_COMMANDS.some(excluded => key === excluded || key.startsWith(`${excluded} `))) {
+      return;
+    }
+    if (command.commands.length > 0) {
+      for (const child of command.commands) {
+        visit(child, [...path, child.name()]);
+      }
+      return;
+    }
+    methods.push({
+      method: path.join('.'),
+      command: path,
+      description: command.description(),
+      options: command.options.map(describeOption),
+      arguments: command.registeredArguments.map(argument => ({
+        name: argument.name(),
+        description: argument.description,
+        required: argument.required,
+        variadic: argument.variadic
+      }))
+    });
+  };
+
+  for (const command of program.commands) {
+    visit(command, [command.name()]);
+  }
+  return methods;
+}
+
+function optionArgs(option: CommandMethodOption, value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!option.takesValue) {
+    // Boolean flags: `--x` when true; negated `--no-x` when false
+    return (option.negate ? value === false : value === true) ? [option.flag] : [];
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap(item => [option.flag, typeof item === 'object' ? JSON.stringify(item) : String(item)]);
+}
+
+/**
+ * Turn method params into CLI arguments
+ */
+export function buildMethodArgs(
+  method: CommandMethod,
+  params: Record<string, unknown> = {},
+  globalOptions: CommandMethodOption[] = []
+): Result<string[], string> {
+  const remaining = { ...params };
+  const positional = Array.isArray(remaining.args) ? [...remaining.args as unknown[]] : [];
+  delete remaining.args;
+
+  const argumentValues: string[] = [];
+  for (const argument of method.arguments) {
+    let value: unknown;
+    if (argument.name in remaining) {
+      value = remaining[argument.name];
+      delete remaining[argument.name];
+    } else {
+      value = argument.variadic ? positional.splice(0) : positional.shift();
+    }
+
+    const values = (Array.isArray(value) ? value : value === undefined ? [] : [value]).map(String);
+    if (argument.required && values.length === 0) {
+      return ErrorUtils.validationError(`Missing required argument "${argument.name}" for ${method.method}`, argument.name, params);
+    }
+    argumentValues.push(...values);
+  }
+
+  const globalArgs: string[] = [];
+  const commandArgs: string[] = [];
+  const findOption = (options: CommandMethodOption[], key: string) =>
+    options.find(option => option.name === key || option.flag === `--${key}`);
+
+  for (const [key, value] of Object.entries(remaining)) {
+    const commandOption = findOption(method.options, key);
+    const globalOption = commandOption ? undefined : findOption(globalOptions, key);
+    if (!commandOption && !globalOption) {
+      const known = [...method.options, ...globalOptions].map(option => option.name);
+      return ErrorUtils.validationError(
+        `Unknown param "${key}" for ${method.method}${known.length > 0 ? ` (expected: ${known.join(', ')})` : ''}`,
+        key,
+        value
+      );
+    }
+    if (commandOption) {
+      commandArgs.push(...optionArgs(commandOption, value));
+    } else {
+      globalArgs.push(...optionArgs(globalOption!, value));
+    }
+  }
+
+  const missing = method.options.find(option => option.required && !(option.name in remaining) && option.defaultValue === undefined);
+  if (missing) {
+    return ErrorUtils.validationError(`Missing required param "${missing.name}" for ${method.method}`, missing.name, params);
+  }
+
+  return ok([...globalArgs, ...method.command, ...argumentValues, ...commandArgs]);
+}
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Client for the daemon's JSON-RPC socket
+ *
+ * Used by the thin CLI to forward invocations and by Node tooling as a
+ * programmatic API:
+ *
+ * @example
+ * ```typescript
+ * const tabs = await callDaemon('tab.list');
+ * if (tabs.success) console.log(tabs.data);
+ * ```
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import * as net from 'net';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+import { loadConfiguration } from '../di/services/ConfigurationLoader.js';
+import {
+  NO_DAEMON_ENV_VARIABLE,
+  RPC_ERRORS,
+  createLineReader,
+  defaultSocketPath,
+  describeEnvironment,
+  encodeMessage,
+  type InvocationEnvironment,
+  type InvocationResult,
+  type RpcResponse
+} from './DaemonProtocol.js';
+
+export interface DaemonCallOptions {
+  socketPath?: string;
+  /** Time allowed to connect; the call itself has no limit (commands have their own timeouts) */
+  connectTimeoutMs?: number;
+}
+
+/**
+ * Invocations that run locally even when a daemon is up: daemon management,
+ * commands that read local config files or environment, streaming or stdio commands,
+ * and benchmarks, which measure and monitor the process they run in
+ */
+const LOCAL_COMMANDS = ['daemon', 'config', 'mcp', 'netlog tail', 'benchmark', 'bench'];
+
+/**
+ * Global options that take a value, so the command path can be found after them
+ */
+const GLOBAL_VALUE_OPTIONS = ['--preview-max', '--profile', '--trace'];
+
+/**
+ * Global options that only work in this process: `--profile` selects the configuration
+ * loaded at startup and `--trace` records this process's own calls
+ */
+const LOCAL_GLOBAL_OPTIONS = ['--profile', '--trace'];
+
+let nextId = 1;
+
+/**
+ * Call a daemon method. A missing daemon is TARGET_NOT_FOUND; failed commands
+ * keep the ErrorCode the daemon reported.
+ */
+export function callDaemon<T = unknown>(
+  method: string,
+  params: Record<string, unknown> = {},
+  options: DaemonCallOptions = {}
+): Promise<Result<T, string>> {
+  const socketPath = options.socketPath ?? defaultSocketPath();
+  const id = nextId++;
+
+  return new Promise(resolve => {
+    let settled = false;
+    const finish = (result: Result<T, string>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(connectTimer);
+      socket.destroy();
+      resolve(result);
+    };
+
+    const socket = net.connect(socketPath);
+    const connectTimer = setTimeout(() => {
+      finish(error(`Timed out connecting to daemon at ${socketPath}`, ErrorCode.TIMEOUT, { recoveryHint: 'retry' }));
+    }, options.connectTimeoutMs ?? 1000);
+
+    socket.once('connect', () => {
+      clearTimeout(connectTimer);
+      socket.write(encodeMessage({ jsonrpc: '2.0', id, method, params }));
+    });
+
+    socket.on('data', createLineReader(line => {
+      let response: RpcResponse;
+      try {
+        response = JSON.parse(line) as RpcResponse;
+      } catch {
+        finish(error(`Invalid response from daemon: ${line.slice(0, 200)}`, ErrorCode.UNKNOWN_ERROR));
+        return;
+      }
+      if (response.id !== id) return;
+
+      if ('error' in response) {
+        const data = response.error.data as { code?: unknown } | undefined;
+        const code = response.error.code === RPC_ERRORS.COMMAND_FAILED && typeof data?.code === 'number'
+          ? data.code as ErrorCode
+          : response.error.code === RPC_ERRORS.INVALID_PARAMS ? ErrorCode.INVALID_INPUT : ErrorCode.UNKNOWN_ERROR;
+        finish(error(response.error.message, code, { metadata: { rpcCode: response.error.code, data: response.error.data } }));
+      } else {
+        finish(ok(response.result as T));
+      }
+    }));
+
+    socket.once('error', err => {
+      finish(error(`Daemon not reachable at ${socketPath}: ${err.message}`, ErrorCode.TARGET_NOT_FOUND, {
+        recoveryHint: 'user_action',
+        metadata: { socketPath }
+      }));
+    });
+    socket.once('close', () => {
+      finish(error('Daemon closed the connection before replying', ErrorCode.UNKNOWN_ERROR, { recoveryHint: 'retry' }));
+    });
+  });
+}
+
+/**
+ * Whether an invocation may be sent to the daemon
+ *
+ * @param args - CLI arguments without the node and script entries
+ */
+export function isForwardable(args: string[], env: NodeJS.ProcessEnv = process.env): boolean {
+  if (env[NO_DAEMON_ENV_VARIABLE] || args.includes('--no-daemon') ||
+      args.some(arg => LOCAL_GLOBAL_OPTIONS.some(option => arg === option || arg.startsWith(`${option}=`)))) {
+    return false;
+  }
+
+  const path: string[] = [];
+  for (let i = 0; i < args.length && path.length < 2; i++) {
+    const arg = args[i]!;
+    if (arg.startsWith('-')) {
+      if (path.length === 0 && GLOBAL_VALUE_OPTIONS.includes(arg)) i++;
+      if (path.length > 0) break;
+      continue;
+    }
+    path.push(arg);
+  }
+
+  const command = path.join(' ');
+  return path.length > 0 && !LOCAL_COMMANDS.some(local => command === local || command.startsWith(`${local} `));
+}
+
+/**
+ * Environment of an invocation in this process, or undefined when its
+ * configuration does not load (the invocation then runs locally and reports it)
+ */
+export async function loadInvocationEnvironment(options: { profile?: string } = {}): Promise<InvocationEnvironment | undefined> {
+  const loaded = await loadConfiguration(options);
+  return loaded.success ? describeEnvironment(loaded.data.overrides as Record<string, unknown>) : undefined;
+}
+
+/**
+ * Run an invocation in the daemon if one is listening. Resolves to undefined
+ * when the invocation should run locally instead.
+ */
+export async function forwardToDaemon(
+  args: string[],
+  options: DaemonCallOptions = {}
+): Promise<InvocationResult | undefined> {
+  if (!isForwardable(args)) {
+    return undefined;
+  }
+
+  const environment = await loadInvocationEnvironment();
+  if (!environment) {
+    return undefined;
+  }
+
+  const result = await callDaemon<InvocationResult>('cli.run', { argv: args, cwd: process.cwd(), environment }, {
+    connectTimeoutMs: 200,
+    ...options
+  });
+  if (!result.success) {
+    // No daemon (or a stale socket), or a daemon configured differently: run locally
+    if (result.code === ErrorCode.TARGET_NOT_FOUND || result.code === ErrorCode.TIMEOUT ||
+        result.context?.metadata?.rpcCode === RPC_ERRORS.ENVIRONMENT_MISMATCH) {
+      return undefined;
+    }
+    return { exitCode: result.code, stdout: '', stderr: `Daemon error: ${result.error}\n` };
+  }
+  return result.data;
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Wire protocol shared by the daemon server and client
+ *
+ * The daemon speaks JSON-RPC 2.0 over a Unix domain socket, one JSON message per
+ * line in each direction. Besides the command methods (`netlog.dump`,
+ * `tab.list`, ...) it answers:
+ *
+ * - `rpc.discover` - list of methods with their options and arguments
+ * - `cli.run` - run raw CLI arguments and return captured output (used by the thin CLI);
+ *   refused with `ENVIRONMENT_MISMATCH` when the caller's configuration differs from the daemon's
+ * - `daemon.status` - process id, uptime and request count
+ * - `daemon.stop` - shut the daemon down after replying
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+export const SOCKET_ENV_VARIABLE = 'MAC_CHROME_CLI_SOCKET';
+export const NO_DAEMON_ENV_VARIABLE = 'MAC_CHROME_CLI_NO_DAEMON';
+const ENV_PREFIX = 'MAC_CHROME_CLI_';
+
+/**
+ * Standard JSON-RPC error codes, plus `COMMAND_FAILED` for commands that ran and failed
+ */
+export const RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  COMMAND_FAILED: -32000,
+  ENVIRONMENT_MISMATCH: -32001
+} as const;
+
+export type RpcId = string | number | null;
+
+export interface RpcRequest {
+  jsonrpc: '2.0';
+  id?: RpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface RpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type RpcResponse =
+  | { jsonrpc: '2.0'; id: RpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: RpcId; error: RpcError };
+
+/**
+ * Output of one CLI invocation run inside the daemon
+ */
+export interface InvocationResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * What decides how an invocation behaves besides its arguments: the effective
+ * configuration (config files, profile and environment overrides) and the
+ * `MAC_CHROME_CLI_*` variables. The daemon only runs forwarded invocations whose
+ * environment matches its own, since its services were built from its own.
+ */
+export interface InvocationEnvironment {
+  config: Record<string, unknown>;
+  env: Record<string, string>;
+}
+
+/**
+ * Runs CLI arguments (without the node and script entries) and captures the output
+ */
+export type InvocationRunner = (args: string[]) => Promise<InvocationResult>;
+
+export interface DaemonStatus {
+  pid: number;
+  socketPath: string;
+  startedAt: string;
+  uptimeMs: number;
+  requests: number;
+  methods: number;
+}
+
+/**
+ * Socket path: `$MAC_CHROME_CLI_SOCKET`, or a per-user path in the temp directory
+ */
+export function defaultSocketPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env[SOCKET_ENV_VARIABLE]) {
+    return path.resolve(env[SOCKET_ENV_VARIABLE]!);
+  }
+  const user = typeof process.getuid === 'function' ? String(process.getuid()) : (env.USER || 'user');
+  return path.join(tmpdir(), `mac-chrome-cli-${user}`, 'daemon.sock');
+}
+
+/**
+ * Environment of this process for the given effective configuration overrides.
+ * The socket and no-daemon variables only decide whether to forward, so they are left out.
+ */
+export function describeEnvironment(config: Record<string, unknown>, env: NodeJS.ProcessEnv = process.env): InvocationEnvironment {
+  const prefixed: Record<string, string> = {};
+  for (const name of Object.keys(env).sort()) {
+    if (name.startsWith(ENV_PREFIX) && name !== SOCKET_ENV_VARIABLE && name !== NO_DAEMON_ENV_VARIABLE && env[name] !== undefined) {
+      prefixed[name] = env[name]!;
+    }
+  }
+  return { config, env: prefixed };
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Parts of two environments that differ: `config`, `env` or both
+ */
+export function environmentDifferences(a: InvocationEnvironment, b: InvocationEnvironment): Array<keyof InvocationEnvironment> {
+  return (['config', 'env'] as const).filter(part => canonicalJson(a[part]) !== canonicalJson(b[part]));
+}
+
+/**
+ * Split a stream of newline-delimited messages into lines
+ */
+export function createLineReader(onLine: (line: string) => void): (chunk: Buffer | string) => void {
+  let buffered = '';
+  return chunk => {
+    buffered += chunk.toString();
+    let newline = buffered.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+      if (line) onLine(line);
+      newline = buffered.indexOf('\n');
+    }
+  };
+}
+
+export function encodeMessage(message: RpcRequest | RpcResponse): string {
+  return JSON.stringify(message) + '\n';
+}
@@ -0,0 +1,314 @@
+/**
+ * @fileoverview Long-lived JSON-RPC server on a Unix domain socket
+ *
+ * The server keeps one process (and so one service container, cache, rate
+ * limiter and AppleScript cache) alive between invocations. Requests run one
+ * at a time in the caller's working directory, because commands share
+ * process-wide state such as stdout and `process.exitCode`.
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import * as net from 'net';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RPC_ERRORS,
+  createLineReader,
+  encodeMessage,
+  environmentDifferences,
+  type DaemonStatus,
+  type InvocationEnvironment,
+  type InvocationResult,
+  type InvocationRunner,
+  type RpcError,
+  type RpcId,
+  type RpcRequest,
+  type RpcResponse
+} from './DaemonProtocol.js';
+import { buildMethodArgs, type CommandMethod, type CommandMethodOption } from './CommandMethods.js';
+
+export interface DaemonServerOptions {
+  socketPath: string;
+  runner: InvocationRunner;
+  methods: CommandMethod[];
+  globalOptions?: CommandMethodOption[];
+  /** Environment the daemon's services were built from; `cli.run` callers must match it */
+  environment?: InvocationEnvironment;
+}
+
+class RpcFailure extends Error {
+  constructor(readonly rpcError: RpcError) {
+    super(rpcError.message);
+  }
+}
+
+/**
+ * Turn the output of a `--json` invocation into a method result
+ *
+ * @throws {RpcFailure} When the command reported an error
+ */
+export function invocationToMethodResult(invocation: InvocationResult): unknown {
+  const text = (invocation.stdout.trim() || invocation.stderr.trim());
+  let envelope: { success?: unknown; data?: unknown; error?: unknown; code?: unknown } | undefined;
+  try {
+    const parsed = JSON.parse(text);
+    envelope = parsed && typeof parsed === 'object' && typeof parsed.success === 'boolean' ? parsed : undefined;
+  } catch {
+    envelope = undefined;
+  }
+
+  if (envelope?.success === true) {
+    return envelope.data;
+  }
+  if (envelope) {
+    const { success: _success, error, ...details } = envelope;
+    throw new RpcFailure({ code: RPC_ERRORS.COMMAND_FAILED, message: String(error), data: details });
+  }
+  if (invocation.exitCode !== 0) {
+    throw new RpcFailure({
+      code: RPC_ERRORS.COMMAND_FAILED,
+      message: invocation.stderr.trim().split('\n')[0] || `Command exited with code ${invocation.exitCode}`,
+      data: { code: invocation.exitCode, ...invocation }
+    });
+  }
+  return invocation;
+}
+
+export class DaemonServer {
+  private server?: net.Server;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly methods: Map<string, CommandMethod>;
+  private readonly startedAt = new Date();
+  private requests = 0;
+  private readonly sockets = new Set<net.Socket>();
+  private stopped?: Promise<void>;
+  private resolveStopped?: () => void;
+
+  constructor(private readonly options: DaemonServerOptions) {
+    this.methods = new Map(options.methods.map(method => [method.method, method]));
+  }
+
+  /**
+   * Listen on the socket. A stale socket file from a crashed daemon is replaced.
+   *
+   * @throws {Error} When another daemon is already listening
+   */
+  async start(): Promise<void> {
+    const { socketPath } = this.options;
+    fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+
+    if (fs.existsSync(socketPath)) {
+      if (await isSocketListening(socketPath)) {
+        throw new Error(`A daemon is already listening on ${socketPath}`);
+      }
+      fs.unlinkSync(socketPath);
+    }
+
+    const server = net.createServer(socket => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    // Only the owning user may talk to the daemon
+    fs.chmodSync(socketPath, 0o600);
+
+    this.server = server;
+    this.stopped = new Promise(resolve => {
+      this.resolveStopped = resolve;
+    });
+    process.once('exit', () => this.removeSocket());
+  }
+
+  /**
+   * Resolves once the daemon has stopped
+   */
+  waitUntilStopped(): Promise<void> {
+    return this.stopped ?? Promise.resolve();
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await closed;
+    this.removeSocket();
+    this.resolveStopped?.();
+  }
+
+  status(): DaemonStatus {
+    return {
+      pid: process.pid,
+      socketPath: this.options.socketPath,
+      startedAt: this.startedAt.toISOString(),
+      uptimeMs: Date.now() - this.startedAt.getTime(),
+      requests: this.requests,
+      methods: this.methods.size
+    };
+  }
+
+  private removeSocket(): void {
+    try {
+      fs.unlinkSync(this.options.socketPath);
+    } catch {
+      // Already removed
+    }
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('data', createLineReader(line => {
+      void this.handleLine(line).then(({ response, stopAfterReply }) => {
+        if (response && !socket.destroyed) {
+          socket.write(encodeMessage(response));
+        }
+        if (stopAfterReply) {
+          socket.end(() => void this.stop());
+        }
+      });
+    }));
+    // Clients may disconnect before a reply is ready
+    socket.on('error', () => undefined);
+  }
+
+  private async handleLine(line: string): Promise<{ response?: RpcResponse; stopAfterReply?: boolean }> {
+    let request: RpcRequest;
+    try {
+      request = JSON.parse(line) as RpcRequest;
+    } catch {
+      return { response: { jsonrpc: '2.0', id: null, error: { code: RPC_ERRORS.PARSE_ERROR, message: 'Parse error' } } };
+    }
+
+    const id: RpcId = request?.id ?? null;
+    if (!request || request.jsonrpc !== '2.0' || typeof request.method !== 'string' ||
+        (request.params !== undefined && (typeof request.params !== 'object' || request.params === null || Array.isArray(request.params)))) {
+      return {
+        response: {
+          jsonrpc: '2.0',
+          id,
+          error: { code: RPC_ERRORS.INVALID_REQUEST, message: 'Invalid request: expected a JSON-RPC 2.0 object with named params' }
+        }
+      };
+    }
+
+    const stopAfterReply = request.method === 'daemon.stop';
+    let response: RpcResponse;
+    try {
+      response = { jsonrpc: '2.0', id, result: await this.dispatch(request.method, request.params ?? {}) };
+    } catch (err) {
+      const rpcError = err instanceof RpcFailure
+        ? err.rpcError
+        : { code: RPC_ERRORS.INTERNAL_ERROR, message: err instanceof Error ? err.message : String(err) };
+      response = { jsonrpc: '2.0', id, error: rpcError };
+    }
+
+    // Notifications (no id) get no reply
+    return { ...(request.id !== undefined && { response }), stopAfterReply };
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'rpc.discover':
+        return { methods: Array.from(this.methods.values()), globalOptions: this.options.globalOptions ?? [] };
+      case 'daemon.status':
+        return this.status();
+      case 'daemon.stop':
+        return { stopping: true, pid: process.pid };
+      case 'cli.run': {
+        const { argv, cwd, environment } = params as { argv?: unknown; cwd?: unknown; environment?: unknown };
+        if (!Array.isArray(argv) || argv.some(arg => typeof arg !== 'string')) {
+          throw new RpcFailure({ code: RPC_ERRORS.INVALID_PARAMS, message: 'cli.run needs argv: string[]' });
+        }
+        this.checkEnvironment(environment);
+        return this.run(argv as string[], typeof cwd === 'string' ? cwd : undefined);
+      }
+    }
+
+    const command = this.methods.get(method);
+    if (!command) {
+      throw new RpcFailure({ code: RPC_ERRORS.METHOD_NOT_FOUND, message: `Method not found: ${method}` });
+    }
+
+    const { cwd, ...commandParams } = params;
+    const args = buildMethodArgs(command, commandParams, this.options.globalOptions);
+    if (!args.success) {
+      throw new RpcFailure({ code: RPC_ERRORS.INVALID_PARAMS, message: args.error });
+    }
+    const invocation = await this.run(['--json', ...args.data], typeof cwd === 'string' ? cwd : undefined);
+    return invocationToMethodResult(invocation);
+  }
+
+  /**
+   * Refuse a caller whose configuration or `MAC_CHROME_CLI_*` variables differ
+   * from the daemon's; the thin CLI then runs the invocation itself
+   *
+   * @throws {RpcFailure} When the environments differ
+   */
+  private checkEnvironment(environment: unknown): void {
+    if (environment === undefined || !this.options.environment) {
+      return;
+    }
+    const caller = environment as Partial<InvocationEnvironment> | null;
+    if (!caller || typeof caller.config !== 'object' || caller.config === null || typeof caller.env !== 'object' || caller.env === null) {
+      throw new RpcFailure({ code: RPC_ERRORS.INVALID_PARAMS, message: 'cli.run environment needs config and env objects' });
+    }
+    const differences = environmentDifferences(caller as InvocationEnvironment, this.options.environment);
+    if (differences.length > 0) {
+      throw new RpcFailure({
+        code: RPC_ERRORS.ENVIRONMENT_MISMATCH,
+        message: `Caller ${differences.join(' and ')} differ from the daemon's`,
+        data: { differences }
+      });
+    }
+  }
+
+  /**
+   * Run one invocation after any in flight, in the caller's working directory
+   */
+  private run(args: string[], cwd?: string): Promise<InvocationResult> {
+    const task = this.queue.then(async () => {
+      this.requests++;
+      const previousCwd = process.cwd();
+      try {
+        if (cwd) process.chdir(cwd);
+        return await this.options.runner(args);
+      } finally {
+        process.chdir(previousCwd);
+      }
+    });
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+}
+
+/**
+ * Check whether something accepts connections on the socket
+ */
+export function isSocketListening(socketPath: string, timeoutMs = 500): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = net.connect(socketPath);
+    const timer = setTimeout(() => {
+      socket.destroy();
+      resolve(false);
+    }, timeoutMs);
+    socket.once('connect', () => {
+      clearTimeout(timer);
+      socket.end();
+      resolve(true);
+    });
+    socket.once('error', () => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Capture console output and exit code of an in-process invocation
+ *
+ * Commands print through `console.*` and `process.stdout`/`process.stderr` and
+ * report failure through `process.exitCode`. While an invocation runs inside
+ * the daemon these are redirected into buffers and restored afterwards.
+ * Invocations must not overlap.
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { format } from 'util';
+import type { InvocationResult } from './DaemonProtocol.js';
+
+export async function captureInvocation(run: () => Promise<void>): Promise<InvocationResult> {
+  let stdout = '';
+  let stderr = '';
+
+  const originalConsole = {
+    log: console.log,
+    info: console.info,
+    debug: console.debug,
+    warn: console.warn,
+    error: console.error
+  };
+  const originalStdoutWrite = process.stdout.write;
+  const originalStderrWrite = process.stderr.write;
+  const previousExitCode = process.exitCode;
+
+  const toStdout = (...args: unknown[]) => { stdout += format(...args) + '\n'; };
+  const toStderr = (...args: unknown[]) => { stderr += format(...args) + '\n'; };
+  const writer = (append: (text: string) => void) => ((chunk: string | Uint8Array, ...rest: unknown[]) => {
+    append(typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString('utf8'));
+    const callback = rest.find(arg => typeof arg === 'function') as (() => void) | undefined;
+    callback?.();
+    return true;
+  }) as typeof process.stdout.write;
+
+  console.log = toStdout;
+  console.info = toStdout;
+  console.debug = toStdout;
+  console.warn = toStderr;
+  console.error = toStderr;
+  process.stdout.write = writer(text => { stdout += text; });
+  process.stderr.write = writer(text => { stderr += text; });
+  process.exitCode = undefined;
+
+  try {
+    await run();
+  } catch (err) {
+    stderr += `${err instanceof Error ? err.message : String(err)}\n`;
+    process.exitCode = process.exitCode || 1;
+  } finally {
+    Object.assign(console, originalConsole);
+    process.stdout.write = originalStdoutWrite;
+    process.stderr.write = originalStderrWrite;
+  }
+
+  const exitCode = Number(process.exitCode ?? 0);
+  process.exitCode = previousExitCode;
+  return { exitCode, stdout, stderr };
+}
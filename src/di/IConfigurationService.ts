@@ -3,7 +3,11 @@
  * Provides application configuration management
  */
 
+import type { RedactionPolicyConfig } from '../security/RedactionPolicy.js';
+
 export interface GlobalConfiguration {
+  /** Output results as JSON unless overridden on the command line */
+  json: boolean;
   timeout: number;
   previewMaxBytes: number;
   cacheEnabled: boolean;
@@ -28,6 +32,8 @@ export interface GlobalConfiguration {
     enableJson: boolean;
     enablePerformanceLogging: boolean;
   };
+  /** Network data redaction policy; lists extend the built-in defaults */
+  redaction: RedactionPolicyConfig;
 }
 
 export interface IConfigurationService {
@@ -9,21 +9,24 @@ import { SERVICE_TOKENS } from './ServiceTokens.js';
 // Service implementations
 import { AppleScriptService } from '../services/AppleScriptService.js';
 import { NetworkDataSanitizer } from '../security/DataSanitizer.js';
+import { validateRedactionPolicy } from '../security/RedactionPolicy.js';
 import { SecurePathValidator } from '../security/PathValidator.js';
 import { CacheService } from './services/CacheService.js';
 import { PerformanceService } from './services/PerformanceService.js';
 import { LoggerService } from './services/LoggerService.js';
 import { ConfigurationService } from './services/ConfigurationService.js';
+import type { GlobalConfiguration } from './IConfigurationService.js';
 import { RateLimiterService } from './services/RateLimiterService.js';
 
 /**
  * Register all application services with the container
+ * @param configuration - Resolved configuration (see loadConfiguration); defaults when omitted
  */
-export async function registerServices(container: IServiceContainer): Promise<void> {
+export async function registerServices(container: IServiceContainer, configuration?: GlobalConfiguration): Promise<void> {
   // Configuration service - foundation service (no dependencies)
   container.registerSingleton(
     SERVICE_TOKENS.ConfigurationService,
-    () => new ConfigurationService()
+    () => new ConfigurationService(configuration)
   );
 
   // Logger service - depends on configuration
@@ -94,12 +97,26 @@ export async function registerServices(container: IServiceContainer): Promise<vo
     [SERVICE_TOKENS.ConfigurationService]
   );
 
-  // Security services - no dependencies
+  // Data sanitizer - depends on configuration for the redaction policy
   container.registerSingleton(
     SERVICE_TOKENS.DataSanitizer,
-    () => new NetworkDataSanitizer()
+    async (serviceContainer) => {
+      const configResult = await serviceContainer.resolve(SERVICE_TOKENS.ConfigurationService);
+      if (!configResult.success) {
+        throw new Error(`Failed to resolve ConfigurationService: ${configResult.error}`);
+      }
+
+      const policyResult = validateRedactionPolicy(configResult.data.get('redaction'));
+      if (!policyResult.success) {
+        throw new Error(`Invalid redaction policy: ${policyResult.error}`);
+      }
+      return new NetworkDataSanitizer(policyResult.data);
+    },
+    [SERVICE_TOKENS.ConfigurationService]
   );
 
+  // Security services - no dependencies
+
   container.registerSingleton(
     SERVICE_TOKENS.PathValidator,
     () => new SecurePathValidator()
@@ -158,9 +175,9 @@ function getLogLevel(level?: string): number {
 /**
  * Get a configured service container with all services registered
  */
-export async function createServiceContainer(): Promise<IServiceContainer> {
+export async function createServiceContainer(configuration?: GlobalConfiguration): Promise<IServiceContainer> {
   const { ServiceContainer } = await import('./ServiceContainer.js');
   const container = new ServiceContainer();
-  await registerServices(container);
+  await registerServices(container, configuration);
   return container;
 }
@@ -0,0 +1,133 @@
+/**
+ * Configuration Loader Tests
+ * Tests for config file discovery, profiles, environment overrides and schema validation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfiguration, writeConfigValue, validateConfigFile, readEnvOverrides } from '../services/ConfigurationLoader.js';
+import { parseConfigValue, envVariableForKey } from '../services/ConfigurationSchema.js';
+import { ErrorCode } from '../../core/ErrorCodes.js';
+
+describe('ConfigurationLoader', () => {
+  let root: string;
+  let home: string;
+  let project: string;
+
+  const userFile = () => join(home, '.config', 'mac-chrome-cli', 'config.json');
+
+  function write(filePath: string, content: unknown): void {
+    mkdirSync(join(filePath, '..'), { recursive: true });
+    writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'config-loader-'));
+    home = join(root, 'home');
+    project = join(root, 'project', 'packages', 'app');
+    mkdirSync(project, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should return defaults when no files exist', async () => {
+    const result = await loadConfiguration({ cwd: project, homeDir: home, env: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.config.timeout).toBe(30000);
+    expect(result.data!.overrides).toEqual({});
+    expect(result.data!.projectPath).toBeUndefined();
+  });
+
+  it('should layer user file, project file, profiles and environment', async () => {
+    write(userFile(), {
+      timeout: 45000,
+      networkMonitoring: { maxEvents: 200 },
+      profiles: { ci: { json: true, timeout: 90000 } }
+    });
+    write(join(root, 'project', '.macchromerc'), {
+      timeout: 60000,
+      defaultProfile: 'ci',
+      profiles: { ci: { logging: { level: 'WARN' } } }
+    });
+
+    const result = await loadConfiguration({
+      cwd: project,
+      homeDir: home,
+      env: { MAC_CHROME_CLI_NETWORK_MONITORING__BODY_PREVIEW_LIMIT: '4096' }
+    });
+
+    expect(result.success).toBe(true);
+    const { config, profile, layers, projectPath } = result.data!;
+    expect(profile).toBe('ci');
+    expect(projectPath).toBe(join(root, 'project', '.macchromerc'));
+    expect(config).toMatchObject({
+      json: true,
+      timeout: 90000,
+      networkMonitoring: { maxEvents: 200, bodyPreviewLimit: 4096, includeHeaders: true },
+      logging: { level: 'WARN', enableConsole: true }
+    });
+    expect(layers.map(layer => `${layer.source}${layer.profile ? `:${layer.profile}` : ''}`)).toEqual([
+      'defaults', 'user', 'project', 'user:ci', 'project:ci', 'env'
+    ]);
+  });
+
+  it('should prefer --profile over the environment and defaultProfile', async () => {
+    write(userFile(), { defaultProfile: 'a', profiles: { a: { timeout: 1000 }, b: { timeout: 2000 }, c: { timeout: 3000 } } });
+
+    const fromFlag = await loadConfiguration({ cwd: project, homeDir: home, profile: 'b', env: { MAC_CHROME_CLI_PROFILE: 'c' } });
+    const fromEnv = await loadConfiguration({ cwd: project, homeDir: home, env: { MAC_CHROME_CLI_PROFILE: 'c' } });
+
+    expect(fromFlag.data!.config.timeout).toBe(2000);
+    expect(fromEnv.data!.config.timeout).toBe(3000);
+  });
+
+  it('should reject unknown profiles, invalid files and invalid environment values', async () => {
+    write(userFile(), { profiles: { ci: {} } });
+    const unknown = await loadConfiguration({ cwd: project, homeDir: home, profile: 'prod', env: {} });
+    expect(unknown.code).toBe(ErrorCode.INVALID_INPUT);
+    expect(unknown.error).toContain('available: ci');
+
+    write(userFile(), { timeout: 'slow', bogus: 1 });
+    const invalid = await loadConfiguration({ cwd: project, homeDir: home, env: {} });
+    expect(invalid.code).toBe(ErrorCode.VALIDATION_FAILED);
+    expect(invalid.error).toContain('timeout must be a number');
+    expect(invalid.error).toContain('bogus is not a known configuration key');
+
+    write(userFile(), '{ not json');
+    expect((await loadConfiguration({ cwd: project, homeDir: home, env: {} })).code).toBe(ErrorCode.INVALID_JSON);
+
+    expect(readEnvOverrides({ MAC_CHROME_CLI_JSON: 'maybe' }).code).toBe(ErrorCode.INVALID_INPUT);
+  });
+
+  it('should write values into files and profiles and refuse invalid ones', async () => {
+    const file = join(root, 'out', '.macchromerc');
+
+    expect((await writeConfigValue(file, 'networkMonitoring.maxEvents', 500)).success).toBe(true);
+    expect((await writeConfigValue(file, 'json', true, 'ci')).success).toBe(true);
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({
+      networkMonitoring: { maxEvents: 500 },
+      profiles: { ci: { json: true } }
+    });
+
+    const invalid = await writeConfigValue(file, 'timeout', 5);
+    expect(invalid.code).toBe(ErrorCode.VALIDATION_FAILED);
+  });
+
+  it('should validate profiles and parse typed values', () => {
+    expect(validateConfigFile({ profiles: { ci: { logging: { level: 'LOUD' } } } })).toEqual([
+      { path: 'profiles.ci.logging.level', message: 'must be one of DEBUG, INFO, WARN, ERROR' }
+    ]);
+    expect(validateConfigFile({ redaction: { jsonPaths: ['nope'] } })[0]?.path).toBe('redaction');
+
+    expect(parseConfigValue('cacheEnabled', 'off')).toBe(false);
+    expect(parseConfigValue('timeout', '1500')).toBe(1500);
+    expect(parseConfigValue('redaction', '{"headers":["x-a"]}')).toEqual({ headers: ['x-a'] });
+    expect(() => parseConfigValue('nope', '1')).toThrow('Unknown configuration key');
+    expect(envVariableForKey('previewMaxBytes')).toBe('MAC_CHROME_CLI_PREVIEW_MAX_BYTES');
+  });
+});
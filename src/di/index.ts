@@ -29,7 +29,26 @@ export type { IConfigurationService, GlobalConfiguration } from './IConfiguratio
 export { CacheService } from './services/CacheService.js';
 export { PerformanceService } from './services/PerformanceService.js';
 export { LoggerService } from './services/LoggerService.js';
-export { ConfigurationService } from './services/ConfigurationService.js';
+export { ConfigurationService, DEFAULT_CONFIGURATION } from './services/ConfigurationService.js';
+export {
+  loadConfiguration,
+  writeConfigValue,
+  userConfigPath,
+  findProjectConfig,
+  validateConfigFile,
+  PROJECT_CONFIG_FILENAME,
+  type ConfigFile,
+  type ConfigLayer,
+  type LoadedConfiguration
+} from './services/ConfigurationLoader.js';
+export {
+  CONFIGURATION_SCHEMA,
+  validateConfiguration,
+  parseConfigValue,
+  envVariableForKey,
+  type PartialConfiguration,
+  type ConfigValidationIssue
+} from './services/ConfigurationSchema.js';
 
 // Service registry
 export { registerServices, createServiceContainer } from './ServiceRegistry.js';
@@ -0,0 +1,322 @@
+/**
+ * Configuration Loader
+ * Discovers config files, selects a profile and applies environment overrides
+ *
+ * Layers, lowest precedence first:
+ * 1. Built-in defaults
+ * 2. User file: `$XDG_CONFIG_HOME/mac-chrome-cli/config.json` (default `~/.config/...`)
+ * 3. Project file: the nearest `.macchromerc` in the working directory or its parents
+ * 4. The selected profile from the user file, then from the project file
+ * 5. `MAC_CHROME_CLI_*` environment variables
+ *
+ * Command-line flags override all of these. The profile comes from `--profile`,
+ * then `MAC_CHROME_CLI_PROFILE`, then `defaultProfile` in the project or user file.
+ */
+
+import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import * as path from 'path';
+import { Result, ok, error } from '../../core/Result.js';
+import { ErrorCode } from '../../core/ErrorCodes.js';
+import type { GlobalConfiguration } from '../IConfigurationService.js';
+import { DEFAULT_CONFIGURATION } from './ConfigurationService.js';
+import {
+  ENV_PREFIX,
+  envVariableForKey,
+  getSchemaNode,
+  listConfigurationKeys,
+  parseConfigValue,
+  validateConfiguration,
+  type ConfigValidationIssue,
+  type PartialConfiguration
+} from './ConfigurationSchema.js';
+
+export const PROJECT_CONFIG_FILENAME = '.macchromerc';
+export const PROFILE_ENV_VARIABLE = `${ENV_PREFIX}PROFILE`;
+
+/**
+ * Contents of a config file: top-level settings plus optional named profiles
+ */
+export interface ConfigFile extends PartialConfiguration {
+  defaultProfile?: string;
+  profiles?: Record<string, PartialConfiguration>;
+}
+
+export type ConfigLayerSource = 'defaults' | 'user' | 'project' | 'env';
+
+export interface ConfigLayer {
+  source: ConfigLayerSource;
+  path?: string;
+  profile?: string;
+  values: PartialConfiguration;
+}
+
+export interface ConfigDiscoveryOptions {
+  /** Profile requested on the command line */
+  profile?: string;
+  cwd?: string;
+  homeDir?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface LoadedConfiguration {
+  config: GlobalConfiguration;
+  /** Everything set by files, profiles and the environment (no defaults) */
+  overrides: PartialConfiguration;
+  layers: ConfigLayer[];
+  profile?: string;
+  userPath: string;
+  projectPath?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge objects key by key; arrays and scalars from `source` replace those in `target`
+ */
+export function mergeConfiguration<T>(target: T, source: unknown): T {
+  if (!isPlainObject(target) || !isPlainObject(source)) {
+    return (source === undefined ? target : source) as T;
+  }
+  const merged: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    merged[key] = isPlainObject(merged[key]) && isPlainObject(value)
+      ? mergeConfiguration(merged[key], value)
+      : value;
+  }
+  return merged as T;
+}
+
+export function userConfigPath(options: ConfigDiscoveryOptions = {}): string {
+  const env = options.env ?? process.env;
+  const base = env.XDG_CONFIG_HOME || path.join(options.homeDir ?? homedir(), '.config');
+  return path.join(base, 'mac-chrome-cli', 'config.json');
+}
+
+/**
+ * Find the nearest `.macchromerc` walking up from `cwd`
+ */
+export function findProjectConfig(cwd: string = process.cwd()): string | undefined {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILENAME);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Check a config file's settings, `defaultProfile` and every profile against the schema
+ */
+export function validateConfigFile(content: unknown): ConfigValidationIssue[] {
+  if (!isPlainObject(content)) {
+    return [{ path: '(root)', message: 'must be an object' }];
+  }
+
+  const { profiles, defaultProfile, ...settings } = content;
+  const issues = validateConfiguration(settings);
+
+  if (defaultProfile !== undefined && typeof defaultProfile !== 'string') {
+    issues.push({ path: 'defaultProfile', message: 'must be a string' });
+  }
+  if (profiles !== undefined) {
+    if (!isPlainObject(profiles)) {
+      issues.push({ path: 'profiles', message: 'must be an object of named profiles' });
+    } else {
+      for (const [name, profile] of Object.entries(profiles)) {
+        issues.push(...validateConfiguration(profile).map(issue => ({
+          path: issue.path === '(root)' ? `profiles.${name}` : `profiles.${name}.${issue.path}`,
+          message: issue.message
+        })));
+      }
+    }
+  }
+  return issues;
+}
+
+export function formatValidationIssues(issues: ConfigValidationIssue[]): string {
+  return issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+}
+
+/**
+ * Read a config file without validating it. A missing file yields `undefined`.
+ */
+export async function readConfigFile(filePath: string): Promise<Result<ConfigFile | undefined, string>> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return ok(undefined);
+    }
+    return error(`Failed to read config file ${filePath}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_READ_ERROR, {
+      recoveryHint: 'permission',
+      metadata: { path: filePath }
+    });
+  }
+
+  try {
+    return ok(JSON.parse(content) as ConfigFile);
+  } catch (err) {
+    return error(`Invalid JSON in config file ${filePath}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.INVALID_JSON, {
+      recoveryHint: 'user_action',
+      metadata: { path: filePath }
+    });
+  }
+}
+
+async function loadConfigFile(filePath: string): Promise<Result<ConfigFile | undefined, string>> {
+  const result = await readConfigFile(filePath);
+  if (!result.success || result.data === undefined) {
+    return result;
+  }
+
+  const issues = validateConfigFile(result.data);
+  if (issues.length > 0) {
+    return error(`Invalid config file ${filePath}: ${formatValidationIssues(issues)}`, ErrorCode.VALIDATION_FAILED, {
+      recoveryHint: 'user_action',
+      metadata: { path: filePath, issues }
+    });
+  }
+  return result;
+}
+
+/**
+ * Collect `MAC_CHROME_CLI_*` overrides, e.g. `MAC_CHROME_CLI_TIMEOUT=60000`
+ */
+export function readEnvOverrides(env: NodeJS.ProcessEnv = process.env): Result<PartialConfiguration, string> {
+  let overrides: PartialConfiguration = {};
+
+  for (const keyPath of listConfigurationKeys()) {
+    const name = envVariableForKey(keyPath);
+    const raw = env[name];
+    if (raw === undefined || raw === '') continue;
+
+    let value: unknown;
+    try {
+      value = parseConfigValue(keyPath, raw);
+    } catch (err) {
+      return error(`${name}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.INVALID_INPUT, {
+        recoveryHint: 'user_action'
+      });
+    }
+
+    const issues = validateConfiguration(value, getSchemaNode(keyPath)!, keyPath);
+    if (issues.length > 0) {
+      return error(`${name}: ${formatValidationIssues(issues)}`, ErrorCode.VALIDATION_FAILED, {
+        recoveryHint: 'user_action'
+      });
+    }
+    overrides = mergeConfiguration(overrides, keyPath.split('.').reduceRight<unknown>((acc, key) => ({ [key]: acc }), value));
+  }
+
+  return ok(overrides);
+}
+
+/**
+ * Resolve the effective configuration from defaults, config files, the selected profile and the environment
+ */
+export async function loadConfiguration(options: ConfigDiscoveryOptions = {}): Promise<Result<LoadedConfiguration, string>> {
+  const env = options.env ?? process.env;
+  const userPath = userConfigPath(options);
+  const projectPath = findProjectConfig(options.cwd);
+
+  const userFile = await loadConfigFile(userPath);
+  if (!userFile.success) {
+    return error(userFile.error, userFile.code, userFile.context);
+  }
+  const projectFile = projectPath ? await loadConfigFile(projectPath) : ok(undefined);
+  if (!projectFile.success) {
+    return error(projectFile.error, projectFile.code, projectFile.context);
+  }
+
+  const files: Array<{ source: 'user' | 'project'; path: string; content: ConfigFile }> = [];
+  if (userFile.data) files.push({ source: 'user', path: userPath, content: userFile.data });
+  if (projectFile.data && projectPath) files.push({ source: 'project', path: projectPath, content: projectFile.data });
+
+  const profile = options.profile || env[PROFILE_ENV_VARIABLE] || projectFile.data?.defaultProfile || userFile.data?.defaultProfile;
+
+  const layers: ConfigLayer[] = [{ source: 'defaults', values: DEFAULT_CONFIGURATION }];
+  for (const file of files) {
+    const { profiles: _profiles, defaultProfile: _defaultProfile, ...settings } = file.content;
+    layers.push({ source: file.source, path: file.path, values: settings });
+  }
+
+  if (profile) {
+    const withProfile = files.filter(file => file.content.profiles && Object.prototype.hasOwnProperty.call(file.content.profiles, profile));
+    if (withProfile.length === 0) {
+      const available = Array.from(new Set(files.flatMap(file => Object.keys(file.content.profiles || {}))));
+      return error(
+        `Unknown configuration profile "${profile}"${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`,
+        ErrorCode.INVALID_INPUT,
+        { recoveryHint: 'user_action', metadata: { profile, available } }
+      );
+    }
+    for (const file of withProfile) {
+      layers.push({ source: file.source, path: file.path, profile, values: file.content.profiles![profile]! });
+    }
+  }
+
+  const envOverrides = readEnvOverrides(env);
+  if (!envOverrides.success) {
+    return error(envOverrides.error, envOverrides.code, envOverrides.context);
+  }
+  if (Object.keys(envOverrides.data).length > 0) {
+    layers.push({ source: 'env', values: envOverrides.data });
+  }
+
+  const overrides = layers.slice(1).reduce<PartialConfiguration>((acc, layer) => mergeConfiguration(acc, layer.values), {});
+  const config = mergeConfiguration(structuredClone(DEFAULT_CONFIGURATION), overrides);
+
+  return ok({ config, overrides, layers, ...(profile && { profile }), userPath, ...(projectPath && { projectPath }) });
+}
+
+/**
+ * Set one key in a config file, creating the file if needed. With `profile`
+ * the value goes into that profile instead of the top-level settings.
+ */
+export async function writeConfigValue(
+  filePath: string,
+  keyPath: string,
+  value: unknown,
+  profile?: string
+): Promise<Result<ConfigFile, string>> {
+  const existing = await readConfigFile(filePath);
+  if (!existing.success) {
+    return error(existing.error, existing.code, existing.context);
+  }
+
+  const nested = keyPath.split('.').reduceRight<unknown>((acc, key) => ({ [key]: acc }), value);
+  const content: ConfigFile = existing.data ?? {};
+  const updated: ConfigFile = profile
+    ? { ...content, profiles: { ...content.profiles, [profile]: mergeConfiguration(content.profiles?.[profile] ?? {}, nested) } }
+    : mergeConfiguration(content, nested);
+
+  const issues = validateConfigFile(updated);
+  if (issues.length > 0) {
+    return error(`Refusing to write invalid configuration: ${formatValidationIssues(issues)}`, ErrorCode.VALIDATION_FAILED, {
+      recoveryHint: 'user_action',
+      metadata: { path: filePath, issues }
+    });
+  }
+
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(updated, null, 2) + '\n', 'utf-8');
+  } catch (err) {
+    return error(`Failed to write config file ${filePath}: ${err instanceof Error ? err.message : String(err)}`, ErrorCode.FILE_WRITE_ERROR, {
+      recoveryHint: 'permission',
+      metadata: { path: filePath }
+    });
+  }
+  return ok(updated);
+}
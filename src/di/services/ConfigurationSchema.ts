@@ -0,0 +1,216 @@
+/**
+ * Configuration Schema
+ * Describes every GlobalConfiguration key for validation, `config set` value
+ * parsing and environment variable overrides
+ */
+
+import type { GlobalConfiguration } from '../IConfigurationService.js';
+import { validateRedactionPolicy } from '../../security/RedactionPolicy.js';
+
+export type ConfigSchemaNode =
+  | { type: 'number'; description: string; integer?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; description: string }
+  | { type: 'string'; description: string; enum?: readonly string[] }
+  | { type: 'object'; description: string; properties: Record<string, ConfigSchemaNode> }
+  | { type: 'json'; description: string; validate: (value: unknown) => string | undefined };
+
+/**
+ * Configuration as written in files: any subset of the keys, at any depth
+ */
+export type PartialConfiguration = {
+  [K in keyof GlobalConfiguration]?: GlobalConfiguration[K] extends Record<string, unknown>
+    ? Partial<GlobalConfiguration[K]>
+    : GlobalConfiguration[K];
+};
+
+export interface ConfigValidationIssue {
+  path: string;
+  message: string;
+}
+
+export const ENV_PREFIX = 'MAC_CHROME_CLI_';
+
+export const CONFIGURATION_SCHEMA: ConfigSchemaNode = {
+  type: 'object',
+  description: 'mac-chrome-cli configuration',
+  properties: {
+    json: { type: 'boolean', description: 'Output results as JSON (same as --json)' },
+    timeout: { type: 'number', integer: true, min: 100, max: 600000, description: 'Default command timeout in milliseconds' },
+    previewMaxBytes: { type: 'number', integer: true, min: 1, description: 'Maximum preview size in bytes (same as --preview-max)' },
+    cacheEnabled: { type: 'boolean', description: 'Cache command results' },
+    cacheTTL: { type: 'number', integer: true, min: 0, description: 'Cache entry lifetime in milliseconds' },
+    maxCacheSize: { type: 'number', integer: true, min: 0, description: 'Maximum cached entries' },
+    networkMonitoring: {
+      type: 'object',
+      description: 'Network monitoring defaults',
+      properties: {
+        maxEvents: { type: 'number', integer: true, min: 1, max: 10000, description: 'Maximum captured events' },
+        bodyPreviewLimit: { type: 'number', integer: true, min: 0, description: 'Body preview size in bytes' },
+        includeHeaders: { type: 'boolean', description: 'Capture request and response headers' },
+        includeBodies: { type: 'boolean', description: 'Capture request and response bodies' }
+      }
+    },
+    performance: {
+      type: 'object',
+      description: 'Performance tracking',
+      properties: {
+        benchmarkEnabled: { type: 'boolean', description: 'Record command benchmarks' },
+        maxBenchmarks: { type: 'number', integer: true, min: 1, description: 'Maximum stored benchmarks' }
+      }
+    },
+    logging: {
+      type: 'object',
+      description: 'Logging',
+      properties: {
+        level: { type: 'string', enum: ['DEBUG', 'INFO', 'WARN', 'ERROR'], description: 'Minimum log level' },
+        enableConsole: { type: 'boolean', description: 'Log to the console' },
+        enableFile: { type: 'boolean', description: 'Log to a file' },
+        maxEntries: { type: 'number', integer: true, min: 1, description: 'Maximum in-memory log entries' },
+        enableCorrelationIds: { type: 'boolean', description: 'Tag log entries with correlation ids' },
+        enableJson: { type: 'boolean', description: 'Write log entries as JSON' },
+        enablePerformanceLogging: { type: 'boolean', description: 'Log operation timings' }
+      }
+    },
+    redaction: {
+      type: 'json',
+      description: 'Network data redaction policy',
+      validate: value => {
+        const result = validateRedactionPolicy(value);
+        return result.success ? undefined : result.error;
+      }
+    }
+  }
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Find the schema node for a dot-separated key path
+ */
+export function getSchemaNode(keyPath: string): ConfigSchemaNode | undefined {
+  let node: ConfigSchemaNode | undefined = CONFIGURATION_SCHEMA;
+  for (const key of keyPath.split('.')) {
+    if (!node || node.type !== 'object' || !Object.prototype.hasOwnProperty.call(node.properties, key)) {
+      return undefined;
+    }
+    node = node.properties[key];
+  }
+  return node;
+}
+
+/**
+ * List every settable key path, e.g. `networkMonitoring.maxEvents`
+ */
+export function listConfigurationKeys(node: ConfigSchemaNode = CONFIGURATION_SCHEMA, prefix = ''): string[] {
+  if (node.type !== 'object') {
+    return [prefix];
+  }
+  return Object.entries(node.properties).flatMap(([key, child]) =>
+    listConfigurationKeys(child, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+/**
+ * Validate a (partial) configuration object. Missing keys are allowed; unknown keys are not.
+ */
+export function validateConfiguration(
+  value: unknown,
+  node: ConfigSchemaNode = CONFIGURATION_SCHEMA,
+  path = ''
+): ConfigValidationIssue[] {
+  const at = path || '(root)';
+
+  switch (node.type) {
+    case 'object': {
+      if (!isPlainObject(value)) {
+        return [{ path: at, message: 'must be an object' }];
+      }
+      return Object.entries(value).flatMap(([key, child]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        const childNode = node.properties[key];
+        if (!Object.prototype.hasOwnProperty.call(node.properties, key) || !childNode) {
+          return [{ path: childPath, message: 'is not a known configuration key' }];
+        }
+        return validateConfiguration(child, childNode, childPath);
+      });
+    }
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ path: at, message: 'must be a number' }];
+      }
+      if (node.integer && !Number.isInteger(value)) {
+        return [{ path: at, message: 'must be an integer' }];
+      }
+      if (node.min !== undefined && value < node.min) {
+        return [{ path: at, message: `must be at least ${node.min}` }];
+      }
+      if (node.max !== undefined && value > node.max) {
+        return [{ path: at, message: `must be at most ${node.max}` }];
+      }
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path: at, message: 'must be true or false' }];
+    case 'string':
+      if (typeof value !== 'string') {
+        return [{ path: at, message: 'must be a string' }];
+      }
+      if (node.enum && !node.enum.includes(value.toUpperCase())) {
+        return [{ path: at, message: `must be one of ${node.enum.join(', ')}` }];
+      }
+      return [];
+    case 'json': {
+      const message = node.validate(value);
+      return message ? [{ path: at, message }] : [];
+    }
+  }
+}
+
+/**
+ * Parse a command-line or environment string into the type a key expects
+ *
+ * @throws {Error} When the key is unknown or the value cannot be parsed
+ */
+export function parseConfigValue(keyPath: string, raw: string): unknown {
+  const node = getSchemaNode(keyPath);
+  if (!node) {
+    throw new Error(`Unknown configuration key: ${keyPath}`);
+  }
+
+  switch (node.type) {
+    case 'number': {
+      const value = Number(raw.trim());
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new Error(`${keyPath} must be a number, got "${raw}"`);
+      }
+      return value;
+    }
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase();
+      if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+      if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+      throw new Error(`${keyPath} must be true or false, got "${raw}"`);
+    }
+    case 'string':
+      return raw;
+    case 'object':
+    case 'json':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error(`${keyPath} must be JSON, got "${raw}"`);
+      }
+  }
+}
+
+/**
+ * Environment variable that overrides a key: `networkMonitoring.maxEvents` is
+ * `MAC_CHROME_CLI_NETWORK_MONITORING__MAX_EVENTS`
+ */
+export function envVariableForKey(keyPath: string): string {
+  return ENV_PREFIX + keyPath
+    .split('.')
+    .map(part => part.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase())
+    .join('__');
+}
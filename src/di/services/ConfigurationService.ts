@@ -7,37 +7,44 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { IConfigurationService, GlobalConfiguration } from '../IConfigurationService.js';
 
+/**
+ * Built-in defaults, overridden by config files, profiles and environment variables
+ */
+export const DEFAULT_CONFIGURATION: GlobalConfiguration = {
+  json: false,
+  timeout: 30000,
+  previewMaxBytes: 1572864, // 1.5MB
+  cacheEnabled: true,
+  cacheTTL: 900000, // 15 minutes
+  maxCacheSize: 100,
+  networkMonitoring: {
+    maxEvents: 100,
+    bodyPreviewLimit: 2048,
+    includeHeaders: true,
+    includeBodies: false
+  },
+  performance: {
+    benchmarkEnabled: true,
+    maxBenchmarks: 1000
+  },
+  logging: {
+    level: 'INFO',
+    enableConsole: true,
+    enableFile: false,
+    maxEntries: 1000,
+    enableCorrelationIds: true,
+    enableJson: false,
+    enablePerformanceLogging: true
+  },
+  redaction: {}
+};
+
 export class ConfigurationService implements IConfigurationService {
   private config: GlobalConfiguration;
-  private readonly defaultConfig: GlobalConfiguration = {
-    timeout: 30000,
-    previewMaxBytes: 1572864, // 1.5MB
-    cacheEnabled: true,
-    cacheTTL: 900000, // 15 minutes
-    maxCacheSize: 100,
-    networkMonitoring: {
-      maxEvents: 100,
-      bodyPreviewLimit: 2048,
-      includeHeaders: true,
-      includeBodies: false
-    },
-    performance: {
-      benchmarkEnabled: true,
-      maxBenchmarks: 1000
-    },
-    logging: {
-      level: 'INFO',
-      enableConsole: true,
-      enableFile: false,
-      maxEntries: 1000,
-      enableCorrelationIds: true,
-      enableJson: false,
-      enablePerformanceLogging: true
-    }
-  };
+  private readonly defaultConfig: GlobalConfiguration = DEFAULT_CONFIGURATION;
 
   constructor(initialConfig?: Partial<GlobalConfiguration>) {
-    this.config = { ...this.defaultConfig, ...initialConfig };
+    this.config = structuredClone({ ...this.defaultConfig, ...initialConfig });
   }
 
   /**
@@ -100,7 +107,7 @@ export class ConfigurationService implements IConfigurationService {
    * Reset to default configuration
    */
   reset(): void {
-    this.config = { ...this.defaultConfig };
+    this.config = structuredClone(this.defaultConfig);
   }
 
   /**
@@ -17,6 +17,7 @@ import type {
   RateLimitAlgorithm
 } from '../IRateLimiterService.js';
 import type { IDisposable } from '../ServiceContainer.js';
+import { traceEvent } from '../../lib/trace.js';
 
 /**
  * Internal rate limit window data for tracking operations
@@ -178,6 +179,18 @@ export class RateLimiterService implements IRateLimiterService, IDisposable {
       this.stats.denied++;
       this.updateOperationStats(operation, 'denied', weight);
     }
+
+    traceEvent('rate-limit', {
+      operation,
+      weight,
+      allowed: result.allowed,
+      remaining: result.remaining,
+      resetTimeMs: result.resetTimeMs,
+      ...(result.retryAfterMs !== undefined && { retryAfterMs: result.retryAfterMs }),
+      algorithm: rule.algorithm,
+      maxOperations: rule.maxOperations,
+      windowMs: rule.windowMs
+    }, { success: result.allowed });
     
     return result;
   }
@@ -0,0 +1,118 @@
+import sharp from 'sharp';
+import { stitchTiles, paintBoxes, drawLabeledBoxes } from '../image';
+
+type Color = { r: number; g: number; b: number };
+
+const RED = { r: 255, g: 0, b: 0 };
+const GREEN = { r: 0, g: 255, b: 0 };
+const BLUE = { r: 0, g: 0, b: 255 };
+
+function solidTile(width: number, height: number, color: Color): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: color } }).png().toBuffer();
+}
+
+async function pixelAt(image: Buffer, x: number, y: number): Promise<Color> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return { r: data[offset]!, g: data[offset + 1]!, b: data[offset + 2]! };
+}
+
+describe('stitchTiles', () => {
+  it('should place tiles at their page offsets scaled to device pixels', async () => {
+    // 100x250 CSS page on a 2x display, scrolled in 100px steps; the browser
+    // clamps the last step to 150 so it overlaps the second tile
+    const tiles = [
+      { input: await solidTile(200, 200, RED), top: 0 },
+      { input: await solidTile(200, 200, GREEN), top: 100 },
+      { input: await solidTile(200, 200, BLUE), top: 150 }
+    ];
+
+    const image = await stitchTiles(tiles, { width: 100, height: 250 });
+
+    expect(await sharp(image).metadata()).toMatchObject({ format: 'png', width: 200, height: 500 });
+    expect(await pixelAt(image, 10, 199)).toEqual(RED);
+    expect(await pixelAt(image, 10, 200)).toEqual(GREEN);
+    expect(await pixelAt(image, 10, 299)).toEqual(GREEN);
+    expect(await pixelAt(image, 10, 300)).toEqual(BLUE);
+    expect(await pixelAt(image, 199, 499)).toEqual(BLUE);
+  });
+
+  it('should crop tiles that extend past the page', async () => {
+    const tiles = [
+      { input: await solidTile(101, 80, RED), top: 0 },
+      { input: await solidTile(101, 80, GREEN), top: 80 }
+    ];
+
+    const image = await stitchTiles(tiles, { width: 100, height: 120, scale: 1 });
+
+    expect(await sharp(image).metadata()).toMatchObject({ width: 100, height: 120 });
+    expect(await pixelAt(image, 99, 119)).toEqual(GREEN);
+  });
+
+  it('should encode jpg output', async () => {
+    const image = await stitchTiles([{ input: await solidTile(50, 50, RED), top: 0 }], {
+      width: 50,
+      height: 50,
+      format: 'jpg',
+      quality: 80
+    });
+
+    expect(await sharp(image).metadata()).toMatchObject({ format: 'jpeg', width: 50, height: 50 });
+  });
+
+  it('should reject empty tile lists and page sizes', async () => {
+    await expect(stitchTiles([], { width: 100, height: 100 })).rejects.toThrow('No tiles to stitch');
+    await expect(stitchTiles([{ input: await solidTile(10, 10, RED), top: 0 }], { width: 0, height: 100 }))
+      .rejects.toThrow('Invalid page size: 0x100');
+  });
+});
+
+describe('paintBoxes', () => {
+  it('should paint boxes clipped to the image', async () => {
+    const image = await paintBoxes(await solidTile(50, 40, RED), [
+      { left: 10, top: 10, width: 5, height: 5 },
+      { left: 45, top: 35, width: 20, height: 20 },
+      { left: 60, top: 0, width: 10, height: 10 }
+    ]);
+
+    expect(await sharp(image).metadata()).toMatchObject({ format: 'png', width: 50, height: 40 });
+    expect(await pixelAt(image, 9, 9)).toEqual(RED);
+    expect(await pixelAt(image, 10, 10)).toEqual({ r: 0, g: 0, b: 0 });
+    expect(await pixelAt(image, 14, 14)).toEqual({ r: 0, g: 0, b: 0 });
+    expect(await pixelAt(image, 15, 15)).toEqual(RED);
+    expect(await pixelAt(image, 49, 39)).toEqual({ r: 0, g: 0, b: 0 });
+  });
+
+  it('should keep jpg input as jpg', async () => {
+    const input = await sharp({ create: { width: 20, height: 20, channels: 3, background: RED } }).jpeg().toBuffer();
+
+    const image = await paintBoxes(input, [{ left: 0, top: 0, width: 10, height: 10 }], BLUE);
+
+    expect(await sharp(image).metadata()).toMatchObject({ format: 'jpeg', width: 20, height: 20 });
+  });
+});
+
+describe('drawLabeledBoxes', () => {
+  const WHITE = { r: 255, g: 255, b: 255 };
+
+  it('should outline boxes without filling them', async () => {
+    const image = await drawLabeledBoxes(await solidTile(100, 80, WHITE), [
+      { left: 20, top: 30, width: 40, height: 30, label: '1' },
+      { left: 200, top: 0, width: 10, height: 10, label: '2' }
+    ]);
+
+    expect(await sharp(image).metadata()).toMatchObject({ format: 'png', width: 100, height: 80 });
+    expect(await pixelAt(image, 40, 45)).toEqual(WHITE);
+    expect(await pixelAt(image, 40, 59)).not.toEqual(WHITE);
+    expect(await pixelAt(image, 90, 5)).toEqual(WHITE);
+  });
+
+  it('should tag each box with its label above the box', async () => {
+    const image = await drawLabeledBoxes(await solidTile(100, 80, WHITE), [
+      { left: 20, top: 30, width: 40, height: 30, label: '7' }
+    ]);
+
+    expect(await pixelAt(image, 21, 15)).not.toEqual(WHITE);
+    expect(await pixelAt(image, 50, 15)).toEqual(WHITE);
+  });
+});
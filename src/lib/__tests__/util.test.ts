@@ -3,6 +3,7 @@ import {
   validateInput, 
   expandPath, 
   escapeCSSSelector,
+  sleep,
   ERROR_CODES 
 } from '../util';
 
@@ -143,6 +144,28 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('sleep', () => {
+    it('should resolve early when the signal aborts', async () => {
+      const controller = new AbortController();
+      const started = Date.now();
+
+      setTimeout(() => controller.abort(), 10);
+      await sleep(5000, controller.signal);
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('should resolve at once for an aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const started = Date.now();
+
+      await sleep(5000, controller.signal);
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
   describe('ERROR_CODES', () => {
     it('should have all required error codes', () => {
       expect(ERROR_CODES.OK).toBe(0);
@@ -53,13 +53,15 @@ export async function execChromeJS<T = unknown>(
   javascript: string,
   tabIndex: number = 1,
   windowIndex: number = 1,
-  timeoutMs: number = 10000
+  timeoutMs: number = 10000,
+  options: { redactTrace?: boolean } = {}
 ): Promise<JavaScriptResult<T>> {
   return appleScriptService.executeJavaScript<T>(javascript, {
     tabIndex,
     windowIndex,
     timeout: timeoutMs,
-    useCache: true
+    useCache: true,
+    ...(options.redactTrace && { redactTrace: true })
   });
 }
 
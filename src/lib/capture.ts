@@ -1,10 +1,13 @@
 import { execWithTimeout, createWebPPreview, expandPath, ERROR_CODES, type ErrorCode } from './util.js';
 import { getChromeWindowBounds, execChromeJS, focusChromeWindow } from './apple.js';
-import { selectorToScreen, validateElementVisibility } from './coords.js';
-import { existsSync, mkdirSync, statSync, writeFileSync, unlinkSync, readFileSync } from 'fs';
+import { selectorToScreen, validateElementVisibility, masksToScreen, viewportRectsToScreen, type MaskTargets, type MaskRegion, type Rect } from './coords.js';
+import { stitchTiles, paintBoxes, drawLabeledBoxes, type ImageTile } from './image.js';
+import { scrollByPixels } from './scroll.js';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, statSync, writeFileSync, unlinkSync, readFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { tmpdir } from 'os';
 import { spawn } from 'child_process';
+import sharp from 'sharp';
 
 export interface ScreenshotOptions {
   outputPath?: string;
@@ -16,6 +19,39 @@ export interface ScreenshotOptions {
   saveFile?: boolean; // If true, save to file; if false, return base64
   preview?: boolean; // If true, generate WebP preview; defaults to true
   previewMaxSize?: number; // Maximum preview size in bytes
+  masks?: MaskTargets; // Elements and text painted over in the output and preview
+  annotations?: ImageAnnotation[]; // Labeled boxes drawn over viewport captures
+}
+
+/**
+ * Box to draw over a viewport capture, in top-level viewport CSS pixels
+ */
+export interface ImageAnnotation {
+  label: string;
+  rect: Rect;
+}
+
+/**
+ * Labeled box drawn over a screenshot, in image pixels
+ */
+export interface AnnotatedRegion {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Region painted over in a screenshot, in image pixels
+ */
+export interface MaskedRegion {
+  kind: 'selector' | 'text';
+  pattern: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface ScreenshotResult {
@@ -34,6 +70,11 @@ export interface ScreenshotResult {
     url?: string;
     captureMethod?: string;
     windowId?: number;
+    tiles?: number;
+    pageHeight?: number;
+    truncated?: boolean;
+    masked?: MaskedRegion[];
+    annotated?: AnnotatedRegion[];
   };
   error?: string;
   code: ErrorCode;
@@ -101,6 +142,37 @@ const UI_CONSTANTS = {
   MIN_FILE_SIZE: 1000
 } as const;
 
+/**
+ * CSS pixels added around each masked region
+ */
+const MASK_PADDING = 2;
+
+/**
+ * Full-page capture constants
+ */
+const FULL_PAGE_CONSTANTS = {
+  SETTLE_MS: 250, // Repaint and lazy-load time after each scroll step
+  MAX_PAGE_HEIGHT: 20000, // CSS pixels; longer pages are truncated
+  HIDDEN_ATTRIBUTE: 'data-mac-chrome-cli-hidden'
+} as const;
+
+/**
+ * Page geometry and state recorded before a full-page capture
+ */
+interface PageMetrics {
+  screenX: number;
+  screenY: number;
+  outerWidth: number;
+  outerHeight: number;
+  innerWidth: number;
+  innerHeight: number;
+  pageHeight: number;
+  scrollX: number;
+  scrollY: number;
+  scrollBehavior: string;
+  title: string;
+}
+
 /**
  * Screenshot capture method results for fallback handling
  */
@@ -228,7 +300,8 @@ end tell`;
 async function captureWindowById(
   windowId: string,
   outputPath: string,
-  format: string = 'png'
+  format: string = 'png',
+  excludeShadow: boolean = false
 ): Promise<CaptureMethodResult> {
   try {
     ensureDirectoryExists(outputPath);
@@ -238,6 +311,11 @@ async function captureWindowById(
       '-l', windowId, // Capture window by ID
     ];
     
+    // Without the shadow the image matches the window bounds exactly
+    if (excludeShadow) {
+      args.push('-o');
+    }
+    
     // Add format-specific arguments
     if (format === 'jpg') {
       args.push('-t', 'jpg');
@@ -502,6 +580,134 @@ async function getImageMetadata(imagePath: string): Promise<ImageMetadata | null
   }
 }
 
+/**
+ * Locate the regions covered by options.masks; regions is undefined when no
+ * masks were requested
+ * @private
+ */
+async function locateMasks(
+  options: ScreenshotOptions,
+  windowIndex: number,
+  action: string
+): Promise<{ regions?: MaskRegion[]; failure?: ScreenshotResult }> {
+  if (!options.masks?.selectors?.length && !options.masks?.textPatterns?.length) {
+    return {};
+  }
+
+  const located = await masksToScreen(options.masks, windowIndex);
+  if (!located.success) {
+    return { failure: { success: false, action, error: located.error, code: located.code } };
+  }
+  return { regions: located.data.regions };
+}
+
+/**
+ * Paint mask regions over a captured image. `area` is the rectangle the image
+ * shows, in the coordinate space of `regionRect`; the scale to image pixels
+ * comes from the image width.
+ * @private
+ */
+async function maskImage(
+  input: string | Buffer,
+  regions: MaskRegion[],
+  area: Rect,
+  regionRect: (region: MaskRegion) => Rect
+): Promise<{ image: Buffer; masked: MaskedRegion[] }> {
+  const { width = 0, height = 0 } = await sharp(input).metadata();
+  const scale = area.width > 0 ? width / area.width : 1;
+
+  const masked: MaskedRegion[] = [];
+  for (const region of regions) {
+    const rect = regionRect(region);
+    const left = Math.max(0, Math.floor((rect.x - MASK_PADDING - area.x) * scale));
+    const top = Math.max(0, Math.floor((rect.y - MASK_PADDING - area.y) * scale));
+    const right = Math.min(width, Math.ceil((rect.x + rect.width + MASK_PADDING - area.x) * scale));
+    const bottom = Math.min(height, Math.ceil((rect.y + rect.height + MASK_PADDING - area.y) * scale));
+    if (right > left && bottom > top) {
+      masked.push({ kind: region.kind, pattern: region.pattern, x: left, y: top, width: right - left, height: bottom - top });
+    }
+  }
+
+  const image = await paintBoxes(input, masked.map(box => ({ left: box.x, top: box.y, width: box.width, height: box.height })));
+  return { image, masked };
+}
+
+/**
+ * Mask a captured file in place, using the regions' screen rects
+ * @private
+ */
+async function maskCapturedFile(
+  outputPath: string,
+  regions: MaskRegion[] | undefined,
+  area: Rect
+): Promise<MaskedRegion[] | undefined> {
+  if (!regions) {
+    return undefined;
+  }
+  const { image, masked } = await maskImage(outputPath, regions, area, region => region.screen);
+  writeFileSync(outputPath, image);
+  return masked;
+}
+
+/**
+ * Locate options.annotations on screen; screen is undefined when no
+ * annotations were requested
+ * @private
+ */
+async function locateAnnotations(
+  options: ScreenshotOptions,
+  windowIndex: number,
+  action: string
+): Promise<{ screen?: Rect[]; failure?: ScreenshotResult }> {
+  if (!options.annotations?.length) {
+    return {};
+  }
+
+  const located = await viewportRectsToScreen(options.annotations.map(annotation => annotation.rect), windowIndex);
+  if (!located.success) {
+    return { failure: { success: false, action, error: located.error, code: located.code } };
+  }
+  return { screen: located.data };
+}
+
+/**
+ * Draw annotations over a captured file in place, after any masking, using
+ * their screen rects. Outlines and tags keep their size in CSS pixels.
+ * @private
+ */
+async function annotateCapturedFile(
+  outputPath: string,
+  annotations: ImageAnnotation[] | undefined,
+  screen: Rect[] | undefined,
+  area: Rect
+): Promise<AnnotatedRegion[] | undefined> {
+  if (!annotations || !screen) {
+    return undefined;
+  }
+  const { width = 0, height = 0 } = await sharp(outputPath).metadata();
+  const scale = area.width > 0 ? width / area.width : 1;
+
+  const annotated: AnnotatedRegion[] = [];
+  annotations.forEach((annotation, index) => {
+    const rect = screen[index]!;
+    const left = Math.max(0, Math.round((rect.x - area.x) * scale));
+    const top = Math.max(0, Math.round((rect.y - area.y) * scale));
+    const right = Math.min(width, Math.round((rect.x + rect.width - area.x) * scale));
+    const bottom = Math.min(height, Math.round((rect.y + rect.height - area.y) * scale));
+    if (right > left && bottom > top) {
+      annotated.push({ label: annotation.label, x: left, y: top, width: right - left, height: bottom - top });
+    }
+  });
+
+  const image = await drawLabeledBoxes(
+    outputPath,
+    annotated.map(box => ({ label: box.label, left: box.x, top: box.y, width: box.width, height: box.height })),
+    scale
+  );
+  writeFileSync(outputPath, image);
+  return annotated;
+}
+
 /**
  * Take screenshot using macOS screencapture command (legacy function for compatibility)
  * @deprecated Use captureScreen instead for enhanced functionality
@@ -509,7 +715,8 @@ async function getImageMetadata(imagePath: string): Promise<ImageMetadata | null
 async function takeScreenshot(
   args: string[], 
   outputPath: string,
-  options: ScreenshotOptions = {}
+  options: ScreenshotOptions = {},
+  beforePreview?: (outputPath: string) => Promise<void>
 ): Promise<ScreenshotResult> {
   try {
     ensureDirectoryExists(outputPath);
@@ -550,6 +757,10 @@ async function takeScreenshot(
       code: ERROR_CODES.OK
     };
     
+    if (beforePreview) {
+      await beforePreview(outputPath);
+    }
+    
     // Generate WebP preview if requested
     if (options.preview !== false) {
       try {
@@ -685,6 +896,17 @@ export async function captureViewport(
       };
     }
     
+    const masks = await locateMasks(options, windowIndex, 'viewport_screenshot');
+    if (masks.failure) {
+      return masks.failure;
+    }
+    
+    const annotations = await locateAnnotations(options, windowIndex, 'viewport_screenshot');
+    if (annotations.failure) {
+      return annotations.failure;
+    }
+    const exactBounds = Boolean(masks.regions || annotations.screen);
+    
     const outputPath = generateScreenshotPath(options.format, options.outputPath);
     const format = options.format || 'png';
     
@@ -717,17 +939,19 @@ end tell`;
         if (windowIdResult.success && windowIdResult.data?.stdout) {
           const windowId = windowIdResult.data.stdout.trim();
           if (windowId) {
-            captureResult = await captureWindowById(windowId, outputPath, format);
+            captureResult = await captureWindowById(windowId, outputPath, format, exactBounds);
             
             if (captureResult.success) {
-              return await buildSuccessResult(
+              const masked = await maskCapturedFile(outputPath, masks.regions, viewportInfo);
+              const annotated = await annotateCapturedFile(outputPath, options.annotations, annotations.screen, viewportInfo);
+              return withAnnotatedRegions(withMaskedRegions(await buildSuccessResult(
                 outputPath, 
                 viewportInfo, 
                 options, 
                 `viewport_screenshot (${captureResult.method})`,
                 captureResult.method,
                 parseInt(windowId, 10)
-              );
+              ), masked), annotated);
             }
             
             if (forcedMethod === 'window-id') {
@@ -765,13 +989,15 @@ end tell`;
     captureResult = await captureScreenRect(captureConfig);
     
     if (captureResult.success) {
-      return await buildSuccessResult(
+      const masked = await maskCapturedFile(outputPath, masks.regions, viewportInfo);
+      const annotated = await annotateCapturedFile(outputPath, options.annotations, annotations.screen, viewportInfo);
+      return withAnnotatedRegions(withMaskedRegions(await buildSuccessResult(
         outputPath, 
         viewportInfo, 
         options, 
         `viewport_screenshot (${captureResult.method})`,
         captureResult.method
-      );
+      ), masked), annotated);
     }
     
     // If we get here, all methods failed
@@ -845,6 +1071,28 @@ async function buildSuccessResult(
   return screenshotResult;
 }
 
+/**
+ * Add the masked regions to a successful result's metadata
+ * @private
+ */
+function withMaskedRegions(result: ScreenshotResult, masked: MaskedRegion[] | undefined): ScreenshotResult {
+  if (masked) {
+    result.metadata = { ...result.metadata, masked };
+  }
+  return result;
+}
+
+/**
+ * Add the annotated boxes to a successful result's metadata
+ * @private
+ */
+function withAnnotatedRegions(result: ScreenshotResult, annotated: AnnotatedRegion[] | undefined): ScreenshotResult {
+  if (annotated) {
+    result.metadata = { ...result.metadata, annotated };
+  }
+  return result;
+}
+
 /**
  * Build capture method error result
  * @private
@@ -937,6 +1185,11 @@ end tell`;
     }
     
     const boundsResolved = windowBounds.data.bounds;
+    const masks = await locateMasks(options, windowIndex, 'window_screenshot');
+    if (masks.failure) {
+      return masks.failure;
+    }
+    
     const outputPath = generateScreenshotPath(options.format, options.outputPath);
     const format = options.format || 'png';
     
@@ -962,10 +1215,11 @@ end tell`;
         
         if (windowIdResult.success && windowIdResult.data?.stdout) {
           const windowId = windowIdResult.data.stdout.trim();
-          const captureResult = await captureWindowById(windowId, outputPath, format);
+          const captureResult = await captureWindowById(windowId, outputPath, format, Boolean(masks.regions));
           
           if (captureResult.success) {
-            return await buildSuccessResultForWindow(
+            const masked = await maskCapturedFile(outputPath, masks.regions, boundsResolved);
+            return withMaskedRegions(await buildSuccessResultForWindow(
               outputPath,
               { width: boundsResolved.width, height: boundsResolved.height },
               windowBounds.data.title,
@@ -973,7 +1227,7 @@ end tell`;
               'window_screenshot (window-id)',
               captureResult.method,
               parseInt(windowId, 10)
-            );
+            ), masked);
           }
           
           if (forcedMethod === 'window-id' || !captureResult.shouldFallback) {
@@ -1022,14 +1276,15 @@ end tell`;
     }
     
     // Build success result with metadata
-    return await buildSuccessResultForWindow(
+    const masked = await maskCapturedFile(outputPath, masks.regions, boundsResolved);
+    return withMaskedRegions(await buildSuccessResultForWindow(
       outputPath,
       { width: boundsResolved.width, height: boundsResolved.height },
       windowBounds.data.title,
       options,
       `window_screenshot (${captureResult.method})`,
       captureResult.method
-    );
+    ), masked);
     
   } catch (error) {
     return {
@@ -1145,6 +1400,13 @@ export async function captureElement(
     const elementWidth = Math.max(1, element.width);
     const elementHeight = Math.max(1, element.height);
     
+    // Located after selectorToScreen, which scrolls the element into view
+    const masks = await locateMasks(options, windowIndex, 'element_screenshot');
+    if (masks.failure) {
+      return masks.failure;
+    }
+    let masked: MaskedRegion[] | undefined;
+    
     const outputPath = generateScreenshotPath(options.format, options.outputPath);
     
     const args = [
@@ -1159,13 +1421,21 @@ export async function captureElement(
       args.push('-t', 'pdf');
     }
     
-    const result = await takeScreenshot(args, outputPath, options);
+    const result = await takeScreenshot(args, outputPath, options, async capturedPath => {
+      masked = await maskCapturedFile(capturedPath, masks.regions, {
+        x: elementX,
+        y: elementY,
+        width: elementWidth,
+        height: elementHeight
+      });
+    });
     
     if (result.success) {
       result.action = 'element_screenshot';
       result.metadata = {
         width: elementWidth,
-        height: elementHeight
+        height: elementHeight,
+        ...(masked && { masked })
       };
     }
     
@@ -1181,6 +1451,230 @@ export async function captureElement(
   }
 }
 
+/**
+ * Record page metrics, then scroll to the top with smooth scrolling disabled
+ * so each scroll step lands before its tile is captured
+ * @private
+ */
+function preparePageScript(): string {
+  return `
+(() => {
+  const root = document.documentElement;
+  const metrics = {
+    screenX: window.screenX,
+    screenY: window.screenY,
+    outerWidth: window.outerWidth,
+    outerHeight: window.outerHeight,
+    innerWidth: window.innerWidth,
+    innerHeight: window.innerHeight,
+    pageHeight: Math.max(root.scrollHeight, document.body ? document.body.scrollHeight : 0),
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    scrollBehavior: root.style.scrollBehavior,
+    title: document.title
+  };
+  root.style.scrollBehavior = 'auto';
+  window.scrollTo(0, 0);
+  return JSON.stringify(metrics);
+})()`;
+}
+
+/**
+ * Make fixed and sticky elements transparent so they are not repeated in
+ * every tile. Opacity keeps their layout, so the page height does not change.
+ * @private
+ */
+function hideFixedElementsScript(): string {
+  const attribute = FULL_PAGE_CONSTANTS.HIDDEN_ATTRIBUTE;
+  return `
+(() => {
+  let hidden = 0;
+  for (const element of document.querySelectorAll('body *')) {
+    const position = getComputedStyle(element).position;
+    if (position !== 'fixed' && position !== 'sticky') continue;
+    element.setAttribute('${attribute}', element.style.getPropertyValue('opacity') + '|' + element.style.getPropertyPriority('opacity'));
+    element.style.setProperty('opacity', '0', 'important');
+    hidden++;
+  }
+  return JSON.stringify({ hidden });
+})()`;
+}
+
+/**
+ * Undo hideFixedElementsScript and preparePageScript
+ * @private
+ */
+function restorePageScript(metrics: PageMetrics): string {
+  const attribute = FULL_PAGE_CONSTANTS.HIDDEN_ATTRIBUTE;
+  return `
+(() => {
+  for (const element of document.querySelectorAll('[${attribute}]')) {
+    const [value, priority] = element.getAttribute('${attribute}').split('|');
+    if (value) {
+      element.style.setProperty('opacity', value, priority);
+    } else {
+      element.style.removeProperty('opacity');
+    }
+    element.removeAttribute('${attribute}');
+  }
+  window.scrollTo(${metrics.scrollX}, ${metrics.scrollY});
+  document.documentElement.style.scrollBehavior = ${JSON.stringify(metrics.scrollBehavior)};
+  return JSON.stringify({ x: window.scrollX, y: window.scrollY });
+})()`;
+}
+
+/**
+ * Capture the whole page by scrolling it in viewport-sized steps
+ *
+ * Each tile is a rectangle capture of the content area. Fixed and sticky
+ * elements are hidden after the first tile so headers appear only once, and
+ * the original scroll position is restored afterwards, even on failure.
+ *
+ * @param options Screenshot options (pdf is not supported)
+ * @param windowIndex Chrome window index (1-based)
+ * @returns Promise resolving to the stitched screenshot result
+ */
+export async function captureFullPage(
+  options: ScreenshotOptions = {},
+  windowIndex: number = 1
+): Promise<ScreenshotResult> {
+  const action = 'full_page_screenshot';
+  let tileDir: string | undefined;
+  let metrics: PageMetrics | undefined;
+
+  try {
+    await ensureChromeWindowActivated(windowIndex);
+    // Activation brings the target window to the front
+    const frontWindow = 1;
+
+    const prepared = await execChromeJS<PageMetrics>(preparePageScript(), 1, frontWindow, 5000);
+    if (!prepared.success || !prepared.data) {
+      return {
+        success: false,
+        action,
+        error: `Failed to measure page: ${prepared.error || 'no page metrics returned'}`,
+        code: prepared.code
+      };
+    }
+    metrics = prepared.data;
+
+    const { innerWidth, innerHeight } = metrics;
+    if (innerWidth <= 0 || innerHeight <= 0) {
+      return {
+        success: false,
+        action,
+        error: `Invalid viewport dimensions: ${innerWidth}x${innerHeight}`,
+        code: ERROR_CODES.TARGET_NOT_FOUND
+      };
+    }
+
+    // Measured at the top of the page, so viewport rects are page rects
+    const masks = await locateMasks(options, frontWindow, action);
+    if (masks.failure) {
+      return masks.failure;
+    }
+
+    const pageHeight = Math.min(Math.max(metrics.pageHeight, innerHeight), FULL_PAGE_CONSTANTS.MAX_PAGE_HEIGHT);
+    const contentArea: Rectangle = {
+      x: metrics.screenX + Math.round((metrics.outerWidth - innerWidth) / 2),
+      y: metrics.screenY + metrics.outerHeight - innerHeight,
+      width: innerWidth,
+      height: innerHeight
+    };
+
+    tileDir = mkdtempSync(join(tmpdir(), 'mac-chrome-cli-tiles-'));
+    const tiles: ImageTile[] = [];
+    let top = 0;
+    let captureMethod = '';
+
+    for (;;) {
+      await new Promise(resolve => setTimeout(resolve, FULL_PAGE_CONSTANTS.SETTLE_MS));
+
+      const tilePath = join(tileDir, `tile-${tiles.length}.png`);
+      const tile = await captureScreenRect(createCaptureConfig(contentArea, tilePath));
+      if (!tile.success) {
+        return {
+          success: false,
+          action,
+          error: `Failed to capture tile ${tiles.length + 1}: ${tile.error || 'capture failed'}`,
+          code: tile.error?.includes('permission') ? ERROR_CODES.PERMISSION_DENIED : ERROR_CODES.UNKNOWN_ERROR
+        };
+      }
+      tiles.push({ input: tilePath, top });
+      captureMethod = tile.method;
+
+      if (top + innerHeight >= pageHeight) {
+        break;
+      }
+      if (tiles.length === 1) {
+        await execChromeJS(hideFixedElementsScript(), 1, frontWindow, 5000);
+      }
+
+      const step = await scrollByPixels(innerHeight, false, 'vertical', 1, frontWindow);
+      if (!step.success) {
+        return {
+          success: false,
+          action,
+          error: `Failed to scroll page: ${step.error}`,
+          code: step.code
+        };
+      }
+      if (!step.data.scrolled) {
+        break;
+      }
+      top = step.data.position.y;
+    }
+
+    const format = options.format === 'jpg' ? 'jpg' : 'png';
+    let image = await stitchTiles(tiles, {
+      width: innerWidth,
+      height: pageHeight,
+      format,
+      ...(options.quality !== undefined && { quality: options.quality })
+    });
+
+    let masked: MaskedRegion[] | undefined;
+    if (masks.regions) {
+      ({ image, masked } = await maskImage(image, masks.regions, { x: 0, y: 0, width: innerWidth, height: pageHeight }, region => region.rect));
+    }
+
+    const outputPath = generateScreenshotPath(format, options.outputPath);
+    ensureDirectoryExists(outputPath);
+    writeFileSync(outputPath, image);
+
+    const result = await buildSuccessResult(
+      outputPath,
+      { ...contentArea, height: pageHeight, scrollX: metrics.scrollX, scrollY: metrics.scrollY, windowTitle: metrics.title },
+      options,
+      action,
+      `scroll-stitch (${captureMethod})`
+    );
+    result.metadata = {
+      ...result.metadata,
+      tiles: tiles.length,
+      pageHeight: metrics.pageHeight,
+      ...(metrics.pageHeight > pageHeight && { truncated: true }),
+      ...(masked && { masked })
+    };
+    return result;
+
+  } catch (error) {
+    return {
+      success: false,
+      action,
+      error: `Full page screenshot failed: ${error instanceof Error ? error.message : String(error)}`,
+      code: ERROR_CODES.UNKNOWN_ERROR
+    };
+  } finally {
+    if (metrics) {
+      await execChromeJS(restorePageScript(metrics), 1, 1, 5000).catch(() => undefined);
+    }
+    if (tileDir) {
+      rmSync(tileDir, { recursive: true, force: true });
+    }
+  }
+}
+
 /**
  * Capture full screen screenshot
  */
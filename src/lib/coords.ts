@@ -1,7 +1,9 @@
 import { execChromeJS, getChromeWindowBounds, type JavaScriptResult } from './apple.js';
-import { ERROR_CODES, type ErrorCode } from './util.js';
+import { ERROR_CODES, ErrorCode } from './util.js';
 import { Result, ok, error } from '../core/index.js';
 import { getCachedCoordinates, generateCoordsCacheKey } from './performance.js';
+import { isTracing, traceSpan } from './trace.js';
+import { getDeepQueryScript, deepQueryExpression, deepQueryAllExpression } from './deep-query.js';
 
 export interface Coordinates {
   x: number;
@@ -15,6 +17,8 @@ export interface ElementRect {
   height: number;
   centerX: number;
   centerY: number;
+  /** Offset of the enclosing iframe's viewport, already included in x and y */
+  frameOffset?: Coordinates;
 }
 
 export interface ViewportRect {
@@ -64,12 +68,15 @@ export interface LegacyCoordinateResult {
 }
 
 /**
- * Get element bounding rectangle in viewport coordinates
+ * Get element bounding rectangle in viewport coordinates. Elements inside
+ * iframes are translated by the frame offsets into the top-level viewport.
  */
 async function getElementRect(selector: string, windowIndex: number = 1): Promise<JavaScriptResult<ElementRect | null>> {
   const javascript = `
 (function() {
-  const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (!element) {
     return null;
   }
@@ -84,14 +91,16 @@ async function getElementRect(selector: string, windowIndex: number = 1): Promis
   // Small delay to ensure scroll completes
   setTimeout(() => {}, 100);
   
-  const rect = element.getBoundingClientRect();
+  const rect = viewportRect(element);
+  const offset = frameOffset(element);
   return JSON.stringify({
     x: rect.left,
     y: rect.top,
     width: rect.width,
     height: rect.height,
     centerX: rect.left + rect.width / 2,
-    centerY: rect.top + rect.height / 2
+    centerY: rect.top + rect.height / 2,
+    ...((offset.x !== 0 || offset.y !== 0) && { frameOffset: offset })
   });
 })();
 `;
@@ -146,6 +155,26 @@ async function calculateWindowBounds(windowIndex: number = 1): Promise<WindowBou
   };
 }
 
+/**
+ * Record a coordinate conversion in the --trace log. `details` is read when the
+ * conversion finishes, so it may be filled in while converting.
+ */
+async function traceConversion(
+  details: Record<string, unknown>,
+  convert: () => Promise<CoordinateResult>
+): Promise<CoordinateResult> {
+  if (!isTracing()) {
+    return convert();
+  }
+
+  const endTrace = traceSpan('coords', {});
+  const result = await convert();
+  endTrace(result.success, result.success
+    ? { ...details, ...result.data }
+    : { ...details, error: result.error, code: result.code });
+  return result;
+}
+
 /**
  * Convert viewport coordinates to screen coordinates
  */
@@ -153,6 +182,17 @@ export async function viewportToScreen(
   viewportX: number, 
   viewportY: number, 
   windowIndex: number = 1
+): Promise<CoordinateResult> {
+  return traceConversion(
+    { from: 'viewport', viewportX, viewportY, windowIndex },
+    () => convertViewportToScreen(viewportX, viewportY, windowIndex)
+  );
+}
+
+async function convertViewportToScreen(
+  viewportX: number, 
+  viewportY: number, 
+  windowIndex: number
 ): Promise<CoordinateResult> {
   // Validate input coordinates
   if (!Number.isFinite(viewportX) || !Number.isFinite(viewportY)) {
@@ -198,8 +238,10 @@ export async function selectorToScreen(
   windowIndex: number = 1
 ): Promise<CoordinateResult> {
   const cacheKey = generateCoordsCacheKey(selector, undefined, undefined, windowIndex);
+  const details: Record<string, unknown> = { from: 'selector', selector, windowIndex, cached: true };
   
-  return getCachedCoordinates(cacheKey, async () => {
+  return traceConversion(details, () => getCachedCoordinates(cacheKey, async () => {
+    details.cached = false;
     try {
       const [elementResult, viewportResult, windowBounds] = await Promise.all([
         getElementRect(selector, windowIndex),
@@ -249,7 +291,219 @@ export async function selectorToScreen(
         ERROR_CODES.UNKNOWN_ERROR
       );
     }
+  }));
+}
+
+/**
+ * Elements and text to hide in a screenshot
+ */
+export interface MaskTargets {
+  /** CSS selectors (with optional `>>>` segments); every match is masked */
+  selectors?: string[];
+  /** Regular expressions; each matching run of text (or matching input value) is masked */
+  textPatterns?: RegExp[];
+}
+
+/**
+ * Rectangle without center information
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A region matched by a mask selector or text pattern
+ */
+export interface MaskRegion {
+  /** Whether a selector or a text pattern matched */
+  kind: 'selector' | 'text';
+  /** The selector, or the pattern as /source/flags */
+  pattern: string;
+  /** Rect in top-level viewport coordinates */
+  rect: Rect;
+  /** Rect in screen coordinates */
+  screen: Rect;
+}
+
+/**
+ * Mask regions with the viewport and window they were measured in
+ */
+export interface MaskRegionData {
+  regions: MaskRegion[];
+  viewport: ViewportRect;
+  window: WindowBounds;
+}
+
+/**
+ * Find the rects of everything a mask covers. Unlike getElementRect this
+ * does not scroll, so the rects describe the page as it will be captured.
+ */
+async function getMaskRects(targets: MaskTargets, windowIndex: number): Promise<JavaScriptResult<{
+  regions?: Array<Omit<MaskRegion, 'screen'>>;
+  viewport?: ViewportRect;
+  invalid?: { selector: string; message: string };
+}>> {
+  const queries = (targets.selectors ?? [])
+    .map(selector => `[${JSON.stringify(selector)}, () => ${deepQueryAllExpression(selector)}]`)
+    .join(',\n    ');
+  const patterns = (targets.textPatterns ?? []).map(pattern => ({
+    label: String(pattern),
+    source: pattern.source,
+    flags: pattern.flags.replace(/[gy]/g, '')
+  }));
+
+  const javascript = `
+(function() {
+  ${getDeepQueryScript()}
+
+  const regions = [];
+  const add = (kind, pattern, left, top, width, height) => {
+    if (width > 0 && height > 0) {
+      regions.push({ kind, pattern, rect: { x: left, y: top, width, height } });
+    }
+  };
+
+  const queries = [
+    ${queries}
+  ];
+  for (const [selector, query] of queries) {
+    let elements;
+    try {
+      elements = query();
+    } catch (err) {
+      return JSON.stringify({ invalid: { selector, message: String(err && err.message || err) } });
+    }
+    for (const element of elements) {
+      const rect = viewportRect(element);
+      add('selector', selector, rect.left, rect.top, rect.width, rect.height);
+    }
+  }
+
+  const patterns = ${JSON.stringify(patterns)};
+  if (patterns.length > 0) {
+    const skipped = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+    for (const element of deepElements(document)) {
+      if (skipped.has(element.tagName)) continue;
+
+      if ((element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') && element.value) {
+        for (const pattern of patterns) {
+          if (new RegExp(pattern.source, pattern.flags).test(element.value)) {
+            const rect = viewportRect(element);
+            add('text', pattern.label, rect.left, rect.top, rect.width, rect.height);
+          }
+        }
+      }
+
+      for (const node of element.childNodes) {
+        if (node.nodeType !== Node.TEXT_NODE || !node.data.trim()) continue;
+        for (const pattern of patterns) {
+          const regex = new RegExp(pattern.source, pattern.flags + 'g');
+          let match;
+          while ((match = regex.exec(node.data)) !== null) {
+            if (match[0].length === 0) {
+              regex.lastIndex++;
+              continue;
+            }
+            const range = element.ownerDocument.createRange();
+            range.setStart(node, match.index);
+            range.setEnd(node, match.index + match[0].length);
+            const offset = frameOffset(element);
+            for (const rect of range.getClientRects()) {
+              add('text', pattern.label, rect.left + offset.x, rect.top + offset.y, rect.width, rect.height);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return JSON.stringify({
+    regions,
+    viewport: {
+      width: window.innerWidth,
+      height: window.innerHeight,
+      scrollX: window.scrollX || window.pageXOffset,
+      scrollY: window.scrollY || window.pageYOffset
+    }
   });
+})();
+`;
+
+  return execChromeJS(javascript, 1, windowIndex);
+}
+
+/**
+ * Convert mask selectors and text patterns to screen regions, using the same
+ * window content origin as selectorToScreen. Masks that match nothing are
+ * not an error; the result simply has no regions for them.
+ */
+export async function masksToScreen(
+  targets: MaskTargets,
+  windowIndex: number = 1
+): Promise<Result<MaskRegionData, string>> {
+  try {
+    const [maskResult, windowBounds] = await Promise.all([
+      getMaskRects(targets, windowIndex),
+      calculateWindowBounds(windowIndex)
+    ]);
+
+    if (!maskResult.success || !maskResult.data) {
+      return error(`Failed to execute JavaScript: ${maskResult.error}`, ERROR_CODES.UNKNOWN_ERROR);
+    }
+
+    if (maskResult.data.invalid) {
+      const { selector, message } = maskResult.data.invalid;
+      return error(`Invalid mask selector "${selector}": ${message}`, ErrorCode.INVALID_SELECTOR);
+    }
+
+    if (!windowBounds) {
+      return error('Failed to get window bounds', ERROR_CODES.CHROME_NOT_FOUND);
+    }
+
+    const regions = (maskResult.data.regions ?? []).map(region => ({
+      ...region,
+      screen: {
+        x: windowBounds.contentAreaX + region.rect.x,
+        y: windowBounds.contentAreaY + region.rect.y,
+        width: region.rect.width,
+        height: region.rect.height
+      }
+    }));
+
+    return ok({ regions, viewport: maskResult.data.viewport!, window: windowBounds }, ERROR_CODES.OK);
+
+  } catch (err) {
+    return error(`Failed to convert masks to screen coordinates: ${err}`, ERROR_CODES.UNKNOWN_ERROR);
+  }
+}
+
+/**
+ * Convert rects already measured in top-level viewport coordinates to screen
+ * coordinates, with a single window bounds lookup for all of them
+ */
+export async function viewportRectsToScreen(
+  rects: Rect[],
+  windowIndex: number = 1
+): Promise<Result<Rect[], string>> {
+  try {
+    const windowBounds = await calculateWindowBounds(windowIndex);
+    if (!windowBounds) {
+      return error('Failed to get window bounds', ERROR_CODES.CHROME_NOT_FOUND);
+    }
+
+    return ok(rects.map(rect => ({
+      x: windowBounds.contentAreaX + rect.x,
+      y: windowBounds.contentAreaY + rect.y,
+      width: rect.width,
+      height: rect.height
+    })), ERROR_CODES.OK);
+
+  } catch (err) {
+    return error(`Failed to convert viewport rects to screen coordinates: ${err}`, ERROR_CODES.UNKNOWN_ERROR);
+  }
 }
 
 /**
@@ -298,13 +552,15 @@ export async function validateElementVisibility(
 ): Promise<JavaScriptResult<{ visible: boolean; clickable: boolean; inViewport: boolean }>> {
   const javascript = `
 (function() {
-  const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (!element) {
     return JSON.stringify({ visible: false, clickable: false, inViewport: false });
   }
   
-  const rect = element.getBoundingClientRect();
-  const style = window.getComputedStyle(element);
+  const rect = viewportRect(element);
+  const style = elementWindow(element).getComputedStyle(element);
   
   const visible = style.display !== 'none' && 
                  style.visibility !== 'hidden' && 
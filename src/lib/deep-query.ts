@@ -0,0 +1,148 @@
+import { splitPierceSelector } from './locator.js';
+
+/**
+ * In-page element lookup that reaches into open shadow roots and same-origin iframes
+ *
+ * `document.querySelector` stops at shadow roots and frame boundaries. The
+ * helpers returned by `getDeepQueryScript()` first try the regular lookup and,
+ * when it finds nothing, search every open shadow root and same-origin frame
+ * document below it. A `>>>` chain (`iframe#pay >>> input[name=card]`) names
+ * the frame or shadow host explicitly; each segment is searched inside the
+ * previous match.
+ *
+ * Element rects inside frames are relative to the frame's viewport, so
+ * `viewportRect()` adds the offsets of all enclosing frames to give rects in
+ * the top-level viewport, which is what the screen coordinate conversion
+ * expects. Closed shadow roots and cross-origin frames cannot be entered.
+ */
+
+/**
+ * JavaScript source defining the deep query helpers:
+ *
+ * - `deepQuerySelector(segments, scope?)` - first match of a split `>>>` chain, or null
+ * - `deepQuerySelectorAll(segments, scope?)` - all matches of a split `>>>` chain
+ * - `deepElements(root)` - elements below a node in tree order, through shadow roots and frames
+ * - `deepChildren(element)` - shadow root children, frame document and light DOM children
+ * - `frameOffset(element)` - offset of the element's frame viewport in the top-level viewport
+ * - `viewportRect(element)` - bounding rect in top-level viewport coordinates
+ * - `elementWindow(element)` - window the element belongs to
+ */
+export function getDeepQueryScript(): string {
+  return `
+function frameDocument(element) {
+  if (element.tagName !== 'IFRAME' && element.tagName !== 'FRAME') return null;
+  try {
+    return element.contentDocument;
+  } catch (err) {
+    return null;
+  }
+}
+
+function deepChildren(element) {
+  const children = [];
+  if (element.shadowRoot) children.push(...element.shadowRoot.children);
+  const frameDoc = frameDocument(element);
+  if (frameDoc && frameDoc.documentElement) children.push(frameDoc.documentElement);
+  children.push(...element.children);
+  return children;
+}
+
+function deepElements(root) {
+  const found = [];
+  const stack = Array.from(root.nodeType === Node.ELEMENT_NODE ? deepChildren(root) : root.children).reverse();
+  while (stack.length > 0) {
+    const element = stack.pop();
+    found.push(element);
+    const children = deepChildren(element);
+    for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+  }
+  return found;
+}
+
+function enterScope(element, segment) {
+  if (element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+    const frameDoc = frameDocument(element);
+    if (!frameDoc) throw new Error('Cannot search inside cross-origin frame "' + segment + '"');
+    return frameDoc;
+  }
+  return element.shadowRoot || element;
+}
+
+function deepQuerySelector(segments, scope) {
+  let root = scope || document;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const element = root.querySelector(segment) || deepElements(root).find(el => el.matches(segment)) || null;
+    if (!element || i === segments.length - 1) return element;
+    root = enterScope(element, segment);
+  }
+  return null;
+}
+
+function deepQuerySelectorAll(segments, scope) {
+  let matches = [];
+  let roots = [scope || document];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const found = new Set();
+    for (const root of roots) {
+      for (const element of deepElements(root)) {
+        if (element.matches(segment)) found.add(element);
+      }
+    }
+    matches = Array.from(found);
+    if (i < segments.length - 1) roots = matches.map(element => enterScope(element, segment));
+  }
+  return matches;
+}
+
+function elementWindow(element) {
+  return element.ownerDocument.defaultView || window;
+}
+
+function frameOffset(element) {
+  let x = 0;
+  let y = 0;
+  let frame = elementWindow(element).frameElement;
+  while (frame) {
+    const rect = frame.getBoundingClientRect();
+    const style = elementWindow(frame).getComputedStyle(frame);
+    x += rect.left + frame.clientLeft + (parseFloat(style.paddingLeft) || 0);
+    y += rect.top + frame.clientTop + (parseFloat(style.paddingTop) || 0);
+    frame = elementWindow(frame).frameElement;
+  }
+  return { x, y };
+}
+
+function viewportRect(element) {
+  const rect = element.getBoundingClientRect();
+  const offset = frameOffset(element);
+  return {
+    left: rect.left + offset.x,
+    top: rect.top + offset.y,
+    right: rect.right + offset.x,
+    bottom: rect.bottom + offset.y,
+    width: rect.width,
+    height: rect.height
+  };
+}
+`;
+}
+
+/**
+ * In-page expression evaluating to the first element matching `selector`
+ * (a CSS selector, optionally with `>>>` segments), or null. The page script
+ * must include `getDeepQueryScript()`.
+ */
+export function deepQueryExpression(selector: string): string {
+  return `deepQuerySelector(${JSON.stringify(splitPierceSelector(selector))})`;
+}
+
+/**
+ * In-page expression evaluating to every element matching `selector`
+ * (a CSS selector, optionally with `>>>` segments). The page script must
+ * include `getDeepQueryScript()`.
+ */
+export function deepQueryAllExpression(selector: string): string {
+  return `deepQuerySelectorAll(${JSON.stringify(splitPierceSelector(selector))})`;
+}
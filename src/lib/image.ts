@@ -16,6 +16,8 @@
  * @version 1.0.0
  */
 
+import sharp from 'sharp';
+
 // Re-export image utilities from util.ts for better organization
 export { createWebPPreview } from './util.js';
 
@@ -43,4 +45,189 @@ export interface ImageProcessingOptions {
   quality?: number;
   /** Output format */
   format?: 'webp' | 'jpeg' | 'png';
-}
\ No newline at end of file
+}
+
+/**
+ * Screenshot tile placed at a vertical offset of the page
+ */
+export interface ImageTile {
+  /** Image file path or encoded image buffer */
+  input: string | Buffer;
+  /** Page offset of the tile's top edge in CSS pixels */
+  top: number;
+}
+
+/**
+ * Options for stitching tiles into one image
+ */
+export interface StitchOptions {
+  /** Page width in CSS pixels */
+  width: number;
+  /** Page height in CSS pixels */
+  height: number;
+  /** Device pixels per CSS pixel (defaults to first tile width / page width) */
+  scale?: number;
+  /** Output format */
+  format?: 'png' | 'jpg';
+  /** Image quality (1-100, applies to jpg) */
+  quality?: number;
+}
+
+/**
+ * Stitch viewport tiles into a single page image.
+ *
+ * Tiles are drawn in order, so where two tiles overlap (usually the last
+ * tile, which the browser clamps to the bottom of the page) the later tile
+ * wins. Tile parts that fall outside the page are cropped.
+ *
+ * @param tiles Tiles in capture order
+ * @param options Page size, pixel scale and output format
+ * @returns Encoded image buffer
+ * @throws {Error} When there are no tiles or the page size is invalid
+ */
+export async function stitchTiles(tiles: ImageTile[], options: StitchOptions): Promise<Buffer> {
+  if (tiles.length === 0) {
+    throw new Error('No tiles to stitch');
+  }
+  if (!(options.width > 0) || !(options.height > 0)) {
+    throw new Error(`Invalid page size: ${options.width}x${options.height}`);
+  }
+
+  const images = await Promise.all(tiles.map(async tile => {
+    const { width = 0, height = 0 } = await sharp(tile.input).metadata();
+    return { ...tile, width, height };
+  }));
+
+  const scale = options.scale ?? images[0]!.width / options.width;
+  const canvasWidth = Math.round(options.width * scale);
+  const canvasHeight = Math.round(options.height * scale);
+
+  const layers: sharp.OverlayOptions[] = [];
+  for (const image of images) {
+    const top = Math.round(image.top * scale);
+    const width = Math.min(image.width, canvasWidth);
+    const height = Math.min(image.height, canvasHeight - top);
+    if (top < 0 || width <= 0 || height <= 0) {
+      continue;
+    }
+
+    const input = width === image.width && height === image.height
+      ? await sharp(image.input).toBuffer()
+      : await sharp(image.input).extract({ left: 0, top: 0, width, height }).toBuffer();
+    layers.push({ input, top, left: 0 });
+  }
+
+  const canvas = sharp({
+    create: { width: canvasWidth, height: canvasHeight, channels: 4, background: { r: 255, g: 255, b: 255, alpha: 1 } },
+    limitInputPixels: false
+  }).composite(layers);
+
+  return options.format === 'jpg'
+    ? canvas.jpeg({ quality: options.quality ?? 90 }).toBuffer()
+    : canvas.png().toBuffer();
+}
+
+/**
+ * Box in image pixels
+ */
+export interface ImageBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Paint solid boxes over an image, keeping its format
+ *
+ * @param input Image file path or encoded image buffer
+ * @param boxes Boxes in image pixels; parts outside the image are cropped
+ * @param color Fill color (default: black)
+ * @returns Encoded image buffer in the input's format
+ */
+export async function paintBoxes(
+  input: string | Buffer,
+  boxes: ImageBox[],
+  color: { r: number; g: number; b: number } = { r: 0, g: 0, b: 0 }
+): Promise<Buffer> {
+  const image = sharp(input);
+  const { width = 0, height = 0, format } = await image.metadata();
+
+  const layers: sharp.OverlayOptions[] = [];
+  for (const box of boxes) {
+    const left = Math.max(0, Math.floor(box.left));
+    const top = Math.max(0, Math.floor(box.top));
+    const right = Math.min(width, Math.ceil(box.left + box.width));
+    const bottom = Math.min(height, Math.ceil(box.top + box.height));
+    if (right <= left || bottom <= top) {
+      continue;
+    }
+    layers.push({
+      input: { create: { width: right - left, height: bottom - top, channels: 3, background: color } },
+      left,
+      top
+    });
+  }
+
+  const painted = image.composite(layers);
+  return format === 'jpeg' ? painted.jpeg({ quality: 90 }).toBuffer() : painted.png().toBuffer();
+}
+
+/**
+ * Box in image pixels with a short label drawn at its top-left corner
+ */
+export interface LabeledBox extends ImageBox {
+  label: string;
+}
+
+const LABEL_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#f032e6', '#9a6324'];
+
+function escapeSvgText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Outline boxes over an image and tag each with its label, keeping its format
+ *
+ * @param input Image file path or encoded image buffer
+ * @param boxes Boxes in image pixels; parts outside the image are cropped
+ * @param scale Image pixels per CSS pixel, so outlines and tags keep their size on Retina captures (default: 1)
+ * @returns Encoded image buffer in the input's format
+ */
+export async function drawLabeledBoxes(input: string | Buffer, boxes: LabeledBox[], scale = 1): Promise<Buffer> {
+  const image = sharp(input);
+  const { width = 0, height = 0, format } = await image.metadata();
+
+  const stroke = 2 * scale;
+  const fontSize = 12 * scale;
+  const tagHeight = fontSize + 4 * scale;
+  const shapes: string[] = [];
+  const tags: string[] = [];
+  boxes.forEach((box, index) => {
+    const left = Math.max(0, box.left);
+    const top = Math.max(0, box.top);
+    const right = Math.min(width, box.left + box.width);
+    const bottom = Math.min(height, box.top + box.height);
+    if (right <= left || bottom <= top) {
+      return;
+    }
+    const color = LABEL_COLORS[index % LABEL_COLORS.length];
+    const tagWidth = (box.label.length * 0.65 * fontSize) + 6 * scale;
+    const tagLeft = Math.min(left, Math.max(0, width - tagWidth));
+    const tagTop = top >= tagHeight ? top - tagHeight : top;
+    shapes.push(`<rect x="${left}" y="${top}" width="${right - left}" height="${bottom - top}" fill="none" stroke="${color}" stroke-width="${stroke}"/>`);
+    tags.push(
+      `<rect x="${tagLeft}" y="${tagTop}" width="${tagWidth}" height="${tagHeight}" fill="${color}"/>` +
+      `<text x="${tagLeft + 3 * scale}" y="${tagTop + tagHeight - 4 * scale}" font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="bold" fill="#ffffff">${escapeSvgText(box.label)}</text>`
+    );
+  });
+
+  if (shapes.length === 0) {
+    return format === 'jpeg' ? image.jpeg({ quality: 90 }).toBuffer() : image.png().toBuffer();
+  }
+
+  // Tags go after all outlines so neighbouring boxes never hide a number
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}${tags.join('')}</svg>`;
+  const drawn = image.composite([{ input: Buffer.from(svg), left: 0, top: 0 }]);
+  return format === 'jpeg' ? drawn.jpeg({ quality: 90 }).toBuffer() : drawn.png().toBuffer();
+}
@@ -4,8 +4,13 @@ export * from './apple.js';
 export * from './coords.js';
 export * from './ui.js';
 export * from './navigation.js';
+export * from './scroll.js';
 export * from './capture.js';
 export * from './mouse.js';
 export * from './input.js';
 export * from './keyboard.js';
-export * from './performance.js';
\ No newline at end of file
+export * from './performance.js';
+export * from './trace.js';
+export * from './locator.js';
+export * from './deep-query.js';
+export * from './recording.js';
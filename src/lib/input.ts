@@ -1,6 +1,7 @@
 import { getScreenCoordinates, validateElementVisibility } from './coords.js';
 import { clickAt, pasteText, clearField, typeText } from './ui.js';
 import { execChromeJS } from './apple.js';
+import { getDeepQueryScript, deepQueryExpression } from './deep-query.js';
 import { ERROR_CODES, validateInput, sleep, type ErrorCode } from './util.js';
 import { Result, ok, error } from '../core/index.js';
 
@@ -98,7 +99,9 @@ function validateInputOptions(options: InputOptions): { valid: boolean; error?:
 async function getInputElementInfo(selector: string, windowIndex: number = 1) {
   const javascript = `
 (function() {
-  const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (!element) {
     return null;
   }
@@ -151,7 +154,9 @@ async function clearInputField(selector: string, windowIndex: number = 1): Promi
     // Method 1: Try JavaScript clear
     const jsResult = await execChromeJS(`
 (function() {
-  const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (!element) return false;
   
   if (element.tagName.toLowerCase() === 'input' || element.tagName.toLowerCase() === 'textarea') {
@@ -213,7 +218,8 @@ async function fillByTyping(
   selector: string, 
   value: string, 
   speed: number = 50, 
-  windowIndex: number = 1
+  windowIndex: number = 1,
+  maskSecret: boolean = false
 ): Promise<boolean> {
   try {
     // Focus element first
@@ -225,7 +231,7 @@ async function fillByTyping(
     await sleep(100); // Brief pause after focus
     
     // Type the text
-    const typeResult = await typeText(value, { speed });
+    const typeResult = await typeText(value, { speed, maskSecret });
     return typeResult.success;
     
   } catch {
@@ -234,13 +240,16 @@ async function fillByTyping(
 }
 
 /**
- * Fill input using JavaScript injection
+ * Fill input using JavaScript injection. The script embeds the value, so it is
+ * kept out of the --trace log when the value is masked.
  */
-async function fillByJavaScript(selector: string, value: string, windowIndex: number = 1): Promise<boolean> {
+async function fillByJavaScript(selector: string, value: string, windowIndex: number = 1, maskSecret: boolean = false): Promise<boolean> {
   try {
     const javascript = `
 (function() {
-  const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (!element) return false;
   
   const escapedValue = '${value.replace(/'/g, "\\'")}';
@@ -260,7 +269,7 @@ async function fillByJavaScript(selector: string, value: string, windowIndex: nu
 })();
 `;
     
-    const result = await execChromeJS<boolean>(javascript, 1, windowIndex);
+    const result = await execChromeJS<boolean>(javascript, 1, windowIndex, 10000, { redactTrace: maskSecret });
     return result.success && !!result.data;
     
   } catch {
@@ -334,13 +343,13 @@ export async function fillInput(options: InputOptions): Promise<InputResult> {
       
       if (!success) {
         // Fallback to typing
-        success = await fillByTyping(options.selector, options.value, options.speed, windowIndex);
+        success = await fillByTyping(options.selector, options.value, options.speed, windowIndex, options.maskSecret);
         method = 'type';
       }
       
       if (!success) {
         // Last resort: JavaScript injection
-        success = await fillByJavaScript(options.selector, options.value, windowIndex);
+        success = await fillByJavaScript(options.selector, options.value, windowIndex, options.maskSecret);
         method = 'js';
       }
     } else {
@@ -351,11 +360,11 @@ export async function fillInput(options: InputOptions): Promise<InputResult> {
           method = 'paste';
           break;
         case 'type':
-          success = await fillByTyping(options.selector, options.value, options.speed, windowIndex);
+          success = await fillByTyping(options.selector, options.value, options.speed, windowIndex, options.maskSecret);
           method = 'type';
           break;
         case 'js':
-          success = await fillByJavaScript(options.selector, options.value, windowIndex);
+          success = await fillByJavaScript(options.selector, options.value, windowIndex, options.maskSecret);
           method = 'js';
           break;
       }
@@ -431,7 +440,9 @@ export async function submitForm(
   try {
     const javascript = `
 (function() {
-  const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
+  ${getDeepQueryScript()}
+
+  const element = ${deepQueryExpression(selector)};
   if (!element) return false;
   
   const form = element.closest('form');
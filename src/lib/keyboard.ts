@@ -10,6 +10,8 @@ export interface KeyInputOptions {
   clear?: boolean;
   repeat?: number;
   windowIndex?: number;
+  /** Caption typed text as asterisks in recordings */
+  maskSecret?: boolean;
 }
 
 /**
@@ -189,7 +191,11 @@ export async function keyboardType(options: KeyInputOptions): Promise<KeyboardRe
     let lastResult: UIResult = error('Not yet executed', ERROR_CODES.UNKNOWN_ERROR);
     
     for (let i = 0; i < repeat; i++) {
-      lastResult = await typeText(options.text, { speed, windowIndex: options.windowIndex || 1 });
+      lastResult = await typeText(options.text, {
+        speed,
+        windowIndex: options.windowIndex || 1,
+        ...(options.maskSecret && { maskSecret: true })
+      });
       
       if (!lastResult.success) {
         break;
@@ -0,0 +1,270 @@
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+
+/**
+ * Locator syntax for targeting elements by more than CSS
+ *
+ * A locator is one or more parts joined with `>>`; each part searches inside
+ * the matches of the previous one:
+ *
+ * - `css=<selector>` or a plain CSS selector, where `>>>` descends into an
+ *   iframe or a shadow root (`iframe#pay >>> input[name=card]`)
+ * - `xpath=<expression>`, or an expression starting with `//` or `..`
+ * - `text=<text>` - elements whose own text matches
+ * - `role=<role>[name="..."][checked]...` - ARIA role with accessible name and states
+ * - `label=<text>` - form controls by label, aria-label or aria-labelledby
+ * - `placeholder=<text>` - inputs by placeholder
+ * - `testid=<id>` - elements by `data-testid`
+ * - `nth=<index>` - one match from the matches so far (0-based, negative from the end)
+ *
+ * Text values match case-insensitively as substrings with whitespace collapsed.
+ * A quoted value (`text="Sign in"`) must match exactly and `/pattern/flags` is
+ * a regular expression.
+ */
+
+export type LocatorEngine = 'css' | 'xpath' | 'text' | 'role' | 'label' | 'placeholder' | 'testid' | 'nth';
+
+export type TextMatcher =
+  | { kind: 'substring'; value: string }
+  | { kind: 'exact'; value: string }
+  | { kind: 'regex'; source: string; flags: string };
+
+/**
+ * States a `role=` part can require; `level` is the heading level
+ */
+export interface RoleStates {
+  checked?: boolean;
+  disabled?: boolean;
+  expanded?: boolean;
+  pressed?: boolean;
+  selected?: boolean;
+  level?: number;
+}
+
+export type LocatorPart =
+  | { engine: 'css'; selector: string }
+  | { engine: 'xpath'; expression: string }
+  | { engine: 'text' | 'label' | 'placeholder'; text: TextMatcher }
+  | { engine: 'testid'; testId: string }
+  | { engine: 'role'; role: string; name?: TextMatcher; states: RoleStates }
+  | { engine: 'nth'; index: number };
+
+const ENGINES: readonly LocatorEngine[] = ['css', 'xpath', 'text', 'role', 'label', 'placeholder', 'testid', 'nth'];
+
+const ROLE_STATES = ['checked', 'disabled', 'expanded', 'pressed', 'selected'] as const;
+
+/** Combinator that descends into an iframe document or a shadow root */
+export const PIERCE_COMBINATOR = '>>>';
+
+/** A part that names an engine, e.g. `text=` */
+const ENGINE_PREFIX = /^\s*([a-z][a-z-]*)=/;
+
+function invalid(message: string, selector: string): Result<never, string> {
+  return error(message, ErrorCode.INVALID_SELECTOR, {
+    recoveryHint: 'check_target',
+    metadata: { selector }
+  });
+}
+
+/**
+ * Split on a separator that is outside quotes, brackets and parentheses.
+ * `accept` can reject a separator found at an index.
+ */
+function splitTopLevel(selector: string, separator: string, accept: (index: number) => boolean = () => true): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i]!;
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '[' || char === '(') depth++;
+    else if (char === ']' || char === ')') depth = Math.max(0, depth - 1);
+    else if (depth === 0 && selector.startsWith(separator, i) && accept(i)) {
+      parts.push(selector.slice(start, i));
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+  parts.push(selector.slice(start));
+  return parts.map(part => part.trim());
+}
+
+/**
+ * Split a locator on `>>`, ignoring separators inside quotes, brackets and parentheses.
+ * `>>>` is left alone: it is the shadow root and frame piercing combinator.
+ */
+export function splitLocator(selector: string): string[] {
+  return splitTopLevel(selector, '>>', i => selector[i + 2] !== '>' && selector[i - 1] !== '>');
+}
+
+/**
+ * Split a CSS selector on the `>>>` piercing combinator. Each segment after the
+ * first is searched inside the previous match: in its frame document when it
+ * is an `<iframe>`, otherwise in its open shadow root or its subtree.
+ */
+export function splitPierceSelector(selector: string): string[] {
+  return splitTopLevel(selector, PIERCE_COMBINATOR);
+}
+
+/**
+ * Whether a selector uses locator syntax rather than plain CSS
+ */
+export function isLocator(selector: string): boolean {
+  const parts = splitLocator(selector);
+  return parts.length > 1 || ENGINE_PREFIX.test(parts[0] ?? '') || /^\s*(\/\/|\.\.)/.test(parts[0] ?? '');
+}
+
+/**
+ * Parse a text value: "exact", /regex/flags or a substring
+ */
+export function parseTextMatcher(value: string): Result<TextMatcher, string> {
+  const trimmed = value.trim();
+  const quoted = trimmed.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) {
+    return ok({ kind: 'exact', value: quoted[2]!.replace(/\\(.)/g, '$1') });
+  }
+
+  const regex = trimmed.match(/^\/([\s\S]+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      new RegExp(regex[1]!, regex[2]);
+    } catch (err) {
+      return invalid(`Invalid regular expression ${trimmed}: ${err instanceof Error ? err.message : err}`, value);
+    }
+    return ok({ kind: 'regex', source: regex[1]!, flags: regex[2]! });
+  }
+
+  return ok({ kind: 'substring', value: trimmed });
+}
+
+/**
+ * Parse `button[name="Submit"][pressed]` into a role part
+ */
+function parseRole(body: string, selector: string): Result<LocatorPart, string> {
+  const match = body.match(/^([a-zA-Z-]+)\s*((?:\[[\s\S]*\])?)$/);
+  if (!match) {
+    return invalid(`Invalid role locator "role=${body}" (expected role=<role>[name="..."])`, selector);
+  }
+
+  const role = match[1]!.toLowerCase();
+  const states: RoleStates = {};
+  let name: TextMatcher | undefined;
+
+  const attributes = match[2]!;
+  const attributePattern = /\[\s*([a-z-]+)\s*(?:=\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\/(?:[^/\\]|\\.)+\/[a-z]*|[^\]]*?))?\s*\]/gy;
+  let consumed = 0;
+  let attribute: RegExpExecArray | null;
+  while ((attribute = attributePattern.exec(attributes)) !== null) {
+    consumed = attributePattern.lastIndex;
+    const [, key, value] = attribute;
+
+    if (key === 'name') {
+      if (value === undefined) {
+        return invalid(`Role attribute [name] needs a value in "role=${body}"`, selector);
+      }
+      const matcher = parseTextMatcher(value);
+      if (!matcher.success) return matcher;
+      name = matcher.data;
+    } else if (key === 'level') {
+      const level = Number(value);
+      if (!Number.isInteger(level) || level < 1) {
+        return invalid(`Role attribute [level] must be a positive integer in "role=${body}"`, selector);
+      }
+      states.level = level;
+    } else if ((ROLE_STATES as readonly string[]).includes(key!)) {
+      if (value !== undefined && value !== 'true' && value !== 'false') {
+        return invalid(`Role attribute [${key}] must be true or false in "role=${body}"`, selector);
+      }
+      states[key as typeof ROLE_STATES[number]] = value !== 'false';
+    } else {
+      return invalid(`Unknown role attribute [${key}] in "role=${body}" (expected name, level, ${ROLE_STATES.join(', ')})`, selector);
+    }
+  }
+
+  if (consumed !== attributes.length) {
+    return invalid(`Invalid role attributes in "role=${body}"`, selector);
+  }
+
+  return ok({ engine: 'role', role, ...(name && { name }), states });
+}
+
+function parseCss(css: string, selector: string): Result<LocatorPart, string> {
+  if (splitPierceSelector(css).some(segment => segment === '')) {
+    return invalid(`Empty selector around ${PIERCE_COMBINATOR} in "${selector}"`, selector);
+  }
+  return ok({ engine: 'css', selector: css });
+}
+
+function parsePart(part: string, selector: string): Result<LocatorPart, string> {
+  if (part === '') {
+    return invalid(`Empty locator part in "${selector}"`, selector);
+  }
+
+  const prefix = part.match(ENGINE_PREFIX);
+  if (!prefix) {
+    return /^(\/\/|\.\.)/.test(part)
+      ? ok({ engine: 'xpath', expression: part })
+      : parseCss(part, selector);
+  }
+
+  const engine = prefix[1] as LocatorEngine;
+  if (!ENGINES.includes(engine)) {
+    return invalid(`Unknown locator engine "${prefix[1]}=" (expected ${ENGINES.map(name => `${name}=`).join(', ')})`, selector);
+  }
+
+  const body = part.slice(prefix[0].length).trim();
+  if (body === '') {
+    return invalid(`Locator "${engine}=" needs a value`, selector);
+  }
+
+  switch (engine) {
+    case 'css':
+      return parseCss(body, selector);
+    case 'xpath':
+      return ok({ engine, expression: body });
+    case 'testid': {
+      const quoted = body.match(/^(["'])([\s\S]*)\1$/);
+      return ok({ engine, testId: quoted ? quoted[2]! : body });
+    }
+    case 'nth': {
+      const index = Number(body);
+      return Number.isInteger(index)
+        ? ok({ engine, index })
+        : invalid(`nth= needs an integer index, got "${body}"`, selector);
+    }
+    case 'role':
+      return parseRole(body, selector);
+    default: {
+      const text = parseTextMatcher(body);
+      return text.success ? ok({ engine, text: text.data }) : text;
+    }
+  }
+}
+
+/**
+ * Parse a locator (or plain CSS selector) into its parts
+ */
+export function parseLocator(selector: string): Result<LocatorPart[], string> {
+  if (typeof selector !== 'string' || selector.trim() === '') {
+    return invalid('Selector cannot be empty', String(selector));
+  }
+
+  const parts: LocatorPart[] = [];
+  for (const part of splitLocator(selector)) {
+    const parsed = parsePart(part, selector);
+    if (!parsed.success) return parsed;
+    parts.push(parsed.data);
+  }
+
+  if (parts[0]!.engine === 'nth') {
+    return invalid(`A locator cannot start with nth= ("${selector}")`, selector);
+  }
+  return ok(parts);
+}
@@ -0,0 +1,116 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import type { Rect } from './coords.js';
+
+/**
+ * Session state shared by `record start`, the background recorder and `record stop`
+ *
+ * While a recording runs, a state file in the per-user runtime directory names
+ * the session directory. The recorder appends captured frames to
+ * `frames.ndjson` there, and clicks and key presses sent through `ui.ts` by
+ * any mouse or keyboard command are appended to `events.ndjson`, so
+ * `record stop` can draw them over the frames they happened in. All
+ * timestamps are epoch milliseconds because they come from different processes.
+ */
+
+export const RECORDING_STATE_ENV_VARIABLE = 'MAC_CHROME_CLI_RECORDING';
+
+export const RECORDING_FILES = {
+  SESSION: 'session.json',
+  FRAMES: 'frames.ndjson',
+  EVENTS: 'events.ndjson',
+  LOG: 'recorder.log'
+} as const;
+
+export type RecordingFormat = 'mp4' | 'gif';
+
+export interface RecordingSession {
+  /** Process id of the background recorder (0 until it has been started) */
+  pid: number;
+  /** Directory holding the session file, frames and input events */
+  dir: string;
+  output: string;
+  format: RecordingFormat;
+  fps: number;
+  /** Frame source backend, see FRAME_SOURCES in commands/record.ts */
+  backend: string;
+  /** Recorded screen region: the Chrome window bounds */
+  rect: Rect;
+  windowIndex: number;
+  /** Draw click markers and key captions when the video is assembled */
+  overlays: boolean;
+  maxDurationMs: number;
+  startedAt: string;
+}
+
+/**
+ * A captured frame; the image is `file` in the session directory
+ */
+export interface RecordedFrame {
+  file: string;
+  t: number;
+}
+
+export type InputEvent =
+  | { t: number; type: 'click'; x: number; y: number; button: 'left' | 'right' | 'middle'; clickCount: number }
+  | { t: number; type: 'type'; text: string }
+  | { t: number; type: 'key'; key: string };
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * State file path: `$MAC_CHROME_CLI_RECORDING`, or a per-user path in the temp directory
+ */
+export function recordingStatePath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env[RECORDING_STATE_ENV_VARIABLE]) {
+    return resolve(env[RECORDING_STATE_ENV_VARIABLE]!);
+  }
+  const user = typeof process.getuid === 'function' ? String(process.getuid()) : (env.USER || 'user');
+  return join(tmpdir(), `mac-chrome-cli-${user}`, 'recording.json');
+}
+
+/**
+ * The running recording, or null when none was started
+ */
+export function readRecordingSession(stateFile: string = recordingStatePath()): RecordingSession | null {
+  if (!existsSync(stateFile)) return null;
+  try {
+    return JSON.parse(readFileSync(stateFile, 'utf8')) as RecordingSession;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a click or key press for the running recording's overlays.
+ * Does nothing when no recording is running.
+ */
+export function recordInputEvent(event: DistributiveOmit<InputEvent, 't'>, stateFile: string = recordingStatePath()): void {
+  const session = readRecordingSession(stateFile);
+  if (!session?.overlays) return;
+  try {
+    appendFileSync(join(session.dir, RECORDING_FILES.EVENTS), JSON.stringify({ t: Date.now(), ...event }) + '\n');
+  } catch {
+    // A failing recording must never fail the input command
+  }
+}
+
+/**
+ * Read one of the session's NDJSON files, skipping a partially written last line
+ */
+export function readRecordingLog<T>(dir: string, file: string): T[] {
+  const path = join(dir, file);
+  if (!existsSync(path)) return [];
+
+  const entries: T[] = [];
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    if (line.trim() === '') continue;
+    try {
+      entries.push(JSON.parse(line) as T);
+    } catch {
+      // The recorder was stopped mid-write
+    }
+  }
+  return entries;
+}
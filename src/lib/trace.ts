@@ -0,0 +1,182 @@
+import { closeSync, mkdirSync, openSync, writeSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { performance } from 'perf_hooks';
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
+
+/**
+ * Per-invocation trace recording for `--trace <file>`
+ *
+ * A trace is an NDJSON file with one event per line: a `start` event with the
+ * invocation's arguments, one event per recorded step (AppleScript runs,
+ * injected JavaScript, coordinate conversions, retries, rate-limit decisions,
+ * screenshots) and an `end` event with the exit code. Events are written
+ * synchronously so the trace is complete even when the process exits early.
+ */
+
+export const TRACE_FORMAT_VERSION = 1;
+
+/** Scripts longer than this are cut short in the trace */
+export const TRACE_TEXT_LIMIT = 4000;
+
+export type TraceEventKind =
+  | 'start'
+  | 'end'
+  | 'applescript'
+  | 'javascript'
+  | 'coords'
+  | 'retry'
+  | 'rate-limit'
+  | 'screenshot';
+
+export interface TraceEvent {
+  /** Position in the trace, starting at 0 */
+  seq: number;
+  /** Milliseconds since the trace started */
+  t: number;
+  kind: TraceEventKind;
+  durationMs?: number;
+  success?: boolean;
+  data: Record<string, unknown>;
+}
+
+export interface TraceText {
+  text: string;
+  length: number;
+  truncated?: boolean;
+  /** The script embeds a secret and its text was not recorded */
+  redacted?: boolean;
+}
+
+interface ActiveTrace {
+  fd: number;
+  path: string;
+  startTime: number;
+  seq: number;
+}
+
+let activeTrace: ActiveTrace | null = null;
+
+function writeEvent(trace: ActiveTrace, event: Omit<TraceEvent, 'seq' | 't'>, t: number): void {
+  const line: TraceEvent = { seq: trace.seq++, t: Math.round(t * 10) / 10, ...event };
+  try {
+    writeSync(trace.fd, JSON.stringify(line) + '\n');
+  } catch {
+    // A failing trace file must never fail the command being traced
+  }
+}
+
+function now(trace: ActiveTrace): number {
+  return performance.now() - trace.startTime;
+}
+
+/**
+ * Start recording a trace to a file, replacing any existing file.
+ * The trace is closed with the process exit code if `stopTrace` is not called.
+ */
+export function startTrace(file: string, argv: string[] = []): Result<string, string> {
+  if (activeTrace) {
+    stopTrace();
+  }
+
+  const path = resolve(file);
+  let fd: number;
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    fd = openSync(path, 'w');
+  } catch (err) {
+    return error(`Cannot write trace file ${path}: ${err instanceof Error ? err.message : err}`, ErrorCode.FILE_WRITE_ERROR, {
+      recoveryHint: 'check_target',
+      metadata: { path }
+    });
+  }
+
+  activeTrace = { fd, path, startTime: performance.now(), seq: 0 };
+  writeEvent(activeTrace, {
+    kind: 'start',
+    data: { version: TRACE_FORMAT_VERSION, argv, startedAt: new Date().toISOString(), pid: process.pid }
+  }, 0);
+  process.once('exit', onExit);
+
+  return ok(path);
+}
+
+function onExit(code: number): void {
+  stopTrace(code);
+}
+
+/**
+ * Whether a trace is being recorded
+ */
+export function isTracing(): boolean {
+  return activeTrace !== null;
+}
+
+/**
+ * Record a step. Does nothing when no trace is active.
+ */
+export function traceEvent(
+  kind: TraceEventKind,
+  data: Record<string, unknown>,
+  outcome: { durationMs?: number; success?: boolean } = {}
+): void {
+  if (!activeTrace) return;
+  const t = now(activeTrace) - (outcome.durationMs ?? 0);
+  writeEvent(activeTrace, {
+    kind,
+    ...(outcome.durationMs !== undefined && { durationMs: Math.round(outcome.durationMs * 10) / 10 }),
+    ...(outcome.success !== undefined && { success: outcome.success }),
+    data
+  }, Math.max(t, 0));
+}
+
+/**
+ * Time a step; the returned callback records it with its outcome.
+ * The event is stamped with the step's start time.
+ */
+export function traceSpan(
+  kind: TraceEventKind,
+  data: Record<string, unknown>
+): (success: boolean, result?: Record<string, unknown>) => void {
+  if (!activeTrace) return () => {};
+  const startTime = performance.now();
+  return (success, result) => {
+    traceEvent(kind, { ...data, ...result }, { durationMs: performance.now() - startTime, success });
+  };
+}
+
+/**
+ * Script text for a trace event, shortened when it is long
+ */
+export function traceText(text: string, maxLength: number = TRACE_TEXT_LIMIT): TraceText {
+  return text.length > maxLength
+    ? { text: text.slice(0, maxLength), length: text.length, truncated: true }
+    : { text, length: text.length };
+}
+
+/**
+ * Placeholder for a script that embeds a secret, such as a masked fill value
+ */
+export function traceRedacted(text: string): TraceText {
+  return { text: '[redacted]', length: text.length, redacted: true };
+}
+
+/**
+ * Write the `end` event and close the trace
+ *
+ * @returns Path of the trace file, or null when no trace was active
+ */
+export function stopTrace(exitCode: number = Number(process.exitCode ?? 0)): string | null {
+  const trace = activeTrace;
+  if (!trace) return null;
+
+  activeTrace = null;
+  process.removeListener('exit', onExit);
+  writeEvent(trace, { kind: 'end', data: { exitCode, events: trace.seq - 1 } }, now(trace));
+  try {
+    closeSync(trace.fd);
+  } catch {
+    // Already closed
+  }
+  return trace.path;
+}
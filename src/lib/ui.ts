@@ -1,6 +1,7 @@
 import { execWithTimeout, ERROR_CODES, sleep, type ErrorCode } from './util.js';
 import { Result, ok, error } from '../core/index.js';
 import { focusChromeWindow } from './apple.js';
+import { recordInputEvent } from './recording.js';
 
 export interface ClickOptions {
   button?: 'left' | 'right' | 'middle';
@@ -131,6 +132,7 @@ export async function clickAt(
   const result = await execCliclick(args);
   
   if (result.success) {
+    recordInputEvent({ type: 'click', x, y, button, clickCount });
     return ok({
       action: `${button}_click`,
       coordinates: { x, y }
@@ -209,6 +211,7 @@ export async function dragFromTo(
   ]);
   
   if (result.success) {
+    recordInputEvent({ type: 'click', x: toX, y: toY, button: 'left', clickCount: 1 });
     return ok({
       action: 'drag',
       coordinates: { x: toX, y: toY }
@@ -240,13 +243,14 @@ async function ensureChromeWindowFocused(windowIndex: number = 1): Promise<UIRes
 }
 
 /**
- * Type text with configurable speed
+ * Type text with configurable speed. With `maskSecret`, a recording captions
+ * the text as asterisks instead of the typed value.
  */
 export async function typeText(
   text: string, 
-  options: KeyboardOptions & { windowIndex?: number } = {}
+  options: KeyboardOptions & { windowIndex?: number; maskSecret?: boolean } = {}
 ): Promise<UIResult> {
-  const { speed = 50, windowIndex = 1 } = options;
+  const { speed = 50, windowIndex = 1, maskSecret = false } = options;
   
   try {
     // Focus Chrome window before typing
@@ -264,6 +268,7 @@ export async function typeText(
     const result = await execCliclick(['t:' + escapedText]);
     
     if (result.success) {
+      recordInputEvent({ type: 'type', text: maskSecret ? '*'.repeat(text.length) : text });
       // Add delay if speed is specified and greater than default
       if (speed > 50) {
         await sleep(speed - 50);
@@ -310,6 +315,7 @@ export async function sendKeys(
     const result = await execCliclick(['kp:' + keys]);
     
     if (result.success) {
+      recordInputEvent({ type: 'key', key: keyCombo });
       return ok({
         action: 'send_keys'
       }, result.code);
@@ -343,6 +349,7 @@ export async function pressKey(
     const result = await execCliclick(['kp:' + key.toLowerCase()]);
     
     if (result.success) {
+      recordInputEvent({ type: 'key', key });
       return ok({
         action: 'press_key'
       }, result.code);
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Model Context Protocol server over stdio
+ *
+ * Implements the subset of MCP an agent needs to drive the browser:
+ * `initialize`, `ping`, `tools/list` and `tools/call`. Messages are JSON-RPC
+ * 2.0, one per line, on stdin and stdout. Tool calls run one at a time because
+ * commands share one Chrome window and process-wide state.
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import type { Readable, Writable } from 'stream';
+import {
+  RPC_ERRORS,
+  createLineReader,
+  encodeMessage,
+  type RpcError,
+  type RpcId,
+  type RpcRequest,
+  type RpcResponse
+} from '../daemon/DaemonProtocol.js';
+import type { StepContext } from '../commands/run.js';
+import { callMcpTool, type McpTool } from './McpTools.js';
+
+/**
+ * Protocol revisions this server speaks, newest first
+ */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export interface McpServerOptions {
+  tools: McpTool[];
+  context: StepContext;
+  serverInfo: { name: string; version: string };
+}
+
+class McpFailure extends Error {
+  constructor(readonly rpcError: RpcError) {
+    super(rpcError.message);
+  }
+}
+
+export class McpServer {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: McpServerOptions) {}
+
+  /**
+   * Answer messages from `input` on `output` until `input` ends
+   */
+  serve(input: Readable, output: Writable): Promise<void> {
+    return new Promise(resolve => {
+      const pending = new Set<Promise<void>>();
+      input.on('data', createLineReader(line => {
+        const handled = this.handleMessage(line).then(response => {
+          if (response) output.write(encodeMessage(response));
+        });
+        pending.add(handled);
+        void handled.finally(() => pending.delete(handled));
+      }));
+      input.once('end', () => {
+        void Promise.all(pending).then(() => resolve());
+      });
+    });
+  }
+
+  /**
+   * Handle one JSON-RPC message; notifications resolve to undefined
+   */
+  async handleMessage(line: string): Promise<RpcResponse | undefined> {
+    let request: RpcRequest;
+    try {
+      request = JSON.parse(line) as RpcRequest;
+    } catch {
+      return { jsonrpc: '2.0', id: null, error: { code: RPC_ERRORS.PARSE_ERROR, message: 'Parse error' } };
+    }
+
+    const id: RpcId = request?.id ?? null;
+    if (!request || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+      return { jsonrpc: '2.0', id, error: { code: RPC_ERRORS.INVALID_REQUEST, message: 'Invalid request' } };
+    }
+    // Notifications (notifications/initialized, notifications/cancelled, ...) get no reply
+    if (request.id === undefined) {
+      return undefined;
+    }
+
+    try {
+      return { jsonrpc: '2.0', id, result: await this.dispatch(request.method, request.params ?? {}) };
+    } catch (err) {
+      const rpcError = err instanceof McpFailure
+        ? err.rpcError
+        : { code: RPC_ERRORS.INTERNAL_ERROR, message: err instanceof Error ? err.message : String(err) };
+      return { jsonrpc: '2.0', id, error: rpcError };
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion: typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: this.options.serverInfo
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this.options.tools };
+      case 'tools/call':
+        return this.callTool(params);
+      default:
+        throw new McpFailure({ code: RPC_ERRORS.METHOD_NOT_FOUND, message: `Method not found: ${method}` });
+    }
+  }
+
+  private callTool(params: Record<string, unknown>): Promise<unknown> {
+    const { name, arguments: args } = params as { name?: unknown; arguments?: unknown };
+    if (typeof name !== 'string' || (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args)))) {
+      throw new McpFailure({ code: RPC_ERRORS.INVALID_PARAMS, message: 'tools/call needs a tool name and an arguments object' });
+    }
+
+    const task = this.queue.then(async () => {
+      const result = await callMcpTool(this.options.tools, name, (args ?? {}) as Record<string, unknown>, this.options.context);
+      if (!result.success) {
+        throw new McpFailure({ code: RPC_ERRORS.INVALID_PARAMS, message: result.error });
+      }
+      return result.data;
+    });
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+}
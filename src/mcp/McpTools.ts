@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Browser commands exposed as Model Context Protocol tools
+ *
+ * Each tool is a command from the `meta.ts` command registry. Its input schema
+ * is generated from that command's option definitions (`--visible-only`
+ * becomes the `visibleOnly` property), limited to the arguments the tool's
+ * handler reads, and it runs through the same handlers as script steps. Failed
+ * commands become tool results with `isError` set and a structured description
+ * of the ErrorCode.
+ *
+ * @author mac-chrome-cli
+ * @version 1.0.0
+ */
+
+import { Result, ok, error } from '../core/Result.js';
+import { ErrorCode, getErrorInfo } from '../core/ErrorCodes.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+import type { CommandInfo } from '../commands/meta.js';
+import { buildInputSchema, propertyNameForOption, type CommandInputSchema } from '../commands/schema.js';
+import { executeStep, type StepContext } from '../commands/run.js';
+import { TabCommand } from '../commands/tab.js';
+import { WindowCommand } from '../commands/window.js';
+import { MouseCommand } from '../commands/mouse.js';
+import { ScreenshotCommand } from '../commands/screenshot.js';
+import { dumpNetworkLog, convertToHAR } from '../commands/netlog.js';
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: CommandInputSchema;
+}
+
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+export interface McpToolResult {
+  content: McpContent[];
+  /** Command data, or the structured error when `isError` is set */
+  structuredContent?: Record<string, unknown> | McpToolError;
+  isError?: boolean;
+}
+
+/**
+ * Structured error returned for failed tool calls
+ */
+export interface McpToolError {
+  error: string;
+  code: ErrorCode;
+  codeName: string;
+  category: string;
+  retryable: boolean;
+  userAction: boolean;
+  recoveryHint: string;
+  metadata?: Record<string, unknown>;
+}
+
+type ToolHandler = (args: Record<string, unknown>, context: StepContext) => Promise<Result<unknown, string>>;
+
+/**
+ * Handler of one tool with the arguments it reads. Only registry options named
+ * in `args` are advertised, so a tool never offers an argument it ignores.
+ */
+interface ToolDefinition {
+  /** Arguments the handler reads, as camelCase option names */
+  args: string[];
+  /** Arguments the handler cannot run without, whatever the registry says */
+  required?: string[];
+  run: ToolHandler;
+}
+
+/**
+ * Script step command run for a tool, with its args as given
+ */
+const step = (cmd: string): ToolHandler => (args, context) => executeStep(cmd, args, context);
+
+/**
+ * Arguments read by the script steps the tools run
+ */
+const NAVIGATION_ARGS = ['window', 'wait', 'timeout'];
+const MOUSE_STEP_ARGS = ['selector', 'button', 'offsetX', 'offsetY', 'timeout', 'force', 'window'];
+
+/**
+ * Tools keyed by meta command name
+ */
+const TOOLS: Record<string, ToolDefinition> = {
+  'nav go': { args: ['url', ...NAVIGATION_ARGS], run: step('open') },
+  'nav reload': { args: ['hard', ...NAVIGATION_ARGS], run: step('reload') },
+  'nav back': { args: NAVIGATION_ARGS, run: step('back') },
+  'nav forward': { args: NAVIGATION_ARGS, run: step('forward') },
+
+  'tab focus': {
+    args: ['match'],
+    required: ['match'],
+    run: async (args) => {
+      if (typeof args.match !== 'string' || args.match.length === 0) {
+        return ErrorUtils.validationError('tab focus requires "match"', 'match', args.match);
+      }
+      return new TabCommand().focus({ match: args.match });
+    }
+  },
+  'tab list': { args: [], run: async () => new TabCommand().list() },
+  'windows list': { args: [], run: async () => new WindowCommand().list() },
+
+  'mouse click': {
+    args: [...MOUSE_STEP_ARGS, 'x', 'y'],
+    run: async (args, context) => {
+      if (typeof args.selector === 'string') {
+        return executeStep('click', args, context);
+      }
+      if (typeof args.x !== 'number' || typeof args.y !== 'number') {
+        return ErrorUtils.validationError('mouse click requires "selector" or both "x" and "y"', 'selector', args);
+      }
+      return new MouseCommand().click({
+        x: args.x,
+        y: args.y,
+        ...(typeof args.button === 'string' && { button: args.button as 'left' | 'right' | 'middle' })
+      });
+    }
+  },
+  'input fill': {
+    args: ['selector', 'value', 'clear', 'method', 'speed', 'timeout', 'force', 'maskSecret', 'window'],
+    run: step('fill')
+  },
+  'keyboard type': { args: ['text', 'speed', 'repeat', 'clear'], run: step('type') },
+
+  'snapshot outline': { args: ['visibleOnly'], run: step('snapshot outline') },
+  'snapshot dom-lite': { args: ['maxDepth', 'visibleOnly', 'mode'], run: step('snapshot dom-lite') },
+
+  'shot viewport': {
+    args: ['annotate'],
+    run: async (args, context) => new ScreenshotCommand(context.container).viewport({
+      preview: true,
+      ...(args.annotate === true && { annotate: true })
+    })
+  },
+  'shot full-page': {
+    args: [],
+    run: async (_args, context) => new ScreenshotCommand(context.container).fullPage({ preview: true })
+  },
+  'shot element': {
+    args: ['selector'],
+    required: ['selector'],
+    run: async (args, context) => {
+      if (typeof args.selector !== 'string') {
+        return ErrorUtils.validationError('shot element requires "selector"', 'selector', args.selector);
+      }
+      return new ScreenshotCommand(context.container).element(args.selector, { preview: true });
+    }
+  },
+
+  'dom eval': { args: ['js', 'tab', 'window', 'frame', 'maxSize'], run: step('dom eval') },
+
+  'netlog dump': {
+    args: ['format'],
+    run: async (args) => {
+      const result = await dumpNetworkLog();
+      if (!result.success || !result.data) {
+        return error(result.error || 'No network log data available', ErrorCode.TARGET_NOT_FOUND);
+      }
+      return ok(args.format === 'har' ? convertToHAR(result.data.events) : result.data);
+    }
+  }
+};
+
+/**
+ * Arguments a tool's handler reads, or undefined for commands without a tool
+ */
+export function toolArguments(command: string): string[] | undefined {
+  return TOOLS[command]?.args;
+}
+
+/**
+ * Tool name for a command name (`snapshot dom-lite` -> `snapshot_dom_lite`)
+ */
+export function toolNameForCommand(command: string): string {
+  return command.trim().split(/[\s-]+/).join('_');
+}
+
+/**
+ * Flatten the command registry into name -> command
+ */
+function indexCommands(commands: CommandInfo[], index = new Map<string, CommandInfo>()): Map<string, CommandInfo> {
+  for (const command of commands) {
+    index.set(command.name, command);
+    if (command.subcommands) {
+      indexCommands(command.subcommands, index);
+    }
+  }
+  return index;
+}
+
+/**
+ * Input schema of a tool: the command's options its handler reads
+ */
+function buildToolSchema(command: CommandInfo, tool: ToolDefinition): CommandInputSchema {
+  const schema = buildInputSchema((command.options ?? []).filter(option => tool.args.includes(propertyNameForOption(option.name))));
+  const required = [...new Set([...(schema.required ?? []), ...(tool.required ?? [])])]
+    .filter(name => schema.properties[name] !== undefined);
+  const { required: _required, ...rest } = schema;
+  return { ...rest, ...(required.length > 0 && { required }) };
+}
+
+/**
+ * Tools for the commands in the registry that have a tool handler
+ */
+export function listMcpTools(commands: CommandInfo[]): McpTool[] {
+  const index = indexCommands(commands);
+  return Object.entries(TOOLS).flatMap(([name, tool]) => {
+    const command = index.get(name);
+    return command
+      ? [{ name: toolNameForCommand(name), description: command.description, inputSchema: buildToolSchema(command, tool) }]
+      : [];
+  });
+}
+
+/**
+ * Check tool arguments against the tool's input schema
+ */
+export function validateToolArguments(schema: CommandInputSchema, args: Record<string, unknown>): Result<Record<string, unknown>, string> {
+  for (const [key, value] of Object.entries(args)) {
+    const property = schema.properties[key];
+    if (!property) {
+      const known = Object.keys(schema.properties);
+      return ErrorUtils.validationError(
+        `Unknown argument "${key}"${known.length > 0 ? ` (expected: ${known.join(', ')})` : ''}`,
+        key,
+        value
+      );
+    }
+    if (typeof value !== property.type) {
+      return ErrorUtils.validationError(`Argument "${key}" must be a ${property.type}`, key, value);
+    }
+    if (property.enum && !property.enum.includes(value as string)) {
+      return ErrorUtils.validationError(`Argument "${key}" must be one of: ${property.enum.join(', ')}`, key, value);
+    }
+  }
+
+  const missing = (schema.required ?? []).find(key => args[key] === undefined);
+  if (missing) {
+    return ErrorUtils.validationError(`Missing required argument "${missing}"`, missing, undefined);
+  }
+
+  const withDefaults = { ...args };
+  for (const [key, property] of Object.entries(schema.properties)) {
+    if (withDefaults[key] === undefined && property.default !== undefined) {
+      withDefaults[key] = property.default;
+    }
+  }
+  return ok(withDefaults);
+}
+
+/**
+ * Describe a failed Result as a structured tool error
+ */
+export function toToolError(result: { error: string; code: ErrorCode; context?: { metadata?: Record<string, unknown> } }): McpToolResult {
+  const info = getErrorInfo(result.code);
+  const toolError: McpToolError = {
+    error: result.error,
+    code: result.code,
+    codeName: ErrorCode[result.code] ?? 'UNKNOWN_ERROR',
+    category: info.category,
+    retryable: info.retryable,
+    userAction: info.userAction,
+    recoveryHint: info.recoveryHint,
+    ...(result.context?.metadata && { metadata: result.context.metadata })
+  };
+
+  return {
+    content: [{ type: 'text', text: `${toolError.codeName}: ${result.error}\n${info.recoveryHint}` }],
+    structuredContent: toolError,
+    isError: true
+  };
+}
+
+/**
+ * Turn command output into tool content; screenshots return their WebP preview as an image
+ */
+function toToolResult(data: unknown): McpToolResult {
+  const preview = (data as { preview?: { base64?: unknown } } | null)?.preview;
+  if (preview && typeof preview.base64 === 'string') {
+    const { preview: _preview, ...rest } = data as Record<string, unknown>;
+    return {
+      content: [
+        { type: 'image', data: preview.base64, mimeType: 'image/webp' },
+        { type: 'text', text: JSON.stringify(rest, null, 2) }
+      ],
+      structuredContent: rest
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(data, null, 2) ?? 'null' }],
+    ...(data !== null && typeof data === 'object' && !Array.isArray(data) && { structuredContent: data as Record<string, unknown> })
+  };
+}
+
+/**
+ * Validate arguments and run a tool. Unknown tools are an INVALID_INPUT error;
+ * everything else, including failed commands, is a tool result.
+ */
+export async function callMcpTool(
+  tools: McpTool[],
+  name: string,
+  args: Record<string, unknown>,
+  context: StepContext
+): Promise<Result<McpToolResult, string>> {
+  const tool = tools.find(candidate => candidate.name === name);
+  const handler = tool && TOOLS[Object.keys(TOOLS).find(command => toolNameForCommand(command) === name)!]?.run;
+  if (!tool || !handler) {
+    return ErrorUtils.validationError(`Unknown tool: ${name}`, 'name', name);
+  }
+
+  const validated = validateToolArguments(tool.inputSchema, args);
+  if (!validated.success) {
+    return ok(toToolError(validated));
+  }
+
+  try {
+    const result = await handler(validated.data, context);
+    return ok(result.success ? toToolResult(result.data) : toToolError(result));
+  } catch (err) {
+    return ok(toToolError({
+      error: `${name} failed: ${err instanceof Error ? err.message : String(err)}`,
+      code: ErrorCode.UNKNOWN_ERROR
+    }));
+  }
+}
@@ -1,48 +1,177 @@
 import type { IDataSanitizer } from './IDataSanitizer.js';
+import {
+  DEFAULT_REDACTION_POLICY,
+  compileRedactionPolicy,
+  redactJsonPath,
+  type CompiledRedactionPolicy,
+  type RedactionPolicy
+} from './RedactionPolicy.js';
+
+/**
+ * One kind of redaction applied to a value
+ */
+export interface RedactionFinding {
+  target: 'header' | 'url' | 'body';
+  /** `header`, `url-param`, `json-path:<path>` or `pattern:<name>` */
+  rule: string;
+  /** Header name, URL parameter or concrete JSON path that was redacted */
+  field?: string;
+  count: number;
+}
+
+export interface Redaction<T> {
+  value: T;
+  findings: RedactionFinding[];
+}
 
 export class NetworkDataSanitizer implements IDataSanitizer {
-  private readonly sensitivePatterns = [
-    { pattern: /authorization:\s*[^\s,}]+/gi, replacement: 'authorization: [REDACTED]' },
-    { pattern: /"password"\s*:\s*"[^"]*"/g, replacement: '"password":"[REDACTED]"' },
-    { pattern: /(api[_-]key)\s*[:=]\s*"?[^"&,}\s]+/gi, replacement: '$1=[REDACTED]' },
-    { pattern: /token\s*[:=]\s*"?[^"&,}\s]+/gi, replacement: 'token=[REDACTED]' },
-    { pattern: /"token"\s*:\s*"[^"]*"/g, replacement: '"token":"[REDACTED]"' }
-  ];
-  
+  private readonly compiled: CompiledRedactionPolicy;
+
+  /**
+   * @throws {Error} When the policy does not compile (see validateRedactionPolicy)
+   */
+  constructor(policy: RedactionPolicy = DEFAULT_REDACTION_POLICY) {
+    this.compiled = compileRedactionPolicy(policy);
+  }
+
+  get policy(): RedactionPolicy {
+    return this.compiled.policy;
+  }
+
   sanitizeHeaders(headers: Record<string, string>): Record<string, string> {
+    return this.redactHeaders(headers).value;
+  }
+
+  sanitizeBody(body: string, contentType?: string): string {
+    return this.redactBody(body, contentType).value;
+  }
+
+  sanitizeUrl(url: string): string {
+    return this.redactUrl(url).value;
+  }
+
+  /**
+   * Redact headers and report which were replaced
+   */
+  redactHeaders(headers: Record<string, string>): Redaction<Record<string, string>> {
     const sanitized = { ...headers };
-    const sensitiveHeaders = ['authorization', 'cookie', 'x-api-key', 'x-auth-token'];
-    
-    for (const header of sensitiveHeaders) {
-      if (header in sanitized) {
-        sanitized[header] = '[REDACTED]';
+    const findings: RedactionFinding[] = [];
+
+    for (const name of Object.keys(sanitized)) {
+      if (this.compiled.headers.some(matcher => matcher.test(name))) {
+        sanitized[name] = this.compiled.policy.replacement;
+        findings.push({ target: 'header', rule: 'header', field: name, count: 1 });
       }
     }
-    return sanitized;
+    return { value: sanitized, findings };
   }
-  
-  sanitizeBody(body: string, _contentType?: string): string {
+
+  /**
+   * Redact a body and report the JSON paths and patterns that matched.
+   * JSON paths apply to JSON content types, or to JSON-looking bodies when no type is known.
+   */
+  redactBody(body: string, contentType?: string): Redaction<string> {
+    const findings: RedactionFinding[] = [];
     let sanitized = body;
-    for (const { pattern, replacement } of this.sensitivePatterns) {
-      sanitized = sanitized.replace(pattern, replacement);
+
+    const looksJson = contentType ? /json/i.test(contentType) : /^\s*[[{]/.test(body);
+    if (this.compiled.jsonPaths.length > 0 && looksJson) {
+      sanitized = this.redactJson(sanitized, findings);
     }
-    return sanitized;
+
+    for (const { name, regex, replacement } of this.compiled.patterns) {
+      const count = sanitized.match(regex)?.length ?? 0;
+      if (count > 0) {
+        sanitized = sanitized.replace(regex, replacement);
+        findings.push({ target: 'body', rule: `pattern:${name}`, count });
+      }
+    }
+
+    return { value: sanitized, findings };
   }
-  
-  sanitizeUrl(url: string): string {
+
+  /**
+   * Redact URL query and fragment parameters and report which were replaced
+   */
+  redactUrl(url: string): Redaction<string> {
+    const findings: RedactionFinding[] = [];
     try {
-      let sanitized = url;
-      const sensitiveParams = ['api_key', 'token', 'auth', 'password'];
-      
-      for (const param of sensitiveParams) {
-        // Match parameter=value patterns in URLs
-        const pattern = new RegExp(`(${param})=([^&]+)`, 'g');
-        sanitized = sanitized.replace(pattern, `$1=[REDACTED]`);
-      }
-      
-      return sanitized;
+      const value = url.replace(/([?&#;])([^=&#?;]+)=([^&#;]+)/g, (match, separator: string, name: string) => {
+        let decoded = name;
+        try {
+          decoded = decodeURIComponent(name);
+        } catch {
+          // Keep the raw name when it is not valid percent-encoding
+        }
+        if (!this.compiled.urlParams.some(matcher => matcher.test(decoded))) {
+          return match;
+        }
+        findings.push({ target: 'url', rule: 'url-param', field: decoded, count: 1 });
+        return `${separator}${name}=${this.compiled.policy.replacement}`;
+      });
+      return { value, findings };
+    } catch {
+      return { value: url, findings: [] };
+    }
+  }
+
+  private redactJson(body: string, findings: RedactionFinding[]): string {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
     } catch {
-      return url;
+      // Truncated previews and non-JSON bodies fall back to pattern redaction
+      return body;
     }
+
+    let changed = false;
+    for (const { path, tokens } of this.compiled.jsonPaths) {
+      const matched = redactJsonPath(parsed, tokens, this.compiled.policy.replacement);
+      for (const field of matched) {
+        findings.push({ target: 'body', rule: `json-path:${path}`, field, count: 1 });
+      }
+      changed = changed || matched.length > 0;
+    }
+
+    // Keep the original formatting when nothing matched
+    return changed ? JSON.stringify(parsed) : body;
+  }
+}
+
+/**
+ * Sanitizer that leaves data untouched, used only for an explicit --no-redact
+ */
+export class PassthroughDataSanitizer implements IDataSanitizer {
+  sanitizeHeaders(headers: Record<string, string>): Record<string, string> {
+    return { ...headers };
+  }
+
+  sanitizeBody(body: string, _contentType?: string): string {
+    return body;
+  }
+
+  sanitizeUrl(url: string): string {
+    return url;
+  }
+}
+
+let activeSanitizer: IDataSanitizer | undefined;
+
+/**
+ * Set the sanitizer used for captured network data
+ * Should be called during application startup, after configuration is loaded
+ */
+export function initializeDataSanitizer(sanitizer: IDataSanitizer): void {
+  activeSanitizer = sanitizer;
+}
+
+/**
+ * Get the sanitizer for captured network data
+ * Falls back to the default policy if not initialized
+ */
+export function getDataSanitizer(): IDataSanitizer {
+  if (!activeSanitizer) {
+    activeSanitizer = new NetworkDataSanitizer();
   }
-}
\ No newline at end of file
+  return activeSanitizer;
+}
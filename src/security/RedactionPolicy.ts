@@ -0,0 +1,296 @@
+/**
+ * @fileoverview Redaction policy for network data sanitization
+ *
+ * A policy lists the header names, URL parameters, JSON paths and regular
+ * expressions whose values are replaced before captured network data leaves
+ * the tool. Policies come from the `redaction` configuration key; lists extend
+ * the built-in defaults unless `extendDefaults` is false.
+ *
+ * Header and URL parameter names are case-insensitive and accept `*` wildcards.
+ * JSON paths support `$.key`, `$.list[0]`, `$.list[*].key`, `$.*` and `$..key`
+ * (any depth).
+ *
+ * @example
+ * ```json
+ * {
+ *   "redaction": {
+ *     "headers": ["x-session-*"],
+ *     "urlParams": ["sig"],
+ *     "jsonPaths": ["$.user.ssn", "$..refreshToken"],
+ *     "patterns": [{ "name": "card", "pattern": "\\b\\d{4}(?:[ -]?\\d{4}){3}\\b", "replacement": "[CARD]" }]
+ *   }
+ * }
+ * ```
+ */
+
+import { Result, ok } from '../core/Result.js';
+import { ErrorUtils } from '../core/ErrorUtils.js';
+
+/**
+ * Regular expression applied to bodies. `replacement` may use `$1`-style group references.
+ */
+export interface RedactionPattern {
+  name: string;
+  pattern: string;
+  /** Regular expression flags; `g` is always added */
+  flags?: string;
+  replacement: string;
+}
+
+export interface RedactionPolicy {
+  /** Value written in place of redacted headers, URL parameters and JSON fields */
+  replacement: string;
+  headers: string[];
+  urlParams: string[];
+  /** Applied to bodies with a JSON content type (or JSON-looking bodies without one) */
+  jsonPaths: string[];
+  patterns: RedactionPattern[];
+}
+
+/**
+ * Policy as written in configuration. Lists extend the defaults unless
+ * `extendDefaults` is false; patterns with a default's name replace it.
+ */
+export interface RedactionPolicyConfig extends Partial<RedactionPolicy> {
+  extendDefaults?: boolean;
+}
+
+export type JsonPathToken =
+  | { type: 'key'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; name: string };
+
+export interface CompiledRedactionPolicy {
+  policy: RedactionPolicy;
+  headers: RegExp[];
+  urlParams: RegExp[];
+  jsonPaths: Array<{ path: string; tokens: JsonPathToken[] }>;
+  patterns: Array<{ name: string; regex: RegExp; replacement: string }>;
+}
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  replacement: '[REDACTED]',
+  headers: ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'x-auth-token'],
+  urlParams: ['api_key', 'auth', 'password', '*token'],
+  jsonPaths: [],
+  patterns: [
+    { name: 'authorization', pattern: 'authorization:\\s*[^\\s,}]+', flags: 'gi', replacement: 'authorization: [REDACTED]' },
+    { name: 'json-password', pattern: '"password"\\s*:\\s*"[^"]*"', replacement: '"password":"[REDACTED]"' },
+    { name: 'api-key', pattern: '(api[_-]key)\\s*[:=]\\s*"?[^"&,}\\s]+', flags: 'gi', replacement: '$1=[REDACTED]' },
+    { name: 'token', pattern: 'token\\s*[:=]\\s*"?[^"&,}\\s]+', flags: 'gi', replacement: 'token=[REDACTED]' },
+    { name: 'json-token', pattern: '"token"\\s*:\\s*"[^"]*"', replacement: '"token":"[REDACTED]"' }
+  ]
+};
+
+/**
+ * Case-insensitive name matcher where `*` matches any characters
+ */
+function nameMatcher(name: string): RegExp {
+  const source = name
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Parse a JSON path such as `$.users[*].password` or `$..token`
+ *
+ * @throws {Error} When the path is not in the supported subset
+ */
+export function parseJsonPath(path: string): JsonPathToken[] {
+  if (!path.startsWith('$')) {
+    throw new Error(`JSON path must start with "$": ${path}`);
+  }
+
+  const tokens: JsonPathToken[] = [];
+  const tokenPattern = /^(?:\.\.([A-Za-z_$][\w$-]*)|\.\*|\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[\*\]|\[(["'])(.*?)\4\])/;
+  let rest = path.slice(1);
+
+  while (rest.length > 0) {
+    const match = tokenPattern.exec(rest);
+    if (!match) {
+      throw new Error(`Unsupported JSON path syntax at "${rest}" in ${path}`);
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'descendant', name: match[1] });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'key', name: match[2] });
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: 'index', index: Number(match[3]) });
+    } else if (match[5] !== undefined) {
+      tokens.push({ type: 'key', name: match[5] });
+    } else {
+      tokens.push({ type: 'wildcard' });
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  if (tokens.length === 0) {
+    throw new Error('JSON path must select a field below the root');
+  }
+  return tokens;
+}
+
+function formatPathSegment(key: string | number): string {
+  if (typeof key === 'number') return `[${key}]`;
+  return /^[A-Za-z_$][\w$-]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function childEntries(value: Record<string, unknown> | unknown[]): Array<[string | number, unknown]> {
+  return Array.isArray(value)
+    ? value.map((child, index) => [index, child] as [number, unknown])
+    : Object.entries(value);
+}
+
+/**
+ * Replace every value selected by the path, in place. Returns the concrete paths replaced.
+ */
+export function redactJsonPath(root: unknown, tokens: JsonPathToken[], replacement: string): string[] {
+  const matched: string[] = [];
+
+  const visit = (node: unknown, index: number, path: string): void => {
+    if (!isContainer(node)) return;
+    const token = tokens[index];
+    const last = index === tokens.length - 1;
+    const container = node as Record<string | number, unknown>;
+
+    const apply = (key: string | number) => {
+      const childPath = path + formatPathSegment(key);
+      if (last) {
+        container[key] = replacement;
+        matched.push(childPath);
+      } else {
+        visit(container[key], index + 1, childPath);
+      }
+    };
+
+    switch (token.type) {
+      case 'key':
+        if (!Array.isArray(node) && Object.prototype.hasOwnProperty.call(node, token.name)) {
+          apply(token.name);
+        }
+        break;
+      case 'index':
+        if (Array.isArray(node) && token.index < node.length) {
+          apply(token.index);
+        }
+        break;
+      case 'wildcard':
+        for (const [key] of childEntries(node)) {
+          apply(key);
+        }
+        break;
+      case 'descendant':
+        for (const [key, child] of childEntries(node)) {
+          if (key === token.name) {
+            apply(key);
+          } else {
+            visit(child, index, path + formatPathSegment(key));
+          }
+        }
+        break;
+    }
+  };
+
+  visit(root, 0, '$');
+  return matched;
+}
+
+/**
+ * Combine a configured policy with the defaults
+ */
+export function mergeRedactionPolicy(config: RedactionPolicyConfig = {}): RedactionPolicy {
+  const base = config.extendDefaults === false
+    ? { replacement: DEFAULT_REDACTION_POLICY.replacement, headers: [], urlParams: [], jsonPaths: [], patterns: [] }
+    : DEFAULT_REDACTION_POLICY;
+  const unique = (values: string[]) => Array.from(new Set(values));
+  const overridden = new Set((config.patterns || []).map(pattern => pattern.name));
+
+  return {
+    replacement: config.replacement ?? base.replacement,
+    headers: unique([...base.headers, ...(config.headers || [])]),
+    urlParams: unique([...base.urlParams, ...(config.urlParams || [])]),
+    jsonPaths: unique([...base.jsonPaths, ...(config.jsonPaths || [])]),
+    patterns: [...base.patterns.filter(pattern => !overridden.has(pattern.name)), ...(config.patterns || [])]
+  };
+}
+
+/**
+ * Compile a policy into matchers
+ *
+ * @throws {Error} When a name list, JSON path or pattern is invalid
+ */
+export function compileRedactionPolicy(policy: RedactionPolicy): CompiledRedactionPolicy {
+  const stringList = (values: unknown, field: string): string[] => {
+    if (!Array.isArray(values) || values.some(value => typeof value !== 'string' || value.trim() === '')) {
+      throw new Error(`redaction.${field} must be a list of non-empty strings`);
+    }
+    return values as string[];
+  };
+
+  if (typeof policy.replacement !== 'string') {
+    throw new Error('redaction.replacement must be a string');
+  }
+  if (!Array.isArray(policy.patterns)) {
+    throw new Error('redaction.patterns must be a list');
+  }
+
+  const names = new Set<string>();
+  const patterns = policy.patterns.map((pattern, index) => {
+    if (!pattern || typeof pattern.name !== 'string' || pattern.name.trim() === '') {
+      throw new Error(`redaction.patterns[${index}] needs a name`);
+    }
+    if (names.has(pattern.name)) {
+      throw new Error(`redaction.patterns has more than one pattern named "${pattern.name}"`);
+    }
+    names.add(pattern.name);
+    if (typeof pattern.pattern !== 'string' || typeof pattern.replacement !== 'string') {
+      throw new Error(`redaction pattern "${pattern.name}" needs pattern and replacement strings`);
+    }
+    const flags = Array.from(new Set(`${pattern.flags || ''}g`)).join('');
+    try {
+      return { name: pattern.name, regex: new RegExp(pattern.pattern, flags), replacement: pattern.replacement };
+    } catch (err) {
+      throw new Error(`redaction pattern "${pattern.name}" is invalid: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+
+  return {
+    policy,
+    headers: stringList(policy.headers, 'headers').map(nameMatcher),
+    urlParams: stringList(policy.urlParams, 'urlParams').map(nameMatcher),
+    jsonPaths: stringList(policy.jsonPaths, 'jsonPaths').map(path => ({ path, tokens: parseJsonPath(path) })),
+    patterns
+  };
+}
+
+/**
+ * Merge a configured policy with the defaults and check that it compiles
+ */
+export function validateRedactionPolicy(config: unknown): Result<RedactionPolicy, string> {
+  if (config !== undefined && (typeof config !== 'object' || config === null || Array.isArray(config))) {
+    return ErrorUtils.validationError('Redaction policy must be an object', 'redaction', config);
+  }
+
+  const fields = (config || {}) as Record<string, unknown>;
+  const notList = ['headers', 'urlParams', 'jsonPaths', 'patterns'].find(field =>
+    fields[field] !== undefined && !Array.isArray(fields[field])
+  );
+  if (notList) {
+    return ErrorUtils.validationError(`redaction.${notList} must be a list`, `redaction.${notList}`, fields[notList]);
+  }
+
+  try {
+    const policy = mergeRedactionPolicy(config as RedactionPolicyConfig | undefined);
+    compileRedactionPolicy(policy);
+    return ok(policy);
+  } catch (err) {
+    return ErrorUtils.validationError(err instanceof Error ? err.message : String(err), 'redaction', config);
+  }
+}
@@ -1,4 +1,5 @@
 import { NetworkDataSanitizer } from '../DataSanitizer.js';
+import { mergeRedactionPolicy, parseJsonPath, validateRedactionPolicy } from '../RedactionPolicy.js';
 
 describe('NetworkDataSanitizer', () => {
   let sanitizer: NetworkDataSanitizer;
@@ -154,6 +155,72 @@ describe('NetworkDataSanitizer', () => {
     });
   });
 
+  describe('configured policy', () => {
+    it('should match custom header names case-insensitively with wildcards', () => {
+      const custom = new NetworkDataSanitizer(mergeRedactionPolicy({ headers: ['x-session-*'] }));
+
+      const sanitized = custom.sanitizeHeaders({
+        'X-Session-Id': 'abc',
+        'Authorization': 'Bearer token',
+        'Accept': 'text/html'
+      });
+
+      expect(sanitized).toEqual({ 'X-Session-Id': '[REDACTED]', 'Authorization': '[REDACTED]', 'Accept': 'text/html' });
+    });
+
+    it('should redact JSON paths only for JSON content types', () => {
+      const custom = new NetworkDataSanitizer(mergeRedactionPolicy({
+        jsonPaths: ['$.user.ssn', '$.cards[*].number', '$..refreshToken']
+      }));
+      const body = JSON.stringify({
+        user: { name: 'Ada', ssn: '123-45-6789' },
+        cards: [{ number: '4111', brand: 'visa' }, { number: '5500' }],
+        session: { auth: { refreshToken: 'r1' } }
+      });
+
+      const result = custom.redactBody(body, 'application/json; charset=utf-8');
+
+      expect(JSON.parse(result.value)).toEqual({
+        user: { name: 'Ada', ssn: '[REDACTED]' },
+        cards: [{ number: '[REDACTED]', brand: 'visa' }, { number: '[REDACTED]' }],
+        session: { auth: { refreshToken: '[REDACTED]' } }
+      });
+      expect(result.findings.map(finding => finding.field)).toEqual([
+        '$.user.ssn', '$.cards[0].number', '$.cards[1].number', '$.session.auth.refreshToken'
+      ]);
+      expect(custom.sanitizeBody(body, 'text/plain')).toBe(body);
+    });
+
+    it('should apply named patterns and report match counts', () => {
+      const custom = new NetworkDataSanitizer(mergeRedactionPolicy({
+        extendDefaults: false,
+        patterns: [{ name: 'card', pattern: '\\b\\d{4}(?:-\\d{4}){3}\\b', replacement: '[CARD]' }]
+      }));
+
+      const result = custom.redactBody('paid 4111-1111-1111-1111 then 5500-0000-0000-0004, token=keep');
+
+      expect(result.value).toBe('paid [CARD] then [CARD], token=keep');
+      expect(result.findings).toEqual([{ target: 'body', rule: 'pattern:card', count: 2 }]);
+    });
+
+    it('should redact configured URL parameters with a custom replacement', () => {
+      const custom = new NetworkDataSanitizer(mergeRedactionPolicy({ urlParams: ['sig'], replacement: '***' }));
+
+      const result = custom.redactUrl('https://cdn.example.com/a.png?sig=abc&w=100#access_token=xyz');
+
+      expect(result.value).toBe('https://cdn.example.com/a.png?sig=***&w=100#access_token=***');
+      expect(result.findings.map(finding => finding.field)).toEqual(['sig', 'access_token']);
+    });
+
+    it('should reject invalid policies', () => {
+      expect(validateRedactionPolicy({ jsonPaths: ['user.ssn'] }).success).toBe(false);
+      expect(validateRedactionPolicy({ patterns: [{ name: 'bad', pattern: '(', replacement: 'x' }] }).success).toBe(false);
+      expect(validateRedactionPolicy({ headers: 'cookie' }).success).toBe(false);
+      expect(validateRedactionPolicy(undefined).success).toBe(true);
+      expect(() => parseJsonPath('$.items[*]..id')).not.toThrow();
+    });
+  });
+
   describe('performance', () => {
     it('should process data efficiently', () => {
       const largeBody = JSON.stringify({
@@ -2,13 +2,21 @@ import { LRUCache } from 'lru-cache';
 import { createHash } from 'crypto';
 import { execWithTimeout, ERROR_CODES, type ExecResult } from '../lib/util.js';
 import { ok, error } from '../core/Result.js';
+import { ErrorCode } from '../core/ErrorCodes.js';
 import { startBenchmark, endBenchmark } from '../lib/performance.js';
+import { traceRedacted, traceSpan, traceText } from '../lib/trace.js';
 import type { 
   IAppleScriptService, 
   AppleScriptResult, 
   ChromeWindow, 
+  ChromeWindowInfo,
   ChromeTab, 
-  ScriptExecutionOptions 
+  ScriptExecutionOptions,
+  WindowTarget,
+  WindowBounds,
+  WindowState,
+  ViewportSize,
+  CreateWindowOptions
 } from './IAppleScriptService.js';
 
 /**
@@ -262,6 +270,15 @@ end tell`;
     return ok(output, ERROR_CODES.OK);
   }
 
+  /**
+   * Output or error of a processed execution result, for the --trace log
+   */
+  private traceOutcome(result: AppleScriptResult<string>): Record<string, unknown> {
+    return result.success
+      ? { output: traceText(result.data ?? '') }
+      : { error: result.error, code: result.code };
+  }
+
   /**
    * Execute raw AppleScript with error handling and sanitization
    * 
@@ -297,6 +314,8 @@ end tell`;
       scriptLength: script.length
     });
 
+    const endTrace = traceSpan('applescript', { script: traceText(script), timeout });
+
     this.executionCount++;
 
     try {
@@ -304,10 +323,12 @@ end tell`;
       const processedResult = this.processExecutionResult(result, 'AppleScript execution');
       
       endBenchmark(benchmarkId, processedResult.success);
+      endTrace(processedResult.success, this.traceOutcome(processedResult));
       return processedResult;
       
     } catch (err) {
       endBenchmark(benchmarkId, false);
+      endTrace(false, { error: String(err) });
       return error(`Failed to execute AppleScript: ${err}`, ERROR_CODES.UNKNOWN_ERROR);
     }
   }
@@ -355,7 +376,8 @@ end tell`;
       timeout = AppleScriptService.CONFIG.DEFAULT_TIMEOUT, 
       tabIndex = 1, 
       windowIndex = 1, 
-      useCache = true 
+      useCache = true,
+      redactTrace = false
     } = options;
 
     const benchmarkId = startBenchmark('chrome-js-exec', {
@@ -364,6 +386,12 @@ end tell`;
       windowIndex,
       useCache
     });
+    const endTrace = traceSpan('javascript', {
+      javascript: redactTrace ? traceRedacted(javascript) : traceText(javascript),
+      tabIndex,
+      windowIndex,
+      timeout
+    });
 
     this.executionCount++;
 
@@ -432,6 +460,7 @@ end tell`;
       
       const result = await execWithTimeout('osascript', ['-e', cachedScript], timeout);
       const processedResult = this.processExecutionResult(result, 'Chrome JavaScript execution');
+      endTrace(processedResult.success, this.traceOutcome(processedResult));
       
       if (!processedResult.success) {
         endBenchmark(benchmarkId, false);
@@ -451,6 +480,7 @@ end tell`;
       
     } catch (err) {
       endBenchmark(benchmarkId, false);
+      endTrace(false, { error: String(err) });
       return error(`Failed to execute JavaScript: ${err}`, ERROR_CODES.UNKNOWN_ERROR);
     }
   }
@@ -467,6 +497,7 @@ end tell`;
       scriptLength: javascript.length,
       timeout
     });
+    const endTrace = traceSpan('javascript', { javascript: traceText(javascript), tab: 'active', timeout });
 
     try {
       const escapedJS = this.escapeAppleScriptString(javascript);
@@ -502,6 +533,7 @@ end tell`;
       
       const result = await execWithTimeout('osascript', ['-e', script], timeout);
       const processedResult = this.processExecutionResult(result, 'Chrome JavaScript execution on active tab');
+      endTrace(processedResult.success, this.traceOutcome(processedResult));
       
       if (!processedResult.success) {
         endBenchmark(benchmarkId, false);
@@ -521,6 +553,7 @@ end tell`;
       
     } catch (err) {
       endBenchmark(benchmarkId, false);
+      endTrace(false, { error: String(err) });
       return error(`Failed to execute JavaScript on active tab: ${err}`, ERROR_CODES.UNKNOWN_ERROR);
     }
   }
@@ -623,6 +656,382 @@ end tell`;
     return this.getChromeWindowBoundsViaAppleScript(windowIndex);
   }
 
+  /**
+   * List all Chrome windows from front to back with their stable ids
+   */
+  async listWindows(): Promise<AppleScriptResult<ChromeWindowInfo[]>> {
+    const appleScript = `
+tell application "Google Chrome"
+  if not running then
+    return "ERROR: Chrome is not running"
+  end if
+  
+  try
+    set windowList to {}
+    
+    repeat with i from 1 to count of windows
+      set targetWindow to window i
+      set windowBounds to bounds of targetWindow
+      set activeURL to ""
+      try
+        set activeURL to URL of active tab of targetWindow
+      end try
+      
+      set windowInfo to "{" & ¬
+        "\\"id\\": " & (id of targetWindow) & ", " & ¬
+        "\\"index\\": " & i & ", " & ¬
+        "\\"title\\": \\"" & (my escapeForJSON(name of targetWindow)) & "\\", " & ¬
+        "\\"url\\": \\"" & (my escapeForJSON(activeURL)) & "\\", " & ¬
+        "\\"bounds\\": {" & ¬
+          "\\"x\\": " & (item 1 of windowBounds) & ", " & ¬
+          "\\"y\\": " & (item 2 of windowBounds) & ", " & ¬
+          "\\"width\\": " & ((item 3 of windowBounds) - (item 1 of windowBounds)) & ", " & ¬
+          "\\"height\\": " & ((item 4 of windowBounds) - (item 2 of windowBounds)) & ¬
+        "}, " & ¬
+        "\\"tabCount\\": " & (count of tabs of targetWindow) & ", " & ¬
+        "\\"activeTabIndex\\": " & (active tab index of targetWindow) & ", " & ¬
+        "\\"incognito\\": " & ((mode of targetWindow) is "incognito") & ", " & ¬
+        "\\"minimized\\": " & (minimized of targetWindow) & ", " & ¬
+        "\\"visible\\": " & (visible of targetWindow) & ¬
+        "}"
+      set end of windowList to windowInfo
+    end repeat
+    
+    return "[" & (my joinList(windowList, ",")) & "]"
+  on error errorMessage
+    return "ERROR: " & errorMessage
+  end try
+end tell
+
+on escapeForJSON(textValue)
+  set escapedText to textValue
+  set escapedText to (my replaceText(escapedText, "\\\\", "\\\\\\\\"))
+  set escapedText to (my replaceText(escapedText, "\\"", "\\\\\\""))
+  set escapedText to (my replaceText(escapedText, return, "\\\\n"))
+  set escapedText to (my replaceText(escapedText, tab, "\\\\t"))
+  return escapedText
+end escapeForJSON
+
+on replaceText(originalText, searchString, replacementString)
+  set AppleScript's text item delimiters to searchString
+  set textItems to text items of originalText
+  set AppleScript's text item delimiters to replacementString
+  set replacedText to textItems as string
+  set AppleScript's text item delimiters to ""
+  return replacedText
+end replaceText
+
+on joinList(theList, delimiter)
+  set AppleScript's text item delimiters to delimiter
+  set joinedString to theList as string
+  set AppleScript's text item delimiters to ""
+  return joinedString
+end joinList`;
+
+    const result = await this.executeScript(appleScript, AppleScriptService.CONFIG.SCRIPT_TIMEOUT);
+    
+    if (!result.success) {
+      return error(result.error, result.code);
+    }
+
+    const output = result.data?.trim();
+    
+    if (output?.startsWith('ERROR:')) {
+      const errorMsg = output.substring(6).trim();
+      return error(errorMsg, errorMsg.includes('Chrome is not running') ? ERROR_CODES.CHROME_NOT_FOUND : ERROR_CODES.UNKNOWN_ERROR);
+    }
+
+    try {
+      const windows = JSON.parse(output || '[]') as ChromeWindowInfo[];
+      return ok(windows, ERROR_CODES.OK);
+    } catch (parseError) {
+      return error(`Failed to parse window data: ${parseError}`, ERROR_CODES.UNKNOWN_ERROR);
+    }
+  }
+
+  /**
+   * Resolve a window target (`2`, `id:1842`, `title:Dashboard`, `url:/github\.com/`)
+   * to the window's current index
+   * 
+   * Every command that accepts `--window` goes through this helper, so window
+   * ids, titles and URLs work wherever an index does. Indexes are returned
+   * without a round trip; other targets are looked up in `listWindows()` and
+   * the frontmost match wins.
+   * 
+   * @param target Window index or `id:<n>`, `title:<pattern>`, `url:<pattern>`
+   * @returns Promise resolving to the 1-based window index
+   * 
+   * @throws {ErrorCode.INVALID_INPUT} When the target or its pattern is malformed
+   * @throws {ErrorCode.WINDOW_NOT_FOUND} When no window matches the target
+   * @throws {ErrorCode.CHROME_NOT_FOUND} When Chrome is not running
+   */
+  async resolveWindowIndex(target: WindowTarget): Promise<AppleScriptResult<number>> {
+    if (typeof target === 'number') {
+      return Number.isInteger(target) && target >= 1
+        ? ok(target, ERROR_CODES.OK)
+        : error(`Invalid window index: ${target}`, ErrorCode.INVALID_INPUT);
+    }
+
+    const value = String(target).trim();
+    if (/^\d+$/.test(value)) {
+      return this.resolveWindowIndex(parseInt(value, 10));
+    }
+
+    const match = value.match(/^(id|title|url):(.*)$/s);
+    if (!match || match[2] === '') {
+      return error(
+        `Invalid window "${value}": use an index, id:<n>, title:<pattern> or url:<pattern>`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const kind = match[1] as 'id' | 'title' | 'url';
+    const pattern = match[2]!;
+    let matches: (window: ChromeWindowInfo) => boolean;
+
+    if (kind === 'id') {
+      if (!/^\d+$/.test(pattern)) {
+        return error(`Invalid window id: ${pattern}`, ErrorCode.INVALID_INPUT);
+      }
+      const id = parseInt(pattern, 10);
+      matches = window => window.id === id;
+    } else {
+      const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+      let regex: RegExp | undefined;
+      if (regexMatch) {
+        try {
+          regex = new RegExp(regexMatch[1]!, regexMatch[2]);
+        } catch {
+          return error(`Invalid regular expression: ${pattern}`, ErrorCode.INVALID_INPUT);
+        }
+      }
+      matches = window => {
+        const text = kind === 'title' ? window.title : window.url;
+        return regex ? regex.test(text) : text.includes(pattern);
+      };
+    }
+
+    const windows = await this.listWindows();
+    if (!windows.success) {
+      return error(windows.error, windows.code);
+    }
+
+    const found = windows.data.find(matches);
+    if (!found) {
+      return error(
+        `No Chrome window matches ${kind}:${pattern} (${windows.data.length} open; see \`windows list\`)`,
+        ErrorCode.WINDOW_NOT_FOUND
+      );
+    }
+    return ok(found.index, ERROR_CODES.OK);
+  }
+
+  /**
+   * Open a new Chrome window; Chrome is launched when it is not running
+   */
+  async createWindow(options: CreateWindowOptions = {}): Promise<AppleScriptResult<ChromeWindowInfo>> {
+    const properties = options.incognito ? ' with properties {mode:"incognito"}' : '';
+    const navigate = options.url
+      ? `set URL of active tab of newWindow to "${this.escapeAppleScriptString(options.url)}"`
+      : '';
+    const appleScript = `
+tell application "Google Chrome"
+  try
+    set newWindow to make new window${properties}
+    ${navigate}
+    return (id of newWindow) as string
+  on error errorMessage
+    return "ERROR: " & errorMessage
+  end try
+end tell`;
+
+    const result = await this.executeWindowScript(appleScript);
+    if (!result.success) {
+      return error(result.error, result.code);
+    }
+
+    const windowId = parseInt(result.data, 10);
+    const windows = await this.listWindows();
+    if (!windows.success) {
+      return error(windows.error, windows.code);
+    }
+    const created = windows.data.find(window => window.id === windowId);
+    return created
+      ? ok(created, ERROR_CODES.OK)
+      : error(`New window id:${result.data} was closed before it could be listed`, ErrorCode.WINDOW_NOT_FOUND);
+  }
+
+  /**
+   * Close a Chrome window and all of its tabs
+   */
+  async closeWindow(windowIndex: number): Promise<AppleScriptResult<boolean>> {
+    const appleScript = `
+tell application "Google Chrome"
+  if not running then
+    return "ERROR: Chrome is not running"
+  end if
+  
+  try
+    close window ${windowIndex}
+    return "true"
+  on error errorMessage
+    return "ERROR: " & errorMessage
+  end try
+end tell`;
+
+    const result = await this.executeWindowScript(appleScript);
+    return result.success ? ok(result.data === 'true', ERROR_CODES.OK) : error(result.error, result.code);
+  }
+
+  /**
+   * Move and resize a Chrome window, returning the bounds Chrome applied
+   */
+  async setWindowBounds(windowIndex: number, bounds: WindowBounds): Promise<AppleScriptResult<ChromeWindow>> {
+    const { x, y, width, height } = bounds;
+    const appleScript = `
+tell application "Google Chrome"
+  if not running then
+    return "ERROR: Chrome is not running"
+  end if
+  
+  try
+    set bounds of window ${windowIndex} to {${x}, ${y}, ${x + width}, ${y + height}}
+    return "true"
+  on error errorMessage
+    return "ERROR: " & errorMessage
+  end try
+end tell`;
+
+    const result = await this.executeWindowScript(appleScript);
+    if (!result.success) {
+      return error(result.error, result.code);
+    }
+    return this.getChromeWindowBoundsViaAppleScript(windowIndex);
+  }
+
+  /**
+   * Minimize a window, enter full screen, or restore it to a normal window
+   * 
+   * Chrome's dictionary has no full screen property, so full screen is toggled
+   * through the AXFullScreen attribute of the frontmost window in System Events.
+   * The window is brought to the front first.
+   */
+  async setWindowState(windowIndex: number, state: WindowState): Promise<AppleScriptResult<boolean>> {
+    let appleScript: string;
+
+    if (state === 'minimized') {
+      appleScript = `
+tell application "Google Chrome"
+  if not running then
+    return "ERROR: Chrome is not running"
+  end if
+  
+  try
+    set minimized of window ${windowIndex} to true
+    return "true"
+  on error errorMessage
+    return "ERROR: " & errorMessage
+  end try
+end tell`;
+    } else {
+      // Leaving full screen needs accessibility access, so a normal window is
+      // restored even when System Events cannot be queried
+      const fullScreen = state === 'fullscreen'
+        ? `
+try
+  tell application "System Events" to tell process "Google Chrome"
+    set value of attribute "AXFullScreen" of window 1 to true
+  end tell
+  delay 1
+on error errorMessage
+  return "ERROR: " & errorMessage
+end try`
+        : `
+try
+  tell application "System Events" to tell process "Google Chrome"
+    if value of attribute "AXFullScreen" of window 1 is true then
+      set value of attribute "AXFullScreen" of window 1 to false
+      delay 1
+    end if
+  end tell
+end try`;
+
+      appleScript = `
+tell application "Google Chrome"
+  if not running then
+    return "ERROR: Chrome is not running"
+  end if
+  
+  try
+    set targetWindow to window ${windowIndex}
+    set minimized of targetWindow to false
+    activate
+    set index of targetWindow to 1
+  on error errorMessage
+    return "ERROR: " & errorMessage
+  end try
+end tell
+delay 0.2
+${fullScreen}
+return "true"`;
+    }
+
+    const result = await this.executeWindowScript(appleScript);
+    return result.success ? ok(result.data === 'true', ERROR_CODES.OK) : error(result.error, result.code);
+  }
+
+  /**
+   * Measure the viewport of a window's active tab without activating another tab
+   */
+  async getViewportSize(windowIndex: number): Promise<AppleScriptResult<ViewportSize>> {
+    const appleScript = `
+tell application "Google Chrome"
+  if not running then
+    return "ERROR: Chrome is not running"
+  end if
+  
+  try
+    tell active tab of window ${windowIndex} to set viewportSize to execute javascript "JSON.stringify({width: window.innerWidth, height: window.innerHeight})"
+    return viewportSize
+  on error errorMessage
+    return "ERROR: " & errorMessage
+  end try
+end tell`;
+
+    const result = await this.executeWindowScript(appleScript);
+    if (!result.success) {
+      return error(result.error, result.code);
+    }
+
+    try {
+      return ok(JSON.parse(result.data) as ViewportSize, ERROR_CODES.OK);
+    } catch {
+      return error(
+        `Could not measure the viewport of window ${windowIndex} (JavaScript returned "${result.data}")`,
+        ErrorCode.JAVASCRIPT_ERROR
+      );
+    }
+  }
+
+  /**
+   * Run a window management script, giving "ERROR:" output a specific error code
+   */
+  private async executeWindowScript(appleScript: string): Promise<AppleScriptResult<string>> {
+    const result = await this.executeScript(appleScript, AppleScriptService.CONFIG.DEFAULT_TIMEOUT);
+    
+    if (result.success || result.code !== ERROR_CODES.UNKNOWN_ERROR) {
+      return result;
+    }
+
+    if (/Invalid index|Can.t get window/i.test(result.error)) {
+      return error(result.error, ErrorCode.WINDOW_NOT_FOUND);
+    }
+    if (/assistive access|not allowed/i.test(result.error)) {
+      return error(result.error, ErrorCode.ACCESSIBILITY_DENIED);
+    }
+    return result;
+  }
+
   /**
    * Get active Chrome tab information
    * 
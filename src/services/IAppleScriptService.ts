@@ -87,6 +87,85 @@ export interface ChromeWindow {
   visible: boolean;
 }
 
+/**
+ * Chrome window as listed by `listWindows()`.
+ * The `id` stays the same for the lifetime of the window, while `index`
+ * changes whenever windows are brought to the front or reordered.
+ * 
+ * @interface ChromeWindowInfo
+ * @example
+ * ```typescript
+ * const window: ChromeWindowInfo = {
+ *   id: 1842,
+ *   index: 1,
+ *   title: 'Dashboard - Google Chrome',
+ *   url: 'https://example.com/dashboard',
+ *   bounds: { x: 0, y: 25, width: 1440, height: 875 },
+ *   tabCount: 4,
+ *   activeTabIndex: 2,
+ *   incognito: false,
+ *   minimized: false,
+ *   visible: true
+ * };
+ * ```
+ */
+export interface ChromeWindowInfo {
+  /** Stable Chrome window id */
+  id: number;
+  /** Current front-to-back position (1-based), as used by `--window <n>` */
+  index: number;
+  /** Window title (title of the active tab) */
+  title: string;
+  /** URL of the active tab */
+  url: string;
+  /** Window position and size information */
+  bounds: WindowBounds;
+  /** Number of tabs in the window */
+  tabCount: number;
+  /** Index of the active tab (1-based) */
+  activeTabIndex: number;
+  /** Whether the window is an incognito window */
+  incognito: boolean;
+  /** Whether the window is minimized to the Dock */
+  minimized: boolean;
+  /** Whether the window is visible */
+  visible: boolean;
+}
+
+/**
+ * Window state set by `setWindowState()`.
+ * `normal` restores a minimized window and leaves full screen.
+ */
+export type WindowState = 'normal' | 'minimized' | 'fullscreen';
+
+/**
+ * Inner size of the page viewport in CSS pixels
+ */
+export interface ViewportSize {
+  /** `window.innerWidth` of the active tab */
+  width: number;
+  /** `window.innerHeight` of the active tab */
+  height: number;
+}
+
+/**
+ * Options for opening a new Chrome window
+ */
+export interface CreateWindowOptions {
+  /** Open an incognito window */
+  incognito?: boolean;
+  /** URL to load in the window's first tab (default: the new tab page) */
+  url?: string;
+}
+
+/**
+ * Window to target: a 1-based index, or a string of the form `<index>`,
+ * `id:<n>`, `title:<pattern>` or `url:<pattern>`. Patterns written as
+ * `/regex/flags` are matched as regular expressions, anything else as a
+ * substring.
+ */
+export type WindowTarget = number | string;
+
 /**
  * Chrome tab metadata and properties.
  * Contains tab identification, content information, and loading state.
@@ -140,6 +219,8 @@ export interface ScriptExecutionOptions {
   windowIndex?: number;
   /** Whether to use caching for performance (default: true) */
   useCache?: boolean;
+  /** Keep the script text out of the --trace log, for scripts that embed secrets (default: false) */
+  redactTrace?: boolean;
 }
 
 /**
@@ -233,6 +314,97 @@ export interface IAppleScriptService {
    */
   getChromeWindowBounds(windowIndex?: number): Promise<AppleScriptResult<ChromeWindow>>;
   
+  /**
+   * Lists all Chrome windows from front to back.
+   * 
+   * @returns Promise resolving to the windows with their stable ids and state
+   * 
+   * @example
+   * ```typescript
+   * const windows = await service.listWindows();
+   * if (windows.success) {
+   *   windows.data.forEach(w => console.log(`${w.id} (#${w.index}): ${w.title}`));
+   * }
+   * ```
+   */
+  listWindows(): Promise<AppleScriptResult<ChromeWindowInfo[]>>;
+  
+  /**
+   * Resolves a window target to the window's current index.
+   * 
+   * Plain indexes are returned as is; `id:`, `title:` and `url:` targets are
+   * looked up in `listWindows()`. When several windows match a pattern the
+   * frontmost one is used.
+   * 
+   * @param target - Window index or `id:<n>`, `title:<pattern>`, `url:<pattern>`
+   * @returns Promise resolving to the 1-based window index
+   * 
+   * @example
+   * ```typescript
+   * const index = await service.resolveWindowIndex('title:/^Dashboard/');
+   * if (index.success) {
+   *   await service.executeJavaScript('document.title', { windowIndex: index.data });
+   * }
+   * ```
+   */
+  resolveWindowIndex(target: WindowTarget): Promise<AppleScriptResult<number>>;
+  
+  /**
+   * Opens a new Chrome window, launching Chrome when it is not running.
+   * 
+   * @param options - Incognito mode and the URL of the first tab
+   * @returns Promise resolving to the new window, which is the frontmost window
+   * 
+   * @example
+   * ```typescript
+   * const created = await service.createWindow({ incognito: true, url: 'https://example.com' });
+   * if (created.success) {
+   *   console.log(`Opened window id:${created.data.id}`);
+   * }
+   * ```
+   */
+  createWindow(options?: CreateWindowOptions): Promise<AppleScriptResult<ChromeWindowInfo>>;
+  
+  /**
+   * Closes a Chrome window and all of its tabs.
+   * 
+   * @param windowIndex - Window index (1-based)
+   * @returns Promise resolving to true once the window is closed
+   */
+  closeWindow(windowIndex: number): Promise<AppleScriptResult<boolean>>;
+  
+  /**
+   * Moves and resizes a Chrome window.
+   * 
+   * @param windowIndex - Window index (1-based)
+   * @param bounds - New position and size in screen points
+   * @returns Promise resolving to the window with the bounds Chrome applied
+   * 
+   * @example
+   * ```typescript
+   * await service.setWindowBounds(1, { x: 0, y: 25, width: 1280, height: 900 });
+   * ```
+   */
+  setWindowBounds(windowIndex: number, bounds: WindowBounds): Promise<AppleScriptResult<ChromeWindow>>;
+  
+  /**
+   * Minimizes a window, enters full screen, or restores it to a normal window.
+   * Full screen uses System Events and needs accessibility access.
+   * 
+   * @param windowIndex - Window index (1-based)
+   * @param state - State to put the window in
+   * @returns Promise resolving to true once the state is applied
+   */
+  setWindowState(windowIndex: number, state: WindowState): Promise<AppleScriptResult<boolean>>;
+  
+  /**
+   * Measures the inner viewport of a window's active tab without switching tabs.
+   * 
+   * @param windowIndex - Window index (1-based)
+   * @returns Promise resolving to the viewport size in CSS pixels
+   */
+  getViewportSize(windowIndex: number): Promise<AppleScriptResult<ViewportSize>>;
+  
   /**
    * Retrieves information about the currently active Chrome tab.
    * 
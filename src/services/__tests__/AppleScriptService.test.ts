@@ -1,5 +1,6 @@
 import { AppleScriptService, appleScriptService } from '../AppleScriptService.js';
 import { ERROR_CODES } from '../../lib/util.js';
+import { ErrorCode } from '../../core/ErrorCodes.js';
 
 // Mock the external dependencies
 jest.mock('../../lib/util.js', () => ({
@@ -225,6 +226,83 @@ describe('AppleScriptService', () => {
     });
   });
 
+  describe('window targeting', () => {
+    const windows = [
+      { id: 1842, index: 1, title: 'Dashboard - Grafana', url: 'https://grafana.local/d/1', bounds: { x: 0, y: 25, width: 1440, height: 875 }, tabCount: 3, activeTabIndex: 2, incognito: false, minimized: false, visible: true },
+      { id: 17, index: 2, title: 'Pull requests', url: 'https://github.com/acme/app/pulls', bounds: { x: 40, y: 60, width: 1200, height: 800 }, tabCount: 1, activeTabIndex: 1, incognito: true, minimized: false, visible: true },
+      { id: 903, index: 3, title: 'Dashboard - Admin', url: 'https://admin.local/', bounds: { x: 80, y: 80, width: 1024, height: 768 }, tabCount: 2, activeTabIndex: 1, incognito: false, minimized: true, visible: true }
+    ];
+
+    beforeEach(() => {
+      mockExecWithTimeout.mockResolvedValue({
+        success: true,
+        data: { stdout: JSON.stringify(windows), stderr: '', command: 'osascript -e test' },
+        code: ERROR_CODES.OK,
+        error: '',
+        context: {}
+      });
+    });
+
+    it('should list windows from front to back', async () => {
+      const result = await service.listWindows();
+
+      expect(result.success && result.data).toEqual(windows);
+      expect(String(mockExecWithTimeout.mock.calls[0]![1])).toContain('mode of targetWindow');
+    });
+
+    it('should return window indexes without listing windows', async () => {
+      expect(await service.resolveWindowIndex(2)).toMatchObject({ success: true, data: 2 });
+      expect(await service.resolveWindowIndex(' 3 ')).toMatchObject({ success: true, data: 3 });
+      expect(mockExecWithTimeout).not.toHaveBeenCalled();
+    });
+
+    it('should resolve ids, titles and URLs to the frontmost matching window', async () => {
+      expect(await service.resolveWindowIndex('id:903')).toMatchObject({ success: true, data: 3 });
+      expect(await service.resolveWindowIndex('title:Dashboard')).toMatchObject({ success: true, data: 1 });
+      expect(await service.resolveWindowIndex('title:/admin$/i')).toMatchObject({ success: true, data: 3 });
+      expect(await service.resolveWindowIndex('url:github.com/acme')).toMatchObject({ success: true, data: 2 });
+    });
+
+    it('should reject malformed targets and report windows that do not exist', async () => {
+      for (const target of [0, 'front', 'id:abc', 'title:', 'url:/[/']) {
+        const result = await service.resolveWindowIndex(target);
+        expect(!result.success && result.code).toBe(ErrorCode.INVALID_INPUT);
+      }
+
+      const missing = await service.resolveWindowIndex('title:Inbox');
+      expect(!missing.success && missing.code).toBe(ErrorCode.WINDOW_NOT_FOUND);
+      expect(!missing.success && missing.error).toContain('No Chrome window matches title:Inbox');
+    });
+  });
+
+  describe('window management', () => {
+    function osascriptOutput(stdout: string) {
+      return { success: true, data: { stdout, stderr: '', command: 'osascript -e test' }, code: ERROR_CODES.OK, error: '', context: {} };
+    }
+
+    it('should set bounds as left, top, right, bottom and read them back', async () => {
+      mockExecWithTimeout
+        .mockResolvedValueOnce(osascriptOutput('true'))
+        .mockResolvedValueOnce(osascriptOutput('{"id":2,"title":"Docs","bounds":{"x":10,"y":25,"width":1280,"height":900},"visible":true}'));
+
+      const result = await service.setWindowBounds(2, { x: 10, y: 25, width: 1280, height: 900 });
+
+      expect(String(mockExecWithTimeout.mock.calls[0]![1])).toContain('set bounds of window 2 to {10, 25, 1290, 925}');
+      expect(result.success && result.data.bounds).toEqual({ x: 10, y: 25, width: 1280, height: 900 });
+    });
+
+    it('should map window script errors to error codes', async () => {
+      mockExecWithTimeout.mockResolvedValueOnce(osascriptOutput('ERROR: Can’t get window 9. Invalid index.'));
+      const missing = await service.closeWindow(9);
+      expect(!missing.success && missing.code).toBe(ErrorCode.WINDOW_NOT_FOUND);
+
+      mockExecWithTimeout.mockResolvedValueOnce(osascriptOutput('ERROR: System Events got an error: osascript is not allowed assistive access.'));
+      const denied = await service.setWindowState(1, 'fullscreen');
+      expect(!denied.success && denied.code).toBe(ErrorCode.ACCESSIBILITY_DENIED);
+      expect(String(mockExecWithTimeout.mock.calls[1]![1])).toContain('set value of attribute "AXFullScreen" of window 1 to true');
+    });
+  });
+
   describe('singleton instance', () => {
     it('should provide a singleton instance', () => {
       expect(appleScriptService).toBeInstanceOf(AppleScriptService);
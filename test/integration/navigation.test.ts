@@ -44,7 +44,7 @@ describe('Navigation Commands Integration', () => {
       expect(output).toContain('<url>');
       expect(output).toContain('--wait');
       expect(output).toContain('--timeout <ms>');
-      expect(output).toContain('--window <index>');
+      expect(output).toContain('--window <target>');
     });
 
     test('should reject missing URL argument', async () => {
@@ -93,7 +93,7 @@ describe('Navigation Commands Integration', () => {
       expect(output).toContain('--hard');
       expect(output).toContain('--wait');
       expect(output).toContain('--timeout <ms>');
-      expect(output).toContain('--window <index>');
+      expect(output).toContain('--window <target>');
     });
 
     test('should accept hard reload option', async () => {
@@ -112,7 +112,7 @@ describe('Navigation Commands Integration', () => {
       expect(output).toContain('Navigate back in browser history');
       expect(output).toContain('--wait');
       expect(output).toContain('--timeout <ms>');
-      expect(output).toContain('--window <index>');
+      expect(output).toContain('--window <target>');
     });
 
     test('should handle back navigation gracefully', async () => {
@@ -131,7 +131,7 @@ describe('Navigation Commands Integration', () => {
       expect(output).toContain('Navigate forward in browser history');
       expect(output).toContain('--wait');
       expect(output).toContain('--timeout <ms>');
-      expect(output).toContain('--window <index>');
+      expect(output).toContain('--window <target>');
     });
 
     test('should handle forward navigation gracefully', async () => {
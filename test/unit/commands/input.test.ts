@@ -24,6 +24,11 @@ jest.mock('../../../src/lib/apple.js', () => ({
   execChromeJS: jest.fn()
 }));
 
+// Mock the actionability checks
+jest.mock('../../../src/commands/actionability.js', () => ({
+  waitForActionable: jest.fn()
+}));
+
 // Mock the mouse and keyboard commands
 jest.mock('../../../src/commands/mouse.js');
 jest.mock('../../../src/commands/keyboard.js');
@@ -32,11 +37,13 @@ jest.mock('../../../src/commands/keyboard.js');
 import { getInputValue, submitForm } from '../../../src/lib/input.js';
 import { validateElementVisibility } from '../../../src/lib/coords.js';
 import { execChromeJS } from '../../../src/lib/apple.js';
+import { waitForActionable } from '../../../src/commands/actionability.js';
 
 const mockGetInputValue = getInputValue as jest.MockedFunction<typeof getInputValue>;
 const mockSubmitForm = submitForm as jest.MockedFunction<typeof submitForm>;
 const mockValidateElementVisibility = validateElementVisibility as jest.MockedFunction<typeof validateElementVisibility>;
 const mockExecChromeJS = execChromeJS as jest.MockedFunction<typeof execChromeJS>;
+const mockWaitForActionable = waitForActionable as jest.MockedFunction<typeof waitForActionable>;
 
 const MockedMouseCommand = MouseCommand as jest.MockedClass<typeof MouseCommand>;
 const MockedKeyboardCommand = KeyboardCommand as jest.MockedClass<typeof KeyboardCommand>;
@@ -59,6 +66,13 @@ describe('InputCommand', () => {
       type: jest.fn()
     } as unknown as jest.Mocked<KeyboardCommand>;
     
+    mockWaitForActionable.mockResolvedValue({
+      success: true,
+      data: { point: { x: 100, y: 200 }, attempts: 1, waitedMs: 0 },
+      code: ErrorCode.OK,
+      timestamp: new Date().toISOString()
+    });
+
     MockedMouseCommand.mockImplementation(() => mockMouseCommand);
     MockedKeyboardCommand.mockImplementation(() => mockKeyboardCommand);
     
@@ -164,10 +178,12 @@ describe('InputCommand', () => {
           1,
           1
         );
+        expect(mockWaitForActionable).toHaveBeenCalledWith('#email', { windowIndex: 1, editable: true, label: '#email' });
         expect(mockValidateElementVisibility).toHaveBeenCalledWith('#email', 1);
         expect(mockMouseCommand.click).toHaveBeenCalledWith({
           selector: '#email',
-          windowIndex: 1
+          windowIndex: 1,
+          force: true
         });
         expect(mockKeyboardCommand.clear).toHaveBeenCalledWith(1);
         expect(mockKeyboardCommand.type).toHaveBeenCalledWith({
@@ -398,6 +414,7 @@ describe('InputCommand', () => {
         expect(result.success).toBe(true);
         expect(result.data?.value).toBe('se************'); // Masked value
         expect(result.data?.metadata.masked).toBe(true);
+        expect(mockKeyboardCommand.type).toHaveBeenCalledWith(expect.objectContaining({ maskSecret: true }));
       });
     });
 
@@ -582,6 +599,43 @@ describe('InputCommand', () => {
       });
     });
 
+    describe('actionability checks', () => {
+      test('should fail with the reason the field is not actionable', async () => {
+        mockWaitForActionable.mockResolvedValue({
+          success: false,
+          error: 'Element "#email" is not actionable: not editable (readonly) (waited 5000ms, 50 attempts)',
+          code: ErrorCode.ELEMENT_NOT_INTERACTABLE,
+          timestamp: new Date().toISOString()
+        });
+
+        const result = await command.fill({
+          selector: '#email',
+          value: 'test',
+          timeoutMs: 8000
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('not editable (readonly)');
+        expect(result.code).toBe(ErrorCode.ELEMENT_NOT_INTERACTABLE);
+        expect(mockWaitForActionable).toHaveBeenCalledWith('#email', expect.objectContaining({ editable: true, timeoutMs: 8000 }));
+        expect(mockExecChromeJS).not.toHaveBeenCalled();
+        expect(mockMouseCommand.click).not.toHaveBeenCalled();
+      });
+
+      test('should skip the checks when forced', async () => {
+        mockExecChromeJS.mockResolvedValue({
+          success: false,
+          error: 'JavaScript execution failed',
+          code: ErrorCode.JAVASCRIPT_ERROR
+        });
+
+        await command.fill({ selector: '#email', value: 'test', force: true });
+
+        expect(mockWaitForActionable).not.toHaveBeenCalled();
+        expect(mockExecChromeJS).toHaveBeenCalled();
+      });
+    });
+
     describe('element visibility validation', () => {
       test('should fail when element is not visible', async () => {
         mockExecChromeJS.mockResolvedValue({
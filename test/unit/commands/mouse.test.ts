@@ -15,9 +15,9 @@ jest.mock('../../../src/lib/mouse.js', () => ({
   mouseRightClick: jest.fn()
 }));
 
-// Mock the coords library functions
-jest.mock('../../../src/lib/coords.js', () => ({
-  validateElementVisibility: jest.fn()
+// Mock the actionability checks
+jest.mock('../../../src/commands/actionability.js', () => ({
+  waitForActionable: jest.fn()
 }));
 
 // Mock the scroll command
@@ -34,7 +34,7 @@ import {
   mouseRightClick
 } from '../../../src/lib/mouse.js';
 
-import { validateElementVisibility } from '../../../src/lib/coords.js';
+import { waitForActionable } from '../../../src/commands/actionability.js';
 import { scrollToElement } from '../../../src/commands/scroll.js';
 
 const mockMouseClick = mouseClick as jest.MockedFunction<typeof mouseClick>;
@@ -42,7 +42,7 @@ const mockMouseMove = mouseMove as jest.MockedFunction<typeof mouseMove>;
 const mockMouseDrag = mouseDrag as jest.MockedFunction<typeof mouseDrag>;
 const mockMouseDoubleClick = mouseDoubleClick as jest.MockedFunction<typeof mouseDoubleClick>;
 const mockMouseRightClick = mouseRightClick as jest.MockedFunction<typeof mouseRightClick>;
-const mockValidateElementVisibility = validateElementVisibility as jest.MockedFunction<typeof validateElementVisibility>;
+const mockWaitForActionable = waitForActionable as jest.MockedFunction<typeof waitForActionable>;
 const mockScrollToElement = scrollToElement as jest.MockedFunction<typeof scrollToElement>;
 
 describe('MouseCommand', () => {
@@ -51,30 +51,17 @@ describe('MouseCommand', () => {
   beforeEach(() => {
     command = new MouseCommand();
     jest.clearAllMocks();
+    mockWaitForActionable.mockResolvedValue({
+      success: true,
+      data: { point: { x: 100, y: 200 }, attempts: 1, waitedMs: 0 },
+      code: ErrorCode.OK,
+      timestamp: new Date().toISOString()
+    });
   });
 
   describe('click method', () => {
     describe('successful operations', () => {
       test('should click element by selector successfully', async () => {
-        // Setup mocks
-        mockScrollToElement.mockResolvedValue({
-          success: true,
-          data: undefined,
-          code: ErrorCode.OK,
-          timestamp: new Date().toISOString()
-        });
-
-        mockValidateElementVisibility.mockResolvedValue({
-          success: true,
-          data: {
-            visible: true,
-            clickable: true,
-            coordinates: { x: 100, y: 200 }
-          },
-          code: ErrorCode.OK,
-          timestamp: new Date().toISOString()
-        });
-
         mockMouseClick.mockResolvedValue({
           success: true,
           data: {
@@ -96,8 +83,8 @@ describe('MouseCommand', () => {
         expect(result.success).toBe(true);
         expect(result.data?.action).toBe('click');
         expect(result.data?.coordinates).toEqual({ x: 100, y: 200 });
-        expect(mockScrollToElement).toHaveBeenCalledWith('#test-button', false, 1, 1, 5000);
-        expect(mockValidateElementVisibility).toHaveBeenCalledWith('#test-button', 1);
+        expect(mockWaitForActionable).toHaveBeenCalledWith('#test-button', { windowIndex: 1, label: '#test-button' });
+        expect(mockScrollToElement).not.toHaveBeenCalled();
         expect(mockMouseClick).toHaveBeenCalledWith({
           selector: '#test-button'
         });
@@ -121,7 +108,7 @@ describe('MouseCommand', () => {
         expect(result.success).toBe(true);
         expect(result.data?.coordinates).toEqual({ x: 150, y: 250 });
         expect(mockScrollToElement).not.toHaveBeenCalled();
-        expect(mockValidateElementVisibility).not.toHaveBeenCalled();
+        expect(mockWaitForActionable).not.toHaveBeenCalled();
         expect(mockMouseClick).toHaveBeenCalledWith({
           x: 150,
           y: 250
@@ -153,24 +140,6 @@ describe('MouseCommand', () => {
       });
 
       test('should handle offset coordinates', async () => {
-        mockScrollToElement.mockResolvedValue({
-          success: true,
-          data: undefined,
-          code: ErrorCode.OK,
-          timestamp: new Date().toISOString()
-        });
-
-        mockValidateElementVisibility.mockResolvedValue({
-          success: true,
-          data: {
-            visible: true,
-            clickable: true,
-            coordinates: { x: 100, y: 200 }
-          },
-          code: ErrorCode.OK,
-          timestamp: new Date().toISOString()
-        });
-
         mockMouseClick.mockResolvedValue({
           success: true,
           data: {
@@ -289,88 +258,86 @@ describe('MouseCommand', () => {
       });
     });
 
-    describe('element visibility validation', () => {
-      test('should fail when element visibility validation fails', async () => {
-        mockScrollToElement.mockResolvedValue({
-          success: true,
-          data: undefined,
-          code: ErrorCode.OK,
-          timestamp: new Date().toISOString()
-        });
-
-        mockValidateElementVisibility.mockResolvedValue({
+    describe('actionability checks', () => {
+      test('should report why the element is not actionable', async () => {
+        mockWaitForActionable.mockResolvedValue({
           success: false,
-          error: 'Element not found',
-          code: ErrorCode.TARGET_NOT_FOUND,
-          timestamp: new Date().toISOString()
+          error: 'Element "#buy" is not actionable: covered by div.modal-backdrop (waited 5000ms, 50 attempts)',
+          code: ErrorCode.ELEMENT_NOT_INTERACTABLE,
+          timestamp: new Date().toISOString(),
+          context: { metadata: { check: 'receives-events', reason: 'covered by div.modal-backdrop' } }
         });
 
         const result = await command.click({
-          selector: '#missing-element'
+          selector: '#buy'
         });
 
         expect(result.success).toBe(false);
-        expect(result.error).toContain('Element validation failed: Element not found');
-        expect(result.code).toBe(ErrorCode.JAVASCRIPT_ERROR);
-        expect(result.context?.recoveryHint).toBe('check_target');
+        expect(result.error).toContain('covered by div.modal-backdrop');
+        expect(result.code).toBe(ErrorCode.ELEMENT_NOT_INTERACTABLE);
+        expect(result.context?.recoveryHint).toBe('retry_with_delay');
+        expect(result.context?.metadata).toMatchObject({ check: 'receives-events', selector: '#buy', operation: 'click' });
+        expect(mockMouseClick).not.toHaveBeenCalled();
       });
 
-      test('should fail when element is not visible', async () => {
-        mockScrollToElement.mockResolvedValue({
-          success: true,
-          data: undefined,
-          code: ErrorCode.OK,
+      test('should keep the not-found and not-visible error codes', async () => {
+        mockWaitForActionable.mockResolvedValueOnce({
+          success: false,
+          error: 'Element "#missing" is not actionable: not attached to the DOM (waited 5000ms, 50 attempts)',
+          code: ErrorCode.TARGET_NOT_FOUND,
           timestamp: new Date().toISOString()
         });
+        const missing = await command.click({ selector: '#missing' });
+        expect(missing.code).toBe(ErrorCode.TARGET_NOT_FOUND);
+        expect(missing.context?.recoveryHint).toBe('check_target');
 
-        mockValidateElementVisibility.mockResolvedValue({
-          success: true,
-          data: {
-            visible: false,
-            clickable: true,
-            coordinates: { x: 100, y: 200 }
-          },
-          code: ErrorCode.OK,
+        mockWaitForActionable.mockResolvedValueOnce({
+          success: false,
+          error: 'Element "#hidden" is not actionable: not visible (empty bounding box) (waited 5000ms, 50 attempts)',
+          code: ErrorCode.ELEMENT_NOT_VISIBLE,
           timestamp: new Date().toISOString()
         });
+        const hidden = await command.click({ selector: '#hidden' });
+        expect(hidden.code).toBe(ErrorCode.ELEMENT_NOT_VISIBLE);
+        expect(hidden.context?.recoveryHint).toBe('retry');
+      });
 
-        const result = await command.click({
-          selector: '#hidden-element'
+      test('should pass the click point offset and timeout to the checks', async () => {
+        mockMouseClick.mockResolvedValue({
+          success: true,
+          data: { action: 'click', coordinates: { x: 110, y: 190 } },
+          code: ErrorCode.OK
         });
 
-        expect(result.success).toBe(false);
-        expect(result.error).toContain('Element "#hidden-element" is not visible');
-        expect(result.code).toBe(ErrorCode.ELEMENT_NOT_VISIBLE);
-        expect(result.context?.recoveryHint).toBe('retry');
+        await command.click({ selector: '#menu', offsetX: 10, offsetY: -10, timeoutMs: 20000, windowIndex: 2 });
+
+        expect(mockWaitForActionable).toHaveBeenCalledWith('#menu', {
+          windowIndex: 2,
+          label: '#menu',
+          offsetX: 10,
+          offsetY: -10,
+          timeoutMs: 20000
+        });
       });
 
-      test('should fail when element is not clickable', async () => {
+      test('should only scroll the element into view when forced', async () => {
         mockScrollToElement.mockResolvedValue({
           success: true,
           data: undefined,
           code: ErrorCode.OK,
           timestamp: new Date().toISOString()
         });
-
-        mockValidateElementVisibility.mockResolvedValue({
+        mockMouseClick.mockResolvedValue({
           success: true,
-          data: {
-            visible: true,
-            clickable: false,
-            coordinates: { x: 100, y: 200 }
-          },
-          code: ErrorCode.OK,
-          timestamp: new Date().toISOString()
+          data: { action: 'click', coordinates: { x: 100, y: 200 } },
+          code: ErrorCode.OK
         });
 
-        const result = await command.click({
-          selector: '#disabled-element'
-        });
+        const result = await command.click({ selector: '#covered', force: true });
 
-        expect(result.success).toBe(false);
-        expect(result.error).toContain('Element "#disabled-element" is not clickable');
-        expect(result.code).toBe(ErrorCode.ELEMENT_NOT_INTERACTABLE);
-        expect(result.context?.recoveryHint).toBe('retry_with_delay');
+        expect(result.success).toBe(true);
+        expect(mockWaitForActionable).not.toHaveBeenCalled();
+        expect(mockScrollToElement).toHaveBeenCalledWith('#covered', false, 1, 1, 5000);
       });
     });
 
@@ -567,24 +534,6 @@ describe('MouseCommand', () => {
 
   describe('doubleClick method', () => {
     test('should double-click element successfully', async () => {
-      mockScrollToElement.mockResolvedValue({
-        success: true,
-        data: undefined,
-        code: ErrorCode.OK,
-        timestamp: new Date().toISOString()
-      });
-
-      mockValidateElementVisibility.mockResolvedValue({
-        success: true,
-        data: {
-          visible: true,
-          clickable: true,
-          coordinates: { x: 100, y: 200 }
-        },
-        code: ErrorCode.OK,
-        timestamp: new Date().toISOString()
-      });
-
       mockMouseDoubleClick.mockResolvedValue({
         success: true,
         data: {
@@ -600,8 +549,8 @@ describe('MouseCommand', () => {
 
       expect(result.success).toBe(true);
       expect(result.data?.action).toBe('double-click');
-      expect(mockScrollToElement).toHaveBeenCalledWith('#double-click-target', false, 1, 1, 5000);
-      expect(mockValidateElementVisibility).toHaveBeenCalledWith('#double-click-target', 1);
+      expect(mockWaitForActionable).toHaveBeenCalledWith('#double-click-target', { windowIndex: 1, label: '#double-click-target' });
+      expect(mockScrollToElement).not.toHaveBeenCalled();
       expect(mockMouseDoubleClick).toHaveBeenCalledWith({
         selector: '#double-click-target'
       });
@@ -649,24 +598,6 @@ describe('MouseCommand', () => {
 
   describe('rightClick method', () => {
     test('should right-click element successfully', async () => {
-      mockScrollToElement.mockResolvedValue({
-        success: true,
-        data: undefined,
-        code: ErrorCode.OK,
-        timestamp: new Date().toISOString()
-      });
-
-      mockValidateElementVisibility.mockResolvedValue({
-        success: true,
-        data: {
-          visible: true,
-          clickable: true,
-          coordinates: { x: 150, y: 250 }
-        },
-        code: ErrorCode.OK,
-        timestamp: new Date().toISOString()
-      });
-
       mockMouseRightClick.mockResolvedValue({
         success: true,
         data: {
@@ -682,8 +613,8 @@ describe('MouseCommand', () => {
 
       expect(result.success).toBe(true);
       expect(result.data?.action).toBe('right-click');
-      expect(mockScrollToElement).toHaveBeenCalledWith('#context-menu-target', false, 1, 1, 5000);
-      expect(mockValidateElementVisibility).toHaveBeenCalledWith('#context-menu-target', 1);
+      expect(mockWaitForActionable).toHaveBeenCalledWith('#context-menu-target', { windowIndex: 1, label: '#context-menu-target' });
+      expect(mockScrollToElement).not.toHaveBeenCalled();
       expect(mockMouseRightClick).toHaveBeenCalledWith({
         selector: '#context-menu-target'
       });
@@ -771,24 +702,6 @@ describe('MouseCommand', () => {
     test('should handle complex selectors', async () => {
       const complexSelector = 'div.container > ul.list li:nth-child(2) a[data-test="link"]';
       
-      mockScrollToElement.mockResolvedValue({
-        success: true,
-        data: undefined,
-        code: ErrorCode.OK,
-        timestamp: new Date().toISOString()
-      });
-
-      mockValidateElementVisibility.mockResolvedValue({
-        success: true,
-        data: {
-          visible: true,
-          clickable: true,
-          coordinates: { x: 100, y: 200 }
-        },
-        code: ErrorCode.OK,
-        timestamp: new Date().toISOString()
-      });
-
       mockMouseClick.mockResolvedValue({
         success: true,
         data: {
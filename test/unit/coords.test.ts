@@ -288,7 +288,7 @@ describe('Coordinate Math Functions', () => {
 
       // Verify the selector was properly escaped in the JavaScript
       const jsCall = mockApple.execChromeJS.mock.calls[0];
-      expect(jsCall[0]).toContain("button[title=\\'Test\\']");
+      expect(jsCall[0]).toContain(`deepQuerySelector(["button[title='Test']"])`);
     });
   });
 
@@ -536,7 +536,7 @@ describe('Coordinate Math Functions', () => {
       await validateElementVisibility("input[name='test']", 1);
 
       const jsCall = mockApple.execChromeJS.mock.calls[0];
-      expect(jsCall[0]).toContain("input[name=\\'test\\']");
+      expect(jsCall[0]).toContain(`deepQuerySelector(["input[name='test']"])`);
     });
   });
 
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for shadow root and iframe piercing lookups
+ */
+
+import { Script, createContext } from 'vm';
+import { getDeepQueryScript, deepQueryExpression } from '../../../src/lib/deep-query.js';
+import { splitPierceSelector } from '../../../src/lib/locator.js';
+
+/**
+ * Minimal DOM with just enough of the API for the deep query helpers.
+ * Selectors are `tag`, `#id`, `tag#id` or `tag[name=value]`.
+ */
+class FakeNode {
+  children: FakeElement[] = [];
+
+  constructor(public nodeType: number) {}
+
+  append(...children: FakeElement[]): this {
+    this.children.push(...children);
+    return this;
+  }
+
+  querySelector(selector: string): FakeElement | null {
+    for (const child of this.children) {
+      if (child.matches(selector)) return child;
+      const found = child.querySelector(selector);
+      if (found) return found;
+    }
+    return null;
+  }
+}
+
+class FakeElement extends FakeNode {
+  tagName: string;
+  shadowRoot: FakeNode | null = null;
+  contentDocument: FakeDocument | null = null;
+  ownerDocument!: FakeDocument;
+  clientLeft = 0;
+  clientTop = 0;
+  rect = { left: 0, top: 0, right: 0, bottom: 0, width: 0, height: 0 };
+
+  constructor(tag: string, public attributes: Record<string, string> = {}) {
+    super(1);
+    this.tagName = tag.toUpperCase();
+  }
+
+  matches(selector: string): boolean {
+    const match = selector.match(/^([a-z-]*)(?:#([\w-]+))?(?:\[name=([\w-]+)\])?$/);
+    if (!match) throw new Error(`Unsupported selector ${selector}`);
+    const [, tag, id, name] = match;
+    return (!tag || this.tagName === tag.toUpperCase()) &&
+      (!id || this.attributes.id === id) &&
+      (!name || this.attributes.name === name);
+  }
+
+  getBoundingClientRect() {
+    return this.rect;
+  }
+}
+
+class FakeDocument extends FakeNode {
+  defaultView: { frameElement: FakeElement | null; getComputedStyle: () => { paddingLeft: string; paddingTop: string } };
+
+  constructor(frameElement: FakeElement | null = null) {
+    super(9);
+    this.defaultView = { frameElement, getComputedStyle: () => ({ paddingLeft: '0', paddingTop: '0' }) };
+  }
+
+  get documentElement(): FakeElement | undefined {
+    return this.children[0];
+  }
+}
+
+function el(tag: string, attributes: Record<string, string> = {}, ...children: FakeElement[]): FakeElement {
+  return new FakeElement(tag, attributes).append(...children);
+}
+
+function adopt(node: FakeNode, owner: FakeDocument): void {
+  for (const child of node.children) {
+    child.ownerDocument = owner;
+    adopt(child, owner);
+    if (child.shadowRoot) adopt(child.shadowRoot, owner);
+  }
+}
+
+/**
+ * Top document with a web component holding a button in its shadow root and
+ * an iframe at (100, 200) whose document contains a card input
+ */
+function buildPage() {
+  const document = new FakeDocument();
+  const button = el('button', { id: 'save' });
+  const host = el('my-app', { id: 'app' });
+  host.shadowRoot = new FakeNode(11).append(el('div', {}, button));
+
+  const frame = el('iframe', { id: 'pay' });
+  frame.rect = { left: 100, top: 200, right: 500, bottom: 400, width: 400, height: 200 };
+  frame.clientLeft = 1;
+  frame.clientTop = 1;
+  const frameDocument = new FakeDocument(frame);
+  const card = el('input', { name: 'card' });
+  card.rect = { left: 10, top: 20, right: 210, bottom: 50, width: 200, height: 30 };
+  frameDocument.append(el('html', {}, el('body', {}, card)));
+  frame.contentDocument = frameDocument;
+
+  document.append(el('html', {}, el('body', {}, host, frame)));
+  adopt(document, document);
+  adopt(frameDocument, frameDocument);
+  return { document, button, frame, card };
+}
+
+function run<T>(page: ReturnType<typeof buildPage>, expression: string): T {
+  const context = createContext({ document: page.document, Node: { ELEMENT_NODE: 1, DOCUMENT_NODE: 9 } });
+  return new Script(`${getDeepQueryScript()}\n${expression}`).runInContext(context) as T;
+}
+
+describe('Deep query', () => {
+  it('should split selectors on >>> outside quotes and brackets', () => {
+    expect(splitPierceSelector('iframe#pay >>> input[name=card]')).toEqual(['iframe#pay', 'input[name=card]']);
+    expect(splitPierceSelector('a[title=">>>"]')).toEqual(['a[title=">>>"]']);
+    expect(deepQueryExpression('my-app >>> button')).toBe('deepQuerySelector(["my-app","button"])');
+  });
+
+  it('should find elements in open shadow roots without a combinator', () => {
+    const page = buildPage();
+    expect(run(page, deepQueryExpression('#save'))).toBe(page.button);
+    expect(run(page, deepQueryExpression('#missing'))).toBeNull();
+  });
+
+  it('should follow >>> into shadow roots and frames', () => {
+    const page = buildPage();
+    expect(run(page, deepQueryExpression('my-app >>> button'))).toBe(page.button);
+    expect(run(page, deepQueryExpression('iframe#pay >>> input[name=card]'))).toBe(page.card);
+    expect(run(page, deepQueryExpression('input[name=card]'))).toBe(page.card);
+    expect(run(page, 'deepQuerySelectorAll(["iframe", "input"])')).toEqual([page.card]);
+  });
+
+  it('should refuse to enter cross-origin frames', () => {
+    const page = buildPage();
+    page.frame.contentDocument = null;
+    expect(() => run(page, deepQueryExpression('iframe#pay >>> input'))).toThrow('cross-origin frame "iframe#pay"');
+  });
+
+  it('should translate rects inside frames into the top-level viewport', () => {
+    const page = buildPage();
+    const rect = run<{ left: number; top: number; width: number }>(page, `viewportRect(${deepQueryExpression('iframe#pay >>> input')})`);
+    expect(rect).toMatchObject({ left: 111, top: 221, width: 200 });
+  });
+});
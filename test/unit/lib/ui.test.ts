@@ -19,6 +19,7 @@ import {
 import { ErrorCode } from '../../../src/core/ErrorCodes.js';
 import * as util from '../../../src/lib/util.js';
 import * as apple from '../../../src/lib/apple.js';
+import * as recording from '../../../src/lib/recording.js';
 
 // Mock the util library
 jest.mock('../../../src/lib/util.js', () => ({
@@ -38,9 +39,15 @@ jest.mock('../../../src/lib/apple.js', () => ({
   focusChromeWindow: jest.fn()
 }));
 
+// Mock the recording state file
+jest.mock('../../../src/lib/recording.js', () => ({
+  recordInputEvent: jest.fn()
+}));
+
 const mockExecWithTimeout = util.execWithTimeout as jest.MockedFunction<typeof util.execWithTimeout>;
 const mockSleep = util.sleep as jest.MockedFunction<typeof util.sleep>;
 const mockFocusChromeWindow = apple.focusChromeWindow as jest.MockedFunction<typeof apple.focusChromeWindow>;
+const mockRecordInputEvent = recording.recordInputEvent as jest.MockedFunction<typeof recording.recordInputEvent>;
 
 describe('UI Library', () => {
   beforeEach(() => {
@@ -373,6 +380,14 @@ describe('UI Library', () => {
       expect(mockExecWithTimeout).toHaveBeenCalledWith('cliclick', ['t:Text with \\"quotes\\" and \\\\backslashes and \\\'apostrophes\\\''], 10000);
     });
 
+    test('should record masked text as asterisks', async () => {
+      await typeText('hunter2', { maskSecret: true });
+      await typeText('visible');
+
+      expect(mockRecordInputEvent).toHaveBeenNthCalledWith(1, { type: 'type', text: '*******' });
+      expect(mockRecordInputEvent).toHaveBeenNthCalledWith(2, { type: 'type', text: 'visible' });
+    });
+
     test('should use custom window index', async () => {
       const result = await typeText('test', { windowIndex: 2 });
 